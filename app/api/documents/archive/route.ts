@@ -0,0 +1,73 @@
+import { Readable } from 'stream'
+import { NextRequest, NextResponse } from 'next/server'
+import { format } from 'date-fns'
+import { createClient } from '@/utils/supabase/server'
+import { createClient as createServiceClient } from '@/utils/supabase/service-client'
+import { fetchArchivedDocuments, logDocumentEvents, streamDocumentArchive } from '@/lib/supabase/document-archive'
+
+// Storage downloads and hashing need Node.js
+export const runtime = 'nodejs'
+
+/**
+ * Year-end "Belegarchiv" of the expenses of a year (?year=YYYY) as ZIP
+ * The archive is streamed while the files are read from the storage, so a
+ * year of receipts is never held in memory at once
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Authentifizierung fehlgeschlagen' },
+      { status: 401 }
+    )
+  }
+
+  const year = Number(request.nextUrl.searchParams.get('year'))
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return NextResponse.json(
+      { error: 'Ungültiges Jahr' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    // Documents are read with the service role like in the document actions
+    const serviceSupabase = await createServiceClient()
+    const { data: documents, error } = await fetchArchivedDocuments(serviceSupabase, user.id, year)
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Fehler beim Laden der Belege' },
+        { status: 500 }
+      )
+    }
+
+    if (documents.length === 0) {
+      return NextResponse.json(
+        { error: `Keine Belege für ${year} vorhanden` },
+        { status: 404 }
+      )
+    }
+
+    await logDocumentEvents(serviceSupabase, user.id, documents.map(document => document.id), 'export', { year })
+
+    const filename = `Belegarchiv_${year}_${format(new Date(), 'yyyy-MM-dd')}.zip`
+    const stream = Readable.toWeb(streamDocumentArchive(serviceSupabase, documents)) as ReadableStream<Uint8Array>
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('[document archive] Error:', error)
+    return NextResponse.json(
+      { error: 'Fehler beim Erstellen des Belegarchivs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse, after } from 'next/server'
+import { simpleParser, type AddressObject } from 'mailparser'
+import { createClient } from '@/utils/supabase/service-client'
+import { runOcrQueue } from '@/lib/supabase/document-ocr'
+import { findInboxUser, ingestInboxDocument } from '@/lib/supabase/receipt-inbox'
+import { inboxTokenFromRecipients, mailSourceDetail, selectReceiptAttachments } from '@/lib/utils/receipt-inbox'
+
+// Mail parsing and hashing need Node.js
+export const runtime = 'nodejs'
+
+// Raw e-mails with attachments, a little above the 10MB per document
+const MAX_MESSAGE_SIZE = 25 * 1024 * 1024
+
+function addressTexts(addresses: AddressObject | AddressObject[] | undefined): string[] {
+  if (!addresses) return []
+  return (Array.isArray(addresses) ? addresses : [addresses]).flatMap(address =>
+    address.value.map(entry => entry.address ?? '')
+  )
+}
+
+// Constant-time comparison; hashing first gives both sides the same length
+function secretMatches(received: string | null, secret: string): boolean {
+  if (received === null) return false
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(received), digest(secret))
+}
+
+// Read the body up to the limit; null once it is exceeded, whatever the
+// Content-Length said
+async function readBody(request: NextRequest, limit: number): Promise<Buffer | null> {
+  if (!request.body) return Buffer.alloc(0)
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+// Address headers such as Delivered-To are parsed into address objects
+function headerText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (value && typeof value === 'object' && 'text' in value) return String(value.text)
+  return ''
+}
+
+/**
+ * Inbound e-mail webhook of the receipt inbox
+ * Receives the raw message (RFC 822) from the mail provider, or from
+ * scripts/inbox-smtp-server.js during development, authenticated by the
+ * x-inbox-secret header. The recipient's ingest address selects the user;
+ * receipt attachments go into the inbox.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.INBOX_WEBHOOK_SECRET
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Receipt inbox is not configured' },
+      { status: 503 }
+    )
+  }
+  if (!secretMatches(request.headers.get('x-inbox-secret'), secret)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_MESSAGE_SIZE) {
+    return NextResponse.json(
+      { error: 'Message too large' },
+      { status: 413 }
+    )
+  }
+
+  try {
+    const raw = await readBody(request, MAX_MESSAGE_SIZE)
+    if (!raw) {
+      return NextResponse.json(
+        { error: 'Message too large' },
+        { status: 413 }
+      )
+    }
+
+    const mail = await simpleParser(raw)
+
+    // The envelope recipient is passed along, as Bcc does not show in the headers
+    const recipients = [
+      request.headers.get('x-inbox-recipient') ?? '',
+      ...addressTexts(mail.to),
+      ...addressTexts(mail.cc),
+      headerText(mail.headers.get('delivered-to')),
+      headerText(mail.headers.get('x-original-to'))
+    ]
+    const token = inboxTokenFromRecipients(recipients)
+    const supabase = await createClient()
+    const userId = token ? await findInboxUser(supabase, token) : null
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unknown recipient' },
+        { status: 404 }
+      )
+    }
+
+    const sourceDetail = mailSourceDetail(mail.from?.text ?? null, mail.subject ?? null)
+    const errors: string[] = []
+    let received = 0
+
+    for (const { attachment, type } of selectReceiptAttachments(mail.attachments)) {
+      const result = await ingestInboxDocument(
+        supabase,
+        userId,
+        { name: attachment.filename || 'beleg', type, content: attachment.content },
+        'email',
+        sourceDetail
+      )
+      if (result.error) errors.push(result.error)
+      else received++
+    }
+
+    if (received > 0) {
+      after(() => runOcrQueue(supabase))
+    }
+
+    // Messages without receipts are accepted, so the provider does not retry them
+    return NextResponse.json({ received, errors })
+  } catch (error) {
+    console.error('[inbox email] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process message' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@/utils/supabase/service-client'
+import { runOcrQueue } from '@/lib/supabase/document-ocr'
+import { findInboxUser, ingestInboxDocument } from '@/lib/supabase/receipt-inbox'
+
+// Hashing and the OCR queue need Node.js
+export const runtime = 'nodejs'
+
+/**
+ * Upload endpoint of the watched folder (scripts/inbox-watch-folder.js)
+ * Authenticated by the user's ingest token ("Authorization: Bearer <token>");
+ * takes the document as multipart field "file" and its path in the folder
+ * as "path"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1]
+    const supabase = await createClient()
+    const userId = token ? await findInboxUser(supabase, token) : null
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const path = formData.get('path')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'Missing file' },
+        { status: 400 }
+      )
+    }
+
+    const result = await ingestInboxDocument(
+      supabase,
+      userId,
+      { name: file.name, type: file.type, content: new Uint8Array(await file.arrayBuffer()) },
+      'folder',
+      typeof path === 'string' && path ? path.slice(0, 500) : null
+    )
+
+    if (result.error) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      )
+    }
+
+    after(() => runOcrQueue(supabase))
+
+    return NextResponse.json({ id: result.data!.id })
+  } catch (error) {
+    console.error('[inbox upload] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to store document' },
+      { status: 500 }
+    )
+  }
+}
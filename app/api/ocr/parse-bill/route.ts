@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/utils/supabase/server'
 import { parseBillImage } from '@/lib/actions/documents'
+import { extractDocumentText } from '@/lib/ocr-utils'
+import { OCR_FILE_TYPES } from '@/lib/constants'
 
+// OCR runs in Node.js with the bundled Tesseract.js and PDF.js
+export const runtime = 'nodejs'
+
+/**
+ * Extract the text of an uploaded bill (multipart field "file") on the
+ * server and parse it into expense data
+ */
 export async function POST(request: NextRequest) {
   try {
     // Authenticate user
@@ -15,27 +24,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { imageBase64, extractedText } = await request.json()
+    const formData = await request.formData()
+    const file = formData.get('file')
 
-    if (!imageBase64 || !extractedText) {
+    if (!(file instanceof File)) {
       return NextResponse.json(
-        { error: 'Missing imageBase64 or extractedText' },
+        { error: 'Missing file' },
         { status: 400 }
       )
     }
 
-    // Validate image size (max 10MB)
-    const imageSizeBytes = (imageBase64.length * 3) / 4
+    if (!OCR_FILE_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: 'Dateityp nicht unterstützt. Erlaubt: JPG, PNG, WebP, PDF' },
+        { status: 415 }
+      )
+    }
+
+    // Validate file size (max 10MB)
     const maxSizeBytes = 10 * 1024 * 1024 // 10MB
-    if (imageSizeBytes > maxSizeBytes) {
+    if (file.size > maxSizeBytes) {
       return NextResponse.json(
-        { error: 'Image too large (max 10MB)' },
+        { error: 'Datei ist zu groß (Maximum: 10MB)' },
         { status: 413 }
       )
     }
 
+    let extractedText: string
+    try {
+      extractedText = await extractDocumentText(new Uint8Array(await file.arrayBuffer()), file.type)
+    } catch (ocrError) {
+      return NextResponse.json(
+        { error: ocrError instanceof Error ? ocrError.message : 'Texterkennung fehlgeschlagen' },
+        { status: 422 }
+      )
+    }
+
     // Call the server action to parse the bill
-    const result = await parseBillImage(imageBase64, extractedText)
+    const result = await parseBillImage(extractedText)
 
     return NextResponse.json(result)
   } catch (error) {
@@ -1,5 +1,7 @@
 import { getExpenses } from '@/lib/actions/expenses'
+import { getAssets } from '@/lib/actions/assets'
 import { ExpenseList } from '@/components/dashboard/expense-list'
+import { AssetRegister } from '@/components/dashboard/asset-register'
 import { RelatedPages } from '@/components/dashboard/related-pages'
 
 export const dynamic = 'force-dynamic'
@@ -10,12 +12,13 @@ export const metadata = {
 }
 
 export default async function AusgabenPage() {
-  const expenses = await getExpenses()
+  const [expenses, assets] = await Promise.all([getExpenses(), getAssets()])
 
   return (
     <main className="min-h-screen bg-white dark:bg-neutral-950">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <ExpenseList expenses={expenses} />
+        <AssetRegister assets={assets} expenses={expenses} />
         <RelatedPages currentPage="/dashboard/ausgaben" />
       </div>
     </main>
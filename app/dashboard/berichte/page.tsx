@@ -4,6 +4,7 @@ import {
   getDashboardSummary
 } from '@/lib/actions/dashboard'
 import { getAdvancedAnalytics } from '@/lib/actions/analytics'
+import { getTariffComparison } from '@/lib/actions/kassentarife'
 import { ReportsView } from '@/components/dashboard/reports-view'
 import { RelatedPages } from '@/components/dashboard/related-pages'
 
@@ -28,6 +29,7 @@ export default async function BerichtePage() {
   const therapyMetrics = await getTherapyMetrics()
   const summary = await getDashboardSummary()
   const analytics = await getAdvancedAnalytics()
+  const tariffComparison = await getTariffComparison()
 
   return (
     <main className="min-h-screen bg-white dark:bg-neutral-950">
@@ -37,6 +39,7 @@ export default async function BerichtePage() {
           therapyMetrics={therapyMetrics}
           summary={summary}
           analytics={analytics}
+          tariffComparison={tariffComparison}
         />
         <RelatedPages currentPage="/dashboard/berichte" />
       </div>
@@ -2,6 +2,9 @@
 
 import { getPracticeSettings } from '@/lib/actions/settings'
 import { SettingsForm } from '@/components/dashboard/settings-form'
+import { PaymentFeeProfiles } from '@/components/dashboard/payment-fee-profiles'
+import { ExpenseCategoryRules } from '@/components/dashboard/expense-category-rules'
+import { SvsAssessmentHistory } from '@/components/dashboard/svs-assessment-history'
 import { MfaEnroll } from '@/components/auth/mfa-enroll'
 import { RelatedPages } from '@/components/dashboard/related-pages'
 import { Settings, Lock } from 'lucide-react'
@@ -44,6 +47,21 @@ export default function EinstellungenPage() {
             {/* Practice Settings Form */}
             <SettingsForm settings={settings} onSaveSuccess={loadSettings} />
 
+            {/* Payment Fee Profiles */}
+            <div className="pt-8 border-t border-neutral-200 dark:border-neutral-800">
+              <PaymentFeeProfiles />
+            </div>
+
+            {/* Expense Category Rules */}
+            <div className="pt-8 border-t border-neutral-200 dark:border-neutral-800">
+              <ExpenseCategoryRules />
+            </div>
+
+            {/* SVS history and Nachbemessung */}
+            <div className="pt-8 border-t border-neutral-200 dark:border-neutral-800">
+              <SvsAssessmentHistory />
+            </div>
+
             {/* Security Section */}
             <div className="pt-8 border-t border-neutral-200 dark:border-neutral-800">
               <div className="space-y-4 mb-6">
@@ -1,16 +1,21 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { RelatedPages } from '@/components/dashboard/related-pages'
 import { TaxInputForm } from '@/components/tax-forecast/tax-input-form'
 import { TaxCalculationSummary } from '@/components/tax-forecast/tax-calculation-summary'
 import { ScenarioComparison } from '@/components/tax-forecast/scenario-comparison'
+import { GewinnfreibetragPlanner } from '@/components/tax-forecast/gewinnfreibetrag-planner'
+import { PrepaymentTracker } from '@/components/tax-forecast/prepayment-tracker'
+import { MultiYearProjection } from '@/components/tax-forecast/multi-year-projection'
 import type {
   ComprehensiveTaxInput,
   ComprehensiveTaxResult,
+  TaxProjection,
   TaxScenario,
 } from '@/lib/types/tax-types'
 import { calculateComprehensiveTax } from '@/lib/utils/comprehensive-tax'
+import { comparePauschalierung } from '@/lib/utils/pauschalierung-optimizer'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Button } from '@/components/ui/button'
@@ -18,28 +23,76 @@ import { Input } from '@/components/ui/input'
 import { Plus, AlertCircle } from 'lucide-react'
 
 export default function SteuerprognosePage() {
-  const [activeTab, setActiveTab] = useState<'calculator' | 'comparison'>('calculator')
+  const [activeTab, setActiveTab] = useState<'calculator' | 'projection' | 'comparison'>('calculator')
   const [currentResult, setCurrentResult] = useState<ComprehensiveTaxResult | null>(null)
+  // Input behind currentResult, null for results of saved scenarios
+  const [currentInput, setCurrentInput] = useState<ComprehensiveTaxInput | null>(null)
+  // Recorded qualifying investments per tax year (Gewinnfreibetrag planner)
+  const [investmentTotals, setInvestmentTotals] = useState<Record<number, number>>({})
   const [scenarios, setScenarios] = useState<TaxScenario[]>([])
+  // Baseline and alternative of the multi-year projection
+  const [projections, setProjections] = useState<TaxProjection[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [scenarioName, setScenarioName] = useState('')
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null)
 
-  const handleCalculate = useCallback((input: ComprehensiveTaxInput) => {
+  const pauschalierungComparison = useMemo(
+    () => (currentInput ? comparePauschalierung(currentInput) : null),
+    [currentInput]
+  )
+
+  const handleCalculate = useCallback((input: ComprehensiveTaxInput, options?: { live: boolean }) => {
+    // A saved scenario on screen is not replaced by live updates
+    if (options?.live && currentResult && !currentInput) {
+      return
+    }
+
     setIsLoading(true)
     try {
-      // Calculate taxes
-      const result = calculateComprehensiveTax(input)
+      // Calculate taxes with the recorded investments of the year
+      const taxYear = input.taxYear || new Date().getFullYear()
+      const withInvestments: ComprehensiveTaxInput = input.selfEmployment
+        ? {
+            ...input,
+            selfEmployment: {
+              ...input.selfEmployment,
+              qualifyingInvestments: investmentTotals[taxYear] ?? 0,
+            },
+          }
+        : input
+      const result = calculateComprehensiveTax(withInvestments)
       setCurrentResult(result)
-      setShowSaveDialog(true)
+      setCurrentInput(withInvestments)
+      // Live updates from the recorded data keep the estimate on screen without asking to save it
+      if (!options?.live) {
+        setShowSaveDialog(true)
+      }
     } catch (error) {
       console.error('Calculation error:', error)
       // Error handling would go here
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [investmentTotals, currentResult, currentInput])
+
+  const handleInvestmentsChange = useCallback((taxYear: number, total: number) => {
+    setInvestmentTotals((prev) => (prev[taxYear] === total ? prev : { ...prev, [taxYear]: total }))
+
+    // Recalculate the current estimate if it is for this year and the total changed
+    if (
+      currentInput?.selfEmployment &&
+      currentResult?.taxYear === taxYear &&
+      currentInput.selfEmployment.qualifyingInvestments !== total
+    ) {
+      const input: ComprehensiveTaxInput = {
+        ...currentInput,
+        selfEmployment: { ...currentInput.selfEmployment, qualifyingInvestments: total },
+      }
+      setCurrentInput(input)
+      setCurrentResult(calculateComprehensiveTax(input))
+    }
+  }, [currentInput, currentResult])
 
   const handleSaveScenario = useCallback(() => {
     if (!currentResult || !scenarioName.trim()) {
@@ -50,10 +103,7 @@ export default function SteuerprognosePage() {
       id: `scenario-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       userId: 'current-user', // This would come from auth in a real app
       scenarioName: scenarioName,
-      input: {
-        // The input would need to be stored with the result
-        taxYear: currentResult.taxYear,
-      },
+      input: currentInput ?? { taxYear: currentResult.taxYear },
       result: currentResult,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -66,7 +116,7 @@ export default function SteuerprognosePage() {
     if (scenarios.length > 0) {
       setActiveTab('comparison')
     }
-  }, [currentResult, scenarioName, scenarios.length])
+  }, [currentResult, currentInput, scenarioName, scenarios.length])
 
   const handleDeleteScenario = useCallback((scenarioId: string) => {
     setScenarios((prev) => prev.filter((s) => s.id !== scenarioId))
@@ -79,6 +129,7 @@ export default function SteuerprognosePage() {
     const scenario = scenarios.find((s) => s.id === scenarioId)
     if (scenario) {
       setCurrentResult(scenario.result)
+      setCurrentInput(null)
       setSelectedScenarioId(scenarioId)
       setActiveTab('calculator')
     }
@@ -123,10 +174,19 @@ export default function SteuerprognosePage() {
         </Card>
 
         {/* Tabs */}
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'calculator' | 'comparison')} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 min-h-[44px]">
+        <Tabs
+          value={activeTab}
+          onValueChange={(v) => setActiveTab(v as 'calculator' | 'projection' | 'comparison')}
+          className="space-y-6"
+        >
+          <TabsList className="grid w-full grid-cols-3 min-h-[44px]">
             <TabsTrigger value="calculator" className="min-h-[44px]">Steuerschätzung</TabsTrigger>
-            <TabsTrigger value="comparison" disabled={scenarios.length === 0} className="min-h-[44px]">
+            <TabsTrigger value="projection" className="min-h-[44px]">Mehrjahresprognose</TabsTrigger>
+            <TabsTrigger
+              value="comparison"
+              disabled={scenarios.length === 0 && projections.length < 2}
+              className="min-h-[44px]"
+            >
               Vergleich ({scenarios.length})
             </TabsTrigger>
           </TabsList>
@@ -143,7 +203,19 @@ export default function SteuerprognosePage() {
               <div className="lg:col-span-2">
                 {currentResult ? (
                   <div className="space-y-6">
-                    <TaxCalculationSummary result={currentResult} />
+                    <TaxCalculationSummary
+                      result={currentResult}
+                      pauschalierungComparison={pauschalierungComparison}
+                    />
+
+                    {currentResult.selfEmploymentProfit > 0 && (
+                      <GewinnfreibetragPlanner
+                        result={currentResult}
+                        onInvestmentsChange={handleInvestmentsChange}
+                      />
+                    )}
+
+                    <PrepaymentTracker result={currentResult} />
 
                     {/* Save Scenario Dialog */}
                     {showSaveDialog && (
@@ -210,10 +282,16 @@ export default function SteuerprognosePage() {
             </div>
           </TabsContent>
 
+          {/* Multi-Year Projection Tab (kept mounted so the comparison keeps its curves) */}
+          <TabsContent value="projection" forceMount className="data-[state=inactive]:hidden">
+            <MultiYearProjection onProjectionsChange={setProjections} />
+          </TabsContent>
+
           {/* Comparison Tab */}
           <TabsContent value="comparison">
             <ScenarioComparison
               scenarios={scenarios}
+              projections={projections.length > 1 ? projections : []}
               selectedScenarioId={selectedScenarioId}
               onSelectScenario={handleSelectScenario}
               onDeleteScenario={handleDeleteScenario}
@@ -7,18 +7,20 @@
 
 import { useState, useEffect } from 'react'
 import { ChevronLeft, ChevronRight, X } from 'lucide-react'
-import { DataViewToggle, KPICards, MonthComparison, AnnualGoalProgress } from './primary-view'
+import { DataViewToggle, RevenueBasisToggle, KPICards, MonthComparison, AnnualGoalProgress, SvsLiabilityCard } from './primary-view'
 import { TherapyPerformanceMatrix } from './detail-view'
 import { AnimatedSection } from '@/components/ui/animated-section'
 import { getUnifiedMetrics } from '@/lib/metrics/unified-metrics'
 import { getHistoricalSnapshots } from '@/lib/metrics/historical-metrics'
 import { getPracticeSettings } from '@/lib/actions/settings'
+import { getSvsNachbemessung, type SvsNachbemessung } from '@/lib/actions/svs-assessments'
 import type {
   MetricsScope,
   ComparisonMode,
   UnifiedMetricsResponse
 } from '@/lib/metrics/unified-metrics'
 import type { MonthlySnapshot } from '@/lib/metrics/historical-metrics'
+import type { RevenueBasis } from '@/lib/types'
 
 const MONTHS = [
   'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
@@ -42,6 +44,7 @@ export function Dashboard({
 }: DashboardProps) {
   const [scope, setScope] = useState<MetricsScope>(initialScope)
   const [dataViewMode, setDataViewMode] = useState<'prognose' | 'resultate'>('prognose')
+  const [revenueBasis, setRevenueBasis] = useState<RevenueBasis>('accrual')
   // Initialize to the first day of the current month
   const [selectedDate, setSelectedDate] = useState<Date>(() => {
     const today = new Date()
@@ -56,6 +59,7 @@ export function Dashboard({
   const [previousMetrics, setPreviousMetrics] = useState<UnifiedMetricsResponse | null>(null)
   const [historicalData, setHistoricalData] = useState<MonthlySnapshot[]>([])
   const [annualGoal, setAnnualGoal] = useState<number | null>(null)
+  const [svsNachbemessung, setSvsNachbemessung] = useState<SvsNachbemessung | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -83,6 +87,7 @@ export function Dashboard({
           scope,
           compareMode: comparisonMode,
           dataViewMode,
+          revenueBasis,
           date: selectedDate
         })
         setMetrics(result)
@@ -94,6 +99,7 @@ export function Dashboard({
             scope,
             compareMode: 'none',
             dataViewMode,
+            revenueBasis,
             date: prevDate
           })
           setPreviousMetrics(prevResult)
@@ -118,6 +124,13 @@ export function Dashboard({
         } catch {
           setAnnualGoal(null)
         }
+
+        // Fetch projected SVS back payment (non-blocking)
+        try {
+          setSvsNachbemessung(await getSvsNachbemessung())
+        } catch {
+          setSvsNachbemessung(null)
+        }
       } catch (err) {
         console.error('Error fetching metrics:', err)
         setError(
@@ -129,7 +142,7 @@ export function Dashboard({
     }
 
     fetchMetrics()
-  }, [scope, comparisonMode, dataViewMode, selectedDate])
+  }, [scope, comparisonMode, dataViewMode, revenueBasis, selectedDate])
 
   // Error state
   if (error) {
@@ -340,6 +353,11 @@ export function Dashboard({
           currentMode={dataViewMode}
           onModeChange={setDataViewMode}
         />
+        {dataViewMode === 'resultate' && (
+          <div className="mt-3">
+            <RevenueBasisToggle currentBasis={revenueBasis} onBasisChange={setRevenueBasis} />
+          </div>
+        )}
       </section>
 
       {/* Tier 2: Primary KPI Cards */}
@@ -363,6 +381,13 @@ export function Dashboard({
         </section>
       )}
 
+      {/* Tier 2.3b: Upcoming SVS back payment */}
+      {svsNachbemessung && svsNachbemessung.openBackPayment > 0 && (
+        <section>
+          <SvsLiabilityCard nachbemessung={svsNachbemessung} />
+        </section>
+      )}
+
       {/* Tier 2.4: Month-over-Month Comparison */}
       <section>
         <MonthComparison
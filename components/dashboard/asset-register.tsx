@@ -0,0 +1,348 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Package, Pencil, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import type { Asset, Expense } from '@/lib/types'
+import { deleteAsset, getAssets, saveAsset } from '@/lib/actions/assets'
+import {
+  calculateDepreciationSchedule,
+  getBookValue,
+  getDepreciationForYear
+} from '@/lib/calculations/core/depreciation-calculator'
+import { ASSET_SUBCATEGORIES } from '@/lib/constants'
+import { formatDate, formatEuro } from '@/lib/utils'
+
+interface AssetRegisterProps {
+  assets: Asset[]
+  expenses: Expense[]
+}
+
+interface AssetDraft {
+  id?: string
+  expense_id: string
+  name: string
+  subcategory: string
+  acquisition_date: string
+  acquisition_cost: string
+  useful_life_years: string
+  disposal_date: string
+}
+
+const EMPTY_DRAFT: AssetDraft = {
+  expense_id: '',
+  name: '',
+  subcategory: ASSET_SUBCATEGORIES[0].subcategory,
+  acquisition_date: '',
+  acquisition_cost: '',
+  useful_life_years: String(ASSET_SUBCATEGORIES[0].usefulLife),
+  disposal_date: ''
+}
+
+const selectClassName =
+  'h-9 px-3 rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm'
+
+const isAssetSubcategory = (subcategory: string | null) =>
+  ASSET_SUBCATEGORIES.some(entry => entry.subcategory === subcategory)
+
+/**
+ * Asset register (Anlageverzeichnis) with yearly depreciation (AfA)
+ * Linked purchase expenses count with their depreciation instead of in full
+ */
+export function AssetRegister({ assets: initialAssets, expenses }: AssetRegisterProps) {
+  const [assets, setAssets] = useState(initialAssets)
+  const [draft, setDraft] = useState<AssetDraft>(EMPTY_DRAFT)
+  const [isSaving, setIsSaving] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const currentYear = new Date().getFullYear()
+
+  // Purchases in an AfA subcategory that are not yet in the register
+  const purchaseExpenses = useMemo(() => {
+    const linked = new Set(assets.filter(a => a.id !== draft.id).map(a => a.expense_id))
+    return expenses.filter(e => isAssetSubcategory(e.subcategory) && !linked.has(e.id))
+  }, [assets, expenses, draft.id])
+
+  const updateDraft = (update: Partial<AssetDraft>) => {
+    setDraft(prev => ({ ...prev, ...update }))
+  }
+
+  const handleSubcategoryChange = (subcategory: string) => {
+    const entry = ASSET_SUBCATEGORIES.find(e => e.subcategory === subcategory)
+    updateDraft({ subcategory, useful_life_years: entry ? String(entry.usefulLife) : draft.useful_life_years })
+  }
+
+  const handleExpenseChange = (expenseId: string) => {
+    const expense = expenses.find(e => e.id === expenseId)
+    if (!expense) {
+      updateDraft({ expense_id: '' })
+      return
+    }
+    const entry = ASSET_SUBCATEGORIES.find(e => e.subcategory === expense.subcategory)
+    updateDraft({
+      expense_id: expense.id,
+      name: draft.name || expense.description || expense.subcategory || '',
+      subcategory: entry?.subcategory ?? draft.subcategory,
+      acquisition_date: expense.expense_date,
+      acquisition_cost: String(expense.amount),
+      useful_life_years: entry ? String(entry.usefulLife) : draft.useful_life_years
+    })
+  }
+
+  const handleEdit = (asset: Asset) => {
+    setDraft({
+      id: asset.id,
+      expense_id: asset.expense_id ?? '',
+      name: asset.name,
+      subcategory: asset.subcategory,
+      acquisition_date: asset.acquisition_date,
+      acquisition_cost: String(asset.acquisition_cost),
+      useful_life_years: String(asset.useful_life_years),
+      disposal_date: asset.disposal_date ?? ''
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const result = await saveAsset({
+        name: draft.name,
+        subcategory: draft.subcategory,
+        acquisition_date: draft.acquisition_date,
+        acquisition_cost: parseFloat(draft.acquisition_cost.replace(',', '.')),
+        useful_life_years: parseInt(draft.useful_life_years, 10),
+        disposal_date: draft.disposal_date || null,
+        expense_id: draft.expense_id || null
+      }, draft.id)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      setAssets(await getAssets())
+      setDraft(EMPTY_DRAFT)
+      toast.success('Anlagegut gespeichert')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setRemovingId(id)
+    try {
+      const result = await deleteAsset(id)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      setAssets(prev => prev.filter(asset => asset.id !== id))
+      if (draft.id === id) setDraft(EMPTY_DRAFT)
+      toast.success('Anlagegut gelöscht')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const totalAfa = assets.reduce((sum, asset) => sum + getDepreciationForYear(asset, currentYear), 0)
+  const totalBookValue = assets.reduce((sum, asset) => sum + getBookValue(asset, currentYear), 0)
+  const canSave = !!(draft.name.trim() && draft.acquisition_date && draft.acquisition_cost && draft.useful_life_years)
+
+  return (
+    <section className="mt-12 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-2">
+        <div>
+          <h2 className="text-xl font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+            <Package className="h-5 w-5 text-neutral-500" />
+            Anlageverzeichnis
+          </h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Anschaffungen werden über die Nutzungsdauer abgeschrieben (AfA, Halbjahresregel);
+            geringwertige Wirtschaftsgüter sofort. Verknüpfte Ausgaben zählen in Auswertungen
+            und Steuerberechnung nur mit der AfA.
+          </p>
+        </div>
+        {assets.length > 0 && (
+          <div className="text-sm text-neutral-600 dark:text-neutral-400 md:text-right">
+            <div>AfA {currentYear}: <span className="font-semibold text-neutral-900 dark:text-white">{formatEuro(totalAfa)}</span></div>
+            <div>Buchwert Ende {currentYear}: <span className="font-semibold text-neutral-900 dark:text-white">{formatEuro(totalBookValue)}</span></div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 p-4 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+        <select
+          value={draft.expense_id}
+          onChange={(e) => handleExpenseChange(e.target.value)}
+          disabled={isSaving}
+          title="Anschaffung aus Ausgaben"
+          className={`${selectClassName} sm:col-span-2`}
+        >
+          <option value="">Ohne verknüpfte Ausgabe</option>
+          {purchaseExpenses.map(expense => (
+            <option key={expense.id} value={expense.id}>
+              {formatDate(expense.expense_date)} · {expense.description || expense.subcategory} · {formatEuro(expense.amount)}
+            </option>
+          ))}
+        </select>
+        <Input
+          placeholder="Bezeichnung (z.B. Ultraschallgerät)"
+          value={draft.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          disabled={isSaving}
+          className="h-9 sm:col-span-2"
+        />
+        <select
+          value={draft.subcategory}
+          onChange={(e) => handleSubcategoryChange(e.target.value)}
+          disabled={isSaving}
+          title="Kategorie"
+          className={selectClassName}
+        >
+          {ASSET_SUBCATEGORIES.map(entry => (
+            <option key={entry.subcategory} value={entry.subcategory}>
+              {entry.subcategory}
+            </option>
+          ))}
+        </select>
+        <Input
+          type="date"
+          value={draft.acquisition_date}
+          onChange={(e) => updateDraft({ acquisition_date: e.target.value })}
+          disabled={isSaving}
+          title="Anschaffung / Inbetriebnahme"
+          className="h-9"
+        />
+        <Input
+          type="number"
+          step={0.01}
+          min={0}
+          placeholder="Anschaffungskosten netto €"
+          value={draft.acquisition_cost}
+          onChange={(e) => updateDraft({ acquisition_cost: e.target.value })}
+          disabled={isSaving}
+          className="h-9"
+          inputMode="decimal"
+        />
+        <Input
+          type="number"
+          step={1}
+          min={1}
+          max={50}
+          placeholder="Nutzungsdauer (Jahre)"
+          value={draft.useful_life_years}
+          onChange={(e) => updateDraft({ useful_life_years: e.target.value })}
+          disabled={isSaving}
+          title="Nutzungsdauer in Jahren"
+          className="h-9"
+        />
+        <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400 sm:col-span-2">
+          <span className="whitespace-nowrap">Ausgeschieden am</span>
+          <Input
+            type="date"
+            value={draft.disposal_date}
+            onChange={(e) => updateDraft({ disposal_date: e.target.value })}
+            disabled={isSaving}
+            className="h-9"
+          />
+        </label>
+        <div className="sm:col-span-2 flex justify-end gap-2">
+          {draft.id && (
+            <Button type="button" variant="outline" onClick={() => setDraft(EMPTY_DRAFT)} disabled={isSaving}>
+              Abbrechen
+            </Button>
+          )}
+          <Button type="button" onClick={handleSave} disabled={isSaving || !canSave} className="w-full md:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            {isSaving ? 'Speichern...' : draft.id ? 'Anlagegut aktualisieren' : 'Anlagegut hinzufügen'}
+          </Button>
+        </div>
+      </div>
+
+      {assets.length > 0 && (
+        <div className="overflow-x-auto border border-neutral-200 dark:border-neutral-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-neutral-50 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Anlagegut</th>
+                <th className="px-4 py-2 text-left font-medium">Anschaffung</th>
+                <th className="px-4 py-2 text-right font-medium">Anschaffungskosten</th>
+                <th className="px-4 py-2 text-right font-medium">ND</th>
+                <th className="px-4 py-2 text-right font-medium">AfA {currentYear}</th>
+                <th className="px-4 py-2 text-right font-medium">Buchwert</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+              {assets.map(asset => {
+                const schedule = calculateDepreciationSchedule(asset)
+                const isExpanded = expandedId === asset.id
+                return (
+                  <Fragment key={asset.id}>
+                    <tr className="text-neutral-900 dark:text-white">
+                      <td className="px-4 py-2">
+                        <button
+                          onClick={() => setExpandedId(isExpanded ? null : asset.id)}
+                          className="flex items-center gap-1 text-left"
+                          title="Abschreibungsplan anzeigen"
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          <span className="font-medium">{asset.name}</span>
+                        </button>
+                        <div className="pl-5 text-xs text-neutral-500 dark:text-neutral-400">
+                          {asset.subcategory}
+                          {schedule[0]?.gwg && ' · GWG sofort abgeschrieben'}
+                          {asset.disposal_date && ` · ausgeschieden ${formatDate(asset.disposal_date)}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2">{formatDate(asset.acquisition_date)}</td>
+                      <td className="px-4 py-2 text-right">{formatEuro(asset.acquisition_cost)}</td>
+                      <td className="px-4 py-2 text-right">{asset.useful_life_years} J.</td>
+                      <td className="px-4 py-2 text-right">{formatEuro(getDepreciationForYear(asset, currentYear))}</td>
+                      <td className="px-4 py-2 text-right">{formatEuro(getBookValue(asset, currentYear))}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end">
+                          <button
+                            onClick={() => handleEdit(asset)}
+                            className="p-2 text-neutral-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                            title="Anlagegut bearbeiten"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(asset.id)}
+                            disabled={removingId === asset.id}
+                            className="p-2 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                            title="Anlagegut löschen"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && schedule.map(entry => (
+                      <tr key={entry.year} className="bg-neutral-50 dark:bg-neutral-900 text-xs text-neutral-600 dark:text-neutral-400">
+                        <td className="px-4 py-1 pl-9">{entry.year}</td>
+                        <td className="px-4 py-1">
+                          {entry.gwg ? 'GWG' : entry.halfYear ? 'Halbjahres-AfA' : 'Ganzjahres-AfA'}
+                        </td>
+                        <td className="px-4 py-1 text-right">{formatEuro(entry.bookValueStart)}</td>
+                        <td className="px-4 py-1" />
+                        <td className="px-4 py-1 text-right">
+                          {formatEuro(entry.depreciation)}
+                          {entry.residualWriteOff > 0 && ` + ${formatEuro(entry.residualWriteOff)} Restbuchwert`}
+                        </td>
+                        <td className="px-4 py-1 text-right">{formatEuro(entry.bookValueEnd)}</td>
+                        <td className="px-4 py-1" />
+                      </tr>
+                    ))}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,441 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { Upload, CheckCircle2, AlertCircle, Landmark } from 'lucide-react'
+import {
+  previewBankStatement,
+  importBankTransactionsAction,
+  getFlaggedBankTransactions,
+  ignoreBankTransactionAction,
+  type BankStatementPreview,
+  type FlaggedBankTransaction
+} from '@/lib/actions/bank-import'
+import { BANK_LINE_FLAG_LABELS, type BankLineFlag } from '@/lib/utils/bank-matching'
+import { BANK_STATEMENT_FORMAT_LABELS } from '@/lib/utils/bank-statement'
+import { CATEGORY_SOURCE_LABELS } from '@/lib/utils/expense-categorization'
+import { AUSTRIAN_EXPENSE_CATEGORIES } from '@/lib/constants'
+import { formatEuro } from '@/lib/utils'
+
+interface BankImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImportComplete?: () => void
+}
+
+type ImportStep = 'upload' | 'review' | 'processing' | 'complete'
+
+interface LineChoice {
+  /** "category|subcategory" of the expense to create, '' = none */
+  category: string
+  learnRule: boolean
+  bookPayment: boolean
+  ignore: boolean
+}
+
+const FLAG_STYLES: Record<BankLineFlag, string> = {
+  ok: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  missing_expense: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300',
+  missing_receipt: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300',
+  unmatched_income: 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300',
+}
+
+const CATEGORY_OPTIONS = AUSTRIAN_EXPENSE_CATEGORIES.flatMap(({ category, subcategories }) =>
+  subcategories.map(subcategory => ({ value: `${category}|${subcategory}`, category, subcategory }))
+)
+
+/**
+ * Read a statement file; CSV exports of Austrian banks are often Windows-1252 encoded
+ */
+function readStatementFile(file: File, encoding = 'utf-8'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const content = event.target?.result as string
+      if (encoding === 'utf-8' && content.includes('\uFFFD')) {
+        readStatementFile(file, 'windows-1252').then(resolve, reject)
+      } else {
+        resolve(content)
+      }
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file, encoding)
+  })
+}
+
+/**
+ * Import bank statements (CAMT.053, MT940, CSV) and match them with expenses and invoices
+ */
+export function BankImportDialog({
+  open,
+  onOpenChange,
+  onImportComplete
+}: BankImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [preview, setPreview] = useState<BankStatementPreview | null>(null)
+  const [choices, setChoices] = useState<Record<string, LineChoice>>({})
+  const [flagged, setFlagged] = useState<FlaggedBankTransaction[]>([])
+  const [isParsing, setIsParsing] = useState(false)
+
+  const loadFlagged = useCallback(async () => {
+    try {
+      setFlagged(await getFlaggedBankTransactions())
+    } catch (error) {
+      console.error('Error loading bank lines:', error)
+      setFlagged([])
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) loadFlagged()
+  }, [open, loadFlagged])
+
+  const resetDialog = useCallback(() => {
+    setStep('upload')
+    setPreview(null)
+    setChoices({})
+  }, [])
+
+  const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const uploadedFile = e.target.files?.[0]
+    if (!uploadedFile) return
+
+    setIsParsing(true)
+    try {
+      const content = await readStatementFile(uploadedFile)
+      const result = await previewBankStatement(content, uploadedFile.name)
+
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+
+      if (result.errors.length > 0) {
+        toast.warning(`${result.errors.length} Zeilen konnten nicht gelesen werden`)
+        console.error('Bank statement parse errors:', result.errors)
+      }
+
+      setPreview(result)
+      setChoices(Object.fromEntries(result.proposals.map(proposal => [
+        proposal.transaction.fingerprint,
+        {
+          category: proposal.suggestion
+            ? `${proposal.suggestion.category}|${proposal.suggestion.subcategory ?? ''}`
+            : '',
+          learnRule: proposal.suggestion?.source !== 'rule',
+          bookPayment: proposal.invoice_numbers.length > 0,
+          ignore: false
+        }
+      ])))
+      setStep('review')
+      toast.success(`${result.proposals.length} neue Buchungen gelesen`)
+    } catch (error) {
+      toast.error('Fehler beim Lesen der Datei')
+      console.error(error)
+    } finally {
+      setIsParsing(false)
+    }
+  }, [])
+
+  const updateChoice = (fingerprint: string, update: Partial<LineChoice>) => {
+    setChoices(prev => ({ ...prev, [fingerprint]: { ...prev[fingerprint], ...update } }))
+  }
+
+  const handleImport = useCallback(async () => {
+    if (!preview) return
+    setStep('processing')
+
+    try {
+      const result = await importBankTransactionsAction(
+        preview.format,
+        preview.proposals.map(proposal => {
+          const choice = choices[proposal.transaction.fingerprint]
+          const [category, subcategory] = choice.category.split('|')
+          const suggestion = proposal.suggestion
+          const recurrence = suggestion && suggestion.category === category ? suggestion.recurrence_interval : null
+          return {
+            transaction: proposal.transaction,
+            expense_id: proposal.expense_id,
+            new_expense: !proposal.expense_id && category
+              ? { category, subcategory: subcategory || null, recurrence_interval: recurrence }
+              : null,
+            learn_rule: choice.learnRule,
+            invoice_numbers: choice.bookPayment ? proposal.invoice_numbers : [],
+            ignore: choice.ignore
+          }
+        })
+      )
+
+      if (result.error) {
+        toast.error(result.error)
+        setStep('review')
+        return
+      }
+
+      toast.success(
+        `${result.imported} Buchungen importiert • ${result.expensesCreated} Ausgaben erstellt • ${result.invoicesPaid} Rechnungen bezahlt`
+      )
+      if (result.failed) {
+        toast.warning(`${result.failed} Buchungen konnten nicht zugeordnet werden und sind als offen markiert`)
+      }
+      setStep('complete')
+      await loadFlagged()
+      setTimeout(() => {
+        onImportComplete?.()
+        onOpenChange(false)
+        resetDialog()
+      }, 2000)
+    } catch (error) {
+      toast.error('Fehler beim Importieren')
+      console.error(error)
+      setStep('review')
+    }
+  }, [preview, choices, loadFlagged, onImportComplete, onOpenChange, resetDialog])
+
+  const handleIgnore = async (id: string) => {
+    const result = await ignoreBankTransactionAction(id)
+    if (result.error) {
+      toast.error(result.error)
+      return
+    }
+    setFlagged(prev => prev.filter(line => line.id !== id))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      onOpenChange(isOpen)
+      if (!isOpen) resetDialog()
+    }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Kontoauszug importieren</DialogTitle>
+          <DialogDescription>
+            CAMT.053, MT940 oder CSV von Erste, Raiffeisen, BAWAG, Bank Austria und anderen Banken
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Upload Step */}
+        {step === 'upload' && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>1. Kontoauszug hochladen</CardTitle>
+                <CardDescription>
+                  Bereits importierte Buchungen werden automatisch übersprungen
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="border-2 border-dashed border-neutral-300 dark:border-neutral-700 rounded-lg p-8 text-center">
+                  <Upload className="h-12 w-12 mx-auto mb-4 text-neutral-400" />
+                  <Input
+                    type="file"
+                    accept=".xml,.sta,.mt940,.940,.txt,.csv"
+                    onChange={handleFileUpload}
+                    disabled={isParsing}
+                    className="max-w-xs mx-auto"
+                  />
+                  <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-2">
+                    {isParsing ? 'Lese Kontoauszug...' : 'Das Format wird automatisch erkannt'}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {flagged.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Offene Bankbuchungen</CardTitle>
+                  <CardDescription>
+                    {flagged.length} Buchungen ohne Ausgabe, Beleg oder Rechnung
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                  {flagged.map(line => (
+                    <div key={line.id} className="py-2 flex items-center justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {line.counterparty_name || line.reference || 'Ohne Text'}
+                        </p>
+                        <div className="flex items-center gap-3 text-xs text-neutral-500 dark:text-neutral-400">
+                          <span>{new Date(line.booking_date).toLocaleDateString('de-DE')}</span>
+                          <span className={`px-2 py-0.5 rounded-full font-medium ${FLAG_STYLES[line.flag]}`}>
+                            {BANK_LINE_FLAG_LABELS[line.flag]}
+                          </span>
+                        </div>
+                      </div>
+                      <span className="text-sm font-semibold tabular-nums">{formatEuro(line.amount)}</span>
+                      {line.flag !== 'missing_receipt' && (
+                        <Button size="sm" variant="outline" onClick={() => handleIgnore(line.id)}>
+                          Ignorieren
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
+        {/* Review Step */}
+        {step === 'review' && preview && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>2. Buchungen prüfen</CardTitle>
+                <CardDescription>
+                  {BANK_STATEMENT_FORMAT_LABELS[preview.format]} • {preview.proposals.length} neue Buchungen
+                  {preview.duplicates > 0 && ` • ${preview.duplicates} bereits importiert`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {preview.proposals.length === 0 && (
+                  <div className="flex gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+                    <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                    Alle Buchungen dieses Auszugs wurden bereits importiert.
+                  </div>
+                )}
+
+                <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                  {preview.proposals.map(proposal => {
+                    const { transaction } = proposal
+                    const choice = choices[transaction.fingerprint]
+                    if (!choice) return null
+
+                    return (
+                      <div key={transaction.fingerprint} className={`py-3 space-y-2 ${choice.ignore ? 'opacity-50' : ''}`}>
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">
+                              {transaction.counterparty_name || 'Ohne Empfänger'}
+                            </p>
+                            <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                              {new Date(transaction.booking_date).toLocaleDateString('de-DE')}
+                              {transaction.reference && ` • ${transaction.reference}`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className={`text-sm font-semibold tabular-nums ${
+                              transaction.amount < 0 ? 'text-neutral-900 dark:text-white' : 'text-green-600 dark:text-green-400'
+                            }`}>
+                              {formatEuro(transaction.amount)}
+                            </p>
+                            <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${FLAG_STYLES[proposal.flag]}`}>
+                              {BANK_LINE_FLAG_LABELS[proposal.flag]}
+                            </span>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-4">
+                          {proposal.flag === 'missing_expense' && (
+                            <>
+                              <select
+                                value={choice.category}
+                                onChange={(e) => updateChoice(transaction.fingerprint, { category: e.target.value })}
+                                disabled={choice.ignore}
+                                title="Kategorie"
+                                className="px-3 py-2 rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm"
+                              >
+                                <option value="">Keine Ausgabe anlegen</option>
+                                {AUSTRIAN_EXPENSE_CATEGORIES.map(({ category }) => (
+                                  <optgroup key={category} label={category}>
+                                    {CATEGORY_OPTIONS.filter(o => o.category === category).map(option => (
+                                      <option key={option.value} value={option.value}>
+                                        {option.subcategory}
+                                      </option>
+                                    ))}
+                                  </optgroup>
+                                ))}
+                              </select>
+                              {proposal.suggestion && (
+                                <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                                  Vorschlag: {Math.round(proposal.suggestion.confidence * 100)} % ({CATEGORY_SOURCE_LABELS[proposal.suggestion.source]})
+                                </span>
+                              )}
+                              {choice.category && (
+                                <label className="flex items-center gap-2 text-sm">
+                                  <Checkbox
+                                    checked={choice.learnRule}
+                                    onCheckedChange={(checked) => updateChoice(transaction.fingerprint, { learnRule: checked === true })}
+                                    disabled={choice.ignore}
+                                  />
+                                  Für diesen Empfänger merken
+                                </label>
+                              )}
+                            </>
+                          )}
+
+                          {proposal.invoice_numbers.length > 0 && (
+                            <label className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={choice.bookPayment}
+                                onCheckedChange={(checked) => updateChoice(transaction.fingerprint, { bookPayment: checked === true })}
+                                disabled={choice.ignore}
+                              />
+                              Als Zahlung für {proposal.invoice_numbers.join(', ')} buchen
+                            </label>
+                          )}
+
+                          <label className="flex items-center gap-2 text-sm ml-auto">
+                            <Checkbox
+                              checked={choice.ignore}
+                              onCheckedChange={(checked) => updateChoice(transaction.fingerprint, { ignore: checked === true })}
+                            />
+                            Ignorieren
+                          </label>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button onClick={resetDialog} variant="outline" className="flex-1">
+                    Zurück
+                  </Button>
+                  <Button onClick={handleImport} className="flex-1" disabled={preview.proposals.length === 0}>
+                    <Landmark className="h-4 w-4 mr-2" />
+                    Buchungen übernehmen
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Processing Step */}
+        {step === 'processing' && (
+          <div className="py-12 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-accent-600 mx-auto mb-4"></div>
+            <p className="text-lg font-medium">Importiere Buchungen...</p>
+          </div>
+        )}
+
+        {/* Complete Step */}
+        {step === 'complete' && (
+          <div className="py-12 text-center">
+            <CheckCircle2 className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <p className="text-lg font-medium">Kontoauszug erfolgreich importiert!</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
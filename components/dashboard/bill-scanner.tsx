@@ -8,15 +8,23 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Upload, AlertCircle, CheckCircle2, Loader, Zap } from 'lucide-react'
-import { parseBillImage } from '@/lib/actions/documents'
-import { extractTextFromImage } from '@/lib/ocr-utils'
+import { parseBillImage, uploadExpenseDocument } from '@/lib/actions/documents'
+import { createExpenseAction } from '@/lib/actions/expenses'
+import { linkDuplicateExpenses } from '@/lib/actions/duplicates'
 import { toast } from 'sonner'
 import { AUSTRIAN_EXPENSE_CATEGORIES } from '@/lib/constants'
+import { formatEuro } from '@/lib/utils'
+import type { ExpenseDuplicate, VatBreakdownLine, VatRate } from '@/lib/types'
+import type { InvoiceExpenseSplit, InvoiceLineItem } from '@/lib/invoice-parsing'
+import { pairKey } from '@/lib/utils/duplicate-detection'
+import { DuplicateReviewDialog } from './duplicate-review-dialog'
 
 interface BillScannerProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onSuggestion?: (data: BillScannerSuggestion) => void
+  /** Called after one expense per category split was created from the invoice */
+  onExpensesCreated?: () => void
 }
 
 export interface BillScannerSuggestion {
@@ -26,15 +34,32 @@ export interface BillScannerSuggestion {
   currency: string
   description: string
   category_hint: string
+  subcategory_hint: string | null
+  recurrence_hint: 'monthly' | 'quarterly' | 'yearly' | null
+  /** Confidence of the category suggestion, 0-1 */
+  confidence: number
+  invoice_number: string | null
+  vendor_uid: string | null
+  iban: string | null
+  /** Rate of the largest share of the invoice, null if no VAT was found */
+  vat_rate: VatRate | null
+  vat_breakdown: VatBreakdownLine[]
+  line_items: InvoiceLineItem[]
+  /** Positions grouped by category and rate, null if they cannot be split */
+  splits: InvoiceExpenseSplit[] | null
   raw_text: string
 }
 
-export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerProps) {
+export function BillScanner({ open, onOpenChange, onSuggestion, onExpensesCreated }: BillScannerProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [preview, setPreview] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [suggestion, setSuggestion] = useState<BillScannerSuggestion | null>(null)
   const [selectedCategory, setSelectedCategory] = useState<string>('')
+  const [fileBase64, setFileBase64] = useState<string | null>(null)
+  const [createMode, setCreateMode] = useState<'single' | 'split'>('single')
+  const [isCreating, setIsCreating] = useState(false)
+  const [duplicates, setDuplicates] = useState<ExpenseDuplicate[]>([])
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -80,7 +105,7 @@ export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerPro
     try {
       const loadingToast = toast.loading('OCR wird ausgeführt... Dies kann eine Weile dauern')
 
-      // Convert file to base64 (chunk-safe for large files)
+      // Base64 copy to attach the bill to expenses created from it (chunk-safe for large files)
       const arrayBuffer = await selectedFile.arrayBuffer()
       const bytes = new Uint8Array(arrayBuffer)
       let binary = ''
@@ -90,28 +115,29 @@ export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerPro
         binary += String.fromCharCode(...chunk)
       }
       const base64 = btoa(binary)
+      setFileBase64(base64)
 
-      // Extract text using client-side OCR (Tesseract.js)
-      let extractedText = ''
-      try {
-        extractedText = await extractTextFromImage(base64, selectedFile.type)
-        toast.dismiss(loadingToast)
-        toast.success('Text erkannt')
-      } catch (ocrError) {
-        console.error('OCR extraction failed:', ocrError)
-        toast.dismiss(loadingToast)
+      // Text extraction (PDF.js / Tesseract.js) and parsing run on the server
+      const formData = new FormData()
+      formData.append('file', selectedFile)
+      const response = await fetch('/api/ocr/parse-bill', { method: 'POST', body: formData })
+      let result: Awaited<ReturnType<typeof parseBillImage>> = await response.json()
+      toast.dismiss(loadingToast)
+
+      if (response.status === 422) {
+        console.error('OCR extraction failed:', result.error)
         toast.warning('OCR-Extraktion fehlgeschlagen, verwende Fallback')
-        extractedText = 'Rechnung konnte nicht ganz erfolgreich gescannt werden'
+        result = await parseBillImage('Rechnung konnte nicht ganz erfolgreich gescannt werden')
+      } else if (response.ok) {
+        toast.success('Text erkannt')
       }
 
-      // Parse the extracted text using server action (no need to send base64)
-      const result = await parseBillImage(null, extractedText)
-
       if (result.error) {
         toast.error(result.error)
       } else if (result.data) {
         setSuggestion(result.data)
         setSelectedCategory(result.data.category_hint || '')
+        setCreateMode('single')
         toast.success('Rechnung erfolgreich analysiert')
       }
     } catch (error) {
@@ -128,23 +154,101 @@ export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerPro
 
   const handleAcceptSuggestion = () => {
     if (suggestion) {
+      const changed = !!selectedCategory && selectedCategory !== suggestion.category_hint
       onSuggestion?.({
         ...suggestion,
-        category_hint: selectedCategory || suggestion.category_hint
+        category_hint: selectedCategory || suggestion.category_hint,
+        subcategory_hint: changed ? null : suggestion.subcategory_hint,
+        recurrence_hint: changed ? null : suggestion.recurrence_hint
       })
       handleClose()
       toast.success('Rechnung analysiert - Formular wurde aktualisiert')
     }
   }
 
+  // One expense per split, each with the scanned invoice as document
+  const handleCreateSplits = async () => {
+    if (!suggestion?.splits) return
+
+    setIsCreating(true)
+    try {
+      const reference = suggestion.invoice_number
+        ? `${suggestion.vendor_name} (Rechnung ${suggestion.invoice_number})`
+        : suggestion.vendor_name
+      const createdIds: string[] = []
+      const found: ExpenseDuplicate[] = []
+      for (const split of suggestion.splits) {
+        const result = await createExpenseAction({
+          category: split.category,
+          subcategory: split.subcategory ?? undefined,
+          amount: split.amount,
+          expense_date: suggestion.invoice_date,
+          description: `${reference}: ${split.descriptions.join(', ')}`,
+          vat_rate: split.vat_rate,
+          invoice_number: suggestion.invoice_number,
+        })
+        if (result.error || !result.data) {
+          toast.error(`${split.category}: ${result.error ?? 'Ausgabe konnte nicht erstellt werden'}`)
+          continue
+        }
+        createdIds.push(result.data.id)
+        found.push(...(result.duplicates ?? []))
+      }
+
+      // The parts share invoice number and receipt; link them before the
+      // uploads so they are not reported as duplicates of each other
+      if (createdIds.length > 1) {
+        const link = await linkDuplicateExpenses(createdIds)
+        if (link.error) toast.error(link.error)
+      }
+
+      if (selectedFile && fileBase64) {
+        for (const expenseId of createdIds) {
+          const upload = await uploadExpenseDocument(expenseId, {
+            name: selectedFile.name,
+            content: fileBase64,
+            type: selectedFile.type,
+          })
+          if (upload.error) toast.error(`${selectedFile.name}: ${upload.error}`)
+          else found.push(...(upload.duplicates ?? []))
+        }
+      }
+
+      if (createdIds.length > 0) {
+        toast.success(`${createdIds.length} Ausgabe(n) aus der Rechnung erstellt`)
+        onExpensesCreated?.()
+
+        // Parts created before linking reported each other; only earlier expenses count
+        const created = new Set(createdIds)
+        const unique = new Map(
+          found
+            .filter(pair => !(created.has(pair.expense.id) && created.has(pair.duplicate.id)))
+            .map(pair => [pairKey(pair.expense.id, pair.duplicate.id), pair])
+        )
+        if (unique.size > 0) {
+          toast.warning('Diese Rechnung wurde möglicherweise bereits erfasst – bitte prüfen')
+          setDuplicates([...unique.values()])
+        } else {
+          handleClose()
+        }
+      }
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
   const handleClose = () => {
     setSelectedFile(null)
     setPreview(null)
     setSuggestion(null)
     setSelectedCategory('')
+    setFileBase64(null)
+    setCreateMode('single')
     onOpenChange(false)
   }
 
+  const canSplit = !!onExpensesCreated && (suggestion?.splits?.length ?? 0) > 1
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -279,7 +383,7 @@ export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerPro
                       OCR-gestützte Rechnungserkennung
                     </p>
                     <p className="text-xs text-accent-800 dark:text-accent-300 mt-1">
-                      Verwendet Tesseract.js für lokale Textextraktion. Machen Sie ein klares Foto der Rechnung. Die OCR-Verarbeitung erfolgt in Ihrem Browser.
+                      Verwendet Tesseract.js mit deutschen Sprachdaten. Machen Sie ein klares Foto der Rechnung. Die Texterkennung erfolgt auf dem Server, ohne externe Dienste.
                     </p>
                   </div>
                 </div>
@@ -375,9 +479,117 @@ export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerPro
                         ))}
                       </SelectContent>
                     </Select>
+                    {suggestion.confidence > 0 && selectedCategory === suggestion.category_hint && (
+                      <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                        Vorschlag mit {Math.round(suggestion.confidence * 100)} % Sicherheit
+                        {suggestion.subcategory_hint && ` • ${suggestion.subcategory_hint}`}
+                      </p>
+                    )}
                   </div>
+
+                  {/* Invoice data */}
+                  {(suggestion.invoice_number || suggestion.vendor_uid || suggestion.iban) && (
+                    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                      {suggestion.invoice_number && (
+                        <>
+                          <dt className="text-neutral-500 dark:text-neutral-400">Rechnungsnummer</dt>
+                          <dd className="text-neutral-900 dark:text-white">{suggestion.invoice_number}</dd>
+                        </>
+                      )}
+                      {suggestion.vendor_uid && (
+                        <>
+                          <dt className="text-neutral-500 dark:text-neutral-400">UID-Nummer</dt>
+                          <dd className="text-neutral-900 dark:text-white">{suggestion.vendor_uid}</dd>
+                        </>
+                      )}
+                      {suggestion.iban && (
+                        <>
+                          <dt className="text-neutral-500 dark:text-neutral-400">IBAN</dt>
+                          <dd className="text-neutral-900 dark:text-white font-mono text-xs self-center">{suggestion.iban}</dd>
+                        </>
+                      )}
+                    </dl>
+                  )}
+
+                  {/* VAT breakdown */}
+                  {suggestion.vat_breakdown.length > 0 && (
+                    <div className="text-sm">
+                      <p className="font-medium text-neutral-700 dark:text-neutral-300 mb-1">Umsatzsteuer</p>
+                      <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                        {suggestion.vat_breakdown.map((line) => (
+                          <div key={line.rate} className="flex justify-between gap-2 py-1 text-neutral-600 dark:text-neutral-400">
+                            <span>{line.rate} %</span>
+                            <span>
+                              netto {formatEuro(line.net)} · USt {formatEuro(line.vat)} · brutto {formatEuro(line.gross)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
+                {/* Line items */}
+                {suggestion.line_items.length > 0 && (
+                  <details className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3">
+                    <summary className="cursor-pointer font-medium text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100">
+                      {suggestion.line_items.length} Rechnungspositionen
+                    </summary>
+                    <table className="mt-3 w-full text-xs">
+                      <thead className="text-neutral-500 dark:text-neutral-400">
+                        <tr>
+                          <th className="text-left font-medium py-1">Bezeichnung</th>
+                          <th className="text-right font-medium py-1">Menge</th>
+                          <th className="text-right font-medium py-1">USt</th>
+                          <th className="text-right font-medium py-1">Betrag</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                        {suggestion.line_items.map((item, index) => (
+                          <tr key={index}>
+                            <td className="py-1 pr-2">{item.description}</td>
+                            <td className="py-1 text-right">{item.quantity ?? ''}</td>
+                            <td className="py-1 text-right">{item.vat_rate !== null ? `${item.vat_rate} %` : ''}</td>
+                            <td className="py-1 text-right">{formatEuro(item.amount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </details>
+                )}
+
+                {/* One expense or one per category and rate */}
+                {canSplit && suggestion.splits && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                      Erfassen als
+                    </label>
+                    <Select value={createMode} onValueChange={(value) => setCreateMode(value as 'single' | 'split')}>
+                      <SelectTrigger aria-label="Erfassungsart wählen">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single">Eine Ausgabe mit USt-Aufteilung</SelectItem>
+                        <SelectItem value="split">{suggestion.splits.length} Ausgaben nach Kategorie und Steuersatz</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {createMode === 'split' && (
+                      <div className="divide-y divide-neutral-200 dark:divide-neutral-700 text-sm">
+                        {suggestion.splits.map((split) => (
+                          <div key={`${split.category}|${split.subcategory}|${split.vat_rate}`} className="flex justify-between gap-2 py-1">
+                            <span className="min-w-0 truncate">
+                              {split.category}
+                              {split.subcategory && ` • ${split.subcategory}`}
+                              <span className="text-neutral-500 dark:text-neutral-400"> ({split.vat_rate} % USt)</span>
+                            </span>
+                            <span className="font-medium">{formatEuro(split.amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Extracted Text */}
                 {suggestion.raw_text && (
                   <details className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3">
@@ -417,9 +629,22 @@ export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerPro
               >
                 Neue Rechnung scannen
               </Button>
-              <Button onClick={handleAcceptSuggestion}>
-                Daten übernehmen & Ausgabe erstellen
-              </Button>
+              {canSplit && createMode === 'split' ? (
+                <Button onClick={handleCreateSplits} disabled={isCreating}>
+                  {isCreating ? (
+                    <>
+                      <Loader className="w-4 h-4 mr-2 animate-spin" />
+                      Wird erstellt...
+                    </>
+                  ) : (
+                    `${suggestion.splits?.length} Ausgaben erstellen`
+                  )}
+                </Button>
+              ) : (
+                <Button onClick={handleAcceptSuggestion}>
+                  Daten übernehmen & Ausgabe erstellen
+                </Button>
+              )}
             </>
           ) : (
             <Button variant="outline" onClick={handleClose}>
@@ -427,6 +652,18 @@ export function BillScanner({ open, onOpenChange, onSuggestion }: BillScannerPro
             </Button>
           )}
         </div>
+
+        <DuplicateReviewDialog
+          open={duplicates.length > 0}
+          onOpenChange={(next) => {
+            if (!next) {
+              setDuplicates([])
+              handleClose()
+            }
+          }}
+          duplicates={duplicates}
+          onResolved={onExpensesCreated}
+        />
       </DialogContent>
     </Dialog>
   )
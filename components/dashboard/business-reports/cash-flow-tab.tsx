@@ -0,0 +1,303 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, Landmark, TrendingDown, Wallet } from 'lucide-react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend,
+} from 'recharts'
+import { getCashFlowForecast, saveCashFlowSettingsAction, type CashFlowForecast } from '@/lib/actions/cash-flow'
+import type { CashFlowSettingsInput } from '@/lib/validations'
+import { formatEuro } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { MetricCard } from './components/metric-card'
+import { CHART_COLORS, TOOLTIP_STYLE, CHART_MARGIN, formatAxisEuro } from './components/chart-config'
+
+const HORIZONS = [12, 24] as const
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01`).toLocaleDateString('de-AT', { month: 'short', year: '2-digit' })
+}
+
+/**
+ * Liquidity forecast: projected bank balance with quarterly prepayments,
+ * bills on their due dates and a warning below the minimum balance
+ */
+export function CashFlowTab() {
+  const [horizon, setHorizon] = useState<(typeof HORIZONS)[number]>(12)
+  const [forecast, setForecast] = useState<CashFlowForecast | null>(null)
+  const [settings, setSettings] = useState<CashFlowSettingsInput | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadForecast = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getCashFlowForecast(horizon)
+      setForecast(result)
+      if (result) setSettings(result.settings)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadForecast()
+  }, [horizon])
+
+  const handleSave = async () => {
+    if (!settings) return
+
+    setIsSaving(true)
+    try {
+      const result = await saveCashFlowSettingsAction({
+        opening_bank_balance: Number.isNaN(settings.opening_bank_balance) ? 0 : settings.opening_bank_balance,
+        minimum_bank_balance: Number.isNaN(settings.minimum_bank_balance) ? 0 : settings.minimum_bank_balance,
+        receivable_collection_days: Number.isNaN(settings.receivable_collection_days) ? 0 : settings.receivable_collection_days,
+      })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Liquiditätseinstellungen gespeichert')
+      await loadForecast()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const chartData = useMemo(() => {
+    return (forecast?.projection.months ?? []).map((m) => ({
+      month: formatMonth(m.month),
+      Monatsende: m.closingBalance,
+      Tiefststand: m.lowestBalance,
+    }))
+  }, [forecast])
+
+  if (isLoading && !forecast) {
+    return (
+      <div className="py-12 text-center text-sm text-neutral-500 dark:text-neutral-400">
+        Liquiditätsvorschau wird berechnet...
+      </div>
+    )
+  }
+
+  if (!forecast || !settings) {
+    return (
+      <div className="py-12 text-center text-sm text-neutral-500 dark:text-neutral-400">
+        Liquiditätsvorschau nicht verfügbar
+      </div>
+    )
+  }
+
+  const { projection, prepayments } = forecast
+  const shortfallMonth = projection.months.find(m => m.belowMinimum)
+
+  return (
+    <div className="space-y-6">
+      {/* Settings */}
+      <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Landmark className="h-5 w-5 text-neutral-500" />
+            <h3 className="font-semibold text-neutral-900 dark:text-white">Liquiditätsvorschau</h3>
+          </div>
+          <div className="flex items-center gap-1 bg-neutral-100 dark:bg-neutral-800 rounded-full p-1">
+            {HORIZONS.map(h => (
+              <button
+                key={h}
+                onClick={() => setHorizon(h)}
+                className={`py-1.5 px-4 rounded-full text-sm font-medium transition-all duration-300 ${
+                  horizon === h
+                    ? 'bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white shadow-sm'
+                    : 'text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-200'
+                }`}
+              >
+                {h} Monate
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="opening_bank_balance">Aktueller Kontostand (€)</Label>
+            <Input
+              id="opening_bank_balance"
+              type="number"
+              step={0.01}
+              value={Number.isNaN(settings.opening_bank_balance) ? '' : settings.opening_bank_balance}
+              onChange={(e) => setSettings({ ...settings, opening_bank_balance: parseFloat(e.target.value) })}
+              disabled={isSaving}
+              inputMode="decimal"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="minimum_bank_balance">Mindestsaldo (€)</Label>
+            <Input
+              id="minimum_bank_balance"
+              type="number"
+              step={100}
+              min={0}
+              value={Number.isNaN(settings.minimum_bank_balance) ? '' : settings.minimum_bank_balance}
+              onChange={(e) => setSettings({ ...settings, minimum_bank_balance: parseFloat(e.target.value) })}
+              disabled={isSaving}
+              inputMode="decimal"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="receivable_collection_days">Zahlungsziel (Tage)</Label>
+            <Input
+              id="receivable_collection_days"
+              type="number"
+              step={1}
+              min={0}
+              max={365}
+              value={Number.isNaN(settings.receivable_collection_days) ? '' : settings.receivable_collection_days}
+              onChange={(e) => setSettings({ ...settings, receivable_collection_days: parseInt(e.target.value, 10) })}
+              disabled={isSaving}
+              inputMode="numeric"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            {Math.round(forecast.immediateShare * 100)}% des Umsatzes werden bei der Behandlung bezahlt,
+            der Rest nach dem Zahlungsziel.
+            {forecast.estimatedMonths.length > 0 && ` ${forecast.estimatedMonths.length} Monate ohne Planung mit Durchschnittsumsatz geschätzt.`}
+          </p>
+          <Button variant="outline" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Speichern...' : 'Übernehmen'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Shortfall warning */}
+      {projection.firstShortfallDate && shortfallMonth && (
+        <div className="flex items-start gap-3 rounded-lg bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 p-4">
+          <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800 dark:text-red-200">
+            Der Kontostand fällt am {new Date(projection.firstShortfallDate).toLocaleDateString('de-AT')} unter
+            den Mindestsaldo von {formatEuro(projection.minimumBalance)}. Tiefststand{' '}
+            {formatEuro(projection.lowestBalance)} am {new Date(projection.lowestBalanceDate).toLocaleDateString('de-AT')}.
+          </p>
+        </div>
+      )}
+
+      {/* Metric Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <MetricCard
+          label="Kontostand am Ende"
+          value={formatEuro(projection.months[projection.months.length - 1]?.closingBalance ?? projection.openingBalance)}
+          icon={<Wallet className="h-5 w-5 text-accent-500" />}
+          subtext={`Nach ${horizon} Monaten`}
+        />
+        <MetricCard
+          label="Tiefststand"
+          value={formatEuro(projection.lowestBalance)}
+          icon={<TrendingDown className="h-5 w-5 text-red-500" />}
+          subtext={new Date(projection.lowestBalanceDate).toLocaleDateString('de-AT')}
+          variant={projection.firstShortfallDate ? 'danger' : 'default'}
+        />
+        <MetricCard
+          label="Vorauszahlungen pro Jahr"
+          value={formatEuro(prepayments.svs + prepayments.incomeTax + prepayments.aerztekammer)}
+          icon={<Landmark className="h-5 w-5 text-yellow-500" />}
+          subtext={`SVS ${formatEuro(prepayments.svs)} · ESt ${formatEuro(prepayments.incomeTax)} · Kammer ${formatEuro(prepayments.aerztekammer)}`}
+        />
+      </div>
+
+      {/* Balance chart */}
+      <div
+        className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-4"
+        role="figure"
+        aria-label="Kontostand im Zeitverlauf als Liniendiagramm"
+      >
+        <h3 className="font-semibold text-neutral-900 dark:text-white mb-4">Kontostand</h3>
+        <div className="w-full h-72 sm:h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={CHART_MARGIN.withLegend} accessibilityLayer>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--chart-grid, #e5e7eb)" className="[.dark_&]:stroke-neutral-700" />
+              <XAxis
+                dataKey="month"
+                stroke="var(--chart-axis, #6b7280)"
+                className="[.dark_&]:stroke-neutral-400"
+                style={{ fontSize: '0.75rem' }}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                stroke="var(--chart-axis, #6b7280)"
+                className="[.dark_&]:stroke-neutral-400"
+                style={{ fontSize: '0.75rem' }}
+                tickFormatter={formatAxisEuro}
+                tickLine={false}
+                axisLine={false}
+                width={45}
+              />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => formatEuro(value)} />
+              <Legend wrapperStyle={{ fontSize: '0.75rem' }} />
+              <ReferenceLine
+                y={projection.minimumBalance}
+                stroke={CHART_COLORS.loss}
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                label={{ value: 'Mindestsaldo', fill: CHART_COLORS.loss, fontSize: 11, position: 'insideTopRight' }}
+              />
+              <Line type="monotone" dataKey="Monatsende" stroke={CHART_COLORS.revenue} strokeWidth={2.5} dot={{ r: 3 }} />
+              <Line type="monotone" dataKey="Tiefststand" stroke={CHART_COLORS.sumupFees} strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Monthly table */}
+      <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-6">
+        <div className="overflow-x-auto -mx-6 px-6">
+          <table className="w-full min-w-[560px]">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Monat</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Eingänge</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Ausgänge</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Tiefststand</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Monatsende</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.months.map((m) => (
+                <tr
+                  key={m.month}
+                  className="border-b border-neutral-100 dark:border-neutral-700/50 last:border-0 hover:bg-neutral-50 dark:hover:bg-neutral-700/20 transition-colors"
+                >
+                  <td className="py-3 px-2 text-sm text-neutral-900 dark:text-white font-medium">{formatMonth(m.month)}</td>
+                  <td className="py-3 px-2 text-sm text-green-700 dark:text-green-400 text-right tabular-nums">{formatEuro(m.inflows)}</td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">{formatEuro(m.outflows)}</td>
+                  <td className={`py-3 px-2 text-sm text-right tabular-nums ${
+                    m.belowMinimum ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-neutral-600 dark:text-neutral-400'
+                  }`}>
+                    {formatEuro(m.lowestBalance)}
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-900 dark:text-white text-right font-medium tabular-nums">
+                    {formatEuro(m.closingBalance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
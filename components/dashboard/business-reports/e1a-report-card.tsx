@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import { ChevronDown, ChevronRight, FileSpreadsheet, FileText, Download } from 'lucide-react'
+import { getE1aReport, type E1aYearEndReport } from '@/lib/actions/e1a-report'
+import { exportE1aReport, type E1aExportFormat } from '@/lib/services/e1a-report-generator'
+import { formatEuro } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+
+const selectClassName =
+  'h-9 px-3 rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm'
+
+const CURRENT_YEAR = new Date().getFullYear()
+const YEARS = [CURRENT_YEAR, CURRENT_YEAR - 1, CURRENT_YEAR - 2]
+
+/**
+ * Year-end Einnahmen-Ausgaben-Rechnung in E1a layout with export for the tax advisor
+ */
+export function E1aReportCard() {
+  const [year, setYear] = useState(CURRENT_YEAR - 1)
+  const [data, setData] = useState<E1aYearEndReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [exporting, setExporting] = useState<E1aExportFormat | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    getE1aReport(year)
+      .then((result) => {
+        if (!cancelled) setData(result)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [year])
+
+  const handleExport = async (format: E1aExportFormat) => {
+    if (!data) return
+
+    setExporting(format)
+    try {
+      await exportE1aReport(data.report, format, data.practiceName)
+    } catch (error) {
+      console.error('E1a export failed:', error)
+      toast.error('Export fehlgeschlagen')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const report = data?.report
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-neutral-900 dark:text-white">Einnahmen-Ausgaben-Rechnung (E1a)</h3>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Jahresabschluss nach Kennzahlen der Beilage E1a für Ihre Steuerberatung
+          </p>
+        </div>
+        <select
+          value={year}
+          onChange={(e) => setYear(parseInt(e.target.value, 10))}
+          className={selectClassName}
+          aria-label="Jahr wählen"
+        >
+          {YEARS.map(y => (
+            <option key={y} value={y}>{y}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading && !report && (
+        <p className="py-6 text-center text-sm text-neutral-500 dark:text-neutral-400">E1a wird erstellt...</p>
+      )}
+
+      {!isLoading && !report && (
+        <p className="py-6 text-center text-sm text-neutral-500 dark:text-neutral-400">E1a nicht verfügbar</p>
+      )}
+
+      {report && (
+        <>
+          <div className="overflow-x-auto -mx-6 px-6">
+            <table className="w-full min-w-[480px] text-sm">
+              <tbody>
+                {report.lines.map(line => {
+                  const isExpanded = expanded === line.kz
+                  return (
+                    <tr
+                      key={line.kz}
+                      className={`border-b border-neutral-100 dark:border-neutral-700/50 align-top ${
+                        line.amount === 0 ? 'text-neutral-400 dark:text-neutral-500' : 'text-neutral-900 dark:text-white'
+                      }`}
+                    >
+                      <td className="py-2 pr-2 w-16 font-medium tabular-nums">{line.kz}</td>
+                      <td className="py-2 pr-2">
+                        {line.items.length > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => setExpanded(isExpanded ? null : line.kz)}
+                            className="flex items-center gap-1 text-left hover:text-primary-600 dark:hover:text-primary-400"
+                          >
+                            {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                            {line.label}
+                          </button>
+                        ) : (
+                          line.label
+                        )}
+                        {isExpanded && (
+                          <ul className="mt-1 ml-4 space-y-0.5 text-xs text-neutral-500 dark:text-neutral-400">
+                            {line.items.map(item => (
+                              <li key={item.label} className="flex justify-between gap-4">
+                                <span>{item.label}</span>
+                                <span className="tabular-nums">{formatEuro(item.amount)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="py-2 text-right tabular-nums whitespace-nowrap">{formatEuro(line.amount)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 pt-2">
+            <div className="space-y-1">
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">Erträge</p>
+              <p className="text-lg font-bold text-neutral-900 dark:text-white">{formatEuro(report.totalIncome)}</p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">Aufwendungen</p>
+              <p className="text-lg font-bold text-neutral-900 dark:text-white">{formatEuro(report.totalExpenses)}</p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">{report.profit >= 0 ? 'Gewinn' : 'Verlust'}</p>
+              <p className={`text-lg font-bold ${report.profit >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {formatEuro(report.profit)}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleExport('pdf')} disabled={exporting !== null}>
+              <FileText className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={exporting !== null}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {exporting === 'xlsx' ? 'Exportiere...' : 'Excel'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import type { DashboardSummary } from '@/lib/actions/dashboard'
 import { formatEuro } from '@/lib/utils'
 import { MetricCard } from './components/metric-card'
 import { CHART_COLORS } from './components/chart-config'
+import { E1aReportCard } from './e1a-report-card'
 import { Euro, TrendingUp, AlertCircle, ArrowDown } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 
@@ -146,6 +147,9 @@ export function TaxesTab({ summary }: TaxesTabProps) {
         </p>
       </div>
 
+      {/* Year-end report */}
+      <E1aReportCard />
+
       {/* Call to Action */}
       <div className="bg-accent-50 dark:bg-accent-900/20 border border-accent-200 dark:border-accent-800 rounded-lg p-6">
         <div className="flex items-start gap-4">
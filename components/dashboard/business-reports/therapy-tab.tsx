@@ -3,9 +3,11 @@
 import { useState, useMemo } from 'react'
 import type { AdvancedAnalytics } from '@/lib/actions/analytics'
 import type { TherapyMetrics } from '@/lib/actions/dashboard'
+import type { TariffComparisonRow } from '@/lib/actions/kassentarife'
 import { formatEuro } from '@/lib/utils'
 import { MetricCard } from './components/metric-card'
 import { TherapyFilter } from './components/therapy-filter'
+import { TariffComparison } from '../tariff-comparison'
 import {
   CHART_COLORS,
   TOOLTIP_STYLE,
@@ -27,9 +29,10 @@ import {
 interface TherapyTabProps {
   analytics: AdvancedAnalytics | null
   therapies?: TherapyMetrics[]
+  tariffComparison?: TariffComparisonRow[]
 }
 
-export function TherapyTab({ analytics, therapies }: TherapyTabProps) {
+export function TherapyTab({ analytics, therapies, tariffComparison = [] }: TherapyTabProps) {
   const [selectedTherapies, setSelectedTherapies] = useState<string[]>([])
 
   const filteredTherapies = useMemo(() => {
@@ -251,6 +254,9 @@ export function TherapyTab({ analytics, therapies }: TherapyTabProps) {
           </table>
         </div>
       </div>
+
+      {/* Prices vs. Kassentarife */}
+      <TariffComparison rows={tariffComparison} />
     </div>
   )
 }
@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, Download, Percent, Receipt, Scale } from 'lucide-react'
+import { getVatReport, saveVatSettingsAction, type VatReport } from '@/lib/actions/vat'
+import type { VatSettingsInput } from '@/lib/validations'
+import { formatEuro } from '@/lib/utils'
+import { downloadUvaCSV } from '@/lib/utils/csv-export'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { MetricCard } from './components/metric-card'
+
+const selectClassName =
+  'h-9 px-3 rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm'
+
+const CURRENT_YEAR = new Date().getFullYear()
+const YEARS = [CURRENT_YEAR, CURRENT_YEAR - 1, CURRENT_YEAR - 2]
+
+const MONITOR_STATUS: Record<VatReport['summary']['monitor']['status'], { label: string; bar: string }> = {
+  below: { label: 'unter der Grenze', bar: 'bg-green-500' },
+  tolerance: { label: 'im Toleranzbereich', bar: 'bg-amber-500' },
+  exceeded: { label: 'überschritten', bar: 'bg-red-500' },
+}
+
+function formatPeriod(period: string): string {
+  const quarter = period.match(/^(\d{4})-Q(\d)$/)
+  if (quarter) return `Q${quarter[2]} ${quarter[1]}`
+  return new Date(`${period}-01`).toLocaleDateString('de-AT', { month: 'short', year: 'numeric' })
+}
+
+/**
+ * Umsatzsteuer: Kleinunternehmer limit, UVA figures (U30) per month or quarter
+ * and export for the Finanzamt or the tax advisor
+ */
+export function VatTab() {
+  const [year, setYear] = useState(CURRENT_YEAR)
+  const [report, setReport] = useState<VatReport | null>(null)
+  const [settings, setSettings] = useState<VatSettingsInput | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadReport = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getVatReport(year)
+      setReport(result)
+      if (result) setSettings(result.settings)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReport()
+  }, [year])
+
+  const handleSave = async () => {
+    if (!settings) return
+
+    setIsSaving(true)
+    try {
+      const result = await saveVatSettingsAction(settings)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Umsatzsteuer-Einstellungen gespeichert')
+      await loadReport()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading && !report) {
+    return (
+      <div className="py-12 text-center text-sm text-neutral-500 dark:text-neutral-400">
+        Umsatzsteuer wird berechnet...
+      </div>
+    )
+  }
+
+  if (!report || !settings) {
+    return (
+      <div className="py-12 text-center text-sm text-neutral-500 dark:text-neutral-400">
+        Umsatzsteuer nicht verfügbar
+      </div>
+    )
+  }
+
+  const { summary } = report
+  const { monitor, total } = summary
+  const limitShare = monitor.toleranceLimit > 0 ? Math.min(100, (monitor.turnover / monitor.toleranceLimit) * 100) : 0
+  const limitMarker = monitor.toleranceLimit > 0 ? (monitor.limit / monitor.toleranceLimit) * 100 : 100
+  const status = MONITOR_STATUS[monitor.status]
+
+  return (
+    <div className="space-y-6">
+      {/* Settings */}
+      <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Receipt className="h-5 w-5 text-neutral-500" />
+            <h3 className="font-semibold text-neutral-900 dark:text-white">Umsatzsteuer</h3>
+          </div>
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value, 10))}
+            className={selectClassName}
+            aria-label="Jahr wählen"
+          >
+            {YEARS.map(y => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+            <input
+              type="checkbox"
+              checked={settings.vat_kleinunternehmer}
+              onChange={(e) => setSettings({ ...settings, vat_kleinunternehmer: e.target.checked })}
+              disabled={isSaving}
+              className="w-4 h-4"
+            />
+            Kleinunternehmerregelung anwenden
+          </label>
+          <div className="flex items-center gap-3">
+            <Label htmlFor="vat_return_period">UVA-Zeitraum</Label>
+            <select
+              id="vat_return_period"
+              value={settings.vat_return_period}
+              onChange={(e) => setSettings({ ...settings, vat_return_period: e.target.value as VatSettingsInput['vat_return_period'] })}
+              disabled={isSaving}
+              className={selectClassName}
+            >
+              <option value="quarterly">Vierteljährlich</option>
+              <option value="monthly">Monatlich</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            Monatliche UVA ab einem Vorjahresumsatz von {formatEuro(report.uvaMonthlyThreshold)}.
+            Umsätze werden bei Zahlungseingang erfasst (Istbesteuerung), der Steuersatz kommt aus der Therapieart.
+          </p>
+          <Button variant="outline" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Speichern...' : 'Übernehmen'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Kleinunternehmer monitor */}
+      <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-6 space-y-3">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h3 className="font-semibold text-neutral-900 dark:text-white">Kleinunternehmergrenze {year}</h3>
+          <span className="text-sm text-neutral-600 dark:text-neutral-400">
+            {formatEuro(monitor.turnover)} von {formatEuro(monitor.limit)} ({monitor.grossLimit ? 'brutto' : 'netto'}) · {status.label}
+          </span>
+        </div>
+        <div className="relative h-3 rounded-full bg-neutral-100 dark:bg-neutral-700 overflow-hidden">
+          <div className={`h-full ${status.bar}`} style={{ width: `${limitShare}%` }} />
+          <div className="absolute top-0 h-full w-0.5 bg-neutral-500" style={{ left: `${limitMarker}%` }} />
+        </div>
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          Steuerfreie Heilbehandlungen (§ 6 Abs. 1 Z 19 UStG) zählen nicht zur Grenze.
+          Toleranzgrenze {formatEuro(monitor.toleranceLimit)} · Hochrechnung Jahresende {formatEuro(monitor.projectedTurnover)}
+        </p>
+
+        {monitor.status === 'tolerance' && (
+          <div className="p-3 rounded-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-900 dark:text-amber-100">
+            Die Kleinunternehmergrenze ist überschritten, aber innerhalb der Toleranz.{' '}
+            {monitor.grossLimit
+              ? 'Die Befreiung gilt bis Jahresende, ab dem Folgejahr sind die Umsätze steuerpflichtig.'
+              : 'Die Toleranz kann nur einmal innerhalb von fünf Jahren in Anspruch genommen werden.'}
+          </div>
+        )}
+        {monitor.status === 'exceeded' && monitor.exceededOn && (
+          <div className="flex items-start gap-3 rounded-lg bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 p-4">
+            <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-800 dark:text-red-200">
+              Die Toleranzgrenze wurde am {new Date(monitor.exceededOn).toLocaleDateString('de-AT')} überschritten.{' '}
+              {monitor.grossLimit
+                ? 'Ab diesem Umsatz sind steuerpflichtige Leistungen mit Umsatzsteuer zu verrechnen.'
+                : 'Die Befreiung entfällt für das gesamte Jahr.'}
+            </p>
+          </div>
+        )}
+        {settings.vat_kleinunternehmer && monitor.status === 'below' && monitor.projectedTurnover > monitor.limit && (
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            Laut Hochrechnung wird die Grenze bis Jahresende überschritten.
+          </p>
+        )}
+      </div>
+
+      {/* Metric Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <MetricCard
+          label="Umsatzsteuer"
+          value={formatEuro(total.outputVat)}
+          icon={<Receipt className="h-5 w-5 text-accent-500" />}
+          subtext={`Steuerpflichtig ${formatEuro(total.kz022 + total.kz029 + total.kz006)} · steuerfrei ${formatEuro(total.kz016 + total.kz020)}`}
+        />
+        <MetricCard
+          label="Vorsteuer"
+          value={formatEuro(total.kz060)}
+          icon={<Percent className="h-5 w-5 text-green-500" />}
+          subtext={`Vorsteuerschlüssel ${(summary.deductionRatio * 100).toLocaleString('de-AT', { maximumFractionDigits: 1 })}%`}
+        />
+        <MetricCard
+          label={total.kz095 >= 0 ? 'Zahllast' : 'Gutschrift'}
+          value={formatEuro(Math.abs(total.kz095))}
+          icon={<Scale className="h-5 w-5 text-yellow-500" />}
+          subtext={`Jahr ${year}`}
+          variant={total.kz095 > 0 ? 'warning' : 'default'}
+        />
+      </div>
+
+      {/* UVA table */}
+      <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="font-semibold text-neutral-900 dark:text-white">Umsatzsteuervoranmeldung (U30)</h3>
+          <Button variant="outline" size="sm" onClick={() => downloadUvaCSV(summary)}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+        <div className="overflow-x-auto -mx-6 px-6">
+          <table className="w-full min-w-[720px]">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">Zeitraum</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Gesamtbetrag der Bemessungsgrundlagen">KZ 000</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Kleinunternehmer (§ 6 Abs. 1 Z 27)">KZ 016</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Übrige steuerfreie Umsätze ohne Vorsteuerabzug">KZ 020</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Bemessungsgrundlage 20%">KZ 022</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Bemessungsgrundlage 10%">KZ 029</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Bemessungsgrundlage 13%">KZ 006</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Vorsteuer">KZ 060</th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400" title="Zahllast (+) / Gutschrift (−)">KZ 095</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.periods.map((p) => (
+                <tr
+                  key={p.period}
+                  className="border-b border-neutral-100 dark:border-neutral-700/50 last:border-0 hover:bg-neutral-50 dark:hover:bg-neutral-700/20 transition-colors"
+                >
+                  <td className="py-3 px-2 text-sm text-neutral-900 dark:text-white font-medium">
+                    {formatPeriod(p.period)}
+                    <div className="text-xs font-normal text-neutral-500 dark:text-neutral-400">
+                      fällig {new Date(p.dueDate).toLocaleDateString('de-AT')}
+                    </div>
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">{formatEuro(p.kz000)}</td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">{formatEuro(p.kz016)}</td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">{formatEuro(p.kz020)}</td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">{formatEuro(p.kz022)}</td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">{formatEuro(p.kz029)}</td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">{formatEuro(p.kz006)}</td>
+                  <td className="py-3 px-2 text-sm text-green-700 dark:text-green-400 text-right tabular-nums">{formatEuro(p.kz060)}</td>
+                  <td className={`py-3 px-2 text-sm text-right font-medium tabular-nums ${
+                    p.kz095 > 0 ? 'text-red-600 dark:text-red-400' : 'text-neutral-900 dark:text-white'
+                  }`}>
+                    {formatEuro(p.kz095)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
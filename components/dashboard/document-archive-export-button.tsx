@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Archive, Loader } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface DocumentArchiveExportButtonProps {
+  /** Years with expenses, newest first */
+  years: number[]
+}
+
+const selectClassName =
+  'h-9 px-3 rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm'
+
+/**
+ * Document Archive Export Button Component
+ *
+ * Exports the year-end "Belegarchiv": every stored version of the receipts
+ * of a year, checked against its hash, with an index CSV of the expenses
+ */
+export function DocumentArchiveExportButton({ years }: DocumentArchiveExportButtonProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  // The closed previous year by default
+  const [year, setYear] = useState(() =>
+    years.find((y) => y < new Date().getFullYear()) ?? years[0] ?? new Date().getFullYear()
+  )
+
+  const handleExport = async () => {
+    setIsLoading(true)
+    try {
+      // The archive is streamed by the route handler
+      const response = await fetch(`/api/documents/archive?year=${year}`)
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        toast.error(result?.error || 'Export fehlgeschlagen')
+        return
+      }
+
+      const filename =
+        response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `Belegarchiv_${year}.zip`
+      const blob = await response.blob()
+
+      // Create download link
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      // Files are checked while the archive is streamed; the result is in the index
+      toast.success(`Belegarchiv ${year} erstellt – Prüfsummen siehe Index.csv`)
+    } catch (error) {
+      console.error('Archive export error:', error)
+      toast.error('Fehler beim Erstellen des Belegarchivs')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (years.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="hidden md:flex items-center gap-1">
+      <select
+        value={year}
+        onChange={(e) => setYear(Number(e.target.value))}
+        disabled={isLoading}
+        title="Jahr des Belegarchivs"
+        className={selectClassName}
+      >
+        {years.map((y) => (
+          <option key={y} value={y}>{y}</option>
+        ))}
+      </select>
+      <Button
+        onClick={handleExport}
+        disabled={isLoading}
+        variant="outline"
+        size="sm"
+        title="Alle Belege des Jahres mit Prüfsummen und Index als ZIP-Datei (Aufbewahrung nach BAO §132)"
+      >
+        {isLoading ? (
+          <Loader className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Archive className="w-4 h-4 mr-2" />
+        )}
+        Belegarchiv
+      </Button>
+    </div>
+  )
+}
@@ -1,11 +1,13 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
-import { Download, Trash2, FileText, Image as ImageIcon, File } from 'lucide-react'
-import type { ExpenseDocument } from '@/lib/types'
-import { deleteExpenseDocument, getDocumentDownloadUrl } from '@/lib/actions/documents'
+import { Download, Trash2, FileText, Image as ImageIcon, File, Loader, Lock, RefreshCw, Upload } from 'lucide-react'
+import type { DocumentAuditEntry, DocumentOcrStatus, ExpenseDocument, ExpenseDocumentVersion } from '@/lib/types'
+import { deleteExpenseDocument, getDocumentDownloadUrl, rescanExpenseDocument, uploadDocumentVersion } from '@/lib/actions/documents'
+import { getDocumentHistory } from '@/lib/actions/document-archive'
+import { DOCUMENT_AUDIT_ACTION_LABELS, isRetained } from '@/lib/utils/document-archive'
 import { toast } from 'sonner'
 
 interface DocumentViewerProps {
@@ -13,9 +15,46 @@ interface DocumentViewerProps {
   onDocumentsChange?: () => void
 }
 
+// Reload interval while documents wait for their text extraction
+const OCR_POLL_INTERVAL_MS = 3000
+
+export const OCR_STATUS_LABELS: Record<DocumentOcrStatus, string> = {
+  pending: 'Texterkennung ausstehend',
+  processing: 'Texterkennung läuft...',
+  done: 'Text erkannt',
+  failed: 'Texterkennung fehlgeschlagen',
+}
+
 export function DocumentViewer({ documents, onDocumentsChange }: DocumentViewerProps) {
   const [selectedDocument, setSelectedDocument] = useState<ExpenseDocument | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isUploadingVersion, setIsUploadingVersion] = useState(false)
+  const [isRescanning, setIsRescanning] = useState(false)
+  const [history, setHistory] = useState<{ versions: ExpenseDocumentVersion[]; events: DocumentAuditEntry[] } | null>(null)
+  const versionInputRef = useRef<HTMLInputElement>(null)
+
+  // The server extracts the text after the upload; reload until it is done
+  const isOcrRunning = documents.some(
+    (doc) => doc.ocr_status === 'pending' || doc.ocr_status === 'processing'
+  )
+  useEffect(() => {
+    if (!isOcrRunning || !onDocumentsChange) return
+    const interval = setInterval(onDocumentsChange, OCR_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isOcrRunning, onDocumentsChange])
+
+  // Show the reloaded version of the opened document
+  const previewDocument = documents.find((doc) => doc.id === selectedDocument?.id) ?? selectedDocument
+  const isPreviewRetained = isRetained(previewDocument?.retention_until, new Date().toISOString().split('T')[0])
+
+  // Versions and access log of the opened document
+  const previewDocumentId = previewDocument?.id
+  const previewFilePath = previewDocument?.file_path
+  useEffect(() => {
+    setHistory(null)
+    if (!previewDocumentId) return
+    getDocumentHistory(previewDocumentId).then(setHistory)
+  }, [previewDocumentId, previewFilePath])
 
   const getFileIcon = (fileType: string) => {
     if (fileType.startsWith('image/')) {
@@ -58,9 +97,50 @@ export function DocumentViewer({ documents, onDocumentsChange }: DocumentViewerP
     }
   }
 
-  const handleDownload = async (doc: ExpenseDocument) => {
+  const handleVersionUpload = async (doc: ExpenseDocument, file: File) => {
+    setIsUploadingVersion(true)
+    try {
+      const arrayBuffer = await file.arrayBuffer()
+      const result = await uploadDocumentVersion(doc.id, {
+        name: file.name,
+        content: Buffer.from(arrayBuffer).toString('base64'),
+        type: file.type
+      })
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        toast.success('Neue Version gespeichert – die bisherige bleibt archiviert')
+        onDocumentsChange?.()
+      }
+    } catch (error) {
+      console.error('Error uploading document version:', error)
+      toast.error('Fehler beim Hochladen der neuen Version')
+    } finally {
+      setIsUploadingVersion(false)
+    }
+  }
+
+  const handleRescan = async (doc: ExpenseDocument) => {
+    setIsRescanning(true)
     try {
-      const result = await getDocumentDownloadUrl(doc.id)
+      const result = await rescanExpenseDocument(doc.id)
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        toast.success('Texterkennung gestartet')
+        onDocumentsChange?.()
+      }
+    } catch (error) {
+      console.error('Error queueing text extraction:', error)
+      toast.error('Fehler beim Starten der Texterkennung')
+    } finally {
+      setIsRescanning(false)
+    }
+  }
+
+  const handleDownload = async (doc: ExpenseDocument, version?: ExpenseDocumentVersion) => {
+    try {
+      const result = await getDocumentDownloadUrl(doc.id, version?.id)
       if (result.error || !result.url) {
         toast.error(result.error || 'Download-Link konnte nicht generiert werden')
         return
@@ -68,7 +148,7 @@ export function DocumentViewer({ documents, onDocumentsChange }: DocumentViewerP
 
       const link = document.createElement('a')
       link.href = result.url
-      link.download = doc.file_name
+      link.download = version?.file_name ?? doc.file_name
       link.target = '_blank'
       link.click()
     } catch (error) {
@@ -98,14 +178,29 @@ export function DocumentViewer({ documents, onDocumentsChange }: DocumentViewerP
                 <div className="flex-shrink-0 text-neutral-400">
                   {getFileIcon(document.file_type)}
                 </div>
-                <div className="min-w-0 flex-1">
+                <button
+                  type="button"
+                  onClick={() => setSelectedDocument(document)}
+                  className="min-w-0 flex-1 text-left"
+                  title="Details anzeigen"
+                >
                   <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">
                     {document.file_name}
                   </p>
-                  <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  <p className="flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400">
                     {formatFileSize(document.file_size)}
+                    {/* Documents from before the text extraction have no text and no label */}
+                    {OCR_STATUS_LABELS[document.ocr_status] && (document.ocr_status !== 'done' || document.extracted_text) && (
+                      <>
+                        <span>•</span>
+                        {document.ocr_status === 'processing' && <Loader className="w-3 h-3 animate-spin" />}
+                        <span className={document.ocr_status === 'failed' ? 'text-red-600 dark:text-red-400' : undefined}>
+                          {OCR_STATUS_LABELS[document.ocr_status]}
+                        </span>
+                      </>
+                    )}
                   </p>
-                </div>
+                </button>
               </div>
               <div className="flex items-center gap-1 flex-shrink-0">
                 <button
@@ -122,50 +217,145 @@ export function DocumentViewer({ documents, onDocumentsChange }: DocumentViewerP
       </div>
 
       {/* Document Preview Dialog */}
-      <Dialog open={!!selectedDocument} onOpenChange={(open) => !open && setSelectedDocument(null)}>
+      <Dialog open={!!previewDocument} onOpenChange={(open) => !open && setSelectedDocument(null)}>
         <DialogContent className="max-w-4xl max-h-[80vh]">
           <DialogHeader>
             <DialogTitle className="break-words">
-              {selectedDocument?.file_name}
+              {previewDocument?.file_name}
             </DialogTitle>
           </DialogHeader>
 
-          {selectedDocument && (
+          {previewDocument && (
             <div className="space-y-4">
               <div className="flex items-center justify-between text-sm text-neutral-600 dark:text-neutral-400">
                 <span>
-                  Größe: {formatFileSize(selectedDocument.file_size)}
+                  Größe: {formatFileSize(previewDocument.file_size)}
                 </span>
                 <span>
-                  Hochgeladen: {new Date(selectedDocument.upload_date).toLocaleDateString('de-DE')}
+                  Hochgeladen: {new Date(previewDocument.upload_date).toLocaleDateString('de-DE')}
                 </span>
               </div>
 
+              {previewDocument.retention_until && (
+                <p className="flex items-center gap-1 text-sm text-neutral-600 dark:text-neutral-400">
+                  <Lock className="w-3.5 h-3.5" />
+                  Aufbewahrung bis: {new Date(previewDocument.retention_until).toLocaleDateString('de-DE')} (BAO §132)
+                </p>
+              )}
+
+              {previewDocument.ocr_status === 'failed' && previewDocument.ocr_error && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  Texterkennung fehlgeschlagen: {previewDocument.ocr_error}
+                </p>
+              )}
+
+              {(previewDocument.ocr_status === 'failed' ||
+                (previewDocument.ocr_status === 'done' && !previewDocument.extracted_text)) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRescan(previewDocument)}
+                  disabled={isRescanning}
+                >
+                  {isRescanning ? (
+                    <Loader className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                  )}
+                  Text erneut erkennen
+                </Button>
+              )}
+
               {/* Extracted Text */}
-              {selectedDocument.extracted_text && (
+              {previewDocument.extracted_text && (
                 <div className="space-y-2">
                   <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
                     Erkannter Text
                   </p>
                   <div className="bg-neutral-50 dark:bg-neutral-800/50 rounded p-3 max-h-[200px] overflow-y-auto text-xs text-neutral-600 dark:text-neutral-400 whitespace-pre-wrap break-words">
-                    {selectedDocument.extracted_text}
+                    {previewDocument.extracted_text}
                   </div>
                 </div>
               )}
 
+              {/* Versions and Access Log */}
+              {history && history.versions.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                    Versionen
+                  </p>
+                  <ul className="space-y-1 text-xs text-neutral-600 dark:text-neutral-400">
+                    {history.versions.map((version, index) => (
+                      <li key={version.id} className="flex items-center justify-between gap-2">
+                        <span className="truncate">
+                          v{version.version}{index === 0 && ' (aktuell)'} · {version.file_name} · {formatFileSize(version.file_size)} · {new Date(version.created_at).toLocaleDateString('de-DE')}
+                          {version.content_hash && ` · SHA-256 ${version.content_hash.slice(0, 12)}…`}
+                        </span>
+                        {index > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => handleDownload(previewDocument, version)}
+                            className="p-1 rounded hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors"
+                            title="Version herunterladen"
+                          >
+                            <Download className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {history && history.events.length > 0 && (
+                <details className="text-xs text-neutral-600 dark:text-neutral-400">
+                  <summary className="cursor-pointer text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                    Protokoll ({history.events.length})
+                  </summary>
+                  <ul className="mt-2 max-h-[150px] overflow-y-auto space-y-1">
+                    {history.events.map((event) => (
+                      <li key={event.id}>
+                        {new Date(event.created_at).toLocaleString('de-DE')} – {DOCUMENT_AUDIT_ACTION_LABELS[event.action]}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
               {/* Actions */}
               <div className="flex gap-2 justify-end">
+                <input
+                  ref={versionInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,application/pdf"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) handleVersionUpload(previewDocument, file)
+                    e.target.value = ''
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => versionInputRef.current?.click()}
+                  disabled={isUploadingVersion}
+                  title="Datei ersetzen – die bisherige Version bleibt archiviert"
+                >
+                  {isUploadingVersion ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                  Neue Version
+                </Button>
                 <Button
                   variant="outline"
-                  onClick={() => handleDownload(selectedDocument)}
+                  onClick={() => handleDownload(previewDocument)}
                 >
                   <Download className="w-4 h-4 mr-2" />
                   Herunterladen
                 </Button>
                 <Button
                   variant="destructive"
-                  onClick={() => handleDelete(selectedDocument.id)}
-                  disabled={isDeleting}
+                  onClick={() => handleDelete(previewDocument.id)}
+                  disabled={isDeleting || isPreviewRetained}
+                  title={isPreviewRetained ? 'Belege sind bis zum Ende der Aufbewahrungsfrist geschützt' : undefined}
                 >
                   <Trash2 className="w-4 h-4 mr-2" />
                   {isDeleting ? 'Wird gelöscht...' : 'Löschen'}
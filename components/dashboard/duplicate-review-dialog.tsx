@@ -0,0 +1,202 @@
+'use client'
+
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Copy, FileText, Link2, Loader } from 'lucide-react'
+import type { DuplicateExpenseSummary, ExpenseDuplicate } from '@/lib/types'
+import { linkDuplicateExpenses, mergeDuplicateExpenses } from '@/lib/actions/duplicates'
+import { DUPLICATE_REASON_LABELS, pairKey } from '@/lib/utils/duplicate-detection'
+import { formatDate, formatEuro } from '@/lib/utils'
+import { toast } from 'sonner'
+
+interface DuplicateReviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  duplicates: ExpenseDuplicate[]
+  /** Called after a pair was merged or linked */
+  onResolved?: () => void
+}
+
+type SummaryField = {
+  label: string
+  value: (expense: DuplicateExpenseSummary) => string
+}
+
+const SUMMARY_FIELDS: SummaryField[] = [
+  { label: 'Datum', value: (expense) => formatDate(expense.expense_date) },
+  { label: 'Betrag', value: (expense) => formatEuro(expense.amount) },
+  { label: 'Kategorie', value: (expense) => expense.category },
+  { label: 'Beschreibung', value: (expense) => expense.description || '–' },
+  { label: 'Rechnungsnummer', value: (expense) => expense.invoice_number || '–' },
+  { label: 'USt-Satz', value: (expense) => `${expense.vat_rate} %` },
+]
+
+// Pairs not yet skipped or linked whose expenses both still exist
+function openPairs(duplicates: ExpenseDuplicate[], handled: Set<string>, merged: Set<string>) {
+  return duplicates.filter(
+    (pair) =>
+      !handled.has(pairKey(pair.expense.id, pair.duplicate.id)) &&
+      !merged.has(pair.expense.id) &&
+      !merged.has(pair.duplicate.id)
+  )
+}
+
+/**
+ * Side-by-side review of probable duplicate expenses, one pair at a time:
+ * keep one and merge the other into it, or link both as not duplicate
+ */
+export function DuplicateReviewDialog({ open, onOpenChange, duplicates, onResolved }: DuplicateReviewDialogProps) {
+  const [handled, setHandled] = useState<Set<string>>(new Set())
+  const [merged, setMerged] = useState<Set<string>>(new Set())
+  const [isSaving, setIsSaving] = useState(false)
+
+  const remaining = openPairs(duplicates, handled, merged)
+  const current = remaining[0]
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setHandled(new Set())
+      setMerged(new Set())
+    }
+    onOpenChange(next)
+  }
+
+  // Continue with the next pair, or close after the last one
+  const advance = (mergedId?: string) => {
+    if (!current) return
+    const nextHandled = new Set(handled).add(pairKey(current.expense.id, current.duplicate.id))
+    const nextMerged = mergedId ? new Set(merged).add(mergedId) : merged
+    if (openPairs(duplicates, nextHandled, nextMerged).length === 0) {
+      handleOpenChange(false)
+      return
+    }
+    setHandled(nextHandled)
+    setMerged(nextMerged)
+  }
+
+  const handleMerge = async (keep: DuplicateExpenseSummary, drop: DuplicateExpenseSummary) => {
+    if (!window.confirm(`Die Ausgabe vom ${formatDate(drop.expense_date)} über ${formatEuro(drop.amount)} wird gelöscht, ihre Belege werden übernommen. Fortfahren?`)) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await mergeDuplicateExpenses(keep.id, drop.id)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Ausgaben zusammengeführt')
+      onResolved?.()
+      advance(drop.id)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleLink = async () => {
+    if (!current) return
+
+    setIsSaving(true)
+    try {
+      const result = await linkDuplicateExpenses([current.expense.id, current.duplicate.id])
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Ausgaben verknüpft – sie werden nicht mehr als Duplikat gemeldet')
+      onResolved?.()
+      advance()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderColumn = (expense: DuplicateExpenseSummary, other: DuplicateExpenseSummary, label: string) => (
+    <div className="flex-1 min-w-0 rounded-lg border border-neutral-200 dark:border-neutral-700 p-4 space-y-3">
+      <p className="text-xs font-semibold uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{label}</p>
+      <dl className="space-y-2 text-sm">
+        {SUMMARY_FIELDS.map((field) => {
+          const value = field.value(expense)
+          const differs = value !== field.value(other)
+          return (
+            <div key={field.label}>
+              <dt className="text-xs text-neutral-500 dark:text-neutral-400">{field.label}</dt>
+              <dd
+                className={`break-words ${differs ? 'font-medium text-amber-700 dark:text-amber-400' : 'text-neutral-900 dark:text-white'}`}
+              >
+                {value}
+              </dd>
+            </div>
+          )
+        })}
+        <div>
+          <dt className="text-xs text-neutral-500 dark:text-neutral-400">Belege</dt>
+          <dd className="text-neutral-900 dark:text-white">
+            {expense.documents.length === 0
+              ? '–'
+              : expense.documents.map((document) => (
+                  <span key={document.id} className="flex items-center gap-1 truncate">
+                    <FileText className="w-3 h-3 shrink-0" />
+                    {document.file_name}
+                  </span>
+                ))}
+          </dd>
+        </div>
+      </dl>
+      <Button
+        type="button"
+        size="sm"
+        className="w-full"
+        disabled={isSaving}
+        onClick={() => handleMerge(expense, other)}
+      >
+        <Copy className="w-4 h-4 mr-2" />
+        Diese behalten & zusammenführen
+      </Button>
+    </div>
+  )
+
+  return (
+    <Dialog open={open && !!current} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Mögliches Duplikat</DialogTitle>
+          <DialogDescription>
+            {remaining.length > 1 ? `Noch ${remaining.length} Paare. ` : ''}
+            Diese Ausgaben scheinen denselben Beleg zu erfassen. Abweichende Angaben sind hervorgehoben.
+          </DialogDescription>
+        </DialogHeader>
+
+        {current && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {current.reasons.map((reason) => (
+                <Badge key={reason} variant="secondary">
+                  {DUPLICATE_REASON_LABELS[reason]}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4">
+              {renderColumn(current.expense, current.duplicate, 'Früher erfasst')}
+              {renderColumn(current.duplicate, current.expense, 'Später erfasst')}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {isSaving && <Loader className="w-4 h-4 animate-spin self-center" />}
+          <Button type="button" variant="outline" disabled={isSaving} onClick={handleLink}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Kein Duplikat – verknüpfen
+          </Button>
+          <Button type="button" variant="ghost" disabled={isSaving} onClick={() => advance()}>
+            Überspringen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
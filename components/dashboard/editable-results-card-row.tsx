@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import type { ResultsRow } from '@/lib/actions/monthly-results'
 import { formatEuro } from '@/lib/utils'
+import { PAYER_TYPE_LABELS } from '@/lib/utils/payer-types'
 import { VarianceIndicator } from './variance-indicator'
 import { AchievementBadge } from './achievement-badge'
 import { Pencil, Check, X, Trash2 } from 'lucide-react'
@@ -14,7 +15,7 @@ interface EditableResultsCardRowProps {
 }
 
 export function EditableResultsCardRow({ result, onSave, onDelete }: EditableResultsCardRowProps) {
-  const { therapy_type_id, therapy_name, price_per_session, planned_sessions, actual_sessions, variance, variancePercent, achievement } = result
+  const { therapy_type_id, therapy_name, payer_type, price_per_session, planned_sessions, actual_sessions, variance, variancePercent, achievement } = result
   const [isEditing, setIsEditing] = useState(false)
   const [editValue, setEditValue] = useState(actual_sessions?.toString() || '')
   const [isSaving, setIsSaving] = useState(false)
@@ -63,7 +64,9 @@ export function EditableResultsCardRow({ result, onSave, onDelete }: EditableRes
         <div className="flex items-start justify-between mb-3">
           <div>
             <p className="font-medium text-neutral-900 dark:text-white">{therapy_name}</p>
-            <p className="text-xs text-neutral-500 dark:text-neutral-400">{formatEuro(price_per_session)}/Sitzung</p>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              {formatEuro(price_per_session)}/Sitzung{payer_type && ` · ${PAYER_TYPE_LABELS[payer_type]}`}
+            </p>
           </div>
         </div>
 
@@ -118,7 +121,9 @@ export function EditableResultsCardRow({ result, onSave, onDelete }: EditableRes
       <div className="flex items-start justify-between mb-3">
         <div>
           <p className="font-medium text-neutral-900 dark:text-white">{therapy_name}</p>
-          <p className="text-xs text-neutral-500 dark:text-neutral-400">{formatEuro(price_per_session)}/Sitzung</p>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            {formatEuro(price_per_session)}/Sitzung{payer_type && ` · ${PAYER_TYPE_LABELS[payer_type]}`}
+          </p>
         </div>
         <div className="flex items-center gap-1">
           <button
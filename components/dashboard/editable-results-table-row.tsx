@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import type { ResultsRow } from '@/lib/actions/monthly-results'
 import { formatEuro } from '@/lib/utils'
+import { PAYER_TYPE_LABELS } from '@/lib/utils/payer-types'
 import { VarianceIndicator } from './variance-indicator'
 import { AchievementBadge } from './achievement-badge'
 import { Pencil, Check, X, Trash2 } from 'lucide-react'
@@ -16,7 +17,7 @@ interface EditableResultsTableRowProps {
 }
 
 export function EditableResultsTableRow({ result, onSave, onDelete, isSelected = false, onSelect }: EditableResultsTableRowProps) {
-  const { id, therapy_type_id, therapy_name, price_per_session, planned_sessions, actual_sessions, variance, variancePercent, achievement } = result
+  const { id, therapy_type_id, therapy_name, payer_type, price_per_session, planned_sessions, actual_sessions, variance, variancePercent, achievement } = result
   const [isEditing, setIsEditing] = useState(false)
   const [editValue, setEditValue] = useState(actual_sessions?.toString() || '')
   const [isSaving, setIsSaving] = useState(false)
@@ -74,6 +75,9 @@ export function EditableResultsTableRow({ result, onSave, onDelete, isSelected =
         </td>
         <td className="px-6 py-4 align-top">
           <p className="font-medium text-neutral-900 dark:text-white">{therapy_name}</p>
+          {payer_type && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">{PAYER_TYPE_LABELS[payer_type]}</p>
+          )}
         </td>
         <td className="px-6 py-4 text-center font-semibold text-neutral-900 dark:text-white align-top">
           {formatEuro(price_per_session)}
@@ -132,6 +136,9 @@ export function EditableResultsTableRow({ result, onSave, onDelete, isSelected =
       </td>
       <td className="px-6 py-4 align-top">
         <p className="font-medium text-neutral-900 dark:text-white">{therapy_name}</p>
+        {payer_type && (
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">{PAYER_TYPE_LABELS[payer_type]}</p>
+        )}
       </td>
       <td className="px-6 py-4 text-center font-semibold text-neutral-900 dark:text-white align-top">
         {formatEuro(price_per_session)}
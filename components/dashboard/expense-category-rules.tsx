@@ -0,0 +1,248 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Tags, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import type { ExpenseCategoryRule } from '@/lib/types'
+import {
+  getExpenseCategoryRules,
+  saveExpenseCategoryRule,
+  deleteExpenseCategoryRule
+} from '@/lib/actions/expense-category-rules'
+import { AUSTRIAN_EXPENSE_CATEGORIES, RECURRENCE_INTERVALS } from '@/lib/constants'
+import { formatEuro } from '@/lib/utils'
+
+interface RuleDraft {
+  vendor_contains: string
+  keyword: string
+  amount_min: string
+  amount_max: string
+  /** "category|subcategory", subcategory may be empty */
+  target: string
+  recurrence_interval: '' | 'monthly' | 'quarterly' | 'yearly'
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  vendor_contains: '',
+  keyword: '',
+  amount_min: '',
+  amount_max: '',
+  target: '',
+  recurrence_interval: ''
+}
+
+const selectClassName =
+  'h-9 px-3 rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm'
+
+function describeCriteria(rule: ExpenseCategoryRule): string {
+  const amount = rule.amount_min != null && rule.amount_max != null
+    ? `${formatEuro(rule.amount_min)} – ${formatEuro(rule.amount_max)}`
+    : rule.amount_min != null
+      ? `ab ${formatEuro(rule.amount_min)}`
+      : rule.amount_max != null
+        ? `bis ${formatEuro(rule.amount_max)}`
+        : null
+
+  return [
+    rule.vendor_contains && `Anbieter „${rule.vendor_contains}“`,
+    rule.keyword && `Stichwort „${rule.keyword}“`,
+    amount
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+/**
+ * User-editable rules that categorise new expenses
+ * Rules are also learned from the bank statement import
+ */
+export function ExpenseCategoryRules() {
+  const [rules, setRules] = useState<ExpenseCategoryRule[]>([])
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT)
+  const [isSaving, setIsSaving] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    getExpenseCategoryRules().then(setRules)
+  }, [])
+
+  const updateDraft = (update: Partial<RuleDraft>) => {
+    setDraft(prev => ({ ...prev, ...update }))
+  }
+
+  const parseAmount = (value: string) => (value.trim() === '' ? null : parseFloat(value.replace(',', '.')))
+
+  const handleAdd = async () => {
+    const [category, subcategory] = draft.target.split('|')
+    setIsSaving(true)
+    try {
+      const result = await saveExpenseCategoryRule({
+        vendor_contains: draft.vendor_contains || null,
+        keyword: draft.keyword || null,
+        amount_min: parseAmount(draft.amount_min),
+        amount_max: parseAmount(draft.amount_max),
+        category: category || '',
+        subcategory: subcategory || null,
+        recurrence_interval: draft.recurrence_interval || null
+      })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      setRules(await getExpenseCategoryRules())
+      setDraft(EMPTY_DRAFT)
+      toast.success('Kategorieregel gespeichert')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setRemovingId(id)
+    try {
+      const result = await deleteExpenseCategoryRule(id)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      setRules(prev => prev.filter(rule => rule.id !== id))
+      toast.success('Kategorieregel gelöscht')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const hasCriteria = !!(draft.vendor_contains.trim() || draft.keyword.trim() || draft.amount_min || draft.amount_max)
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+          <Tags className="h-5 w-5 text-neutral-500" />
+          Kategorieregeln für Ausgaben
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Neue Ausgaben, gescannte Rechnungen und Kontoauszüge werden automatisch kategorisiert. Regeln gehen vor;
+          ohne passende Regel werden frühere Ausgaben desselben Anbieters herangezogen.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-4 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+        <Input
+          placeholder="Anbieter enthält (z.B. A1 Telekom)"
+          value={draft.vendor_contains}
+          onChange={(e) => updateDraft({ vendor_contains: e.target.value })}
+          disabled={isSaving}
+          className="h-9"
+        />
+        <Input
+          placeholder="Stichwort in Beschreibung"
+          value={draft.keyword}
+          onChange={(e) => updateDraft({ keyword: e.target.value })}
+          disabled={isSaving}
+          className="h-9"
+        />
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            step={0.01}
+            min={0}
+            placeholder="Betrag ab €"
+            value={draft.amount_min}
+            onChange={(e) => updateDraft({ amount_min: e.target.value })}
+            disabled={isSaving}
+            className="h-9"
+            inputMode="decimal"
+          />
+          <Input
+            type="number"
+            step={0.01}
+            min={0}
+            placeholder="bis €"
+            value={draft.amount_max}
+            onChange={(e) => updateDraft({ amount_max: e.target.value })}
+            disabled={isSaving}
+            className="h-9"
+            inputMode="decimal"
+          />
+        </div>
+        <select
+          value={draft.recurrence_interval}
+          onChange={(e) => updateDraft({ recurrence_interval: e.target.value as RuleDraft['recurrence_interval'] })}
+          disabled={isSaving}
+          title="Wiederholung"
+          className={selectClassName}
+        >
+          <option value="">Keine Wiederholung</option>
+          {RECURRENCE_INTERVALS.map(interval => (
+            <option key={interval.value} value={interval.value}>
+              {interval.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={draft.target}
+          onChange={(e) => updateDraft({ target: e.target.value })}
+          disabled={isSaving}
+          title="Kategorie"
+          className={`${selectClassName} sm:col-span-2`}
+        >
+          <option value="">Kategorie wählen</option>
+          {AUSTRIAN_EXPENSE_CATEGORIES.map(({ category, subcategories }) => (
+            <optgroup key={category} label={category}>
+              <option value={`${category}|`}>{category}</option>
+              {subcategories.map(subcategory => (
+                <option key={subcategory} value={`${category}|${subcategory}`}>
+                  {category} › {subcategory}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <div className="sm:col-span-2 flex justify-end">
+          <Button
+            type="button"
+            onClick={handleAdd}
+            disabled={isSaving || !hasCriteria || !draft.target}
+            className="w-full md:w-auto"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {isSaving ? 'Speichern...' : 'Regel hinzufügen'}
+          </Button>
+        </div>
+      </div>
+
+      {rules.length > 0 && (
+        <div className="divide-y divide-neutral-200 dark:divide-neutral-700 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+          {rules.map(rule => (
+            <div key={rule.id} className="px-4 py-3 flex items-center justify-between gap-4 text-sm">
+              <div className="flex items-center gap-2 min-w-0 text-neutral-600 dark:text-neutral-400">
+                <span className="truncate">{describeCriteria(rule)}</span>
+                <span>→</span>
+                <span className="font-medium text-neutral-900 dark:text-white truncate">
+                  {rule.category}
+                  {rule.subcategory && ` › ${rule.subcategory}`}
+                </span>
+                {rule.recurrence_interval && (
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                    ({RECURRENCE_INTERVALS.find(i => i.value === rule.recurrence_interval)?.label})
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={() => handleDelete(rule.id)}
+                disabled={removingId === rule.id}
+                className="p-2 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                title="Kategorieregel löschen"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -81,11 +81,14 @@ export function ExpenseDialogEnhanced({
                   user_id: '',
                   amount: suggestedData.amount,
                   category: suggestedData.category_hint || AUSTRIAN_EXPENSE_CATEGORIES[0].category,
-                  subcategory: null,
+                  subcategory: suggestedData.subcategory_hint,
                   description: `${suggestedData.vendor_name}: ${suggestedData.description}`,
                   expense_date: suggestedData.invoice_date,
-                  is_recurring: false,
-                  recurrence_interval: null,
+                  is_recurring: !!suggestedData.recurrence_hint,
+                  recurrence_interval: suggestedData.recurrence_hint,
+                  vat_rate: suggestedData.vat_rate ?? 0,
+                  vat_breakdown: suggestedData.vat_breakdown.length > 1 ? suggestedData.vat_breakdown : null,
+                  invoice_number: suggestedData.invoice_number,
                   created_at: new Date().toISOString(),
                   updated_at: new Date().toISOString(),
                 } as any) : undefined)}
@@ -143,6 +146,7 @@ export function ExpenseDialogEnhanced({
         open={scannerOpen}
         onOpenChange={setScannerOpen}
         onSuggestion={handleBillScannerSuggestion}
+        onExpensesCreated={handleSuccess}
       />
     </>
   )
@@ -24,24 +24,34 @@ import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Textarea } from '@/components/ui/textarea'
 import { ExpenseSchema, type ExpenseInput } from '@/lib/validations'
-import type { Expense, ExpenseDocument } from '@/lib/types'
+import type { Expense, ExpenseDocument, ExpenseDuplicate } from '@/lib/types'
 import { createExpenseAction, updateExpenseAction } from '@/lib/actions/expenses'
 import { uploadExpenseDocument, getExpenseDocuments } from '@/lib/actions/documents'
-import { AUSTRIAN_EXPENSE_CATEGORIES, RECURRENCE_INTERVALS } from '@/lib/constants'
+import { confirmInboxDocument } from '@/lib/actions/receipt-inbox'
+import { suggestExpenseCategory } from '@/lib/actions/expense-category-rules'
+import { AUSTRIAN_EXPENSE_CATEGORIES, RECURRENCE_INTERVALS, VAT_ALLOCATIONS, VAT_RATES } from '@/lib/constants'
+import { CATEGORY_SOURCE_LABELS, type ExpenseCategorySuggestion } from '@/lib/utils/expense-categorization'
+import { pairKey } from '@/lib/utils/duplicate-detection'
+import { formatEuro } from '@/lib/utils'
 import { toast } from 'sonner'
-import { Plus, Upload, X } from 'lucide-react'
+import { Plus, Sparkles, Upload, X } from 'lucide-react'
 import { DocumentViewer } from './document-viewer'
+import { DuplicateReviewDialog } from './duplicate-review-dialog'
 
 interface ExpenseFormEnhancedProps {
   expense?: Expense
   onSuccess?: () => void
+  /** Receipt inbox document the new expense is created for */
+  inboxDocumentId?: string
 }
 
-export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedProps) {
+export function ExpenseFormEnhanced({ expense, onSuccess, inboxDocumentId }: ExpenseFormEnhancedProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [selectedCategory, setSelectedCategory] = useState<string>('')
   const [documents, setDocuments] = useState<ExpenseDocument[]>([])
   const [uploadingFiles, setUploadingFiles] = useState<File[]>([])
+  const [suggestion, setSuggestion] = useState<ExpenseCategorySuggestion | null>(null)
+  const [duplicates, setDuplicates] = useState<ExpenseDuplicate[]>([])
 
   // Get today's date in YYYY-MM-DD format
   const today = new Date().toISOString().split('T')[0]
@@ -58,6 +68,10 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
           recurrence_interval: expense.recurrence_interval || undefined,
           description: expense.description || undefined,
           spread_monthly: expense.spread_monthly || false,
+          vat_rate: expense.vat_rate ?? 0,
+          vat_allocation: expense.vat_allocation ?? 'mixed',
+          vat_breakdown: expense.vat_breakdown ?? null,
+          invoice_number: expense.invoice_number ?? null,
         }
       : {
           category: '',
@@ -68,6 +82,10 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
           recurrence_interval: undefined,
           description: undefined,
           spread_monthly: false,
+          vat_rate: 0,
+          vat_allocation: 'mixed',
+          vat_breakdown: null,
+          invoice_number: null,
         },
   })
 
@@ -96,6 +114,10 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
         recurrence_interval: expense.recurrence_interval || undefined,
         description: expense.description || undefined,
         spread_monthly: expense.spread_monthly || false,
+        vat_rate: expense.vat_rate ?? 0,
+        vat_allocation: expense.vat_allocation ?? 'mixed',
+        vat_breakdown: expense.vat_breakdown ?? null,
+        invoice_number: expense.invoice_number ?? null,
       })
       setSelectedCategory(expense.category)
     } else {
@@ -108,6 +130,10 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
         recurrence_interval: undefined,
         description: undefined,
         spread_monthly: false,
+        vat_rate: 0,
+        vat_allocation: 'mixed',
+        vat_breakdown: null,
+        invoice_number: null,
       })
       setSelectedCategory('')
     }
@@ -119,6 +145,11 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
   const watchRecurrenceInterval = form.watch('recurrence_interval')
   const watchAmount = form.watch('amount')
   const watchSpreadMonthly = form.watch('spread_monthly')
+  const watchVatRate = form.watch('vat_rate') ?? 0
+  const watchVatBreakdown = form.watch('vat_breakdown')
+  const watchDescription = form.watch('description')
+  const watchSubcategory = form.watch('subcategory')
+  const isNewExpense = !expense?.id
 
   useEffect(() => {
     if (watchCategory !== selectedCategory) {
@@ -127,6 +158,42 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
     }
   }, [watchCategory, selectedCategory, form])
 
+  const applySuggestion = useCallback((next: ExpenseCategorySuggestion) => {
+    // Set the tracked category first so the subcategory is not reset
+    setSelectedCategory(next.category)
+    form.setValue('category', next.category, { shouldValidate: true })
+    form.setValue('subcategory', next.subcategory || undefined)
+    if (next.recurrence_interval) {
+      form.setValue('is_recurring', true)
+      form.setValue('recurrence_interval', next.recurrence_interval)
+    }
+  }, [form])
+
+  // Suggest a category for new expenses from rules and earlier expenses
+  useEffect(() => {
+    if (!isNewExpense || !watchDescription?.trim()) {
+      setSuggestion(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      const next = await suggestExpenseCategory({
+        description: watchDescription,
+        amount: watchAmount > 0 ? watchAmount : null
+      })
+      setSuggestion(next)
+      if (next && !form.getValues('category')) {
+        applySuggestion(next)
+      }
+    }, 400)
+
+    return () => clearTimeout(timeout)
+  }, [isNewExpense, watchDescription, watchAmount, form, applySuggestion])
+
+  const suggestionApplied = !!suggestion &&
+    suggestion.category === watchCategory &&
+    (suggestion.subcategory || undefined) === (watchSubcategory || undefined)
+
   // Get subcategories for selected category
   const subcategories = AUSTRIAN_EXPENSE_CATEGORIES.find(
     (cat) => cat.category === selectedCategory
@@ -185,10 +252,12 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
     setIsLoading(false)
   }
 
-  const uploadFilesForExpense = async (expenseId: string) => {
-    if (uploadingFiles.length === 0) return
+  // Returns the probable duplicates found for the uploaded files
+  const uploadFilesForExpense = async (expenseId: string): Promise<ExpenseDuplicate[]> => {
+    if (uploadingFiles.length === 0) return []
 
     let successCount = 0
+    const found: ExpenseDuplicate[] = []
     for (const file of uploadingFiles) {
       try {
         const arrayBuffer = await file.arrayBuffer()
@@ -199,8 +268,10 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
           content: base64Content,
           type: file.type
         })
-        if (!result.error) successCount++
-        else toast.error(`${file.name}: ${result.error}`)
+        if (!result.error) {
+          successCount++
+          found.push(...(result.duplicates ?? []))
+        } else toast.error(`${file.name}: ${result.error}`)
       } catch (error) {
         console.error('Upload error:', error)
         toast.error(`Fehler beim Upload: ${file.name}`)
@@ -210,24 +281,36 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
       toast.success(`${successCount} Datei(en) erfolgreich hochgeladen`)
     }
     setUploadingFiles([])
+    return found
+  }
+
+  const finish = () => {
+    setDuplicates([])
+    onSuccess?.()
+    form.reset()
   }
 
   const onSubmit = async (values: ExpenseInput) => {
     setIsLoading(true)
     try {
       let result
+      const found: ExpenseDuplicate[] = []
 
-      if (expense) {
+      // Expenses pre-filled by the bill scanner have no id yet
+      if (expense?.id) {
         result = await updateExpenseAction(expense.id, values)
         if (!result.error && uploadingFiles.length > 0) {
-          await uploadFilesForExpense(expense.id)
+          found.push(...await uploadFilesForExpense(expense.id))
           await loadDocuments()
         }
       } else {
-        result = await createExpenseAction(values)
+        result = inboxDocumentId
+          ? await confirmInboxDocument(inboxDocumentId, values)
+          : await createExpenseAction(values)
+        found.push(...(result.duplicates ?? []))
         // Upload queued files after expense creation
         if (!result.error && result.data?.id && uploadingFiles.length > 0) {
-          await uploadFilesForExpense(result.data.id)
+          found.push(...await uploadFilesForExpense(result.data.id))
         }
       }
 
@@ -235,12 +318,18 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
         toast.error(result.error)
       } else {
         toast.success(
-          expense
+          expense?.id
             ? 'Ausgabe erfolgreich aktualisiert'
             : 'Ausgabe erfolgreich erstellt'
         )
-        onSuccess?.()
-        form.reset()
+        // The same pair is reported by the expense and each of its uploads
+        const unique = [...new Map(found.map(pair => [pairKey(pair.expense.id, pair.duplicate.id), pair])).values()]
+        if (unique.length > 0) {
+          toast.warning('Mögliches Duplikat gefunden – bitte prüfen')
+          setDuplicates(unique)
+        } else {
+          finish()
+        }
       }
     } catch (error) {
       console.error('Error:', error)
@@ -293,7 +382,7 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
                 <FormLabel>Kategorie</FormLabel>
                 <Select
                   onValueChange={field.onChange}
-                  defaultValue={field.value}
+                  value={field.value ?? ''}
                   disabled={isLoading}
                 >
                   <FormControl>
@@ -323,7 +412,7 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
                   <FormLabel>Unterkategorie (optional)</FormLabel>
                   <Select
                     onValueChange={field.onChange}
-                    defaultValue={field.value}
+                    value={field.value ?? ''}
                     disabled={isLoading}
                   >
                     <FormControl>
@@ -389,6 +478,57 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="invoice_number"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rechnungsnummer (optional)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="z.B. RE-2025-0042"
+                    {...field}
+                    value={field.value ?? ''}
+                    disabled={isLoading}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Hilft, doppelt erfasste Rechnungen zu erkennen
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {suggestion && (
+            <div className="flex items-center justify-between gap-3 rounded-md border border-accent-200 dark:border-accent-800 bg-accent-50/50 dark:bg-accent-950/20 p-3">
+              <div className="flex items-start gap-2 text-sm">
+                <Sparkles className="w-4 h-4 mt-0.5 text-accent-600 dark:text-accent-400 shrink-0" />
+                <div>
+                  <p className="font-medium text-neutral-900 dark:text-white">
+                    {suggestion.category}
+                    {suggestion.subcategory && ` › ${suggestion.subcategory}`}
+                    {suggestion.recurrence_interval && ` • ${RECURRENCE_INTERVALS.find(i => i.value === suggestion.recurrence_interval)?.label}`}
+                  </p>
+                  <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {Math.round(suggestion.confidence * 100)} % Sicherheit • {CATEGORY_SOURCE_LABELS[suggestion.source]}
+                  </p>
+                </div>
+              </div>
+              {!suggestionApplied && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => applySuggestion(suggestion)}
+                  disabled={isLoading}
+                >
+                  Übernehmen
+                </Button>
+              )}
+            </div>
+          )}
+
         </fieldset>
 
         {/* Recurring Fields */}
@@ -431,7 +571,7 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
                   <FormLabel>Wiederholungsintervall</FormLabel>
                   <Select
                     onValueChange={field.onChange}
-                    defaultValue={field.value}
+                    value={field.value ?? ''}
                     disabled={isLoading}
                   >
                     <FormControl>
@@ -488,6 +628,99 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
               )}
             />
           )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="vat_rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Enthaltene Umsatzsteuer</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(Number(value))}
+                    value={String(field.value ?? 0)}
+                    disabled={isLoading}
+                  >
+                    <FormControl>
+                      <SelectTrigger aria-label="Umsatzsteuersatz wählen">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {VAT_RATES.map((rate) => (
+                        <SelectItem key={rate.value} value={String(rate.value)}>
+                          {rate.value === 0 ? 'Keine' : rate.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Vorsteuer im Rechnungsbetrag</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {(watchVatRate > 0 || !!watchVatBreakdown?.length) && (
+              <FormField
+                control={form.control}
+                name="vat_allocation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Verwendet für</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value ?? 'mixed'}
+                      disabled={isLoading}
+                    >
+                      <FormControl>
+                        <SelectTrigger aria-label="Zuordnung für den Vorsteuerabzug wählen">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VAT_ALLOCATIONS.map((allocation) => (
+                          <SelectItem key={allocation.value} value={allocation.value}>
+                            {allocation.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Entscheidet über den Vorsteuerabzug</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+
+          {!!watchVatBreakdown?.length && (
+            <div className="rounded-lg border border-neutral-200 dark:border-neutral-700 p-3 space-y-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-neutral-900 dark:text-white">
+                  Umsatzsteuer laut Rechnung
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => form.setValue('vat_breakdown', null)}
+                  disabled={isLoading}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Entfernen
+                </Button>
+              </div>
+              {watchVatBreakdown.map((line) => (
+                <div key={line.rate} className="flex justify-between text-neutral-600 dark:text-neutral-400">
+                  <span>{line.rate} %: netto {formatEuro(line.net)}</span>
+                  <span>USt {formatEuro(line.vat)}</span>
+                </div>
+              ))}
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                Die Vorsteuer wird je Steuersatz aus dieser Aufteilung berechnet, nicht aus dem Betrag.
+              </p>
+            </div>
+          )}
         </fieldset>
 
         {/* Document Management */}
@@ -569,10 +802,18 @@ export function ExpenseFormEnhanced({ expense, onSuccess }: ExpenseFormEnhancedP
             Abbrechen
           </Button>
           <Button type="submit" disabled={isLoading}>
-            {isLoading ? 'Speichern...' : expense ? 'Aktualisieren' : 'Erstellen'}
+            {isLoading ? 'Speichern...' : expense?.id ? 'Aktualisieren' : 'Erstellen'}
           </Button>
         </div>
       </form>
+
+      <DuplicateReviewDialog
+        open={duplicates.length > 0}
+        onOpenChange={(open) => {
+          if (!open) finish()
+        }}
+        duplicates={duplicates}
+      />
     </Form>
   )
 }
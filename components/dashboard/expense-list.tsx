@@ -2,13 +2,18 @@
 
 import { useState, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
-import { Plus, Filter, RotateCw, Upload, ArrowUp, ArrowDown } from 'lucide-react'
-import type { Expense } from '@/lib/types'
+import { Plus, Filter, RotateCw, Upload, ArrowUp, ArrowDown, Landmark, Copy, Loader } from 'lucide-react'
+import type { Expense, ExpenseDuplicate } from '@/lib/types'
 import { ExpenseTable } from './expense-table'
 import { ExpenseDialogEnhanced } from './expense-dialog-enhanced'
 import { ExportExpensesButton } from './export-expenses-button'
+import { DocumentArchiveExportButton } from './document-archive-export-button'
 import { BillScanner, type BillScannerSuggestion } from './bill-scanner'
+import { BankImportDialog } from './bank-import-dialog'
+import { DuplicateReviewDialog } from './duplicate-review-dialog'
+import { ReceiptInbox } from './receipt-inbox'
 import { deleteExpenseAction, getExpenses } from '@/lib/actions/expenses'
+import { scanDuplicateExpenses } from '@/lib/actions/duplicates'
 import { toast } from 'sonner'
 import { formatEuro } from '@/lib/utils'
 import { AUSTRIAN_EXPENSE_CATEGORIES } from '@/lib/constants'
@@ -23,6 +28,7 @@ type SortDirection = 'asc' | 'desc'
 export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
   const [open, setOpen] = useState(false)
   const [scannerOpen, setScannerOpen] = useState(false)
+  const [bankImportOpen, setBankImportOpen] = useState(false)
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const [filterCategory, setFilterCategory] = useState<string>('all')
@@ -30,6 +36,8 @@ export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
   const [sortColumn, setSortColumn] = useState<SortColumn>('date')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
   const [expenses, setExpenses] = useState(initialExpenses)
+  const [duplicates, setDuplicates] = useState<ExpenseDuplicate[]>([])
+  const [isScanning, setIsScanning] = useState(false)
 
   const handleEdit = (expense: Expense) => {
     setSelectedExpense(expense)
@@ -47,12 +55,16 @@ export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
       user_id: '',
       amount: suggestion.amount,
       category: suggestion.category_hint || AUSTRIAN_EXPENSE_CATEGORIES[0].category,
-      subcategory: null,
+      subcategory: suggestion.subcategory_hint,
       description: `${suggestion.vendor_name}: ${suggestion.description}`,
       expense_date: suggestion.invoice_date,
-      is_recurring: false,
-      recurrence_interval: null,
+      is_recurring: !!suggestion.recurrence_hint,
+      recurrence_interval: suggestion.recurrence_hint,
       spread_monthly: false,
+      vat_rate: suggestion.vat_rate ?? 0,
+      vat_allocation: 'mixed',
+      vat_breakdown: suggestion.vat_breakdown.length > 1 ? suggestion.vat_breakdown : null,
+      invoice_number: suggestion.invoice_number,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     })
@@ -80,6 +92,23 @@ export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
     }
   }
 
+  // Check all existing expenses and receipts for duplicates
+  const handleScanDuplicates = async () => {
+    setIsScanning(true)
+    try {
+      const result = await scanDuplicateExpenses()
+      if (result.error) {
+        toast.error(result.error)
+      } else if (!result.data || result.data.length === 0) {
+        toast.success('Keine Duplikate gefunden')
+      } else {
+        setDuplicates(result.data)
+      }
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
   // Filter and sort expenses
   const filteredExpenses = useMemo(() => {
     let filtered = expenses
@@ -159,6 +188,11 @@ export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
       .reduce((sum, exp) => sum + parseFloat(exp.amount.toString()), 0)
   }, [expenses])
 
+  const expenseYears = useMemo(() => {
+    const years = new Set(expenses.map((exp) => Number(exp.expense_date.slice(0, 4))))
+    return [...years].sort((a, b) => b - a)
+  }, [expenses])
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -170,6 +204,26 @@ export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
         </div>
         <div className="flex gap-2">
           <ExportExpensesButton />
+          <DocumentArchiveExportButton years={expenseYears} />
+          <Button
+            onClick={() => setBankImportOpen(true)}
+            size="lg"
+            variant="outline"
+            className="hidden md:flex"
+          >
+            <Landmark className="h-4 w-4 mr-2" />
+            Kontoauszug
+          </Button>
+          <Button
+            onClick={handleScanDuplicates}
+            size="lg"
+            variant="outline"
+            className="hidden md:flex"
+            disabled={isScanning}
+          >
+            {isScanning ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Copy className="h-4 w-4 mr-2" />}
+            Duplikate prüfen
+          </Button>
           {/* Mobile: Show only scanner button */}
           <Button
             onClick={() => setScannerOpen(true)}
@@ -239,6 +293,14 @@ export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
 
       </div>
 
+      {/* Receipt Inbox */}
+      <ReceiptInbox
+        onExpensesCreated={async () => {
+          const freshExpenses = await getExpenses()
+          setExpenses(freshExpenses)
+        }}
+      />
+
       {/* Filter Bar */}
       <div className="flex items-center gap-2 flex-wrap">
         <Filter className="h-4 w-4 text-neutral-500" />
@@ -390,6 +452,33 @@ export function ExpenseList({ expenses: initialExpenses }: ExpenseListProps) {
         open={scannerOpen}
         onOpenChange={setScannerOpen}
         onSuggestion={handleScannerSuggestion}
+        onExpensesCreated={async () => {
+          const freshExpenses = await getExpenses()
+          setExpenses(freshExpenses)
+        }}
+      />
+
+      {/* Bank Statement Import */}
+      <BankImportDialog
+        open={bankImportOpen}
+        onOpenChange={setBankImportOpen}
+        onImportComplete={async () => {
+          const freshExpenses = await getExpenses()
+          setExpenses(freshExpenses)
+        }}
+      />
+
+      {/* Duplicate Review */}
+      <DuplicateReviewDialog
+        open={duplicates.length > 0}
+        onOpenChange={(open) => {
+          if (!open) setDuplicates([])
+        }}
+        duplicates={duplicates}
+        onResolved={async () => {
+          const freshExpenses = await getExpenses()
+          setExpenses(freshExpenses)
+        }}
       />
     </div>
   )
@@ -6,12 +6,15 @@ import { Upload, CheckCircle2, AlertCircle, FileSpreadsheet, History } from 'luc
 import { toast } from 'sonner'
 import { parseLatidoExcel, processLatidoSessions } from '@/lib/actions/latido-import'
 import { LatidoImportHistory } from './latido-import-history'
+import { LatidoReviewQueue } from './latido-review-queue'
+import { LatidoMappingRules } from './latido-mapping-rules'
+import type { LatidoReviewItem } from '@/lib/types/import'
 
 interface LatidoImportFormProps {
   onImportComplete?: (importedMonths?: string[]) => void
 }
 
-type ImportStep = 'upload' | 'preview' | 'processing' | 'complete'
+type ImportStep = 'upload' | 'preview' | 'processing' | 'review' | 'complete'
 type ViewMode = 'upload' | 'history'
 
 export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
@@ -40,6 +43,7 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
     skipped_count: number
     imported_months: string[]
   } | null>(null)
+  const [reviewQueue, setReviewQueue] = useState<LatidoReviewItem[]>([])
 
   const handleFile = async (file: File) => {
     // Validate file type
@@ -149,7 +153,7 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
         imported_months: result.imported_months || [],
       })
 
-      // Show warnings (e.g. no price match)
+      // Show warnings (e.g. tolerance matches)
       if (result.warnings?.length > 0) {
         result.warnings.slice(0, 3).forEach((w: any) => toast.warning(w.message))
       }
@@ -158,7 +162,14 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
         toast.info(`${result.duplicate_count} bereits importierte Rechnungen übersprungen`)
       }
 
-      if (result.imported_count > 0) {
+      // Unmatched invoices go to the review queue
+      if (result.review_queue?.length > 0 && !(result.errors?.length > 0)) {
+        if (result.imported_count > 0) {
+          toast.success(`${result.imported_count} Sitzungen erfolgreich importiert`)
+        }
+        setReviewQueue(result.review_queue)
+        setStep('review')
+      } else if (result.imported_count > 0) {
         toast.success(`${result.imported_count} Sitzungen erfolgreich importiert`)
         setStep('complete')
         setTimeout(() => {
@@ -189,12 +200,30 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
     }
   }
 
+  const finishReview = (resolved: { imported_count: number; imported_months: string[] }) => {
+    const months = [...new Set([...(importResult?.imported_months || []), ...resolved.imported_months])].sort()
+    const reviewedCount = resolved.imported_count
+
+    setImportResult(prev => prev && {
+      ...prev,
+      imported_count: prev.imported_count + reviewedCount,
+      skipped_count: Math.max(0, prev.skipped_count - reviewedCount),
+      imported_months: months,
+    })
+    setReviewQueue([])
+    setStep('complete')
+    setTimeout(() => {
+      onImportComplete?.(months)
+    }, 1500)
+  }
+
   const handleReset = () => {
     setStep('upload')
     setFileName('')
     setPreview(null)
     setParsedSessions([])
     setImportResult(null)
+    setReviewQueue([])
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -230,10 +259,13 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
 
       {/* History View */}
       {viewMode === 'history' && (
-        <LatidoImportHistory onImportRemoved={() => {
-          toast.success('Import entfernt und Sitzungen aktualisiert')
-          onImportComplete?.()
-        }} />
+        <>
+          <LatidoImportHistory onImportRemoved={() => {
+            toast.success('Import entfernt und Sitzungen aktualisiert')
+            onImportComplete?.()
+          }} />
+          <LatidoMappingRules />
+        </>
       )}
 
       {/* Upload View */}
@@ -273,7 +305,7 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
 
           <div className="bg-accent-50 dark:bg-accent-900/20 border border-accent-200 dark:border-accent-800 rounded-lg p-4">
             <p className="text-sm text-accent-900 dark:text-accent-100">
-              <strong>Latido Honorarnoten-Export:</strong> Rechnungen werden automatisch erkannt. Stornos werden ausgeschlossen. Therapietypen werden anhand des Preises zugeordnet. Bereits importierte Rechnungen werden anhand der Rechnungsnummer erkannt und übersprungen.
+              <strong>Latido Honorarnoten-Export:</strong> Rechnungen werden automatisch erkannt. Stornos werden ausgeschlossen. Therapietypen werden anhand von Leistungstext, Preis und gespeicherten Zuordnungen erkannt; nicht eindeutige Rechnungen können Sie anschließend manuell zuordnen. Bereits importierte Rechnungen werden anhand der Rechnungsnummer erkannt und übersprungen.
             </p>
           </div>
         </>
@@ -378,6 +410,14 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
         </div>
       )}
 
+      {step === 'review' && (
+        <LatidoReviewQueue
+          items={reviewQueue}
+          onResolved={finishReview}
+          onSkip={() => finishReview({ imported_count: 0, imported_months: [] })}
+        />
+      )}
+
       {step === 'complete' && (
         <div className="text-center py-12 space-y-4">
           <CheckCircle2 className="h-12 w-12 text-green-600 dark:text-green-400 mx-auto" />
@@ -393,7 +433,7 @@ export function LatidoImportForm({ onImportComplete }: LatidoImportFormProps) {
                 <p>{importResult.duplicate_count} bereits importierte Rechnungen übersprungen</p>
               )}
               {importResult.skipped_count > 0 && (
-                <p>{importResult.skipped_count} Sitzungen ohne passenden Therapietyp</p>
+                <p>{importResult.skipped_count} Rechnungen ohne Zuordnung übersprungen</p>
               )}
             </div>
           )}
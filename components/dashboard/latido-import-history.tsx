@@ -38,7 +38,7 @@ export function LatidoImportHistory({ onImportRemoved }: LatidoImportHistoryProp
   }
 
   const handleRemoveInvoice = async (invoiceId: string) => {
-    if (!window.confirm('Diesen Import wirklich rückgängig machen? Die tatsächlichen Sitzungen werden um 1 verringert.')) {
+    if (!window.confirm('Diesen Import wirklich rückgängig machen? Die Sitzungen dieser Rechnung werden entfernt.')) {
       return
     }
 
@@ -0,0 +1,78 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Trash2, Link2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { LatidoMappingRule, TherapyType } from '@/lib/types'
+import { getLatidoMappingRules, deleteLatidoMappingRule } from '@/lib/actions/latido-mapping-rules'
+import { getTherapies } from '@/lib/actions/therapies'
+import { formatEuro } from '@/lib/utils'
+
+/**
+ * List of saved Latido mapping rules with the option to remove them
+ */
+export function LatidoMappingRules() {
+  const [rules, setRules] = useState<LatidoMappingRule[]>([])
+  const [therapies, setTherapies] = useState<TherapyType[]>([])
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    Promise.all([getLatidoMappingRules(), getTherapies()]).then(([loadedRules, loadedTherapies]) => {
+      setRules(loadedRules)
+      setTherapies(loadedTherapies)
+    })
+  }, [])
+
+  const handleDelete = async (id: string) => {
+    setRemovingId(id)
+    try {
+      const result = await deleteLatidoMappingRule(id)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      setRules(prev => prev.filter(rule => rule.id !== id))
+      toast.success('Zuordnungsregel gelöscht')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  if (rules.length === 0) {
+    return null
+  }
+
+  const therapyNames = new Map(therapies.map(t => [t.id, t.name]))
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">Gespeicherte Zuordnungen</p>
+      <div className="divide-y divide-neutral-200 dark:divide-neutral-700 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+        {rules.map(rule => (
+          <div key={rule.id} className="px-4 py-3 flex items-center justify-between gap-4 text-sm">
+            <div className="flex items-center gap-2 min-w-0 text-neutral-600 dark:text-neutral-400">
+              <Link2 className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">
+                {[rule.match_text && `„${rule.match_text}“`, rule.match_amount != null && formatEuro(Number(rule.match_amount))]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </span>
+              <span>→</span>
+              <span className="font-medium text-neutral-900 dark:text-white truncate">
+                {therapyNames.get(rule.therapy_type_id) ?? 'Unbekannt'}
+              </span>
+            </div>
+            <button
+              onClick={() => handleDelete(rule.id)}
+              disabled={removingId === rule.id}
+              className="p-2 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+              title="Zuordnungsregel löschen"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
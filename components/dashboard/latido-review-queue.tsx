@@ -0,0 +1,171 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AlertCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import type { TherapyType } from '@/lib/types'
+import type { LatidoReviewItem } from '@/lib/types/import'
+import { getTherapies } from '@/lib/actions/therapies'
+import { processLatidoSessions } from '@/lib/actions/latido-import'
+import { saveLatidoMappingRule } from '@/lib/actions/latido-mapping-rules'
+import { formatEuro } from '@/lib/utils'
+
+interface LatidoReviewQueueProps {
+  items: LatidoReviewItem[]
+  onResolved: (result: { imported_count: number; imported_months: string[] }) => void
+  onSkip: () => void
+}
+
+interface ReviewSelection {
+  therapyTypeId: string
+  remember: boolean
+}
+
+/**
+ * Review queue for Latido invoices that could not be matched automatically
+ * Assignments can be saved as mapping rules for future imports
+ */
+export function LatidoReviewQueue({ items, onResolved, onSkip }: LatidoReviewQueueProps) {
+  const [therapies, setTherapies] = useState<TherapyType[]>([])
+  const [selections, setSelections] = useState<Record<number, ReviewSelection>>(() =>
+    Object.fromEntries(
+      items.map((item, index) => [index, { therapyTypeId: item.candidates[0]?.therapy_type_id ?? '', remember: true }])
+    )
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    getTherapies().then(setTherapies)
+  }, [])
+
+  const updateSelection = (index: number, update: Partial<ReviewSelection>) => {
+    setSelections(prev => ({ ...prev, [index]: { ...prev[index], ...update } }))
+  }
+
+  const handleImport = async () => {
+    const assigned = items
+      .map((item, index) => ({ item, selection: selections[index] }))
+      .filter(({ selection }) => selection?.therapyTypeId)
+
+    if (assigned.length === 0) {
+      toast.error('Bitte mindestens eine Rechnung zuordnen')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Persist rules first so identical invoices in this batch are covered next time too
+      const savedRules = new Set<string>()
+      for (const { item, selection } of assigned) {
+        if (!selection.remember) continue
+
+        const rule = item.session.service_text
+          ? { therapy_type_id: selection.therapyTypeId, match_text: item.session.service_text, match_amount: null }
+          : { therapy_type_id: selection.therapyTypeId, match_text: null, match_amount: item.amount }
+        const ruleKey = `${rule.match_text ?? ''}|${rule.match_amount ?? ''}`
+        if (savedRules.has(ruleKey)) continue
+        savedRules.add(ruleKey)
+
+        const result = await saveLatidoMappingRule(rule)
+        if (result.error) {
+          toast.error(result.error)
+        }
+      }
+
+      const result = await processLatidoSessions(
+        assigned.map(({ item, selection }) => ({ ...item.session, therapy_type_id: selection.therapyTypeId }))
+      )
+
+      if (result.errors?.length > 0) {
+        toast.error(result.errors[0]?.message || 'Import fehlgeschlagen')
+        return
+      }
+
+      toast.success(`${result.imported_count} zugeordnete Rechnungen importiert`)
+      onResolved({ imported_count: result.imported_count, imported_months: result.imported_months || [] })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import fehlgeschlagen')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+        <AlertCircle className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="font-medium text-neutral-900 dark:text-white">
+            {items.length} {items.length === 1 ? 'Rechnung' : 'Rechnungen'} ohne eindeutige Zuordnung
+          </p>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+            Wählen Sie den passenden Therapietyp. Gemerkte Zuordnungen werden bei zukünftigen Importen automatisch angewendet.
+          </p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-neutral-200 dark:divide-neutral-700 border border-neutral-200 dark:border-neutral-700 rounded-lg max-h-96 overflow-y-auto">
+        {items.map((item, index) => (
+          <div key={`${item.session.invoice_number ?? 'row'}-${index}`} className="p-4 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="text-neutral-600 dark:text-neutral-400 space-x-3">
+                <span>{new Date(item.session.date).toLocaleDateString('de-DE')}</span>
+                {item.session.invoice_number && <span>{item.session.invoice_number}</span>}
+                {item.session.service_text && (
+                  <span className="text-neutral-900 dark:text-white">{item.session.service_text}</span>
+                )}
+              </div>
+              <span className="font-semibold text-neutral-900 dark:text-white">{formatEuro(item.amount)}</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={selections[index]?.therapyTypeId ?? ''}
+                onChange={(e) => updateSelection(index, { therapyTypeId: e.target.value })}
+                disabled={isSaving}
+                className="flex-1 min-w-0 px-3 py-2 rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm"
+              >
+                <option value="">Nicht importieren</option>
+                {item.candidates.length > 0 && (
+                  <optgroup label="Vorschläge">
+                    {item.candidates.map(candidate => (
+                      <option key={candidate.therapy_type_id} value={candidate.therapy_type_id}>
+                        {candidate.name} – {candidate.reason}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Alle Therapietypen">
+                  {therapies.map(therapy => (
+                    <option key={therapy.id} value={therapy.id}>
+                      {therapy.name} ({formatEuro(therapy.price_per_session)})
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+              <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={selections[index]?.remember ?? false}
+                  onChange={(e) => updateSelection(index, { remember: e.target.checked })}
+                  disabled={isSaving}
+                  className="rounded border-neutral-300 dark:border-neutral-600"
+                />
+                Zuordnung merken
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onSkip} disabled={isSaving}>
+          Überspringen
+        </Button>
+        <Button onClick={handleImport} disabled={isSaving} className="flex-1">
+          {isSaving ? 'Importiere...' : 'Zuordnungen importieren'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -60,6 +60,7 @@ export function MergedResultsTable({
             id: plan.id,
             therapy_type_id: plan.therapy_type_id,
             therapy_name: plan.therapy_types?.name || 'Gelöschte Therapieart',
+            payer_type: plan.therapy_types?.payer_type ?? null,
             price_per_session: pricePerSession,
             planned_sessions: planned,
             actual_sessions: actual,
@@ -129,6 +130,7 @@ export function MergedResultsTable({
           id: plan.id,
           therapy_type_id: plan.therapy_type_id,
           therapy_name: plan.therapy_types?.name || 'Gelöschte Therapieart',
+          payer_type: plan.therapy_types?.payer_type ?? null,
           price_per_session: pricePerSession,
           planned_sessions: planned,
           actual_sessions: actual,
@@ -180,6 +182,7 @@ export function MergedResultsTable({
           id: plan.id,
           therapy_type_id: plan.therapy_type_id,
           therapy_name: plan.therapy_types?.name || 'Gelöschte Therapieart',
+          payer_type: plan.therapy_types?.payer_type ?? null,
           price_per_session: pricePerSession,
           planned_sessions: planned,
           actual_sessions: actual,
@@ -248,6 +251,7 @@ export function MergedResultsTable({
           id: plan.id,
           therapy_type_id: plan.therapy_type_id,
           therapy_name: plan.therapy_types?.name || 'Gelöschte Therapieart',
+          payer_type: plan.therapy_types?.payer_type ?? null,
           price_per_session: pricePerSession,
           planned_sessions: planned,
           actual_sessions: actual,
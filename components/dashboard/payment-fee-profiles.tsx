@@ -0,0 +1,132 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { CreditCard, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import type { PaymentMethod } from '@/lib/types'
+import type { FeeProfile } from '@/lib/calculations/payment-fees'
+import { getPaymentFeeProfiles, savePaymentFeeProfilesAction } from '@/lib/actions/payment-fee-profiles'
+import { PAYMENT_METHOD_LABELS } from '@/lib/utils/session-ledger'
+
+type NumericField = 'percentage_fee' | 'fixed_fee' | 'monthly_fee' | 'planned_share'
+
+const FIELDS: Array<{ key: NumericField; label: string; unit: string; step: number }> = [
+  { key: 'percentage_fee', label: 'Gebühr', unit: '%', step: 0.01 },
+  { key: 'fixed_fee', label: 'Pro Zahlung', unit: '€', step: 0.01 },
+  { key: 'monthly_fee', label: 'Monatlich', unit: '€', step: 1 },
+  { key: 'planned_share', label: 'Geplanter Anteil', unit: '%', step: 1 }
+]
+
+/**
+ * Fee profiles per payment method
+ * Planned shares are used for forecasts; imported Latido invoices provide the actual split
+ */
+export function PaymentFeeProfiles() {
+  const [profiles, setProfiles] = useState<FeeProfile[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    getPaymentFeeProfiles().then(setProfiles)
+  }, [])
+
+  const updateProfile = (method: PaymentMethod, key: NumericField, value: number) => {
+    setProfiles(prev => prev.map(p => (p.payment_method === method ? { ...p, [key]: value } : p)))
+  }
+
+  const totalShare = profiles.reduce((sum, p) => sum + (p.planned_share || 0), 0)
+  const sharesValid = totalShare === 0 || Math.abs(totalShare - 100) < 0.01
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const result = await savePaymentFeeProfilesAction(
+        profiles.map(p => ({
+          payment_method: p.payment_method,
+          percentage_fee: p.percentage_fee || 0,
+          fixed_fee: p.fixed_fee || 0,
+          monthly_fee: p.monthly_fee || 0,
+          planned_share: p.planned_share || 0
+        }))
+      )
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Zahlungsgebühren gespeichert')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+          <CreditCard className="h-5 w-5 text-neutral-500" />
+          Zahlungsgebühren
+        </h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Gebühren je Zahlungsart (z.B. SumUp für Karten). Für Ergebnisse wird die Zahlungsart der importierten
+          Latido-Rechnungen verwendet, für die Planung der geplante Anteil.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto border border-neutral-200 dark:border-neutral-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-neutral-50 dark:bg-neutral-900">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-neutral-600 dark:text-neutral-400">Zahlungsart</th>
+              {FIELDS.map(field => (
+                <th key={field.key} className="px-3 py-2 text-left font-medium text-neutral-600 dark:text-neutral-400">
+                  {field.label} ({field.unit})
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+            {profiles.map(profile => (
+              <tr key={profile.payment_method}>
+                <td className="px-3 py-2 font-medium text-neutral-900 dark:text-white">
+                  {PAYMENT_METHOD_LABELS[profile.payment_method]}
+                </td>
+                {FIELDS.map(field => (
+                  <td key={field.key} className="px-3 py-2">
+                    <Input
+                      type="number"
+                      step={field.step}
+                      min={0}
+                      max={field.unit === '%' ? 100 : undefined}
+                      value={Number.isNaN(profile[field.key]) ? '' : profile[field.key]}
+                      onChange={(e) => updateProfile(profile.payment_method, field.key, parseFloat(e.target.value))}
+                      disabled={isSaving}
+                      className="h-9 min-w-[5rem]"
+                      inputMode="decimal"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className={`text-sm ${sharesValid ? 'text-neutral-500 dark:text-neutral-400' : 'text-red-600 dark:text-red-400'}`}>
+          Geplante Anteile: {totalShare.toLocaleString('de-DE', { maximumFractionDigits: 2 })}%
+          {!sharesValid && ' – müssen zusammen 100% ergeben'}
+        </p>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !sharesValid || profiles.length === 0}
+          className="w-full md:w-auto"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Speichern...' : 'Gebühren speichern'}
+        </Button>
+      </div>
+    </div>
+  )
+}
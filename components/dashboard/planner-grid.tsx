@@ -8,8 +8,10 @@ import { Button } from '@/components/ui/button'
 import { AlertCircle } from 'lucide-react'
 import { EmptyState } from '@/components/ui/empty-state'
 import { getMonthlyPlansWithTherapies } from '@/lib/actions/monthly-plans'
+import { getTherapyPricesForMonth } from '@/lib/actions/therapy-prices'
 import { formatEuro } from '@/lib/utils'
 import { calculatePaymentFee, calculateNetRevenue, SUMUP_FEE_RATE } from '@/lib/calculations/payment-fees'
+import { PAYER_GROUP_LABELS, splitRevenueByPayer, summarizePayerGroups } from '@/lib/utils/payer-types'
 
 interface PlannerGridProps {
   therapies: TherapyType[]
@@ -33,15 +35,20 @@ export function PlannerGrid({
   onAddTherapy
 }: PlannerGridProps) {
   const [plans, setPlans] = useState<MonthlyPlanWithTherapy[]>([])
+  const [monthPrices, setMonthPrices] = useState<Record<string, number>>({})
   const [isLoading, setIsLoading] = useState(false)
 
-  // Load all monthly plans for the selected month
+  // Load all monthly plans and the prices valid in the selected month
   useEffect(() => {
     const loadPlans = async () => {
       setIsLoading(true)
       try {
-        const data = await getMonthlyPlansWithTherapies(month)
+        const [data, prices] = await Promise.all([
+          getMonthlyPlansWithTherapies(month),
+          getTherapyPricesForMonth(month)
+        ])
         setPlans(data || [])
+        setMonthPrices(prices)
       } catch (error) {
         console.error('Error loading monthly plans:', error)
         setPlans([])
@@ -59,6 +66,12 @@ export function PlannerGrid({
     setPlans(data || [])
   }
 
+  // Therapy with the price valid in the selected month
+  const withMonthPrice = (therapy: TherapyType): TherapyType => ({
+    ...therapy,
+    price_per_session: monthPrices[therapy.id] ?? therapy.price_per_session
+  })
+
   // Calculate total planned revenue with fee breakdown
   const totals = useMemo(() => {
     const result = plans.reduce(
@@ -78,6 +91,16 @@ export function PlannerGrid({
       { sessions: 0, grossRevenue: 0 }
     )
 
+    // Planned revenue per payer group (Kasse/Privat)
+    const revenueByGroup = summarizePayerGroups(splitRevenueByPayer(
+      plans
+        .filter(plan => plan.therapy_types)
+        .map(plan => ({
+          payer_type: plan.therapy_types.payer_type,
+          revenue: plan.planned_sessions * plan.therapy_types.price_per_session
+        }))
+    ))
+
     // Calculate fees and net revenue from totals
     const paymentFees = calculatePaymentFee(result.grossRevenue)
     const netRevenue = calculateNetRevenue(result.grossRevenue)
@@ -85,6 +108,7 @@ export function PlannerGrid({
 
     return {
       ...result,
+      revenueByGroup,
       paymentFees,
       netRevenue,
       feePercentage
@@ -133,7 +157,8 @@ export function PlannerGrid({
 
           {/* Body */}
           <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
-            {therapies.map((therapy) => {
+            {therapies.map((baseTherapy) => {
+              const therapy = withMonthPrice(baseTherapy)
               const plan = plans.find((p) => p.therapy_type_id === therapy.id)
               const plannedRevenue = (plan?.planned_sessions || 0) * therapy.price_per_session
 
@@ -154,7 +179,8 @@ export function PlannerGrid({
 
       {/* Mobile Card View (hidden on desktop) */}
       <div className="md:hidden space-y-3">
-        {therapies.map((therapy) => {
+        {therapies.map((baseTherapy) => {
+          const therapy = withMonthPrice(baseTherapy)
           const plan = plans.find((p) => p.therapy_type_id === therapy.id)
           const plannedRevenue = (plan?.planned_sessions || 0) * therapy.price_per_session
 
@@ -200,6 +226,11 @@ export function PlannerGrid({
             <p className="text-xl sm:text-2xl font-bold text-neutral-900 dark:text-white">
               {totals.grossRevenue > 0 ? formatEuro(totals.grossRevenue) : '---'}
             </p>
+            {totals.grossRevenue > 0 && (
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+                {PAYER_GROUP_LABELS.kasse}: {formatEuro(totals.revenueByGroup.kasse)} · {PAYER_GROUP_LABELS.privat}: {formatEuro(totals.revenueByGroup.privat)}
+              </p>
+            )}
           </div>
           <div className="col-span-2 sm:col-span-1">
             <p className="text-xs sm:text-sm text-neutral-600 dark:text-neutral-400 mb-1">
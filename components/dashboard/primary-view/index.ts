@@ -1,6 +1,8 @@
 export { ContextToggle } from './context-toggle'
 export { DataViewToggle } from './data-view-toggle'
+export { RevenueBasisToggle } from './revenue-basis-toggle'
 export { VarianceAlerts } from './variance-alerts'
 export { KPICards } from './kpi-cards'
 export { MonthComparison } from './month-comparison'
 export { AnnualGoalProgress } from './annual-goal-progress'
+export { SvsLiabilityCard } from './svs-liability-card'
@@ -12,6 +12,7 @@ import { useAnimatedNumber } from '@/hooks/useAnimatedNumber'
 import { AnimatedSection } from '@/components/ui/animated-section'
 import { AnimatedBar } from '@/components/ui/animated-bar'
 import { Sparkline } from '@/components/ui/sparkline'
+import { PAYER_GROUP_LABELS, summarizePayerGroups } from '@/lib/utils/payer-types'
 
 interface KPICardsProps {
   metrics: UnifiedMetricsResponse
@@ -71,6 +72,7 @@ function AnimatedInteger({ value, className }: { value: number; className?: stri
 export function KPICards({ metrics, dataViewMode, historicalData }: KPICardsProps) {
   // Calculate gross income (net revenue - expenses)
   const grossIncome = metrics.totalNetRevenue - metrics.totalExpenses
+  const revenueByGroup = summarizePayerGroups(metrics.revenueByPayer)
 
   // Extract sparkline data arrays from historical snapshots
   const netRevenueHistory = historicalData?.map((s) => s.totalNetRevenue) ?? []
@@ -96,6 +98,20 @@ export function KPICards({ metrics, dataViewMode, historicalData }: KPICardsProp
             <AnimatedEuro value={metrics.totalRevenue} className="text-lg font-semibold text-neutral-900 dark:text-white" />
           </div>
 
+          {/* Revenue per payer group (Kasse/Privat) */}
+          {metrics.totalRevenue > 0 && (
+            <div className="space-y-1 pl-6 pb-2 border-b border-neutral-100 dark:border-neutral-700">
+              {(['kasse', 'privat'] as const).map((group) => (
+                <div key={group} className="flex items-center justify-between text-sm">
+                  <span className="text-neutral-600 dark:text-neutral-400">
+                    {PAYER_GROUP_LABELS[group]} ({((revenueByGroup[group] / metrics.totalRevenue) * 100).toFixed(0)}%)
+                  </span>
+                  <AnimatedEuro value={revenueByGroup[group]} className="text-neutral-700 dark:text-neutral-300" />
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Payment Fees (shown in red) */}
           <div className="flex items-center justify-between py-2 border-b border-neutral-100 dark:border-neutral-700">
             <div className="flex items-center gap-2">
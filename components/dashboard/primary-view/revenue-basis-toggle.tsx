@@ -0,0 +1,45 @@
+'use client'
+
+import type { RevenueBasis } from '@/lib/types'
+
+interface RevenueBasisToggleProps {
+  currentBasis: RevenueBasis
+  onBasisChange: (basis: RevenueBasis) => void
+}
+
+/**
+ * Switch results between invoice date (Soll) and payment date (Ist, E/A-Rechnung)
+ */
+export function RevenueBasisToggle({ currentBasis, onBasisChange }: RevenueBasisToggleProps) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <div className="flex items-center gap-1 bg-neutral-100 dark:bg-neutral-800 rounded-full p-1">
+        <button
+          onClick={() => onBasisChange('accrual')}
+          className={`flex-1 py-1.5 px-4 rounded-full text-sm font-medium transition-all duration-300 ${
+            currentBasis === 'accrual'
+              ? 'bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white shadow-sm'
+              : 'text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-200'
+          }`}
+        >
+          Rechnungsdatum
+        </button>
+        <button
+          onClick={() => onBasisChange('cash')}
+          className={`flex-1 py-1.5 px-4 rounded-full text-sm font-medium transition-all duration-300 ${
+            currentBasis === 'cash'
+              ? 'bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white shadow-sm'
+              : 'text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-200'
+          }`}
+        >
+          Zahlungseingang
+        </button>
+      </div>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+        {currentBasis === 'cash'
+          ? 'Zuflussprinzip wie in der E/A-Rechnung: Umsatz zählt im Monat der Zahlung'
+          : 'Umsatz zählt im Monat der Rechnung, auch wenn sie noch offen ist'}
+      </p>
+    </div>
+  )
+}
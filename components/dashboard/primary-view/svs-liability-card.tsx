@@ -0,0 +1,61 @@
+'use client'
+
+import Link from 'next/link'
+import { ShieldAlert } from 'lucide-react'
+import { AnimatedSection } from '@/components/ui/animated-section'
+import type { SvsNachbemessung } from '@/lib/actions/svs-assessments'
+import { formatDate, formatEuro } from '@/lib/utils'
+
+interface SvsLiabilityCardProps {
+  nachbemessung: SvsNachbemessung
+}
+
+/**
+ * Upcoming SVS back payment (Nachbemessung) as a liability on the dashboard
+ */
+export function SvsLiabilityCard({ nachbemessung }: SvsLiabilityCardProps) {
+  const { openBackPayment, nextDue, recommendation, projections } = nachbemessung
+  if (openBackPayment <= 0) return null
+
+  const openYears = projections
+    .filter((p) => !p.settled && p.backPayment > 0)
+    .map((p) => p.year)
+
+  return (
+    <AnimatedSection animation="fade-up" delay={100}>
+      <div className="bg-white/60 backdrop-blur-lg border border-white/20 dark:bg-neutral-800/50 dark:backdrop-blur-lg dark:border-white/5 rounded-lg p-6 border-l-4 border-l-amber-500">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-amber-500" />
+              <h3 className="text-sm font-semibold text-neutral-600 dark:text-neutral-400 uppercase tracking-wide">
+                Anstehende SVS-Nachzahlung
+              </h3>
+            </div>
+            <p className="text-3xl font-bold text-neutral-900 dark:text-white tabular-nums">
+              {formatEuro(openBackPayment)}
+            </p>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              Nachbemessung für {openYears.join(', ')}
+              {nextDue && <> · voraussichtlich ab {formatDate(nextDue)}</>}
+            </p>
+          </div>
+          <Link
+            href="/dashboard/einstellungen"
+            className="text-sm font-medium text-accent-600 dark:text-accent-400 hover:underline whitespace-nowrap"
+          >
+            SVS-Daten verwalten
+          </Link>
+        </div>
+        {recommendation && (
+          <p className="mt-4 text-sm text-amber-800 dark:text-amber-200">
+            Tipp: Vorläufige Beitragsgrundlage {recommendation.year} freiwillig auf{' '}
+            {formatEuro(recommendation.recommendedMonthlyBase)}/Monat erhöhen (ca.{' '}
+            {formatEuro(recommendation.additionalMonthlyContribution)} mehr pro Monat), damit keine
+            weitere Nachzahlung entsteht.
+          </p>
+        )}
+      </div>
+    </AnimatedSection>
+  )
+}
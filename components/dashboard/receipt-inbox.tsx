@@ -0,0 +1,330 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AlertCircle, Check, Copy, Eye, FileText, Inbox, Loader, RefreshCw, Trash2, Upload } from 'lucide-react'
+import type { Expense, InboxDocument } from '@/lib/types'
+import { getReceiptInbox, regenerateInboxToken, uploadInboxDocument } from '@/lib/actions/receipt-inbox'
+import { deleteExpenseDocument, getDocumentDownloadUrl, parseBillImage } from '@/lib/actions/documents'
+import { DOCUMENT_SOURCE_LABELS } from '@/lib/utils/receipt-inbox'
+import { AUSTRIAN_EXPENSE_CATEGORIES } from '@/lib/constants'
+import { formatDate, formatEuro } from '@/lib/utils'
+import { toast } from 'sonner'
+import { ExpenseFormEnhanced } from './expense-form-enhanced'
+import { OCR_STATUS_LABELS } from './document-viewer'
+
+interface ReceiptInboxProps {
+  /** Called after a document was confirmed as expense */
+  onExpensesCreated?: () => void
+}
+
+// Reload interval while documents wait for their text extraction
+const OCR_POLL_INTERVAL_MS = 3000
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+
+/**
+ * Receipt inbox: documents from the ingest e-mail address, the watched
+ * folder and the drop zone wait here until they are confirmed as expense,
+ * pre-filled from the recognised invoice
+ */
+export function ReceiptInbox({ onExpensesCreated }: ReceiptInboxProps) {
+  const [documents, setDocuments] = useState<InboxDocument[]>([])
+  const [address, setAddress] = useState<string | null>(null)
+  const [token, setToken] = useState<string | null>(null)
+  const [isDragActive, setIsDragActive] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const [preparingId, setPreparingId] = useState<string | null>(null)
+  const [confirming, setConfirming] = useState<{ document: InboxDocument; expense: Expense } | null>(null)
+
+  const loadInbox = useCallback(async () => {
+    const inbox = await getReceiptInbox()
+    setDocuments(inbox.documents)
+    setAddress(inbox.address)
+    setToken(inbox.token)
+  }, [])
+
+  useEffect(() => {
+    loadInbox()
+  }, [loadInbox])
+
+  // The server extracts the text after the upload; reload until it is done
+  const isOcrRunning = documents.some(
+    (doc) => doc.ocr_status === 'pending' || doc.ocr_status === 'processing'
+  )
+  useEffect(() => {
+    if (!isOcrRunning) return
+    const interval = setInterval(loadInbox, OCR_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isOcrRunning, loadInbox])
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return
+
+    setIsUploading(true)
+    let received = 0
+    try {
+      for (const file of files) {
+        if (!ACCEPTED_TYPES.includes(file.type)) {
+          toast.error(`${file.name}: Dateityp nicht unterstützt. Erlaubt: JPG, PNG, WebP, PDF`)
+          continue
+        }
+        if (file.size > 10 * 1024 * 1024) {
+          toast.error(`${file.name}: Datei ist zu groß (Maximum: 10MB)`)
+          continue
+        }
+
+        const arrayBuffer = await file.arrayBuffer()
+        const result = await uploadInboxDocument({
+          name: file.name,
+          content: Buffer.from(arrayBuffer).toString('base64'),
+          type: file.type
+        })
+        if (result.error) toast.error(result.error)
+        else received++
+      }
+
+      if (received > 0) {
+        toast.success(`${received} Beleg(e) im Eingang – die Texterkennung läuft`)
+        await loadInbox()
+      }
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (e.type === 'dragenter' || e.type === 'dragover') {
+      setIsDragActive(true)
+    } else if (e.type === 'dragleave') {
+      setIsDragActive(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragActive(false)
+    handleFiles(Array.from(e.dataTransfer.files || []))
+  }
+
+  // Pre-fill the expense from the recognised invoice
+  const handleConfirm = async (doc: InboxDocument) => {
+    setPreparingId(doc.id)
+    try {
+      const result = doc.extracted_text ? await parseBillImage(doc.extracted_text) : null
+      const suggestion = result && 'data' in result ? result.data : null
+      const today = new Date().toISOString().split('T')[0]
+
+      setConfirming({
+        document: doc,
+        expense: {
+          id: '',
+          user_id: '',
+          amount: suggestion?.amount ?? 0,
+          category: suggestion?.category_hint || AUSTRIAN_EXPENSE_CATEGORIES[0].category,
+          subcategory: suggestion?.subcategory_hint ?? null,
+          description: suggestion ? `${suggestion.vendor_name}: ${suggestion.description}` : doc.file_name,
+          expense_date: suggestion?.invoice_date ?? today,
+          is_recurring: !!suggestion?.recurrence_hint,
+          recurrence_interval: suggestion?.recurrence_hint ?? null,
+          spread_monthly: false,
+          vat_rate: suggestion?.vat_rate ?? 0,
+          vat_allocation: 'mixed',
+          vat_breakdown: suggestion && suggestion.vat_breakdown.length > 1 ? suggestion.vat_breakdown : null,
+          invoice_number: suggestion?.invoice_number ?? null,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        }
+      })
+    } finally {
+      setPreparingId(null)
+    }
+  }
+
+  const handlePreview = async (doc: InboxDocument) => {
+    const result = await getDocumentDownloadUrl(doc.id)
+    if (result.error || !result.url) {
+      toast.error(result.error || 'Download-Link konnte nicht generiert werden')
+      return
+    }
+    window.open(result.url, '_blank')
+  }
+
+  const handleDiscard = async (doc: InboxDocument) => {
+    if (!window.confirm(`„${doc.file_name}“ aus dem Belegeingang löschen?`)) {
+      return
+    }
+
+    const result = await deleteExpenseDocument(doc.id)
+    if (result.error) {
+      toast.error(result.error)
+      return
+    }
+    toast.success('Beleg gelöscht')
+    await loadInbox()
+  }
+
+  const handleCopy = async (text: string) => {
+    await navigator.clipboard.writeText(text)
+    toast.success('In die Zwischenablage kopiert')
+  }
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Neue Eingangsadresse erzeugen? Die bisherige Adresse und der Ordner-Token funktionieren danach nicht mehr.')) {
+      return
+    }
+
+    const result = await regenerateInboxToken()
+    if (result.error) {
+      toast.error(result.error)
+      return
+    }
+    await loadInbox()
+  }
+
+  return (
+    <section className="rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-neutral-900 dark:text-white">
+            <Inbox className="h-5 w-5" />
+            Belegeingang
+            {documents.length > 0 && <Badge variant="secondary">{documents.length}</Badge>}
+          </h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Belege per E-Mail, aus dem überwachten Ordner oder per Drag & Drop – bestätigen Sie sie als Ausgabe.
+          </p>
+        </div>
+
+        {token && (
+          <div className="text-xs text-neutral-600 dark:text-neutral-400 space-y-1">
+            {address && (
+              <div className="flex items-center gap-2">
+                <span>E-Mail:</span>
+                <code className="rounded bg-neutral-100 dark:bg-neutral-900 px-1.5 py-0.5">{address}</code>
+                <button type="button" onClick={() => handleCopy(address)} aria-label="E-Mail-Adresse kopieren">
+                  <Copy className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <span>Ordner-Token:</span>
+              <code className="rounded bg-neutral-100 dark:bg-neutral-900 px-1.5 py-0.5">{token}</code>
+              <button type="button" onClick={() => handleCopy(token)} aria-label="Ordner-Token kopieren">
+                <Copy className="h-3.5 w-3.5" />
+              </button>
+              <button type="button" onClick={handleRegenerate} aria-label="Neue Eingangsadresse erzeugen">
+                <RefreshCw className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Drop Zone */}
+      <div
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+        className={`relative rounded-lg border-2 border-dashed p-6 text-center transition ${
+          isDragActive
+            ? 'border-accent-500 bg-accent-50 dark:bg-accent-950'
+            : 'border-neutral-300 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-900'
+        } ${isUploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+      >
+        <input
+          type="file"
+          multiple
+          accept="image/jpeg,image/png,image/webp,application/pdf"
+          onChange={(e) => {
+            handleFiles(Array.from(e.target.files || []))
+            e.target.value = ''
+          }}
+          disabled={isUploading}
+          className="absolute inset-0 cursor-pointer opacity-0"
+        />
+        {isUploading ? (
+          <Loader className="mx-auto h-6 w-6 animate-spin text-neutral-400" />
+        ) : (
+          <Upload className="mx-auto h-6 w-6 text-neutral-400 dark:text-neutral-500" />
+        )}
+        <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-400">
+          {isUploading ? 'Belege werden hochgeladen...' : 'Belege hierher ziehen oder klicken (JPG, PNG, WebP, PDF)'}
+        </p>
+      </div>
+
+      {/* Unassigned Documents */}
+      {documents.length > 0 && (
+        <ul className="divide-y divide-neutral-200 dark:divide-neutral-700">
+          {documents.map((doc) => (
+            <li key={doc.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="flex items-start gap-3 min-w-0">
+                <FileText className="h-5 w-5 mt-0.5 shrink-0 text-neutral-500" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">{doc.file_name}</p>
+                  <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                    {DOCUMENT_SOURCE_LABELS[doc.source ?? 'upload']}
+                    {doc.source_detail && ` · ${doc.source_detail}`}
+                    {` · ${formatDate(doc.upload_date)} · ${OCR_STATUS_LABELS[doc.ocr_status]}`}
+                  </p>
+                  {doc.duplicate_of && (
+                    <p className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400">
+                      <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                      Bereits erfasst: Ausgabe vom {formatDate(doc.duplicate_of.expense_date)} über {formatEuro(doc.duplicate_of.amount)}
+                      {doc.duplicate_of.description && ` (${doc.duplicate_of.description})`}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button type="button" variant="ghost" size="sm" onClick={() => handlePreview(doc)} aria-label="Vorschau">
+                  <Eye className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => handleDiscard(doc)} aria-label="Verwerfen">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  disabled={doc.ocr_status === 'pending' || doc.ocr_status === 'processing' || preparingId === doc.id}
+                  onClick={() => handleConfirm(doc)}
+                >
+                  {preparingId === doc.id ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                  Als Ausgabe erfassen
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Beleg als Ausgabe erfassen</DialogTitle>
+            <DialogDescription>
+              {confirming?.document.file_name} – die Angaben wurden aus dem Beleg erkannt, bitte prüfen.
+            </DialogDescription>
+          </DialogHeader>
+          {confirming && (
+            <ExpenseFormEnhanced
+              expense={confirming.expense}
+              inboxDocumentId={confirming.document.id}
+              onSuccess={async () => {
+                setConfirming(null)
+                await loadInbox()
+                onExpensesCreated?.()
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </section>
+  )
+}
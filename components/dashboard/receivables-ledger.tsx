@@ -0,0 +1,241 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ChevronDown, ChevronUp, Clock, Check } from 'lucide-react'
+import type { DunningLevel } from '@/lib/types'
+import {
+  getReceivables,
+  recordPaymentAction,
+  updateDunningLevelAction,
+  type ReceivableWithTherapy
+} from '@/lib/actions/receivables'
+import {
+  AGEING_BUCKETS,
+  AGEING_BUCKET_LABELS,
+  DUNNING_LEVEL_LABELS,
+  PAYMENT_STATUS_LABELS,
+  summarizeReceivables,
+  type ReceivablesSummary
+} from '@/lib/utils/receivables'
+import { formatEuro } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+
+interface ReceivablesLedgerProps {
+  refreshKey?: number
+  onDataChange?: () => void
+}
+
+const DUNNING_LEVELS: DunningLevel[] = [0, 1, 2, 3]
+
+/**
+ * Open items: unpaid and partially paid invoices with ageing and dunning status
+ */
+export function ReceivablesLedger({ refreshKey, onDataChange }: ReceivablesLedgerProps) {
+  const [receivables, setReceivables] = useState<ReceivableWithTherapy[]>([])
+  const [summary, setSummary] = useState<ReceivablesSummary>(summarizeReceivables([]))
+  const [isLoading, setIsLoading] = useState(false)
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [payment, setPayment] = useState<{ key: string; amount: number; date: string } | null>(null)
+
+  const loadReceivables = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getReceivables()
+      setReceivables(result.receivables)
+      setSummary(result.summary)
+    } catch (error) {
+      console.error('Error loading receivables:', error)
+      setReceivables([])
+      setSummary(summarizeReceivables([]))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReceivables()
+  }, [refreshKey])
+
+  const handleDunningChange = async (receivable: ReceivableWithTherapy, level: DunningLevel) => {
+    if (level === receivable.dunning_level) return
+
+    setBusyKey(receivable.key)
+    try {
+      const result = await updateDunningLevelAction(receivable.session_ids, level)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Mahnstatus aktualisiert')
+      await loadReceivables()
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleRecordPayment = async (receivable: ReceivableWithTherapy) => {
+    if (!payment || payment.key !== receivable.key) return
+
+    setBusyKey(receivable.key)
+    try {
+      const result = await recordPaymentAction(receivable.session_ids, {
+        paid_amount: payment.amount,
+        paid_date: payment.date
+      })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Zahlung erfasst')
+      setPayment(null)
+      await loadReceivables()
+      onDataChange?.()
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  if (!isLoading && receivables.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-neutral-50 dark:hover:bg-neutral-700/50 transition-colors"
+      >
+        <div className="flex items-center gap-3 text-left">
+          <Clock className="h-5 w-5 text-neutral-400" />
+          <div>
+            <p className="font-semibold text-neutral-900 dark:text-white">
+              Offene Posten
+            </p>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+              {isLoading ? 'Lädt...' : `${summary.count} offene Rechnungen • ${formatEuro(summary.total)}`}
+            </p>
+          </div>
+        </div>
+        {isExpanded ? (
+          <ChevronUp className="h-5 w-5 text-neutral-400" />
+        ) : (
+          <ChevronDown className="h-5 w-5 text-neutral-400" />
+        )}
+      </button>
+
+      <div className="grid grid-cols-3 gap-px bg-neutral-200 dark:bg-neutral-700 border-t border-neutral-200 dark:border-neutral-700">
+        {AGEING_BUCKETS.map(bucket => (
+          <div key={bucket} className="bg-white dark:bg-neutral-800 px-6 py-3">
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">{AGEING_BUCKET_LABELS[bucket]}</p>
+            <p className={`text-sm font-semibold tabular-nums ${
+              bucket === '60+' && summary.buckets[bucket].count > 0
+                ? 'text-red-600 dark:text-red-400'
+                : 'text-neutral-900 dark:text-white'
+            }`}>
+              {formatEuro(summary.buckets[bucket].amount)}
+            </p>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">{summary.buckets[bucket].count} Rechnungen</p>
+          </div>
+        ))}
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-900/30 divide-y divide-neutral-200 dark:divide-neutral-700">
+          {receivables.map(receivable => (
+            <div key={receivable.key} className="px-6 py-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">
+                    {receivable.invoice_number ?? 'Ohne Rechnungsnummer'} · {receivable.therapy_name}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-4 mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    <span>{new Date(receivable.invoice_date).toLocaleDateString('de-DE')}</span>
+                    <span>{receivable.days_outstanding} Tage offen</span>
+                    <span>{PAYMENT_STATUS_LABELS[receivable.payment_status]}</span>
+                    {receivable.paid_amount > 0 && <span>bezahlt {formatEuro(receivable.paid_amount)}</span>}
+                  </div>
+                </div>
+                <span className="text-sm font-semibold text-neutral-900 dark:text-white tabular-nums">
+                  {formatEuro(receivable.open_amount)}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={receivable.dunning_level}
+                  onChange={(e) => handleDunningChange(receivable, Number(e.target.value) as DunningLevel)}
+                  disabled={busyKey === receivable.key}
+                  title="Mahnstatus"
+                  className="px-3 py-2 rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm"
+                >
+                  {DUNNING_LEVELS.map(level => (
+                    <option key={level} value={level}>
+                      {DUNNING_LEVEL_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+                {receivable.suggested_dunning_level > receivable.dunning_level && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 font-medium">
+                    {DUNNING_LEVEL_LABELS[receivable.suggested_dunning_level]} fällig
+                  </span>
+                )}
+                {receivable.last_dunning_date && (
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                    zuletzt {new Date(receivable.last_dunning_date).toLocaleDateString('de-DE')}
+                  </span>
+                )}
+
+                {payment?.key === receivable.key ? (
+                  <div className="flex items-center gap-2 ml-auto">
+                    <Input
+                      type="number"
+                      step={0.01}
+                      min={0}
+                      aria-label="Zahlungsbetrag"
+                      value={Number.isNaN(payment.amount) ? '' : payment.amount}
+                      onChange={(e) => setPayment({ ...payment, amount: parseFloat(e.target.value) })}
+                      disabled={busyKey === receivable.key}
+                      className="h-9 w-28"
+                      inputMode="decimal"
+                    />
+                    <Input
+                      type="date"
+                      aria-label="Zahlungsdatum"
+                      value={payment.date}
+                      onChange={(e) => setPayment({ ...payment, date: e.target.value })}
+                      disabled={busyKey === receivable.key}
+                      className="h-9 w-40"
+                    />
+                    <Button size="sm" onClick={() => handleRecordPayment(receivable)} disabled={busyKey === receivable.key}>
+                      Speichern
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setPayment(null)} disabled={busyKey === receivable.key}>
+                      Abbrechen
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2 ml-auto"
+                    onClick={() => setPayment({
+                      key: receivable.key,
+                      amount: receivable.open_amount,
+                      date: new Date().toISOString().split('T')[0]
+                    })}
+                  >
+                    <Check className="h-4 w-4" />
+                    Zahlung erfassen
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
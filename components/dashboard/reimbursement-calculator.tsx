@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Calculator } from 'lucide-react'
+import { toast } from 'sonner'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import type { Insurer, TherapyType } from '@/lib/types'
+import { getKassentarife, saveKassentarifeAction } from '@/lib/actions/kassentarife'
+import { calculateReimbursement, DEFAULT_REIMBURSEMENT_RATE } from '@/lib/calculations/core/reimbursement-calculator'
+import { INSURERS, PAYER_TYPE_LABELS } from '@/lib/utils/payer-types'
+import { formatEuro } from '@/lib/utils'
+
+interface ReimbursementCalculatorProps {
+  therapy: TherapyType
+  /** Price currently entered in the therapy form */
+  price: number
+}
+
+type TariffState = Record<Insurer, { tariff: number; reimbursement_rate: number }>
+
+function emptyTariffs(): TariffState {
+  return Object.fromEntries(
+    INSURERS.map(insurer => [insurer, { tariff: 0, reimbursement_rate: DEFAULT_REIMBURSEMENT_RATE }])
+  ) as TariffState
+}
+
+/**
+ * Kassentarife of a therapy type with the refund and out-of-pocket cost
+ * of a Wahlarzt patient per insurer
+ */
+export function ReimbursementCalculator({ therapy, price }: ReimbursementCalculatorProps) {
+  const [tariffs, setTariffs] = useState<TariffState>(emptyTariffs())
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    getKassentarife(therapy.id).then(rows => {
+      const state = emptyTariffs()
+      for (const row of rows) {
+        state[row.insurer] = { tariff: row.tariff, reimbursement_rate: row.reimbursement_rate }
+      }
+      setTariffs(state)
+    })
+  }, [therapy.id])
+
+  const updateTariff = (insurer: Insurer, key: 'tariff' | 'reimbursement_rate', value: number) => {
+    setTariffs(prev => ({ ...prev, [insurer]: { ...prev[insurer], [key]: value } }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const result = await saveKassentarifeAction(
+        therapy.id,
+        INSURERS.map(insurer => ({
+          insurer,
+          tariff: tariffs[insurer].tariff || 0,
+          reimbursement_rate: Number.isNaN(tariffs[insurer].reimbursement_rate)
+            ? DEFAULT_REIMBURSEMENT_RATE
+            : tariffs[insurer].reimbursement_rate
+        }))
+      )
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Kassentarife gespeichert')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const sessionPrice = Number.isFinite(price) ? price : therapy.price_per_session
+
+  return (
+    <div className="space-y-4 border-t border-neutral-200 dark:border-neutral-700 pt-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <Calculator className="h-4 w-4 text-neutral-500" />
+          <p className="text-sm font-semibold text-neutral-900 dark:text-white">Kostenerstattung</p>
+        </div>
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+          Erstattung der Kasse an Wahlarzt-Patienten und Selbstbehalt bei {formatEuro(sessionPrice)} pro Sitzung
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {INSURERS.map(insurer => {
+          const { tariff, reimbursement_rate } = tariffs[insurer]
+          const result = tariff > 0
+            ? calculateReimbursement(sessionPrice, tariff, Number.isNaN(reimbursement_rate) ? DEFAULT_REIMBURSEMENT_RATE : reimbursement_rate)
+            : null
+
+          return (
+            <div key={insurer} className="rounded-lg border border-neutral-200 dark:border-neutral-700 p-3 space-y-2">
+              <div className="grid grid-cols-[4rem_1fr_1fr] items-center gap-2">
+                <span className="text-sm font-medium text-neutral-900 dark:text-white">
+                  {PAYER_TYPE_LABELS[insurer]}
+                </span>
+                <Input
+                  type="number"
+                  step={0.01}
+                  min={0}
+                  placeholder="Tarif (€)"
+                  aria-label={`Kassentarif ${PAYER_TYPE_LABELS[insurer]}`}
+                  value={Number.isNaN(tariff) || tariff === 0 ? '' : tariff}
+                  onChange={(e) => updateTariff(insurer, 'tariff', parseFloat(e.target.value))}
+                  disabled={isSaving}
+                  className="h-9"
+                  inputMode="decimal"
+                />
+                <Input
+                  type="number"
+                  step={1}
+                  min={0}
+                  max={100}
+                  aria-label={`Erstattung in % ${PAYER_TYPE_LABELS[insurer]}`}
+                  value={Number.isNaN(reimbursement_rate) ? '' : reimbursement_rate}
+                  onChange={(e) => updateTariff(insurer, 'reimbursement_rate', parseFloat(e.target.value))}
+                  disabled={isSaving}
+                  className="h-9"
+                  inputMode="decimal"
+                />
+              </div>
+              {result && (
+                <p className="text-xs text-neutral-600 dark:text-neutral-400">
+                  Erstattung {formatEuro(result.reimbursement)} · Selbstbehalt{' '}
+                  <span className="font-semibold text-neutral-900 dark:text-white">{formatEuro(result.outOfPocket)}</span>{' '}
+                  ({result.outOfPocketPercent.toFixed(0)}%)
+                </p>
+              )}
+            </div>
+          )
+        })}
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          Tarif in € und Erstattungssatz in % (üblich {DEFAULT_REIMBURSEMENT_RATE}%). Leere Tarife werden entfernt.
+        </p>
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full"
+      >
+        {isSaving ? 'Speichern...' : 'Kassentarife speichern'}
+      </Button>
+    </div>
+  )
+}
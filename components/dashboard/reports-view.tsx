@@ -3,31 +3,36 @@
 import { useState, useEffect } from 'react'
 import type { MonthlyMetrics, TherapyMetrics, DashboardSummary } from '@/lib/actions/dashboard'
 import type { AdvancedAnalytics } from '@/lib/actions/analytics'
+import type { TariffComparisonRow } from '@/lib/actions/kassentarife'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { OverviewTab } from './business-reports/overview-tab'
 import { TherapyTab } from './business-reports/therapy-tab'
 import { FinancialTab } from './business-reports/financial-tab'
 import { ForecastTab } from './business-reports/forecast-tab'
+import { CashFlowTab } from './business-reports/cash-flow-tab'
 import { TaxesTab } from './business-reports/taxes-tab'
+import { VatTab } from './business-reports/vat-tab'
 
 interface ReportsViewProps {
   monthlyData: MonthlyMetrics[]
   therapyMetrics: TherapyMetrics[]
   summary: DashboardSummary
   analytics: AdvancedAnalytics | null
+  tariffComparison?: TariffComparisonRow[]
 }
 
 export function ReportsView({
   monthlyData,
   therapyMetrics,
   summary,
-  analytics
+  analytics,
+  tariffComparison
 }: ReportsViewProps) {
   const [activeTab, setActiveTab] = useState('overview')
 
   useEffect(() => {
     const hash = window.location.hash.replace('#', '')
-    if (hash && ['overview', 'therapy', 'financial', 'forecast', 'taxes'].includes(hash)) {
+    if (hash && ['overview', 'therapy', 'financial', 'forecast', 'liquidity', 'taxes', 'vat'].includes(hash)) {
       setActiveTab(hash)
     }
   }, [])
@@ -52,12 +57,14 @@ export function ReportsView({
       {monthlyData.length > 0 && (
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
           <div className="overflow-x-auto -mx-4 px-4 sm:mx-0 sm:px-0">
-            <TabsList className="inline-flex sm:grid w-auto sm:w-full sm:grid-cols-5 min-w-full">
+            <TabsList className="inline-flex sm:grid w-auto sm:w-full sm:grid-cols-7 min-w-full">
               <TabsTrigger value="overview" className="min-h-[44px] flex-shrink-0">Übersicht</TabsTrigger>
               <TabsTrigger value="therapy" className="min-h-[44px] flex-shrink-0">Therapien</TabsTrigger>
               <TabsTrigger value="financial" className="min-h-[44px] flex-shrink-0">Finanzen</TabsTrigger>
               <TabsTrigger value="forecast" className="min-h-[44px] flex-shrink-0">Prognose</TabsTrigger>
+              <TabsTrigger value="liquidity" className="min-h-[44px] flex-shrink-0">Liquidität</TabsTrigger>
               <TabsTrigger value="taxes" className="min-h-[44px] flex-shrink-0">Steuern</TabsTrigger>
+              <TabsTrigger value="vat" className="min-h-[44px] flex-shrink-0">USt</TabsTrigger>
             </TabsList>
           </div>
 
@@ -70,7 +77,7 @@ export function ReportsView({
           </TabsContent>
 
           <TabsContent value="therapy" className="mt-6">
-            <TherapyTab analytics={analytics} therapies={therapyMetrics} />
+            <TherapyTab analytics={analytics} therapies={therapyMetrics} tariffComparison={tariffComparison} />
           </TabsContent>
 
           <TabsContent value="financial" className="mt-6">
@@ -81,9 +88,17 @@ export function ReportsView({
             <ForecastTab monthlyData={monthlyData} />
           </TabsContent>
 
+          <TabsContent value="liquidity" className="mt-6">
+            <CashFlowTab />
+          </TabsContent>
+
           <TabsContent value="taxes" className="mt-6">
             <TaxesTab summary={summary} />
           </TabsContent>
+
+          <TabsContent value="vat" className="mt-6">
+            <VatTab />
+          </TabsContent>
         </Tabs>
       )}
     </div>
@@ -2,6 +2,7 @@
 
 import { CheckCircle2, TrendingUp, TrendingDown, Users, Banknote } from 'lucide-react'
 import { formatEuro } from '@/lib/utils'
+import { PAYER_GROUP_LABELS, type PayerGroup } from '@/lib/utils/payer-types'
 
 interface ResultsMetricsCardsProps {
   totalPlanned: number
@@ -14,6 +15,8 @@ interface ResultsMetricsCardsProps {
   therapiesWithData: number
   totalTherapies: number
   profitability: number | null
+  /** Actual revenue per payer group (Kasse/Privat) */
+  revenueByGroup?: Record<PayerGroup, number>
 }
 
 export function ResultsMetricsCards({
@@ -26,7 +29,8 @@ export function ResultsMetricsCards({
   totalActualRevenue,
   therapiesWithData,
   totalTherapies,
-  profitability
+  profitability,
+  revenueByGroup
 }: ResultsMetricsCardsProps) {
   const revenueVariance = totalActualRevenue - totalPlannedRevenue
   const dataProgressPercent = totalTherapies > 0 ? (therapiesWithData / totalTherapies) * 100 : 0
@@ -82,6 +86,11 @@ export function ResultsMetricsCards({
         <p className="text-sm text-neutral-700 dark:text-neutral-300">
           Geplant: {formatEuro(totalPlannedRevenue)}
         </p>
+        {revenueByGroup && (revenueByGroup.kasse > 0 || revenueByGroup.privat > 0) && (
+          <p className="text-xs text-neutral-600 dark:text-neutral-400 mt-1">
+            {PAYER_GROUP_LABELS.kasse}: {formatEuro(revenueByGroup.kasse)} · {PAYER_GROUP_LABELS.privat}: {formatEuro(revenueByGroup.privat)}
+          </p>
+        )}
       </div>
 
       {/* Gewinn (Profit) Card */}
@@ -2,17 +2,20 @@
 
 import { useState, useMemo, useEffect } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
-import type { TherapyType } from '@/lib/types'
+import type { PayerRevenue, TherapyType } from '@/lib/types'
 import { MonthSelector } from './month-selector'
 import { MergedResultsTable } from './merged-results-table'
 import { ResultsMetricsCards } from './results-metrics-cards'
 import { ResultsImportDialog } from './results-import-dialog'
+import { SessionLedger } from './session-ledger'
+import { ReceivablesLedger } from './receivables-ledger'
 import { Button } from '@/components/ui/button'
 import { Upload, TrendingUp } from 'lucide-react'
 import Link from 'next/link'
 import { getMonthsWithData, getMonthlyResultsWithTherapies } from '@/lib/actions/monthly-results'
 import { getMonthlyPlansWithTherapies } from '@/lib/actions/monthly-plans'
 import { getMonthlyMetrics } from '@/lib/actions/dashboard'
+import { emptyPayerRevenue, mergePayerRevenue, summarizePayerGroups } from '@/lib/utils/payer-types'
 
 interface ResultsViewProps {
   therapies: TherapyType[]
@@ -37,6 +40,7 @@ export function ResultsView({ therapies }: ResultsViewProps) {
   const [refreshTrigger, setRefreshTrigger] = useState(0)
   const [availableMonths, setAvailableMonths] = useState<string[]>([])
   const [enteredCount, setEnteredCount] = useState(0)
+  const [revenueByPayer, setRevenueByPayer] = useState<PayerRevenue>(emptyPayerRevenue())
 
   // Fetch months that have data
   useEffect(() => {
@@ -48,6 +52,9 @@ export function ResultsView({ therapies }: ResultsViewProps) {
     const countEntered = async () => {
       const results = await getMonthlyResultsWithTherapies(selectedMonth)
       setEnteredCount(results?.length || 0)
+      setRevenueByPayer(mergePayerRevenue(
+        ...(results || []).map(r => r.actual_revenue_by_payer ?? emptyPayerRevenue())
+      ))
     }
     countEntered()
   }, [selectedMonth, refreshTrigger])
@@ -235,6 +242,7 @@ export function ResultsView({ therapies }: ResultsViewProps) {
             therapiesWithData={metrics.therapiesWithData}
             totalTherapies={therapies.length}
             profitability={metrics.profitability}
+            revenueByGroup={summarizePayerGroups(revenueByPayer)}
           />
 
           {/* Merged Comparison Table */}
@@ -244,6 +252,20 @@ export function ResultsView({ therapies }: ResultsViewProps) {
             onDataChange={() => setRefreshTrigger(prev => prev + 1)}
             key={`merged-${refreshTrigger}`}
           />
+
+          {/* Per-invoice drill-down from the session ledger */}
+          <SessionLedger
+            therapies={therapies}
+            month={selectedMonth}
+            refreshKey={refreshTrigger}
+            onDataChange={() => setRefreshTrigger(prev => prev + 1)}
+          />
+
+          {/* Open items across all months */}
+          <ReceivablesLedger
+            refreshKey={refreshTrigger}
+            onDataChange={() => setRefreshTrigger(prev => prev + 1)}
+          />
         </div>
       )}
 
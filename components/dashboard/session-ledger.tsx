@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ChevronDown, ChevronUp, Trash2, RefreshCw, Receipt } from 'lucide-react'
+import type { PayerType, TherapySession, TherapyType } from '@/lib/types'
+import {
+  getSessionsForMonth,
+  updateSessionAction,
+  deleteSessionAction,
+  reaggregateMonthAction
+} from '@/lib/actions/sessions'
+import { PAYMENT_METHOD_LABELS } from '@/lib/utils/session-ledger'
+import { PAYER_TYPES, getPayerGroup } from '@/lib/utils/payer-types'
+import { PAYMENT_STATUS_LABELS } from '@/lib/utils/receivables'
+import { formatEuro } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+
+interface SessionLedgerProps {
+  therapies: TherapyType[]
+  month: string
+  refreshKey?: number
+  onDataChange?: () => void
+}
+
+/**
+ * Per-invoice drill-down for a month
+ * Lets users reclassify or remove a single imported session
+ */
+export function SessionLedger({ therapies, month, refreshKey, onDataChange }: SessionLedgerProps) {
+  const [sessions, setSessions] = useState<TherapySession[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadSessions = async () => {
+    setIsLoading(true)
+    try {
+      setSessions(await getSessionsForMonth(month))
+    } catch (error) {
+      console.error('Error loading session ledger:', error)
+      setSessions([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSessions()
+  }, [month, refreshKey])
+
+  const handleTherapyChange = async (session: TherapySession, therapyTypeId: string) => {
+    if (therapyTypeId === session.therapy_type_id) return
+
+    setBusyId(session.id)
+    try {
+      const result = await updateSessionAction(session.id, { therapy_type_id: therapyTypeId })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Sitzung neu zugeordnet')
+      await loadSessions()
+      onDataChange?.()
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePayerChange = async (session: TherapySession, payerType: PayerType) => {
+    if (payerType === session.payer_type) return
+
+    setBusyId(session.id)
+    try {
+      const result = await updateSessionAction(session.id, {
+        payer_type: payerType,
+        patient_type: getPayerGroup(payerType)
+      })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Kostenträger geändert')
+      await loadSessions()
+      onDataChange?.()
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (session: TherapySession) => {
+    if (!window.confirm('Diese Sitzung wirklich löschen? Die tatsächlichen Sitzungen werden neu berechnet.')) {
+      return
+    }
+
+    setBusyId(session.id)
+    try {
+      const result = await deleteSessionAction(session.id)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Sitzung gelöscht')
+      await loadSessions()
+      onDataChange?.()
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleReaggregate = async () => {
+    setIsLoading(true)
+    try {
+      const result = await reaggregateMonthAction(month)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success('Monat neu berechnet')
+      onDataChange?.()
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!isLoading && sessions.length === 0) {
+    return null
+  }
+
+  const totalRevenue = sessions.reduce((sum, s) => sum + Number(s.gross_amount), 0)
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-neutral-50 dark:hover:bg-neutral-700/50 transition-colors"
+      >
+        <div className="flex items-center gap-3 text-left">
+          <Receipt className="h-5 w-5 text-neutral-400" />
+          <div>
+            <p className="font-semibold text-neutral-900 dark:text-white">
+              Einzelne Sitzungen
+            </p>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+              {isLoading ? 'Lädt...' : `${sessions.length} Sitzungen • ${formatEuro(totalRevenue)}`}
+            </p>
+          </div>
+        </div>
+        {isExpanded ? (
+          <ChevronUp className="h-5 w-5 text-neutral-400" />
+        ) : (
+          <ChevronDown className="h-5 w-5 text-neutral-400" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-900/30">
+          <div className="flex justify-end px-6 pt-4">
+            <Button variant="outline" size="sm" onClick={handleReaggregate} disabled={isLoading} className="gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Monat neu berechnen
+            </Button>
+          </div>
+          <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+            {sessions.map(session => (
+              <div key={session.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap gap-2">
+                    <select
+                      value={session.therapy_type_id}
+                      onChange={(e) => handleTherapyChange(session, e.target.value)}
+                      disabled={busyId === session.id}
+                      className="px-3 py-2 rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm"
+                    >
+                      {therapies.map(therapy => (
+                        <option key={therapy.id} value={therapy.id}>
+                          {therapy.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={session.payer_type ?? therapies.find(t => t.id === session.therapy_type_id)?.payer_type ?? ''}
+                      onChange={(e) => handlePayerChange(session, e.target.value as PayerType)}
+                      disabled={busyId === session.id}
+                      title="Kostenträger"
+                      className="px-3 py-2 rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm"
+                    >
+                      {PAYER_TYPES.map(payer => (
+                        <option key={payer.value} value={payer.value}>
+                          {payer.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    <span>{new Date(session.session_date).toLocaleDateString('de-DE')}</span>
+                    {session.invoice_number && <span>{session.invoice_number}</span>}
+                    {session.payment_method && <span>{PAYMENT_METHOD_LABELS[session.payment_method]}</span>}
+                    <span className="font-semibold text-neutral-700 dark:text-neutral-300">
+                      {formatEuro(Number(session.gross_amount))}
+                    </span>
+                    {session.payment_status && session.payment_status !== 'bezahlt' && (
+                      <span className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 font-medium">
+                        {PAYMENT_STATUS_LABELS[session.payment_status]}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDelete(session)}
+                  disabled={busyId === session.id}
+                  className="p-2 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                  title="Sitzung löschen"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
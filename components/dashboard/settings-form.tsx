@@ -175,53 +175,6 @@ export function SettingsForm({ settings, onSaveSuccess }: SettingsFormProps) {
             />
           </div>
 
-          {/* Payment Processing Fees */}
-          <div className="space-y-4">
-            <div>
-              <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">
-                Zahlungsgebühren
-              </h3>
-              <p className="text-sm text-neutral-600 dark:text-neutral-400">
-                Gebührensatz für Kartenzahlungen (z.B. SumUp)
-              </p>
-            </div>
-
-            <FormField
-              control={form.control}
-              name="payment_processing_fee_percentage"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Zahlungsgebühren (%)</FormLabel>
-                  <FormControl>
-                    <div className="flex items-center gap-2">
-                      <Input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        max="100"
-                        placeholder="1.39"
-                        value={field.value ?? ''}
-                        onChange={(e) => {
-                          const value = e.target.value === '' ? 1.39 : parseFloat(e.target.value)
-                          field.onChange(value)
-                        }}
-                        disabled={isLoading}
-                        className="h-12 md:h-10 w-full md:max-w-xs"
-                        inputMode="decimal"
-                        autoComplete="off"
-                      />
-                      <span className="text-neutral-600 dark:text-neutral-400">%</span>
-                    </div>
-                  </FormControl>
-                  <FormDescription>
-                    Der Prozentsatz, den Sie pro Zahlung an den Kartendienstleister zahlen
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          </div>
-
           {/* Annual Revenue Goal */}
           <div className="space-y-4">
             <div>
@@ -0,0 +1,271 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Pencil, Plus, ShieldCheck, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import type { SvsAssessment } from '@/lib/types'
+import {
+  deleteSvsAssessment,
+  getSvsAssessments,
+  getSvsNachbemessung,
+  saveSvsAssessment,
+  type SvsNachbemessung
+} from '@/lib/actions/svs-assessments'
+import { formatDate, formatEuro } from '@/lib/utils'
+
+interface AssessmentDraft {
+  year: string
+  profit: string
+  profit_assessed: boolean
+  provisional_monthly_base: string
+  settled: boolean
+}
+
+const EMPTY_DRAFT: AssessmentDraft = {
+  year: String(new Date().getFullYear()),
+  profit: '',
+  profit_assessed: false,
+  provisional_monthly_base: '',
+  settled: false
+}
+
+const parseAmount = (value: string) => (value.trim() === '' ? null : parseFloat(value.replace(',', '.')))
+
+/**
+ * SVS history per year with the projected Nachbemessung
+ * Profits come from the income-tax assessment (or an estimate), provisional
+ * bases from the SVS contribution notices
+ */
+export function SvsAssessmentHistory() {
+  const [entries, setEntries] = useState<SvsAssessment[]>([])
+  const [nachbemessung, setNachbemessung] = useState<SvsNachbemessung | null>(null)
+  const [draft, setDraft] = useState<AssessmentDraft>(EMPTY_DRAFT)
+  const [isSaving, setIsSaving] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const load = async () => {
+    const [history, projection] = await Promise.all([getSvsAssessments(), getSvsNachbemessung()])
+    setEntries(history)
+    setNachbemessung(projection)
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const updateDraft = (update: Partial<AssessmentDraft>) => {
+    setDraft(prev => ({ ...prev, ...update }))
+  }
+
+  const handleEdit = (entry: SvsAssessment) => {
+    setDraft({
+      year: String(entry.year),
+      profit: entry.profit === null ? '' : String(entry.profit),
+      profit_assessed: entry.profit_assessed,
+      provisional_monthly_base: entry.provisional_monthly_base === null ? '' : String(entry.provisional_monthly_base),
+      settled: entry.settled
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const result = await saveSvsAssessment({
+        year: parseInt(draft.year, 10),
+        profit: parseAmount(draft.profit),
+        profit_assessed: draft.profit_assessed,
+        provisional_monthly_base: parseAmount(draft.provisional_monthly_base),
+        settled: draft.settled
+      })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      await load()
+      setDraft(EMPTY_DRAFT)
+      toast.success('SVS-Daten gespeichert')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setRemovingId(id)
+    try {
+      const result = await deleteSvsAssessment(id)
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      await load()
+      toast.success('SVS-Daten gelöscht')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const projectionFor = (year: number) => nachbemessung?.projections.find(p => p.year === year)
+  const canSave = !!(draft.year && (draft.profit.trim() || draft.provisional_monthly_base.trim()))
+
+  return (
+    <div className="max-w-4xl space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-neutral-500" />
+          SVS-Beitragsgrundlagen & Nachbemessung
+        </h2>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Die SVS schreibt vorläufige Beiträge auf Basis des Gewinns von vor drei Jahren vor und
+          rechnet nach dem Einkommensteuerbescheid nach. Erfassen Sie je Jahr den Gewinn und die
+          vorläufige Beitragsgrundlage laut SVS-Vorschreibung.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+        <Input
+          type="number"
+          step={1}
+          placeholder="Jahr"
+          value={draft.year}
+          onChange={(e) => updateDraft({ year: e.target.value })}
+          disabled={isSaving}
+          title="Beitragsjahr"
+          className="h-9"
+        />
+        <Input
+          type="number"
+          step={0.01}
+          placeholder="Gewinn €"
+          value={draft.profit}
+          onChange={(e) => updateDraft({ profit: e.target.value })}
+          disabled={isSaving}
+          title="Einkünfte aus selbständiger Arbeit"
+          className="h-9"
+          inputMode="decimal"
+        />
+        <Input
+          type="number"
+          step={0.01}
+          min={0}
+          placeholder="Vorl. Beitragsgrundlage €/Monat"
+          value={draft.provisional_monthly_base}
+          onChange={(e) => updateDraft({ provisional_monthly_base: e.target.value })}
+          disabled={isSaving}
+          title="Vorläufige Beitragsgrundlage pro Monat laut SVS"
+          className="h-9"
+          inputMode="decimal"
+        />
+        <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+          <input
+            type="checkbox"
+            checked={draft.profit_assessed}
+            onChange={(e) => updateDraft({ profit_assessed: e.target.checked })}
+            disabled={isSaving}
+            className="w-4 h-4"
+          />
+          Gewinn laut Steuerbescheid
+        </label>
+        <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+          <input
+            type="checkbox"
+            checked={draft.settled}
+            onChange={(e) => updateDraft({ settled: e.target.checked })}
+            disabled={isSaving}
+            className="w-4 h-4"
+          />
+          Nachbemessung bereits erhalten
+        </label>
+        <Button type="button" onClick={handleSave} disabled={isSaving || !canSave}>
+          <Plus className="h-4 w-4 mr-2" />
+          {isSaving ? 'Speichern...' : 'Jahr speichern'}
+        </Button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="overflow-x-auto border border-neutral-200 dark:border-neutral-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-neutral-50 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Jahr</th>
+                <th className="px-4 py-2 text-right font-medium">Gewinn</th>
+                <th className="px-4 py-2 text-right font-medium">Vorl. Grundlage</th>
+                <th className="px-4 py-2 text-right font-medium">Endg. Grundlage</th>
+                <th className="px-4 py-2 text-right font-medium">Nachbemessung</th>
+                <th className="px-4 py-2 text-left font-medium">Fällig ca.</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+              {entries.map(entry => {
+                const projection = projectionFor(entry.year)
+                return (
+                  <tr key={entry.id} className="text-neutral-900 dark:text-white">
+                    <td className="px-4 py-2 font-medium">{entry.year}</td>
+                    <td className="px-4 py-2 text-right">
+                      {entry.profit === null ? '–' : formatEuro(entry.profit)}
+                      <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                        {entry.profit === null ? '' : entry.profit_assessed ? 'laut Bescheid' : 'geschätzt'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {projection ? formatEuro(projection.provisionalBase) : entry.provisional_monthly_base === null ? '–' : formatEuro(entry.provisional_monthly_base * 12)}
+                      {projection?.provisionalBaseEstimated && (
+                        <div className="text-xs text-neutral-500 dark:text-neutral-400">geschätzt</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">{projection ? formatEuro(projection.finalBase) : '–'}</td>
+                    <td className={`px-4 py-2 text-right font-medium ${
+                      !projection || entry.settled
+                        ? 'text-neutral-500 dark:text-neutral-400'
+                        : projection.backPayment > 0
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-green-600 dark:text-green-400'
+                    }`}>
+                      {projection ? formatEuro(projection.backPayment) : '–'}
+                      {entry.settled && <div className="text-xs font-normal">erledigt</div>}
+                    </td>
+                    <td className="px-4 py-2">
+                      {projection && !entry.settled && projection.backPayment !== 0 ? formatDate(projection.expectedDue) : '–'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end">
+                        <button
+                          onClick={() => handleEdit(entry)}
+                          className="p-2 text-neutral-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                          title="Jahr bearbeiten"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry.id)}
+                          disabled={removingId === entry.id}
+                          className="p-2 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                          title="Jahr löschen"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {nachbemessung?.recommendation && (
+        <div className="p-4 rounded-lg bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-900 dark:text-amber-100">
+          <strong>Empfehlung {nachbemessung.recommendation.year}:</strong> Beantragen Sie bei der SVS eine
+          freiwillige Erhöhung der vorläufigen Beitragsgrundlage von{' '}
+          {formatEuro(nachbemessung.recommendation.currentMonthlyBase)} auf{' '}
+          {formatEuro(nachbemessung.recommendation.recommendedMonthlyBase)} pro Monat
+          (ca. {formatEuro(nachbemessung.recommendation.additionalMonthlyContribution)} mehr Beitrag pro Monat).
+          Die Beiträge sind sofort als Betriebsausgabe absetzbar und die Nachzahlung entfällt.
+        </div>
+      )}
+    </div>
+  )
+}
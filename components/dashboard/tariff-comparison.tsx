@@ -0,0 +1,98 @@
+'use client'
+
+import type { TariffComparisonRow } from '@/lib/actions/kassentarife'
+import { PAYER_TYPE_LABELS } from '@/lib/utils/payer-types'
+import { formatEuro } from '@/lib/utils'
+import { Scale } from 'lucide-react'
+
+interface TariffComparisonProps {
+  rows: TariffComparisonRow[]
+}
+
+/**
+ * Report comparing our prices with the Kassentarife
+ * Shows how much of each price Wahlarzt patients get refunded
+ */
+export function TariffComparison({ rows }: TariffComparisonProps) {
+  return (
+    <div className="bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Scale className="h-5 w-5 text-neutral-500" />
+        <h3 className="font-semibold text-neutral-900 dark:text-white">
+          Preise im Vergleich zum Kassentarif
+        </h3>
+      </div>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+        Erstattung an Wahlarzt-Patienten und deren Selbstbehalt pro Sitzung
+      </p>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          Noch keine Kassentarife hinterlegt. Tarife können im Dialog einer Therapieart erfasst werden.
+        </p>
+      ) : (
+        <div className="overflow-x-auto -mx-6 px-6">
+          <table className="w-full min-w-[640px]">
+            <thead>
+              <tr className="border-b border-neutral-200 dark:border-neutral-700">
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                  Therapieart
+                </th>
+                <th className="text-left py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                  Kasse
+                </th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                  Preis
+                </th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                  Kassentarif
+                </th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                  Preis/Tarif
+                </th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                  Erstattung
+                </th>
+                <th className="text-right py-3 px-2 text-sm font-medium text-neutral-600 dark:text-neutral-400">
+                  Selbstbehalt
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={`${row.therapy_type_id}-${row.insurer}`}
+                  className="border-b border-neutral-100 dark:border-neutral-700/50 last:border-0 hover:bg-neutral-50 dark:hover:bg-neutral-700/20 transition-colors"
+                >
+                  <td className="py-3 px-2 text-sm text-neutral-900 dark:text-white font-medium">
+                    {row.therapy_name}
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400">
+                    {PAYER_TYPE_LABELS[row.insurer]}
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-900 dark:text-white text-right tabular-nums">
+                    {formatEuro(row.price)}
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">
+                    {formatEuro(row.tariff)}
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">
+                    {row.priceToTariffRatio !== null ? `${(row.priceToTariffRatio * 100).toFixed(0)}%` : '–'}
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-600 dark:text-neutral-400 text-right tabular-nums">
+                    {formatEuro(row.reimbursement)}
+                    <span className="ml-1 text-xs text-neutral-500">({row.reimbursement_rate}%)</span>
+                  </td>
+                  <td className="py-3 px-2 text-sm text-neutral-900 dark:text-white text-right font-medium tabular-nums">
+                    {formatEuro(row.outOfPocket)}
+                    <span className="ml-1 text-xs text-neutral-500">({row.outOfPocketPercent.toFixed(0)}%)</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
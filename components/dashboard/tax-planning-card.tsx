@@ -14,24 +14,25 @@ interface TaxPlanningCardProps {
   grossRevenue: number
   totalExpenses: number
   practiceType: 'kassenarzt' | 'wahlarzt' | 'mixed'
-  privatePatientRevenue?: number
+  /** VAT payable for the year (see estimateVatPayable) */
+  vatPayable?: number
 }
 
 export function TaxPlanningCard({
   grossRevenue,
   totalExpenses,
   practiceType,
-  privatePatientRevenue
+  vatPayable
 }: TaxPlanningCardProps) {
   const taxResult = useMemo(() => {
     return calculateAustrianTax({
       grossRevenue,
       totalExpenses,
       practiceType,
-      applyingPauschalierung: true, // Most practices use this
-      privatePatientRevenue
+      applyingPauschalierung: false, // Actual expenses, as in the Steuerprognose
+      vatPayable
     })
-  }, [grossRevenue, totalExpenses, practiceType, privatePatientRevenue])
+  }, [grossRevenue, totalExpenses, practiceType, vatPayable])
 
   const tips = useMemo(() => {
     return getTaxOptimizationTips(taxResult)
@@ -138,7 +139,7 @@ export function TaxPlanningCard({
                   Einkommensteuer
                 </p>
                 <p className="text-xs text-neutral-600 dark:text-neutral-400">
-                  Progressiver Steuersatz (bis 50%)
+                  Progressiver Steuersatz (bis 55%)
                 </p>
               </div>
               <p className="text-sm font-semibold text-neutral-900 dark:text-white">
@@ -154,7 +155,7 @@ export function TaxPlanningCard({
                     Umsatzsteuer (USt)
                   </p>
                   <p className="text-xs text-neutral-600 dark:text-neutral-400">
-                    20% auf Privatpatienten
+                    Zahllast abzüglich Vorsteuer
                   </p>
                 </div>
                 <p className="text-sm font-semibold text-neutral-900 dark:text-white">
@@ -171,7 +172,7 @@ export function TaxPlanningCard({
                     Pauschale Betriebsausgaben
                   </p>
                   <p className="text-xs text-green-700 dark:text-green-300">
-                    13% Steuerersparnis (E/A-Rechnung)
+                    Basispauschalierung statt tatsächlicher Ausgaben
                   </p>
                 </div>
                 <p className="text-sm font-semibold text-green-600 dark:text-green-400">
@@ -236,11 +237,11 @@ export function TaxPlanningCard({
             ℹ️ Hinweis zur Berechnung
           </h4>
           <p className="text-xs text-neutral-600 dark:text-neutral-400 leading-relaxed">
-            Diese Berechnung basiert auf den österreichischen Steuersätzen 2025 und verwendet
+            Diese Berechnung basiert auf den österreichischen Steuerwerten {taxResult.taxYear} und verwendet
             vereinfachte Annahmen. Für eine verbindliche Steuerberechnung konsultieren Sie bitte
-            Ihren Steuerberater. Die Berechnung berücksichtigt: Einkommensteuer (progressiv bis 50%),
-            SVS-Beiträge (~27%), Ärztekammer-Beiträge (~3%), und optional die 13% Pauschalierung
-            bei E/A-Rechnung.
+            Ihren Steuerberater. Die Berechnung berücksichtigt: Einkommensteuer (progressiv bis 55%),
+            SVS-Beiträge inkl. Mindest- und Höchstbeitragsgrundlage, Ärztekammer-Beiträge und den
+            Gewinnfreibetrag.
           </p>
         </div>
       </CardContent>
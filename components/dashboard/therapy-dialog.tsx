@@ -20,12 +20,23 @@ import {
   FormMessage,
 } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Button } from '@/components/ui/button'
 import { TextField } from '@/components/ui/text-field'
 import { NumberField } from '@/components/ui/number-field'
 import { TherapyTypeSchema, type TherapyTypeInput } from '@/lib/validations'
 import type { TherapyType } from '@/lib/types'
+import { DEFAULT_PAYER_TYPE, PAYER_GROUP_LABELS, PAYER_TYPES } from '@/lib/utils/payer-types'
+import { VAT_RATES } from '@/lib/constants'
 import { createTherapyAction, updateTherapyAction } from '@/lib/actions/therapies'
+import { TherapyPriceSchedule } from './therapy-price-schedule'
+import { ReimbursementCalculator } from './reimbursement-calculator'
 import { toast } from 'sonner'
 
 interface TherapyDialogProps {
@@ -45,10 +56,14 @@ export function TherapyDialog({ open, onOpenChange, therapy, onSuccess }: Therap
       ? {
           name: therapy.name,
           price_per_session: therapy.price_per_session,
+          payer_type: therapy.payer_type,
+          vat_rate: therapy.vat_rate ?? 0,
         }
       : {
           name: '',
           price_per_session: 0,
+          payer_type: DEFAULT_PAYER_TYPE,
+          vat_rate: 0,
         },
   })
 
@@ -58,11 +73,15 @@ export function TherapyDialog({ open, onOpenChange, therapy, onSuccess }: Therap
       form.reset({
         name: therapy.name,
         price_per_session: therapy.price_per_session,
+        payer_type: therapy.payer_type,
+        vat_rate: therapy.vat_rate ?? 0,
       })
     } else {
       form.reset({
         name: '',
         price_per_session: 0,
+        payer_type: DEFAULT_PAYER_TYPE,
+        vat_rate: 0,
       })
     }
   }, [therapy, form])
@@ -110,7 +129,7 @@ export function TherapyDialog({ open, onOpenChange, therapy, onSuccess }: Therap
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {therapy ? 'Therapieart bearbeiten' : 'Neue Therapieart erstellen'}
@@ -151,7 +170,9 @@ export function TherapyDialog({ open, onOpenChange, therapy, onSuccess }: Therap
                   label="Sitzungspreis"
                   placeholder="60.00"
                   suffix="€"
-                  helperText="Preis pro Sitzung in Euro"
+                  helperText={therapy
+                    ? 'Preis pro Sitzung in Euro – Änderungen gelten ab dem aktuellen Monat'
+                    : 'Preis pro Sitzung in Euro'}
                   error={fieldState.error?.message}
                   disabled={isLoading}
                   step={0.01}
@@ -167,6 +188,69 @@ export function TherapyDialog({ open, onOpenChange, therapy, onSuccess }: Therap
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="payer_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Kostenträger</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value || DEFAULT_PAYER_TYPE}
+                    disabled={isLoading}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Kostenträger wählen" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PAYER_TYPES.map((payer) => (
+                        <SelectItem key={payer.value} value={payer.value}>
+                          {payer.label} · {PAYER_GROUP_LABELS[payer.group]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Wer die Sitzungen bezahlt – bestimmt die Aufteilung Kasse/Privat
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="vat_rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Umsatzsteuer</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(Number(value))}
+                    value={String(field.value ?? 0)}
+                    disabled={isLoading}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Steuersatz wählen" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {VAT_RATES.map((rate) => (
+                        <SelectItem key={rate.value} value={String(rate.value)}>
+                          {rate.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Heilbehandlungen sind steuerfrei; Gutachten, Kurse oder Produktverkäufe meist steuerpflichtig
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             <div className="flex gap-2 justify-end">
               <Button
@@ -183,6 +267,14 @@ export function TherapyDialog({ open, onOpenChange, therapy, onSuccess }: Therap
             </div>
           </form>
         </Form>
+
+        {therapy && (
+          <TherapyPriceSchedule therapy={therapy} onChange={onSuccess} />
+        )}
+
+        {therapy && (
+          <ReimbursementCalculator therapy={therapy} price={form.watch('price_per_session')} />
+        )}
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,194 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { CalendarClock, Trash2, TrendingUp, TrendingDown } from 'lucide-react'
+import { toast } from 'sonner'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import type { TherapyPrice, TherapyType } from '@/lib/types'
+import {
+  getTherapyPrices,
+  scheduleTherapyPriceAction,
+  deleteTherapyPriceAction,
+  getPriceChangeImpact
+} from '@/lib/actions/therapy-prices'
+import { formatEuro } from '@/lib/utils'
+
+interface TherapyPriceScheduleProps {
+  therapy: TherapyType
+  onChange?: () => void
+}
+
+type PriceChangeImpact = Awaited<ReturnType<typeof getPriceChangeImpact>>
+
+/**
+ * Next January as YYYY-MM (the usual date for price increases)
+ */
+function getDefaultValidFrom(): string {
+  return `${new Date().getFullYear() + 1}-01`
+}
+
+function formatMonth(date: string): string {
+  return new Date(`${date.slice(0, 7)}-01T00:00:00`).toLocaleDateString('de-DE', { month: 'long', year: 'numeric' })
+}
+
+/**
+ * Price history of a therapy type with scheduling of future price changes
+ * Shows the forecast impact on planned sessions before saving
+ */
+export function TherapyPriceSchedule({ therapy, onChange }: TherapyPriceScheduleProps) {
+  const [prices, setPrices] = useState<TherapyPrice[]>([])
+  const [newPrice, setNewPrice] = useState<number>(therapy.price_per_session)
+  const [validFrom, setValidFrom] = useState<string>(getDefaultValidFrom())
+  const [impact, setImpact] = useState<PriceChangeImpact>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadPrices = async () => {
+    setPrices(await getTherapyPrices(therapy.id))
+  }
+
+  useEffect(() => {
+    loadPrices()
+  }, [therapy.id])
+
+  // Recalculate the forecast impact when the planned change is edited
+  useEffect(() => {
+    if (!(newPrice > 0) || !validFrom) {
+      setImpact(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      setImpact(await getPriceChangeImpact(therapy.id, newPrice, validFrom))
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [therapy.id, newPrice, validFrom])
+
+  const handleSchedule = async () => {
+    setIsSaving(true)
+    try {
+      const result = await scheduleTherapyPriceAction(therapy.id, { price: newPrice, valid_from: validFrom })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      toast.success(`Preis ${formatEuro(newPrice)} ab ${formatMonth(validFrom)} geplant`)
+      await loadPrices()
+      onChange?.()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteTherapyPriceAction(id)
+    if (result.error) {
+      toast.error(result.error)
+      return
+    }
+    toast.success('Preis gelöscht')
+    await loadPrices()
+    onChange?.()
+  }
+
+  const currentMonth = new Date().toISOString().slice(0, 7)
+
+  return (
+    <div className="space-y-4 border-t border-neutral-200 dark:border-neutral-700 pt-4">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-neutral-500" />
+        <p className="text-sm font-semibold text-neutral-900 dark:text-white">Preisverlauf</p>
+      </div>
+
+      {prices.length > 0 && (
+        <div className="divide-y divide-neutral-200 dark:divide-neutral-700 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+          {prices.map(price => {
+            const isFuture = price.valid_from.slice(0, 7) > currentMonth
+            return (
+              <div key={price.id} className="px-3 py-2 flex items-center justify-between text-sm">
+                <span className="text-neutral-600 dark:text-neutral-400">
+                  ab {formatMonth(price.valid_from)}
+                  {isFuture && (
+                    <span className="ml-2 text-xs text-accent-600 dark:text-accent-400">geplant</span>
+                  )}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-neutral-900 dark:text-white">{formatEuro(price.price)}</span>
+                  {prices.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(price.id)}
+                      className="p-1 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                      title="Preis löschen"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="scheduled-price">Neuer Preis (€)</Label>
+          <Input
+            id="scheduled-price"
+            type="number"
+            step={0.01}
+            min={0}
+            value={Number.isNaN(newPrice) ? '' : newPrice}
+            onChange={(e) => setNewPrice(parseFloat(e.target.value))}
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="scheduled-valid-from">Gültig ab</Label>
+          <Input
+            id="scheduled-valid-from"
+            type="month"
+            value={validFrom}
+            onChange={(e) => setValidFrom(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+
+      {impact && impact.affectedSessions > 0 && (
+        <div className="flex items-start gap-2 rounded-lg bg-neutral-50 dark:bg-neutral-900 p-3 text-sm">
+          {impact.difference >= 0 ? (
+            <TrendingUp className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5" />
+          ) : (
+            <TrendingDown className="h-4 w-4 text-red-600 dark:text-red-400 mt-0.5" />
+          )}
+          <p className="text-neutral-700 dark:text-neutral-300">
+            {impact.affectedSessions} geplante Sitzungen in {impact.affectedMonths} Monaten:{' '}
+            <span className="font-semibold">
+              {impact.difference >= 0 ? '+' : ''}{formatEuro(impact.difference)}
+            </span>{' '}
+            Umsatz ({formatEuro(impact.currentRevenue)} → {formatEuro(impact.newRevenue)})
+          </p>
+        </div>
+      )}
+      {impact && impact.affectedSessions === 0 && (
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          Für diesen Zeitraum sind noch keine Sitzungen geplant.
+        </p>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleSchedule}
+        disabled={isSaving || !(newPrice > 0) || !validFrom}
+        className="w-full"
+      >
+        {isSaving ? 'Speichern...' : 'Preisänderung planen'}
+      </Button>
+    </div>
+  )
+}
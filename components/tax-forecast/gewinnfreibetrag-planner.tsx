@@ -0,0 +1,265 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { PiggyBank, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { ComprehensiveTaxResult } from '@/lib/types/tax-types'
+import type { QualifyingInvestment } from '@/lib/types'
+import { formatEuro, getTaxConfig } from '@/lib/config/tax-config'
+import {
+  addQualifyingInvestment,
+  deleteQualifyingInvestment,
+  getQualifyingInvestments,
+} from '@/lib/actions/qualifying-investments'
+
+interface GewinnfreibetragPlannerProps {
+  result: ComprehensiveTaxResult
+  /** Called with the total of the recorded investments of the tax year */
+  onInvestmentsChange: (taxYear: number, total: number) => void
+}
+
+const KIND_LABELS: Record<QualifyingInvestment['kind'], string> = {
+  asset: 'Wirtschaftsgut',
+  securities: 'Wertpapiere',
+}
+
+const selectClassName =
+  'h-9 px-3 rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm'
+
+const sumInvestments = (investments: QualifyingInvestment[]) =>
+  Math.round(investments.reduce((sum, investment) => sum + investment.amount, 0) * 100) / 100
+
+/**
+ * Year-end planner for the investment-based Gewinnfreibetrag
+ *
+ * Shows how much of the tiered allowance is covered by the recorded
+ * qualifying investments and how much still has to be invested by 31 December.
+ */
+export function GewinnfreibetragPlanner({ result, onInvestmentsChange }: GewinnfreibetragPlannerProps) {
+  const taxYear = result.taxYear
+  const breakdown = result.gewinnfreibetragBreakdown
+  const limits = getTaxConfig(taxYear).deductionLimits
+
+  const [investments, setInvestments] = useState<QualifyingInvestment[]>([])
+  const [loadedYear, setLoadedYear] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [description, setDescription] = useState('')
+  const [kind, setKind] = useState<QualifyingInvestment['kind']>('asset')
+  const [investmentDate, setInvestmentDate] = useState('')
+  const [amount, setAmount] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    getQualifyingInvestments(taxYear).then((loaded) => {
+      if (cancelled) return
+      setInvestments(loaded)
+      setLoadedYear(taxYear)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [taxYear])
+
+  // Report the total once the investments of the year are loaded and whenever it changes
+  const investedTotal = sumInvestments(investments)
+  useEffect(() => {
+    if (loadedYear === taxYear) {
+      onInvestmentsChange(taxYear, investedTotal)
+    }
+  }, [loadedYear, taxYear, investedTotal, onInvestmentsChange])
+
+  const handleAdd = async () => {
+    if (!investmentDate.startsWith(`${taxYear}-`)) {
+      toast.error(`Das Investitionsdatum muss im Jahr ${taxYear} liegen`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await addQualifyingInvestment({
+        description,
+        kind,
+        investment_date: investmentDate,
+        amount: parseFloat(amount.replace(',', '.')),
+      })
+      if (response.error || !response.data) {
+        toast.error(response.error || 'Speichern fehlgeschlagen')
+        return
+      }
+      setInvestments(
+        [...investments, response.data].sort((a, b) => a.investment_date.localeCompare(b.investment_date))
+      )
+      setDescription('')
+      setAmount('')
+      toast.success('Investition erfasst')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    const response = await deleteQualifyingInvestment(id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    setInvestments(investments.filter((investment) => investment.id !== id))
+  }
+
+  const coveredPercent =
+    breakdown.investmentBasedMax > 0 ? (breakdown.investmentBased / breakdown.investmentBasedMax) * 100 : 0
+  const potentialSavings = (breakdown.missingInvestment * result.marginalTaxRate) / 100
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <PiggyBank className="h-5 w-5 text-accent-600 dark:text-accent-400" />
+          <div>
+            <CardTitle className="text-base">Gewinnfreibetrag {taxYear}</CardTitle>
+            <CardDescription>
+              Grundfreibetrag {(limits.gewinnfreibetragRate * 100).toFixed(0)}% bis{' '}
+              {formatEuro(limits.gewinnfreibetragLimit)} Gewinn, darüber investitionsbedingt{' '}
+              {limits.gewinnfreibetragInvestmentTiers
+                .map((tier) => `${(tier.rate * 100).toLocaleString('de-AT')}%`)
+                .join(' / ')}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">Grundfreibetrag</p>
+            <p className="text-xl font-bold text-neutral-900 dark:text-white">
+              {formatEuro(breakdown.grundfreibetrag)}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">Investitionsbedingt möglich</p>
+            <p className="text-xl font-bold text-neutral-900 dark:text-white">
+              {formatEuro(breakdown.investmentBasedMax)}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">Durch Investitionen gedeckt</p>
+            <p className="text-xl font-bold text-green-600 dark:text-green-400">
+              {formatEuro(breakdown.investmentBased)}
+            </p>
+          </div>
+        </div>
+
+        {breakdown.investmentBasedMax > 0 ? (
+          <div className="space-y-2">
+            <Progress value={coveredPercent} className="h-2" />
+            {breakdown.missingInvestment > 0 ? (
+              <div className="p-3 rounded-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                <p className="text-sm text-amber-900 dark:text-amber-100">
+                  <strong>Bis 31.12.{taxYear} noch {formatEuro(breakdown.missingInvestment)} investieren</strong>,
+                  um den Gewinnfreibetrag voll zu nutzen (Steuerersparnis ca. {formatEuro(potentialSavings)}).
+                </p>
+                <p className="text-xs text-amber-800 dark:text-amber-200 mt-1">
+                  Begünstigt sind neue abnutzbare Wirtschaftsgüter mit mindestens vier Jahren
+                  Nutzungsdauer sowie Wertpapiere, die vier Jahre gehalten werden.
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-green-700 dark:text-green-300">
+                Der investitionsbedingte Gewinnfreibetrag ist vollständig gedeckt.
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            {result.pauschalExpenses > 0
+              ? 'Bei Basispauschalierung steht nur der Grundfreibetrag zu.'
+              : `Der Gewinn liegt nicht über ${formatEuro(limits.gewinnfreibetragLimit)}; der Grundfreibetrag wird ohne Investitionen berücksichtigt.`}
+          </p>
+        )}
+
+        {/* Recorded investments */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-neutral-900 dark:text-white">
+            Begünstigte Investitionen {taxYear} ({formatEuro(breakdown.qualifyingInvestments)})
+          </h4>
+          {investments.map((investment) => (
+            <div
+              key={investment.id}
+              className="flex items-center justify-between p-3 bg-neutral-50 dark:bg-neutral-800 rounded-sm"
+            >
+              <div>
+                <p className="text-sm">{investment.description}</p>
+                <p className="text-xs text-neutral-500">
+                  {KIND_LABELS[investment.kind]} · {new Date(investment.investment_date).toLocaleDateString('de-AT')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold">{formatEuro(investment.amount, 2)}</span>
+                <button
+                  onClick={() => handleDelete(investment.id)}
+                  className="p-1 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                  title="Investition löschen"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pt-2">
+            <Input
+              placeholder="Bezeichnung (z.B. Wohnbauanleihe)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isSaving}
+              className="h-9 sm:col-span-2"
+            />
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as QualifyingInvestment['kind'])}
+              disabled={isSaving}
+              title="Art der Investition"
+              className={selectClassName}
+            >
+              <option value="asset">{KIND_LABELS.asset}</option>
+              <option value="securities">{KIND_LABELS.securities}</option>
+            </select>
+            <Input
+              type="date"
+              value={investmentDate}
+              min={`${taxYear}-01-01`}
+              max={`${taxYear}-12-31`}
+              onChange={(e) => setInvestmentDate(e.target.value)}
+              disabled={isSaving}
+              title="Investitionsdatum"
+              className="h-9"
+            />
+            <Input
+              type="number"
+              step={0.01}
+              min={0}
+              placeholder="Betrag €"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={isSaving}
+              className="h-9"
+              inputMode="decimal"
+            />
+            <Button
+              type="button"
+              onClick={handleAdd}
+              disabled={isSaving || !description.trim() || !investmentDate || !amount}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {isSaving ? 'Speichern...' : 'Investition erfassen'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
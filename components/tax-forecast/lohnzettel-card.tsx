@@ -0,0 +1,190 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FileText, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { Lohnzettel } from '@/lib/types'
+import { formatEuro } from '@/lib/config/tax-config'
+import { deleteLohnzettel, getLohnzettel, saveLohnzettel } from '@/lib/actions/lohnzettel'
+
+interface LohnzettelCardProps {
+  taxYear: number
+  /** Called after a Lohnzettel was saved or deleted */
+  onChange?: () => void
+}
+
+type AmountField = 'gross_pay' | 'tax_free_pay' | 'special_payments' | 'social_security' | 'wage_tax_withheld'
+
+type LohnzettelDraft = { employer_name: string } & Record<AmountField, string>
+
+const EMPTY_DRAFT: LohnzettelDraft = {
+  employer_name: '',
+  gross_pay: '',
+  tax_free_pay: '',
+  special_payments: '',
+  social_security: '',
+  wage_tax_withheld: '',
+}
+
+const AMOUNT_FIELDS: Array<{ field: AmountField; kz: string; label: string }> = [
+  { field: 'gross_pay', kz: '210', label: 'Bruttobezüge' },
+  { field: 'tax_free_pay', kz: '215', label: 'Steuerfreie Bezüge' },
+  { field: 'special_payments', kz: '220', label: 'Sonstige Bezüge (13./14.)' },
+  { field: 'social_security', kz: '230', label: 'SV-Beiträge' },
+  { field: 'wage_tax_withheld', kz: '260', label: 'Einbehaltene Lohnsteuer' },
+]
+
+const parseAmount = (value: string) => parseFloat(value.replace(',', '.')) || 0
+
+/**
+ * Lohnzettel (L16) of the employments of a tax year, one per employer
+ * Their sum is the employment income of the Steuerprognose
+ */
+export function LohnzettelCard({ taxYear, onChange }: LohnzettelCardProps) {
+  const [entries, setEntries] = useState<Lohnzettel[]>([])
+  const [draft, setDraft] = useState<LohnzettelDraft>(EMPTY_DRAFT)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await getLohnzettel(taxYear))
+  }, [taxYear])
+
+  useEffect(() => {
+    setDraft(EMPTY_DRAFT)
+    loadEntries()
+  }, [loadEntries])
+
+  const editEntry = (entry: Lohnzettel) => {
+    setDraft({
+      employer_name: entry.employer_name,
+      ...Object.fromEntries(
+        AMOUNT_FIELDS.map(({ field }) => [field, entry[field] ? String(entry[field]) : ''])
+      ) as Record<AmountField, string>,
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await saveLohnzettel({
+        year: taxYear,
+        employer_name: draft.employer_name,
+        gross_pay: parseAmount(draft.gross_pay),
+        tax_free_pay: parseAmount(draft.tax_free_pay),
+        special_payments: parseAmount(draft.special_payments),
+        social_security: parseAmount(draft.social_security),
+        wage_tax_withheld: parseAmount(draft.wage_tax_withheld),
+      })
+      if (response.error) {
+        toast.error(response.error)
+        return
+      }
+      toast.success(`Lohnzettel ${draft.employer_name.trim()} gespeichert`)
+      setDraft(EMPTY_DRAFT)
+      await loadEntries()
+      onChange?.()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (entry: Lohnzettel) => {
+    const response = await deleteLohnzettel(entry.id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    toast.success(`Lohnzettel ${entry.employer_name} gelöscht`)
+    await loadEntries()
+    onChange?.()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-accent-600 dark:text-accent-400" />
+          <div>
+            <CardTitle className="text-base">Lohnzettel {taxYear}</CardTitle>
+            <CardDescription>
+              Jahreslohnzettel (L16) Ihrer Dienstverhältnisse, z.B. Anstellung im Spital
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length > 0 && (
+          <div className="divide-y divide-neutral-200 dark:divide-neutral-700 text-sm">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 py-2">
+                <button
+                  type="button"
+                  onClick={() => editEntry(entry)}
+                  className="text-left min-w-0"
+                  title="Bearbeiten"
+                >
+                  <div className="font-medium truncate">{entry.employer_name}</div>
+                  <div className="text-xs text-neutral-500">
+                    Brutto {formatEuro(entry.gross_pay)} · Lohnsteuer {formatEuro(entry.wage_tax_withheld)}
+                  </div>
+                </button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(entry)}
+                  title={`Lohnzettel ${entry.employer_name} löschen`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="lohnzettel-employer">Arbeitgeber</Label>
+            <Input
+              id="lohnzettel-employer"
+              placeholder="z.B. Landesklinikum"
+              value={draft.employer_name}
+              onChange={(e) => setDraft({ ...draft, employer_name: e.target.value })}
+            />
+          </div>
+          {AMOUNT_FIELDS.map(({ field, kz, label }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`lohnzettel-${field}`}>
+                {label} <span className="text-neutral-500 font-normal">(KZ {kz})</span>
+              </Label>
+              <Input
+                id={`lohnzettel-${field}`}
+                type="number"
+                step={0.01}
+                min={0}
+                placeholder="€0"
+                value={draft[field]}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                inputMode="decimal"
+              />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSave}
+            disabled={isSaving || !draft.employer_name.trim()}
+            className="w-full"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Speichere...' : 'Lohnzettel speichern'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
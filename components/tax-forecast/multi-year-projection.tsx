@@ -0,0 +1,329 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { TrendingUp } from 'lucide-react'
+import type { TaxProjection, TaxProjectionAssumptions } from '@/lib/types/tax-types'
+import { DEFAULT_PROJECTION_ASSUMPTIONS, formatEuro } from '@/lib/config/tax-config'
+import { PROJECTION_YEARS, projectMultiYearTax } from '@/lib/utils/tax-projection'
+import { getTaxProjectionBase, type TaxProjectionBase } from '@/lib/actions/tax-projection'
+
+interface MultiYearProjectionProps {
+  /** Baseline and, if enabled, the alternative scenario for the comparison */
+  onProjectionsChange?: (projections: TaxProjection[]) => void
+}
+
+interface AlternativeDraft {
+  enabled: boolean
+  name: string
+  fromYear: number
+  revenueChange: string
+  expenseChange: string
+}
+
+const selectClassName =
+  'h-9 px-3 rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-white text-sm'
+
+const parseNumber = (value: string) => parseFloat(value.replace(',', '.')) || 0
+
+const HORIZONS = Array.from(
+  { length: PROJECTION_YEARS.max - PROJECTION_YEARS.min + 1 },
+  (_, i) => PROJECTION_YEARS.min + i
+)
+
+/**
+ * Net income over the next 3-5 years from the yearly plans and growth,
+ * optionally compared with an alternative scenario (e.g. full-time from a year on)
+ */
+export function MultiYearProjection({ onProjectionsChange }: MultiYearProjectionProps) {
+  const [base, setBase] = useState<TaxProjectionBase | null>(null)
+  const [years, setYears] = useState<number>(PROJECTION_YEARS.max)
+  const [baseRevenue, setBaseRevenue] = useState('')
+  const [baseExpenses, setBaseExpenses] = useState('')
+  const [assumptions, setAssumptions] = useState<Record<keyof TaxProjectionAssumptions, string>>({
+    growthRate: String(DEFAULT_PROJECTION_ASSUMPTIONS.growthRate),
+    inflationRate: String(DEFAULT_PROJECTION_ASSUMPTIONS.inflationRate),
+    svsCapGrowthRate: String(DEFAULT_PROJECTION_ASSUMPTIONS.svsCapGrowthRate),
+  })
+  const [alternative, setAlternative] = useState<AlternativeDraft>({
+    enabled: false,
+    name: 'Vollzeit',
+    fromYear: new Date().getFullYear() + 1,
+    revenueChange: '50',
+    expenseChange: '20',
+  })
+
+  useEffect(() => {
+    let cancelled = false
+    getTaxProjectionBase().then((result) => {
+      if (cancelled || !result) return
+      setBase(result)
+      setBaseRevenue(String(result.baseRevenue))
+      setBaseExpenses(String(result.baseExpenses))
+      setAssumptions((prev) => ({ ...prev, growthRate: String(result.growthRate) }))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const startYear = base?.startYear ?? new Date().getFullYear()
+
+  const projections = useMemo(() => {
+    const input = {
+      startYear,
+      years,
+      baseRevenue: parseNumber(baseRevenue),
+      baseExpenses: parseNumber(baseExpenses),
+      plannedRevenue: base?.plannedRevenue,
+      practiceType: base?.practiceType ?? 'wahlarzt',
+      assumptions: {
+        growthRate: parseNumber(assumptions.growthRate),
+        inflationRate: parseNumber(assumptions.inflationRate),
+        svsCapGrowthRate: parseNumber(assumptions.svsCapGrowthRate),
+      },
+    }
+    const result = [projectMultiYearTax({ ...input, scenarioName: 'Basis' })]
+    if (alternative.enabled) {
+      result.push(
+        projectMultiYearTax({
+          ...input,
+          scenarioName: alternative.name.trim() || 'Alternative',
+          adjustments: [
+            {
+              fromYear: alternative.fromYear,
+              revenueChange: parseNumber(alternative.revenueChange),
+              expenseChange: parseNumber(alternative.expenseChange),
+            },
+          ],
+        })
+      )
+    }
+    return result
+  }, [base, startYear, years, baseRevenue, baseExpenses, assumptions, alternative])
+
+  useEffect(() => {
+    onProjectionsChange?.(projections)
+  }, [projections, onProjectionsChange])
+
+  const [baseline, alternativeProjection] = projections
+  const hasEstimatedYears = baseline.years.some((y) => y.estimatedConfig)
+  const projectedYears = baseline.years.map((y) => y.year)
+
+  const updateAssumption = (key: keyof TaxProjectionAssumptions, value: string) => {
+    setAssumptions((prev) => ({ ...prev, [key]: value }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-accent-600 dark:text-accent-400" />
+          <div>
+            <CardTitle className="text-base">Mehrjahresprognose</CardTitle>
+            <CardDescription>
+              Nettoeinkommen nach Einkommensteuer, SVS und Ärztekammer für die nächsten Jahre
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <label htmlFor="projection-years" className="text-sm font-medium">Zeitraum</label>
+            <select
+              id="projection-years"
+              value={years}
+              onChange={(e) => setYears(parseInt(e.target.value, 10))}
+              className={`${selectClassName} w-full`}
+            >
+              {HORIZONS.map((h) => (
+                <option key={h} value={h}>{h} Jahre</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="projection-revenue" className="text-sm font-medium">Umsatz {startYear}</label>
+            <Input
+              id="projection-revenue"
+              type="number"
+              step={100}
+              min={0}
+              value={baseRevenue}
+              onChange={(e) => setBaseRevenue(e.target.value)}
+              className="h-9"
+              inputMode="decimal"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="projection-expenses" className="text-sm font-medium">Ausgaben {startYear}</label>
+            <Input
+              id="projection-expenses"
+              type="number"
+              step={100}
+              min={0}
+              value={baseExpenses}
+              onChange={(e) => setBaseExpenses(e.target.value)}
+              className="h-9"
+              inputMode="decimal"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="projection-growth" className="text-sm font-medium">Wachstum % p.a.</label>
+            <Input
+              id="projection-growth"
+              type="number"
+              step={0.5}
+              value={assumptions.growthRate}
+              onChange={(e) => updateAssumption('growthRate', e.target.value)}
+              className="h-9"
+              inputMode="decimal"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="projection-inflation" className="text-sm font-medium">Inflation % p.a.</label>
+            <Input
+              id="projection-inflation"
+              type="number"
+              step={0.5}
+              value={assumptions.inflationRate}
+              onChange={(e) => updateAssumption('inflationRate', e.target.value)}
+              className="h-9"
+              inputMode="decimal"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="projection-svs" className="text-sm font-medium">SVS-Grenzen % p.a.</label>
+            <Input
+              id="projection-svs"
+              type="number"
+              step={0.5}
+              value={assumptions.svsCapGrowthRate}
+              onChange={(e) => updateAssumption('svsCapGrowthRate', e.target.value)}
+              className="h-9"
+              inputMode="decimal"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3 p-3 rounded-sm border border-neutral-200 dark:border-neutral-700">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={alternative.enabled}
+              onChange={(e) => setAlternative((prev) => ({ ...prev, enabled: e.target.checked }))}
+              className="h-4 w-4"
+            />
+            Alternatives Szenario vergleichen
+          </label>
+          {alternative.enabled && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <label htmlFor="alternative-name" className="text-sm text-neutral-600 dark:text-neutral-400">Name</label>
+                <Input
+                  id="alternative-name"
+                  value={alternative.name}
+                  onChange={(e) => setAlternative((prev) => ({ ...prev, name: e.target.value }))}
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="alternative-year" className="text-sm text-neutral-600 dark:text-neutral-400">Ab Jahr</label>
+                <select
+                  id="alternative-year"
+                  value={alternative.fromYear}
+                  onChange={(e) => setAlternative((prev) => ({ ...prev, fromYear: parseInt(e.target.value, 10) }))}
+                  className={`${selectClassName} w-full`}
+                >
+                  {projectedYears.map((year) => (
+                    <option key={year} value={year}>{year}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="alternative-revenue" className="text-sm text-neutral-600 dark:text-neutral-400">Umsatz ±%</label>
+                <Input
+                  id="alternative-revenue"
+                  type="number"
+                  step={5}
+                  value={alternative.revenueChange}
+                  onChange={(e) => setAlternative((prev) => ({ ...prev, revenueChange: e.target.value }))}
+                  className="h-9"
+                  inputMode="decimal"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="alternative-expenses" className="text-sm text-neutral-600 dark:text-neutral-400">Ausgaben ±%</label>
+                <Input
+                  id="alternative-expenses"
+                  type="number"
+                  step={5}
+                  value={alternative.expenseChange}
+                  onChange={(e) => setAlternative((prev) => ({ ...prev, expenseChange: e.target.value }))}
+                  className="h-9"
+                  inputMode="decimal"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-neutral-600 dark:text-neutral-400">
+              <tr>
+                <th className="py-2 text-left font-medium">Jahr</th>
+                <th className="py-2 px-2 text-right font-medium">Umsatz</th>
+                <th className="py-2 px-2 text-right font-medium">Gewinn</th>
+                <th className="py-2 px-2 text-right font-medium">Einkommensteuer</th>
+                <th className="py-2 px-2 text-right font-medium">SVS</th>
+                <th className="py-2 px-2 text-right font-medium">Ärztekammer</th>
+                <th className="py-2 px-2 text-right font-medium">Netto</th>
+                {alternativeProjection && (
+                  <th className="py-2 pl-2 text-right font-medium">Netto {alternativeProjection.scenarioName}</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+              {baseline.years.map((year, index) => (
+                <tr key={year.year}>
+                  <td className="py-2 whitespace-nowrap font-medium">
+                    {year.year}
+                    {year.estimatedConfig && '*'}
+                    {year.fromPlan && <span className="ml-1 text-xs font-normal text-neutral-500">Plan</span>}
+                  </td>
+                  <td className="py-2 px-2 text-right">{formatEuro(year.revenue)}</td>
+                  <td className="py-2 px-2 text-right">{formatEuro(year.profit)}</td>
+                  <td className="py-2 px-2 text-right text-red-600 dark:text-red-400">-{formatEuro(year.incomeTax)}</td>
+                  <td className="py-2 px-2 text-right text-orange-600 dark:text-orange-400">-{formatEuro(year.svs)}</td>
+                  <td className="py-2 px-2 text-right text-orange-600 dark:text-orange-400">-{formatEuro(year.aerztekammer)}</td>
+                  <td className="py-2 px-2 text-right font-semibold text-green-600 dark:text-green-400">{formatEuro(year.netIncome)}</td>
+                  {alternativeProjection && (
+                    <td className="py-2 pl-2 text-right font-semibold">
+                      {formatEuro(alternativeProjection.years[index].netIncome)}
+                    </td>
+                  )}
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2" colSpan={6}>Summe</td>
+                <td className="py-2 px-2 text-right text-green-600 dark:text-green-400">{formatEuro(baseline.totalNetIncome)}</td>
+                {alternativeProjection && (
+                  <td className="py-2 pl-2 text-right">{formatEuro(alternativeProjection.totalNetIncome)}</td>
+                )}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {hasEstimatedYears && (
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            * Steuerstufen, Absetzbeträge und SVS-Grenzen sind für dieses Jahr noch nicht veröffentlicht und
+            werden mit den Annahmen fortgeschrieben.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
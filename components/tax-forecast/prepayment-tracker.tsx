@@ -0,0 +1,231 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Landmark, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import type { ComprehensiveTaxResult } from '@/lib/types/tax-types'
+import type { TaxPrepaymentRecord } from '@/lib/calculations/types'
+import { formatEuro } from '@/lib/config/tax-config'
+import { reconcilePrepayments } from '@/lib/calculations/core/prepayment-calculator'
+import { getTaxPrepayments, saveTaxPrepayment } from '@/lib/actions/tax-prepayments'
+
+interface PrepaymentTrackerProps {
+  result: ComprehensiveTaxResult
+}
+
+interface QuarterDraft {
+  assessed_amount: string
+  paid_amount: string
+  paid_on: string
+}
+
+const EMPTY_QUARTERS: QuarterDraft[] = [1, 2, 3, 4].map(() => ({
+  assessed_amount: '',
+  paid_amount: '',
+  paid_on: '',
+}))
+
+const parseAmount = (value: string) => parseFloat(value.replace(',', '.')) || 0
+
+const formatDay = (date: string) => new Date(date).toLocaleDateString('de-AT')
+
+/**
+ * Income-tax prepayments (Vorauszahlungen) set by the Finanzamt and paid,
+ * reconciled with the projected income tax of the Steuerprognose
+ */
+export function PrepaymentTracker({ result }: PrepaymentTrackerProps) {
+  const taxYear = result.taxYear
+  const [quarters, setQuarters] = useState<QuarterDraft[]>(EMPTY_QUARTERS)
+  const [savingQuarter, setSavingQuarter] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    getTaxPrepayments(taxYear).then((prepayments) => {
+      if (cancelled) return
+      setQuarters(
+        [1, 2, 3, 4].map((quarter) => {
+          const prepayment = prepayments.find((p) => p.quarter === quarter)
+          return {
+            assessed_amount: prepayment ? String(prepayment.assessed_amount) : '',
+            paid_amount: prepayment ? String(prepayment.paid_amount) : '',
+            paid_on: prepayment?.paid_on ?? '',
+          }
+        })
+      )
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [taxYear])
+
+  const updateQuarter = (index: number, update: Partial<QuarterDraft>) => {
+    setQuarters((prev) => prev.map((q, i) => (i === index ? { ...q, ...update } : q)))
+  }
+
+  const handleSave = async (index: number) => {
+    const draft = quarters[index]
+    setSavingQuarter(index + 1)
+    try {
+      const response = await saveTaxPrepayment({
+        year: taxYear,
+        quarter: index + 1,
+        assessed_amount: parseAmount(draft.assessed_amount),
+        paid_amount: parseAmount(draft.paid_amount),
+        paid_on: draft.paid_on || null,
+      })
+      if (response.error) {
+        toast.error(response.error)
+        return
+      }
+      toast.success(`Vorauszahlung Q${index + 1} gespeichert`)
+    } finally {
+      setSavingQuarter(null)
+    }
+  }
+
+  const records: TaxPrepaymentRecord[] = quarters.map((q, i) => ({
+    quarter: i + 1,
+    assessed_amount: parseAmount(q.assessed_amount),
+    paid_amount: parseAmount(q.paid_amount),
+    paid_on: q.paid_on || null,
+  }))
+  const today = new Date().toISOString().split('T')[0]
+  const reconciliation = reconcilePrepayments(records, result.taxLiability, taxYear, today)
+  const { recommendation } = reconciliation
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Landmark className="h-5 w-5 text-accent-600 dark:text-accent-400" />
+          <div>
+            <CardTitle className="text-base">Einkommensteuer-Vorauszahlungen {taxYear}</CardTitle>
+            <CardDescription>
+              Vorauszahlungen laut Bescheid und geleistete Zahlungen im Vergleich zur Prognose
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-neutral-600 dark:text-neutral-400">
+              <tr>
+                <th className="py-2 text-left font-medium">Quartal</th>
+                <th className="py-2 px-2 text-left font-medium">Laut Bescheid</th>
+                <th className="py-2 px-2 text-left font-medium">Bezahlt</th>
+                <th className="py-2 px-2 text-left font-medium">Bezahlt am</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+              {reconciliation.quarters.map((quarter, index) => (
+                <tr key={quarter.quarter}>
+                  <td className="py-2 whitespace-nowrap">
+                    <div className="font-medium">Q{quarter.quarter}</div>
+                    <div className={`text-xs ${quarter.overdue ? 'text-red-600 dark:text-red-400' : 'text-neutral-500'}`}>
+                      fällig {formatDay(quarter.dueDate)}
+                      {quarter.overdue && ` · ${formatEuro(quarter.outstanding, 2)} offen`}
+                    </div>
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      step={0.01}
+                      min={0}
+                      placeholder="€0"
+                      value={quarters[index].assessed_amount}
+                      onChange={(e) => updateQuarter(index, { assessed_amount: e.target.value })}
+                      className="h-9 min-w-[110px]"
+                      inputMode="decimal"
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      step={0.01}
+                      min={0}
+                      placeholder="€0"
+                      value={quarters[index].paid_amount}
+                      onChange={(e) => updateQuarter(index, { paid_amount: e.target.value })}
+                      className="h-9 min-w-[110px]"
+                      inputMode="decimal"
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="date"
+                      value={quarters[index].paid_on}
+                      onChange={(e) => updateQuarter(index, { paid_on: e.target.value })}
+                      className="h-9"
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSave(index)}
+                      disabled={savingQuarter !== null}
+                      title={`Q${quarter.quarter} speichern`}
+                    >
+                      <Save className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-2">
+          <div className="space-y-1">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">Vorauszahlungen</p>
+            <p className="text-lg font-bold">{formatEuro(reconciliation.totalAssessed)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">Bezahlt</p>
+            <p className="text-lg font-bold">{formatEuro(reconciliation.totalPaid)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">Prognose Einkommensteuer</p>
+            <p className="text-lg font-bold">{formatEuro(reconciliation.projectedTax)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              {reconciliation.expectedSettlement >= 0 ? 'Erwartete Nachzahlung' : 'Erwartete Gutschrift'}
+            </p>
+            <p
+              className={`text-lg font-bold ${
+                reconciliation.expectedSettlement > 0
+                  ? 'text-red-600 dark:text-red-400'
+                  : 'text-green-600 dark:text-green-400'
+              }`}
+            >
+              {formatEuro(Math.abs(reconciliation.expectedSettlement))}
+            </p>
+          </div>
+        </div>
+
+        {recommendation.action === 'lower' && (
+          <div className="p-3 rounded-sm bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-900 dark:text-green-100">
+            <strong>Herabsetzungsantrag empfohlen:</strong> Die Vorauszahlungen liegen deutlich über der
+            prognostizierten Steuer. Beantragen Sie bis {formatDay(recommendation.deadline)} beim
+            Finanzamt eine Herabsetzung auf ca. {formatEuro(recommendation.suggestedAnnual)} pro Jahr.
+          </div>
+        )}
+        {recommendation.action === 'raise' && (
+          <div className="p-3 rounded-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-900 dark:text-amber-100">
+            <strong>Erhöhung empfohlen:</strong> Die Vorauszahlungen decken die prognostizierte Steuer
+            nicht. Beantragen Sie eine Erhöhung auf ca. {formatEuro(recommendation.suggestedAnnual)} pro
+            Jahr oder leisten Sie eine Anzahlung bis {formatDay(recommendation.deadline)}, um
+            Anspruchszinsen zu vermeiden.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -26,11 +26,29 @@ import {
   AlertCircle,
   CheckCircle,
 } from 'lucide-react'
-import type { TaxScenario, ComprehensiveTaxResult } from '@/lib/types/tax-types'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { TaxScenario, ComprehensiveTaxResult, TaxProjection } from '@/lib/types/tax-types'
 import { formatEuro } from '@/lib/config/tax-config'
+import {
+  CHART_COLORS,
+  CHART_MARGIN,
+  TOOLTIP_STYLE,
+  formatAxisEuro,
+} from '@/components/dashboard/business-reports/components/chart-config'
 
 interface ScenarioComparisonProps {
   scenarios: TaxScenario[]
+  /** Multi-year projections shown as net income curves side by side */
+  projections?: TaxProjection[]
   onSelectScenario?: (scenarioId: string) => void
   onDeleteScenario?: (scenarioId: string) => void
   onGenerateReport?: (scenarioId: string) => void
@@ -43,7 +61,12 @@ export function ScenarioComparison({
   onDeleteScenario,
   onGenerateReport,
   selectedScenarioId,
+  projections = [],
 }: ScenarioComparisonProps) {
+  if (scenarios.length === 0 && projections.length > 0) {
+    return <ProjectionCurves projections={projections} />
+  }
+
   if (scenarios.length === 0) {
     return (
       <Card className="border-dashed">
@@ -82,6 +105,8 @@ export function ScenarioComparison({
 
   return (
     <div className="space-y-6">
+      {projections.length > 0 && <ProjectionCurves projections={projections} />}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -542,3 +567,75 @@ export function ScenarioComparison({
     </div>
   )
 }
+
+/**
+ * Net income per year of the multi-year projections, one curve per scenario
+ */
+function ProjectionCurves({ projections }: { projections: TaxProjection[] }) {
+  const chartData = projections[0].years.map((year, index) => ({
+    year: String(year.year),
+    ...Object.fromEntries(
+      projections.map((projection) => [projection.scenarioName, projection.years[index]?.netIncome ?? 0])
+    ),
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Mehrjahresvergleich</CardTitle>
+        <CardDescription>
+          Nettoeinkommen nach Einkommensteuer, SVS und Ärztekammer pro Jahr
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={CHART_MARGIN.withLegend} accessibilityLayer>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--chart-grid, #e5e7eb)" className="[.dark_&]:stroke-neutral-700" />
+              <XAxis
+                dataKey="year"
+                stroke="var(--chart-axis, #6b7280)"
+                style={{ fontSize: '0.75rem' }}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                stroke="var(--chart-axis, #6b7280)"
+                style={{ fontSize: '0.75rem' }}
+                tickFormatter={formatAxisEuro}
+                tickLine={false}
+                axisLine={false}
+                width={45}
+              />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => formatEuro(value)} />
+              <Legend wrapperStyle={{ fontSize: '0.75rem' }} />
+              {projections.map((projection, index) => (
+                <Line
+                  key={projection.scenarioName}
+                  type="monotone"
+                  dataKey={projection.scenarioName}
+                  stroke={CHART_COLORS.category[index % CHART_COLORS.category.length]}
+                  strokeWidth={2.5}
+                  dot={{ r: 3, strokeWidth: 0, fill: CHART_COLORS.category[index % CHART_COLORS.category.length] }}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-4 border-t border-neutral-200 dark:border-neutral-700">
+          {projections.map((projection) => (
+            <div key={projection.scenarioName}>
+              <p className="text-xs text-neutral-600 dark:text-neutral-400 mb-1">
+                {projection.scenarioName} · {projection.years.length} Jahre
+              </p>
+              <p className="font-semibold text-green-600 dark:text-green-400">
+                {formatEuro(projection.totalNetIncome)}
+              </p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,19 +7,27 @@ import {
   TrendingDown,
   Download,
   Loader2,
+  Scale,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import type { ComprehensiveTaxResult } from '@/lib/types/tax-types'
+import type {
+  ComprehensiveTaxResult,
+  ExpenseMethodOption,
+  PauschalierungComparison,
+} from '@/lib/types/tax-types'
 import { formatEuro } from '@/lib/config/tax-config'
 import { generateReport, downloadReport } from '@/lib/services/tax-report-generator'
 
 interface TaxCalculationSummaryProps {
   result: ComprehensiveTaxResult
+  /** Actual expenses compared with the Pauschalierung variants */
+  pauschalierungComparison?: PauschalierungComparison | null
   onExport?: (format: 'pdf' | 'csv' | 'html') => void
 }
 
 export function TaxCalculationSummary({
   result,
+  pauschalierungComparison,
   onExport,
 }: TaxCalculationSummaryProps) {
   const [isExporting, setIsExporting] = useState(false)
@@ -245,7 +253,7 @@ export function TaxCalculationSummary({
               {result.gewinnfreibetrag > 0 && (
                 <div className="flex justify-between items-center p-3 bg-green-50 dark:bg-green-900/20 rounded-sm border border-green-200 dark:border-green-800">
                   <span className="text-sm text-green-900 dark:text-green-100">
-                    Gewinnfreibetrag (15%)
+                    Gewinnfreibetrag
                   </span>
                   <span className="text-sm font-semibold text-green-600 dark:text-green-400">
                     -{formatEuro(result.gewinnfreibetrag)}
@@ -299,6 +307,10 @@ export function TaxCalculationSummary({
         </CardContent>
       </Card>
 
+      {pauschalierungComparison && (
+        <PauschalierungComparisonCard comparison={pauschalierungComparison} />
+      )}
+
       {/* Tax Rates Info */}
       <Card>
         <CardHeader>
@@ -356,3 +368,133 @@ export function TaxCalculationSummary({
     </div>
   )
 }
+
+/** Lines of the Pauschalierung comparison; lower is better unless noted */
+const COMPARISON_LINES: {
+  label: string
+  value: (option: ExpenseMethodOption) => number
+  higherIsBetter?: boolean
+}[] = [
+  { label: 'Pauschale Betriebsausgaben', value: (o) => o.flatRateExpenses, higherIsBetter: true },
+  { label: 'Zusätzlich absetzbar (Löhne, Waren)', value: (o) => o.additionalExpenses, higherIsBetter: true },
+  { label: 'Abzugsfähige Betriebsausgaben', value: (o) => o.deductibleExpenses, higherIsBetter: true },
+  { label: 'Steuerlicher Gewinn', value: (o) => o.result?.selfEmploymentProfit ?? 0 },
+  { label: 'Sozialversicherung (SVS)', value: (o) => o.result?.selfEmployedSs ?? 0 },
+  { label: 'Ärztekammer', value: (o) => o.result?.aerztekammerBeitrag ?? 0 },
+  { label: 'Gewinnfreibetrag', value: (o) => o.result?.gewinnfreibetrag ?? 0, higherIsBetter: true },
+  { label: 'Einkommensteuer', value: (o) => o.result?.totalIncomeTax ?? 0 },
+  { label: 'Steuern und Abgaben gesamt', value: (o) => o.result?.totalDirectBurden ?? 0 },
+]
+
+/**
+ * Actual expenses next to each Pauschalierung variant, line by line with the
+ * difference to the actual expenses and the recommended method
+ */
+function PauschalierungComparisonCard({ comparison }: { comparison: PauschalierungComparison }) {
+  const [actual, ...flatRates] = comparison.options
+  const recommended = comparison.options.find((o) => o.method === comparison.recommended)!
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Scale className="h-5 w-5 text-accent-600 dark:text-accent-400" />
+          <div>
+            <CardTitle className="text-base">Pauschalierung oder tatsächliche Ausgaben</CardTitle>
+            <CardDescription>
+              Steuerbelastung mit E/A-Rechnung und mit jeder zulässigen Pauschalierung
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-neutral-600 dark:text-neutral-400">
+              <tr>
+                <th className="py-2 text-left font-medium" />
+                {comparison.options.map((option) => (
+                  <th
+                    key={option.method}
+                    className={`py-2 px-2 text-right font-medium ${
+                      option.method === comparison.recommended ? 'text-green-700 dark:text-green-400' : ''
+                    }`}
+                  >
+                    {option.label}
+                    {!option.eligible && option.revenueLimit !== undefined && (
+                      <div className="text-xs font-normal text-neutral-500">
+                        Umsatz über {formatEuro(option.revenueLimit)}
+                      </div>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+              {COMPARISON_LINES.map((line, index) => (
+                <tr
+                  key={line.label}
+                  className={index === COMPARISON_LINES.length - 1 ? 'font-semibold' : ''}
+                >
+                  <td className="py-2 pr-2">{line.label}</td>
+                  <td className="py-2 px-2 text-right whitespace-nowrap">{formatEuro(line.value(actual))}</td>
+                  {flatRates.map((option) => {
+                    if (!option.eligible) {
+                      return (
+                        <td key={option.method} className="py-2 px-2 text-right text-neutral-400">
+                          –
+                        </td>
+                      )
+                    }
+                    const difference = line.value(option) - line.value(actual)
+                    const isBetter = line.higherIsBetter ? difference > 0 : difference < 0
+                    return (
+                      <td key={option.method} className="py-2 px-2 text-right whitespace-nowrap">
+                        {formatEuro(line.value(option))}
+                        {Math.abs(difference) >= 1 && (
+                          <div
+                            className={`text-xs ${
+                              isBetter ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                            }`}
+                          >
+                            {difference > 0 ? '+' : '−'}
+                            {formatEuro(Math.abs(difference))}
+                          </div>
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div
+          className={`p-3 rounded-sm border text-sm ${
+            comparison.recommended === 'actual'
+              ? 'bg-neutral-50 dark:bg-neutral-800 border-neutral-200 dark:border-neutral-700'
+              : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-900 dark:text-green-100'
+          }`}
+        >
+          {comparison.recommended === 'actual' ? (
+            <>
+              <strong>Empfehlung: tatsächliche Ausgaben.</strong> Keine Pauschalierung senkt Ihre
+              Steuern und Abgaben.
+            </>
+          ) : (
+            <>
+              <strong>Empfehlung: {recommended.label}.</strong> Sie sparen{' '}
+              {formatEuro(comparison.savings)} an Steuern und Abgaben gegenüber der E/A-Rechnung mit
+              tatsächlichen Ausgaben.
+            </>
+          )}
+        </div>
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          Bei Pauschalierung steht nur der Grundfreibetrag zu. Neben der Kleinunternehmerpauschalierung
+          sind nur SVS-Beiträge absetzbar, neben der Basispauschalierung auch Löhne und Wareneinkauf.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -18,7 +18,7 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
-import { ChevronDown, Plus, Trash2, Calculator } from 'lucide-react'
+import { ChevronDown, Plus, Trash2, Calculator, Database } from 'lucide-react'
 import type {
   ComprehensiveTaxInput,
   EmploymentIncome,
@@ -26,9 +26,13 @@ import type {
   TaxDeductions,
   TaxCredits,
 } from '@/lib/types/tax-types'
+import type { TaxForecastPrefill } from '@/lib/actions/tax-forecast-prefill'
+import { useTaxForecastPrefill } from '@/hooks/useTaxForecastPrefill'
+import { LohnzettelCard } from '@/components/tax-forecast/lohnzettel-card'
 
 interface TaxInputFormProps {
-  onCalculate: (input: ComprehensiveTaxInput) => void
+  /** live: recalculation after the recorded data changed, not a submit */
+  onCalculate: (input: ComprehensiveTaxInput, options?: { live: boolean }) => void
   isLoading?: boolean
 }
 
@@ -40,6 +44,9 @@ interface TaxInputFormProps {
  * - Self-employment income with expenses
  * - Multiple deductions
  * - Tax credits
+ *
+ * Income is pre-filled from the recorded data of the tax year (results,
+ * plans, expenses and Lohnzettel) and recalculated live while it is linked.
  */
 export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormProps) {
   const [taxYear, setTaxYear] = useState<number>(new Date().getFullYear())
@@ -72,6 +79,28 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
     numberOfChildren: 0,
   })
 
+  // Recorded data of the tax year; manual edits of prefilled fields unlink it
+  const { prefill, isConnected, refetch: refetchPrefill } = useTaxForecastPrefill(taxYear)
+  const [linkedToRecords, setLinkedToRecords] = useState(true)
+  const hasCalculatedRef = useRef(false)
+  // Prefill last taken over; cleared on unlinking so relinking takes it over again
+  const takenOverPrefillRef = useRef<TaxForecastPrefill | null>(null)
+
+  const unlinkFromRecords = () => {
+    takenOverPrefillRef.current = null
+    setLinkedToRecords(false)
+  }
+
+  const editRecordedEmployment = (update: Partial<EmploymentIncome>) => {
+    unlinkFromRecords()
+    setEmployment({ ...employment, ...update })
+  }
+
+  const editRecordedSelfEmployment = (update: Partial<SelfEmploymentIncome>) => {
+    unlinkFromRecords()
+    setSelfEmployment({ ...selfEmployment, ...update })
+  }
+
   // Helper functions
   const handleInputChange = (field: string, value: string | number) => {
     const numValue = typeof value === 'string' ? parseFloat(value) || 0 : value
@@ -87,9 +116,52 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
       taxYear,
     }
 
+    hasCalculatedRef.current = true
     onCalculate(input)
   }, [employment, employmentEnabled, selfEmployment, selfEmploymentEnabled, deductions, credits, taxYear, onCalculate])
 
+  // Take over new recorded data once and recalculate an existing estimate
+  useEffect(() => {
+    if (!prefill || prefill.taxYear !== taxYear || !linkedToRecords) return
+    if (takenOverPrefillRef.current === prefill) return
+    takenOverPrefillRef.current = prefill
+
+    const hasPracticeData =
+      prefill.actualMonths + prefill.plannedMonths > 0 || prefill.selfEmployment.businessExpenses > 0
+    const nextSelfEmployment = hasPracticeData
+      ? { ...selfEmployment, ...prefill.selfEmployment }
+      : selfEmployment
+    const nextEmployment = prefill.employment
+      ? { homeOfficeDays: employment.homeOfficeDays, ...prefill.employment }
+      : employment
+    setSelfEmployment(nextSelfEmployment)
+    setEmployment(nextEmployment)
+
+    if (hasCalculatedRef.current) {
+      onCalculate(
+        {
+          employment: employmentEnabled ? nextEmployment : undefined,
+          selfEmployment: selfEmploymentEnabled ? nextSelfEmployment : undefined,
+          deductions,
+          credits,
+          taxYear,
+        },
+        { live: true }
+      )
+    }
+  }, [
+    prefill,
+    linkedToRecords,
+    taxYear,
+    employment,
+    employmentEnabled,
+    selfEmployment,
+    selfEmploymentEnabled,
+    deductions,
+    credits,
+    onCalculate,
+  ])
+
   return (
     <div className="space-y-6">
       {/* Year Selector */}
@@ -121,6 +193,30 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
 
         {/* EINKOMMEN TAB */}
         <TabsContent value="employment" className="space-y-4">
+          {/* Recorded data of the tax year */}
+          {prefill && (
+            <div className="flex items-start justify-between gap-3 p-3 rounded-sm bg-neutral-50 dark:bg-neutral-800">
+              <div className="flex gap-2">
+                <Database className="w-4 h-4 mt-0.5 text-neutral-500 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium">
+                    {linkedToRecords ? 'Aus Praxisdaten übernommen' : 'Manuell angepasst'}
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    {prefill.actualMonths} Monate Ist, {prefill.plannedMonths} Monate Plan
+                    {prefill.employers.length > 0 && ` · Lohnzettel: ${prefill.employers.join(', ')}`}
+                    {linkedToRecords && isConnected && ' · aktualisiert sich automatisch'}
+                  </p>
+                </div>
+              </div>
+              {!linkedToRecords && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setLinkedToRecords(true)}>
+                  Übernehmen
+                </Button>
+              )}
+            </div>
+          )}
+
           {/* Employment Income Section */}
           <Card>
             <CardHeader>
@@ -152,8 +248,7 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
                     placeholder="€60,000"
                     value={employment.grossSalary || ''}
                     onChange={(e) =>
-                      setEmployment({
-                        ...employment,
+                      editRecordedEmployment({
                         grossSalary: handleInputChange('grossSalary', e.target.value),
                       })
                     }
@@ -172,8 +267,7 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
                     placeholder="€0"
                     value={employment.specialPaymentsGross || ''}
                     onChange={(e) =>
-                      setEmployment({
-                        ...employment,
+                      editRecordedEmployment({
                         specialPaymentsGross: handleInputChange('specialPaymentsGross', e.target.value),
                       })
                     }
@@ -218,8 +312,7 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
                         placeholder="€0"
                         value={employment.wageTaxWithheld || ''}
                         onChange={(e) =>
-                          setEmployment({
-                            ...employment,
+                          editRecordedEmployment({
                             wageTaxWithheld: handleInputChange('wageTaxWithheld', e.target.value),
                           })
                         }
@@ -231,6 +324,8 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
             )}
           </Card>
 
+          {employmentEnabled && <LohnzettelCard taxYear={taxYear} onChange={refetchPrefill} />}
+
           {/* Self-Employment Income Section */}
           <Card>
             <CardHeader>
@@ -262,8 +357,7 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
                     placeholder="€45,000"
                     value={selfEmployment.totalRevenue || ''}
                     onChange={(e) =>
-                      setSelfEmployment({
-                        ...selfEmployment,
+                      editRecordedSelfEmployment({
                         totalRevenue: handleInputChange('totalRevenue', e.target.value),
                       })
                     }
@@ -282,8 +376,7 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
                     placeholder="€22,000"
                     value={selfEmployment.businessExpenses || ''}
                     onChange={(e) =>
-                      setSelfEmployment({
-                        ...selfEmployment,
+                      editRecordedSelfEmployment({
                         businessExpenses: handleInputChange('businessExpenses', e.target.value),
                       })
                     }
@@ -293,6 +386,26 @@ export function TaxInputForm({ onCalculate, isLoading = false }: TaxInputFormPro
                   </p>
                 </div>
 
+                {/* Expenses deductible next to the Basispauschalierung */}
+                <div className="space-y-2">
+                  <Label htmlFor="self-additional-expenses">Davon Löhne und Wareneinkauf</Label>
+                  <Input
+                    id="self-additional-expenses"
+                    type="number"
+                    placeholder="€0"
+                    value={selfEmployment.pauschalAdditionalExpenses || ''}
+                    onChange={(e) =>
+                      setSelfEmployment({
+                        ...selfEmployment,
+                        pauschalAdditionalExpenses: handleInputChange('pauschalAdditionalExpenses', e.target.value),
+                      })
+                    }
+                  />
+                  <p className="text-xs text-neutral-500">
+                    Neben der Basispauschalierung weiterhin absetzbar (Personal, Arztbedarf, Medikamente)
+                  </p>
+                </div>
+
                 {/* Quick Info */}
                 <div className="bg-primary-50 dark:bg-primary-900/20 p-3 rounded-sm border border-primary-200 dark:border-primary-800">
                   <p className="text-sm text-primary-800 dark:text-primary-200">
@@ -0,0 +1,95 @@
+'use client'
+
+import { useEffect, useState, useCallback, useRef } from 'react'
+import { createClient } from '@/utils/supabase/client'
+import { getTaxForecastPrefill, type TaxForecastPrefill } from '@/lib/actions/tax-forecast-prefill'
+
+/** Tables whose changes alter the Steuerprognose prefill */
+const PREFILL_TABLES = ['monthly_plans', 'sessions', 'expenses', 'lohnzettel'] as const
+
+/** Changes within this time reload the prefill once (e.g. an import writing many rows) */
+const REFETCH_DEBOUNCE_MS = 500
+
+interface UseTaxForecastPrefillReturn {
+  prefill: TaxForecastPrefill | null
+  isLoading: boolean
+  isConnected: boolean
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook for the Steuerprognose input of a tax year from the recorded data
+ * Reloads when monthly results, sessions, expenses or Lohnzettel of the user change
+ */
+export function useTaxForecastPrefill(taxYear: number): UseTaxForecastPrefillReturn {
+  const [prefill, setPrefill] = useState<TaxForecastPrefill | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isConnected, setIsConnected] = useState(false)
+
+  const supabaseRef = useRef(createClient())
+  // Only the latest request may set the prefill; earlier responses are stale
+  const requestIdRef = useRef(0)
+
+  const refetch = useCallback(async () => {
+    const requestId = ++requestIdRef.current
+    try {
+      setIsLoading(true)
+      const result = await getTaxForecastPrefill(taxYear)
+      if (requestId === requestIdRef.current) {
+        setPrefill(result)
+      }
+    } catch (err) {
+      console.error('[useTaxForecastPrefill] Failed to load prefill:', err)
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false)
+      }
+    }
+  }, [taxYear])
+
+  useEffect(() => {
+    refetch()
+
+    const supabase = supabaseRef.current
+    let cancelled = false
+    let channel: ReturnType<typeof supabase.channel> | null = null
+    let refetchTimeout: ReturnType<typeof setTimeout> | null = null
+
+    const scheduleRefetch = () => {
+      if (refetchTimeout) clearTimeout(refetchTimeout)
+      refetchTimeout = setTimeout(() => {
+        refetchTimeout = null
+        refetch()
+      }, REFETCH_DEBOUNCE_MS)
+    }
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (cancelled || !user) return
+
+      channel = PREFILL_TABLES.reduce(
+        (current, table) =>
+          current.on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table, filter: `user_id=eq.${user.id}` },
+            scheduleRefetch
+          ),
+        supabase.channel(`tax-prefill:${taxYear}`)
+      ).subscribe((status) => {
+        setIsConnected(status === 'SUBSCRIBED')
+      })
+    })
+
+    return () => {
+      cancelled = true
+      if (refetchTimeout) clearTimeout(refetchTimeout)
+      setIsConnected(false)
+      if (channel) {
+        supabase.removeChannel(channel).catch((err) => {
+          console.error('[useTaxForecastPrefill] Failed to unsubscribe:', err)
+        })
+      }
+    }
+  }, [taxYear, refetch])
+
+  return { prefill, isLoading, isConnected, refetch }
+}
@@ -0,0 +1,217 @@
+/**
+ * Invoice Parsing Test Suite
+ *
+ * Runs the parser over a corpus of Austrian supplier invoices (digital PDFs
+ * and OCR output) in fixtures/invoices and checks header data, VAT
+ * breakdown, line items and the split into expenses.
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { parseInvoiceText, splitInvoiceByCategory, type ParsedInvoice } from '../invoice-parsing'
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', 'invoices', `${name}.txt`), 'utf-8')
+
+const CORPUS: Array<{ fixture: string; expected: Partial<ParsedInvoice>; items: number }> = [
+  {
+    fixture: 'arztbedarf-mixed-vat',
+    expected: {
+      vendor_name: 'Medicare Medizinprodukte GmbH',
+      invoice_date: '2025-03-14',
+      amount: 164.37,
+      invoice_number: 'RE-2025-04711',
+      vendor_uid: 'ATU12345678',
+      iban: 'AT233400000001234567',
+      net_amount: 139.6,
+      vat_amount: 24.77,
+      vat_breakdown: [
+        { rate: 10, net: 31.5, vat: 3.15, gross: 34.65 },
+        { rate: 20, net: 108.1, vat: 21.62, gross: 129.72 },
+      ],
+      line_items_basis: 'net',
+    },
+    items: 5,
+  },
+  {
+    fixture: 'apotheke-kassabon',
+    expected: {
+      vendor_name: 'Mag. pharm. Eva Lechner KG',
+      invoice_date: '2025-02-03',
+      amount: 40.75,
+      invoice_number: '2025/0815',
+      vendor_uid: 'ATU23456789',
+      iban: null,
+      vat_breakdown: [
+        { rate: 10, net: 20.68, vat: 2.07, gross: 22.75 },
+        { rate: 20, net: 15, vat: 3, gross: 18 },
+      ],
+      line_items_basis: 'gross',
+    },
+    items: 4,
+  },
+  {
+    fixture: 'laborbedarf-zzgl-ust',
+    expected: {
+      vendor_name: 'LABOTECH Austria GmbH',
+      invoice_date: '2025-03-18',
+      amount: 267.6,
+      invoice_number: '250318',
+      vendor_uid: 'ATU56789012',
+      iban: 'AT242011182221219800',
+      vat_breakdown: [{ rate: 20, net: 223, vat: 44.6, gross: 267.6 }],
+      line_items_basis: 'net',
+    },
+    items: 3,
+  },
+  {
+    fixture: 'software-wartung',
+    expected: {
+      vendor_name: 'MedSoft Praxissysteme GmbH',
+      invoice_date: '2025-04-01',
+      amount: 226.8,
+      invoice_number: '9100234567',
+      vendor_uid: 'ATU36542701',
+      // Only the customer's account for the direct debit is printed
+      iban: null,
+      vat_breakdown: [{ rate: 20, net: 189, vat: 37.8, gross: 226.8 }],
+      line_items_basis: null,
+    },
+    items: 0,
+  },
+  {
+    fixture: 'moebel-ocr',
+    expected: {
+      vendor_name: 'ORDI-MÖBEL Handels GmbH',
+      invoice_date: '2025-05-22',
+      amount: 3000,
+      invoice_number: 'OM-3391',
+      vendor_uid: 'ATU45678123',
+      iban: 'AT871200052066543301',
+      vat_breakdown: [{ rate: 20, net: 2500, vat: 500, gross: 3000 }],
+      line_items_basis: 'net',
+    },
+    items: 3,
+  },
+]
+
+describe('parseInvoiceText', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe.each(CORPUS)('$fixture', ({ fixture: name, expected, items }) => {
+    it('should extract header data and the VAT breakdown', () => {
+      expect(parseInvoiceText(fixture(name))).toMatchObject(expected)
+    })
+
+    it(`should extract ${items} line items`, () => {
+      expect(parseInvoiceText(fixture(name)).line_items).toHaveLength(items)
+    })
+  })
+
+  it('should read description, quantity, prices and rate of positions', () => {
+    const invoice = parseInvoiceText(fixture('arztbedarf-mixed-vat'))
+
+    expect(invoice.line_items[0]).toEqual({
+      description: 'Nitril-Untersuchungshandschuhe M, 200 Stk',
+      quantity: 4,
+      unit_price: 12.9,
+      amount: 51.6,
+      vat_rate: 20,
+    })
+    expect(invoice.line_items[3]).toMatchObject({ description: 'Ibuprofen 400 mg, 30 Stk', quantity: 10, vat_rate: 10 })
+  })
+
+  it('should take quantities in front of the description and the only rate of the invoice', () => {
+    const receipt = parseInvoiceText(fixture('apotheke-kassabon'))
+    const labOrder = parseInvoiceText(fixture('laborbedarf-zzgl-ust'))
+
+    expect(receipt.line_items[0]).toEqual({
+      description: 'Paracetamol 500mg 20 St',
+      quantity: 2,
+      unit_price: null,
+      amount: 7.8,
+      vat_rate: null,
+    })
+    expect(labOrder.line_items[0]).toEqual({
+      description: 'Blutentnahmeröhrchen EDTA 2,7 ml',
+      quantity: 500,
+      unit_price: 0.18,
+      amount: 90,
+      vat_rate: 20,
+    })
+  })
+
+  it('should keep the simple fields for texts without totals', () => {
+    const invoice = parseInvoiceText('Taxi Huber\nFahrt Ordination 14.02.2025\nBetrag € 23,50')
+
+    expect(invoice).toMatchObject({ amount: 23.5, invoice_date: '2025-02-14', vat_breakdown: [], line_items: [] })
+  })
+})
+
+describe('splitInvoiceByCategory', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const fallback = { category: 'Medizinischer Bedarf', subcategory: null }
+
+  it('should split by VAT rate and add up to the invoice total', () => {
+    const splits = splitInvoiceByCategory(parseInvoiceText(fixture('arztbedarf-mixed-vat')), fallback)
+
+    expect(splits).toEqual([
+      expect.objectContaining({ category: 'Medizinischer Bedarf', vat_rate: 20, amount: 129.72 }),
+      expect.objectContaining({ category: 'Medizinischer Bedarf', vat_rate: 10, amount: 34.65 }),
+    ])
+  })
+
+  it('should keep positions without matching keywords in the invoice category', () => {
+    const splits = splitInvoiceByCategory(parseInvoiceText(fixture('moebel-ocr')), {
+      category: 'Ausstattung & Geräte',
+      subcategory: null,
+    })
+
+    expect(splits).toEqual([
+      {
+        category: 'Ausstattung & Geräte',
+        subcategory: null,
+        vat_rate: 20,
+        amount: 3000,
+        descriptions: ['Behandlungsliege elektrisch', 'Arbeitshocker mit Rollen', 'Lieferung und Montage'],
+      },
+    ])
+  })
+
+  it('should categorise positions by their description', () => {
+    const invoice = parseInvoiceText([
+      'Praxis & Büro Center GmbH',
+      'UID: ATU11223344',
+      'Rechnung Nr. 5521 vom 02.06.2025',
+      'Pos Bezeichnung Menge Preis Betrag',
+      '1 Flächendesinfektionsmittel 5 l 2 18,00 36,00',
+      '2 Drucker Tonerkassette schwarz 1 64,00 64,00',
+      'Summe netto 100,00',
+      'USt 20% 20,00',
+      'Gesamtbetrag EUR 120,00',
+    ].join('\n'))
+
+    expect(splitInvoiceByCategory(invoice, { category: 'Sonstige Betriebsausgaben', subcategory: null })).toEqual([
+      { category: 'Ausstattung & Geräte', subcategory: null, vat_rate: 20, amount: 76.8, descriptions: ['Drucker Tonerkassette schwarz'] },
+      { category: 'Medizinischer Bedarf', subcategory: null, vat_rate: 20, amount: 43.2, descriptions: ['Flächendesinfektionsmittel 5 l'] },
+    ])
+  })
+
+  it('should not split positions without a known rate', () => {
+    expect(splitInvoiceByCategory(parseInvoiceText(fixture('apotheke-kassabon')), fallback)).toBeNull()
+    expect(splitInvoiceByCategory(parseInvoiceText(fixture('software-wartung')), fallback)).toBeNull()
+  })
+})
@@ -0,0 +1,15 @@
+import { joinPdfTextItems } from '../ocr-utils'
+
+describe('joinPdfTextItems', () => {
+  it('should keep the line breaks of the PDF and collapse whitespace', () => {
+    const text = joinPdfTextItems([
+      { str: 'Netto 20 %', hasEOL: false },
+      { str: '  108,10', hasEOL: true },
+      { str: '', hasEOL: true },
+      { str: 'Rechnungsbetrag', hasEOL: false },
+      { str: 'EUR 164,37', hasEOL: false },
+    ])
+
+    expect(text).toBe('Netto 20 % 108,10\nRechnungsbetrag EUR 164,37')
+  })
+})
@@ -2,7 +2,12 @@
 
 import { createClient } from '@/utils/supabase/server'
 import type { TherapyType, BreakEvenAnalysis } from '@/lib/types'
-import { calculatePaymentFee, calculateNetRevenue, SUMUP_FEE_RATE } from '@/lib/calculations/payment-fees'
+import { calculatePaymentFees, SUMUP_FEE_RATE, type PaymentFeeSetting } from '@/lib/calculations/payment-fees'
+import { getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import { fetchTherapyPrices, getCurrentMonthStart, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { fetchPlannedFeeSetting } from '@/lib/supabase/payment-fees'
+import { fetchAssets, withoutAssetPurchases } from '@/lib/supabase/assets'
+import { getDepreciationForMonth } from '@/lib/calculations/core/depreciation-calculator'
 
 interface BreakEvenResult {
   therapy_type_id: string
@@ -35,11 +40,13 @@ interface TherapyTypeWithVariableCost extends TherapyType {
  * Get all therapy types with break-even calculations
  *
  * Break-even calculation now uses NET revenue (after SumUp payment fees):
- * - Payment fee: 1.39% of gross price
+ * - Payment fee: fee profiles weighted by the planned payment method shares (default 1.39%)
  * - Net revenue = gross price - payment fee
  * - Contribution margin = net revenue - variable costs
+ *
+ * @param month Month (YYYY-MM) whose effective prices are used, defaults to the current month
  */
-export async function getBreakEvenAnalysis(): Promise<BreakEvenAnalysis[]> {
+export async function getBreakEvenAnalysis(month?: string): Promise<BreakEvenAnalysis[]> {
   const supabase = await createClient()
 
   const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -51,7 +58,7 @@ export async function getBreakEvenAnalysis(): Promise<BreakEvenAnalysis[]> {
   // Fetch therapy types with variable_cost_per_session
   const { data, error } = await supabase
     .from('therapy_types')
-    .select('id, user_id, name, price_per_session, variable_cost_per_session, created_at, updated_at')
+    .select('id, user_id, name, price_per_session, payer_type, vat_rate, variable_cost_per_session, created_at, updated_at')
     .eq('user_id', user.id)
     .order('created_at', { ascending: true })
 
@@ -60,36 +67,52 @@ export async function getBreakEvenAnalysis(): Promise<BreakEvenAnalysis[]> {
     return []
   }
 
+  const prices = await fetchTherapyPrices(supabase, user.id)
+  const priceMonth = month || getCurrentMonthStart()
+  const feeSetting = await fetchPlannedFeeSetting(supabase, user.id, SUMUP_FEE_RATE * 100)
+
   // Calculate break-even metrics using NET revenue (after payment fees)
-  return (data || []).map((therapy: TherapyTypeWithVariableCost) => {
-    const grossPrice = therapy.price_per_session
-    const paymentFee = calculatePaymentFee(grossPrice)
-    const netRevenue = calculateNetRevenue(grossPrice)
-    const variableCost = therapy.variable_cost_per_session || 0
-
-    // Contribution margin = net revenue after fees - variable costs
-    const contributionMargin = netRevenue - variableCost
-
-    // Contribution margin percent based on gross price (for consistency)
-    const contributionMarginPercent = grossPrice > 0
-      ? (contributionMargin / grossPrice) * 100
-      : 0
+  return (data || []).map((therapy: TherapyTypeWithVariableCost) =>
+    toBreakEvenAnalysis(therapy, getPriceForMonth(getPriceSchedule(prices, therapy), priceMonth), feeSetting)
+  )
+}
 
-    return {
-      therapy_type_id: therapy.id,
-      therapy_type_name: therapy.name,
-      price_per_session: grossPrice,
-      payment_fee_per_session: paymentFee,
-      net_revenue_per_session: netRevenue,
-      variable_cost_per_session: variableCost,
-      contribution_margin: contributionMargin,
-      contribution_margin_percent: contributionMarginPercent
-    }
-  })
+/**
+ * Break-even metrics of a therapy type at a given gross price
+ */
+function toBreakEvenAnalysis(
+  therapy: TherapyTypeWithVariableCost,
+  grossPrice: number,
+  feeSetting: PaymentFeeSetting
+): BreakEvenAnalysis {
+  // One payment per session
+  const paymentFee = calculatePaymentFees(grossPrice, feeSetting, 1)
+  const netRevenue = grossPrice - paymentFee
+  const variableCost = therapy.variable_cost_per_session || 0
+
+  // Contribution margin = net revenue after fees - variable costs
+  const contributionMargin = netRevenue - variableCost
+
+  // Contribution margin percent based on gross price (for consistency)
+  const contributionMarginPercent = grossPrice > 0
+    ? (contributionMargin / grossPrice) * 100
+    : 0
+
+  return {
+    therapy_type_id: therapy.id,
+    therapy_type_name: therapy.name,
+    price_per_session: grossPrice,
+    payment_fee_per_session: paymentFee,
+    net_revenue_per_session: netRevenue,
+    variable_cost_per_session: variableCost,
+    contribution_margin: contributionMargin,
+    contribution_margin_percent: contributionMarginPercent
+  }
 }
 
 /**
  * Get expenses for a given month or all recurring expenses
+ * Purchases in the asset register count with their depreciation (AfA) instead
  */
 export async function getMonthlyExpenses(month?: string): Promise<number> {
   const supabase = await createClient()
@@ -103,7 +126,7 @@ export async function getMonthlyExpenses(month?: string): Promise<number> {
   // Get all expenses
   const { data, error } = await supabase
     .from('expenses')
-    .select('amount, is_recurring, recurrence_interval, expense_date')
+    .select('id, amount, is_recurring, recurrence_interval, expense_date')
     .eq('user_id', user.id)
 
   if (error) {
@@ -111,11 +134,12 @@ export async function getMonthlyExpenses(month?: string): Promise<number> {
     return 0
   }
 
-  let totalExpenses = 0
+  const assets = await fetchAssets(supabase, user.id)
   const targetMonth = month || new Date().toISOString().slice(0, 7) // YYYY-MM
+  let totalExpenses = assets.reduce((sum, asset) => sum + getDepreciationForMonth(asset, targetMonth), 0)
 
   // Calculate expenses for the month
-  for (const expense of data || []) {
+  for (const expense of withoutAssetPurchases(data || [], assets)) {
     if (expense.is_recurring) {
       // For recurring expenses, we need to determine if they apply to this month
       const expenseMonth = new Date(expense.expense_date)
@@ -288,7 +312,7 @@ export async function calculateBreakEvenSummary(
  * Get comprehensive break-even report
  */
 export async function getBreakEvenReport(month?: string) {
-  const therapies = await getBreakEvenAnalysis()
+  const therapies = await getBreakEvenAnalysis(month)
   const monthlyExpenses = await getMonthlyExpenses(month)
   const sessionsByTherapy = await getAverageSessionsPerTherapy(month)
 
@@ -361,15 +385,15 @@ export async function getBreakEvenHistory(
     months.push(monthStr)
   }
 
-  // Get all therapies
-  const therapies = await getBreakEvenAnalysis()
-
   // Calculate history for each month
   const history = []
 
   for (const month of months) {
     const monthDate = `${month}-01`
 
+    // Therapies valued at the prices valid in that month
+    const therapies = await getBreakEvenAnalysis(month)
+
     // Get monthly plans for this month
     const { data: plans, error: plansError } = await supabase
       .from('monthly_plans')
@@ -0,0 +1,124 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { AssetSchema, type AssetInput } from '@/lib/validations'
+import type { Asset } from '@/lib/types'
+import { fetchAssets } from '@/lib/supabase/assets'
+
+/**
+ * Get the asset register of the current user
+ */
+export async function getAssets(): Promise<Asset[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  return fetchAssets(supabase, user.id)
+}
+
+/**
+ * Create or update an asset
+ * A linked purchase expense must belong to the user and is then depreciated
+ * instead of counting in full
+ */
+export async function saveAsset(input: AssetInput, id?: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = AssetSchema.parse(input)
+
+    if (validated.expense_id) {
+      const { data: expense } = await supabase
+        .from('expenses')
+        .select('id')
+        .eq('id', validated.expense_id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (!expense) {
+        return { error: 'Ausgabe nicht gefunden oder keine Berechtigung' }
+      }
+    }
+
+    const values = {
+      name: validated.name,
+      subcategory: validated.subcategory,
+      acquisition_date: validated.acquisition_date,
+      acquisition_cost: validated.acquisition_cost,
+      useful_life_years: validated.useful_life_years,
+      disposal_date: validated.disposal_date || null,
+      expense_id: validated.expense_id || null
+    }
+
+    const { data, error } = id
+      ? await supabase
+          .from('assets')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .select()
+          .single()
+      : await supabase
+          .from('assets')
+          .insert({ ...values, user_id: user.id })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      if (error.code === '23505') {
+        return { error: 'Diese Ausgabe ist bereits einem Anlagegut zugeordnet' }
+      }
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard')
+    revalidatePath('/dashboard/ausgaben')
+    revalidatePath('/dashboard/berichte')
+
+    return { success: true, data: data as Asset }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete an asset
+ * A linked purchase expense counts in full again
+ */
+export async function deleteAsset(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('assets')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/dashboard/ausgaben')
+  revalidatePath('/dashboard/berichte')
+
+  return { success: true }
+}
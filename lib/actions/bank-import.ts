@@ -0,0 +1,374 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { BankImportLineSchema, type BankImportLineInput } from '@/lib/validations'
+import type { BankStatementFormat, BankTransaction, BankTransactionStatus } from '@/lib/types'
+import { parseBankStatement } from '@/lib/utils/bank-statement'
+import { fetchCategorizationContext, learnVendorRule } from '@/lib/supabase/expense-categorization'
+import {
+  getPayeeKey,
+  proposeBankMatches,
+  type BankLineFlag,
+  type BankLineProposal
+} from '@/lib/utils/bank-matching'
+import { allocatePayment } from '@/lib/utils/receivables'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/** Fingerprints per request; the filter is part of the request URL */
+const FINGERPRINT_CHUNK_SIZE = 100
+
+export interface BankStatementPreview {
+  format: BankStatementFormat
+  proposals: BankLineProposal[]
+  /** Lines skipped because they were imported before */
+  duplicates: number
+  errors: string[]
+}
+
+export interface FlaggedBankTransaction extends BankTransaction {
+  flag: BankLineFlag
+}
+
+/**
+ * Fingerprints of the given lines that were imported before
+ */
+async function fetchImportedFingerprints(
+  supabase: SupabaseClient,
+  userId: string,
+  fingerprints: string[]
+): Promise<{ data: Set<string>; error: { message: string } | null }> {
+  const imported = new Set<string>()
+
+  for (let i = 0; i < fingerprints.length; i += FINGERPRINT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('bank_transactions')
+      .select('fingerprint')
+      .eq('user_id', userId)
+      .in('fingerprint', fingerprints.slice(i, i + FINGERPRINT_CHUNK_SIZE))
+
+    if (error) {
+      return { data: imported, error }
+    }
+    for (const row of data || []) {
+      imported.add(row.fingerprint)
+    }
+  }
+
+  return { data: imported, error: null }
+}
+
+/**
+ * Parse a bank statement and propose expenses, expense links and invoice payments
+ * Lines that were imported before are skipped
+ */
+export async function previewBankStatement(
+  content: string,
+  fileName?: string
+): Promise<BankStatementPreview | { error: string }> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const parsed = parseBankStatement(content, fileName)
+  if (parsed.transactions.length === 0) {
+    return { error: parsed.errors[0] || 'Keine Buchungen gefunden' }
+  }
+
+  const [existingResult, categorization, expensesResult, documentsResult, invoicesResult] = await Promise.all([
+    fetchImportedFingerprints(supabase, user.id, parsed.transactions.map(t => t.fingerprint)),
+    fetchCategorizationContext(supabase, user.id),
+    supabase
+      .from('expenses')
+      .select('id, amount, expense_date, is_recurring, recurrence_interval')
+      .eq('user_id', user.id),
+    supabase
+      .from('expense_documents')
+      .select('expense_id')
+      .eq('user_id', user.id),
+    supabase
+      .from('sessions')
+      .select('invoice_number')
+      .eq('user_id', user.id)
+      .neq('payment_status', 'bezahlt')
+      .not('invoice_number', 'is', null)
+  ])
+
+  if (existingResult.error || expensesResult.error) {
+    console.error('[previewBankStatement] Error fetching data:', existingResult.error || expensesResult.error)
+    return { error: 'Fehler beim Laden der Vergleichsdaten' }
+  }
+
+  const existing = existingResult.data
+  const withReceipt = new Set((documentsResult.data || []).map(doc => doc.expense_id))
+  const transactions = parsed.transactions.filter(t => !existing.has(t.fingerprint))
+
+  const proposals = proposeBankMatches(transactions, {
+    categorization,
+    expenses: (expensesResult.data || []).map(expense => ({
+      ...expense,
+      amount: Number(expense.amount),
+      has_receipt: withReceipt.has(expense.id)
+    })),
+    invoiceNumbers: [...new Set((invoicesResult.data || []).map(row => row.invoice_number as string))]
+  })
+
+  return {
+    format: parsed.format,
+    proposals,
+    duplicates: parsed.transactions.length - transactions.length,
+    errors: parsed.errors
+  }
+}
+
+/**
+ * Save confirmed bank lines
+ * Creates the proposed expenses, learns vendor rules and books incoming
+ * transfers as payments of the referenced invoices
+ *
+ * The bank lines are stored first and only lines stored by this call are
+ * processed, so a repeated submit or a retry after an error never creates an
+ * expense or books a payment twice. A line whose processing failed stays
+ * "offen" and shows up among the flagged bank lines.
+ */
+export async function importBankTransactionsAction(
+  format: BankStatementFormat,
+  lines: BankImportLineInput[]
+) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = lines.map(line => BankImportLineSchema.parse(line))
+    let expensesCreated = 0
+    let invoicesPaid = 0
+    // Lines left "offen" because creating the expense or booking the payment failed
+    let failed = 0
+
+    if (validated.length === 0) {
+      return { success: true, imported: 0, expensesCreated, invoicesPaid, failed }
+    }
+
+    // Claim the lines; lines imported before are left out of the returned rows
+    const { data: claimed, error: claimError } = await supabase
+      .from('bank_transactions')
+      .upsert(
+        validated.map(line => {
+          const status: BankTransactionStatus = line.ignore ? 'ignoriert' : 'offen'
+          return { user_id: user.id, ...line.transaction, source_format: format, status }
+        }),
+        { onConflict: 'user_id,fingerprint', ignoreDuplicates: true }
+      )
+      .select('id, fingerprint')
+
+    if (claimError) {
+      console.error('[importBankTransactionsAction] Database error:', JSON.stringify(claimError, null, 2))
+      return { error: `Fehler: ${claimError.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    const claimedIds = new Map((claimed || []).map(row => [row.fingerprint, row.id]))
+
+    for (const line of validated) {
+      const { transaction } = line
+      const bankTransactionId = claimedIds.get(transaction.fingerprint)
+      if (!bankTransactionId || line.ignore) continue
+
+      let expenseId = line.expense_id
+      let invoiceNumber: string | null = null
+
+      if (!expenseId && line.new_expense && transaction.amount < 0) {
+        const description = [transaction.counterparty_name, transaction.reference].filter(Boolean).join(': ')
+        const { data: expense, error } = await supabase
+          .from('expenses')
+          .insert({
+            user_id: user.id,
+            category: line.new_expense.category,
+            subcategory: line.new_expense.subcategory,
+            amount: Math.abs(transaction.amount),
+            expense_date: transaction.booking_date,
+            is_recurring: !!line.new_expense.recurrence_interval,
+            recurrence_interval: line.new_expense.recurrence_interval,
+            description: description.slice(0, 500) || null,
+            spread_monthly: false
+          })
+          .select('id')
+          .single()
+
+        if (error) {
+          console.error('[importBankTransactionsAction] Error creating expense:', JSON.stringify(error, null, 2))
+          failed++
+          continue
+        }
+        expenseId = expense.id
+        expensesCreated++
+
+        if (line.learn_rule) {
+          await learnVendorRule(supabase, user.id, getPayeeKey(transaction), line.new_expense)
+        }
+      }
+
+      if (line.invoice_numbers.length > 0 && transaction.amount > 0) {
+        const { data: openRows, error } = await supabase
+          .from('sessions')
+          .select('id, gross_amount, paid_amount')
+          .eq('user_id', user.id)
+          .in('invoice_number', line.invoice_numbers)
+          .neq('payment_status', 'bezahlt')
+          .order('session_date', { ascending: true })
+
+        if (error) {
+          console.error('[importBankTransactionsAction] Error fetching invoices:', error)
+          failed++
+          continue
+        }
+
+        let bookingError = false
+        for (const row of allocatePayment(openRows || [], transaction.amount)) {
+          const { error: updateError } = await supabase
+            .from('sessions')
+            .update({
+              paid_amount: row.paid_amount,
+              payment_status: row.payment_status,
+              paid_date: row.paid_amount > 0 ? transaction.booking_date : null,
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', row.id)
+            .eq('user_id', user.id)
+
+          if (updateError) {
+            console.error('[importBankTransactionsAction] Error booking payment:', updateError)
+            bookingError = true
+            break
+          }
+        }
+        if (bookingError) {
+          failed++
+          continue
+        }
+        if ((openRows || []).length > 0) {
+          invoiceNumber = line.invoice_numbers.join(', ')
+          invoicesPaid += line.invoice_numbers.length
+        }
+      }
+
+      if (!expenseId && !invoiceNumber) continue
+
+      const { error: linkError } = await supabase
+        .from('bank_transactions')
+        .update({
+          expense_id: expenseId,
+          invoice_number: invoiceNumber,
+          status: 'zugeordnet',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', bankTransactionId)
+        .eq('user_id', user.id)
+
+      if (linkError) {
+        console.error('[importBankTransactionsAction] Database error:', JSON.stringify(linkError, null, 2))
+        failed++
+      }
+    }
+
+    revalidatePath('/dashboard/ausgaben')
+    revalidatePath('/dashboard/ergebnisse')
+    revalidatePath('/dashboard/berichte')
+    revalidatePath('/dashboard')
+
+    return { success: true, imported: claimedIds.size, expensesCreated, invoicesPaid, failed }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Imported bank lines that still need attention: no expense or invoice
+ * linked yet, or the linked expense has no receipt
+ */
+export async function getFlaggedBankTransactions(): Promise<FlaggedBankTransaction[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const [openResult, linkedResult, documentsResult] = await Promise.all([
+    supabase
+      .from('bank_transactions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'offen')
+      .order('booking_date', { ascending: false }),
+    supabase
+      .from('bank_transactions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'zugeordnet')
+      .not('expense_id', 'is', null)
+      .order('booking_date', { ascending: false }),
+    supabase
+      .from('expense_documents')
+      .select('expense_id')
+      .eq('user_id', user.id)
+  ])
+
+  if (openResult.error || linkedResult.error) {
+    console.error('[getFlaggedBankTransactions] Error fetching bank lines:', openResult.error || linkedResult.error)
+    return []
+  }
+
+  const withReceipt = new Set((documentsResult.data || []).map(doc => doc.expense_id))
+  const toFlagged = (row: BankTransaction, flag: BankLineFlag): FlaggedBankTransaction => ({
+    ...row,
+    amount: Number(row.amount),
+    flag
+  })
+
+  return [
+    ...(openResult.data || []).map(row =>
+      toFlagged(row, Number(row.amount) < 0 ? 'missing_expense' : 'unmatched_income')
+    ),
+    ...(linkedResult.data || [])
+      .filter(row => !withReceipt.has(row.expense_id))
+      .map(row => toFlagged(row, 'missing_receipt'))
+  ].sort((a, b) => b.booking_date.localeCompare(a.booking_date))
+}
+
+/**
+ * Mark a bank line as handled without an expense (e.g. private withdrawal)
+ */
+export async function ignoreBankTransactionAction(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('bank_transactions')
+    .update({ status: 'ignoriert', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    console.error('[ignoreBankTransactionAction] Database error:', error)
+    return { error: `Fehler: ${error.message || 'Aktualisieren fehlgeschlagen'}` }
+  }
+
+  revalidatePath('/dashboard/ausgaben')
+
+  return { success: true }
+}
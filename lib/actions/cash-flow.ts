@@ -0,0 +1,360 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { CashFlowSettingsSchema, type CashFlowSettingsInput } from '@/lib/validations'
+import type { PayerType, VatRate } from '@/lib/types'
+import {
+  AERZTEKAMMER_DUE_DATES,
+  INCOME_TAX_DUE_DATES,
+  SVS_DUE_DATES,
+  calculateMonthlyPaymentFees,
+  calculatePaymentFees,
+  calculateSessionRevenue,
+  createPaymentFeeModel,
+  estimateVatPayable,
+  getProvisionalQuarterlyContribution,
+  getRecurringDueDates,
+  projectCashFlow,
+  quarterKey,
+  scheduleExpenses,
+  scheduleQuarterlyPayments,
+  scheduleReceivables,
+  scheduleRevenue,
+  toVatExpenseFields,
+  type CashFlowProjection,
+  type PaymentFeeSetting
+} from '@/lib/calculations'
+import { calculateAustrianTax } from '@/lib/utils/austrian-tax'
+import { getPayerGroup } from '@/lib/utils/payer-types'
+import { buildReceivables } from '@/lib/utils/receivables'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { fetchPaymentFeeProfiles } from '@/lib/supabase/payment-fees'
+import { fetchAllRows, getMonthRange } from '@/lib/supabase/session-ledger'
+
+export interface CashFlowForecast {
+  projection: CashFlowProjection
+  settings: CashFlowSettingsInput
+  /**
+   * Prepayments of the next 12 months, scheduled quarterly: recorded income-tax
+   * prepayments and SVS provisional bases where available, the estimate otherwise
+   */
+  prepayments: { svs: number; incomeTax: number; aerztekammer: number }
+  /** Share of revenue paid at the time of treatment (0-1) */
+  immediateShare: number
+  /** Months without planned sessions, valued at the average planned revenue */
+  estimatedMonths: string[]
+}
+
+/**
+ * Project the bank balance for the next 12-24 months
+ *
+ * Starts from the opening bank balance in the practice settings and schedules
+ * planned revenue (net of payment fees, collected with a delay), expenses on their
+ * due dates, open receivables and quarterly SVS, income-tax and Ärztekammer prepayments
+ */
+export async function getCashFlowForecast(months: number = 12): Promise<CashFlowForecast | null> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  const horizon = Math.min(24, Math.max(1, Math.round(months)))
+  const today = new Date().toISOString().split('T')[0]
+  const monthKeys = Array.from({ length: horizon }, (_, i) => {
+    const date = new Date(Number(today.slice(0, 4)), Number(today.slice(5, 7)) - 1 + i, 1)
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+  })
+  const endDate = getMonthRange(monthKeys[monthKeys.length - 1]).end
+
+  const [settingsResult, therapiesResult, plansResult, expensesResult, openSessionsResult] = await Promise.all([
+    supabase
+      .from('practice_settings')
+      .select('practice_type, payment_processing_fee_percentage, opening_bank_balance, minimum_bank_balance, receivable_collection_days, vat_kleinunternehmer')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    supabase
+      .from('therapy_types')
+      .select('id, price_per_session, payer_type, vat_rate')
+      .eq('user_id', user.id),
+    supabase
+      .from('monthly_plans')
+      .select('therapy_type_id, month, planned_sessions')
+      .eq('user_id', user.id)
+      .gte('month', `${monthKeys[0]}-01`)
+      .lt('month', endDate),
+    supabase
+      .from('expenses')
+      .select('amount, expense_date, is_recurring, recurrence_interval, category, description, vat_rate, vat_allocation, vat_breakdown')
+      .eq('user_id', user.id),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('id, therapy_type_id, session_date, gross_amount, paid_amount, payment_status, invoice_number, dunning_level, last_dunning_date')
+        .eq('user_id', user.id)
+        .neq('payment_status', 'bezahlt')
+        .order('id')
+        .range(from, to)
+    )
+  ])
+
+  if (therapiesResult.error || plansResult.error || expensesResult.error) {
+    console.error(
+      '[getCashFlowForecast] Error fetching data:',
+      therapiesResult.error || plansResult.error || expensesResult.error
+    )
+    return null
+  }
+
+  const settings = settingsResult.data
+  const cashFlowSettings: CashFlowSettingsInput = {
+    opening_bank_balance: Number(settings?.opening_bank_balance ?? 0),
+    minimum_bank_balance: Number(settings?.minimum_bank_balance ?? 0),
+    receivable_collection_days: Number(settings?.receivable_collection_days ?? 14)
+  }
+  const practiceType = (settings?.practice_type as 'kassenarzt' | 'wahlarzt' | 'mixed') || 'wahlarzt'
+
+  // Prepayments set by the Finanzamt and provisional SVS bases of the forecast years (at most 24 months)
+  const [taxPrepaymentsResult, svsAssessmentsResult] = await Promise.all([
+    supabase
+      .from('tax_prepayments')
+      .select('year, quarter, assessed_amount, paid_amount')
+      .eq('user_id', user.id)
+      .gte('year', Number(today.slice(0, 4)))
+      .lte('year', Number(today.slice(0, 4)) + 2),
+    supabase
+      .from('svs_assessments')
+      .select('year, profit, profit_assessed, provisional_monthly_base, settled')
+      .eq('user_id', user.id)
+      .gte('year', Number(today.slice(0, 4)))
+      .lte('year', Number(today.slice(0, 4)) + 2)
+  ])
+
+  if (taxPrepaymentsResult.error || svsAssessmentsResult.error) {
+    console.error(
+      '[getCashFlowForecast] Error fetching prepayments:',
+      taxPrepaymentsResult.error || svsAssessmentsResult.error
+    )
+  }
+
+  // Outstanding part of the recorded quarters
+  const recordedIncomeTax = new Map(
+    (taxPrepaymentsResult.data || []).map(p => [
+      quarterKey(p.year, p.quarter),
+      Math.max(0, Number(p.assessed_amount) - Number(p.paid_amount))
+    ])
+  )
+  const recordedSvs = new Map<string, number>()
+  for (const assessment of svsAssessmentsResult.data || []) {
+    const quarterly = getProvisionalQuarterlyContribution({
+      ...assessment,
+      profit: assessment.profit === null ? null : Number(assessment.profit),
+      provisional_monthly_base: assessment.provisional_monthly_base === null ? null : Number(assessment.provisional_monthly_base)
+    })
+    if (quarterly === null) continue
+    for (let quarter = 1; quarter <= 4; quarter++) {
+      recordedSvs.set(quarterKey(assessment.year, quarter), quarterly)
+    }
+  }
+
+  const prices = await fetchTherapyPrices(supabase, user.id)
+  const feeProfiles = await fetchPaymentFeeProfiles(supabase, user.id)
+  const paymentFees: PaymentFeeSetting = feeProfiles.length === 0
+    ? settings?.payment_processing_fee_percentage ?? 1.39
+    : createPaymentFeeModel(feeProfiles)
+
+  // Planned revenue per month, split into Kasse and Privat, and in total per VAT rate
+  const therapies = therapiesResult.data || []
+  const plannedByMonth = new Map<string, { revenue: number; sessions: number; privat: number }>()
+  const plannedByVatRate = new Map<VatRate, number>()
+  for (const plan of plansResult.data || []) {
+    const therapy = therapies.find(t => t.id === plan.therapy_type_id)
+    if (!therapy || !plan.planned_sessions) continue
+
+    const month = String(plan.month).slice(0, 7)
+    const { revenue } = calculateSessionRevenue(plan.planned_sessions, getPriceSchedule(prices, therapy), month)
+    const entry = plannedByMonth.get(month) ?? { revenue: 0, sessions: 0, privat: 0 }
+    entry.revenue += revenue
+    entry.sessions += plan.planned_sessions
+    if (getPayerGroup(therapy.payer_type as PayerType) === 'privat') entry.privat += revenue
+    plannedByMonth.set(month, entry)
+    const vatRate = Number(therapy.vat_rate ?? 0) as VatRate
+    plannedByVatRate.set(vatRate, (plannedByVatRate.get(vatRate) ?? 0) + revenue)
+  }
+
+  // Months without a plan are valued at the average planned month
+  const plannedMonths = [...plannedByMonth.values()]
+  const average = plannedMonths.length > 0
+    ? {
+        revenue: plannedMonths.reduce((sum, m) => sum + m.revenue, 0) / plannedMonths.length,
+        sessions: plannedMonths.reduce((sum, m) => sum + m.sessions, 0) / plannedMonths.length,
+        privat: plannedMonths.reduce((sum, m) => sum + m.privat, 0) / plannedMonths.length
+      }
+    : { revenue: 0, sessions: 0, privat: 0 }
+  const estimatedMonths = monthKeys.filter(m => !plannedByMonth.has(m) && average.revenue > 0)
+
+  // The current month only counts from today
+  const [year, month] = today.split('-').map(Number)
+  const daysInCurrentMonth = new Date(year, month, 0).getDate()
+  const remainingShare = (daysInCurrentMonth - Number(today.slice(8, 10)) + 1) / daysInCurrentMonth
+
+  const monthlyRevenue = monthKeys.map((key, i) => {
+    const planned = plannedByMonth.get(key) ?? average
+    const share = i === 0 ? remainingShare : 1
+    const gross = planned.revenue * share
+    const sessions = planned.sessions * share
+    const net = gross - calculatePaymentFees(gross, paymentFees, sessions) - calculateMonthlyPaymentFees(paymentFees)
+    return { month: key, amount: net, gross, privat: planned.privat * share }
+  })
+
+  // Private patients pay at the treatment unless they pay by transfer; Kasse revenue arrives later
+  const totalGross = monthlyRevenue.reduce((sum, m) => sum + m.gross, 0)
+  const privateShare = totalGross > 0 ? monthlyRevenue.reduce((sum, m) => sum + m.privat, 0) / totalGross : 1
+  const transferShare = feeProfiles.length > 0
+    ? (feeProfiles.find(p => p.payment_method === 'ueberweisung')?.planned_share ?? 0) /
+      Math.max(1, feeProfiles.reduce((sum, p) => sum + p.planned_share, 0))
+    : 0
+  const immediateShare = privateShare * (1 - transferShare)
+
+  const items = [
+    ...scheduleRevenue(
+      monthlyRevenue,
+      { immediateShare, delayDays: cashFlowSettings.receivable_collection_days },
+      today
+    ),
+    ...scheduleReceivables(
+      buildReceivables(
+        (openSessionsResult.data || []).map(s => ({
+          ...s,
+          gross_amount: Number(s.gross_amount),
+          paid_amount: Number(s.paid_amount)
+        })),
+        today
+      ),
+      cashFlowSettings.receivable_collection_days,
+      today
+    ),
+    ...scheduleExpenses(
+      (expensesResult.data || []).map(e => ({ ...e, amount: Number(e.amount) })),
+      today,
+      endDate
+    )
+  ]
+
+  // Annual tax and contribution estimate from the next 12 months
+  const yearRevenue = monthlyRevenue.slice(0, 12)
+  const annualFactor = 12 / Math.max(1, yearRevenue.length - 1 + remainingShare)
+  const annualNetRevenue = yearRevenue.reduce((sum, m) => sum + m.amount, 0) * annualFactor
+  const oneYearLater = getMonthRange(monthKeys[Math.min(11, monthKeys.length - 1)]).end
+  const annualExpenses = items
+    .filter(item => item.category === 'expense' && item.date < oneYearLater)
+    .reduce((sum, item) => sum - item.amount, 0) * annualFactor
+
+  // VAT payable on the planned revenue mix and the expenses of the next 12 months
+  const annualGrossRevenue = yearRevenue.reduce((sum, m) => sum + m.gross, 0) * annualFactor
+  const plannedTotal = [...plannedByVatRate.values()].reduce((sum, revenue) => sum + revenue, 0)
+  const vatPayable = estimateVatPayable({
+    year: Number(today.slice(0, 4)),
+    revenues: [...plannedByVatRate].map(([vat_rate, revenue]) => ({
+      amount: plannedTotal > 0 ? annualGrossRevenue * (revenue / plannedTotal) : 0,
+      vat_rate
+    })),
+    expenses: (expensesResult.data || []).map(e => ({
+      amount: Number(e.amount),
+      occurrences: getRecurringDueDates(
+        e.expense_date,
+        e.is_recurring ? e.recurrence_interval || 'monthly' : null,
+        today,
+        oneYearLater
+      ).length * annualFactor,
+      ...toVatExpenseFields(e)
+    })),
+    kleinunternehmer: settings?.vat_kleinunternehmer ?? true
+  })
+
+  const taxResult = calculateAustrianTax({
+    grossRevenue: annualNetRevenue,
+    totalExpenses: annualExpenses,
+    practiceType,
+    vatPayable,
+    applyingPauschalierung: false,
+    monthsInPeriod: 12
+  })
+
+  const schedulePrepayments = (to: string) => [
+    ...scheduleQuarterlyPayments(taxResult.svBeitraege, SVS_DUE_DATES, 'svs', 'SVS-Vorschreibung', today, to, recordedSvs),
+    ...scheduleQuarterlyPayments(
+      taxResult.incomeTax, INCOME_TAX_DUE_DATES, 'income_tax', 'ESt-Vorauszahlung', today, to, recordedIncomeTax
+    ),
+    ...scheduleQuarterlyPayments(taxResult.aerztekammerBeitrag, AERZTEKAMMER_DUE_DATES, 'aerztekammer', 'Ärztekammer', today, to)
+  ]
+  items.push(...schedulePrepayments(endDate))
+
+  // Annual prepayments shown next to the projection, independent of its horizon
+  const nextYear = new Date(Number(today.slice(0, 4)), Number(today.slice(5, 7)) + 11, 1)
+  const annualPrepaymentItems = schedulePrepayments(
+    `${nextYear.getFullYear()}-${String(nextYear.getMonth() + 1).padStart(2, '0')}-01`
+  )
+  const sumPrepayments = (category: string) => annualPrepaymentItems
+    .filter(item => item.category === category)
+    .reduce((sum, item) => sum - item.amount, 0)
+  const prepayments = {
+    svs: sumPrepayments('svs'),
+    incomeTax: sumPrepayments('income_tax'),
+    aerztekammer: sumPrepayments('aerztekammer')
+  }
+
+  return {
+    projection: projectCashFlow({
+      openingBalance: cashFlowSettings.opening_bank_balance,
+      minimumBalance: cashFlowSettings.minimum_bank_balance,
+      startDate: today,
+      months: horizon,
+      items
+    }),
+    settings: cashFlowSettings,
+    prepayments,
+    immediateShare,
+    estimatedMonths
+  }
+}
+
+/**
+ * Save opening balance, minimum balance and collection delay for the cash-flow forecast
+ */
+export async function saveCashFlowSettingsAction(input: CashFlowSettingsInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = CashFlowSettingsSchema.parse(input)
+
+    const { error } = await supabase
+      .from('practice_settings')
+      .update({
+        ...validated,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('[saveCashFlowSettingsAction] Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/berichte')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
@@ -1,6 +1,8 @@
 'use server'
 
 import { createClient } from '@/utils/supabase/server'
+import { aggregateSessionLedger, ledgerKey, resolveActualRevenue } from '@/lib/utils/session-ledger'
+import { fetchAllRows } from '@/lib/supabase/session-ledger'
 
 export interface CohortCell {
   value: number
@@ -19,6 +21,7 @@ export interface CohortData {
 
 /**
  * Calculate cohort analysis for therapies over months
+ * Revenue and margin use the session ledger where invoices exist
  */
 export async function getCohortAnalysis(
   year: number,
@@ -67,8 +70,22 @@ export async function getCohortAnalysis(
       .from('expenses')
       .select('*')
       .eq('user_id', user.id)
-      .gte('month', `${year}-01-01`)
-      .lte('month', `${year}-12-31`)
+      .gte('expense_date', `${year}-01-01`)
+      .lte('expense_date', `${year}-12-31`)
+
+    // Fetch the session ledger for the year
+    const { data: ledger } = await fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('therapy_type_id, session_date, gross_amount')
+        .eq('user_id', user.id)
+        .gte('session_date', `${year}-01-01`)
+        .lte('session_date', `${year}-12-31`)
+        .order('id')
+        .range(from, to)
+    )
+
+    const ledgerAggregates = aggregateSessionLedger(ledger)
 
     if (!plans || !expenses) {
       return null
@@ -96,7 +113,7 @@ export async function getCohortAnalysis(
     // Group expenses by month
     const expensesByMonth = new Map<string, typeof expenses>()
     expenses.forEach(exp => {
-      const month = exp.month.substring(0, 7)
+      const month = exp.expense_date.substring(0, 7)
       if (!expensesByMonth.has(month)) {
         expensesByMonth.set(month, [])
       }
@@ -116,10 +133,11 @@ export async function getCohortAnalysis(
         const relevantPlans = monthPlans.filter(
           p => p.therapy_type_id === therapy.id
         )
+        const ledgerEntry = ledgerAggregates.get(ledgerKey(monthStr, therapy.id))
 
         if (metric === 'revenue') {
           const value = relevantPlans.reduce((sum, plan) => {
-            return sum + (plan.actual_sessions || 0) * therapy.price_per_session
+            return sum + resolveActualRevenue(plan.actual_sessions || 0, therapy.price_per_session, ledgerEntry)
           }, 0)
           cohortData[therapy.id][monthIndex] = value
         } else if (metric === 'sessions') {
@@ -129,7 +147,7 @@ export async function getCohortAnalysis(
           cohortData[therapy.id][monthIndex] = value
         } else if (metric === 'margin') {
           const revenue = relevantPlans.reduce((sum, plan) => {
-            return sum + (plan.actual_sessions || 0) * therapy.price_per_session
+            return sum + resolveActualRevenue(plan.actual_sessions || 0, therapy.price_per_session, ledgerEntry)
           }, 0)
           const cost = relevantPlans.reduce((sum, plan) => {
             return (
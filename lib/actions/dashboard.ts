@@ -2,7 +2,11 @@
 
 import { createClient } from '@/utils/supabase/server'
 import type { TherapyType, MonthlyPlan } from '@/lib/types'
-import { calculateNetRevenue, calculateSumUpCosts, calculateTotalCostsWithSumUp } from '@/lib/calculations/payment-fees'
+import { calculateMonthlyPaymentCosts, calculatePaymentFees } from '@/lib/calculations/payment-fees'
+import { getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { getMonthRange } from '@/lib/supabase/session-ledger'
+import { fetchPaymentFeeSettings, getActualFeeSetting, getPlannedFeeSetting } from '@/lib/supabase/payment-fees'
 
 export interface MonthlyMetrics {
   month: string
@@ -19,7 +23,7 @@ export interface MonthlyMetrics {
   actual_margin_after_fees: number
   profitability: number
   profitability_after_fees: number
-  // SumUp costs as separate line item
+  // Payment costs (fees of all payment methods) as separate line item
   planned_sumup_costs: number
   actual_sumup_costs: number
   total_costs_with_sumup: number
@@ -59,20 +63,14 @@ export async function getMonthlyMetrics(month: string): Promise<MonthlyMetrics |
     return null
   }
 
-  // Fetch practice settings to get payment fee percentage
-  const { data: settings } = await supabase
-    .from('practice_settings')
-    .select('payment_processing_fee_percentage')
-    .eq('user_id', user.id)
-    .single()
-
-  const paymentFeePercentage = settings?.payment_processing_fee_percentage || 0
-
   // Convert YYYY-MM to YYYY-MM-01 for date column
   const monthDate = month.includes('-') && month.length === 7
     ? `${month}-01`
     : month
 
+  // Fee profiles and the month's revenue split per payment method
+  const feeSettings = await fetchPaymentFeeSettings(supabase, user.id, 0, getMonthRange(monthDate))
+
   // Get monthly plans first
   const { data: plans, error: plansError } = await supabase
     .from('monthly_plans')
@@ -101,6 +99,9 @@ export async function getMonthlyMetrics(month: string): Promise<MonthlyMetrics |
     (therapies || []).map(t => [t.id, t])
   )
 
+  // Effective-dated prices
+  const prices = await fetchTherapyPrices(supabase, user.id)
+
   // Get monthly expenses - filter to the specific month
   const nextMonthDate = new Date(Number(monthDate.split('-')[0]), Number(monthDate.split('-')[1]), 1)
   const nextMonthStr = `${nextMonthDate.getFullYear()}-${String(nextMonthDate.getMonth() + 1).padStart(2, '0')}-01`
@@ -131,14 +132,15 @@ export async function getMonthlyMetrics(month: string): Promise<MonthlyMetrics |
       continue
     }
 
-    const plannedRevenue = plan.planned_sessions * therapy.price_per_session
-    const actualRevenue = (plan.actual_sessions || 0) * therapy.price_per_session
+    const price = getPriceForMonth(getPriceSchedule(prices, therapy), monthDate)
+    const plannedRevenue = plan.planned_sessions * price
+    const actualRevenue = (plan.actual_sessions || 0) * price
     const plannedMargin =
       plan.planned_sessions *
-      (therapy.price_per_session - therapy.variable_cost_per_session)
+      (price - therapy.variable_cost_per_session)
     const actualMargin =
       (plan.actual_sessions || 0) *
-      (therapy.price_per_session - therapy.variable_cost_per_session)
+      (price - therapy.variable_cost_per_session)
 
     totalPlannedSessions += plan.planned_sessions
     totalActualSessions += plan.actual_sessions || 0
@@ -161,22 +163,24 @@ export async function getMonthlyMetrics(month: string): Promise<MonthlyMetrics |
     return sum + e.amount
   }, 0) || 0
 
-  // Apply payment fee to calculate net values
-  const totalPlannedRevenueAfterFees = calculateNetRevenue(totalPlannedRevenue, paymentFeePercentage)
-  const totalActualRevenueAfterFees = calculateNetRevenue(totalActualRevenue, paymentFeePercentage)
+  // Payment costs per payment method (planned shares for the plan, invoiced methods for actuals)
+  const plannedSumUpCosts = calculateMonthlyPaymentCosts(
+    totalPlannedRevenue, getPlannedFeeSetting(feeSettings), totalPlannedSessions
+  )
+  const actualSumUpCosts = calculateMonthlyPaymentCosts(
+    totalActualRevenue, getActualFeeSetting(feeSettings, monthDate), totalActualSessions
+  )
+  const totalCostsWithSumUp = monthlyExpenses + actualSumUpCosts
 
-  const feeDeductionFactor = 1 - (paymentFeePercentage / 100)
-  const totalPlannedMarginAfterFees = totalPlannedMargin * feeDeductionFactor
-  const totalActualMarginAfterFees = totalActualMargin * feeDeductionFactor
+  // Apply payment costs to calculate net values
+  const totalPlannedRevenueAfterFees = totalPlannedRevenue - plannedSumUpCosts
+  const totalActualRevenueAfterFees = totalActualRevenue - actualSumUpCosts
+  const totalPlannedMarginAfterFees = totalPlannedMargin - plannedSumUpCosts
+  const totalActualMarginAfterFees = totalActualMargin - actualSumUpCosts
 
   const profitability = totalActualMargin - monthlyExpenses
   const profitabilityAfterFees = totalActualMarginAfterFees - monthlyExpenses
 
-  // Calculate SumUp costs as separate line item
-  const plannedSumUpCosts = calculateSumUpCosts(totalPlannedRevenue, paymentFeePercentage)
-  const actualSumUpCosts = calculateSumUpCosts(totalActualRevenue, paymentFeePercentage)
-  const totalCostsWithSumUp = calculateTotalCostsWithSumUp(monthlyExpenses, totalActualRevenue, paymentFeePercentage)
-
   return {
     month,
     planned_sessions: totalPlannedSessions,
@@ -240,15 +244,11 @@ export async function getMonthlyMetricsRange(
       : endDateString
   }
 
-  // Fetch practice settings to get payment fee percentage
-  const { data: settings } = await supabase
-    .from('practice_settings')
-    .select('payment_processing_fee_percentage')
-    .eq('user_id', user.id)
-    .single()
-
-  const paymentFeePercentage = settings?.payment_processing_fee_percentage || 0
-  const feeDeductionFactor = 1 - (paymentFeePercentage / 100)
+  // Fee profiles and the revenue split per payment method of each month
+  const feeSettings = await fetchPaymentFeeSettings(supabase, user.id, 0, {
+    start: startDate,
+    end: getMonthRange(endDateString).end
+  })
 
   // Get all monthly plans in range
   const { data: plans, error: plansError } = await supabase
@@ -280,6 +280,9 @@ export async function getMonthlyMetricsRange(
     (therapies || []).map(t => [t.id, t])
   )
 
+  // Effective-dated prices, so past months keep the price valid at the time
+  const prices = await fetchTherapyPrices(supabase, user.id)
+
   // Get all expenses
   const { data: expenses } = await supabase
     .from('expenses')
@@ -319,14 +322,15 @@ export async function getMonthlyMetricsRange(
       continue
     }
 
-    const plannedRevenue = plan.planned_sessions * therapy.price_per_session
-    const actualRevenue = (plan.actual_sessions || 0) * therapy.price_per_session
+    const price = getPriceForMonth(getPriceSchedule(prices, therapy), plan.month)
+    const plannedRevenue = plan.planned_sessions * price
+    const actualRevenue = (plan.actual_sessions || 0) * price
     const plannedMargin =
       plan.planned_sessions *
-      (therapy.price_per_session - therapy.variable_cost_per_session)
+      (price - therapy.variable_cost_per_session)
     const actualMargin =
       (plan.actual_sessions || 0) *
-      (therapy.price_per_session - therapy.variable_cost_per_session)
+      (price - therapy.variable_cost_per_session)
 
     monthlyData[month].planned_sessions += plan.planned_sessions
     monthlyData[month].actual_sessions += plan.actual_sessions || 0
@@ -364,16 +368,20 @@ export async function getMonthlyMetricsRange(
   for (const month in monthlyData) {
     const data = monthlyData[month]
 
-    // Apply payment fees
-    data.planned_revenue_after_fees = calculateNetRevenue(data.planned_revenue, paymentFeePercentage)
-    data.actual_revenue_after_fees = calculateNetRevenue(data.actual_revenue, paymentFeePercentage)
-    data.planned_margin_after_fees = data.planned_margin * feeDeductionFactor
-    data.actual_margin_after_fees = data.actual_margin * feeDeductionFactor
+    // Calculate payment costs per payment method as separate line item
+    data.planned_sumup_costs = calculateMonthlyPaymentCosts(
+      data.planned_revenue, getPlannedFeeSetting(feeSettings), data.planned_sessions
+    )
+    data.actual_sumup_costs = calculateMonthlyPaymentCosts(
+      data.actual_revenue, getActualFeeSetting(feeSettings, month), data.actual_sessions
+    )
+    data.total_costs_with_sumup = data.total_expenses + data.actual_sumup_costs
 
-    // Calculate SumUp costs as separate line item
-    data.planned_sumup_costs = calculateSumUpCosts(data.planned_revenue, paymentFeePercentage)
-    data.actual_sumup_costs = calculateSumUpCosts(data.actual_revenue, paymentFeePercentage)
-    data.total_costs_with_sumup = calculateTotalCostsWithSumUp(data.total_expenses, data.actual_revenue, paymentFeePercentage)
+    // Apply payment fees
+    data.planned_revenue_after_fees = data.planned_revenue - data.planned_sumup_costs
+    data.actual_revenue_after_fees = data.actual_revenue - data.actual_sumup_costs
+    data.planned_margin_after_fees = data.planned_margin - data.planned_sumup_costs
+    data.actual_margin_after_fees = data.actual_margin - data.actual_sumup_costs
 
     // Calculate profitability
     data.profitability = data.actual_margin - data.total_expenses
@@ -411,13 +419,15 @@ export async function getTherapyMetrics(): Promise<TherapyMetrics[]> {
   // Get all monthly plans
   const { data: plans, error: plansError } = await supabase
     .from('monthly_plans')
-    .select('therapy_type_id, planned_sessions, actual_sessions')
+    .select('therapy_type_id, month, planned_sessions, actual_sessions')
     .eq('user_id', user.id)
 
   if (plansError) {
     console.error('Error fetching plans:', plansError)
   }
 
+  const prices = await fetchTherapyPrices(supabase, user.id)
+
   // Calculate metrics per therapy
   const therapyMetrics: TherapyMetrics[] = therapies.map((therapy: TherapyType) => {
     const therapyPlans = (plans || []).filter(
@@ -432,8 +442,11 @@ export async function getTherapyMetrics(): Promise<TherapyMetrics[]> {
       (sum, p) => sum + (p.actual_sessions || 0),
       0
     )
-    const totalRevenue =
-      totalActualSessions * therapy.price_per_session
+    const schedule = getPriceSchedule(prices, therapy)
+    const totalRevenue = therapyPlans.reduce(
+      (sum, p) => sum + (p.actual_sessions || 0) * getPriceForMonth(schedule, p.month),
+      0
+    )
     const profitabilityPercent =
       totalPlannedSessions > 0
         ? (totalActualSessions / totalPlannedSessions) * 100
@@ -475,14 +488,9 @@ export async function getDashboardSummary(): Promise<DashboardSummary> {
     }
   }
 
-  // Fetch practice settings to get payment fee percentage
-  const { data: settings } = await supabase
-    .from('practice_settings')
-    .select('payment_processing_fee_percentage')
-    .eq('user_id', user.id)
-    .single()
-
-  const paymentFeePercentage = settings?.payment_processing_fee_percentage || 0
+  // Fee profiles and the overall revenue split per payment method
+  const feeSettings = await fetchPaymentFeeSettings(supabase, user.id, 0)
+  const feeSetting = getActualFeeSetting(feeSettings)
 
   // Get therapy metrics
   const therapyMetrics = await getTherapyMetrics()
@@ -494,7 +502,6 @@ export async function getDashboardSummary(): Promise<DashboardSummary> {
     .eq('user_id', user.id)
 
   const totalRevenue = therapyMetrics.reduce((sum, t) => sum + t.total_revenue, 0)
-  const totalRevenueAfterFees = calculateNetRevenue(totalRevenue, paymentFeePercentage)
   // Calculate total expenses, applying spread_monthly logic for annual/quarterly expenses
   const totalExpenses = expenses?.reduce((sum, e) => {
     // If expense is marked to spread monthly, apply the divisor
@@ -512,9 +519,10 @@ export async function getDashboardSummary(): Promise<DashboardSummary> {
     0
   )
 
-  // Calculate SumUp costs as separate line item
-  const sumUpCosts = calculateSumUpCosts(totalRevenue, paymentFeePercentage)
-  const totalCostsWithSumUp = calculateTotalCostsWithSumUp(totalExpenses, totalRevenue, paymentFeePercentage)
+  // Calculate payment fees as separate line item
+  const sumUpCosts = calculatePaymentFees(totalRevenue, feeSetting, totalSessions)
+  const totalCostsWithSumUp = totalExpenses + sumUpCosts
+  const totalRevenueAfterFees = totalRevenue - sumUpCosts
 
   const averageSessionPrice =
     totalSessions > 0 ? totalRevenueAfterFees / totalSessions : 0
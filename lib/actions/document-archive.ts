@@ -0,0 +1,49 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import type { DocumentAuditEntry, ExpenseDocumentVersion } from '@/lib/types'
+
+/**
+ * Versions and logged events of a document, newest first
+ */
+export async function getDocumentHistory(documentId: string): Promise<{
+  versions: ExpenseDocumentVersion[]
+  events: DocumentAuditEntry[]
+}> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { versions: [], events: [] }
+  }
+
+  const [versionsResult, eventsResult] = await Promise.all([
+    supabase
+      .from('expense_document_versions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('document_id', documentId)
+      .order('version', { ascending: false }),
+    supabase
+      .from('document_audit_log')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('document_id', documentId)
+      .order('created_at', { ascending: false })
+  ])
+
+  if (versionsResult.error) {
+    console.error('[getDocumentHistory] Database error:', JSON.stringify(versionsResult.error, null, 2))
+  }
+  if (eventsResult.error) {
+    console.error('[getDocumentHistory] Database error:', JSON.stringify(eventsResult.error, null, 2))
+  }
+
+  return {
+    versions: ((versionsResult.data || []) as ExpenseDocumentVersion[]).map(version => ({
+      ...version,
+      file_size: Number(version.file_size)
+    })),
+    events: (eventsResult.data || []) as DocumentAuditEntry[]
+  }
+}
@@ -1,8 +1,26 @@
 'use server'
 
+import { after } from 'next/server'
 import { createClient } from '@/utils/supabase/server'
 import { createClient as createServiceClient } from '@/utils/supabase/service-client'
 import type { ExpenseDocument } from '@/lib/types'
+import { runOcrQueue } from '@/lib/supabase/document-ocr'
+import { fetchExpenseDuplicates, hashContent } from '@/lib/supabase/duplicates'
+import { fetchDocumentFilePaths, logDocumentEvents } from '@/lib/supabase/document-archive'
+import { isRetained, retentionMessage } from '@/lib/utils/document-archive'
+import { categorizeExpense } from '@/lib/utils/expense-categorization'
+import { fetchCategorizationContext } from '@/lib/supabase/expense-categorization'
+
+// Max 10MB per document
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+
+const ALLOWED_FILE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'application/pdf',
+  'image/webp',
+  'image/jpg'
+]
 
 export async function uploadExpenseDocument(
   expenseId: string,
@@ -24,20 +42,12 @@ export async function uploadExpenseDocument(
     const buffer = Buffer.from(fileData.content, 'base64')
 
     // Validate file size (max 10MB)
-    const MAX_FILE_SIZE = 10 * 1024 * 1024
     if (buffer.length > MAX_FILE_SIZE) {
       return { error: 'Datei ist zu groß (Maximum: 10MB)' }
     }
 
     // Validate file type
-    const allowedTypes = [
-      'image/jpeg',
-      'image/png',
-      'application/pdf',
-      'image/webp',
-      'image/jpg'
-    ]
-    if (!allowedTypes.includes(fileData.type)) {
+    if (!ALLOWED_FILE_TYPES.includes(fileData.type)) {
       return { error: 'Dateityp nicht unterstützt. Erlaubt: JPG, PNG, PDF, WebP' }
     }
 
@@ -79,7 +89,21 @@ export async function uploadExpenseDocument(
       return { error: `Datenbankfehler: ${dbError.message}` }
     }
 
-    return { data }
+    // The file hash finds the same receipt uploaded to another expense
+    const { error: hashError } = await serviceSupabase
+      .from('expense_documents')
+      .update({ content_hash: hashContent(buffer) })
+      .eq('user_id', user.id)
+      .eq('file_path', fileName)
+
+    if (hashError) {
+      console.error('Storing the content hash failed:', hashError.message)
+    }
+
+    // Text extraction runs after the response; the DocumentViewer polls its status
+    after(() => runOcrQueue(serviceSupabase))
+
+    return { data, duplicates: await fetchExpenseDuplicates(supabase, user.id, expenseId) }
   } catch (error) {
     console.error('Error uploading document:', error)
     return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
@@ -118,16 +142,30 @@ export async function getExpenseDocuments(expenseId: string) {
         console.error('Direct query also failed:', directError.message)
         return []
       }
-      return (directData || []) as ExpenseDocument[]
+      return withOcrQueueResumed(serviceSupabase, (directData || []) as ExpenseDocument[])
     }
 
-    return (data || []) as ExpenseDocument[]
+    return withOcrQueueResumed(serviceSupabase, (data || []) as ExpenseDocument[])
   } catch (error) {
     console.error('Error in getExpenseDocuments:', error)
     return []
   }
 }
 
+/**
+ * Restart the OCR queue for documents still waiting for their text, e.g.
+ * after a server restart; polling the documents keeps the queue going
+ */
+function withOcrQueueResumed(
+  serviceSupabase: Awaited<ReturnType<typeof createServiceClient>>,
+  documents: ExpenseDocument[]
+): ExpenseDocument[] {
+  if (documents.some(doc => doc.ocr_status === 'pending' || doc.ocr_status === 'processing')) {
+    after(() => runOcrQueue(serviceSupabase))
+  }
+  return documents
+}
+
 export async function deleteExpenseDocument(documentId: string) {
   try {
     const supabase = await createClient()
@@ -169,15 +207,22 @@ export async function deleteExpenseDocument(documentId: string) {
       return { error: 'Dokument nicht gefunden' }
     }
 
-    // Delete from storage
-    const { error: storageError } = await serviceSupabase.storage
-      .from('expense-documents')
-      .remove([filePath])
-
-    if (storageError) {
-      console.error('Storage deletion error:', storageError)
+    // Receipts are kept for the BAO retention period; the database refuses the deletion as well
+    const { data: retention } = await serviceSupabase
+      .from('expense_documents')
+      .select('retention_until')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (retention?.retention_until && isRetained(retention.retention_until, new Date().toISOString().split('T')[0])) {
+      await logDocumentEvents(serviceSupabase, user.id, [documentId], 'delete_refused')
+      return { error: retentionMessage(retention.retention_until) }
     }
 
+    // Files of all versions, removed once the record is gone
+    const filePaths = [...new Set([filePath, ...await fetchDocumentFilePaths(serviceSupabase, documentId)])]
+
     // Delete from database - try RPC first
     const { error: rpcDeleteError } = await serviceSupabase.rpc('delete_expense_document', {
       p_document_id: documentId,
@@ -197,6 +242,15 @@ export async function deleteExpenseDocument(documentId: string) {
       }
     }
 
+    // Delete from storage
+    const { error: storageError } = await serviceSupabase.storage
+      .from('expense-documents')
+      .remove(filePaths)
+
+    if (storageError) {
+      console.error('Storage deletion error:', storageError)
+    }
+
     return { success: true }
   } catch (error) {
     console.error('Error deleting document:', error)
@@ -204,7 +258,154 @@ export async function deleteExpenseDocument(documentId: string) {
   }
 }
 
-export async function getDocumentDownloadUrl(documentId: string) {
+/**
+ * Replace the file of a document by a new version, e.g. a better scan; the
+ * earlier versions stay archived unaltered and the text is extracted again
+ */
+export async function uploadDocumentVersion(
+  documentId: string,
+  fileData: {
+    name: string
+    content: string
+    type: string
+  }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { error: 'Authentifizierung erforderlich' }
+    }
+
+    const buffer = Buffer.from(fileData.content, 'base64')
+
+    if (buffer.length > MAX_FILE_SIZE) {
+      return { error: 'Datei ist zu groß (Maximum: 10MB)' }
+    }
+    if (!ALLOWED_FILE_TYPES.includes(fileData.type)) {
+      return { error: 'Dateityp nicht unterstützt. Erlaubt: JPG, PNG, PDF, WebP' }
+    }
+
+    const serviceSupabase = await createServiceClient()
+
+    const { data: document, error: documentError } = await serviceSupabase
+      .from('expense_documents')
+      .select('id, expense_id, content_hash')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (documentError || !document) {
+      return { error: 'Dokument nicht gefunden' }
+    }
+
+    const contentHash = hashContent(buffer)
+    if (contentHash === document.content_hash) {
+      return { error: 'Die Datei ist identisch mit der aktuellen Version' }
+    }
+
+    // A new file next to the earlier ones; stored files are never overwritten
+    const fileName = `${user.id}/${document.expense_id ?? 'inbox'}/${Date.now()}_${fileData.name}`
+
+    const { error: uploadError } = await serviceSupabase.storage
+      .from('expense-documents')
+      .upload(fileName, buffer, {
+        contentType: fileData.type,
+        upsert: false
+      })
+
+    if (uploadError) {
+      return { error: `Upload-Fehler: ${uploadError.message}` }
+    }
+
+    // The database records the version when the document points to the new file
+    const { error: dbError } = await serviceSupabase
+      .from('expense_documents')
+      .update({
+        file_name: fileData.name,
+        file_path: fileName,
+        file_size: buffer.length,
+        file_type: fileData.type,
+        content_hash: contentHash,
+        extracted_text: null,
+        text_hash: null,
+        ocr_status: 'pending',
+        ocr_error: null,
+        ocr_attempts: 0,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+
+    if (dbError) {
+      console.error('Storing the document version failed:', dbError.message)
+      await serviceSupabase.storage
+        .from('expense-documents')
+        .remove([fileName])
+      return { error: `Datenbankfehler: ${dbError.message}` }
+    }
+
+    after(() => runOcrQueue(serviceSupabase))
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error uploading document version:', error)
+    return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
+  }
+}
+
+/**
+ * Queue a document for text extraction again, e.g. one uploaded before the
+ * OCR queue existed or one whose extraction failed
+ */
+export async function rescanExpenseDocument(documentId: string) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { error: 'Authentifizierung erforderlich' }
+    }
+
+    const serviceSupabase = await createServiceClient()
+
+    const { data, error: dbError } = await serviceSupabase
+      .from('expense_documents')
+      .update({
+        ocr_status: 'pending',
+        ocr_error: null,
+        ocr_attempts: 0,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .in('ocr_status', ['done', 'failed'])
+      .select('id')
+
+    if (dbError) {
+      console.error('Queueing the text extraction failed:', dbError.message)
+      return { error: `Datenbankfehler: ${dbError.message}` }
+    }
+
+    if (!data || data.length === 0) {
+      return { error: 'Dokument nicht gefunden oder Texterkennung läuft bereits' }
+    }
+
+    after(() => runOcrQueue(serviceSupabase))
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error queueing text extraction:', error)
+    return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
+  }
+}
+
+/**
+ * Signed download link of a document, or of an earlier version of it;
+ * every access is logged
+ */
+export async function getDocumentDownloadUrl(documentId: string, versionId?: string) {
   try {
     const supabase = await createClient()
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -243,6 +444,21 @@ export async function getDocumentDownloadUrl(documentId: string) {
       return { error: 'Dokument nicht gefunden' }
     }
 
+    if (versionId) {
+      const { data: version, error: versionError } = await serviceSupabase
+        .from('expense_document_versions')
+        .select('file_path')
+        .eq('id', versionId)
+        .eq('document_id', documentId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (versionError || !version) {
+        return { error: 'Version nicht gefunden' }
+      }
+      filePath = version.file_path as string
+    }
+
     // Use createSignedUrl for secure, time-limited access (1 hour expiry)
     const { data, error: signError } = await serviceSupabase.storage
       .from('expense-documents')
@@ -253,6 +469,8 @@ export async function getDocumentDownloadUrl(documentId: string) {
       return { error: 'Fehler beim Generieren des Download-Links' }
     }
 
+    await logDocumentEvents(serviceSupabase, user.id, [documentId], 'view', versionId ? { version_id: versionId } : null)
+
     return { url: data.signedUrl }
   } catch (error) {
     console.error('Error getting download URL:', error)
@@ -261,12 +479,10 @@ export async function getDocumentDownloadUrl(documentId: string) {
 }
 
 /**
- * Parse bill image and extract expense data using OCR
+ * Parse the text of a bill (extracted on the server, see /api/ocr/parse-bill)
+ * into expense data
  */
-export async function parseBillImage(
-  _imageBase64: string | null,
-  extractedText: string
-) {
+export async function parseBillImage(extractedText: string) {
   try {
     const supabase = await createClient()
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -275,14 +491,20 @@ export async function parseBillImage(
       return { error: 'Authentifizierung erforderlich' }
     }
 
-    const { parseInvoiceText, suggestCategory, debugExtractedText } = await import('@/lib/invoice-parsing')
+    const { parseInvoiceText, splitInvoiceByCategory, debugExtractedText } = await import('@/lib/invoice-parsing')
 
     console.log('Raw extracted text length:', extractedText.length)
     debugExtractedText(extractedText)
 
     const parsed = parseInvoiceText(extractedText)
-    const categoryHint = suggestCategory(parsed.vendor_name || '', extractedText)
+    const suggestion = categorizeExpense(
+      { vendor: parsed.vendor_name, description: extractedText, amount: parsed.amount },
+      await fetchCategorizationContext(supabase, user.id)
+    )
     const invoiceDate = parsed.invoice_date || new Date().toISOString().split('T')[0]
+    const categoryHint = suggestion?.category || 'Sonstige Betriebsausgaben'
+    // Rate of the largest share; the breakdown holds the others
+    const mainVatLine = [...parsed.vat_breakdown].sort((a, b) => b.gross - a.gross)[0]
 
     return {
       data: {
@@ -292,6 +514,19 @@ export async function parseBillImage(
         currency: parsed.currency || 'EUR',
         description: extractedText.split('\n').slice(0, 3).join(' ').substring(0, 200),
         category_hint: categoryHint,
+        subcategory_hint: suggestion?.subcategory ?? null,
+        recurrence_hint: suggestion?.recurrence_interval ?? null,
+        confidence: suggestion?.confidence ?? 0,
+        invoice_number: parsed.invoice_number,
+        vendor_uid: parsed.vendor_uid,
+        iban: parsed.iban,
+        vat_rate: mainVatLine?.rate ?? null,
+        vat_breakdown: parsed.vat_breakdown,
+        line_items: parsed.line_items,
+        splits: splitInvoiceByCategory(parsed, {
+          category: categoryHint,
+          subcategory: suggestion?.subcategory ?? null
+        }),
         raw_text: extractedText
       }
     }
@@ -305,6 +540,16 @@ export async function parseBillImage(
         currency: 'EUR',
         description: '',
         category_hint: 'Sonstiges',
+        subcategory_hint: null,
+        recurrence_hint: null,
+        confidence: 0,
+        invoice_number: null,
+        vendor_uid: null,
+        iban: null,
+        vat_rate: null,
+        vat_breakdown: [],
+        line_items: [],
+        splits: null,
         raw_text: ''
       }
     }
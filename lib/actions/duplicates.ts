@@ -0,0 +1,188 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { createClient as createServiceClient } from '@/utils/supabase/service-client'
+import { revalidatePath } from 'next/cache'
+import type { ExpenseDuplicate } from '@/lib/types'
+import { fetchExpenseDuplicates, hashContent, hashReceiptText } from '@/lib/supabase/duplicates'
+
+/**
+ * Check all expenses for duplicates
+ * Documents uploaded before duplicate detection get their hashes first
+ */
+export async function scanDuplicateExpenses(): Promise<{ data?: ExpenseDuplicate[]; hashed?: number; error?: string }> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const serviceSupabase = await createServiceClient()
+    const { data: documents, error } = await serviceSupabase
+      .from('expense_documents')
+      .select('id, file_path, storage_bucket, extracted_text, content_hash, text_hash')
+      .eq('user_id', user.id)
+      .or('content_hash.is.null,and(text_hash.is.null,extracted_text.not.is.null)')
+
+    if (error) {
+      console.error('[scanDuplicateExpenses] Database error:', JSON.stringify(error, null, 2))
+      return { error: 'Fehler beim Laden der Belege' }
+    }
+
+    let hashed = 0
+    for (const document of documents || []) {
+      let contentHash: string | null = document.content_hash
+      if (!contentHash) {
+        const { data: file, error: downloadError } = await serviceSupabase.storage
+          .from(document.storage_bucket)
+          .download(document.file_path)
+        if (downloadError || !file) {
+          console.error('[scanDuplicateExpenses] Download failed:', document.file_path, downloadError?.message)
+        } else {
+          contentHash = hashContent(new Uint8Array(await file.arrayBuffer()))
+        }
+      }
+
+      const textHash = document.text_hash ?? hashReceiptText(document.extracted_text)
+      if (contentHash === document.content_hash && textHash === document.text_hash) continue
+
+      const { error: updateError } = await serviceSupabase
+        .from('expense_documents')
+        .update({ content_hash: contentHash, text_hash: textHash })
+        .eq('id', document.id)
+
+      if (updateError) {
+        console.error('[scanDuplicateExpenses] Database error:', JSON.stringify(updateError, null, 2))
+        continue
+      }
+      hashed++
+    }
+
+    return { data: await fetchExpenseDuplicates(supabase, user.id), hashed }
+  } catch (error) {
+    console.error('[scanDuplicateExpenses] Error:', error)
+    return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
+  }
+}
+
+/**
+ * Merge a duplicate into the expense that is kept
+ * Documents, bank lines and the asset move over; documents with a file the
+ * kept expense already has are deleted. Missing invoice number and
+ * description are taken over before the duplicate is deleted.
+ */
+export async function mergeDuplicateExpenses(keepId: string, dropId: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  if (keepId === dropId) {
+    return { error: 'Eine Ausgabe kann nicht mit sich selbst zusammengeführt werden' }
+  }
+
+  try {
+    const { data: expenses, error: expensesError } = await supabase
+      .from('expenses')
+      .select('id')
+      .eq('user_id', user.id)
+      .in('id', [keepId, dropId])
+
+    if (expensesError) {
+      console.error('[mergeDuplicateExpenses] Database error:', JSON.stringify(expensesError, null, 2))
+      return { error: 'Fehler beim Laden der Ausgaben' }
+    }
+
+    if ((expenses || []).length !== 2) {
+      return { error: 'Ausgabe nicht gefunden oder keine Berechtigung' }
+    }
+
+    // Documents, bank lines, the asset and the duplicate itself change in one transaction
+    const serviceSupabase = await createServiceClient()
+    const { data: removedFiles, error: mergeError } = await serviceSupabase.rpc('merge_duplicate_expenses', {
+      p_user_id: user.id,
+      p_keep_id: keepId,
+      p_drop_id: dropId
+    })
+
+    if (mergeError) {
+      console.error('[mergeDuplicateExpenses] Database error:', JSON.stringify(mergeError, null, 2))
+      return { error: `Fehler: ${mergeError.message || 'Zusammenführen fehlgeschlagen'}` }
+    }
+
+    // Files of the deleted copies; their records are already gone
+    const pathsByBucket = new Map<string, string[]>()
+    for (const file of (removedFiles || []) as { removed_bucket: string; removed_path: string }[]) {
+      pathsByBucket.set(file.removed_bucket, [...(pathsByBucket.get(file.removed_bucket) || []), file.removed_path])
+    }
+    for (const [bucket, paths] of pathsByBucket) {
+      const { error: storageError } = await serviceSupabase.storage.from(bucket).remove(paths)
+      if (storageError) {
+        console.error('[mergeDuplicateExpenses] Storage error:', storageError.message)
+      }
+    }
+
+    revalidatePath('/dashboard')
+    revalidatePath('/dashboard/ausgaben')
+    revalidatePath('/dashboard/berichte')
+    revalidatePath('/dashboard/analyse')
+
+    return { success: true }
+  } catch (error) {
+    console.error('[mergeDuplicateExpenses] Error:', error)
+    return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
+  }
+}
+
+/**
+ * Mark expenses as belonging together, so they are no longer reported as
+ * duplicates of each other (e.g. the parts of a split invoice)
+ */
+export async function linkDuplicateExpenses(expenseIds: string[]) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const ids = [...new Set(expenseIds)].sort()
+  if (ids.length < 2) {
+    return { error: 'Mindestens zwei Ausgaben erforderlich' }
+  }
+
+  try {
+    const { data: owned, error: ownedError } = await supabase
+      .from('expenses')
+      .select('id')
+      .eq('user_id', user.id)
+      .in('id', ids)
+
+    if (ownedError || (owned || []).length !== ids.length) {
+      return { error: 'Ausgabe nicht gefunden oder keine Berechtigung' }
+    }
+
+    const links = ids.flatMap((expenseId, index) =>
+      ids.slice(index + 1).map(linkedId => ({ user_id: user.id, expense_id: expenseId, linked_expense_id: linkedId }))
+    )
+    const { error } = await supabase
+      .from('expense_links')
+      .upsert(links, { onConflict: 'expense_id,linked_expense_id', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('[linkDuplicateExpenses] Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Verknüpfen fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/ausgaben')
+
+    return { success: true }
+  } catch (error) {
+    console.error('[linkDuplicateExpenses] Error:', error)
+    return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
+  }
+}
@@ -0,0 +1,87 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { calculateE1aReport, type E1aReport } from '@/lib/calculations'
+import { fetchAssets, withoutAssetPurchases } from '@/lib/supabase/assets'
+import { fetchAllRows } from '@/lib/supabase/session-ledger'
+
+export interface E1aYearEndReport {
+  report: E1aReport
+  practiceName: string
+}
+
+/**
+ * Einnahmen-Ausgaben-Rechnung of a year in E1a layout
+ *
+ * Revenue counts when received (paid date, else the session date); purchases
+ * in the asset register count with their AfA instead of the purchase expense
+ */
+export async function getE1aReport(year: number): Promise<E1aYearEndReport | null> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  const [settingsResult, sessionsResult, expensesResult] = await Promise.all([
+    supabase
+      .from('practice_settings')
+      .select('practice_name')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    // Payments may arrive in the year after the session
+    fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('session_date, paid_amount, paid_date')
+        .eq('user_id', user.id)
+        .gt('paid_amount', 0)
+        .gte('session_date', `${year - 1}-01-01`)
+        .lt('session_date', `${year + 1}-01-01`)
+        .order('id')
+        .range(from, to)
+    ),
+    // One-time expenses of the year and recurring expenses started before its end
+    fetchAllRows((from, to) =>
+      supabase
+        .from('expenses')
+        .select('id, category, subcategory, amount, expense_date, is_recurring, recurrence_interval')
+        .eq('user_id', user.id)
+        .lt('expense_date', `${year + 1}-01-01`)
+        .or(`is_recurring.eq.true,expense_date.gte.${year}-01-01`)
+        .order('id')
+        .range(from, to)
+    )
+  ])
+
+  if (sessionsResult.error || expensesResult.error) {
+    console.error('[getE1aReport] Error fetching data:', sessionsResult.error || expensesResult.error)
+    return null
+  }
+
+  const assets = await fetchAssets(supabase, user.id)
+  const expenses = withoutAssetPurchases(expensesResult.data || [], assets)
+
+  const report = calculateE1aReport({
+    year,
+    revenues: (sessionsResult.data || []).map(session => ({
+      date: session.paid_date || session.session_date,
+      amount: Number(session.paid_amount)
+    })),
+    expenses: expenses.map(expense => ({
+      category: expense.category,
+      subcategory: expense.subcategory,
+      amount: Number(expense.amount),
+      expense_date: expense.expense_date,
+      is_recurring: expense.is_recurring,
+      recurrence_interval: expense.recurrence_interval
+    })),
+    assets
+  })
+
+  return {
+    report,
+    practiceName: settingsResult.data?.practice_name || ''
+  }
+}
@@ -0,0 +1,144 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { ExpenseCategoryRuleSchema, type ExpenseCategoryRuleInput } from '@/lib/validations'
+import type { ExpenseCategoryRule } from '@/lib/types'
+import { normalizeMatchText } from '@/lib/utils/therapy-matching'
+import {
+  categorizeExpense,
+  type ExpenseCategorySuggestion,
+  type ExpenseToCategorize
+} from '@/lib/utils/expense-categorization'
+import { fetchCategorizationContext } from '@/lib/supabase/expense-categorization'
+
+/**
+ * Get all expense category rules for the current user
+ */
+export async function getExpenseCategoryRules(): Promise<ExpenseCategoryRule[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('expense_category_rules')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('category', { ascending: true })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('[getExpenseCategoryRules] Error fetching rules:', error)
+    return []
+  }
+
+  return (data || []).map(rule => ({
+    ...rule,
+    amount_min: rule.amount_min != null ? Number(rule.amount_min) : null,
+    amount_max: rule.amount_max != null ? Number(rule.amount_max) : null
+  })) as ExpenseCategoryRule[]
+}
+
+/**
+ * Create or update a category rule
+ * Vendor and keyword are stored normalized so they match like the engine compares
+ */
+export async function saveExpenseCategoryRule(input: ExpenseCategoryRuleInput, id?: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = ExpenseCategoryRuleSchema.parse(input)
+    const values = {
+      vendor_contains: validated.vendor_contains ? normalizeMatchText(validated.vendor_contains) || null : null,
+      keyword: validated.keyword ? normalizeMatchText(validated.keyword) || null : null,
+      amount_min: validated.amount_min ?? null,
+      amount_max: validated.amount_max ?? null,
+      category: validated.category,
+      subcategory: validated.subcategory || null,
+      recurrence_interval: validated.recurrence_interval ?? null
+    }
+
+    if (!values.vendor_contains && !values.keyword && values.amount_min === null && values.amount_max === null) {
+      return { error: 'Regel benötigt Anbieter, Stichwort oder Betragsbereich' }
+    }
+
+    const { data, error } = id
+      ? await supabase
+          .from('expense_category_rules')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .select()
+          .single()
+      : await supabase
+          .from('expense_category_rules')
+          .insert({ ...values, user_id: user.id })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      if (error.code === '23505') {
+        return { error: 'Eine Regel mit diesen Kriterien existiert bereits' }
+      }
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/einstellungen')
+
+    return { success: true, data: data as ExpenseCategoryRule }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete a category rule
+ */
+export async function deleteExpenseCategoryRule(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('expense_category_rules')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  revalidatePath('/dashboard/einstellungen')
+
+  return { success: true }
+}
+
+/**
+ * Suggest category, subcategory and recurrence for an expense being entered
+ */
+export async function suggestExpenseCategory(input: ExpenseToCategorize): Promise<ExpenseCategorySuggestion | null> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  return categorizeExpense(input, await fetchCategorizationContext(supabase, user.id))
+}
@@ -4,9 +4,15 @@ import { createClient } from '@/utils/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { ExpenseSchema, type ExpenseInput } from '@/lib/validations'
 import type { Expense } from '@/lib/types'
+import { withSuggestedCategory } from '@/lib/supabase/expense-categorization'
+import { fetchExpenseDuplicates } from '@/lib/supabase/duplicates'
+import { fetchRetainedDocuments } from '@/lib/supabase/document-archive'
+import { retentionMessage } from '@/lib/utils/document-archive'
 
 /**
  * Create a new expense
+ * Expenses without a category are categorised by the user's rules and history;
+ * probable duplicates of the new expense are returned for review
  */
 export async function createExpenseAction(input: ExpenseInput) {
   const supabase = await createClient()
@@ -19,7 +25,7 @@ export async function createExpenseAction(input: ExpenseInput) {
       return { error: 'Authentifizierung erforderlich' }
     }
 
-    const validated = ExpenseSchema.parse(input)
+    const validated = ExpenseSchema.parse(await withSuggestedCategory(supabase, user.id, input))
 
     // Insert into database
     const { data, error } = await supabase
@@ -33,7 +39,11 @@ export async function createExpenseAction(input: ExpenseInput) {
         is_recurring: validated.is_recurring || false,
         recurrence_interval: validated.recurrence_interval || null,
         description: validated.description || null,
-        spread_monthly: validated.spread_monthly || false
+        spread_monthly: validated.spread_monthly || false,
+        vat_rate: validated.vat_rate,
+        vat_allocation: validated.vat_allocation,
+        vat_breakdown: validated.vat_breakdown ?? null,
+        invoice_number: validated.invoice_number || null
       })
       .select()
 
@@ -52,7 +62,9 @@ export async function createExpenseAction(input: ExpenseInput) {
     revalidatePath('/dashboard/berichte')
     revalidatePath('/dashboard/analyse')
 
-    return { success: true, data: data[0] }
+    const duplicates = await fetchExpenseDuplicates(supabase, user.id, data[0].id)
+
+    return { success: true, data: data[0], duplicates }
   } catch (error) {
     if (error instanceof Error) {
       return { error: error.message }
@@ -92,6 +104,10 @@ export async function updateExpenseAction(
         recurrence_interval: validated.recurrence_interval || null,
         description: validated.description || null,
         spread_monthly: validated.spread_monthly || false,
+        vat_rate: validated.vat_rate,
+        vat_allocation: validated.vat_allocation,
+        vat_breakdown: validated.vat_breakdown ?? null,
+        ...(validated.invoice_number !== undefined && { invoice_number: validated.invoice_number || null }),
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
@@ -123,6 +139,7 @@ export async function updateExpenseAction(
 
 /**
  * Delete an expense
+ * Refused while its receipts are under the BAO retention
  */
 export async function deleteExpenseAction(id: string) {
   const supabase = await createClient()
@@ -135,6 +152,13 @@ export async function deleteExpenseAction(id: string) {
       return { error: 'Authentifizierung erforderlich' }
     }
 
+    // The database would refuse the cascade to the documents as well
+    const retained = await fetchRetainedDocuments(supabase, user.id, [id])
+    if (retained.length > 0) {
+      const retentionUntil = retained.map(doc => doc.retention_until!).sort().at(-1)!
+      return { error: `${retentionMessage(retentionUntil)} – die Ausgabe kann nicht gelöscht werden` }
+    }
+
     // Delete from database
     const { error } = await supabase
       .from('expenses')
@@ -1,6 +1,7 @@
 'use server'
 
 import { createClient } from '@/utils/supabase/server'
+import { syncMonthlyActualsFromLedger } from '@/lib/supabase/session-ledger'
 
 export interface ImportRecord {
   id: string
@@ -111,7 +112,7 @@ export async function getImportHistory() {
 
 /**
  * Remove an imported invoice (reverses the import for that invoice)
- * Updates monthly_plans if this was the last invoice for that month/therapy
+ * Deletes its session ledger row and re-aggregates monthly_plans for that month
  */
 export async function removeImportedInvoice(invoiceId: string) {
   const supabase = await createClient()
@@ -134,24 +135,15 @@ export async function removeImportedInvoice(invoiceId: string) {
       return { success: false, error: 'Invoice not found' }
     }
 
-    // Extract month from invoice_date
-    const invoiceMonth = invoice.invoice_date.slice(0, 7) + '-01'
-
-    // Update monthly_plans: decrement actual_sessions
-    const { data: plan, error: planError } = await supabase
-      .from('monthly_plans')
-      .select('id, actual_sessions')
+    // Remove the invoice from the session ledger
+    const { error: ledgerError } = await supabase
+      .from('sessions')
+      .delete()
       .eq('user_id', user.id)
-      .eq('therapy_type_id', invoice.therapy_type_id)
-      .eq('month', invoiceMonth)
-      .maybeSingle()
+      .eq('invoice_number', invoice.invoice_number)
 
-    if (plan) {
-      const newActual = Math.max(0, (plan.actual_sessions || 1) - 1)
-      await supabase
-        .from('monthly_plans')
-        .update({ actual_sessions: newActual })
-        .eq('id', plan.id)
+    if (ledgerError) {
+      return { success: false, error: ledgerError.message }
     }
 
     // Delete the imported invoice record
@@ -165,6 +157,17 @@ export async function removeImportedInvoice(invoiceId: string) {
       return { success: false, error: deleteError.message }
     }
 
+    // Re-aggregate monthly_plans for the invoice month
+    const { errors } = await syncMonthlyActualsFromLedger(
+      supabase,
+      user.id,
+      [invoice.invoice_date],
+      [invoice.therapy_type_id]
+    )
+    if (errors.length > 0) {
+      return { success: false, error: errors[0] }
+    }
+
     return { success: true }
   } catch (err) {
     return {
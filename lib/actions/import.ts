@@ -3,6 +3,7 @@
 import { createClient } from '@/utils/supabase/server'
 import { revalidatePath } from 'next/cache'
 import type { SessionImportRow, ImportResult } from '@/lib/types/import'
+import { manualActualSessions } from '@/lib/supabase/session-ledger'
 
 /**
  * Process session import data
@@ -114,12 +115,24 @@ export async function processSessionImport(
           continue
         }
 
+        // Imported counts are kept apart from the session ledger, like manual ones
+        const counts = await manualActualSessions(supabase, user.id, therapyId, month, data.actual)
+        if (counts.error) {
+          errors.push({
+            row: 0,
+            message: counts.error,
+            data: { month, therapyId }
+          })
+          continue
+        }
+
         if (existingPlan) {
           // Update existing plan with actual sessions
           const { error: updateError } = await supabase
             .from('monthly_plans')
             .update({
-              actual_sessions: data.actual,
+              actual_sessions: counts.actual_sessions,
+              manual_sessions: counts.manual_sessions,
               updated_at: new Date().toISOString()
             })
             .eq('id', existingPlan.id)
@@ -140,7 +153,8 @@ export async function processSessionImport(
               therapy_type_id: therapyId,
               month,
               planned_sessions: 0, // No planning data, just actuals
-              actual_sessions: data.actual,
+              actual_sessions: counts.actual_sessions,
+              manual_sessions: counts.manual_sessions,
               notes: 'Imported from practice software'
             })
 
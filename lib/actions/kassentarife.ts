@@ -0,0 +1,160 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { KassentarifeSchema, type KassentarifInput } from '@/lib/validations'
+import type { Insurer, Kassentarif } from '@/lib/types'
+import { calculateReimbursement } from '@/lib/calculations/core/reimbursement-calculator'
+import type { ReimbursementResult } from '@/lib/calculations/types'
+
+export interface TariffComparisonRow extends ReimbursementResult {
+  therapy_type_id: string
+  therapy_name: string
+  insurer: Insurer
+  reimbursement_rate: number
+}
+
+/**
+ * Get the Kassentarife of a therapy type
+ */
+export async function getKassentarife(therapyTypeId: string): Promise<Kassentarif[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('kassentarife')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('therapy_type_id', therapyTypeId)
+
+  if (error) {
+    console.error('[getKassentarife] Error fetching tariffs:', error)
+    return []
+  }
+
+  return (data || []).map(t => ({
+    ...t,
+    tariff: Number(t.tariff),
+    reimbursement_rate: Number(t.reimbursement_rate)
+  })) as Kassentarif[]
+}
+
+/**
+ * Save the Kassentarife of a therapy type
+ * Insurers with a tariff of 0 are removed from the catalogue
+ */
+export async function saveKassentarifeAction(therapyTypeId: string, input: KassentarifInput[]) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = KassentarifeSchema.parse(input)
+
+    const { data: therapy } = await supabase
+      .from('therapy_types')
+      .select('id')
+      .eq('id', therapyTypeId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!therapy) {
+      return { error: 'Therapieart nicht gefunden oder keine Berechtigung' }
+    }
+
+    const updatedAt = new Date().toISOString()
+    const tariffs = validated.filter(t => t.tariff > 0)
+    const removed = validated.filter(t => t.tariff === 0).map(t => t.insurer)
+
+    if (tariffs.length > 0) {
+      const { error } = await supabase
+        .from('kassentarife')
+        .upsert(
+          tariffs.map(t => ({ ...t, user_id: user.id, therapy_type_id: therapyTypeId, updated_at: updatedAt })),
+          { onConflict: 'therapy_type_id,insurer' }
+        )
+
+      if (error) {
+        console.error('[saveKassentarifeAction] Database error:', JSON.stringify(error, null, 2))
+        return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+      }
+    }
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('kassentarife')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('therapy_type_id', therapyTypeId)
+        .in('insurer', removed)
+
+      if (error) {
+        return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+      }
+    }
+
+    revalidatePath('/dashboard/therapien')
+    revalidatePath('/dashboard/berichte')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Compare the current price of every therapy type with its Kassentarife
+ * One row per therapy type and insurer with a tariff
+ */
+export async function getTariffComparison(): Promise<TariffComparisonRow[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const [therapiesResult, tariffsResult] = await Promise.all([
+    supabase
+      .from('therapy_types')
+      .select('id, name, price_per_session')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true }),
+    supabase
+      .from('kassentarife')
+      .select('therapy_type_id, insurer, tariff, reimbursement_rate')
+      .eq('user_id', user.id)
+  ])
+
+  if (therapiesResult.error || tariffsResult.error) {
+    console.error('[getTariffComparison] Error fetching data:', therapiesResult.error || tariffsResult.error)
+    return []
+  }
+
+  const therapyMap = new Map((therapiesResult.data || []).map(t => [t.id, t]))
+
+  return (tariffsResult.data || [])
+    .filter(t => therapyMap.has(t.therapy_type_id))
+    .map(t => {
+      const therapy = therapyMap.get(t.therapy_type_id)!
+      const reimbursementRate = Number(t.reimbursement_rate)
+      return {
+        therapy_type_id: therapy.id,
+        therapy_name: therapy.name,
+        insurer: t.insurer as Insurer,
+        reimbursement_rate: reimbursementRate,
+        ...calculateReimbursement(therapy.price_per_session, Number(t.tariff), reimbursementRate)
+      }
+    })
+    .sort((a, b) => a.therapy_name.localeCompare(b.therapy_name) || a.insurer.localeCompare(b.insurer))
+}
@@ -3,7 +3,14 @@
 import { createClient } from '@/utils/supabase/server'
 import { createClient as createServiceClient } from '@/utils/supabase/service-client'
 import * as XLSX from 'xlsx'
-import type { SessionImportRow } from '@/lib/types/import'
+import type { SessionImportRow, LatidoReviewItem } from '@/lib/types/import'
+import type { PayerType, PaymentStatus, SessionMatchMethod } from '@/lib/types'
+import { normalizePaymentMethod } from '@/lib/utils/session-ledger'
+import { normalizePatientType, resolveSessionPayerType } from '@/lib/utils/payer-types'
+import { normalizePaymentStatus, resolveInvoicePayment } from '@/lib/utils/receivables'
+import { buildPriceHistory, matchTherapyType, MATCH_METHOD_LABELS, PRICE_HISTORY_MONTHS } from '@/lib/utils/therapy-matching'
+import { syncMonthlyActualsFromLedger, updateInvoicePayments } from '@/lib/supabase/session-ledger'
+import { fetchTherapyPrices } from '@/lib/supabase/therapy-prices'
 
 export interface LatidoParseError {
   row: number
@@ -32,14 +39,17 @@ export interface LatidoImportResult {
  * - Rechnungsdatum: Invoice date (DD.MM.YYYY)
  * - Rechnungsnummer: Invoice number
  * - Zahlungsart: Payment method (Bar, Bankomat, Kreditkarte)
+ * - Leistung / Position (optional): Service description used for therapy matching
  * - Gesamtbetrag (Netto): Net amount
  * - Gesamtbetrag (Brutto): Gross amount
- * - Zahlungsstatus: Payment status (Bezahlt, Storniert, Storno)
+ * - Zahlungsstatus: Payment status (Bezahlt, Teilbezahlt, Offen, Storniert, Storno)
+ * - Bezahlt am / Bezahlter Betrag / Offener Betrag (optional): Payment details
  * - Ordinationsdaten: Practice info
  *
  * Each row = 1 invoice = 1 session
  * Negative amounts or status "Storno" = cancellation (excluded)
- * Therapy type is matched by price against user's therapy_types
+ * Open and partially paid invoices are kept with their payment status (receivables)
+ * Therapy type is matched on import (see processLatidoSessions)
  */
 export async function parseLatidoExcel(fileBase64: string): Promise<LatidoImportResult> {
   const errors: LatidoParseError[] = []
@@ -81,12 +91,33 @@ export async function parseLatidoExcel(fileBase64: string): Promise<LatidoImport
     const grossAmountColIndex = normalizedHeaders.findIndex((h: string) =>
       h.includes('gesamtbetrag (brutto)') || h.includes('brutto')
     )
-    const statusColIndex = normalizedHeaders.findIndex((h: string) =>
-      h.includes('zahlungsstatus') || h.includes('status')
+    const paymentStatusColIndex = normalizedHeaders.findIndex((h: string) =>
+      h.includes('zahlungsstatus')
+    )
+    const statusColIndex = paymentStatusColIndex !== -1
+      ? paymentStatusColIndex
+      : normalizedHeaders.findIndex((h: string) => h.includes('status'))
+    const paidDateColIndex = normalizedHeaders.findIndex((h: string) =>
+      h.includes('bezahlt am') || h.includes('zahlungsdatum') || h.includes('zahlungseingang')
+    )
+    const paidAmountColIndex = normalizedHeaders.findIndex((h: string) =>
+      h.includes('bezahlter betrag') || h === 'bezahlt'
+    )
+    const openAmountColIndex = normalizedHeaders.findIndex((h: string) =>
+      h.includes('offener betrag') || h === 'offen' || h.includes('restbetrag')
     )
     const invoiceNumColIndex = normalizedHeaders.findIndex((h: string) =>
       h.includes('rechnungsnummer') || h.includes('invoice')
     )
+    const paymentMethodColIndex = normalizedHeaders.findIndex((h: string) =>
+      h.includes('zahlungsart')
+    )
+    const serviceColIndex = normalizedHeaders.findIndex((h: string) =>
+      h.includes('leistung') || h.includes('position') || h.includes('bezeichnung')
+    )
+    const patientTypeColIndex = normalizedHeaders.findIndex((h: string) =>
+      h.includes('patientenart') || h.includes('versicherung') || h.includes('kostenträger')
+    )
 
     if (dateColIndex === -1) {
       throw new Error('Spalte "Rechnungsdatum" nicht gefunden')
@@ -118,14 +149,17 @@ export async function parseLatidoExcel(fileBase64: string): Promise<LatidoImport
         const amountValue = row[amountColIndex]
         const statusValue = statusColIndex !== -1 ? String(row[statusColIndex] ?? '').trim() : ''
         const invoiceNum = invoiceNumColIndex !== -1 ? String(row[invoiceNumColIndex] ?? '').trim() : ''
+        const paymentMethod = paymentMethodColIndex !== -1
+          ? normalizePaymentMethod(row[paymentMethodColIndex])
+          : undefined
+        const serviceText = serviceColIndex !== -1 ? String(row[serviceColIndex] ?? '').trim() : ''
+        const patientType = patientTypeColIndex !== -1 ? normalizePatientType(row[patientTypeColIndex]) : undefined
 
         // Skip empty rows
         if (!dateValue && !amountValue) continue
 
         // Parse amount
-        const amount = typeof amountValue === 'number'
-          ? amountValue
-          : parseFloat(String(amountValue).replace(',', '.').replace(/[^\d.-]/g, ''))
+        const amount = parseLatidoAmount(amountValue)
 
         if (isNaN(amount)) {
           errors.push({ row: i + 1, message: `Ungültiger Betrag: ${amountValue}` })
@@ -143,31 +177,30 @@ export async function parseLatidoExcel(fileBase64: string): Promise<LatidoImport
         }
 
         // Parse date
-        const dateStr = String(dateValue).trim()
-        let date: Date | null = null
-
-        if (dateStr.includes('.')) {
-          const [day, month, year] = dateStr.split('.')
-          if (day && month && year) {
-            date = new Date(Number(year), Number(month) - 1, Number(day))
-          }
-        } else if (dateStr.includes('-')) {
-          date = new Date(dateStr + 'T00:00:00')
-        } else if (!isNaN(Number(dateValue))) {
-          // Excel serial date
-          date = new Date((Number(dateValue) - 25569) * 86400 * 1000)
-        }
-
-        if (!date || isNaN(date.getTime())) {
-          errors.push({ row: i + 1, message: `Ungültiges Datum: ${dateStr}` })
+        const dateISO = parseLatidoDate(dateValue)
+        if (!dateISO) {
+          errors.push({ row: i + 1, message: `Ungültiges Datum: ${String(dateValue).trim()}` })
           continue
         }
-
-        const year = date.getFullYear()
-        const month = String(date.getMonth() + 1).padStart(2, '0')
-        const day = String(date.getDate()).padStart(2, '0')
-        const dateISO = `${year}-${month}-${day}`
-        const monthKey = `${year}-${month}`
+        const monthKey = dateISO.slice(0, 7)
+
+        // Gross amount for the session ledger (falls back to the amount used for matching)
+        const grossValue = grossAmountColIndex !== -1 ? row[grossAmountColIndex] : amountValue
+        const parsedGross = parseLatidoAmount(grossValue)
+        const grossAmount = isNaN(parsedGross) ? amount : parsedGross
+
+        // Payment status (unknown or missing status = paid on the invoice date)
+        const paidDateValue = paidDateColIndex !== -1 ? row[paidDateColIndex] : undefined
+        const paidAmountValue = paidAmountColIndex !== -1 ? parseLatidoAmount(row[paidAmountColIndex]) : NaN
+        const openAmountValue = openAmountColIndex !== -1 ? parseLatidoAmount(row[openAmountColIndex]) : NaN
+        const payment = resolveInvoicePayment({
+          status: normalizePaymentStatus(statusValue),
+          grossAmount,
+          invoiceDate: dateISO,
+          paidAmount: isNaN(paidAmountValue) ? undefined : paidAmountValue,
+          openAmount: isNaN(openAmountValue) ? undefined : openAmountValue,
+          paidDate: paidDateValue ? parseLatidoDate(paidDateValue) ?? undefined : undefined,
+        })
 
         // Each valid invoice = 1 session
         sessions.push({
@@ -176,6 +209,13 @@ export async function parseLatidoExcel(fileBase64: string): Promise<LatidoImport
           sessions: 1,
           revenue: amount,
           invoice_number: invoiceNum || undefined,
+          gross_amount: grossAmount,
+          payment_method: paymentMethod,
+          service_text: serviceText || undefined,
+          patient_type: patientType,
+          payment_status: payment.payment_status,
+          paid_amount: payment.paid_amount,
+          paid_date: payment.paid_date ?? undefined,
         })
 
         // Track monthly breakdown
@@ -214,9 +254,50 @@ export async function parseLatidoExcel(fileBase64: string): Promise<LatidoImport
 }
 
 /**
- * Process parsed Latido sessions and update monthly_plans
- * Matches invoices to therapy types by price
+ * Parse a Latido amount cell (number or German formatted text)
+ */
+function parseLatidoAmount(value: unknown): number {
+  return typeof value === 'number'
+    ? value
+    : parseFloat(String(value ?? '').replace(',', '.').replace(/[^\d.-]/g, ''))
+}
+
+/**
+ * Parse a Latido date cell (DD.MM.YYYY, ISO or Excel serial) to YYYY-MM-DD
+ */
+function parseLatidoDate(value: unknown): string | null {
+  const dateStr = String(value ?? '').trim()
+  let date: Date | null = null
+
+  if (dateStr.includes('.')) {
+    const [day, month, year] = dateStr.split('.')
+    if (day && month && year) {
+      date = new Date(Number(year), Number(month) - 1, Number(day))
+    }
+  } else if (dateStr.includes('-')) {
+    date = new Date(dateStr + 'T00:00:00')
+  } else if (dateStr && !isNaN(Number(value))) {
+    // Excel serial date
+    date = new Date((Number(value) - 25569) * 86400 * 1000)
+  }
+
+  if (!date || isNaN(date.getTime())) return null
+
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Process parsed Latido sessions into the session ledger
+ * Matches invoices to therapy types (mapping rules, Leistung text, price history,
+ * tolerance bands), stores one `sessions` row per session and re-aggregates
+ * monthly_plans.actual_sessions from the ledger
+ * Invoices that cannot be matched unambiguously are returned in `review_queue`
+ * Sessions with an explicit `therapy_type_id` (resolved review items) skip matching
  * Tracks imported invoices by Rechnungsnummer to prevent duplicates
+ * Re-imported invoices update the payment status of rows that are still open
  */
 export async function processLatidoSessions(sessions: SessionImportRow[]) {
   const supabase = await createClient()
@@ -229,6 +310,7 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
       skipped_count: sessions.length,
       duplicate_count: 0,
       imported_months: [] as string[],
+      review_queue: [] as LatidoReviewItem[],
       errors: [{ row: 0, message: 'Authentifizierung erforderlich' }],
       warnings: []
     }
@@ -240,6 +322,7 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
   let skipped_count = 0
   let duplicate_count = 0
   const importedMonths = new Set<string>()
+  const reviewQueue: LatidoReviewItem[] = []
 
   try {
     // Get service client for imported_invoices operations (bypasses PostgREST schema cache)
@@ -278,7 +361,7 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
     // Get all therapy types for the user
     const { data: therapyTypes, error: therapyError } = await supabase
       .from('therapy_types')
-      .select('id, name, price_per_session')
+      .select('id, name, price_per_session, payer_type')
       .eq('user_id', user.id)
 
     if (therapyError) {
@@ -288,26 +371,65 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
         skipped_count: sessions.length,
         duplicate_count: 0,
         imported_months: [],
+        review_queue: [],
         errors: [{ row: 0, message: `Datenbankfehler: ${therapyError.message}` }],
         warnings: []
       }
     }
 
-    // Create price-to-therapy map
-    const priceMap = new Map<number, typeof therapyTypes[0][]>()
-    for (const t of therapyTypes || []) {
-      const price = t.price_per_session
-      if (!priceMap.has(price)) priceMap.set(price, [])
-      priceMap.get(price)!.push(t)
+    // User-confirmed mapping rules
+    const { data: rules } = await supabase
+      .from('latido_mapping_rules')
+      .select('therapy_type_id, match_text, match_amount')
+      .eq('user_id', user.id)
+
+    // Price history from previously invoiced sessions with exact or confirmed prices
+    const historySince = new Date()
+    historySince.setMonth(historySince.getMonth() - PRICE_HISTORY_MONTHS)
+    const { data: pastSessions, error: historyError } = await supabase.rpc('get_latido_price_history', {
+      p_user_id: user.id,
+      p_since: historySince.toISOString().split('T')[0]
+    })
+
+    if (historyError) {
+      console.error('[processLatidoSessions] Database error:', JSON.stringify(historyError, null, 2))
+    }
+
+    // Effective-dated prices count as price history as well
+    const therapyPrices = await fetchTherapyPrices(supabase, user.id)
+    const priceRows = [...therapyPrices.entries()].flatMap(([therapy_type_id, records]) =>
+      records.map(r => ({ therapy_type_id, gross_amount: r.price }))
+    )
+
+    const matchingContext = {
+      therapies: therapyTypes || [],
+      priceHistory: buildPriceHistory([...(pastSessions || []), ...priceRows]),
+      rules: rules || [],
     }
 
     // Also create name map for direct name matching
     const nameMap = new Map(
       therapyTypes?.map(t => [t.name.toLowerCase(), t]) || []
     )
-
-    // Group sessions by month and therapy type, skipping duplicates
-    const monthlyData = new Map<string, Map<string, { actual: number; revenue: number }>>()
+    const therapyIds = new Set(therapyTypes?.map(t => t.id) || [])
+
+    // Build ledger rows, skipping duplicates
+    const ledgerRows: Array<{
+      user_id: string
+      therapy_type_id: string
+      session_date: string
+      gross_amount: number
+      payment_method: string | null
+      invoice_number: string | null
+      patient_type: string | null
+      payer_type: PayerType
+      payment_status: PaymentStatus
+      paid_amount: number
+      paid_date: string | null
+      source: 'latido'
+      match_method: SessionMatchMethod
+    }> = []
+    const paymentUpdates = new Map<string, SessionImportRow>()
     const newInvoices: Array<{ invoice_number: string; date: string; amount: number; therapy_type_id: string }> = []
 
     for (let i = 0; i < sessions.length; i++) {
@@ -315,44 +437,47 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
 
       // Skip already-imported invoices
       if (session.invoice_number && alreadyImported.has(session.invoice_number)) {
+        if (session.payment_status) {
+          paymentUpdates.set(session.invoice_number, session)
+        }
         duplicate_count++
         continue
       }
 
-      const month = session.date.slice(0, 7) + '-01'
-
       let therapyId: string = ''
+      let sessionCount = session.sessions
+      let matchMethod: SessionMatchMethod
 
-      // Check if therapy_type is a price marker
-      if (session.therapy_type.startsWith('__price:')) {
-        const price = parseFloat(session.therapy_type.replace('__price:', ''))
-        let matches = priceMap.get(price)
-        if (!matches) {
-          for (const [mapPrice, therapies] of priceMap.entries()) {
-            if (Math.abs(mapPrice - price) < 0.01) {
-              matches = therapies
-              break
-            }
-          }
+      if (session.therapy_type_id) {
+        // Explicit assignment from the review queue
+        if (!therapyIds.has(session.therapy_type_id)) {
+          warnings.push({ row: i + 1, message: 'Zugeordneter Therapietyp existiert nicht mehr.' })
+          skipped_count++
+          continue
         }
+        therapyId = session.therapy_type_id
+        matchMethod = 'review'
+      } else if (session.therapy_type.startsWith('__price:')) {
+        const price = parseFloat(session.therapy_type.replace('__price:', ''))
+        const result = matchTherapyType({ amount: price, service_text: session.service_text }, matchingContext)
 
-        if (!matches || matches.length === 0) {
-          warnings.push({
-            row: i + 1,
-            message: `Kein Therapietyp mit Preis ${price}€ gefunden. Bitte erstellen Sie zuerst den passenden Therapietyp.`,
-          })
+        if (!result.matched) {
+          reviewQueue.push({ session, amount: price, candidates: result.candidates })
           skipped_count++
           continue
         }
 
-        if (matches.length > 1) {
+        therapyId = result.match.therapy_type_id
+        sessionCount = result.match.sessions
+        matchMethod = result.match.method
+
+        if (result.match.method === 'tolerance' || result.match.method === 'combined') {
+          const therapyName = therapyTypes?.find(t => t.id === therapyId)?.name
           warnings.push({
             row: i + 1,
-            message: `Mehrere Therapietypen mit Preis ${price}€: ${matches.map(m => m.name).join(', ')}. Erste Übereinstimmung "${matches[0].name}" wird verwendet.`,
+            message: `${price}€ über ${MATCH_METHOD_LABELS[result.match.method]} "${therapyName}" zugeordnet${sessionCount > 1 ? ` (${sessionCount} Sitzungen)` : ''}.`,
           })
         }
-
-        therapyId = matches[0].id
       } else {
         const therapy = nameMap.get(session.therapy_type.toLowerCase())
         if (!therapy) {
@@ -364,6 +489,7 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
           continue
         }
         therapyId = therapy.id
+        matchMethod = 'name'
       }
 
       // Track this invoice for duplicate detection
@@ -376,78 +502,82 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
         })
       }
 
-      // Initialize month data
-      if (!monthlyData.has(month)) {
-        monthlyData.set(month, new Map())
-      }
-
-      const monthMap = monthlyData.get(month)!
-      if (!monthMap.has(therapyId)) {
-        monthMap.set(therapyId, { actual: 0, revenue: 0 })
+      // One ledger row per treated session
+      const payerType = resolveSessionPayerType(
+        session.patient_type,
+        therapyTypes?.find(t => t.id === therapyId)?.payer_type as PayerType | undefined
+      )
+      const amountPerSession = (session.gross_amount ?? session.revenue ?? 0) / Math.max(1, sessionCount)
+      const paidPerSession = session.paid_amount !== undefined
+        ? session.paid_amount / Math.max(1, sessionCount)
+        : amountPerSession
+      for (let n = 0; n < sessionCount; n++) {
+        ledgerRows.push({
+          user_id: user.id,
+          therapy_type_id: therapyId,
+          session_date: session.date,
+          gross_amount: amountPerSession,
+          payment_method: session.payment_method ?? null,
+          invoice_number: session.invoice_number ?? null,
+          patient_type: session.patient_type ?? null,
+          payer_type: payerType,
+          payment_status: session.payment_status ?? 'bezahlt',
+          paid_amount: paidPerSession,
+          paid_date: session.payment_status && session.payment_status !== 'bezahlt' && !session.paid_date
+            ? null
+            : session.paid_date ?? session.date,
+          source: 'latido',
+          match_method: matchMethod,
+        })
       }
 
-      const data = monthMap.get(therapyId)!
-      data.actual += session.sessions
-      data.revenue += session.revenue || 0
-
       importedMonths.add(session.date.slice(0, 7))
       imported_count++
     }
 
-    // Update or create monthly_plans entries
-    for (const [month, therapyData] of monthlyData.entries()) {
-      for (const [therapyId, data] of therapyData.entries()) {
-        const { data: existingPlan, error: planError } = await supabase
-          .from('monthly_plans')
-          .select('id, planned_sessions, actual_sessions')
-          .eq('user_id', user.id)
-          .eq('therapy_type_id', therapyId)
-          .eq('month', month)
-          .maybeSingle()
-
-        if (planError) {
-          errors.push({
-            row: 0,
-            message: `Datenbankfehler: ${planError.message}`,
-          })
-          continue
+    // Write the session ledger
+    if (ledgerRows.length > 0) {
+      const { error: ledgerError } = await supabase
+        .from('sessions')
+        .insert(ledgerRows)
+
+      if (ledgerError) {
+        return {
+          success: false,
+          imported_count: 0,
+          skipped_count,
+          duplicate_count,
+          imported_months: [],
+          review_queue: reviewQueue,
+          errors: [{ row: 0, message: `Fehler beim Speichern der Sitzungen: ${ledgerError.message}` }],
+          warnings
         }
+      }
+    }
 
-        if (existingPlan) {
-          // Add to existing actual_sessions (don't replace, to support incremental imports)
-          const newActual = (existingPlan.actual_sessions || 0) + data.actual
-          const { error: updateError } = await supabase
-            .from('monthly_plans')
-            .update({ actual_sessions: newActual })
-            .eq('id', existingPlan.id)
-
-          if (updateError) {
-            errors.push({
-              row: 0,
-              message: `Fehler beim Aktualisieren: ${updateError.message}`,
-            })
-          }
-        } else {
-          const { error: insertError } = await supabase
-            .from('monthly_plans')
-            .insert({
-              user_id: user.id,
-              therapy_type_id: therapyId,
-              month,
-              planned_sessions: 0,
-              actual_sessions: data.actual
-            })
-
-          if (insertError) {
-            errors.push({
-              row: 0,
-              message: `Fehler beim Erstellen: ${insertError.message}`,
-            })
-          }
-        }
+    // Update payment status of previously imported invoices that are not paid yet
+    if (paymentUpdates.size > 0) {
+      const paymentErrors = await updateInvoicePayments(
+        supabase,
+        user.id,
+        [...paymentUpdates.entries()].map(([invoice_number, s]) => ({
+          invoice_number,
+          payment_status: s.payment_status!,
+          paid_amount: s.paid_amount ?? 0,
+          paid_date: s.paid_date ?? null,
+        }))
+      )
+      for (const message of paymentErrors) {
+        warnings.push({ row: 0, message })
       }
     }
 
+    // Re-aggregate monthly_plans.actual_sessions from the ledger
+    const syncResult = await syncMonthlyActualsFromLedger(supabase, user.id, [...importedMonths])
+    for (const message of syncResult.errors) {
+      errors.push({ row: 0, message })
+    }
+
     // Record imported invoices for duplicate tracking
     for (const inv of newInvoices) {
       try {
@@ -480,6 +610,7 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
       skipped_count,
       duplicate_count,
       imported_months: [...importedMonths].sort(),
+      review_queue: reviewQueue,
       errors,
       warnings
     }
@@ -490,6 +621,7 @@ export async function processLatidoSessions(sessions: SessionImportRow[]) {
       skipped_count,
       duplicate_count,
       imported_months: [...importedMonths].sort(),
+      review_queue: reviewQueue,
       errors: [...errors, { row: 0, message: err instanceof Error ? err.message : 'Unbekannter Fehler' }],
       warnings
     }
@@ -0,0 +1,116 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { LatidoMappingRuleSchema, type LatidoMappingRuleInput } from '@/lib/validations'
+import type { LatidoMappingRule } from '@/lib/types'
+import { normalizeMatchText } from '@/lib/utils/therapy-matching'
+
+/**
+ * Get all Latido mapping rules for the current user
+ */
+export async function getLatidoMappingRules(): Promise<LatidoMappingRule[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('latido_mapping_rules')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('[getLatidoMappingRules] Error fetching rules:', error)
+    return []
+  }
+
+  return (data || []) as LatidoMappingRule[]
+}
+
+/**
+ * Save a user-confirmed mapping rule
+ * An existing rule with the same criteria is re-pointed to the new therapy type
+ */
+export async function saveLatidoMappingRule(input: LatidoMappingRuleInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = LatidoMappingRuleSchema.parse(input)
+    const matchText = validated.match_text ? normalizeMatchText(validated.match_text) : null
+    const matchAmount = validated.match_amount ?? null
+
+    let query = supabase
+      .from('latido_mapping_rules')
+      .select('id')
+      .eq('user_id', user.id)
+    query = matchText === null ? query.is('match_text', null) : query.eq('match_text', matchText)
+    query = matchAmount === null ? query.is('match_amount', null) : query.eq('match_amount', matchAmount)
+
+    const { data: existing } = await query.maybeSingle()
+
+    const { data, error } = existing
+      ? await supabase
+          .from('latido_mapping_rules')
+          .update({
+            therapy_type_id: validated.therapy_type_id,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('latido_mapping_rules')
+          .insert({
+            user_id: user.id,
+            therapy_type_id: validated.therapy_type_id,
+            match_text: matchText,
+            match_amount: matchAmount
+          })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    return { success: true, data: data as LatidoMappingRule }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete a mapping rule
+ */
+export async function deleteLatidoMappingRule(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('latido_mapping_rules')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  return { success: true }
+}
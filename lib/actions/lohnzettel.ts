@@ -0,0 +1,102 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { LohnzettelSchema, type LohnzettelInput } from '@/lib/validations'
+import type { Lohnzettel } from '@/lib/types'
+
+/**
+ * Get the Lohnzettel (L16) of a year, by employer
+ */
+export async function getLohnzettel(year: number): Promise<Lohnzettel[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('lohnzettel')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('year', year)
+    .order('employer_name', { ascending: true })
+
+  if (error) {
+    console.error('[getLohnzettel] Error fetching Lohnzettel:', error)
+    return []
+  }
+
+  return (data || []).map(entry => ({
+    ...entry,
+    gross_pay: Number(entry.gross_pay),
+    tax_free_pay: Number(entry.tax_free_pay),
+    special_payments: Number(entry.special_payments),
+    social_security: Number(entry.social_security),
+    wage_tax_withheld: Number(entry.wage_tax_withheld)
+  })) as Lohnzettel[]
+}
+
+/**
+ * Record the Lohnzettel of an employer; a second one for the same year replaces it
+ */
+export async function saveLohnzettel(input: LohnzettelInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = LohnzettelSchema.parse(input)
+
+    const { error } = await supabase
+      .from('lohnzettel')
+      .upsert(
+        { ...validated, user_id: user.id, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,year,employer_name' }
+      )
+
+    if (error) {
+      console.error('[saveLohnzettel] Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/steuerprognose')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete a Lohnzettel
+ */
+export async function deleteLohnzettel(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('lohnzettel')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  revalidatePath('/dashboard/steuerprognose')
+
+  return { success: true }
+}
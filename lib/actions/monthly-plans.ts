@@ -4,6 +4,9 @@ import { createClient } from '@/utils/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { MonthlyPlanSchema, type MonthlyPlanInput } from '@/lib/validations'
 import type { MonthlyPlan, TherapyType } from '@/lib/types'
+import { getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { manualActualSessions } from '@/lib/supabase/session-ledger'
 
 /**
  * Get all monthly plans for a specific month
@@ -81,7 +84,7 @@ export async function getMonthlyPlansWithTherapies(month: string) {
 
   const { data: therapies, error: therapiesError } = await supabase
     .from('therapy_types')
-    .select('id, name, price_per_session, variable_cost_per_session')
+    .select('id, name, price_per_session, variable_cost_per_session, payer_type')
     .in('id', therapyTypeIds)
 
   if (therapiesError) {
@@ -90,7 +93,12 @@ export async function getMonthlyPlansWithTherapies(month: string) {
   }
 
   // Combine manually - create a map of therapies by id
-  const therapyMap = new Map(therapies?.map(t => [t.id, t]) || [])
+  // using the price valid in the planned month
+  const prices = await fetchTherapyPrices(supabase, user.id)
+  const therapyMap = new Map(therapies?.map(t => [
+    t.id,
+    { ...t, price_per_session: getPriceForMonth(getPriceSchedule(prices, t), monthDate) }
+  ]) || [])
 
   return plans.map(plan => ({
     ...plan,
@@ -138,13 +146,22 @@ export async function upsertMonthlyPlanAction(input: MonthlyPlanInput) {
       .eq('month', monthDate)
       .single()
 
+    // The sessions in the ledger stay counted; the rest is kept as manual count
+    const counts = await manualActualSessions(
+      supabase, user.id, validated.therapy_type_id, monthDate, validated.actual_sessions
+    )
+    if (counts.error) {
+      return { error: counts.error }
+    }
+
     if (existing) {
       // Update existing
       const { data, error } = await supabase
         .from('monthly_plans')
         .update({
           planned_sessions: validated.planned_sessions,
-          actual_sessions: validated.actual_sessions,
+          actual_sessions: counts.actual_sessions,
+          manual_sessions: counts.manual_sessions,
           notes: validated.notes
         })
         .eq('id', existing.id)
@@ -165,7 +182,8 @@ export async function upsertMonthlyPlanAction(input: MonthlyPlanInput) {
           therapy_type_id: validated.therapy_type_id,
           month: monthDate,
           planned_sessions: validated.planned_sessions,
-          actual_sessions: validated.actual_sessions,
+          actual_sessions: counts.actual_sessions,
+          manual_sessions: counts.manual_sessions,
           notes: validated.notes
         })
         .select()
@@ -365,6 +383,8 @@ export async function copyMonthlyPlansAction(input: {
           month: targetMonth,
           planned_sessions: plan.planned_sessions,
           actual_sessions: plan.actual_sessions,
+          // The target month has no ledger sessions; the copied count is a manual one
+          manual_sessions: plan.actual_sessions,
           notes: plan.notes
         })
       }
@@ -2,12 +2,18 @@
 
 import { createClient } from '@/utils/supabase/server'
 import { createClient as createServiceClient } from '@/utils/supabase/service-client'
-import type { TherapyType } from '@/lib/types'
+import type { PayerRevenue, PayerType, TherapyType } from '@/lib/types'
+import { aggregateSessionLedger, ledgerKey, resolveActualRevenue } from '@/lib/utils/session-ledger'
+import { aggregateLedgerByPayer, resolveActualRevenueByPayer } from '@/lib/utils/payer-types'
+import { getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { manualActualSessions } from '@/lib/supabase/session-ledger'
 
 export interface ResultsRow {
   id: string
   therapy_type_id: string
   therapy_name: string
+  payer_type?: PayerType | null
   price_per_session: number
   planned_sessions: number
   actual_sessions: number | null
@@ -16,10 +22,13 @@ export interface ResultsRow {
   achievement: number
   planned_revenue: number
   actual_revenue: number
+  /** Actual revenue per payer, from the session ledger where invoices exist */
+  actual_revenue_by_payer?: PayerRevenue
 }
 
 /**
  * Get monthly results with planned vs actual comparison
+ * Actual revenue is taken from the session ledger where invoices exist
  */
 export async function getMonthlyResultsWithTherapies(month: string): Promise<ResultsRow[]> {
   const supabase = await createClient()
@@ -66,7 +75,7 @@ export async function getMonthlyResultsWithTherapies(month: string): Promise<Res
 
   const { data: therapies, error: therapiesError } = await supabase
     .from('therapy_types')
-    .select('id, name, price_per_session')
+    .select('id, name, price_per_session, payer_type')
     .in('id', therapyTypeIds)
 
   if (therapiesError) {
@@ -77,12 +86,34 @@ export async function getMonthlyResultsWithTherapies(month: string): Promise<Res
   // Create therapy map
   const therapyMap = new Map(therapies?.map(t => [t.id, t]) || [])
 
+  // Fetch the session ledger for the month
+  const { data: ledger, error: ledgerError } = await supabase
+    .from('sessions')
+    .select('therapy_type_id, session_date, gross_amount, payer_type')
+    .eq('user_id', user.id)
+    .gte('session_date', monthDate)
+    .lt('session_date', nextMonthDate)
+
+  if (ledgerError) {
+    console.error('[getMonthlyResultsWithTherapies] Error fetching sessions:', ledgerError)
+  }
+
+  const ledgerAggregates = aggregateSessionLedger(ledger || [])
+  const ledgerByPayer = aggregateLedgerByPayer(
+    ledger || [],
+    new Map((therapies || []).map(t => [t.id, t.payer_type as PayerType]))
+  )
+  const prices = await fetchTherapyPrices(supabase, user.id)
+
   // Calculate results rows with variance and achievement
   // Include plans with deleted therapy types using fallback name
   const results = plans.map(plan => {
     const therapy = therapyMap.get(plan.therapy_type_id)
     const therapyName = therapy?.name || 'Gelöschte Therapieart'
-    const pricePerSession = therapy?.price_per_session || 0
+    // Price valid in this month (effective-dated)
+    const pricePerSession = therapy
+      ? getPriceForMonth(getPriceSchedule(prices, therapy), monthDate)
+      : 0
 
     const planned = plan.planned_sessions || 0
     const actual = plan.actual_sessions || 0
@@ -94,12 +125,22 @@ export async function getMonthlyResultsWithTherapies(month: string): Promise<Res
       ? Math.round((actual / planned) * 100)
       : (actual > 0 ? 100 : 0)
     const planned_revenue = planned * pricePerSession
-    const actual_revenue = actual * pricePerSession
+    const actual_revenue = resolveActualRevenue(
+      actual,
+      pricePerSession,
+      ledgerAggregates.get(ledgerKey(monthDate, plan.therapy_type_id))
+    )
+    const actual_revenue_by_payer = resolveActualRevenueByPayer(
+      actual_revenue,
+      therapy?.payer_type,
+      ledgerByPayer.get(ledgerKey(monthDate, plan.therapy_type_id))
+    )
 
     return {
       id: plan.id,
       therapy_type_id: plan.therapy_type_id,
       therapy_name: therapyName,
+      payer_type: therapy?.payer_type ?? null,
       price_per_session: pricePerSession,
       planned_sessions: planned,
       actual_sessions: actual,
@@ -107,7 +148,8 @@ export async function getMonthlyResultsWithTherapies(month: string): Promise<Res
       variancePercent,
       achievement,
       planned_revenue,
-      actual_revenue
+      actual_revenue,
+      actual_revenue_by_payer
     } as ResultsRow
   })
 
@@ -143,6 +185,7 @@ export async function calculateMonthlyMetrics(month: string) {
 
 /**
  * Update actual sessions for a therapy in a month
+ * The sessions in the ledger stay counted; the rest is kept as manual count
  */
 export async function updateActualSessions(
   therapy_type_id: string,
@@ -174,11 +217,16 @@ export async function updateActualSessions(
     return { error: 'Fehler beim Abrufen des Plans' }
   }
 
+  const counts = await manualActualSessions(supabase, user.id, therapy_type_id, monthDate, actual_sessions)
+  if (counts.error) {
+    return { error: counts.error }
+  }
+
   if (existingPlan) {
     // Update existing plan
     const { error: updateError } = await supabase
       .from('monthly_plans')
-      .update({ actual_sessions })
+      .update({ actual_sessions: counts.actual_sessions, manual_sessions: counts.manual_sessions })
       .eq('id', existingPlan.id)
 
     if (updateError) {
@@ -193,7 +241,8 @@ export async function updateActualSessions(
         therapy_type_id,
         month: monthDate,
         planned_sessions: 0,
-        actual_sessions
+        actual_sessions: counts.actual_sessions,
+        manual_sessions: counts.manual_sessions
       })
 
     if (insertError) {
@@ -235,7 +284,7 @@ export async function getMonthsWithData(): Promise<string[]> {
 
 /**
  * Reset/delete actual sessions for a therapy in a month
- * Also clears imported_invoices records for that month/therapy
+ * Also clears session ledger and imported_invoices records for that month/therapy
  * If planned_sessions is also 0, deletes the monthly_plan row entirely
  */
 export async function resetActualSessions(
@@ -270,7 +319,7 @@ export async function resetActualSessions(
     // Has planned sessions - just reset actual to 0
     const { error: updateError } = await supabase
       .from('monthly_plans')
-      .update({ actual_sessions: 0 })
+      .update({ actual_sessions: 0, manual_sessions: null })
       .eq('id', existingPlan.id)
 
     if (updateError) {
@@ -288,6 +337,23 @@ export async function resetActualSessions(
     }
   }
 
+  // Clear session ledger rows for this month/therapy
+  const [year, monthNum] = monthDate.split('-')
+  const ledgerEndDate = new Date(Number(year), Number(monthNum), 1)
+  const ledgerEnd = `${ledgerEndDate.getFullYear()}-${String(ledgerEndDate.getMonth() + 1).padStart(2, '0')}-01`
+
+  const { error: ledgerError } = await supabase
+    .from('sessions')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('therapy_type_id', therapy_type_id)
+    .gte('session_date', monthDate)
+    .lt('session_date', ledgerEnd)
+
+  if (ledgerError) {
+    return { error: 'Fehler beim Löschen der Sitzungen' }
+  }
+
   // Clear imported_invoices for this month/therapy (so re-import is possible)
   try {
     const serviceSupabase = await createServiceClient()
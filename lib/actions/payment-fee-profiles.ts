@@ -0,0 +1,91 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { PaymentFeeProfilesSchema, type PaymentFeeProfileInput } from '@/lib/validations'
+import { DEFAULT_FEE_PROFILES, type FeeProfile } from '@/lib/calculations/payment-fees'
+import { fetchPaymentFeeProfiles } from '@/lib/supabase/payment-fees'
+
+/**
+ * Get the fee profile of every payment method
+ * Methods without a stored profile are filled with defaults based on the practice fee percentage
+ */
+export async function getPaymentFeeProfiles(): Promise<FeeProfile[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return DEFAULT_FEE_PROFILES
+  }
+
+  const [stored, settingsResult] = await Promise.all([
+    fetchPaymentFeeProfiles(supabase, user.id),
+    supabase
+      .from('practice_settings')
+      .select('payment_processing_fee_percentage')
+      .eq('user_id', user.id)
+      .maybeSingle()
+  ])
+
+  if (stored.length === 0) {
+    const cardFee = settingsResult.data?.payment_processing_fee_percentage
+    return DEFAULT_FEE_PROFILES.map(defaults =>
+      cardFee != null && defaults.percentage_fee > 0 ? { ...defaults, percentage_fee: cardFee } : defaults
+    )
+  }
+
+  return DEFAULT_FEE_PROFILES.map(defaults => {
+    const profile = stored.find(p => p.payment_method === defaults.payment_method)
+    if (!profile) {
+      return { ...defaults, planned_share: 0 }
+    }
+    return {
+      payment_method: profile.payment_method,
+      percentage_fee: profile.percentage_fee,
+      fixed_fee: profile.fixed_fee,
+      monthly_fee: profile.monthly_fee,
+      planned_share: profile.planned_share
+    }
+  })
+}
+
+/**
+ * Save the fee profiles of all payment methods
+ */
+export async function savePaymentFeeProfilesAction(input: PaymentFeeProfileInput[]) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = PaymentFeeProfilesSchema.parse(input)
+    const updatedAt = new Date().toISOString()
+
+    const { error } = await supabase
+      .from('payment_fee_profiles')
+      .upsert(
+        validated.map(profile => ({ ...profile, user_id: user.id, updated_at: updatedAt })),
+        { onConflict: 'user_id,payment_method' }
+      )
+
+    if (error) {
+      console.error('[savePaymentFeeProfilesAction] Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/einstellungen')
+    revalidatePath('/dashboard')
+    revalidatePath('/dashboard/analyse')
+    revalidatePath('/dashboard/berichte')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
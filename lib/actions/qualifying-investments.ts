@@ -0,0 +1,101 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { QualifyingInvestmentSchema, type QualifyingInvestmentInput } from '@/lib/validations'
+import type { QualifyingInvestment } from '@/lib/types'
+
+/**
+ * Get the qualifying investments of a tax year
+ */
+export async function getQualifyingInvestments(taxYear: number): Promise<QualifyingInvestment[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('qualifying_investments')
+    .select('*')
+    .eq('user_id', user.id)
+    .gte('investment_date', `${taxYear}-01-01`)
+    .lte('investment_date', `${taxYear}-12-31`)
+    .order('investment_date', { ascending: true })
+
+  if (error) {
+    console.error('[getQualifyingInvestments] Error fetching investments:', error)
+    return []
+  }
+
+  return (data || []).map(investment => ({
+    ...investment,
+    amount: Number(investment.amount)
+  })) as QualifyingInvestment[]
+}
+
+/**
+ * Record a qualifying investment for the investment-based Gewinnfreibetrag
+ */
+export async function addQualifyingInvestment(input: QualifyingInvestmentInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = QualifyingInvestmentSchema.parse(input)
+
+    const { data, error } = await supabase
+      .from('qualifying_investments')
+      .insert({ ...validated, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/steuerprognose')
+
+    return {
+      success: true,
+      data: { ...data, amount: Number(data.amount) } as QualifyingInvestment
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete a qualifying investment
+ */
+export async function deleteQualifyingInvestment(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('qualifying_investments')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  revalidatePath('/dashboard/steuerprognose')
+
+  return { success: true }
+}
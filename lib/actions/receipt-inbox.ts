@@ -0,0 +1,277 @@
+'use server'
+
+import { randomBytes } from 'crypto'
+import { after } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { createClient as createServiceClient } from '@/utils/supabase/service-client'
+import { revalidatePath } from 'next/cache'
+import type { ExpenseDocument, InboxDocument } from '@/lib/types'
+import type { ExpenseInput } from '@/lib/validations'
+import { createExpenseAction } from '@/lib/actions/expenses'
+import { runOcrQueue } from '@/lib/supabase/document-ocr'
+import { fetchExpenseDuplicates } from '@/lib/supabase/duplicates'
+import { ingestInboxDocument } from '@/lib/supabase/receipt-inbox'
+import { inboxAddress } from '@/lib/utils/receipt-inbox'
+
+function generateInboxToken(): string {
+  return randomBytes(8).toString('hex')
+}
+
+/**
+ * Ingest token of the user, created on first use
+ */
+async function ensureInboxToken(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('receipt_inbox_tokens')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[ensureInboxToken] Database error:', JSON.stringify(error, null, 2))
+    return null
+  }
+  if (data) return data.token
+
+  const token = generateInboxToken()
+  const { error: insertError } = await supabase
+    .from('receipt_inbox_tokens')
+    .insert({ user_id: userId, token })
+
+  if (insertError) {
+    console.error('[ensureInboxToken] Database error:', JSON.stringify(insertError, null, 2))
+    return null
+  }
+  return token
+}
+
+/**
+ * Unassigned documents of the receipt inbox, newest first, and the ingest
+ * address (null while INBOX_EMAIL_DOMAIN is not configured)
+ */
+export async function getReceiptInbox(): Promise<{
+  documents: InboxDocument[]
+  address: string | null
+  token: string | null
+}> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { documents: [], address: null, token: null }
+  }
+
+  const token = await ensureInboxToken(supabase, user.id)
+  const domain = process.env.INBOX_EMAIL_DOMAIN
+  const address = token && domain ? inboxAddress(token, domain) : null
+
+  // Documents are read with the service role like in the document actions
+  const serviceSupabase = await createServiceClient()
+  const { data, error } = await serviceSupabase
+    .from('expense_documents')
+    .select('*')
+    .eq('user_id', user.id)
+    .is('expense_id', null)
+    .order('upload_date', { ascending: false })
+
+  if (error) {
+    console.error('[getReceiptInbox] Database error:', JSON.stringify(error, null, 2))
+    return { documents: [], address, token }
+  }
+
+  const documents = (data || []) as ExpenseDocument[]
+
+  // Restart the OCR queue for documents still waiting for their text
+  if (documents.some(doc => doc.ocr_status === 'pending' || doc.ocr_status === 'processing')) {
+    after(() => runOcrQueue(serviceSupabase))
+  }
+
+  // Receipts already attached to an expense
+  const contentHashes = documents.map(doc => doc.content_hash).filter((hash): hash is string => !!hash)
+  const textHashes = documents.map(doc => doc.text_hash).filter((hash): hash is string => !!hash)
+  const filters = [
+    contentHashes.length > 0 && `content_hash.in.(${contentHashes.join(',')})`,
+    textHashes.length > 0 && `text_hash.in.(${textHashes.join(',')})`
+  ].filter(Boolean)
+
+  const assignedByHash = new Map<string, InboxDocument['duplicate_of']>()
+  if (filters.length > 0) {
+    const { data: assigned, error: assignedError } = await supabase
+      .from('expense_documents')
+      .select('content_hash, text_hash, expenses(id, expense_date, amount, description)')
+      .eq('user_id', user.id)
+      .not('expense_id', 'is', null)
+      .or(filters.join(','))
+
+    if (assignedError) {
+      console.error('[getReceiptInbox] Database error:', JSON.stringify(assignedError, null, 2))
+    }
+
+    for (const row of (assigned || []) as unknown as Array<{
+      content_hash: string | null
+      text_hash: string | null
+      expenses: { id: string; expense_date: string; amount: number; description: string | null } | null
+    }>) {
+      if (!row.expenses) continue
+      const expense = { ...row.expenses, amount: Number(row.expenses.amount) }
+      if (row.content_hash) assignedByHash.set(row.content_hash, expense)
+      if (row.text_hash) assignedByHash.set(row.text_hash, expense)
+    }
+  }
+
+  return {
+    documents: documents.map(doc => ({
+      ...doc,
+      duplicate_of:
+        (doc.content_hash && assignedByHash.get(doc.content_hash)) ||
+        (doc.text_hash && assignedByHash.get(doc.text_hash)) ||
+        null
+    })),
+    address,
+    token
+  }
+}
+
+/**
+ * Replace the ingest token, e.g. after the address leaked; the old address
+ * and folder watcher configuration stop working
+ */
+export async function regenerateInboxToken() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('receipt_inbox_tokens')
+    .upsert(
+      { user_id: user.id, token: generateInboxToken(), updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    )
+
+  if (error) {
+    console.error('[regenerateInboxToken] Database error:', JSON.stringify(error, null, 2))
+    return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Put a document from the drop zone into the inbox
+ */
+export async function uploadInboxDocument(fileData: {
+  name: string
+  content: string
+  type: string
+}) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const serviceSupabase = await createServiceClient()
+    const result = await ingestInboxDocument(
+      serviceSupabase,
+      user.id,
+      { name: fileData.name, type: fileData.type, content: Buffer.from(fileData.content, 'base64') },
+      'upload',
+      null
+    )
+
+    if (result.data) {
+      after(() => runOcrQueue(serviceSupabase))
+    }
+    return result
+  } catch (error) {
+    console.error('[uploadInboxDocument] Error:', error)
+    return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
+  }
+}
+
+/**
+ * Turn an inbox document into an expense: create the expense and attach
+ * the document to it; probable duplicates are returned for review
+ */
+export async function confirmInboxDocument(documentId: string, input: ExpenseInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const serviceSupabase = await createServiceClient()
+    const { data: document, error: documentError } = await serviceSupabase
+      .from('expense_documents')
+      .select('id, expense_id')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (documentError || !document) {
+      return { error: 'Dokument nicht gefunden' }
+    }
+    if (document.expense_id) {
+      return { error: 'Dokument ist bereits einer Ausgabe zugeordnet' }
+    }
+
+    const result = await createExpenseAction(input)
+    if (result.error || !result.data) {
+      return { error: result.error ?? 'Ausgabe konnte nicht erstellt werden' }
+    }
+
+    // Only while the document is still in the inbox (no concurrent confirm)
+    const { data: attached, error } = await serviceSupabase
+      .from('expense_documents')
+      .update({ expense_id: result.data.id, updated_at: new Date().toISOString() })
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .is('expense_id', null)
+      .select('id')
+
+    if (error || !attached || attached.length === 0) {
+      if (error) {
+        console.error('[confirmInboxDocument] Database error:', JSON.stringify(error, null, 2))
+      }
+
+      // Without its receipt the new expense is removed again
+      const { error: rollbackError } = await supabase
+        .from('expenses')
+        .delete()
+        .eq('id', result.data.id)
+        .eq('user_id', user.id)
+
+      if (rollbackError) {
+        console.error('[confirmInboxDocument] Rollback failed:', JSON.stringify(rollbackError, null, 2))
+      }
+
+      return {
+        error: error
+          ? `Fehler: ${error.message || 'Beleg konnte nicht zugeordnet werden'}`
+          : 'Dokument ist bereits einer Ausgabe zugeordnet'
+      }
+    }
+
+    revalidatePath('/dashboard/ausgaben')
+
+    // Checked again now that the receipt belongs to the expense
+    return {
+      success: true,
+      data: result.data,
+      duplicates: await fetchExpenseDuplicates(supabase, user.id, result.data.id)
+    }
+  } catch (error) {
+    console.error('[confirmInboxDocument] Error:', error)
+    return { error: 'Ein unerwarteter Fehler ist aufgetreten' }
+  }
+}
@@ -0,0 +1,168 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import type { DunningLevel } from '@/lib/types'
+import { fetchAllRows } from '@/lib/supabase/session-ledger'
+import {
+  allocatePayment,
+  buildReceivables,
+  summarizeReceivables,
+  type Receivable,
+  type ReceivablesSummary
+} from '@/lib/utils/receivables'
+
+const PaymentSchema = z.object({
+  paid_amount: z.number().positive('Betrag muss größer als 0 sein'),
+  paid_date: z.string().min(1, 'Zahlungsdatum ist erforderlich')
+})
+
+export type PaymentInput = z.infer<typeof PaymentSchema>
+
+export interface ReceivableWithTherapy extends Receivable {
+  therapy_name: string
+}
+
+/**
+ * Get open and partially paid invoices with their ageing
+ */
+export async function getReceivables(): Promise<{
+  receivables: ReceivableWithTherapy[]
+  summary: ReceivablesSummary
+}> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { receivables: [], summary: summarizeReceivables([]) }
+  }
+
+  const [sessionsResult, therapiesResult] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('id, therapy_type_id, session_date, gross_amount, paid_amount, payment_status, invoice_number, dunning_level, last_dunning_date')
+        .eq('user_id', user.id)
+        .neq('payment_status', 'bezahlt')
+        .order('session_date', { ascending: true })
+        .order('id')
+        .range(from, to)
+    ),
+    supabase
+      .from('therapy_types')
+      .select('id, name')
+      .eq('user_id', user.id)
+  ])
+
+  if (sessionsResult.error) {
+    console.error('[getReceivables] Error fetching open sessions:', sessionsResult.error)
+    return { receivables: [], summary: summarizeReceivables([]) }
+  }
+
+  const therapyNames = new Map((therapiesResult.data || []).map(t => [t.id, t.name]))
+  const asOf = new Date().toISOString().split('T')[0]
+
+  const receivables = buildReceivables(
+    (sessionsResult.data || []).map(s => ({
+      ...s,
+      gross_amount: Number(s.gross_amount),
+      paid_amount: Number(s.paid_amount)
+    })),
+    asOf
+  ).map(r => ({ ...r, therapy_name: therapyNames.get(r.therapy_type_id) || 'Unbekannt' }))
+
+  return { receivables, summary: summarizeReceivables(receivables) }
+}
+
+/**
+ * Record a payment for an open invoice
+ * The amount is allocated to the invoice's ledger rows in order
+ */
+export async function recordPaymentAction(sessionIds: string[], input: PaymentInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = PaymentSchema.parse(input)
+
+    const { data: rows, error: fetchError } = await supabase
+      .from('sessions')
+      .select('id, gross_amount, paid_amount')
+      .eq('user_id', user.id)
+      .in('id', sessionIds)
+      .order('session_date', { ascending: true })
+
+    if (fetchError || !rows || rows.length === 0) {
+      return { error: 'Rechnung nicht gefunden' }
+    }
+
+    const updatedAt = new Date().toISOString()
+    for (const row of allocatePayment(rows, validated.paid_amount)) {
+      const { error } = await supabase
+        .from('sessions')
+        .update({
+          paid_amount: row.paid_amount,
+          payment_status: row.payment_status,
+          paid_date: row.paid_amount > 0 ? validated.paid_date : null,
+          updated_at: updatedAt
+        })
+        .eq('id', row.id)
+        .eq('user_id', user.id)
+
+      if (error) {
+        console.error('[recordPaymentAction] Database error:', JSON.stringify(error, null, 2))
+        return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+      }
+    }
+
+    revalidatePath('/dashboard/ergebnisse')
+    revalidatePath('/dashboard')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Set the dunning status of an open invoice
+ */
+export async function updateDunningLevelAction(sessionIds: string[], level: DunningLevel) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  if (![0, 1, 2, 3].includes(level)) {
+    return { error: 'Ungültige Mahnstufe' }
+  }
+
+  const { error } = await supabase
+    .from('sessions')
+    .update({
+      dunning_level: level,
+      last_dunning_date: level > 0 ? new Date().toISOString().split('T')[0] : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', user.id)
+    .in('id', sessionIds)
+
+  if (error) {
+    console.error('[updateDunningLevelAction] Database error:', JSON.stringify(error, null, 2))
+    return { error: `Fehler: ${error.message || 'Aktualisieren fehlgeschlagen'}` }
+  }
+
+  revalidatePath('/dashboard/ergebnisse')
+
+  return { success: true }
+}
@@ -0,0 +1,206 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import type { TherapySession } from '@/lib/types'
+import { getMonthRange, syncMonthlyActualsFromLedger } from '@/lib/supabase/session-ledger'
+
+const SessionUpdateSchema = z.object({
+  therapy_type_id: z.string().uuid('Ungültige Therapieart ID').optional(),
+  session_date: z.string().min(1, 'Datum ist erforderlich').optional(),
+  gross_amount: z.number().nonnegative('Betrag kann nicht negativ sein').optional(),
+  payment_method: z.enum(['bar', 'bankomat', 'kreditkarte', 'ueberweisung', 'sonstige']).nullable().optional(),
+  patient_type: z.enum(['kasse', 'privat']).nullable().optional(),
+  payer_type: z.enum(['oegk', 'bvaeb', 'svs', 'wahlarzt', 'selbstzahler']).nullable().optional(),
+  payment_status: z.enum(['bezahlt', 'teilbezahlt', 'offen']).optional(),
+  paid_amount: z.number().nonnegative('Betrag kann nicht negativ sein').optional(),
+  paid_date: z.string().nullable().optional(),
+  notes: z.string().nullable().optional()
+})
+
+export type SessionUpdateInput = z.infer<typeof SessionUpdateSchema>
+
+/**
+ * Get all ledger sessions for a month (YYYY-MM), oldest first
+ */
+export async function getSessionsForMonth(month: string): Promise<TherapySession[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    console.error('[getSessionsForMonth] Authentication error:', authError)
+    return []
+  }
+
+  const { start, end } = getMonthRange(month)
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('*')
+    .eq('user_id', user.id)
+    .gte('session_date', start)
+    .lt('session_date', end)
+    .order('session_date', { ascending: true })
+
+  if (error) {
+    console.error('[getSessionsForMonth] Error fetching sessions:', error)
+    return []
+  }
+
+  return (data || []) as TherapySession[]
+}
+
+/**
+ * Update a single ledger session (e.g. fix a misclassified invoice)
+ * and re-aggregate the affected months
+ */
+export async function updateSessionAction(id: string, input: SessionUpdateInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = SessionUpdateSchema.parse(input)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('sessions')
+      .select('id, therapy_type_id, session_date, invoice_number')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError || !existing) {
+      return { error: 'Sitzung nicht gefunden' }
+    }
+
+    const { data, error } = await supabase
+      .from('sessions')
+      .update({
+        ...validated,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Aktualisieren fehlgeschlagen'}` }
+    }
+
+    // Keep the import history in line with the reclassified invoice
+    if (existing.invoice_number && data.therapy_type_id !== existing.therapy_type_id) {
+      await supabase
+        .from('imported_invoices')
+        .update({ therapy_type_id: data.therapy_type_id })
+        .eq('user_id', user.id)
+        .eq('invoice_number', existing.invoice_number)
+    }
+
+    const months = [existing.session_date, data.session_date]
+    const therapyIds = [existing.therapy_type_id, data.therapy_type_id]
+    const { errors } = await syncMonthlyActualsFromLedger(supabase, user.id, months, therapyIds)
+    if (errors.length > 0) {
+      return { error: errors[0] }
+    }
+
+    revalidatePath('/dashboard/ergebnisse')
+
+    return { success: true, data: data as TherapySession }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete a ledger session and re-aggregate its month
+ */
+export async function deleteSessionAction(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('sessions')
+    .select('id, therapy_type_id, session_date, invoice_number')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (fetchError || !existing) {
+    return { error: 'Sitzung nicht gefunden' }
+  }
+
+  const { error } = await supabase
+    .from('sessions')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  // Allow the invoice to be imported again once none of its sessions remain
+  if (existing.invoice_number) {
+    const { count } = await supabase
+      .from('sessions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('invoice_number', existing.invoice_number)
+
+    if (!count) {
+      await supabase
+        .from('imported_invoices')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('invoice_number', existing.invoice_number)
+    }
+  }
+
+  const { errors } = await syncMonthlyActualsFromLedger(
+    supabase,
+    user.id,
+    [existing.session_date],
+    [existing.therapy_type_id]
+  )
+  if (errors.length > 0) {
+    return { error: errors[0] }
+  }
+
+  revalidatePath('/dashboard/ergebnisse')
+
+  return { success: true }
+}
+
+/**
+ * Re-aggregate actual sessions for a month from the ledger
+ */
+export async function reaggregateMonthAction(month: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { errors } = await syncMonthlyActualsFromLedger(supabase, user.id, [month])
+  if (errors.length > 0) {
+    return { error: errors[0] }
+  }
+
+  revalidatePath('/dashboard/ergebnisse')
+
+  return { success: true }
+}
@@ -0,0 +1,134 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { SvsAssessmentSchema, type SvsAssessmentInput } from '@/lib/validations'
+import type { SvsAssessment } from '@/lib/types'
+import {
+  getOpenSvsBackPayment,
+  projectSvsAssessments,
+  recommendSvsBase,
+  type SvsAssessmentProjection,
+  type SvsBaseRecommendation
+} from '@/lib/calculations'
+
+export interface SvsNachbemessung {
+  projections: SvsAssessmentProjection[]
+  /** Outstanding back payment of all unsettled years, credits offset */
+  openBackPayment: number
+  /** Earliest expected prescription of an outstanding back payment */
+  nextDue: string | null
+  recommendation: SvsBaseRecommendation | null
+}
+
+/**
+ * Get the SVS history of the current user, oldest year first
+ */
+export async function getSvsAssessments(): Promise<SvsAssessment[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('svs_assessments')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('year', { ascending: true })
+
+  if (error) {
+    console.error('[getSvsAssessments] Error fetching SVS history:', error)
+    return []
+  }
+
+  return (data || []).map(entry => ({
+    ...entry,
+    profit: entry.profit === null ? null : Number(entry.profit),
+    provisional_monthly_base: entry.provisional_monthly_base === null ? null : Number(entry.provisional_monthly_base)
+  })) as SvsAssessment[]
+}
+
+/**
+ * Project the SVS Nachbemessung from the history
+ */
+export async function getSvsNachbemessung(): Promise<SvsNachbemessung> {
+  const history = await getSvsAssessments()
+  const today = new Date().toISOString().split('T')[0]
+
+  const projections = projectSvsAssessments(history, today)
+  const open = projections.filter(p => !p.settled && p.backPayment > 0)
+
+  return {
+    projections,
+    openBackPayment: Math.max(0, getOpenSvsBackPayment(projections)),
+    nextDue: open.length > 0 ? open.map(p => p.expectedDue).sort()[0] : null,
+    recommendation: recommendSvsBase(projections, Number(today.slice(0, 4)))
+  }
+}
+
+/**
+ * Create or update the SVS history entry of a year
+ */
+export async function saveSvsAssessment(input: SvsAssessmentInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = SvsAssessmentSchema.parse(input)
+
+    const { error } = await supabase
+      .from('svs_assessments')
+      .upsert(
+        { ...validated, user_id: user.id, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,year' }
+      )
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard')
+    revalidatePath('/dashboard/einstellungen')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete the SVS history entry of a year
+ */
+export async function deleteSvsAssessment(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { error } = await supabase
+    .from('svs_assessments')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/dashboard/einstellungen')
+
+  return { success: true }
+}
@@ -0,0 +1,200 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import {
+  calculateE1aReport,
+  calculateVatSummary,
+  toVatExpenseFields,
+  type VatRevenueRecord
+} from '@/lib/calculations'
+import { getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import { fetchAssets, withoutAssetPurchases } from '@/lib/supabase/assets'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { fetchAllRows } from '@/lib/supabase/session-ledger'
+import { aggregateSessionLedger, ledgerKey, resolveActualRevenue } from '@/lib/utils/session-ledger'
+import {
+  combineActualAndPlannedRevenue,
+  lohnzettelToEmployment,
+  type MonthRevenue
+} from '@/lib/utils/tax-prefill'
+import type { EmploymentIncome, SelfEmploymentIncome } from '@/lib/types/tax-types'
+import type { VatRate } from '@/lib/types'
+import { getLohnzettel } from './lohnzettel'
+
+export interface TaxForecastPrefill {
+  taxYear: number
+  selfEmployment: SelfEmploymentIncome
+  /** Sum of the Lohnzettel of the year, undefined without Lohnzettel */
+  employment?: EmploymentIncome
+  employers: string[]
+  /** Months counted with their actual revenue */
+  actualMonths: number
+  /** Months counted with their planned revenue */
+  plannedMonths: number
+}
+
+/**
+ * Steuerprognose input of a tax year from the recorded data
+ *
+ * Revenue: months with entered results count with their actual revenue
+ * (session ledger where invoices exist), the other months with their plan.
+ * Expenses: the year's expenses as in the E1a, with recurring expenses on
+ * every due date of the year and assets with their AfA.
+ * VAT: the UVA figures of the same revenue at the VAT rate of its therapy type.
+ */
+export async function getTaxForecastPrefill(taxYear: number): Promise<TaxForecastPrefill | null> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  const yearStart = `${taxYear}-01-01`
+  const nextYearStart = `${taxYear + 1}-01-01`
+
+  const [settingsResult, therapiesResult, plansResult, ledgerResult, expensesResult] = await Promise.all([
+    supabase
+      .from('practice_settings')
+      .select('practice_type, vat_kleinunternehmer, vat_return_period')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    supabase
+      .from('therapy_types')
+      .select('id, price_per_session, vat_rate')
+      .eq('user_id', user.id),
+    supabase
+      .from('monthly_plans')
+      .select('therapy_type_id, month, planned_sessions, actual_sessions')
+      .eq('user_id', user.id)
+      .gte('month', yearStart)
+      .lt('month', nextYearStart),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('therapy_type_id, session_date, gross_amount')
+        .eq('user_id', user.id)
+        .gte('session_date', yearStart)
+        .lt('session_date', nextYearStart)
+        .order('id')
+        .range(from, to)
+    ),
+    // One-time expenses of the year and recurring expenses started before its end
+    fetchAllRows((from, to) =>
+      supabase
+        .from('expenses')
+        .select('id, category, subcategory, amount, expense_date, is_recurring, recurrence_interval, vat_rate, vat_allocation, vat_breakdown')
+        .eq('user_id', user.id)
+        .lt('expense_date', nextYearStart)
+        .or(`is_recurring.eq.true,expense_date.gte.${yearStart}`)
+        .order('id')
+        .range(from, to)
+    )
+  ])
+
+  if (therapiesResult.error || plansResult.error || ledgerResult.error || expensesResult.error) {
+    console.error(
+      '[getTaxForecastPrefill] Error fetching data:',
+      therapiesResult.error || plansResult.error || ledgerResult.error || expensesResult.error
+    )
+    return null
+  }
+
+  const [prices, assets, lohnzettel] = await Promise.all([
+    fetchTherapyPrices(supabase, user.id),
+    fetchAssets(supabase, user.id),
+    getLohnzettel(taxYear)
+  ])
+  const therapies = new Map((therapiesResult.data || []).map(t => [t.id, t]))
+  const ledger = aggregateSessionLedger(ledgerResult.data || [])
+
+  // Planned and actual revenue per month; a month has results once a session
+  // count is entered or invoices are imported for one of its plans
+  const months = new Map<string, MonthRevenue & {
+    hasResults: boolean
+    actualRevenue: number
+    plannedVat: VatRevenueRecord[]
+    actualVat: VatRevenueRecord[]
+  }>()
+  for (const plan of plansResult.data || []) {
+    const therapy = therapies.get(plan.therapy_type_id)
+    if (!therapy) continue
+
+    const month = String(plan.month).slice(0, 7)
+    const price = getPriceForMonth(getPriceSchedule(prices, therapy), `${month}-01`)
+    const ledgerEntry = ledger.get(ledgerKey(month, plan.therapy_type_id))
+    const entry = months.get(month) ?? {
+      month, planned: 0, actual: null, hasResults: false, actualRevenue: 0, plannedVat: [], actualVat: []
+    }
+    const planned = (plan.planned_sessions || 0) * price
+    const actual = resolveActualRevenue(plan.actual_sessions || 0, price, ledgerEntry)
+    const vatRate = Number(therapy.vat_rate ?? 0) as VatRate
+    entry.planned += planned
+    entry.actualRevenue += actual
+    entry.plannedVat.push({ date: `${month}-01`, amount: planned, vat_rate: vatRate })
+    entry.actualVat.push({ date: `${month}-01`, amount: actual, vat_rate: vatRate })
+    entry.hasResults ||= plan.actual_sessions !== null || (ledgerEntry?.sessions ?? 0) > 0
+    months.set(month, entry)
+  }
+
+  const revenue = combineActualAndPlannedRevenue(
+    [...months.values()].map(({ month, planned, hasResults, actualRevenue }) => ({
+      month,
+      planned,
+      actual: hasResults ? actualRevenue : null
+    }))
+  )
+
+  const expenses = withoutAssetPurchases(expensesResult.data || [], assets)
+  const report = calculateE1aReport({
+    year: taxYear,
+    revenues: [],
+    expenses: expenses.map(expense => ({
+      category: expense.category,
+      subcategory: expense.subcategory,
+      amount: Number(expense.amount),
+      expense_date: expense.expense_date,
+      is_recurring: expense.is_recurring,
+      recurrence_interval: expense.recurrence_interval
+    })),
+    assets
+  })
+
+  const expenseBreakdown: Record<string, number> = {}
+  for (const line of report.lines) {
+    if (line.kind !== 'expense') continue
+    for (const item of line.items) {
+      expenseBreakdown[item.label] = (expenseBreakdown[item.label] ?? 0) + item.amount
+    }
+  }
+
+  const vat = calculateVatSummary({
+    year: taxYear,
+    revenues: [...months.values()].flatMap(entry => (entry.hasResults ? entry.actualVat : entry.plannedVat)),
+    expenses: expenses.map(expense => ({
+      expense_date: expense.expense_date,
+      amount: Number(expense.amount),
+      is_recurring: expense.is_recurring,
+      recurrence_interval: expense.recurrence_interval,
+      ...toVatExpenseFields(expense)
+    })),
+    kleinunternehmer: settingsResult.data?.vat_kleinunternehmer ?? true,
+    returnPeriod: settingsResult.data?.vat_return_period === 'monthly' ? 'monthly' : 'quarterly',
+    today: new Date().toISOString().split('T')[0]
+  })
+
+  return {
+    taxYear,
+    selfEmployment: {
+      totalRevenue: revenue.revenue,
+      businessExpenses: report.totalExpenses,
+      expenseBreakdown,
+      vatPayable: vat.total.kz095,
+      practiceType: (settingsResult.data?.practice_type as 'kassenarzt' | 'wahlarzt' | 'mixed') || 'wahlarzt'
+    },
+    employment: lohnzettelToEmployment(lohnzettel),
+    employers: lohnzettel.map(entry => entry.employer_name),
+    actualMonths: revenue.actualMonths,
+    plannedMonths: revenue.plannedMonths
+  }
+}
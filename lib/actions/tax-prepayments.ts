@@ -0,0 +1,73 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { TaxPrepaymentSchema, type TaxPrepaymentInput } from '@/lib/validations'
+import type { TaxPrepayment } from '@/lib/types'
+
+/**
+ * Get the income-tax prepayments of a year, by quarter
+ */
+export async function getTaxPrepayments(year: number): Promise<TaxPrepayment[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('tax_prepayments')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('year', year)
+    .order('quarter', { ascending: true })
+
+  if (error) {
+    console.error('[getTaxPrepayments] Error fetching prepayments:', error)
+    return []
+  }
+
+  return (data || []).map(prepayment => ({
+    ...prepayment,
+    assessed_amount: Number(prepayment.assessed_amount),
+    paid_amount: Number(prepayment.paid_amount)
+  })) as TaxPrepayment[]
+}
+
+/**
+ * Record the prepayment set by the Finanzamt and the payment of a quarter
+ */
+export async function saveTaxPrepayment(input: TaxPrepaymentInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = TaxPrepaymentSchema.parse(input)
+
+    const { error } = await supabase
+      .from('tax_prepayments')
+      .upsert(
+        { ...validated, user_id: user.id, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,year,quarter' }
+      )
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/steuerprognose')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
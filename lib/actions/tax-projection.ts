@@ -0,0 +1,109 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { calculateSessionRevenue } from '@/lib/calculations'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { PROJECTION_YEARS } from '@/lib/utils/tax-projection'
+
+export interface TaxProjectionBase {
+  startYear: number
+  /** Planned revenue of the start year */
+  baseRevenue: number
+  /** Fixed costs plus variable costs of the planned sessions of the start year */
+  baseExpenses: number
+  /** Planned revenue of the following years that have plans */
+  plannedRevenue: Record<number, number>
+  practiceType: 'kassenarzt' | 'wahlarzt' | 'mixed'
+  /** Expected growth rate from the practice settings (percent) */
+  growthRate: number
+}
+
+/**
+ * Starting point of the multi-year tax projection from the yearly plans
+ *
+ * Each year with at least one planned month counts with its planned revenue;
+ * months of that year without a plan are valued at its average planned month
+ */
+export async function getTaxProjectionBase(): Promise<TaxProjectionBase | null> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  const startYear = new Date().getFullYear()
+
+  const [settingsResult, therapiesResult, plansResult] = await Promise.all([
+    supabase
+      .from('practice_settings')
+      .select('practice_type, monthly_fixed_costs, average_variable_cost_per_session, expected_growth_rate')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    supabase
+      .from('therapy_types')
+      .select('id, price_per_session')
+      .eq('user_id', user.id),
+    supabase
+      .from('monthly_plans')
+      .select('therapy_type_id, month, planned_sessions')
+      .eq('user_id', user.id)
+      .gte('month', `${startYear}-01-01`)
+      .lt('month', `${startYear + PROJECTION_YEARS.max}-01-01`)
+  ])
+
+  if (therapiesResult.error || plansResult.error) {
+    console.error('[getTaxProjectionBase] Error fetching data:', therapiesResult.error || plansResult.error)
+    return null
+  }
+
+  const prices = await fetchTherapyPrices(supabase, user.id)
+  const therapies = therapiesResult.data || []
+
+  // Planned revenue and sessions per year and month
+  const plannedByYear = new Map<number, Map<string, { revenue: number; sessions: number }>>()
+  for (const plan of plansResult.data || []) {
+    const therapy = therapies.find(t => t.id === plan.therapy_type_id)
+    if (!therapy || !plan.planned_sessions) continue
+
+    const month = String(plan.month).slice(0, 7)
+    const year = Number(month.slice(0, 4))
+    const { revenue } = calculateSessionRevenue(plan.planned_sessions, getPriceSchedule(prices, therapy), month)
+    const months = plannedByYear.get(year) ?? new Map<string, { revenue: number; sessions: number }>()
+    const entry = months.get(month) ?? { revenue: 0, sessions: 0 }
+    entry.revenue += revenue
+    entry.sessions += plan.planned_sessions
+    months.set(month, entry)
+    plannedByYear.set(year, months)
+  }
+
+  // Planned months extrapolated to the full year
+  const yearTotals = new Map<number, { revenue: number; sessions: number }>()
+  for (const [year, months] of plannedByYear) {
+    const values = [...months.values()]
+    const factor = 12 / values.length
+    yearTotals.set(year, {
+      revenue: Math.round(values.reduce((sum, m) => sum + m.revenue, 0) * factor * 100) / 100,
+      sessions: Math.round(values.reduce((sum, m) => sum + m.sessions, 0) * factor)
+    })
+  }
+
+  const settings = settingsResult.data
+  const start = yearTotals.get(startYear) ?? { revenue: 0, sessions: 0 }
+  const plannedRevenue: Record<number, number> = {}
+  for (const [year, totals] of yearTotals) {
+    if (year > startYear) plannedRevenue[year] = totals.revenue
+  }
+
+  return {
+    startYear,
+    baseRevenue: start.revenue,
+    baseExpenses: Math.round(
+      (Number(settings?.monthly_fixed_costs ?? 0) * 12 +
+        Number(settings?.average_variable_cost_per_session ?? 0) * start.sessions) * 100
+    ) / 100,
+    plannedRevenue,
+    practiceType: (settings?.practice_type as 'kassenarzt' | 'wahlarzt' | 'mixed') || 'wahlarzt',
+    growthRate: Number(settings?.expected_growth_rate ?? 5)
+  }
+}
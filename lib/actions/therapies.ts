@@ -4,7 +4,15 @@ import { createClient } from '@/utils/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { TherapyTypeSchema, type TherapyTypeInput } from '@/lib/validations'
 import type { TherapyType, TherapyWithMetrics } from '@/lib/types'
-import { calculatePaymentFee, calculateNetRevenue, SUMUP_FEE_RATE } from '@/lib/calculations/payment-fees'
+import { calculatePaymentFees, getEffectiveFeePercentage, SUMUP_FEE_RATE } from '@/lib/calculations/payment-fees'
+import { getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import {
+  fetchTherapyPrices,
+  getCurrentMonthStart,
+  getPriceSchedule,
+  recordCurrentPrice
+} from '@/lib/supabase/therapy-prices'
+import { fetchPlannedFeeSetting } from '@/lib/supabase/payment-fees'
 
 /**
  * Create a new therapy type
@@ -27,7 +35,9 @@ export async function createTherapyAction(input: TherapyTypeInput) {
       .insert({
         user_id: user.id,
         name: validated.name,
-        price_per_session: validated.price_per_session
+        price_per_session: validated.price_per_session,
+        payer_type: validated.payer_type,
+        vat_rate: validated.vat_rate
       })
       .select()
 
@@ -36,6 +46,18 @@ export async function createTherapyAction(input: TherapyTypeInput) {
       return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
     }
 
+    // Start the price history with the initial price
+    if (data && data.length > 0) {
+      await supabase
+        .from('therapy_prices')
+        .insert({
+          user_id: user.id,
+          therapy_type_id: data[0].id,
+          price: validated.price_per_session,
+          valid_from: getCurrentMonthStart()
+        })
+    }
+
     // Revalidate cache
     revalidatePath('/dashboard/therapien')
 
@@ -65,12 +87,31 @@ export async function updateTherapyAction(
   try {
     const validated = TherapyTypeSchema.parse(input)
 
+    const { data: existing, error: fetchError } = await supabase
+      .from('therapy_types')
+      .select('id, price_per_session, created_at')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError || !existing) {
+      return { error: 'Therapieart nicht gefunden oder keine Berechtigung' }
+    }
+
+    // A changed price takes effect from the current month; earlier months keep their price
+    const priceResult = await recordCurrentPrice(supabase, user.id, existing, validated.price_per_session)
+    if (priceResult.error) {
+      return { error: `Fehler: ${priceResult.error}` }
+    }
+
     // Update in database
     const { data, error } = await supabase
       .from('therapy_types')
       .update({
         name: validated.name,
         price_per_session: validated.price_per_session,
+        payer_type: validated.payer_type,
+        vat_rate: validated.vat_rate,
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
@@ -163,7 +204,7 @@ export async function getTherapies(): Promise<TherapyType[]> {
       return []
     }
 
-    return data || []
+    return withCurrentPrices(data || [], await fetchTherapyPrices(supabase, user.id))
   } catch (err) {
     console.error('Exception fetching therapies:', err)
     return []
@@ -190,18 +231,14 @@ export async function getTherapiesWithMetrics(): Promise<TherapyWithMetrics[]> {
       return []
     }
 
-    // Fetch therapies and practice settings in parallel
-    const [therapiesResult, settingsResult] = await Promise.all([
+    // Fetch therapies and payment fee setting in parallel
+    const [therapiesResult, feeSetting] = await Promise.all([
       supabase
         .from('therapy_types')
         .select('*')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false }),
-      supabase
-        .from('practice_settings')
-        .select('payment_processing_fee_percentage')
-        .eq('user_id', user.id)
-        .single()
+      fetchPlannedFeeSetting(supabase, user.id, SUMUP_FEE_RATE * 100)
     ])
 
     if (therapiesResult.error) {
@@ -214,17 +251,16 @@ export async function getTherapiesWithMetrics(): Promise<TherapyWithMetrics[]> {
       return []
     }
 
-    const therapies = therapiesResult.data || []
+    const therapies = withCurrentPrices(therapiesResult.data || [], await fetchTherapyPrices(supabase, user.id))
 
-    // Use practice settings fee percentage if available, otherwise use default SumUp rate
-    // Note: practice_settings stores percentage as decimal (e.g., 1.39), SUMUP_FEE_RATE is 0.0139
-    const feePercentage = settingsResult.data?.payment_processing_fee_percentage ?? (SUMUP_FEE_RATE * 100)
-    const feeRate = feePercentage / 100 // Convert percentage to decimal for calculations
+    // Fee profiles weighted by planned payment method shares, or the single practice fee percentage
+    // Note: percentages are stored as e.g. 1.39, SUMUP_FEE_RATE is 0.0139
+    const feePercentage = getEffectiveFeePercentage(feeSetting)
 
-    // Enrich each therapy with payment fee metrics
+    // Enrich each therapy with payment fee metrics (one payment per session)
     const therapiesWithMetrics: TherapyWithMetrics[] = therapies.map((therapy) => {
       const pricePerSession = therapy.price_per_session
-      const paymentFeePerSession = pricePerSession * feeRate
+      const paymentFeePerSession = calculatePaymentFees(pricePerSession, feeSetting, 1)
       const netRevenuePerSession = pricePerSession - paymentFeePerSession
 
       return {
@@ -241,3 +277,18 @@ export async function getTherapiesWithMetrics(): Promise<TherapyWithMetrics[]> {
     return []
   }
 }
+
+/**
+ * Replace price_per_session with the price valid in the current month
+ * (scheduled price changes take effect without editing the therapy type)
+ */
+function withCurrentPrices<T extends TherapyType>(
+  therapies: T[],
+  prices: Awaited<ReturnType<typeof fetchTherapyPrices>>
+): T[] {
+  const currentMonth = getCurrentMonthStart()
+  return therapies.map(therapy => ({
+    ...therapy,
+    price_per_session: getPriceForMonth(getPriceSchedule(prices, therapy), currentMonth)
+  }))
+}
@@ -0,0 +1,260 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { TherapyPriceSchema, type TherapyPriceInput } from '@/lib/validations'
+import type { TherapyPrice } from '@/lib/types'
+import { calculatePriceChangeImpact, getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import { fetchTherapyPrices, getCurrentMonthStart, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+
+/**
+ * Get the price history of a therapy type (oldest first)
+ */
+export async function getTherapyPrices(therapyTypeId: string): Promise<TherapyPrice[]> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('therapy_prices')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('therapy_type_id', therapyTypeId)
+    .order('valid_from', { ascending: true })
+
+  if (error) {
+    console.error('[getTherapyPrices] Error fetching prices:', error)
+    return []
+  }
+
+  return (data || []).map(p => ({ ...p, price: Number(p.price) })) as TherapyPrice[]
+}
+
+/**
+ * Get the price valid in a month for every therapy type of the user
+ * @param month YYYY-MM
+ * @returns Map of therapy_type_id to price
+ */
+export async function getTherapyPricesForMonth(month: string): Promise<Record<string, number>> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return {}
+  }
+
+  const { data: therapies } = await supabase
+    .from('therapy_types')
+    .select('id, price_per_session')
+    .eq('user_id', user.id)
+
+  const prices = await fetchTherapyPrices(supabase, user.id)
+
+  return Object.fromEntries(
+    (therapies || []).map(t => [t.id, getPriceForMonth(getPriceSchedule(prices, t), month)])
+  )
+}
+
+/**
+ * Schedule a price for a therapy type from a given month onwards
+ * An existing price for the same month is replaced
+ */
+export async function scheduleTherapyPriceAction(therapyTypeId: string, input: TherapyPriceInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = TherapyPriceSchema.parse(input)
+    const validFrom = `${validated.valid_from.slice(0, 7)}-01`
+
+    const { data: therapy, error: therapyError } = await supabase
+      .from('therapy_types')
+      .select('id, price_per_session, created_at')
+      .eq('id', therapyTypeId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (therapyError || !therapy) {
+      return { error: 'Therapieart nicht gefunden oder keine Berechtigung' }
+    }
+
+    // Keep the original price for past months if there is no history yet
+    const { count } = await supabase
+      .from('therapy_prices')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('therapy_type_id', therapyTypeId)
+
+    const rows = []
+    const createdMonth = `${therapy.created_at.slice(0, 7)}-01`
+    if (!count && createdMonth < validFrom) {
+      rows.push({ user_id: user.id, therapy_type_id: therapyTypeId, price: therapy.price_per_session, valid_from: createdMonth })
+    }
+    rows.push({ user_id: user.id, therapy_type_id: therapyTypeId, price: validated.price, valid_from: validFrom })
+
+    const { error } = await supabase
+      .from('therapy_prices')
+      .upsert(rows, { onConflict: 'therapy_type_id,valid_from' })
+
+    if (error) {
+      console.error('Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    await syncCurrentPrice(supabase, user.id, therapyTypeId)
+
+    revalidatePath('/dashboard/therapien')
+    revalidatePath('/dashboard/planung')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
+
+/**
+ * Delete a scheduled or historical price
+ * The last remaining price of a therapy type cannot be deleted
+ */
+export async function deleteTherapyPriceAction(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  const { data: record, error: fetchError } = await supabase
+    .from('therapy_prices')
+    .select('id, therapy_type_id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (fetchError || !record) {
+    return { error: 'Preis nicht gefunden' }
+  }
+
+  const { count } = await supabase
+    .from('therapy_prices')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+    .eq('therapy_type_id', record.therapy_type_id)
+
+  if ((count ?? 0) <= 1) {
+    return { error: 'Der einzige Preis einer Therapieart kann nicht gelöscht werden' }
+  }
+
+  const { error } = await supabase
+    .from('therapy_prices')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    return { error: `Fehler: ${error.message || 'Löschen fehlgeschlagen'}` }
+  }
+
+  await syncCurrentPrice(supabase, user.id, record.therapy_type_id)
+
+  revalidatePath('/dashboard/therapien')
+  revalidatePath('/dashboard/planung')
+
+  return { success: true }
+}
+
+/**
+ * Forecast impact of a price change on planned sessions (next 12 months from validFrom)
+ */
+export async function getPriceChangeImpact(
+  therapyTypeId: string,
+  newPrice: number,
+  validFrom: string
+) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  const start = `${validFrom.slice(0, 7)}-01`
+  const [year, month] = start.split('-').map(Number)
+  const endDate = new Date(year, month - 1 + 12, 1)
+  const end = `${endDate.getFullYear()}-${String(endDate.getMonth() + 1).padStart(2, '0')}-01`
+
+  const [therapyResult, pricesResult, plansResult] = await Promise.all([
+    supabase
+      .from('therapy_types')
+      .select('price_per_session')
+      .eq('id', therapyTypeId)
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    supabase
+      .from('therapy_prices')
+      .select('price, valid_from')
+      .eq('user_id', user.id)
+      .eq('therapy_type_id', therapyTypeId),
+    supabase
+      .from('monthly_plans')
+      .select('month, planned_sessions')
+      .eq('user_id', user.id)
+      .eq('therapy_type_id', therapyTypeId)
+      .gte('month', start)
+      .lt('month', end)
+  ])
+
+  if (!therapyResult.data) {
+    return null
+  }
+
+  const schedule = {
+    basePrice: therapyResult.data.price_per_session,
+    records: (pricesResult.data || []).map(p => ({ price: Number(p.price), valid_from: p.valid_from }))
+  }
+
+  return calculatePriceChangeImpact(
+    (plansResult.data || []).map(p => ({ month: p.month, sessions: p.planned_sessions || 0 })),
+    schedule,
+    newPrice,
+    start
+  )
+}
+
+/**
+ * Mirror the price valid in the current month into therapy_types.price_per_session
+ */
+async function syncCurrentPrice(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  therapyTypeId: string
+) {
+  const { data: records } = await supabase
+    .from('therapy_prices')
+    .select('price, valid_from')
+    .eq('user_id', userId)
+    .eq('therapy_type_id', therapyTypeId)
+
+  if (!records || records.length === 0) return
+
+  const currentPrice = getPriceForMonth(
+    { basePrice: 0, records: records.map(r => ({ price: Number(r.price), valid_from: r.valid_from })) },
+    getCurrentMonthStart()
+  )
+
+  await supabase
+    .from('therapy_types')
+    .update({ price_per_session: currentPrice, updated_at: new Date().toISOString() })
+    .eq('id', therapyTypeId)
+    .eq('user_id', userId)
+}
@@ -0,0 +1,155 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { VatSettingsSchema, type VatSettingsInput } from '@/lib/validations'
+import type { VatRate } from '@/lib/types'
+import {
+  calculateVatSummary,
+  toVatExpenseFields,
+  type VatExpenseRecord,
+  type VatRevenueRecord,
+  type VatSummary
+} from '@/lib/calculations'
+import { getTaxConfig } from '@/lib/config/tax-config'
+import { fetchAllRows } from '@/lib/supabase/session-ledger'
+
+export interface VatReport {
+  summary: VatSummary
+  settings: VatSettingsInput
+  /** Previous-year turnover above which the UVA is due monthly */
+  uvaMonthlyThreshold: number
+}
+
+/**
+ * UVA figures and Kleinunternehmer check of a year
+ *
+ * Revenue counts when it is received (paid date, else the session date);
+ * the VAT rate comes from the therapy type of the session
+ */
+export async function getVatReport(year: number): Promise<VatReport | null> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  const [settingsResult, therapiesResult, sessionsResult, expensesResult] = await Promise.all([
+    supabase
+      .from('practice_settings')
+      .select('vat_kleinunternehmer, vat_return_period')
+      .eq('user_id', user.id)
+      .maybeSingle(),
+    supabase
+      .from('therapy_types')
+      .select('id, vat_rate')
+      .eq('user_id', user.id),
+    // Payments may arrive in the year after the session
+    fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('therapy_type_id, session_date, paid_amount, paid_date')
+        .eq('user_id', user.id)
+        .gt('paid_amount', 0)
+        .gte('session_date', `${year - 1}-01-01`)
+        .lt('session_date', `${year + 1}-01-01`)
+        .order('id')
+        .range(from, to)
+    ),
+    // One-time expenses of the year and recurring expenses started before its end
+    fetchAllRows((from, to) =>
+      supabase
+        .from('expenses')
+        .select('amount, expense_date, is_recurring, recurrence_interval, vat_rate, vat_allocation, vat_breakdown')
+        .eq('user_id', user.id)
+        .lt('expense_date', `${year + 1}-01-01`)
+        .or(`is_recurring.eq.true,expense_date.gte.${year}-01-01`)
+        .order('id')
+        .range(from, to)
+    )
+  ])
+
+  if (therapiesResult.error || sessionsResult.error || expensesResult.error) {
+    console.error(
+      '[getVatReport] Error fetching data:',
+      therapiesResult.error || sessionsResult.error || expensesResult.error
+    )
+    return null
+  }
+
+  const settings: VatSettingsInput = {
+    vat_kleinunternehmer: settingsResult.data?.vat_kleinunternehmer ?? true,
+    vat_return_period: settingsResult.data?.vat_return_period === 'monthly' ? 'monthly' : 'quarterly'
+  }
+
+  const vatRates = new Map((therapiesResult.data || []).map(t => [t.id, Number(t.vat_rate ?? 0) as VatRate]))
+  const revenues: VatRevenueRecord[] = (sessionsResult.data || [])
+    .map(session => ({
+      date: session.paid_date || session.session_date,
+      amount: Number(session.paid_amount),
+      vat_rate: vatRates.get(session.therapy_type_id) ?? 0
+    }))
+    .filter(revenue => revenue.date.startsWith(`${year}-`))
+
+  const expenses: VatExpenseRecord[] = (expensesResult.data || []).map(expense => ({
+    expense_date: expense.expense_date,
+    amount: Number(expense.amount),
+    is_recurring: expense.is_recurring,
+    recurrence_interval: expense.recurrence_interval,
+    ...toVatExpenseFields(expense)
+  }))
+
+  const summary = calculateVatSummary({
+    year,
+    revenues,
+    expenses,
+    kleinunternehmer: settings.vat_kleinunternehmer,
+    returnPeriod: settings.vat_return_period,
+    today: new Date().toISOString().split('T')[0]
+  })
+
+  return {
+    summary,
+    settings,
+    uvaMonthlyThreshold: getTaxConfig(year).vat.uvaMonthlyThreshold
+  }
+}
+
+/**
+ * Save the Kleinunternehmer option and the UVA period
+ */
+export async function saveVatSettingsAction(input: VatSettingsInput) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Authentifizierung fehlgeschlagen' }
+  }
+
+  try {
+    const validated = VatSettingsSchema.parse(input)
+
+    const { error } = await supabase
+      .from('practice_settings')
+      .update({
+        ...validated,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('[saveVatSettingsAction] Database error:', JSON.stringify(error, null, 2))
+      return { error: `Fehler: ${error.message || 'Speichern fehlgeschlagen'}` }
+    }
+
+    revalidatePath('/dashboard/berichte')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Validierungsfehler' }
+  }
+}
@@ -7,6 +7,10 @@ import {
   calculateCostPerSession,
   calculateProfitMarginPercent,
 } from '@/lib/utils/kpi-helpers'
+import { getPriceForMonth } from '@/lib/calculations/core/price-schedule'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import type { PriceSchedule } from '@/lib/calculations/types'
+import type { TherapyType } from '@/lib/types'
 
 export interface YoYMetric {
   metric: string
@@ -62,7 +66,11 @@ export async function getYoYComparison(
 
     if (!therapies) return null
 
-    const therapyMap = new Map(therapies.map(t => [t.id, t]))
+    // Attach effective-dated prices so each year is valued at its own price
+    const prices = await fetchTherapyPrices(supabase, user.id)
+    const therapyMap = new Map(
+      therapies.map(t => [t.id, { ...t, priceSchedule: getPriceSchedule(prices, t) }])
+    )
 
     // Current month date
     const currentDate = new Date(year, month - 1, 1)
@@ -246,7 +254,7 @@ function calculateMonthMetrics(
     totalPlannedSessions += plan.planned_sessions || 0
     totalActualSessions += plan.actual_sessions || 0
 
-    const revenue = (plan.actual_sessions || 0) * therapy.price_per_session
+    const revenue = (plan.actual_sessions || 0) * getPlanPrice(therapy, plan)
     const variableCost =
       (plan.actual_sessions || 0) * therapy.variable_cost_per_session
 
@@ -305,7 +313,7 @@ function calculateTherapyYoY(
     const data = therapyMap2.get(key)!
     data.currentYearSessions += plan.actual_sessions || 0
     data.currentYearRevenue +=
-      (plan.actual_sessions || 0) * therapy.price_per_session
+      (plan.actual_sessions || 0) * getPlanPrice(therapy, plan)
   })
 
   // Previous year
@@ -328,7 +336,7 @@ function calculateTherapyYoY(
     const data = therapyMap2.get(key)!
     data.previousYearSessions += plan.actual_sessions || 0
     data.previousYearRevenue +=
-      (plan.actual_sessions || 0) * therapy.price_per_session
+      (plan.actual_sessions || 0) * getPlanPrice(therapy, plan)
   })
 
   return Array.from(therapyMap2.values()).map(therapy => ({
@@ -373,15 +381,30 @@ async function getYTDMetrics(userId: string, year: number): Promise<number> {
 
   if (!therapies) return 0
 
-  const therapyMap = new Map(therapies.map(t => [t.id, t]))
+  const prices = await fetchTherapyPrices(supabase, userId)
+  const therapyMap = new Map(
+    therapies.map(t => [t.id, { ...t, priceSchedule: getPriceSchedule(prices, t) }])
+  )
 
   return plans.reduce((total, plan) => {
     const therapy = therapyMap.get(plan.therapy_type_id)
     if (!therapy) return total
-    return total + (plan.actual_sessions || 0) * therapy.price_per_session
+    return total + (plan.actual_sessions || 0) * getPlanPrice(therapy, plan)
   }, 0)
 }
 
+/**
+ * Price of a therapy in the month of a plan
+ */
+function getPlanPrice(
+  therapy: Pick<TherapyType, 'price_per_session'> & { priceSchedule?: PriceSchedule },
+  plan: { month: string }
+): number {
+  return therapy.priceSchedule
+    ? getPriceForMonth(therapy.priceSchedule, plan.month)
+    : therapy.price_per_session
+}
+
 /**
  * Calculate percentage change
  */
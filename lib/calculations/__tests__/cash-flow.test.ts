@@ -0,0 +1,106 @@
+import {
+  INCOME_TAX_DUE_DATES,
+  SVS_DUE_DATES,
+  getRecurringDueDates,
+  projectCashFlow,
+  quarterKey,
+  scheduleExpenses,
+  scheduleQuarterlyPayments,
+  scheduleReceivables,
+  scheduleRevenue,
+} from '../composite/cashflow-calculator'
+
+describe('Cash-Flow Calculator', () => {
+  describe('getRecurringDueDates', () => {
+    it('repeats from the anchor date within the range', () => {
+      expect(getRecurringDueDates('2024-03-10', 'quarterly', '2025-01-01', '2025-12-31')).toEqual([
+        '2025-03-10', '2025-06-10', '2025-09-10', '2025-12-10',
+      ])
+    })
+
+    it('clamps monthly dates to the end of shorter months', () => {
+      expect(getRecurringDueDates('2025-01-31', 'monthly', '2025-01-01', '2025-04-01')).toEqual([
+        '2025-01-31', '2025-02-28', '2025-03-31',
+      ])
+    })
+
+    it('returns one-time payments only when they fall in the range', () => {
+      expect(getRecurringDueDates('2025-05-01', null, '2025-01-01', '2026-01-01')).toEqual(['2025-05-01'])
+      expect(getRecurringDueDates('2024-05-01', null, '2025-01-01', '2026-01-01')).toEqual([])
+    })
+  })
+
+  it('pays annual bills in full when due', () => {
+    const items = scheduleExpenses(
+      [{ amount: 1200, expense_date: '2024-07-01', is_recurring: true, recurrence_interval: 'yearly', category: 'Versicherung' }],
+      '2025-01-01',
+      '2026-01-01'
+    )
+
+    expect(items).toEqual([{ date: '2025-07-01', amount: -1200, category: 'expense', label: 'Versicherung' }])
+  })
+
+  it('places SVS and income-tax prepayments on their quarterly due dates', () => {
+    const svs = scheduleQuarterlyPayments(8000, SVS_DUE_DATES, 'svs', 'SVS', '2024-01-01', '2025-01-01')
+    const tax = scheduleQuarterlyPayments(4000, INCOME_TAX_DUE_DATES, 'income_tax', 'ESt', '2025-03-01', '2026-01-01')
+
+    expect(svs.map(i => i.date)).toEqual(['2024-02-29', '2024-05-31', '2024-08-31', '2024-11-30'])
+    expect(svs[0].amount).toBe(-2000)
+    expect(tax.map(i => i.date)).toEqual(['2025-05-15', '2025-08-15', '2025-11-15'])
+  })
+
+  it('uses recorded quarterly amounts instead of the estimate', () => {
+    const recorded = new Map([[quarterKey(2025, 2), 1500], [quarterKey(2025, 3), 0]])
+    const tax = scheduleQuarterlyPayments(4000, INCOME_TAX_DUE_DATES, 'income_tax', 'ESt', '2025-03-01', '2026-01-01', recorded)
+
+    expect(tax.map(i => [i.date, i.amount])).toEqual([['2025-05-15', -1500], ['2025-11-15', -1000]])
+  })
+
+  it('collects revenue partly at the treatment and partly after the delay', () => {
+    const items = scheduleRevenue([{ month: '2025-03', amount: 1000 }], { immediateShare: 0.6, delayDays: 30 })
+
+    expect(items).toEqual([
+      { date: '2025-03-15', amount: 600, category: 'revenue', label: 'Umsatz (sofort bezahlt)' },
+      { date: '2025-04-14', amount: 400, category: 'revenue', label: 'Umsatz (Zahlungseingang)' },
+    ])
+  })
+
+  it('expects overdue receivables no earlier than today', () => {
+    const items = scheduleReceivables(
+      [
+        { invoice_date: '2025-01-01', open_amount: 90 },
+        { invoice_date: '2025-03-01', open_amount: 50, invoice_number: 'R-7' },
+      ],
+      14,
+      '2025-03-01'
+    )
+
+    expect(items.map(i => i.date)).toEqual(['2025-03-01', '2025-03-15'])
+    expect(items[1].label).toBe('Offene Rechnung R-7')
+  })
+
+  describe('projectCashFlow', () => {
+    it('tracks the monthly balance and warns below the minimum', () => {
+      const projection = projectCashFlow({
+        openingBalance: 5000,
+        minimumBalance: 2000,
+        startDate: '2025-01-01',
+        months: 3,
+        items: [
+          { date: '2025-01-10', amount: 3000, category: 'revenue', label: 'Umsatz' },
+          { date: '2025-02-28', amount: -7000, category: 'svs', label: 'SVS' },
+          { date: '2025-03-15', amount: 4000, category: 'revenue', label: 'Umsatz' },
+          { date: '2025-05-01', amount: -9999, category: 'expense', label: 'Außerhalb' },
+        ],
+      })
+
+      expect(projection.days).toHaveLength(90)
+      expect(projection.months.map(m => m.closingBalance)).toEqual([8000, 1000, 5000])
+      expect(projection.months[1]).toMatchObject({ outflows: 7000, lowestBalance: 1000, belowMinimum: true })
+      expect(projection.months[2].lowestBalance).toBe(1000)
+      expect(projection.firstShortfallDate).toBe('2025-02-28')
+      expect(projection.lowestBalance).toBe(1000)
+      expect(projection.lowestBalanceDate).toBe('2025-02-28')
+    })
+  })
+})
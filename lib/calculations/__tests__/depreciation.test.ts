@@ -0,0 +1,67 @@
+import {
+  calculateDepreciationSchedule,
+  getBookValue,
+  getDepreciationForMonth,
+  getDepreciationForPeriod,
+  getDepreciationForYear
+} from '../core/depreciation-calculator'
+
+const asset = (overrides: Partial<Parameters<typeof calculateDepreciationSchedule>[0]> = {}) => ({
+  acquisition_date: '2024-03-15',
+  acquisition_cost: 6000,
+  useful_life_years: 5,
+  disposal_date: null,
+  ...overrides
+})
+
+describe('Depreciation Calculator', () => {
+  it('writes off low-value assets (GWG) in the acquisition year', () => {
+    const schedule = calculateDepreciationSchedule(asset({ acquisition_cost: 999 }))
+
+    expect(schedule).toHaveLength(1)
+    expect(schedule[0]).toMatchObject({ year: 2024, depreciation: 999, bookValueEnd: 0, gwg: true })
+    expect(getDepreciationForMonth(asset({ acquisition_cost: 999 }), '2024-03')).toBe(999)
+    expect(getDepreciationForMonth(asset({ acquisition_cost: 999 }), '2024-04')).toBe(0)
+  })
+
+  it('depreciates linearly over the useful life', () => {
+    const schedule = calculateDepreciationSchedule(asset())
+
+    expect(schedule.map(e => e.year)).toEqual([2024, 2025, 2026, 2027, 2028])
+    expect(schedule.every(e => e.depreciation === 1200)).toBe(true)
+    expect(getBookValue(asset(), 2025)).toBe(3600)
+    expect(getBookValue(asset(), 2023)).toBe(0)
+  })
+
+  it('applies the half-year rule for assets put into use after June', () => {
+    const schedule = calculateDepreciationSchedule(asset({ acquisition_date: '2024-09-01' }))
+
+    expect(schedule[0]).toMatchObject({ depreciation: 600, halfYear: true })
+    expect(schedule).toHaveLength(6)
+    expect(schedule[5]).toMatchObject({ year: 2029, depreciation: 600, bookValueEnd: 0 })
+  })
+
+  it('puts the rounding remainder into the last year', () => {
+    const schedule = calculateDepreciationSchedule(asset({ acquisition_cost: 2000, useful_life_years: 3 }))
+
+    expect(schedule.map(e => e.depreciation)).toEqual([666.67, 666.67, 666.66])
+  })
+
+  it('writes off the remaining book value on disposal', () => {
+    const disposed = asset({ disposal_date: '2026-05-10' })
+    const schedule = calculateDepreciationSchedule(disposed)
+
+    expect(schedule).toHaveLength(3)
+    expect(schedule[2]).toMatchObject({ depreciation: 600, residualWriteOff: 3000, bookValueEnd: 0, halfYear: true })
+    expect(getDepreciationForYear(disposed, 2026)).toBe(3600)
+    expect(getDepreciationForYear(disposed, 2027)).toBe(0)
+  })
+
+  it('spreads the yearly AfA over the months in use', () => {
+    expect(getDepreciationForMonth(asset(), '2024-02')).toBe(0)
+    expect(getDepreciationForMonth(asset(), '2024-03')).toBe(120)
+    expect(getDepreciationForMonth(asset(), '2025-07')).toBe(100)
+    expect(getDepreciationForPeriod([asset()], '2024-01', '2024-12')).toBe(1200)
+    expect(getDepreciationForPeriod([asset(), asset({ acquisition_date: '2024-12-01', acquisition_cost: 500 })], '2024-11', '2025-02')).toBe(940)
+  })
+})
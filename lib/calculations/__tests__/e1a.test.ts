@@ -0,0 +1,69 @@
+import { calculateE1aReport, getE1aKennzahl } from '../composite/e1a-calculator'
+import type { E1aExpenseRecord } from '../types'
+
+const expense = (overrides: Partial<E1aExpenseRecord>): E1aExpenseRecord => ({
+  category: 'Sonstige Betriebsausgaben',
+  subcategory: 'Büromaterial',
+  amount: 100,
+  expense_date: '2025-03-01',
+  is_recurring: false,
+  recurrence_interval: null,
+  ...overrides
+})
+
+const lineOf = (report: ReturnType<typeof calculateE1aReport>, kz: string) =>
+  report.lines.find(line => line.kz === kz)!
+
+describe('E1a Calculator', () => {
+  it('maps subcategories to E1a Kennzahlen', () => {
+    expect(getE1aKennzahl('Miete')).toBe('9170')
+    expect(getE1aKennzahl('Gehälter')).toBe('9120')
+    expect(getE1aKennzahl('Arztbedarf')).toBe('9100')
+    expect(getE1aKennzahl('Ärztekammer')).toBe('9220')
+    expect(getE1aKennzahl('Steuerberatung')).toBe('9230')
+    expect(getE1aKennzahl(null)).toBe('9230')
+  })
+
+  it('fills revenue and expenses of the year on a cash basis', () => {
+    const report = calculateE1aReport({
+      year: 2025,
+      revenues: [
+        { date: '2024-12-30', amount: 500 },
+        { date: '2025-01-10', amount: 40000 },
+        { date: '2025-12-31', amount: 2000 }
+      ],
+      expenses: [
+        expense({ category: 'Räumlichkeiten', subcategory: 'Miete', amount: 1200, expense_date: '2024-07-01', is_recurring: true, recurrence_interval: 'monthly' }),
+        expense({ subcategory: 'Büromaterial', amount: 80 }),
+        expense({ subcategory: 'Büromaterial', amount: 200, expense_date: '2026-01-05' })
+      ],
+      assets: []
+    })
+
+    expect(lineOf(report, '9040').amount).toBe(42000)
+    expect(lineOf(report, '9170').amount).toBe(14400)
+    expect(lineOf(report, '9230')).toMatchObject({ amount: 80, items: [{ label: 'Büromaterial', amount: 80 }] })
+    expect(report.totalIncome).toBe(42000)
+    expect(report.totalExpenses).toBe(14480)
+    expect(report.profit).toBe(27520)
+  })
+
+  it('reports assets with their AfA and the book value on disposal', () => {
+    const report = calculateE1aReport({
+      year: 2025,
+      revenues: [],
+      expenses: [],
+      assets: [
+        { name: 'Ultraschall', acquisition_date: '2023-01-15', acquisition_cost: 10000, useful_life_years: 5, disposal_date: null },
+        { name: 'Laptop', acquisition_date: '2024-02-01', acquisition_cost: 1500, useful_life_years: 3, disposal_date: '2025-06-30' }
+      ]
+    })
+
+    expect(lineOf(report, '9130').items).toEqual([
+      { label: 'Ultraschall', amount: 2000 },
+      { label: 'Laptop', amount: 250 } // half-year AfA in the disposal year
+    ])
+    expect(lineOf(report, '9200').amount).toBe(750)
+    expect(report.profit).toBe(-3000)
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Payment Fee Profiles Test Suite
+ *
+ * Tests for payment-method-aware fees: revenue split per payment method,
+ * percentage, per-transaction and monthly fees.
+ */
+
+import {
+  buildRevenueSplit,
+  calculateMonthlyPaymentCosts,
+  calculateMonthlyProfit,
+  calculateNetRevenue,
+  calculatePaymentFeeBreakdown,
+  calculatePaymentFees,
+  createPaymentFeeModel,
+  getEffectiveFeePercentage,
+  normalizeRevenueSplit,
+  DEFAULT_FEE_PROFILES,
+  type FeeProfile,
+} from '../payment-fees';
+
+const profiles: FeeProfile[] = [
+  { payment_method: 'bar', percentage_fee: 0, fixed_fee: 0, monthly_fee: 0, planned_share: 20 },
+  { payment_method: 'bankomat', percentage_fee: 0.9, fixed_fee: 0.1, monthly_fee: 0, planned_share: 30 },
+  { payment_method: 'kreditkarte', percentage_fee: 1.39, fixed_fee: 0, monthly_fee: 15, planned_share: 50 },
+  { payment_method: 'ueberweisung', percentage_fee: 0, fixed_fee: 0, monthly_fee: 0, planned_share: 0 },
+];
+
+describe('Payment Fee Profiles', () => {
+  describe('Revenue split', () => {
+    it('should sum up ledger revenue per payment method and ignore unknown methods', () => {
+      const split = buildRevenueSplit([
+        { payment_method: 'bar', gross_amount: 100 },
+        { payment_method: 'kreditkarte', gross_amount: 120 },
+        { payment_method: 'bar', gross_amount: 80 },
+        { payment_method: null, gross_amount: 500 },
+      ]);
+
+      expect(split).toEqual({ bar: 180, kreditkarte: 120 });
+    });
+
+    it('should normalize amounts to shares', () => {
+      expect(normalizeRevenueSplit({ bar: 300, kreditkarte: 100 })).toEqual({ bar: 0.75, kreditkarte: 0.25 });
+      expect(normalizeRevenueSplit({})).toEqual({});
+    });
+
+    it('should prefer the actual split over planned shares', () => {
+      const model = createPaymentFeeModel(profiles, { bar: 400, ueberweisung: 100 });
+      expect(model.split).toEqual({ bar: 0.8, ueberweisung: 0.2 });
+    });
+
+    it('should fall back to planned shares without actual data', () => {
+      const model = createPaymentFeeModel(profiles, {});
+      expect(model.split).toEqual({ bar: 0.2, bankomat: 0.3, kreditkarte: 0.5 });
+    });
+
+    it('should treat all revenue as card payments without any shares', () => {
+      const model = createPaymentFeeModel(profiles.map(p => ({ ...p, planned_share: 0 })));
+      expect(model.split).toEqual({ kreditkarte: 1 });
+    });
+  });
+
+  describe('Fee calculation', () => {
+    it('should apply the fees of each payment method to its share of revenue', () => {
+      const model = createPaymentFeeModel(profiles);
+      const breakdown = calculatePaymentFeeBreakdown(1000, model, 10);
+
+      const bankomat = breakdown.find(item => item.payment_method === 'bankomat')!;
+      expect(bankomat.gross_revenue).toBeCloseTo(300, 2);
+      expect(bankomat.transactions).toBeCloseTo(3, 2);
+      // 300 * 0.9% + 3 * 0.10
+      expect(bankomat.fees).toBeCloseTo(3.0, 2);
+
+      // bar: 0, bankomat: 3.00, kreditkarte: 500 * 1.39% = 6.95
+      expect(calculatePaymentFees(1000, model, 10)).toBeCloseTo(9.95, 2);
+    });
+
+    it('should not charge cash-only revenue', () => {
+      const model = createPaymentFeeModel(profiles, { bar: 1 });
+      expect(calculateNetRevenue(1000, model, 10)).toBe(1000);
+    });
+
+    it('should keep the single percentage behaviour', () => {
+      expect(calculatePaymentFees(1000, 1.39)).toBeCloseTo(13.9, 2);
+      expect(calculateNetRevenue(1000, 1.39)).toBeCloseTo(986.1, 2);
+      expect(getEffectiveFeePercentage(1.39)).toBe(1.39);
+    });
+
+    it('should include monthly fees in monthly payment costs and profit', () => {
+      const model = createPaymentFeeModel(profiles, { kreditkarte: 1 });
+
+      // 5000 * 1.39% + 15 monthly fee
+      expect(calculateMonthlyPaymentCosts(5000, model)).toBeCloseTo(84.5, 2);
+      expect(calculateMonthlyProfit(5000, 2000, model)).toBeCloseTo(2915.5, 2);
+    });
+
+    it('should calculate the effective fee percentage of a split', () => {
+      const model = createPaymentFeeModel(profiles, { bar: 1, kreditkarte: 1 });
+      expect(getEffectiveFeePercentage(model)).toBeCloseTo(0.695, 3);
+    });
+
+    it('should match the former SumUp rate with default profiles', () => {
+      const model = createPaymentFeeModel(DEFAULT_FEE_PROFILES);
+      expect(calculateNetRevenue(100, model)).toBeCloseTo(calculateNetRevenue(100), 6);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { getPrepaymentDueDate, reconcilePrepayments } from '../core/prepayment-calculator'
+import type { TaxPrepaymentRecord } from '../types'
+
+const quarterly = (assessed: number, paidQuarters: number): TaxPrepaymentRecord[] =>
+  [1, 2, 3, 4].map(quarter => ({
+    quarter,
+    assessed_amount: assessed,
+    paid_amount: quarter <= paidQuarters ? assessed : 0,
+    paid_on: null
+  }))
+
+describe('Prepayment Calculator', () => {
+  it('schedules prepayments on 15 Feb, May, Aug and Nov', () => {
+    expect([1, 2, 3, 4].map(q => getPrepaymentDueDate(2026, q))).toEqual([
+      '2026-02-15', '2026-05-15', '2026-08-15', '2026-11-15'
+    ])
+  })
+
+  it('tracks paid, outstanding and overdue quarters', () => {
+    const result = reconcilePrepayments(quarterly(3000, 1), 12000, 2026, '2026-06-01')
+
+    expect(result.totalAssessed).toBe(12000)
+    expect(result.totalPaid).toBe(3000)
+    expect(result.outstanding).toBe(9000)
+    expect(result.quarters.map(q => q.overdue)).toEqual([false, true, false, false])
+    expect(result.expectedSettlement).toBe(0)
+    expect(result.recommendation.action).toBe('none')
+  })
+
+  it('recommends a Herabsetzungsantrag until 30 September', () => {
+    const result = reconcilePrepayments(quarterly(5000, 2), 12000, 2026, '2026-06-01')
+
+    expect(result.expectedSettlement).toBe(-8000)
+    expect(result.recommendation).toEqual({ action: 'lower', suggestedAnnual: 12000, deadline: '2026-09-30' })
+    expect(reconcilePrepayments(quarterly(5000, 2), 12000, 2026, '2026-10-01').recommendation.action).toBe('none')
+  })
+
+  it('recommends raising the prepayments before Anspruchszinsen accrue', () => {
+    const result = reconcilePrepayments(quarterly(2000, 4), 15000, 2026, '2026-12-01')
+
+    expect(result.expectedSettlement).toBe(7000)
+    expect(result.recommendation).toEqual({ action: 'raise', suggestedAnnual: 15000, deadline: '2027-09-30' })
+  })
+
+  it('ignores small differences', () => {
+    expect(reconcilePrepayments(quarterly(3000, 0), 12400, 2026, '2026-01-10').recommendation.action).toBe('none')
+  })
+})
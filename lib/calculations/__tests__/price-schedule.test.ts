@@ -0,0 +1,71 @@
+import {
+  calculatePriceChangeImpact,
+  getPriceForMonth,
+  groupPriceRecords,
+} from '../core/price-schedule'
+import { calculateSessionRevenue } from '../core/revenue-calculator'
+import type { PriceSchedule } from '../types'
+
+const schedule: PriceSchedule = {
+  basePrice: 130,
+  records: [
+    { price: 130, valid_from: '2025-01-01' },
+    { price: 110, valid_from: '2024-01-01' },
+    { price: 120, valid_from: '2024-07-01' },
+  ],
+}
+
+describe('Price Schedule', () => {
+  describe('getPriceForMonth', () => {
+    it('uses the latest price starting on or before the month', () => {
+      expect(getPriceForMonth(schedule, '2024-03')).toBe(110)
+      expect(getPriceForMonth(schedule, '2024-07-01')).toBe(120)
+      expect(getPriceForMonth(schedule, '2024-12')).toBe(120)
+      expect(getPriceForMonth(schedule, '2025-06')).toBe(130)
+    })
+
+    it('uses the first known price before the first record', () => {
+      expect(getPriceForMonth(schedule, '2023-05')).toBe(110)
+    })
+
+    it('falls back to the base price without records', () => {
+      expect(getPriceForMonth({ basePrice: 95, records: [] }, '2024-01')).toBe(95)
+      expect(getPriceForMonth(80, '2024-01')).toBe(80)
+    })
+  })
+
+  it('values sessions at the price of their month', () => {
+    expect(calculateSessionRevenue(10, schedule, '2024-03').revenue).toBe(1100)
+    expect(calculateSessionRevenue(10, schedule, '2025-03').revenue).toBe(1300)
+    expect(calculateSessionRevenue(10, 100).revenue).toBe(1000)
+  })
+
+  it('groups and sorts price rows by therapy type', () => {
+    const grouped = groupPriceRecords([
+      { therapy_type_id: 'a', price: 120, valid_from: '2025-01-01' },
+      { therapy_type_id: 'a', price: 100, valid_from: '2024-01-01' },
+      { therapy_type_id: 'b', price: 60, valid_from: '2024-01-01' },
+    ])
+    expect(grouped.get('a')?.map(r => r.price)).toEqual([100, 120])
+    expect(grouped.get('b')?.length).toBe(1)
+  })
+
+  it('calculates the forecast impact of a scheduled price change', () => {
+    const impact = calculatePriceChangeImpact(
+      [
+        { month: '2025-12-01', sessions: 20 },
+        { month: '2026-01-01', sessions: 20 },
+        { month: '2026-02-01', sessions: 10 },
+      ],
+      schedule,
+      140,
+      '2026-01'
+    )
+
+    expect(impact.affectedMonths).toBe(2)
+    expect(impact.affectedSessions).toBe(30)
+    expect(impact.currentRevenue).toBe(3900)
+    expect(impact.newRevenue).toBe(4200)
+    expect(impact.difference).toBe(300)
+  })
+})
@@ -0,0 +1,34 @@
+import { calculateReimbursement, DEFAULT_REIMBURSEMENT_RATE } from '../core/reimbursement-calculator'
+
+describe('Reimbursement Calculator', () => {
+  it('refunds 80% of the tariff by default', () => {
+    const result = calculateReimbursement(120, 60)
+
+    expect(DEFAULT_REIMBURSEMENT_RATE).toBe(80)
+    expect(result.reimbursement).toBe(48)
+    expect(result.outOfPocket).toBe(72)
+    expect(result.outOfPocketPercent).toBeCloseTo(60, 6)
+    expect(result.priceToTariffRatio).toBe(2)
+  })
+
+  it('rounds the refund to cents', () => {
+    expect(calculateReimbursement(100, 33.33, 80).reimbursement).toBe(26.66)
+  })
+
+  it('never refunds more than the price paid', () => {
+    const result = calculateReimbursement(40, 60, 100)
+
+    expect(result.reimbursement).toBe(40)
+    expect(result.outOfPocket).toBe(0)
+  })
+
+  it('handles missing tariffs and prices', () => {
+    expect(calculateReimbursement(90, 0)).toMatchObject({
+      reimbursement: 0,
+      outOfPocket: 90,
+      outOfPocketPercent: 100,
+      priceToTariffRatio: null,
+    })
+    expect(calculateReimbursement(0, 50).outOfPocketPercent).toBe(0)
+  })
+})
@@ -0,0 +1,108 @@
+import {
+  getNextSvsDueDate,
+  getOpenSvsBackPayment,
+  getProvisionalQuarterlyContribution,
+  projectSvsAssessments,
+  recommendSvsBase
+} from '../core/svs-assessment-calculator'
+import type { SvsAssessmentRecord } from '../types'
+
+const record = (overrides: Partial<SvsAssessmentRecord> & { year: number }): SvsAssessmentRecord => ({
+  profit: null,
+  profit_assessed: false,
+  provisional_monthly_base: null,
+  settled: false,
+  ...overrides
+})
+
+const TODAY = '2026-03-10'
+
+describe('SVS Assessment Calculator', () => {
+  it('adds the prescribed KV/PV contributions to the assessed profit', () => {
+    const [projection] = projectSvsAssessments(
+      [record({ year: 2025, profit: 60000, profit_assessed: true, provisional_monthly_base: 3000 })],
+      TODAY
+    )
+
+    expect(projection.provisionalBase).toBe(36000)
+    expect(projection.provisionalBaseEstimated).toBe(false)
+    expect(projection.finalBase).toBe(69108) // 60,000 + 25.3% of 36,000
+    expect(projection.provisionalContributions).toBe(9658.8)
+    expect(projection.finalContributions).toBe(18541.68)
+    expect(projection.backPayment).toBe(8882.88)
+    expect(projection.expectedDue).toBe('2026-05-31')
+  })
+
+  it('expects the back payment of unassessed years after the following year', () => {
+    const [projection] = projectSvsAssessments(
+      [record({ year: 2026, profit: 80000, provisional_monthly_base: 4000 })],
+      TODAY
+    )
+
+    expect(projection.expectedDue).toBe('2027-11-30')
+  })
+
+  it('derives a missing provisional base from three years earlier', () => {
+    const projections = projectSvsAssessments(
+      [
+        record({ year: 2026, profit: 70000 }),
+        record({ year: 2023, profit: 50000, profit_assessed: true, provisional_monthly_base: 2500 })
+      ],
+      TODAY
+    )
+
+    expect(projections.map(p => p.year)).toEqual([2023, 2026])
+    expect(projections[1].provisionalBase).toBe(57590)
+    expect(projections[1].provisionalBaseEstimated).toBe(true)
+  })
+
+  it('uses the minimum base without history', () => {
+    const [projection] = projectSvsAssessments([record({ year: 2025, profit: 20000 })], TODAY)
+
+    expect(projection.provisionalBase).toBeCloseTo(6613.2, 2)
+  })
+
+  it('offsets credits and skips settled years in the open back payment', () => {
+    const projections = projectSvsAssessments(
+      [
+        record({ year: 2023, profit: 90000, profit_assessed: true, provisional_monthly_base: 2000, settled: true }),
+        record({ year: 2024, profit: 10000, profit_assessed: true, provisional_monthly_base: 3000 }),
+        record({ year: 2025, profit: 60000, profit_assessed: true, provisional_monthly_base: 3000 })
+      ],
+      TODAY
+    )
+
+    const credit = projections[1].backPayment
+    expect(credit).toBeLessThan(0)
+    expect(getOpenSvsBackPayment(projections)).toBeCloseTo(8882.88 + credit, 2)
+  })
+
+  it('recommends the base at which no back payment remains', () => {
+    const projections = projectSvsAssessments(
+      [record({ year: 2026, profit: 60000, provisional_monthly_base: 3000 })],
+      TODAY
+    )
+    const recommendation = recommendSvsBase(projections, 2026)!
+
+    expect(recommendation.currentMonthlyBase).toBe(3000)
+    expect(recommendation.recommendedMonthlyBase).toBeCloseTo(60000 / 0.747 / 12, 2)
+
+    const raised = projectSvsAssessments(
+      [record({ year: 2026, profit: 60000, provisional_monthly_base: recommendation.recommendedMonthlyBase })],
+      TODAY
+    )
+    expect(Math.abs(raised[0].backPayment)).toBeLessThan(1)
+    expect(recommendSvsBase(raised, 2025)).toBeNull()
+  })
+
+  it('charges a quarter of the contributions on the provisional base', () => {
+    // €3,000 x 12 x 26.83% plus accident insurance of €12.07 per month
+    expect(getProvisionalQuarterlyContribution(record({ year: 2025, provisional_monthly_base: 3000 }))).toBe(2450.91)
+    expect(getProvisionalQuarterlyContribution(record({ year: 2025 }))).toBeNull()
+  })
+
+  it('finds the next quarterly due date', () => {
+    expect(getNextSvsDueDate('2026-11-30')).toBe('2027-02-28')
+    expect(getNextSvsDueDate('2028-01-15')).toBe('2028-02-29')
+  })
+})
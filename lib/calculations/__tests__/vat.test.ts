@@ -0,0 +1,206 @@
+import {
+  calculateVatSummary,
+  estimateVatPayable,
+  getUvaPeriods,
+  monitorKleinunternehmer,
+  splitGrossAmount
+} from '../composite/vat-calculator'
+import type { VatExpenseRecord, VatRevenueRecord } from '../types'
+
+const revenue = (date: string, amount: number, vat_rate: VatRevenueRecord['vat_rate']): VatRevenueRecord =>
+  ({ date, amount, vat_rate })
+
+const expense = (overrides: Partial<VatExpenseRecord>): VatExpenseRecord => ({
+  expense_date: '2025-02-10',
+  amount: 120,
+  is_recurring: false,
+  recurrence_interval: null,
+  vat_rate: 20,
+  vat_allocation: 'taxable',
+  ...overrides
+})
+
+const mixedPractice = {
+  year: 2025,
+  revenues: [
+    revenue('2025-01-20', 8000, 0), // Heilbehandlungen (§ 6 Abs. 1 Z 19)
+    revenue('2025-03-05', 1200, 20) // Gutachten
+  ],
+  expenses: [
+    expense({ amount: 240, vat_allocation: 'taxable' }),
+    expense({ amount: 600, vat_allocation: 'mixed' }),
+    expense({ amount: 1200, vat_allocation: 'exempt' })
+  ],
+  returnPeriod: 'quarterly' as const,
+  today: '2025-12-31'
+}
+
+describe('VAT Calculator', () => {
+  it('splits gross amounts into net and VAT', () => {
+    expect(splitGrossAmount(120, 20)).toEqual({ net: 100, vat: 20 })
+    expect(splitGrossAmount(113, 13)).toEqual({ net: 100, vat: 13 })
+    expect(splitGrossAmount(50, 0)).toEqual({ net: 50, vat: 0 })
+  })
+
+  it('schedules UVA periods due on the 15th of the second following month', () => {
+    const quarters = getUvaPeriods(2025, 'quarterly')
+    expect(quarters.map(q => q.period)).toEqual(['2025-Q1', '2025-Q2', '2025-Q3', '2025-Q4'])
+    expect(quarters[0]).toMatchObject({ from: '2025-01-01', to: '2025-04-01', dueDate: '2025-05-15' })
+    expect(quarters[3]).toMatchObject({ to: '2026-01-01', dueDate: '2026-02-15' })
+
+    const months = getUvaPeriods(2025, 'monthly')
+    expect(months).toHaveLength(12)
+    expect(months[0].dueDate).toBe('2025-03-15')
+    expect(months[11].dueDate).toBe('2026-02-15')
+  })
+
+  it('ignores exempt medical revenue for the Kleinunternehmer limit', () => {
+    const monitor = monitorKleinunternehmer(
+      [revenue('2025-03-01', 80000, 0), revenue('2025-04-01', 50000, 20)],
+      2025,
+      '2025-12-31'
+    )
+
+    expect(monitor.turnover).toBe(50000)
+    expect(monitor.status).toBe('below')
+    expect(monitor.grossLimit).toBe(true)
+  })
+
+  it('applies the tolerance of the year', () => {
+    // Until 2024: €35,000 net, 15% tolerance
+    const net2024 = monitorKleinunternehmer([revenue('2024-05-01', 43200, 20)], 2024, '2024-12-31')
+    expect(net2024.turnover).toBe(36000)
+    expect(net2024.toleranceLimit).toBe(40250)
+    expect(net2024.status).toBe('tolerance')
+
+    // From 2025: €55,000 gross, 10% tolerance
+    expect(monitorKleinunternehmer([revenue('2025-05-01', 58000, 20)], 2025, '2025-12-31').status).toBe('tolerance')
+    const exceeded = monitorKleinunternehmer(
+      [revenue('2025-05-01', 40000, 20), revenue('2025-09-10', 22000, 20)],
+      2025,
+      '2025-12-31'
+    )
+    expect(exceeded.status).toBe('exceeded')
+    expect(exceeded.exceededOn).toBe('2025-09-10')
+  })
+
+  it('projects the turnover of the running year', () => {
+    const monitor = monitorKleinunternehmer([revenue('2025-02-01', 15000, 20)], 2025, '2025-03-31')
+    expect(monitor.projectedTurnover).toBeCloseTo(60833.33, 0)
+  })
+
+  it('calculates UVA figures with a partial input-tax deduction', () => {
+    const summary = calculateVatSummary({ ...mixedPractice, kleinunternehmer: false })
+    const q1 = summary.periods[0]
+
+    expect(q1.kz020).toBe(8000)
+    expect(q1.kz022).toBe(1000)
+    expect(q1.kz000).toBe(9000)
+    expect(q1.outputVat).toBe(200)
+    // 40 in full, 100 at the taxable share of 1/9, none for exempt revenue
+    expect(summary.deductionRatio).toBe(0.1111)
+    expect(q1.kz060).toBe(51.11)
+    expect(q1.kz095).toBe(148.89)
+    expect(summary.total.kz095).toBe(148.89)
+  })
+
+  it('reports Kleinunternehmer turnover without VAT or input tax', () => {
+    const summary = calculateVatSummary({ ...mixedPractice, kleinunternehmer: true })
+
+    expect(summary.total.kz016).toBe(1200)
+    expect(summary.total.kz020).toBe(8000)
+    expect(summary.total.kz022).toBe(0)
+    expect(summary.total.kz060).toBe(0)
+    expect(summary.total.kz095).toBe(0)
+  })
+
+  it('charges VAT from the payment crossing the tolerance limit (from 2025)', () => {
+    const revenues = [1, 2, 3, 4, 5, 6, 7].map(month =>
+      revenue(`2025-0${month}-15`, 10000, 20)
+    )
+    const summary = calculateVatSummary({
+      year: 2025,
+      revenues,
+      expenses: [],
+      kleinunternehmer: true,
+      returnPeriod: 'quarterly',
+      today: '2025-12-31'
+    })
+
+    expect(summary.periods[0].kz016).toBe(30000)
+    expect(summary.periods[1].kz016).toBe(30000)
+    expect(summary.periods[2].kz016).toBe(0)
+    expect(summary.periods[2].kz022).toBe(8333.33)
+    expect(summary.periods[2].outputVat).toBe(1666.67)
+  })
+
+  it('deducts input tax of recurring expenses in every period', () => {
+    const summary = calculateVatSummary({
+      year: 2025,
+      revenues: [revenue('2025-01-10', 1200, 20)],
+      expenses: [expense({ expense_date: '2024-11-01', is_recurring: true, recurrence_interval: 'monthly' })],
+      kleinunternehmer: false,
+      returnPeriod: 'monthly',
+      today: '2025-12-31'
+    })
+
+    expect(summary.periods.every(p => p.kz060 === 20)).toBe(true)
+    expect(summary.total.kz060).toBe(240)
+    expect(summary.total.kz095).toBe(-40)
+  })
+
+  it('deducts the VAT of every rate of invoices with a VAT breakdown', () => {
+    const summary = calculateVatSummary({
+      year: 2025,
+      revenues: [revenue('2025-01-10', 1200, 20)],
+      expenses: [
+        expense({
+          amount: 164.37,
+          vat_rate: 20,
+          vat_breakdown: [
+            { rate: 20, net: 108.1, vat: 21.62, gross: 129.72 },
+            { rate: 10, net: 31.5, vat: 3.15, gross: 34.65 }
+          ]
+        })
+      ],
+      kleinunternehmer: false,
+      returnPeriod: 'quarterly',
+      today: '2025-12-31'
+    })
+
+    expect(summary.periods[0].kz060).toBe(24.77)
+  })
+
+  it('estimates no VAT payable for an exempt practice', () => {
+    expect(estimateVatPayable({
+      year: 2025,
+      revenues: [{ amount: 150000, vat_rate: 0 }],
+      expenses: [{ ...expense({ vat_allocation: 'mixed' }), occurrences: 12 }],
+      kleinunternehmer: false
+    })).toBe(0)
+  })
+
+  it('estimates VAT payable as output VAT less input VAT', () => {
+    const vatPayable = estimateVatPayable({
+      year: 2025,
+      revenues: mixedPractice.revenues,
+      expenses: mixedPractice.expenses.map(e => ({ ...e, occurrences: 1 })),
+      kleinunternehmer: false
+    })
+
+    expect(vatPayable).toBe(148.89)
+  })
+
+  it('estimates Kleinunternehmer VAT on the annualised turnover of the period', () => {
+    const month = (amount: number) => estimateVatPayable({
+      year: 2025,
+      revenues: [{ amount, vat_rate: 20 }],
+      expenses: [],
+      kleinunternehmer: true,
+      monthsInPeriod: 1
+    })
+
+    expect(month(4800)).toBe(0)
+    expect(month(6000)).toBe(1000)
+  })
+})
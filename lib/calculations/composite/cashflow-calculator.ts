@@ -0,0 +1,330 @@
+/**
+ * Cash-Flow Calculator
+ * Projects the bank balance from an opening balance and scheduled cash movements
+ *
+ * Unlike the profit forecast, every payment is placed on its due date:
+ * annual bills hit the month they are due, SVS and income-tax prepayments
+ * are paid quarterly and invoices are collected with a delay.
+ */
+
+import type { CashFlowCategory, CashFlowItem, CashFlowMonth, CashFlowProjection } from '../types'
+
+export type RecurrenceInterval = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'annual'
+
+/** Due date within a year; 'last' = last day of the month */
+export interface DueDate {
+  month: number // 1-12
+  day: number | 'last'
+}
+
+/** SVS quarterly contributions are due at the end of the second month of each quarter */
+export const SVS_DUE_DATES: DueDate[] = [
+  { month: 2, day: 'last' },
+  { month: 5, day: 'last' },
+  { month: 8, day: 'last' },
+  { month: 11, day: 'last' },
+]
+
+/** Income-tax prepayments (Einkommensteuer-Vorauszahlungen) are due on 15 Feb, May, Aug and Nov */
+export const INCOME_TAX_DUE_DATES: DueDate[] = [
+  { month: 2, day: 15 },
+  { month: 5, day: 15 },
+  { month: 8, day: 15 },
+  { month: 11, day: 15 },
+]
+
+/** Ärztekammer contributions are assumed to be charged at the start of each quarter */
+export const AERZTEKAMMER_DUE_DATES: DueDate[] = [
+  { month: 1, day: 15 },
+  { month: 4, day: 15 },
+  { month: 7, day: 15 },
+  { month: 10, day: 15 },
+]
+
+export interface CashFlowExpense {
+  amount: number
+  expense_date: string
+  is_recurring: boolean
+  recurrence_interval: string | null
+  category: string
+  description?: string | null
+}
+
+export interface RevenueCollection {
+  /** Share of revenue paid at the time of treatment (cash, card), 0-1 */
+  immediateShare: number
+  /** Days until invoices paid by transfer or by the insurer arrive */
+  delayDays: number
+}
+
+export interface CashFlowProjectionInput {
+  openingBalance: number
+  minimumBalance: number
+  /** First day of the projection (YYYY-MM-DD) */
+  startDate: string
+  /** Projection horizon in months (typically 12-24) */
+  months: number
+  items: CashFlowItem[]
+}
+
+function toDate(date: string): Date {
+  return new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10))))
+}
+
+function toISO(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  const result = toDate(date)
+  result.setUTCDate(result.getUTCDate() + days)
+  return toISO(result)
+}
+
+/**
+ * Add months to a YYYY-MM-DD date, keeping the day of month where possible
+ * (31 Jan + 1 month = 28/29 Feb)
+ */
+function addMonths(date: string, months: number): string {
+  const year = Number(date.slice(0, 4))
+  const monthIndex = Number(date.slice(5, 7)) - 1 + months
+  const targetYear = year + Math.floor(monthIndex / 12)
+  const targetMonth = ((monthIndex % 12) + 12) % 12 + 1
+  const day = Math.min(Number(date.slice(8, 10)), daysInMonth(targetYear, targetMonth))
+  return `${targetYear}-${String(targetMonth).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Due dates of a (recurring) payment within [from, to)
+ * The first payment date is the anchor; recurring payments repeat from there
+ *
+ * @param anchor Date of the first payment (YYYY-MM-DD)
+ * @param interval Recurrence interval, null for one-time payments
+ */
+export function getRecurringDueDates(
+  anchor: string,
+  interval: string | null,
+  from: string,
+  to: string
+): string[] {
+  if (!interval) {
+    return anchor >= from && anchor < to ? [anchor] : []
+  }
+
+  const step = (date: string, n: number): string => {
+    switch (interval as RecurrenceInterval) {
+      case 'daily': return addDays(date, n)
+      case 'weekly': return addDays(date, n * 7)
+      case 'monthly': return addMonths(date, n)
+      case 'quarterly': return addMonths(date, n * 3)
+      case 'yearly':
+      case 'annual': return addMonths(date, n * 12)
+      default: return addMonths(date, n)
+    }
+  }
+
+  const dates: string[] = []
+  for (let n = 0; ; n++) {
+    const date = step(anchor, n)
+    if (date >= to) break
+    if (date >= from) dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Place expenses on their due dates
+ * Bills spread monthly for profit purposes are still paid in full when due
+ */
+export function scheduleExpenses(expenses: CashFlowExpense[], from: string, to: string): CashFlowItem[] {
+  return expenses.flatMap(expense =>
+    getRecurringDueDates(
+      expense.expense_date,
+      expense.is_recurring ? expense.recurrence_interval || 'monthly' : null,
+      from,
+      to
+    ).map((date): CashFlowItem => ({
+      date,
+      amount: -Math.abs(Number(expense.amount) || 0),
+      category: 'expense',
+      label: expense.description || expense.category,
+    }))
+  )
+}
+
+/**
+ * Key of a quarter in the recorded amounts of scheduleQuarterlyPayments
+ */
+export function quarterKey(year: number, quarter: number): string {
+  return `${year}-Q${quarter}`
+}
+
+/**
+ * Split an annual amount into quarterly payments on fixed due dates
+ *
+ * @param recorded Amounts known for single quarters (e.g. from a notice), keyed
+ *   by quarterKey; they replace the installment of the estimate
+ */
+export function scheduleQuarterlyPayments(
+  annualAmount: number,
+  dueDates: DueDate[],
+  category: CashFlowCategory,
+  label: string,
+  from: string,
+  to: string,
+  recorded: Map<string, number> = new Map()
+): CashFlowItem[] {
+  const items: CashFlowItem[] = []
+  const installment = Math.round((Math.max(0, annualAmount) / dueDates.length) * 100) / 100
+
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    dueDates.forEach((due, index) => {
+      const day = due.day === 'last' ? daysInMonth(year, due.month) : due.day
+      const date = `${year}-${String(due.month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+      const amount = recorded.get(quarterKey(year, index + 1)) ?? installment
+      if (date >= from && date < to && amount > 0) {
+        items.push({ date, amount: -amount, category, label })
+      }
+    })
+  }
+
+  return items
+}
+
+/**
+ * Schedule expected monthly revenue as inflows
+ * Treatments are assumed mid-month; the immediate share arrives on the 15th,
+ * the rest after the collection delay
+ *
+ * @param from Payments expected before this date are moved to it (current month)
+ */
+export function scheduleRevenue(
+  monthlyRevenue: Array<{ month: string; amount: number }>,
+  collection: RevenueCollection,
+  from?: string
+): CashFlowItem[] {
+  const immediateShare = Math.min(1, Math.max(0, collection.immediateShare))
+
+  return monthlyRevenue.flatMap(({ month, amount }) => {
+    if (amount <= 0) return []
+    const midMonth = `${month.slice(0, 7)}-15`
+    const treatmentDate = from && midMonth < from ? from : midMonth
+    const items: CashFlowItem[] = []
+
+    if (immediateShare > 0) {
+      items.push({ date: treatmentDate, amount: amount * immediateShare, category: 'revenue', label: 'Umsatz (sofort bezahlt)' })
+    }
+    if (immediateShare < 1) {
+      items.push({
+        date: addDays(treatmentDate, Math.max(0, collection.delayDays)),
+        amount: amount * (1 - immediateShare),
+        category: 'revenue',
+        label: 'Umsatz (Zahlungseingang)',
+      })
+    }
+    return items
+  })
+}
+
+/**
+ * Schedule open receivables: expected on invoice date + delay, but not before `from`
+ */
+export function scheduleReceivables(
+  receivables: Array<{ invoice_date: string; open_amount: number; invoice_number?: string | null }>,
+  delayDays: number,
+  from: string
+): CashFlowItem[] {
+  return receivables
+    .filter(r => r.open_amount > 0)
+    .map((r): CashFlowItem => {
+      const expected = addDays(r.invoice_date, Math.max(0, delayDays))
+      return {
+        date: expected < from ? from : expected,
+        amount: r.open_amount,
+        category: 'receivable',
+        label: r.invoice_number ? `Offene Rechnung ${r.invoice_number}` : 'Offene Rechnung',
+      }
+    })
+}
+
+/**
+ * Project the daily and monthly bank balance
+ * Items outside the horizon are ignored
+ */
+export function projectCashFlow(input: CashFlowProjectionInput): CashFlowProjection {
+  const { openingBalance, minimumBalance, startDate } = input
+  const endDate = addMonths(startDate, Math.max(1, input.months))
+
+  const itemsByDate = new Map<string, CashFlowItem[]>()
+  for (const item of input.items) {
+    if (item.date < startDate || item.date >= endDate) continue
+    const items = itemsByDate.get(item.date) ?? []
+    items.push(item)
+    itemsByDate.set(item.date, items)
+  }
+
+  const days: CashFlowProjection['days'] = []
+  const months: CashFlowMonth[] = []
+  let balance = openingBalance
+  let current: CashFlowMonth | null = null
+  let lowestBalance = openingBalance
+  let lowestBalanceDate = startDate
+  let firstShortfallDate: string | null = null
+
+  for (let date = startDate; date < endDate; date = addDays(date, 1)) {
+    const month = date.slice(0, 7)
+    if (!current || current.month !== month) {
+      current = {
+        month,
+        openingBalance: balance,
+        inflows: 0,
+        outflows: 0,
+        closingBalance: balance,
+        lowestBalance: Infinity,
+        lowestBalanceDate: date,
+        belowMinimum: false,
+      }
+      months.push(current)
+    }
+
+    for (const item of itemsByDate.get(date) ?? []) {
+      if (item.amount >= 0) current.inflows += item.amount
+      else current.outflows += -item.amount
+      balance += item.amount
+    }
+
+    balance = Math.round(balance * 100) / 100
+    days.push({ date, balance })
+    current.closingBalance = balance
+
+    if (balance < current.lowestBalance) {
+      current.lowestBalance = balance
+      current.lowestBalanceDate = date
+    }
+    if (balance < minimumBalance) {
+      current.belowMinimum = true
+      firstShortfallDate = firstShortfallDate ?? date
+    }
+    if (balance < lowestBalance) {
+      lowestBalance = balance
+      lowestBalanceDate = date
+    }
+  }
+
+  return {
+    openingBalance,
+    minimumBalance,
+    days,
+    months,
+    lowestBalance,
+    lowestBalanceDate,
+    firstShortfallDate,
+  }
+}
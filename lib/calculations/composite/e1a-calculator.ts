@@ -0,0 +1,98 @@
+/**
+ * E1a Calculator
+ * Einnahmen-Ausgaben-Rechnung of a year laid out by the Kennzahlen of the E1a form
+ *
+ * - Cash basis (Zufluss-Abfluss-Prinzip): revenue counts when received,
+ *   recurring expenses on each due date within the year
+ * - Assets count with their AfA (KZ 9130); the residual book value of
+ *   disposed assets is reported as Buchwert abgehender Anlagen (KZ 9200)
+ */
+
+import type { DepreciableAsset, E1aExpenseRecord, E1aLine, E1aReport } from '../types'
+import { E1A_KENNZAHLEN, E1A_SUBCATEGORY_KENNZAHLEN, type E1aKennzahl } from '../../constants'
+import { calculateDepreciationSchedule } from '../core/depreciation-calculator'
+import { getRecurringDueDates } from './cashflow-calculator'
+
+export interface E1aReportInput {
+  year: number
+  /** Received revenue (payment date and amount) */
+  revenues: { date: string; amount: number }[]
+  expenses: E1aExpenseRecord[]
+  /** Asset register, with the purchase expenses already removed from expenses */
+  assets: (DepreciableAsset & { name: string })[]
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * E1a Kennzahl of an expense subcategory; unmapped expenses are übrige Aufwendungen
+ */
+export function getE1aKennzahl(subcategory: string | null): E1aKennzahl {
+  return (subcategory && E1A_SUBCATEGORY_KENNZAHLEN[subcategory]) || '9230'
+}
+
+/**
+ * Fill the E1a Kennzahlen of a year from revenue, expenses and the asset register
+ */
+export function calculateE1aReport(input: E1aReportInput): E1aReport {
+  const { year, revenues, expenses, assets } = input
+  const yearStart = `${year}-01-01`
+  const nextYearStart = `${year + 1}-01-01`
+
+  const items = new Map<E1aKennzahl, Map<string, number>>()
+  const add = (kz: E1aKennzahl, label: string, amount: number) => {
+    if (amount === 0) return
+    const lineItems = items.get(kz) ?? new Map<string, number>()
+    lineItems.set(label, (lineItems.get(label) ?? 0) + amount)
+    items.set(kz, lineItems)
+  }
+
+  for (const revenue of revenues) {
+    if (revenue.date >= yearStart && revenue.date < nextYearStart) {
+      add('9040', 'Honorare', revenue.amount)
+    }
+  }
+
+  for (const expense of expenses) {
+    const occurrences = getRecurringDueDates(
+      expense.expense_date,
+      expense.is_recurring ? expense.recurrence_interval || 'monthly' : null,
+      yearStart,
+      nextYearStart
+    ).length
+    add(getE1aKennzahl(expense.subcategory), expense.subcategory || expense.category, Math.abs(expense.amount) * occurrences)
+  }
+
+  for (const asset of assets) {
+    const entry = calculateDepreciationSchedule(asset).find(e => e.year === year)
+    if (!entry) continue
+    add('9130', asset.name, entry.depreciation)
+    add('9200', asset.name, entry.residualWriteOff)
+  }
+
+  const lines: E1aLine[] = E1A_KENNZAHLEN.map(({ kz, kind, label }) => {
+    const lineItems = [...(items.get(kz) ?? new Map<string, number>())]
+      .map(([itemLabel, amount]) => ({ label: itemLabel, amount: roundCents(amount) }))
+      .sort((a, b) => b.amount - a.amount)
+    return {
+      kz,
+      kind,
+      label,
+      amount: roundCents(lineItems.reduce((sum, item) => sum + item.amount, 0)),
+      items: lineItems
+    }
+  })
+
+  const totalIncome = roundCents(lines.filter(l => l.kind === 'income').reduce((sum, l) => sum + l.amount, 0))
+  const totalExpenses = roundCents(lines.filter(l => l.kind === 'expense').reduce((sum, l) => sum + l.amount, 0))
+
+  return {
+    year,
+    lines,
+    totalIncome,
+    totalExpenses,
+    profit: roundCents(totalIncome - totalExpenses)
+  }
+}
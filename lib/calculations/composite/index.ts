@@ -5,3 +5,6 @@
 export * from './viability-calculator'
 export * from './variance-detector'
 export * from './forecast-calculator'
+export * from './cashflow-calculator'
+export * from './vat-calculator'
+export * from './e1a-calculator'
@@ -0,0 +1,308 @@
+/**
+ * VAT Calculator
+ * Umsatzsteuer of a practice with VAT-exempt and taxable services
+ *
+ * - Medical treatments are exempt without input-tax deduction (§ 6 Abs. 1 Z 19 UStG);
+ *   expert reports, courses or product sales are taxable at their rate
+ * - Freelancers pay VAT on received payments (Istbesteuerung)
+ * - Input tax is deductible for expenses serving taxable revenue, in full or,
+ *   for expenses serving both, at the share of taxable revenue
+ * - Kleinunternehmer are exempt (§ 6 Abs. 1 Z 27) up to the limit of the year;
+ *   exempt medical revenue does not count towards the limit
+ */
+
+import type {
+  KleinunternehmerMonitor,
+  UvaFigures,
+  UvaPeriod,
+  VatExpenseRecord,
+  VatRevenueRecord,
+  VatSummary
+} from '../types'
+import type { VatAllocation, VatBreakdownLine, VatRate, VatReturnPeriod } from '@/lib/types'
+import { getTaxConfig } from '../../config/tax-config'
+import { getRecurringDueDates } from './cashflow-calculator'
+
+export interface VatCalculationInput {
+  year: number
+  revenues: VatRevenueRecord[]
+  expenses: VatExpenseRecord[]
+  /** Kleinunternehmerregelung applied (not opted out) */
+  kleinunternehmer: boolean
+  returnPeriod: VatReturnPeriod
+  /** Reference date (YYYY-MM-DD) for the projected turnover */
+  today: string
+}
+
+/**
+ * Expense of an estimate period; recurring expenses count once per occurrence
+ */
+export type VatEstimateExpense = Pick<VatExpenseRecord, 'amount' | 'vat_rate' | 'vat_allocation' | 'vat_breakdown'> & {
+  occurrences: number
+}
+
+export interface VatEstimateInput {
+  year: number
+  /** Revenue of the period by the VAT rate of its therapy type */
+  revenues: Pick<VatRevenueRecord, 'amount' | 'vat_rate'>[]
+  expenses: VatEstimateExpense[]
+  /** Kleinunternehmerregelung applied (not opted out) */
+  kleinunternehmer: boolean
+  /** Length of the period, to compare its turnover with the annual limit */
+  monthsInPeriod?: number
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function toMonthStart(year: number, month: number): string {
+  const normalizedYear = year + Math.floor((month - 1) / 12)
+  const normalizedMonth = ((month - 1) % 12) + 1
+  return `${normalizedYear}-${String(normalizedMonth).padStart(2, '0')}-01`
+}
+
+function emptyFigures(): UvaFigures {
+  return { kz000: 0, kz016: 0, kz020: 0, kz022: 0, kz029: 0, kz006: 0, outputVat: 0, kz060: 0, kz095: 0 }
+}
+
+/**
+ * Split a gross amount into net amount and contained VAT
+ */
+export function splitGrossAmount(gross: number, rate: VatRate): { net: number; vat: number } {
+  const net = roundCents(gross / (1 + rate / 100))
+  return { net, vat: roundCents(gross - net) }
+}
+
+/**
+ * VAT fields of an expense row; numeric columns and breakdown lines may arrive as strings
+ */
+export function toVatExpenseFields(row: {
+  vat_rate: number | string | null
+  vat_allocation: string | null
+  vat_breakdown: VatBreakdownLine[] | null
+}): Pick<VatExpenseRecord, 'vat_rate' | 'vat_allocation' | 'vat_breakdown'> {
+  return {
+    vat_rate: Number(row.vat_rate ?? 0) as VatRate,
+    vat_allocation: (row.vat_allocation ?? 'mixed') as VatAllocation,
+    vat_breakdown: row.vat_breakdown?.map(line => ({
+      rate: Number(line.rate) as VatRate,
+      net: Number(line.net),
+      vat: Number(line.vat),
+      gross: Number(line.gross)
+    })) ?? null
+  }
+}
+
+/**
+ * Input VAT contained in one occurrence of an expense
+ * Invoices with several rates carry their VAT per rate
+ */
+function getInputVat(expense: Pick<VatExpenseRecord, 'amount' | 'vat_rate' | 'vat_breakdown'>): number {
+  return expense.vat_breakdown?.length
+    ? expense.vat_breakdown.reduce((sum, line) => sum + line.vat, 0)
+    : splitGrossAmount(Math.abs(expense.amount), expense.vat_rate).vat
+}
+
+/**
+ * UVA periods of a year with their due date (15th of the second month after the period)
+ */
+export function getUvaPeriods(year: number, returnPeriod: VatReturnPeriod): Pick<UvaPeriod, 'period' | 'from' | 'to' | 'dueDate'>[] {
+  const months = returnPeriod === 'monthly' ? 1 : 3
+  return Array.from({ length: 12 / months }, (_, index) => {
+    const firstMonth = index * months + 1
+    const lastMonth = firstMonth + months - 1
+    return {
+      period: returnPeriod === 'monthly'
+        ? `${year}-${String(firstMonth).padStart(2, '0')}`
+        : `${year}-Q${index + 1}`,
+      from: toMonthStart(year, firstMonth),
+      to: toMonthStart(year, lastMonth + 1),
+      dueDate: toMonthStart(year, lastMonth + 2).replace(/-01$/, '-15')
+    }
+  })
+}
+
+/**
+ * Check the turnover of a year against the Kleinunternehmer limit
+ * Only taxable revenue counts; before 2025 the limit applies to the net amount
+ * (as if VAT had been charged), from 2025 to the gross amount
+ */
+export function monitorKleinunternehmer(
+  revenues: VatRevenueRecord[],
+  year: number,
+  today: string
+): KleinunternehmerMonitor {
+  const vat = getTaxConfig(year).vat
+  const limit = vat.kleinunternehmerLimit
+  const toleranceLimit = roundCents(limit * (1 + vat.kleinunternehmerTolerance))
+
+  const relevant = revenues
+    .filter(r => r.vat_rate > 0 && r.date.startsWith(`${year}-`))
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  let turnover = 0
+  let exceededOn: string | null = null
+  for (const revenue of relevant) {
+    turnover += vat.kleinunternehmerGrossLimit ? revenue.amount : splitGrossAmount(revenue.amount, revenue.vat_rate).net
+    if (exceededOn === null && turnover > toleranceLimit) {
+      exceededOn = revenue.date
+    }
+  }
+  turnover = roundCents(turnover)
+
+  // Extrapolate the running year by the elapsed days
+  const yearStart = Date.UTC(year, 0, 1)
+  const yearEnd = Date.UTC(year + 1, 0, 1)
+  const now = Date.UTC(Number(today.slice(0, 4)), Number(today.slice(5, 7)) - 1, Number(today.slice(8, 10)) + 1)
+  const elapsedShare = (now - yearStart) / (yearEnd - yearStart)
+  const projectedTurnover = elapsedShare > 0 && elapsedShare < 1
+    ? roundCents(turnover / elapsedShare)
+    : turnover
+
+  return {
+    limit,
+    toleranceLimit,
+    grossLimit: vat.kleinunternehmerGrossLimit,
+    turnover,
+    projectedTurnover,
+    status: turnover > toleranceLimit ? 'exceeded' : turnover > limit ? 'tolerance' : 'below',
+    exceededOn
+  }
+}
+
+/**
+ * UVA figures of a year per month or quarter
+ *
+ * The input-tax share for mixed expenses uses the taxable share of the whole
+ * year so far; the annual VAT return settles the final share.
+ */
+export function calculateVatSummary(input: VatCalculationInput): VatSummary {
+  const { year, revenues, expenses, returnPeriod, today } = input
+  const monitor = monitorKleinunternehmer(revenues, year, today)
+  const grossLimit = getTaxConfig(year).vat.kleinunternehmerGrossLimit
+
+  // Above the tolerance the exemption ends with the crossing payment (from 2025)
+  // or is lost for the whole year (before 2025)
+  const isKleinunternehmerOn = (date: string): boolean => {
+    if (!input.kleinunternehmer) return false
+    if (monitor.exceededOn === null) return true
+    return grossLimit && date < monitor.exceededOn
+  }
+
+  const periods: UvaPeriod[] = getUvaPeriods(year, returnPeriod).map(period => ({ ...period, ...emptyFigures() }))
+  const findPeriod = (date: string) => periods.find(p => date >= p.from && date < p.to)
+
+  for (const revenue of revenues) {
+    const period = findPeriod(revenue.date)
+    if (!period) continue
+
+    if (revenue.vat_rate === 0) {
+      period.kz020 += revenue.amount
+    } else if (isKleinunternehmerOn(revenue.date)) {
+      period.kz016 += revenue.amount
+    } else {
+      const { net, vat } = splitGrossAmount(revenue.amount, revenue.vat_rate)
+      if (revenue.vat_rate === 20) period.kz022 += net
+      else if (revenue.vat_rate === 10) period.kz029 += net
+      else period.kz006 += net
+      period.outputVat += vat
+    }
+  }
+
+  const taxableBase = periods.reduce((sum, p) => sum + p.kz022 + p.kz029 + p.kz006, 0)
+  const totalBase = periods.reduce((sum, p) => sum + p.kz016 + p.kz020 + p.kz022 + p.kz029 + p.kz006, 0)
+  const deductionRatio = totalBase > 0 ? taxableBase / totalBase : 0
+
+  const yearStart = `${year}-01-01`
+  const nextYearStart = `${year + 1}-01-01`
+  for (const expense of expenses) {
+    if (expense.vat_allocation === 'exempt') continue
+
+    const inputVat = getInputVat(expense)
+    if (inputVat === 0) continue
+
+    const dates = getRecurringDueDates(
+      expense.expense_date,
+      expense.is_recurring ? expense.recurrence_interval || 'monthly' : null,
+      yearStart,
+      nextYearStart
+    )
+    for (const date of dates) {
+      const period = findPeriod(date)
+      if (!period || isKleinunternehmerOn(date)) continue
+
+      period.kz060 += expense.vat_allocation === 'taxable' ? inputVat : inputVat * deductionRatio
+    }
+  }
+
+  const total = emptyFigures()
+  for (const period of periods) {
+    period.kz016 = roundCents(period.kz016)
+    period.kz020 = roundCents(period.kz020)
+    period.kz022 = roundCents(period.kz022)
+    period.kz029 = roundCents(period.kz029)
+    period.kz006 = roundCents(period.kz006)
+    period.kz000 = roundCents(period.kz016 + period.kz020 + period.kz022 + period.kz029 + period.kz006)
+    period.outputVat = roundCents(period.outputVat)
+    period.kz060 = roundCents(period.kz060)
+    period.kz095 = roundCents(period.outputVat - period.kz060)
+
+    for (const key of Object.keys(total) as (keyof UvaFigures)[]) {
+      total[key] = roundCents(total[key] + period[key])
+    }
+  }
+
+  return {
+    year,
+    kleinunternehmer: input.kleinunternehmer,
+    returnPeriod,
+    deductionRatio: Math.round(deductionRatio * 10000) / 10000,
+    periods,
+    total,
+    monitor
+  }
+}
+
+/**
+ * VAT payable of a period for the tax estimates (output VAT less input VAT)
+ *
+ * Exempt medical revenue carries no VAT. A Kleinunternehmer within the
+ * tolerance limit pays and deducts none; above it the whole period is taxed,
+ * where calculateVatSummary taxes only the payments from the crossing on.
+ */
+export function estimateVatPayable(input: VatEstimateInput): number {
+  const { year, revenues, expenses, kleinunternehmer, monthsInPeriod = 12 } = input
+  const vat = getTaxConfig(year).vat
+  const taxable = revenues.filter(r => r.vat_rate > 0)
+
+  if (kleinunternehmer) {
+    const turnover = taxable.reduce(
+      (sum, r) => sum + (vat.kleinunternehmerGrossLimit ? r.amount : splitGrossAmount(r.amount, r.vat_rate).net),
+      0
+    )
+    const toleranceLimit = roundCents(vat.kleinunternehmerLimit * (1 + vat.kleinunternehmerTolerance))
+    if (turnover * (12 / monthsInPeriod) <= toleranceLimit) {
+      return 0
+    }
+  }
+
+  let outputVat = 0
+  let taxableBase = 0
+  for (const revenue of taxable) {
+    const { net, vat: contained } = splitGrossAmount(revenue.amount, revenue.vat_rate)
+    outputVat += contained
+    taxableBase += net
+  }
+  const exemptBase = revenues.filter(r => r.vat_rate === 0).reduce((sum, r) => sum + r.amount, 0)
+  const totalBase = taxableBase + exemptBase
+  const deductionRatio = totalBase > 0 ? taxableBase / totalBase : 0
+
+  const inputVat = expenses.reduce((sum, expense) => {
+    if (expense.vat_allocation === 'exempt') return sum
+    const share = expense.vat_allocation === 'taxable' ? 1 : deductionRatio
+    return sum + getInputVat(expense) * expense.occurrences * share
+  }, 0)
+
+  return roundCents(outputVat - inputVat)
+}
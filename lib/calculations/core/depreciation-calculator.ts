@@ -0,0 +1,168 @@
+/**
+ * Depreciation Calculator
+ * Pure functions for straight-line depreciation (AfA) of the asset register
+ *
+ * - Assets up to the GWG limit are written off in full in the acquisition year
+ * - Half-year rule: assets used for at most six months of a year (put into use
+ *   after June, or disposed of before July) get half the annual AfA
+ * - On disposal, the remaining book value is written off in the disposal year
+ */
+
+import type { DepreciableAsset, DepreciationYear } from '../types'
+import { getTaxConfig } from '../../config/tax-config'
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function yearOf(date: string): number {
+  return Number(date.slice(0, 4))
+}
+
+function monthOf(date: string): number {
+  return Number(date.slice(5, 7))
+}
+
+/**
+ * GWG limit of the acquisition year
+ */
+export function getGwgLimit(acquisitionDate: string): number {
+  return getTaxConfig(yearOf(acquisitionDate)).deductionLimits.gwgLimit
+}
+
+/**
+ * Calculate the yearly depreciation schedule of an asset
+ *
+ * @param asset Asset with acquisition date, cost, useful life and optional disposal
+ * @param gwgLimit Immediate write-off limit, defaults to the limit of the acquisition year
+ */
+export function calculateDepreciationSchedule(
+  asset: DepreciableAsset,
+  gwgLimit: number = getGwgLimit(asset.acquisition_date)
+): DepreciationYear[] {
+  const cost = roundCents(asset.acquisition_cost)
+  const startYear = yearOf(asset.acquisition_date)
+  if (cost <= 0) return []
+
+  if (cost <= gwgLimit) {
+    return [{
+      year: startYear,
+      bookValueStart: cost,
+      depreciation: cost,
+      residualWriteOff: 0,
+      bookValueEnd: 0,
+      halfYear: false,
+      gwg: true
+    }]
+  }
+
+  const disposalYear = asset.disposal_date ? Math.max(startYear, yearOf(asset.disposal_date)) : null
+  const annual = cost / Math.max(1, asset.useful_life_years)
+  const schedule: DepreciationYear[] = []
+  let bookValue = cost
+
+  for (let year = startYear; bookValue > 0; year++) {
+    const isDisposalYear = year === disposalYear
+    const halfYear =
+      (year === startYear && monthOf(asset.acquisition_date) > 6) ||
+      (isDisposalYear && monthOf(asset.disposal_date!) <= 6)
+
+    let depreciation = roundCents(Math.min(bookValue, halfYear ? annual / 2 : annual))
+    // Rounding remainder goes into the last year
+    if (bookValue - depreciation < 0.01) depreciation = bookValue
+
+    const residualWriteOff = isDisposalYear ? roundCents(bookValue - depreciation) : 0
+    const bookValueEnd = roundCents(bookValue - depreciation - residualWriteOff)
+
+    schedule.push({
+      year,
+      bookValueStart: bookValue,
+      depreciation,
+      residualWriteOff,
+      bookValueEnd,
+      halfYear,
+      gwg: false
+    })
+
+    bookValue = bookValueEnd
+    if (isDisposalYear) break
+  }
+
+  return schedule
+}
+
+/**
+ * Depreciation expense of an asset in a year (AfA plus residual write-off)
+ */
+export function getDepreciationForYear(asset: DepreciableAsset, year: number): number {
+  const entry = calculateDepreciationSchedule(asset).find(e => e.year === year)
+  return entry ? roundCents(entry.depreciation + entry.residualWriteOff) : 0
+}
+
+/**
+ * Book value of an asset at the end of a year
+ */
+export function getBookValue(asset: DepreciableAsset, year: number): number {
+  if (year < yearOf(asset.acquisition_date)) return 0
+  const schedule = calculateDepreciationSchedule(asset)
+  const entry = [...schedule].reverse().find(e => e.year <= year)
+  return entry ? entry.bookValueEnd : 0
+}
+
+/**
+ * Depreciation expense of an asset in a month
+ * The AfA of a year is spread evenly over the months the asset is in use;
+ * GWG write-offs fall into the acquisition month, residual write-offs into
+ * the disposal month
+ *
+ * @param month YYYY-MM or YYYY-MM-DD
+ */
+export function getDepreciationForMonth(asset: DepreciableAsset, month: string): number {
+  const year = yearOf(month)
+  const entry = calculateDepreciationSchedule(asset).find(e => e.year === year)
+  if (!entry) return 0
+
+  const firstMonth = year === yearOf(asset.acquisition_date) ? monthOf(asset.acquisition_date) : 1
+  const lastMonth = asset.disposal_date && year === yearOf(asset.disposal_date) ? monthOf(asset.disposal_date) : 12
+  const current = monthOf(month)
+  if (current < firstMonth || current > lastMonth) return 0
+
+  if (entry.gwg) {
+    return current === firstMonth ? entry.depreciation : 0
+  }
+
+  const monthlyAfa = entry.depreciation / (lastMonth - firstMonth + 1)
+  return monthlyAfa + (current === lastMonth ? entry.residualWriteOff : 0)
+}
+
+/**
+ * Total depreciation expense of several assets over a range of months
+ *
+ * @param startMonth First month (YYYY-MM), inclusive
+ * @param endMonth Last month (YYYY-MM), inclusive
+ */
+export function getDepreciationForPeriod(
+  assets: DepreciableAsset[],
+  startMonth: string,
+  endMonth: string
+): number {
+  let total = 0
+  let year = yearOf(startMonth)
+  let month = monthOf(startMonth)
+  const endKey = endMonth.slice(0, 7)
+
+  for (;;) {
+    const key = `${year}-${String(month).padStart(2, '0')}`
+    if (key > endKey) break
+    for (const asset of assets) {
+      total += getDepreciationForMonth(asset, key)
+    }
+    month++
+    if (month > 12) {
+      month = 1
+      year++
+    }
+  }
+
+  return roundCents(total)
+}
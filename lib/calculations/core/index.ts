@@ -5,3 +5,8 @@
 export * from './session-calculator'
 export * from './revenue-calculator'
 export * from './margin-calculator'
+export * from './price-schedule'
+export * from './reimbursement-calculator'
+export * from './depreciation-calculator'
+export * from './svs-assessment-calculator'
+export * from './prepayment-calculator'
@@ -0,0 +1,94 @@
+/**
+ * Prepayment Calculator
+ * Pure functions reconciling income-tax prepayments (Vorauszahlungen) with the
+ * projected income tax
+ *
+ * - Prepayments are due on 15 Feb, May, Aug and Nov
+ * - The difference to the final tax is settled with the assessment
+ * - A request to lower the prepayments (Herabsetzungsantrag) is possible until
+ *   30 September; back payments bear Anspruchszinsen from 1 October of the
+ *   following year, so raising (or paying ahead) is worthwhile until then
+ */
+
+import type { PrepaymentReconciliation, TaxPrepaymentRecord } from '../types'
+
+/** Income-tax prepayments are due on the 15th of Feb, May, Aug and Nov */
+const PREPAYMENT_DUE_MONTHS = [2, 5, 8, 11]
+
+/** Differences below 10% of the tax (at least €500) do not warrant a request */
+const ADJUSTMENT_SHARE = 0.1
+const ADJUSTMENT_MINIMUM = 500
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Due date of a prepayment quarter (YYYY-MM-DD)
+ */
+export function getPrepaymentDueDate(year: number, quarter: number): string {
+  const month = PREPAYMENT_DUE_MONTHS[quarter - 1]
+  return `${year}-${String(month).padStart(2, '0')}-15`
+}
+
+/**
+ * Compare the prepayments of a year with the projected income tax
+ *
+ * @param records Prepayments per quarter as set by the Finanzamt and paid
+ * @param projectedTax Projected income tax still to be paid for the year (after wage tax)
+ * @param year Tax year
+ * @param today Reference date (YYYY-MM-DD) for overdue quarters and deadlines
+ */
+export function reconcilePrepayments(
+  records: TaxPrepaymentRecord[],
+  projectedTax: number,
+  year: number,
+  today: string
+): PrepaymentReconciliation {
+  const quarters = [1, 2, 3, 4].map(quarter => {
+    const record = records.find(r => r.quarter === quarter)
+    const assessed = roundCents(record?.assessed_amount ?? 0)
+    const paid = roundCents(record?.paid_amount ?? 0)
+    const dueDate = getPrepaymentDueDate(year, quarter)
+    const outstanding = roundCents(Math.max(0, assessed - paid))
+
+    return {
+      quarter,
+      dueDate,
+      assessed,
+      paid,
+      outstanding,
+      overdue: outstanding > 0 && dueDate < today
+    }
+  })
+
+  const totalAssessed = roundCents(quarters.reduce((sum, q) => sum + q.assessed, 0))
+  const totalPaid = roundCents(quarters.reduce((sum, q) => sum + q.paid, 0))
+  const expectedSettlement = roundCents(projectedTax - totalAssessed)
+
+  const tolerance = Math.max(ADJUSTMENT_MINIMUM, Math.max(totalAssessed, projectedTax) * ADJUSTMENT_SHARE)
+  const lowerDeadline = `${year}-09-30`
+  const raiseDeadline = `${year + 1}-09-30`
+
+  let action: PrepaymentReconciliation['recommendation']['action'] = 'none'
+  if (expectedSettlement < -tolerance && today <= lowerDeadline) {
+    action = 'lower'
+  } else if (expectedSettlement > tolerance && today <= raiseDeadline) {
+    action = 'raise'
+  }
+
+  return {
+    year,
+    quarters,
+    totalAssessed,
+    totalPaid,
+    outstanding: roundCents(quarters.reduce((sum, q) => sum + q.outstanding, 0)),
+    projectedTax: roundCents(projectedTax),
+    expectedSettlement,
+    recommendation: {
+      action,
+      suggestedAnnual: Math.max(0, Math.round(projectedTax)),
+      deadline: action === 'raise' ? raiseDeadline : lowerDeadline
+    }
+  }
+}
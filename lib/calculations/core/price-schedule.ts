@@ -0,0 +1,113 @@
+/**
+ * Price Schedule
+ * Pure functions for effective-dated therapy prices
+ */
+
+import type { PriceRecord, PriceSchedule } from '../types'
+
+/**
+ * Get the price valid in a month
+ * Uses the latest record starting on or before the month; months before the
+ * first record use the first known price, and the base price applies if there
+ * are no records at all
+ *
+ * @param schedule Price schedule or a plain price
+ * @param month YYYY-MM or YYYY-MM-DD
+ */
+export function getPriceForMonth(schedule: PriceSchedule | number, month: string): number {
+  if (typeof schedule === 'number') return schedule
+  if (schedule.records.length === 0) return schedule.basePrice
+
+  const monthKey = month.slice(0, 7)
+  const sorted = sortPriceRecords(schedule.records)
+  let price = sorted[0].price
+
+  for (const record of sorted) {
+    if (record.valid_from.slice(0, 7) > monthKey) break
+    price = record.price
+  }
+
+  return price
+}
+
+/**
+ * Sort price records by start month (oldest first)
+ */
+export function sortPriceRecords<T extends PriceRecord>(records: T[]): T[] {
+  return [...records].sort((a, b) => a.valid_from.localeCompare(b.valid_from))
+}
+
+/**
+ * Group price rows by therapy type
+ */
+export function groupPriceRecords<T extends PriceRecord & { therapy_type_id: string }>(
+  rows: T[]
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>()
+  for (const row of rows) {
+    const records = grouped.get(row.therapy_type_id) ?? []
+    records.push({ ...row, price: Number(row.price) })
+    grouped.set(row.therapy_type_id, records)
+  }
+  for (const [id, records] of grouped) {
+    grouped.set(id, sortPriceRecords(records))
+  }
+  return grouped
+}
+
+/**
+ * Build a price schedule for a therapy type
+ */
+export function toPriceSchedule(basePrice: number, records: PriceRecord[] = []): PriceSchedule {
+  return { basePrice, records }
+}
+
+/**
+ * Calculate the revenue impact of a scheduled price change on planned sessions
+ *
+ * @param plannedSessions Planned sessions per month (YYYY-MM or YYYY-MM-DD)
+ * @param schedule Current price schedule
+ * @param newPrice Price that takes effect
+ * @param validFrom First month the new price applies (YYYY-MM or YYYY-MM-DD)
+ */
+export function calculatePriceChangeImpact(
+  plannedSessions: Array<{ month: string; sessions: number }>,
+  schedule: PriceSchedule,
+  newPrice: number,
+  validFrom: string
+): {
+  affectedMonths: number
+  affectedSessions: number
+  currentRevenue: number
+  newRevenue: number
+  difference: number
+} {
+  const changed: PriceSchedule = {
+    basePrice: schedule.basePrice,
+    records: [
+      ...schedule.records.filter(r => r.valid_from.slice(0, 7) !== validFrom.slice(0, 7)),
+      { price: newPrice, valid_from: `${validFrom.slice(0, 7)}-01` },
+    ],
+  }
+
+  let affectedMonths = 0
+  let affectedSessions = 0
+  let currentRevenue = 0
+  let newRevenue = 0
+
+  for (const { month, sessions } of plannedSessions) {
+    if (month.slice(0, 7) < validFrom.slice(0, 7) || sessions <= 0) continue
+    affectedMonths++
+    affectedSessions += sessions
+    currentRevenue += sessions * getPriceForMonth(schedule, month)
+    newRevenue += sessions * getPriceForMonth(changed, month)
+  }
+
+  return {
+    affectedMonths,
+    affectedSessions,
+    currentRevenue,
+    newRevenue,
+    difference: newRevenue - currentRevenue,
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Reimbursement Calculator
+ * Pure functions for Wahlarzt reimbursement (Kostenerstattung)
+ */
+
+import type { ReimbursementResult } from '../types'
+
+/** Insurers usually refund 80% of the Kassentarif */
+export const DEFAULT_REIMBURSEMENT_RATE = 80
+
+/**
+ * Calculate the refund and the patient's out-of-pocket cost of a session
+ * The refund is rate % of the tariff, but never more than the price paid
+ *
+ * @param price Price charged per session
+ * @param tariff Kassentarif of the insurer for the same treatment
+ * @param reimbursementRate Refunded share of the tariff in % (default 80)
+ */
+export function calculateReimbursement(
+  price: number,
+  tariff: number,
+  reimbursementRate: number = DEFAULT_REIMBURSEMENT_RATE
+): ReimbursementResult {
+  const reimbursement = Math.min(
+    Math.max(0, price),
+    Math.round(tariff * reimbursementRate) / 100
+  )
+  const outOfPocket = Math.max(0, price - reimbursement)
+
+  return {
+    price,
+    tariff,
+    reimbursement,
+    outOfPocket,
+    outOfPocketPercent: price > 0 ? (outOfPocket / price) * 100 : 0,
+    priceToTariffRatio: tariff > 0 ? price / tariff : null
+  }
+}
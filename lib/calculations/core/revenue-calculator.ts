@@ -4,21 +4,27 @@
  * Now includes payment processing fee deductions (e.g., SumUp 1.39%)
  */
 
-import type { SessionRevenue } from '../types'
+import type { SessionRevenue, PriceSchedule } from '../types'
 import { calculateNetPrice } from '../payment-fees'
+import { getPriceForMonth } from './price-schedule'
 
 /**
  * Calculate revenue from sessions and price per session
  * Core formula: revenue = sessions × price
  *
  * @param sessions Number of sessions completed
- * @param pricePerSession Price per individual session
+ * @param price Price per individual session, or a price schedule
+ * @param month Month (YYYY-MM) used to resolve the price from a schedule
  * @returns SessionRevenue with detailed breakdown
  */
 export function calculateSessionRevenue(
   sessions: number,
-  pricePerSession: number
+  price: number | PriceSchedule,
+  month?: string
 ): SessionRevenue {
+  const pricePerSession = typeof price === 'number'
+    ? price
+    : month ? getPriceForMonth(price, month) : price.basePrice
   const revenue = sessions * pricePerSession
 
   return {
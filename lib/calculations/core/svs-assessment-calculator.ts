@@ -0,0 +1,173 @@
+/**
+ * SVS Assessment Calculator
+ * Pure functions for the provisional vs. final SVS contributions (Nachbemessung)
+ *
+ * - The SVS charges provisional contributions on the base of three years earlier
+ *   (without the Aktualisierungsfaktor here; enter the base from the SVS notice)
+ * - Once the income-tax assessment is final, the base becomes the assessed profit
+ *   plus the KV/PV contributions prescribed for the year (Hinzurechnung)
+ * - The difference is charged with the next quarterly prescription
+ */
+
+import type {
+  SvsAssessmentRecord,
+  SvsAssessmentProjection,
+  SvsBaseRecommendation
+} from '../types'
+import { getTaxConfig } from '../../config/tax-config'
+
+/** SVS quarterly prescriptions are due at the end of Feb, May, Aug and Nov */
+const SVS_DUE_MONTHS = [2, 5, 8, 11]
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function clampBase(annualBase: number, year: number): number {
+  const svs = getTaxConfig(year).selfEmployedSocialSecurity
+  return roundCents(Math.min(Math.max(annualBase, svs.minMonthlyBase * 12), svs.maxMonthlyBase * 12))
+}
+
+/** Pension, health and Selbständigenvorsorge rate; accident insurance is fixed */
+function contributionRate(year: number): number {
+  const svs = getTaxConfig(year).selfEmployedSocialSecurity
+  return svs.pensionRate + svs.healthRate + svs.provisionRate
+}
+
+/**
+ * First SVS due date after a date (YYYY-MM-DD)
+ */
+export function getNextSvsDueDate(after: string): string {
+  let year = Number(after.slice(0, 4))
+  const month = Number(after.slice(5, 7))
+  let dueMonth = SVS_DUE_MONTHS.find(m => m > month)
+  if (dueMonth === undefined) {
+    dueMonth = SVS_DUE_MONTHS[0]
+    year++
+  }
+  const lastDay = new Date(year, dueMonth, 0).getDate()
+  return `${year}-${String(dueMonth).padStart(2, '0')}-${lastDay}`
+}
+
+/**
+ * Annual provisional base of a year
+ * Taken from the SVS notice, otherwise derived from the final base three years
+ * earlier; without history the Mindestbeitragsgrundlage applies (new practices)
+ */
+function getProvisionalBase(
+  year: number,
+  records: Map<number, SvsAssessmentRecord>
+): { base: number; estimated: boolean } {
+  const record = records.get(year)
+  if (record?.provisional_monthly_base != null) {
+    return { base: clampBase(record.provisional_monthly_base * 12, year), estimated: false }
+  }
+
+  const reference = records.get(year - 3)
+  if (reference?.profit != null) {
+    return { base: clampBase(getFinalBase(reference, records), year), estimated: true }
+  }
+
+  return { base: clampBase(0, year), estimated: true }
+}
+
+/**
+ * Quarterly prescription on the provisional base of the SVS notice, including
+ * accident insurance; null if no base was recorded for the year
+ */
+export function getProvisionalQuarterlyContribution(record: SvsAssessmentRecord | undefined): number | null {
+  if (record?.provisional_monthly_base == null) return null
+
+  const svs = getTaxConfig(record.year).selfEmployedSocialSecurity
+  const annualBase = clampBase(record.provisional_monthly_base * 12, record.year)
+  return roundCents((annualBase * contributionRate(record.year) + svs.accidentMonthly * 12) / 4)
+}
+
+/**
+ * Final annual base: profit plus the KV/PV contributions prescribed for the year
+ */
+function getFinalBase(record: SvsAssessmentRecord, records: Map<number, SvsAssessmentRecord>): number {
+  const svs = getTaxConfig(record.year).selfEmployedSocialSecurity
+  const { base: provisionalBase } = getProvisionalBase(record.year, records)
+  const hinzurechnung = provisionalBase * (svs.pensionRate + svs.healthRate)
+  return clampBase((record.profit ?? 0) + hinzurechnung, record.year)
+}
+
+/**
+ * Project the Nachbemessung of every year with a profit
+ *
+ * @param records SVS history, one entry per year
+ * @param today Reference date (YYYY-MM-DD) for the expected due dates
+ */
+export function projectSvsAssessments(
+  records: SvsAssessmentRecord[],
+  today: string
+): SvsAssessmentProjection[] {
+  const byYear = new Map(records.map(record => [record.year, record]))
+
+  return records
+    .filter(record => record.profit != null)
+    .sort((a, b) => a.year - b.year)
+    .map(record => {
+      const rate = contributionRate(record.year)
+      const provisional = getProvisionalBase(record.year, byYear)
+      const finalBase = getFinalBase(record, byYear)
+      const provisionalContributions = roundCents(provisional.base * rate)
+      const finalContributions = roundCents(finalBase * rate)
+
+      // Without a final assessment the difference comes after the tax return
+      // of the following year has been assessed
+      const assessedFrom = record.profit_assessed ? today : `${record.year + 1}-09-30`
+      const expectedDue = getNextSvsDueDate(assessedFrom > today ? assessedFrom : today)
+
+      return {
+        year: record.year,
+        profit: record.profit as number,
+        profitAssessed: record.profit_assessed,
+        provisionalBase: provisional.base,
+        provisionalBaseEstimated: provisional.estimated,
+        provisionalContributions,
+        finalBase,
+        finalContributions,
+        backPayment: roundCents(finalContributions - provisionalContributions),
+        expectedDue,
+        settled: record.settled
+      }
+    })
+}
+
+/**
+ * Total outstanding Nachbemessung of all unsettled years (credits offset)
+ */
+export function getOpenSvsBackPayment(projections: SvsAssessmentProjection[]): number {
+  return roundCents(
+    projections.filter(p => !p.settled).reduce((sum, p) => sum + p.backPayment, 0)
+  )
+}
+
+/**
+ * Recommend raising the provisional base of the running year to the expected
+ * final base, so that no Nachbemessung builds up
+ * Returns null if the running year has no projected back payment
+ */
+export function recommendSvsBase(
+  projections: SvsAssessmentProjection[],
+  year: number
+): SvsBaseRecommendation | null {
+  const projection = projections.find(p => p.year === year && !p.settled)
+  if (!projection || projection.backPayment <= 0) return null
+
+  const svs = getTaxConfig(year).selfEmployedSocialSecurity
+  // Raising the base also raises the KV/PV contributions added back to the profit
+  const kvPvRate = svs.pensionRate + svs.healthRate
+  const recommendedBase = clampBase(projection.profit / (1 - kvPvRate), year)
+
+  return {
+    year,
+    currentMonthlyBase: roundCents(projection.provisionalBase / 12),
+    recommendedMonthlyBase: roundCents(recommendedBase / 12),
+    additionalMonthlyContribution: roundCents(
+      ((recommendedBase - projection.provisionalBase) * contributionRate(year)) / 12
+    )
+  }
+}
@@ -1,16 +1,19 @@
 /**
  * Payment Fee Calculator
  *
- * Pure functions for calculating SumUp payment fees and related metrics.
+ * Pure functions for calculating payment fees and related metrics.
  * SumUp charges 1.39% per transaction for card payments.
  *
  * This module provides utilities for:
  * - Fee calculation on gross amounts
+ * - Payment-method fee profiles with a revenue split per method
  * - Net revenue calculation after fees
  * - Break-even analysis with fees
  * - Growth projections with fee impact
  */
 
+import type { PaymentMethod } from '@/lib/types';
+
 /**
  * SumUp transaction fee rate (1.39%)
  */
@@ -34,16 +37,25 @@ export function calculatePaymentFee(grossAmount: number): number {
  * Calculate net revenue after payment fees
  *
  * @param grossAmount - The gross amount before fees (in EUR)
- * @param feePercentage - Optional fee percentage (e.g., 1.39 for 1.39%). If not provided, uses SUMUP_FEE_RATE
+ * @param fee - Optional fee percentage (e.g., 1.39 for 1.39%) or payment fee model. If not provided, uses SUMUP_FEE_RATE
+ * @param transactions - Number of transactions, used for fixed per-transaction fees of a fee model
  * @returns The net amount after fee deduction (in EUR)
  *
  * @example
  * calculateNetRevenue(100) // returns 98.61
  * calculateNetRevenue(100, 1.39) // returns 98.61
+ * calculateNetRevenue(100, { profiles, split: { bar: 1 } }) // returns 100
  */
-export function calculateNetRevenue(grossAmount: number, feePercentage?: number): number {
-  if (feePercentage !== undefined) {
-    return grossAmount * (1 - feePercentage / 100);
+export function calculateNetRevenue(
+  grossAmount: number,
+  fee?: PaymentFeeSetting,
+  transactions: number = 0
+): number {
+  if (isPaymentFeeModel(fee)) {
+    return grossAmount - calculatePaymentFees(grossAmount, fee, transactions);
+  }
+  if (fee !== undefined) {
+    return grossAmount * (1 - fee / 100);
   }
   return grossAmount - calculatePaymentFee(grossAmount);
 }
@@ -96,20 +108,27 @@ export function calculateBreakEvenSessionsWithFees(
 
 /**
  * Calculate monthly profit after payment fees and fixed costs
+ * With a fee model, the monthly fees of all payment methods are deducted as well
  *
  * @param grossRevenue - Gross monthly revenue (in EUR)
  * @param fixedCosts - Monthly fixed costs (in EUR)
+ * @param fee - Optional fee percentage or payment fee model. If not provided, uses SUMUP_FEE_RATE
+ * @param transactions - Number of transactions in the month (for fixed per-transaction fees)
  * @returns Monthly profit (can be negative if costs exceed revenue)
  *
  * @example
  * calculateMonthlyProfit(5000, 2000) // returns ~2930.50
+ * calculateMonthlyProfit(5000, 2000, { profiles, split: { bar: 0.5, kreditkarte: 0.5 } }) // returns ~2965.25
  */
 export function calculateMonthlyProfit(
   grossRevenue: number,
-  fixedCosts: number
+  fixedCosts: number,
+  fee?: PaymentFeeSetting,
+  transactions: number = 0
 ): number {
-  const netRevenue = calculateNetRevenue(grossRevenue);
-  return netRevenue - fixedCosts;
+  const netRevenue = calculateNetRevenue(grossRevenue, fee, transactions);
+  const monthlyFees = isPaymentFeeModel(fee) ? calculateMonthlyPaymentFees(fee) : 0;
+  return netRevenue - fixedCosts - monthlyFees;
 }
 
 /**
@@ -325,3 +344,221 @@ export function calculateProfitMarginWithFees(
 
   return (profit / grossRevenue) * 100;
 }
+
+// ============================================================================
+// Payment-method fee profiles
+// Cash and bank transfers are usually free, card payments carry a percentage
+// and possibly a per-transaction fee. Fees are applied per payment method
+// according to the revenue split (actual Latido payment methods or planned shares)
+// ============================================================================
+
+/**
+ * Fee profile of a single payment method
+ */
+export interface FeeProfile {
+  payment_method: PaymentMethod;
+  percentage_fee: number; // e.g. 1.39 for 1.39%
+  fixed_fee: number; // EUR per transaction
+  monthly_fee: number; // EUR per month (e.g. terminal rental)
+  planned_share: number; // Planned share of revenue in % (0-100)
+}
+
+/**
+ * Revenue per payment method, either as amounts or as shares
+ */
+export type RevenueSplit = Partial<Record<PaymentMethod, number>>;
+
+/**
+ * Fee profiles together with the revenue split they are applied to
+ */
+export interface PaymentFeeModel {
+  profiles: FeeProfile[];
+  split: RevenueSplit;
+}
+
+/**
+ * Either a single fee percentage applied to all revenue or a fee model
+ */
+export type PaymentFeeSetting = number | PaymentFeeModel;
+
+export interface PaymentFeeBreakdownItem {
+  payment_method: PaymentMethod;
+  gross_revenue: number;
+  transactions: number;
+  fees: number;
+}
+
+/**
+ * Default fee profiles (SumUp rate for card payments, no fees otherwise)
+ */
+export const DEFAULT_FEE_PROFILES: FeeProfile[] = [
+  { payment_method: 'bar', percentage_fee: 0, fixed_fee: 0, monthly_fee: 0, planned_share: 0 },
+  { payment_method: 'bankomat', percentage_fee: 1.39, fixed_fee: 0, monthly_fee: 0, planned_share: 0 },
+  { payment_method: 'kreditkarte', percentage_fee: 1.39, fixed_fee: 0, monthly_fee: 0, planned_share: 100 },
+  { payment_method: 'ueberweisung', percentage_fee: 0, fixed_fee: 0, monthly_fee: 0, planned_share: 0 },
+  { payment_method: 'sonstige', percentage_fee: 0, fixed_fee: 0, monthly_fee: 0, planned_share: 0 },
+];
+
+/**
+ * Revenue split used when neither actual nor planned shares are available
+ * (all revenue is treated as card payments, like the former single rate)
+ */
+const FALLBACK_REVENUE_SPLIT: RevenueSplit = { kreditkarte: 1 };
+
+function isPaymentFeeModel(fee: PaymentFeeSetting | undefined): fee is PaymentFeeModel {
+  return typeof fee === 'object' && fee !== null;
+}
+
+function splitTotal(split: RevenueSplit): number {
+  return Object.values(split).reduce((sum, value) => sum + (value || 0), 0);
+}
+
+/**
+ * Normalize a revenue split to shares summing to 1
+ *
+ * @example
+ * normalizeRevenueSplit({ bar: 300, kreditkarte: 100 }) // returns { bar: 0.75, kreditkarte: 0.25 }
+ */
+export function normalizeRevenueSplit(split: RevenueSplit): RevenueSplit {
+  const total = splitTotal(split);
+  if (total <= 0) return {};
+
+  const shares: RevenueSplit = {};
+  for (const [method, value] of Object.entries(split) as Array<[PaymentMethod, number]>) {
+    if (value > 0) {
+      shares[method] = value / total;
+    }
+  }
+  return shares;
+}
+
+/**
+ * Sum up revenue per payment method from ledger rows
+ * Rows without a known payment method are ignored
+ */
+export function buildRevenueSplit(
+  rows: Array<{ payment_method: PaymentMethod | null; gross_amount: number }>
+): RevenueSplit {
+  const split: RevenueSplit = {};
+  for (const row of rows) {
+    if (!row.payment_method) continue;
+    split[row.payment_method] = (split[row.payment_method] || 0) + (Number(row.gross_amount) || 0);
+  }
+  return split;
+}
+
+/**
+ * Revenue split from the planned shares of the fee profiles
+ */
+export function getPlannedRevenueSplit(profiles: FeeProfile[]): RevenueSplit {
+  return normalizeRevenueSplit(
+    Object.fromEntries(profiles.map(profile => [profile.payment_method, profile.planned_share]))
+  );
+}
+
+/**
+ * Create a fee model from profiles and an optional actual revenue split
+ * Falls back to the planned shares when there is no actual split
+ */
+export function createPaymentFeeModel(
+  profiles: FeeProfile[],
+  actualSplit?: RevenueSplit
+): PaymentFeeModel {
+  const actual = actualSplit ? normalizeRevenueSplit(actualSplit) : {};
+  if (splitTotal(actual) > 0) {
+    return { profiles, split: actual };
+  }
+
+  const planned = getPlannedRevenueSplit(profiles);
+  return { profiles, split: splitTotal(planned) > 0 ? planned : FALLBACK_REVENUE_SPLIT };
+}
+
+/**
+ * Split gross revenue and transactions by payment method and calculate the fees of each
+ *
+ * @param grossRevenue - Gross revenue before fees (in EUR)
+ * @param model - Fee profiles and revenue split
+ * @param transactions - Number of transactions (for fixed per-transaction fees)
+ */
+export function calculatePaymentFeeBreakdown(
+  grossRevenue: number,
+  model: PaymentFeeModel,
+  transactions: number = 0
+): PaymentFeeBreakdownItem[] {
+  const shares = normalizeRevenueSplit(model.split);
+
+  return (Object.entries(shares) as Array<[PaymentMethod, number]>).map(([method, share]) => {
+    const profile = model.profiles.find(p => p.payment_method === method);
+    const methodRevenue = grossRevenue * share;
+    const methodTransactions = transactions * share;
+    const fees = profile
+      ? methodRevenue * (profile.percentage_fee / 100) + methodTransactions * profile.fixed_fee
+      : 0;
+
+    return {
+      payment_method: method,
+      gross_revenue: methodRevenue,
+      transactions: methodTransactions,
+      fees,
+    };
+  });
+}
+
+/**
+ * Calculate the transaction-dependent payment fees for gross revenue
+ *
+ * @param grossRevenue - Gross revenue before fees (in EUR)
+ * @param fee - Fee percentage (e.g., 1.39 for 1.39%) or payment fee model
+ * @param transactions - Number of transactions (for fixed per-transaction fees)
+ * @returns The payment fee amount (in EUR)
+ *
+ * @example
+ * calculatePaymentFees(1000, 1.39) // returns 13.9
+ * calculatePaymentFees(1000, { profiles, split: { bar: 0.5, kreditkarte: 0.5 } }) // returns 6.95
+ */
+export function calculatePaymentFees(
+  grossRevenue: number,
+  fee: PaymentFeeSetting,
+  transactions: number = 0
+): number {
+  if (!isPaymentFeeModel(fee)) {
+    return calculateSumUpCosts(grossRevenue, fee);
+  }
+  return calculatePaymentFeeBreakdown(grossRevenue, fee, transactions)
+    .reduce((sum, item) => sum + item.fees, 0);
+}
+
+/**
+ * Calculate the fixed monthly fees of all payment methods (e.g. terminal rental)
+ */
+export function calculateMonthlyPaymentFees(fee: PaymentFeeSetting): number {
+  if (!isPaymentFeeModel(fee)) return 0;
+  return fee.profiles.reduce((sum, profile) => sum + profile.monthly_fee, 0);
+}
+
+/**
+ * Calculate all payment costs of a month: transaction fees plus monthly fees
+ *
+ * @param grossRevenue - Gross monthly revenue before fees (in EUR)
+ * @param fee - Fee percentage or payment fee model
+ * @param transactions - Number of transactions in the month
+ */
+export function calculateMonthlyPaymentCosts(
+  grossRevenue: number,
+  fee: PaymentFeeSetting,
+  transactions: number = 0
+): number {
+  return calculatePaymentFees(grossRevenue, fee, transactions) + calculateMonthlyPaymentFees(fee);
+}
+
+/**
+ * Effective fee percentage of gross revenue (for display and per-session estimates)
+ *
+ * @example
+ * getEffectiveFeePercentage(1.39) // returns 1.39
+ * getEffectiveFeePercentage({ profiles, split: { bar: 0.5, kreditkarte: 0.5 } }) // returns 0.695
+ */
+export function getEffectiveFeePercentage(fee: PaymentFeeSetting): number {
+  if (!isPaymentFeeModel(fee)) return fee;
+  return calculatePaymentFees(100, fee);
+}
@@ -3,6 +3,8 @@
  * These are shared across all calculators and form the contract for data passing
  */
 
+import type { PayerRevenue, VatAllocation, VatBreakdownLine, VatRate, VatReturnPeriod } from '@/lib/types'
+
 /**
  * Result of session metrics calculation
  */
@@ -24,6 +26,286 @@ export interface SessionRevenue {
   averagePrice: number
 }
 
+/**
+ * Price valid from the first day of a month onwards
+ */
+export interface PriceRecord {
+  price: number
+  valid_from: string // YYYY-MM-DD (first day of month)
+}
+
+/**
+ * Effective-dated prices of a therapy type
+ * basePrice is used when no price records exist
+ */
+export interface PriceSchedule {
+  basePrice: number
+  records: PriceRecord[]
+}
+
+/**
+ * Wahlarzt reimbursement (Kostenerstattung) of one session
+ */
+export interface ReimbursementResult {
+  price: number
+  tariff: number
+  reimbursement: number // Refund by the insurer
+  outOfPocket: number // Effective cost for the patient
+  outOfPocketPercent: number // Share of the price paid by the patient
+  priceToTariffRatio: number | null // price / tariff, null without a tariff
+}
+
+/**
+ * Asset in the register (Anlageverzeichnis), depreciated straight-line (AfA)
+ */
+export interface DepreciableAsset {
+  acquisition_date: string // YYYY-MM-DD, start of use
+  acquisition_cost: number // net acquisition cost (Anschaffungskosten)
+  useful_life_years: number // Nutzungsdauer
+  disposal_date: string | null // YYYY-MM-DD, sold or scrapped
+}
+
+/**
+ * Depreciation of an asset in one calendar year
+ */
+export interface DepreciationYear {
+  year: number
+  bookValueStart: number
+  depreciation: number // AfA (GWG: full acquisition cost)
+  residualWriteOff: number // Remaining book value written off on disposal
+  bookValueEnd: number
+  halfYear: boolean // Halbjahres-AfA applied
+  gwg: boolean // Immediate write-off as geringwertiges Wirtschaftsgut
+}
+
+/**
+ * SVS history entry of one contribution year
+ */
+export interface SvsAssessmentRecord {
+  year: number
+  profit: number | null // Einkünfte aus selbständiger Arbeit, assessed or estimated
+  profit_assessed: boolean // Profit taken from the final income-tax assessment
+  provisional_monthly_base: number | null // Vorläufige Beitragsgrundlage per month from the SVS notice
+  settled: boolean // Nachbemessung already charged
+}
+
+/**
+ * Provisional vs. final SVS contributions of one year (Nachbemessung)
+ */
+export interface SvsAssessmentProjection {
+  year: number
+  profit: number
+  profitAssessed: boolean
+  provisionalBase: number // Annual provisional base
+  provisionalBaseEstimated: boolean // Derived from the year three years earlier
+  provisionalContributions: number
+  finalBase: number // Profit plus prescribed KV/PV contributions, within min/max
+  finalContributions: number
+  backPayment: number // Positive = Nachzahlung, negative = Gutschrift
+  expectedDue: string // YYYY-MM-DD, estimated prescription of the difference
+  settled: boolean
+}
+
+/**
+ * Income-tax prepayment of one quarter as set by the Finanzamt
+ */
+export interface TaxPrepaymentRecord {
+  quarter: number // 1-4
+  assessed_amount: number // Vorauszahlung laut Bescheid
+  paid_amount: number
+  paid_on: string | null // YYYY-MM-DD
+}
+
+/**
+ * Prepayment quarter with its due date and open amount
+ */
+export interface PrepaymentQuarter {
+  quarter: number
+  dueDate: string // YYYY-MM-DD
+  assessed: number
+  paid: number
+  outstanding: number
+  overdue: boolean
+}
+
+/**
+ * Comparison of the prepayments with the projected income tax
+ */
+export interface PrepaymentReconciliation {
+  year: number
+  quarters: PrepaymentQuarter[]
+  totalAssessed: number
+  totalPaid: number
+  outstanding: number
+  projectedTax: number
+  expectedSettlement: number // Positive = Nachzahlung, negative = Gutschrift
+  recommendation: {
+    action: 'lower' | 'raise' | 'none'
+    suggestedAnnual: number // Prepayments matching the projected tax
+    deadline: string // YYYY-MM-DD, last day to file the request
+  }
+}
+
+/**
+ * Revenue received, with the VAT rate of its therapy type
+ * Freelancers pay VAT on received payments (Istbesteuerung, § 17 UStG)
+ */
+export interface VatRevenueRecord {
+  date: string // YYYY-MM-DD, payment date
+  amount: number // Amount received, including VAT if charged
+  vat_rate: VatRate
+}
+
+/**
+ * Expense with the VAT contained in its amount
+ */
+export interface VatExpenseRecord {
+  expense_date: string // YYYY-MM-DD, first occurrence for recurring expenses
+  amount: number // Gross amount
+  is_recurring: boolean
+  recurrence_interval: string | null
+  vat_rate: VatRate
+  vat_allocation: VatAllocation
+  vat_breakdown?: VatBreakdownLine[] | null // Per-rate VAT of the invoice, replaces amount at vat_rate
+}
+
+/**
+ * Figures of the Umsatzsteuervoranmeldung (form U30), by Kennzahl
+ */
+export interface UvaFigures {
+  kz000: number // Total of all taxable bases (turnover incl. exempt)
+  kz016: number // Exempt as Kleinunternehmer (§ 6 Abs. 1 Z 27)
+  kz020: number // Other exempt turnover without input-tax deduction (§ 6 Abs. 1 Z 19)
+  kz022: number // Base at 20%
+  kz029: number // Base at 10%
+  kz006: number // Base at 13%
+  outputVat: number // VAT on the taxable bases
+  kz060: number // Deductible input tax
+  kz095: number // Positive = Zahllast, negative = Gutschrift
+}
+
+/**
+ * UVA figures of one month or quarter
+ */
+export interface UvaPeriod extends UvaFigures {
+  period: string // YYYY-MM or YYYY-Qn
+  from: string // YYYY-MM-DD, first day
+  to: string // YYYY-MM-DD, first day after the period
+  dueDate: string // YYYY-MM-DD, 15th of the second month after the period
+}
+
+/**
+ * Running check of the Kleinunternehmer limit
+ */
+export interface KleinunternehmerMonitor {
+  limit: number
+  toleranceLimit: number
+  grossLimit: boolean // Limit applies to gross turnover (from 2025), otherwise net
+  turnover: number // Relevant turnover so far; § 6 Abs. 1 Z 19 revenue does not count
+  projectedTurnover: number // Turnover extrapolated to the end of the year
+  status: 'below' | 'tolerance' | 'exceeded'
+  exceededOn: string | null // YYYY-MM-DD, payment that crossed the tolerance limit
+}
+
+/**
+ * VAT of one year: UVA figures per period and the Kleinunternehmer check
+ */
+export interface VatSummary {
+  year: number
+  kleinunternehmer: boolean
+  returnPeriod: VatReturnPeriod
+  deductionRatio: number // Share of taxable revenue (0-1), applied to mixed expenses
+  periods: UvaPeriod[]
+  total: UvaFigures
+  monitor: KleinunternehmerMonitor
+}
+
+/**
+ * Expense as recorded, before recurring occurrences are expanded
+ */
+export interface E1aExpenseRecord {
+  category: string
+  subcategory: string | null
+  amount: number
+  expense_date: string // YYYY-MM-DD, first occurrence for recurring expenses
+  is_recurring: boolean
+  recurrence_interval: string | null
+}
+
+/**
+ * One Kennzahl of the E1a with the amounts it is made of
+ */
+export interface E1aLine {
+  kz: string
+  label: string
+  kind: 'income' | 'expense'
+  amount: number
+  items: { label: string; amount: number }[] // By subcategory or source
+}
+
+/**
+ * Einnahmen-Ausgaben-Rechnung of a year in E1a layout
+ */
+export interface E1aReport {
+  year: number
+  lines: E1aLine[]
+  totalIncome: number
+  totalExpenses: number
+  profit: number // Gewinn/Verlust before Gewinnfreibetrag
+}
+
+/**
+ * Recommendation to raise the provisional base of the running year
+ */
+export interface SvsBaseRecommendation {
+  year: number
+  currentMonthlyBase: number
+  recommendedMonthlyBase: number
+  additionalMonthlyContribution: number
+}
+
+/**
+ * Kind of a scheduled cash movement
+ */
+export type CashFlowCategory = 'revenue' | 'receivable' | 'expense' | 'svs' | 'income_tax' | 'aerztekammer'
+
+/**
+ * Single scheduled cash movement (positive = inflow, negative = outflow)
+ */
+export interface CashFlowItem {
+  date: string // YYYY-MM-DD
+  amount: number
+  category: CashFlowCategory
+  label: string
+}
+
+/**
+ * Bank balance of one month of a cash-flow projection
+ */
+export interface CashFlowMonth {
+  month: string // YYYY-MM
+  openingBalance: number
+  inflows: number
+  outflows: number
+  closingBalance: number
+  lowestBalance: number // Lowest end-of-day balance in the month
+  lowestBalanceDate: string
+  belowMinimum: boolean
+}
+
+/**
+ * Daily bank balance projection
+ */
+export interface CashFlowProjection {
+  openingBalance: number
+  minimumBalance: number
+  days: Array<{ date: string; balance: number }>
+  months: CashFlowMonth[]
+  lowestBalance: number
+  lowestBalanceDate: string
+  firstShortfallDate: string | null // First day below the minimum balance
+}
+
 /**
  * Result of margin calculation
  */
@@ -134,4 +416,5 @@ export interface MetricsData {
   marginPercent: number
   therapyMetrics: TherapyMetric[]
   monthlyBreakdown?: MonthlyMetric[]
+  revenueByPayer?: PayerRevenue // Gross revenue per payer (Kasse/Privat)
 }
@@ -6,7 +6,13 @@
  * Supports years 2023-2025+
  */
 
-import type { TaxYearConfig, TaxBracket, SocialSecurityConfig } from '@/lib/types/tax-types'
+import type {
+  TaxYearConfig,
+  TaxBracket,
+  SocialSecurityConfig,
+  SelfEmployedSocialSecurityConfig,
+  TaxProjectionAssumptions,
+} from '@/lib/types/tax-types'
 
 // ========================================================================
 // 2025 CONFIGURATION (Current)
@@ -18,34 +24,34 @@ export const TAX_CONFIG_2025: TaxYearConfig = {
   // Progressive income tax brackets
   taxBrackets: [
     {
-      upperLimit: 12816,
+      upperLimit: 13308,
       rate: 0.0,
-      description: '€0 - €12,816 at 0% (tax-free)',
+      description: '€0 - €13,308 at 0% (tax-free)',
     },
     {
-      upperLimit: 20818,
+      upperLimit: 21617,
       rate: 0.2,
-      description: '€12,817 - €20,818 at 20%',
+      description: '€13,309 - €21,617 at 20%',
     },
     {
-      upperLimit: 34513,
+      upperLimit: 35836,
       rate: 0.3,
-      description: '€20,819 - €34,513 at 30%',
+      description: '€21,618 - €35,836 at 30%',
     },
     {
-      upperLimit: 66612,
-      rate: 0.41,
-      description: '€34,514 - €66,612 at 41%',
+      upperLimit: 69166,
+      rate: 0.4,
+      description: '€35,837 - €69,166 at 40%',
     },
     {
-      upperLimit: 99266,
+      upperLimit: 103072,
       rate: 0.48,
-      description: '€66,613 - €99,266 at 48%',
+      description: '€69,167 - €103,072 at 48%',
     },
     {
       upperLimit: 1000000,
       rate: 0.5,
-      description: '€99,267 - €1,000,000 at 50%',
+      description: '€103,073 - €1,000,000 at 50%',
     },
     {
       upperLimit: Number.MAX_SAFE_INTEGER,
@@ -58,7 +64,6 @@ export const TAX_CONFIG_2025: TaxYearConfig = {
   socialSecurity: {
     employeeRateRegular: 0.1812, // 18.12%
     employeeRateSpecial: 0.1712, // 17.12% on special payments
-    selfEmployedRate: 0.2715, // ~27.15%
     minAssessmentBase: 7200,
     maxAssessmentBase: 90000,
     componentRates: {
@@ -69,6 +74,43 @@ export const TAX_CONFIG_2025: TaxYearConfig = {
     },
   } as SocialSecurityConfig,
 
+  // Self-employed social security (SVS, GSVG)
+  selfEmployedSocialSecurity: {
+    pensionRate: 0.185, // 18.5%
+    healthRate: 0.068, // 6.8%
+    provisionRate: 0.0153, // 1.53% Selbständigenvorsorge
+    accidentMonthly: 12.07,
+    minMonthlyBase: 551.1,
+    maxMonthlyBase: 7525,
+  } as SelfEmployedSocialSecurityConfig,
+
+  // Ärztekammer (simplified: base fee + share of profit)
+  aerztekammer: {
+    baseFee: 300,
+    incomeRate: 0.03, // 3%
+  },
+
+  // Basispauschalierung
+  pauschalierung: {
+    rate: 0.135, // 13.5% of revenue
+    revenueLimit: 320000,
+  },
+
+  // Kleinunternehmerpauschalierung (20% for Dienstleistungsbetriebe such as
+  // medical practices, 45% otherwise)
+  kleinunternehmerPauschalierung: {
+    rate: 0.2,
+    revenueLimit: 55000,
+  },
+
+  vat: {
+    standardRate: 0.2, // 20%
+    kleinunternehmerLimit: 55000, // gross
+    kleinunternehmerTolerance: 0.1, // up to €60,500: exempt until year-end, taxable from the next year
+    kleinunternehmerGrossLimit: true,
+    uvaMonthlyThreshold: 100000,
+  },
+
   // Tax credits (Absetzbeträge)
   taxCredits: {
     verkehrsabsetzbetrag: 421, // Commuter credit
@@ -83,8 +125,15 @@ export const TAX_CONFIG_2025: TaxYearConfig = {
     pensionContributionMax: 3100,
     gewinnfreibetragRate: 0.15, // 15%
     gewinnfreibetragLimit: 33000, // Up to €33,000
+    // Investment-based part, only covered by qualifying investments
+    gewinnfreibetragInvestmentTiers: [
+      { upperLimit: 178000, rate: 0.13 },
+      { upperLimit: 353000, rate: 0.07 },
+      { upperLimit: 583000, rate: 0.045 },
+    ],
     homeofficeDaily: 3, // €3 per day
     homeofficeMonthlyMax: 100, // Max €100/month
+    gwgLimit: 1000, // Geringwertige Wirtschaftsgüter, immediate write-off
   },
 
   // Special payments (13th, 14th salary) taxation
@@ -103,34 +152,34 @@ export const TAX_CONFIG_2024: TaxYearConfig = {
 
   taxBrackets: [
     {
-      upperLimit: 12200,
+      upperLimit: 12816,
       rate: 0.0,
-      description: '€0 - €12,200 at 0%',
+      description: '€0 - €12,816 at 0%',
     },
     {
-      upperLimit: 20000,
+      upperLimit: 20818,
       rate: 0.2,
-      description: '€12,201 - €20,000 at 20%',
+      description: '€12,817 - €20,818 at 20%',
     },
     {
-      upperLimit: 34000,
+      upperLimit: 34513,
       rate: 0.3,
-      description: '€20,001 - €34,000 at 30%',
+      description: '€20,819 - €34,513 at 30%',
     },
     {
-      upperLimit: 66000,
-      rate: 0.41,
-      description: '€34,001 - €66,000 at 41%',
+      upperLimit: 66612,
+      rate: 0.4,
+      description: '€34,514 - €66,612 at 40%',
     },
     {
-      upperLimit: 99000,
+      upperLimit: 99266,
       rate: 0.48,
-      description: '€66,001 - €99,000 at 48%',
+      description: '€66,613 - €99,266 at 48%',
     },
     {
       upperLimit: 1000000,
       rate: 0.5,
-      description: '€99,001 - €1,000,000 at 50%',
+      description: '€99,267 - €1,000,000 at 50%',
     },
     {
       upperLimit: Number.MAX_SAFE_INTEGER,
@@ -142,7 +191,6 @@ export const TAX_CONFIG_2024: TaxYearConfig = {
   socialSecurity: {
     employeeRateRegular: 0.1812,
     employeeRateSpecial: 0.1712,
-    selfEmployedRate: 0.2715,
     minAssessmentBase: 7050,
     maxAssessmentBase: 88200,
     componentRates: {
@@ -153,6 +201,38 @@ export const TAX_CONFIG_2024: TaxYearConfig = {
     },
   } as SocialSecurityConfig,
 
+  selfEmployedSocialSecurity: {
+    pensionRate: 0.185,
+    healthRate: 0.068,
+    provisionRate: 0.0153,
+    accidentMonthly: 11.35,
+    minMonthlyBase: 537.78,
+    maxMonthlyBase: 7070,
+  } as SelfEmployedSocialSecurityConfig,
+
+  aerztekammer: {
+    baseFee: 300,
+    incomeRate: 0.03,
+  },
+
+  pauschalierung: {
+    rate: 0.12,
+    revenueLimit: 220000,
+  },
+
+  kleinunternehmerPauschalierung: {
+    rate: 0.2,
+    revenueLimit: 40000,
+  },
+
+  vat: {
+    standardRate: 0.2,
+    kleinunternehmerLimit: 35000, // net
+    kleinunternehmerTolerance: 0.15, // once within five years
+    kleinunternehmerGrossLimit: false,
+    uvaMonthlyThreshold: 100000,
+  },
+
   taxCredits: {
     verkehrsabsetzbetrag: 400,
     alleinverdienerSingle: 476,
@@ -165,8 +245,14 @@ export const TAX_CONFIG_2024: TaxYearConfig = {
     pensionContributionMax: 3000,
     gewinnfreibetragRate: 0.15,
     gewinnfreibetragLimit: 33000,
+    gewinnfreibetragInvestmentTiers: [
+      { upperLimit: 178000, rate: 0.13 },
+      { upperLimit: 353000, rate: 0.07 },
+      { upperLimit: 583000, rate: 0.045 },
+    ],
     homeofficeDaily: 3,
     homeofficeMonthlyMax: 100,
+    gwgLimit: 1000,
   },
 
   specialPayments: {
@@ -223,7 +309,6 @@ export const TAX_CONFIG_2023: TaxYearConfig = {
   socialSecurity: {
     employeeRateRegular: 0.1812,
     employeeRateSpecial: 0.1712,
-    selfEmployedRate: 0.2745, // ~27.45%
     minAssessmentBase: 6900,
     maxAssessmentBase: 86220,
     componentRates: {
@@ -234,6 +319,38 @@ export const TAX_CONFIG_2023: TaxYearConfig = {
     },
   } as SocialSecurityConfig,
 
+  selfEmployedSocialSecurity: {
+    pensionRate: 0.185,
+    healthRate: 0.068,
+    provisionRate: 0.0153,
+    accidentMonthly: 10.97,
+    minMonthlyBase: 500.91,
+    maxMonthlyBase: 6615,
+  } as SelfEmployedSocialSecurityConfig,
+
+  aerztekammer: {
+    baseFee: 300,
+    incomeRate: 0.03,
+  },
+
+  pauschalierung: {
+    rate: 0.12,
+    revenueLimit: 220000,
+  },
+
+  kleinunternehmerPauschalierung: {
+    rate: 0.2,
+    revenueLimit: 40000,
+  },
+
+  vat: {
+    standardRate: 0.2,
+    kleinunternehmerLimit: 35000, // net
+    kleinunternehmerTolerance: 0.15, // once within five years
+    kleinunternehmerGrossLimit: false,
+    uvaMonthlyThreshold: 100000,
+  },
+
   taxCredits: {
     verkehrsabsetzbetrag: 421,
     alleinverdienerSingle: 494,
@@ -245,9 +362,15 @@ export const TAX_CONFIG_2023: TaxYearConfig = {
     lifeInsuranceMax: 696,
     pensionContributionMax: 3000,
     gewinnfreibetragRate: 0.15,
-    gewinnfreibetragLimit: 33000,
+    gewinnfreibetragLimit: 30000, // €33,000 from 2024
+    gewinnfreibetragInvestmentTiers: [
+      { upperLimit: 175000, rate: 0.13 },
+      { upperLimit: 350000, rate: 0.07 },
+      { upperLimit: 580000, rate: 0.045 },
+    ],
     homeofficeDaily: 3,
     homeofficeMonthlyMax: 100,
+    gwgLimit: 1000,
   },
 
   specialPayments: {
@@ -278,6 +401,74 @@ export function getTaxConfig(year: number): TaxYearConfig {
   return TAX_CONFIG_2025
 }
 
+/**
+ * Default assumptions for years not yet configured (percent per year)
+ */
+export const DEFAULT_PROJECTION_ASSUMPTIONS: TaxProjectionAssumptions = {
+  growthRate: 5,
+  inflationRate: 2,
+  svsCapGrowthRate: 3,
+}
+
+/**
+ * Tax configuration for a year, estimated from the latest configuration for
+ * years not yet in TAX_CONFIG_*
+ *
+ * Brackets up to the 50% rate and the Absetzbeträge are indexed with inflation
+ * (Abgeltung der kalten Progression), the SVS and ASVG assessment bases with the
+ * SVS cap growth; the €1m bracket and all rates stay unchanged.
+ */
+export function projectTaxConfig(
+  year: number,
+  assumptions: TaxProjectionAssumptions
+): TaxYearConfig {
+  const latestYear = getLatestSupportedYear()
+  if (year <= latestYear) {
+    return getTaxConfig(year)
+  }
+
+  const latest = getTaxConfig(latestYear)
+  const yearsAhead = year - latestYear
+  const inflation = Math.pow(1 + assumptions.inflationRate / 100, yearsAhead)
+  const svsGrowth = Math.pow(1 + assumptions.svsCapGrowthRate / 100, yearsAhead)
+  const euros = (amount: number, factor: number) => Math.round(amount * factor)
+  const cents = (amount: number, factor: number) => Math.round(amount * factor * 100) / 100
+
+  let lowerLimit = 0
+  const taxBrackets = latest.taxBrackets.map((bracket) => {
+    const upperLimit = bracket.rate < 0.5 ? euros(bracket.upperLimit, inflation) : bracket.upperLimit
+    const description =
+      upperLimit === Number.MAX_SAFE_INTEGER
+        ? `€${(lowerLimit + 1).toLocaleString('en-US')}+ at ${bracket.rate * 100}% (estimated)`
+        : `€${(lowerLimit === 0 ? 0 : lowerLimit + 1).toLocaleString('en-US')} - €${upperLimit.toLocaleString('en-US')} at ${bracket.rate * 100}% (estimated)`
+    lowerLimit = upperLimit
+    return { upperLimit, rate: bracket.rate, description }
+  })
+
+  return {
+    ...latest,
+    year,
+    taxBrackets,
+    socialSecurity: {
+      ...latest.socialSecurity,
+      minAssessmentBase: euros(latest.socialSecurity.minAssessmentBase, svsGrowth),
+      maxAssessmentBase: euros(latest.socialSecurity.maxAssessmentBase, svsGrowth),
+    },
+    selfEmployedSocialSecurity: {
+      ...latest.selfEmployedSocialSecurity,
+      accidentMonthly: cents(latest.selfEmployedSocialSecurity.accidentMonthly, svsGrowth),
+      minMonthlyBase: cents(latest.selfEmployedSocialSecurity.minMonthlyBase, svsGrowth),
+      maxMonthlyBase: euros(latest.selfEmployedSocialSecurity.maxMonthlyBase, svsGrowth),
+    },
+    taxCredits: {
+      verkehrsabsetzbetrag: euros(latest.taxCredits.verkehrsabsetzbetrag, inflation),
+      alleinverdienerSingle: euros(latest.taxCredits.alleinverdienerSingle, inflation),
+      alleinverdienerWith1Child: euros(latest.taxCredits.alleinverdienerWith1Child, inflation),
+      alleinverdienerWithMoreChildren: euros(latest.taxCredits.alleinverdienerWithMoreChildren, inflation),
+    },
+  }
+}
+
 /**
  * Get current year's tax configuration
  */
@@ -399,10 +590,19 @@ export function printConfigSummary(year: number): void {
   const ss = config.socialSecurity
   console.log(`  Employee (regular): ${(ss.employeeRateRegular * 100).toFixed(2)}%`)
   console.log(`  Employee (special): ${(ss.employeeRateSpecial * 100).toFixed(2)}%`)
-  console.log(`  Self-employed: ${(ss.selfEmployedRate * 100).toFixed(2)}%`)
   console.log(`  Min assessment base: ${formatEuro(ss.minAssessmentBase)}`)
   console.log(`  Max assessment base: ${formatEuro(ss.maxAssessmentBase)}`)
 
+  console.log('\nSELF-EMPLOYED (SVS):')
+  const svs = config.selfEmployedSocialSecurity
+  console.log(`  Rate: ${((svs.pensionRate + svs.healthRate + svs.provisionRate) * 100).toFixed(2)}% + ${formatEuro(svs.accidentMonthly, 2)}/month accident`)
+  console.log(`  Assessment base: ${formatEuro(svs.minMonthlyBase, 2)} - ${formatEuro(svs.maxMonthlyBase)}/month`)
+
+  console.log('\nVAT:')
+  console.log(
+    `  Kleinunternehmer limit: ${formatEuro(config.vat.kleinunternehmerLimit)} ${config.vat.kleinunternehmerGrossLimit ? 'gross' : 'net'}, tolerance ${(config.vat.kleinunternehmerTolerance * 100).toFixed(0)}%`
+  )
+
   console.log('\nTAX CREDITS:')
   console.log(`  Verkehrsabsetzbetrag: ${formatEuro(config.taxCredits.verkehrsabsetzbetrag)}`)
 
@@ -410,9 +610,13 @@ export function printConfigSummary(year: number): void {
   console.log(
     `  Gewinnfreibetrag: ${(config.deductionLimits.gewinnfreibetragRate * 100).toFixed(0)}% up to ${formatEuro(config.deductionLimits.gewinnfreibetragLimit)}`
   )
+  config.deductionLimits.gewinnfreibetragInvestmentTiers.forEach(tier =>
+    console.log(`    ${(tier.rate * 100).toFixed(1)}% up to ${formatEuro(tier.upperLimit)} (investment-based)`)
+  )
   console.log(
     `  Homeoffice: ${formatEuro(config.deductionLimits.homeofficeDaily)}/day, max ${formatEuro(config.deductionLimits.homeofficeMonthlyMax)}/month`
   )
+  console.log(`  GWG limit: ${formatEuro(config.deductionLimits.gwgLimit)}`)
 
   console.log(`\n${'='.repeat(70)}\n`)
 }
@@ -39,12 +39,105 @@ export const AUSTRIAN_EXPENSE_CATEGORIES: AustrianExpenseCategory[] = [
   }
 ]
 
+/**
+ * Subcategories depreciated through the asset register (AfA)
+ * with a typical useful life in years
+ */
+export const ASSET_SUBCATEGORIES = [
+  { subcategory: 'Geräte (AfA)', usefulLife: 5 },
+  { subcategory: 'Einrichtung (AfA)', usefulLife: 10 },
+  { subcategory: 'EDV-Ausrüstung (AfA)', usefulLife: 3 }
+] as const
+
+/**
+ * Kennzahlen of the Einnahmen-Ausgaben-Rechnung in the E1a form
+ */
+export const E1A_KENNZAHLEN = [
+  { kz: '9040', kind: 'income', label: 'Erlöse/Betriebseinnahmen (Waren- und Leistungserlöse)' },
+  { kz: '9090', kind: 'income', label: 'Übrige Erträge/Betriebseinnahmen' },
+  { kz: '9100', kind: 'expense', label: 'Waren, Roh- und Hilfsstoffe' },
+  { kz: '9110', kind: 'expense', label: 'Beigestelltes Personal (Fremdpersonal) und Fremdleistungen' },
+  { kz: '9120', kind: 'expense', label: 'Personalaufwand (eigenes Personal)' },
+  { kz: '9130', kind: 'expense', label: 'Abschreibungen auf das Anlagevermögen (AfA, GWG)' },
+  { kz: '9140', kind: 'expense', label: 'Instandhaltungen für Gebäude' },
+  { kz: '9150', kind: 'expense', label: 'Reise- und Fahrtspesen' },
+  { kz: '9160', kind: 'expense', label: 'Tatsächliche Kfz-Kosten' },
+  { kz: '9170', kind: 'expense', label: 'Miet- und Pachtaufwand, Leasing' },
+  { kz: '9180', kind: 'expense', label: 'Provisionen an Dritte, Lizenzgebühren' },
+  { kz: '9190', kind: 'expense', label: 'Werbe- und Repräsentationsaufwendungen, Spenden' },
+  { kz: '9200', kind: 'expense', label: 'Buchwert abgehender Anlagen' },
+  { kz: '9210', kind: 'expense', label: 'Zinsen und ähnliche Aufwendungen' },
+  { kz: '9220', kind: 'expense', label: 'Eigene Pflichtversicherungsbeiträge, Versorgungseinrichtungen' },
+  { kz: '9230', kind: 'expense', label: 'Übrige Aufwendungen/Betriebsausgaben' }
+] as const
+
+export type E1aKennzahl = (typeof E1A_KENNZAHLEN)[number]['kz']
+
+/**
+ * E1a Kennzahl per expense subcategory; unmapped expenses count as
+ * übrige Aufwendungen (KZ 9230). AfA subcategories are reported through
+ * the asset register instead of the purchase expense.
+ */
+export const E1A_SUBCATEGORY_KENNZAHLEN: Record<string, E1aKennzahl> = {
+  'Miete': '9170',
+  'Betriebskosten': '9170',
+  'Energie': '9230',
+  'Reinigung': '9110',
+  'Instandhaltung': '9140',
+  'Gehälter': '9120',
+  'Lohnnebenkosten': '9120',
+  'Lohnverrechnung': '9110',
+  'Fortbildung': '9230',
+  'Sozialversicherung': '9120',
+  'Arztbedarf': '9100',
+  'Verbrauchsmaterialien': '9100',
+  'Medikamente': '9100',
+  'Desinfektionsmittel': '9100',
+  'Geräte (AfA)': '9130',
+  'Einrichtung (AfA)': '9130',
+  'EDV-Ausrüstung (AfA)': '9130',
+  'Leasing': '9170',
+  'Wartung & Reparatur': '9230',
+  'Arztsoftware': '9180',
+  'IT-Support': '9110',
+  'Ärztekammer': '9220',
+  'Versicherungsbeiträge': '9220',
+  'Marketing & Werbung': '9190'
+}
+
+/**
+ * Subcategories still deductible on top of the Basispauschalierung:
+ * Löhne including Lohnnebenkosten, Waren and Hilfsstoffe
+ */
+export const PAUSCHALIERUNG_ADDITIONAL_SUBCATEGORIES: readonly string[] = [
+  'Gehälter',
+  'Lohnnebenkosten',
+  'Sozialversicherung',
+  'Arztbedarf',
+  'Verbrauchsmaterialien',
+  'Medikamente',
+  'Desinfektionsmittel'
+]
+
 export const RECURRENCE_INTERVALS = [
   { value: 'monthly', label: 'Monatlich' },
   { value: 'quarterly', label: 'Vierteljährlich' },
   { value: 'yearly', label: 'Jährlich' }
 ] as const
 
+export const VAT_RATES = [
+  { value: 0, label: 'Steuerfrei (§ 6 Abs. 1 Z 19)' },
+  { value: 10, label: '10%' },
+  { value: 13, label: '13%' },
+  { value: 20, label: '20%' }
+] as const
+
+export const VAT_ALLOCATIONS = [
+  { value: 'mixed', label: 'Gemischt (aliquoter Vorsteuerabzug)' },
+  { value: 'taxable', label: 'Steuerpflichtige Umsätze' },
+  { value: 'exempt', label: 'Steuerfreie Umsätze' }
+] as const
+
 export const PRACTICE_TYPES = [
   { value: 'kassenarzt', label: 'Kassenarzt' },
   { value: 'wahlarzt', label: 'Wahlarzt' },
@@ -210,3 +303,8 @@ export const AUSTRIAN_EXPENSE_TEMPLATES: ExpenseTemplate[] = [
     description: 'Jährliche IT-Wartungsverträge'
   }
 ]
+
+/**
+ * File types text can be extracted from (OCR and PDF text)
+ */
+export const OCR_FILE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf']
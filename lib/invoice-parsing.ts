@@ -4,20 +4,83 @@
  * Used by server action parseBillImage() to extract structured data from OCR text
  */
 
+import type { VatBreakdownLine, VatRate } from '@/lib/types'
+import { suggestFromKeywords } from './utils/expense-categorization'
+
 /**
- * Parse extracted text to find invoice details
+ * Position of an invoice; the amount is net or gross as printed (see line_items_basis)
  */
-export function parseInvoiceText(text: string): {
+export interface InvoiceLineItem {
+  description: string
+  quantity: number | null
+  unit_price: number | null
+  amount: number
+  /** Rate printed on the line, else the only rate of the invoice */
+  vat_rate: VatRate | null
+}
+
+export interface ParsedInvoice {
   vendor_name: string | null
   invoice_date: string | null
+  /** Gross total */
   amount: number | null
   currency: string
-} {
-  const result = {
-    vendor_name: null as string | null,
-    invoice_date: null as string | null,
-    amount: null as number | null,
-    currency: 'EUR'
+  invoice_number: string | null
+  /** UID number (Umsatzsteuer-Identifikationsnummer) of the supplier */
+  vendor_uid: string | null
+  /** IBAN of the supplier for the payment */
+  iban: string | null
+  net_amount: number | null
+  vat_amount: number | null
+  vat_breakdown: VatBreakdownLine[]
+  line_items: InvoiceLineItem[]
+  /** Whether the line items add up to the net or the gross total; null if they do not add up */
+  line_items_basis: 'net' | 'gross' | null
+}
+
+/**
+ * Expense of one category and VAT rate of a split invoice
+ */
+export interface InvoiceExpenseSplit {
+  category: string
+  subcategory: string | null
+  vat_rate: VatRate
+  /** Gross amount */
+  amount: number
+  descriptions: string[]
+}
+
+// Comma-decimal amounts (123,45 | 1.234,56); other numbers (2,7 ml) are not money
+const MONEY_PATTERN = /(?<![\d,.])(\d{1,3}(?:\.\d{3})+,\d{2}|\d+,\d{2})(?![\d,])/g
+// Austrian VAT rates (20 % | 10% | 13,00 %)
+const VAT_RATE_PATTERN = /(?<![\d,.])(10|13|20)(?:[,.]0{1,2})?\s?%/g
+const IBAN_PATTERN = /\b([A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?)\b/g
+const INVOICE_NUMBER_PATTERN = /(?:rechnungs?|beleg|invoice)\s*-?\s*(?:nr|nummer|no|number)\.?\s*:?\s*([A-Z0-9][A-Z0-9\-\/.]*\d[A-Z0-9\-\/]*)/i
+const UID_PATTERN = /\b(ATU\s?(?:\d\s?){7}\d|DE\s?(?:\d\s?){8}\d)\b/
+const VAT_KEYWORD_PATTERN = /ust|mwst|umsatzsteuer|mehrwertsteuer|vat|steuer|netto|brutto/i
+const ITEM_HEADER_PATTERN = /\b(bezeichnung|artikel|beschreibung|leistung|menge|pos)\b/i
+const TOTALS_LINE_PATTERN = /^(zwischensumme|summe|gesamt|netto|total|rechnungsbetrag|endsumme|zu zahlen|zahlbetrag|mwst|ust|zzgl|brutto|übertrag)/i
+// Debited from the customer's account: not the supplier's IBAN
+const CUSTOMER_ACCOUNT_PATTERN = /ihre[mn]? konto|lastschrift|abgebucht|eingezogen/i
+const CUSTOMER_UID_PATTERN = /ihre|kunde|empfänger/i
+
+/**
+ * Parse extracted text to find invoice details
+ */
+export function parseInvoiceText(text: string): ParsedInvoice {
+  const result: ParsedInvoice = {
+    vendor_name: null,
+    invoice_date: null,
+    amount: null,
+    currency: 'EUR',
+    invoice_number: null,
+    vendor_uid: null,
+    iban: null,
+    net_amount: null,
+    vat_amount: null,
+    vat_breakdown: [],
+    line_items: [],
+    line_items_basis: null
   }
 
   if (!text || text.trim().length === 0) {
@@ -216,11 +279,292 @@ export function parseInvoiceText(text: string): {
     result.vendor_name = best.substring(0, 100)
   }
 
+  // ──────────────────────────────────────────────
+  // INVOICE NUMBER, UID AND IBAN
+  // ──────────────────────────────────────────────
+
+  const invoiceNumberMatch = text.match(INVOICE_NUMBER_PATTERN)
+  if (invoiceNumberMatch) {
+    result.invoice_number = invoiceNumberMatch[1].replace(/[.\/-]+$/, '')
+  }
+
+  for (const line of lines) {
+    const uidMatch = line.match(UID_PATTERN)
+    if (uidMatch && !CUSTOMER_UID_PATTERN.test(line)) {
+      result.vendor_uid = uidMatch[1].replace(/\s/g, '')
+      break
+    }
+  }
+
+  for (const line of lines) {
+    if (CUSTOMER_ACCOUNT_PATTERN.test(line)) continue
+    // The pattern may run into a following word ("… 4567 BIC"), so shorter
+    // prefixes of a match are tried as well
+    const iban = [...line.matchAll(IBAN_PATTERN)]
+      .flatMap(m => m[1].split(' ').map((_, i, groups) => groups.slice(0, groups.length - i).join('')))
+      .find(isValidIban)
+    if (iban) {
+      result.iban = iban
+      break
+    }
+  }
+
+  // ──────────────────────────────────────────────
+  // LINE ITEMS AND VAT BREAKDOWN
+  // ──────────────────────────────────────────────
+
+  const itemRange = findLineItemRange(lines)
+  const items = itemRange ? parseLineItems(lines.slice(itemRange.start, itemRange.end)) : []
+  result.vat_breakdown = parseVatBreakdown(lines, itemRange)
+
+  if (result.vat_breakdown.length > 0) {
+    const gross = roundCents(result.vat_breakdown.reduce((sum, line) => sum + line.gross, 0))
+    result.net_amount = roundCents(result.vat_breakdown.reduce((sum, line) => sum + line.net, 0))
+    result.vat_amount = roundCents(result.vat_breakdown.reduce((sum, line) => sum + line.vat, 0))
+
+    // The breakdown wins when its total is printed on the invoice
+    if (result.amount === null || candidates.some(c => Math.abs(c.amount - gross) < 0.01)) {
+      result.amount = gross
+    }
+  }
+
+  const singleRate = result.vat_breakdown.length === 1 ? result.vat_breakdown[0].rate : null
+  result.line_items = items.map(item => ({ ...item, vat_rate: item.vat_rate ?? singleRate }))
+
+  const itemsTotal = roundCents(items.reduce((sum, item) => sum + item.amount, 0))
+  if (items.length > 0) {
+    if (result.net_amount !== null && Math.abs(itemsTotal - result.net_amount) <= 0.05) {
+      result.line_items_basis = 'net'
+    } else if (result.amount !== null && Math.abs(itemsTotal - result.amount) <= 0.05) {
+      result.line_items_basis = 'gross'
+    }
+  }
+
   console.log('[Parse] Final result:', JSON.stringify(result))
 
   return result
 }
 
+/**
+ * Split an invoice into one expense per category and VAT rate
+ *
+ * Positions are categorised by their description, otherwise they keep the
+ * category of the invoice. Returns null when the positions do not add up to
+ * the invoice total or their VAT rate is unknown.
+ */
+export function splitInvoiceByCategory(
+  invoice: ParsedInvoice,
+  fallback: { category: string; subcategory: string | null }
+): InvoiceExpenseSplit[] | null {
+  if (invoice.line_items.length === 0 || !invoice.line_items_basis || invoice.amount === null) {
+    return null
+  }
+
+  const splits = new Map<string, InvoiceExpenseSplit>()
+  for (const item of invoice.line_items) {
+    // Invoices without VAT information are booked without input tax
+    const rate = item.vat_rate ?? (invoice.vat_breakdown.length === 0 ? 0 : null)
+    if (rate === null) return null
+
+    const suggestion = suggestFromKeywords({ description: item.description })
+    const category = suggestion?.category ?? fallback.category
+    const subcategory = suggestion ? suggestion.subcategory : fallback.subcategory
+    const gross = invoice.line_items_basis === 'net' ? item.amount * (1 + rate / 100) : item.amount
+
+    const key = `${category}|${subcategory ?? ''}|${rate}`
+    const split = splits.get(key) ?? { category, subcategory, vat_rate: rate, amount: 0, descriptions: [] }
+    split.amount += gross
+    split.descriptions.push(item.description)
+    splits.set(key, split)
+  }
+
+  const result = [...splits.values()]
+    .map(split => ({ ...split, amount: roundCents(split.amount) }))
+    .sort((a, b) => b.amount - a.amount)
+
+  // Rounding differences of the converted positions go to the largest split
+  const difference = roundCents(invoice.amount - result.reduce((sum, split) => sum + split.amount, 0))
+  result[0].amount = roundCents(result[0].amount + difference)
+
+  return result
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function parseMoney(value: string): number {
+  return parseFloat(value.replace(/\./g, '').replace(',', '.'))
+}
+
+/**
+ * Comma-decimal amounts of a line with their position; VAT rates are skipped
+ */
+function findMoneyAmounts(line: string): { value: number; index: number }[] {
+  const withoutRates = line.replace(VAT_RATE_PATTERN, rate => ' '.repeat(rate.length))
+  return [...withoutRates.matchAll(MONEY_PATTERN)].map(m => ({ value: parseMoney(m[1]), index: m.index ?? 0 }))
+}
+
+function findVatRates(line: string): VatRate[] {
+  return [...new Set([...line.matchAll(VAT_RATE_PATTERN)].map(m => Number(m[1]) as VatRate))]
+}
+
+/**
+ * Check digits of an IBAN (ISO 13616, mod 97)
+ */
+function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(iban)) return false
+
+  let remainder = 0
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const digits = char >= 'A' ? String(char.charCodeAt(0) - 55) : char
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+  return remainder === 1
+}
+
+/**
+ * Lines between the column header of the positions and the first totals line
+ */
+function findLineItemRange(lines: string[]): { start: number; end: number } | null {
+  const header = lines.findIndex(line => ITEM_HEADER_PATTERN.test(line) && findMoneyAmounts(line).length === 0)
+  if (header === -1) return null
+
+  let end = header + 1
+  while (end < lines.length && !TOTALS_LINE_PATTERN.test(lines[end])) end++
+  return { start: header + 1, end }
+}
+
+/**
+ * Positions: description, quantity ("2 x ..." or before the prices), unit price and line total
+ */
+function parseLineItems(lines: string[]): InvoiceLineItem[] {
+  const items: InvoiceLineItem[] = []
+
+  for (const line of lines) {
+    const amounts = findMoneyAmounts(line)
+    if (amounts.length === 0) continue
+
+    let head = line.slice(0, amounts[0].index).replace(VAT_RATE_PATTERN, ' ').trim()
+    let quantity: number | null = null
+
+    const multiplied = head.match(/^(\d+(?:,\d+)?)\s*x\s+(.*)$/i)
+    if (multiplied) {
+      quantity = parseFloat(multiplied[1].replace(',', '.'))
+      head = multiplied[2]
+    } else {
+      head = head.replace(/^\d{1,3}[.)]?\s+/, '') // Position number
+      const trailing = head.match(/^(.*\S)\s+(\d+(?:,\d+)?)\s*(?:stk\.?|stück|st\.?|pkg\.?|pck\.?)?$/i)
+      if (trailing) {
+        head = trailing[1]
+        quantity = parseFloat(trailing[2].replace(',', '.'))
+      }
+    }
+
+    const description = head
+      .replace(/^[A-Z]{1,4}-?\d{1,6}\s+/, '') // Article number
+      .replace(/\s+/g, ' ')
+      .trim()
+    if (!/[a-zäöüß]{3}/i.test(description)) continue
+
+    items.push({
+      description,
+      quantity,
+      unit_price: amounts.length > 1 ? amounts[amounts.length - 2].value : null,
+      amount: amounts[amounts.length - 1].value,
+      vat_rate: findVatRates(line)[0] ?? null
+    })
+  }
+
+  return items
+}
+
+/**
+ * Net amount and VAT among the amounts of a line, with the gross amount if printed
+ */
+function matchVatFigures(amounts: number[], rate: VatRate): { net: number; vat: number; gross?: number } | null {
+  for (const net of amounts) {
+    for (const vat of amounts) {
+      if (vat >= net || Math.abs((net * rate) / 100 - vat) > Math.max(0.02, vat * 0.001)) continue
+      const gross = amounts.find(amount => Math.abs(amount - (net + vat)) < 0.015)
+      return gross !== undefined ? { net, vat, gross } : { net, vat }
+    }
+  }
+
+  // VAT contained in a gross amount
+  for (const gross of amounts) {
+    for (const vat of amounts) {
+      if (vat >= gross || Math.abs((gross * rate) / (100 + rate) - vat) > Math.max(0.02, vat * 0.001)) continue
+      return { net: roundCents(gross - vat), vat, gross }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Net amount, VAT and gross amount per rate from the totals of the invoice
+ *
+ * Lines with a rate count when they or the two lines above (a table header)
+ * mention VAT; positions are skipped. Missing figures are derived from the rate.
+ */
+function parseVatBreakdown(lines: string[], itemRange: { start: number; end: number } | null): VatBreakdownLine[] {
+  const figures = new Map<VatRate, { net?: number; vat?: number; gross?: number }>()
+  const netTotals: number[] = []
+
+  lines.forEach((line, index) => {
+    if (itemRange && index >= itemRange.start && index < itemRange.end) return
+
+    const amounts = findMoneyAmounts(line).map(amount => amount.value)
+    if (amounts.length === 0) return
+
+    const rates = findVatRates(line)
+    if (rates.length === 0) {
+      if (/netto|zwischensumme/i.test(line) && amounts.length === 1) netTotals.push(amounts[0])
+      return
+    }
+    const context = lines.slice(Math.max(0, index - 2), index + 1).join(' ')
+    if (rates.length > 1 || !VAT_KEYWORD_PATTERN.test(context)) return
+
+    const rate = rates[0]
+    const entry = figures.get(rate) ?? {}
+    if (entry.net !== undefined && entry.vat !== undefined) return
+
+    const matched = matchVatFigures(amounts, rate)
+    if (matched) {
+      Object.assign(entry, matched)
+    } else if (amounts.length === 1) {
+      const lower = line.toLowerCase()
+      if (/netto|basis|bemessung/.test(lower)) entry.net = amounts[0]
+      else if (/brutto|inkl|gesamt/.test(lower)) entry.gross = amounts[0]
+      else entry.vat = amounts[0]
+    }
+    figures.set(rate, entry)
+  })
+
+  return [...figures]
+    .flatMap(([rate, entry]): VatBreakdownLine[] => {
+      let { net, vat } = entry
+      const { gross } = entry
+
+      if (net === undefined && vat !== undefined) {
+        const vatAmount = vat
+        net = netTotals.find(total => Math.abs((total * rate) / 100 - vatAmount) <= 0.02) ?? roundCents((vat * 100) / rate)
+      } else if (net === undefined && gross !== undefined) {
+        vat = roundCents((gross * rate) / (100 + rate))
+        net = roundCents(gross - vat)
+      } else if (net !== undefined && vat === undefined) {
+        vat = gross !== undefined ? roundCents(gross - net) : roundCents((net * rate) / 100)
+      }
+      if (net === undefined || vat === undefined) return []
+
+      return [{ rate, net, vat, gross: roundCents(net + vat) }]
+    })
+    .sort((a, b) => a.rate - b.rate)
+}
+
 /**
  * Debug function to dump extracted text
  */
@@ -272,68 +616,9 @@ function formatDateToISO(dateStr: string): string | null {
 
 /**
  * Suggest expense category based on vendor name and text
+ * Keyword fallback of the categorisation engine; user rules and earlier
+ * expenses are applied by the server actions
  */
 export function suggestCategory(vendorName: string, text: string): string {
-  const lowerVendor = vendorName.toLowerCase()
-  const lowerText = text.toLowerCase()
-
-  const categoryKeywords: Record<string, string[]> = {
-    'Räumlichkeiten': [
-      'miete', 'rent', 'pacht', 'lease',
-      'strom', 'wasser', 'gas', 'energie', 'electricity', 'water', 'heizung', 'heating', 'cooling',
-      'betriebskosten', 'nebenkosten', 'facility', 'ordinationsräume', 'praxis'
-    ],
-    'Personal': [
-      'gehalt', 'lohn', 'salary', 'wage', 'mitarbeiter', 'staff', 'personalkosten',
-      'sozialversicherung', 'lohnverrechnung', 'fortbildung', 'training'
-    ],
-    'Medizinischer Bedarf': [
-      'apotheke', 'pharma', 'medizin', 'medicine', 'pharmacy',
-      'arztbedarf', 'verbrauchsmaterial', 'desinfektionsmittel', 'desinfection',
-      'spritze', 'kanüle', 'verbandsmaterial', 'instrumentarium',
-      'laborbedarf', 'diagnostik', 'röntgen'
-    ],
-    'Ausstattung & Geräte': [
-      'wartung', 'reparatur', 'maintenance', 'repair', 'service', 'instandhaltung',
-      'geräte', 'equipment', 'einrichtung', 'furniture', 'möbel',
-      'computer', 'drucker', 'scanner', 'edv-ausrüstung', 'leasing',
-      'liegen', 'stuhl', 'behandlungseinheit', 'sterilisator'
-    ],
-    'Versicherungen': [
-      'versicherung', 'insurance', 'haftung', 'haftpflicht', 'liability',
-      'berufshaftpflicht', 'betriebsversicherung', 'praxisausfall', 'rechtsschutz',
-      'versicherungsbeitrag'
-    ],
-    'IT & Digital': [
-      'software', 'ordinationssoftware', 'arztsoftware', 'praxissoftware',
-      'ecard', 'e-card-system', 'it-support', 'cloud', 'telefon', 'telefax',
-      'internet', 'telekommunikation', 'domain', 'website', 'server'
-    ],
-    'Beratung & Verwaltung': [
-      'beratung', 'consulting', 'steuerberatung', 'steuer', 'tax', 'taxation',
-      'buchhaltung', 'buchhalter', 'accounting', 'rechtsanwalt', 'lawyer', 'anwalt',
-      'wirtschaftsprüfung', 'revision', 'prüfung', 'audit'
-    ],
-    'Pflichtbeiträge': [
-      'ärztekammer', 'kammer', 'beitrag', 'fee', 'membership',
-      'fortbildung', 'fortbildungsbeitrag',
-      'pflichtversicherung', 'pflichtbeitrag'
-    ],
-    'Sonstige Betriebsausgaben': [
-      'büro', 'office', 'papier', 'drucker', 'tinte', 'printer', 'paper', 'stationery',
-      'werbung', 'marketing', 'advertising', 'anzeige',
-      'hotel', 'lufthansa', 'taxi', 'uber', 'flug', 'bahn', 'travel', 'fahrt', 'reise',
-      'bankgebühren', 'gebühren', 'fees', 'porto', 'versand', 'shipping'
-    ]
-  }
-
-  for (const [category, keywords] of Object.entries(categoryKeywords)) {
-    for (const keyword of keywords) {
-      if (lowerVendor.includes(keyword) || lowerText.includes(keyword)) {
-        return category
-      }
-    }
-  }
-
-  return 'Sonstige Betriebsausgaben'
+  return suggestFromKeywords({ vendor: vendorName, description: text })?.category ?? 'Sonstige Betriebsausgaben'
 }
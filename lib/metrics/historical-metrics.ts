@@ -7,6 +7,17 @@
 
 import { createClient } from '@/utils/supabase/server'
 import { calculateAustrianTax } from '@/lib/utils/austrian-tax'
+import { calculateMonthlyPaymentCosts } from '@/lib/calculations/payment-fees'
+import {
+  estimateVatPayable,
+  toVatExpenseFields,
+  type VatEstimateExpense
+} from '@/lib/calculations/composite/vat-calculator'
+import { getDepreciationForMonth } from '@/lib/calculations/core/depreciation-calculator'
+import { getMonthRange } from '@/lib/supabase/session-ledger'
+import { fetchPaymentFeeSettings, getActualFeeSetting } from '@/lib/supabase/payment-fees'
+import { fetchAssets, withoutAssetPurchases } from '@/lib/supabase/assets'
+import type { VatRate } from '@/lib/types'
 
 export interface MonthlySnapshot {
   month: string // YYYY-MM
@@ -44,25 +55,33 @@ export async function getHistoricalSnapshots(months: number = 6): Promise<Monthl
   const startStr = startDate.toISOString().split('T')[0]
   const endStr = endDate.toISOString().split('T')[0]
 
-  // Fetch practice settings for fee percentage
+  // Fetch practice settings for practice type and Kleinunternehmer status
   const { data: settings } = await supabase
     .from('practice_settings')
-    .select('payment_processing_fee_percentage, practice_type')
+    .select('practice_type, vat_kleinunternehmer')
     .eq('user_id', userId)
     .single()
 
-  const feePercentage = settings?.payment_processing_fee_percentage ?? 1.39
   const practiceType = (settings?.practice_type as 'kassenarzt' | 'wahlarzt' | 'mixed') || 'wahlarzt'
 
+  // Fee profiles and revenue split per payment method of each month
+  const feeSettings = await fetchPaymentFeeSettings(supabase, userId, 1.39, {
+    start: startStr,
+    end: getMonthRange(endStr).end
+  })
+
   // Fetch therapy types
   const { data: therapies } = await supabase
     .from('therapy_types')
-    .select('id, price_per_session')
+    .select('id, price_per_session, vat_rate')
     .eq('user_id', userId)
 
   const therapyPriceMap = new Map<string, number>(
     therapies?.map((t: any) => [t.id, t.price_per_session]) || []
   )
+  const therapyVatRateMap = new Map<string, VatRate>(
+    therapies?.map((t: any) => [t.id, Number(t.vat_rate ?? 0) as VatRate]) || []
+  )
 
   // Fetch monthly plans for the period
   const { data: plans } = await supabase
@@ -73,11 +92,14 @@ export async function getHistoricalSnapshots(months: number = 6): Promise<Monthl
     .lte('month', endStr)
 
   // Fetch expenses (recurring + one-time in range)
-  const { data: expenses } = await supabase
+  // Purchases in the asset register count with their depreciation (AfA) instead
+  const { data: expenseRows } = await supabase
     .from('expenses')
-    .select('amount, expense_date, is_recurring, recurrence_interval, spread_monthly')
+    .select('id, amount, expense_date, is_recurring, recurrence_interval, spread_monthly, vat_rate, vat_allocation, vat_breakdown')
     .eq('user_id', userId)
     .or(`is_recurring.eq.true,and(is_recurring.eq.false,expense_date.gte.${startStr},expense_date.lte.${endStr})`)
+  const assets = await fetchAssets(supabase, userId)
+  const expenses = withoutAssetPurchases(expenseRows || [], assets)
 
   // Build month keys for the range
   const monthKeys: string[] = []
@@ -91,11 +113,13 @@ export async function getHistoricalSnapshots(months: number = 6): Promise<Monthl
   // Aggregate sessions and revenue per month
   const monthlyRevenue = new Map<string, number>()
   const monthlySessions = new Map<string, number>()
+  const monthlyVatRevenues = new Map<string, { amount: number; vat_rate: VatRate }[]>()
   const monthlySessionsByTherapy = new Map<string, Map<string, { sessions: number; price: number }>>()
 
   monthKeys.forEach((key) => {
     monthlyRevenue.set(key, 0)
     monthlySessions.set(key, 0)
+    monthlyVatRevenues.set(key, [])
     monthlySessionsByTherapy.set(key, new Map())
   })
 
@@ -112,6 +136,7 @@ export async function getHistoricalSnapshots(months: number = 6): Promise<Monthl
 
     monthlyRevenue.set(key, (monthlyRevenue.get(key) || 0) + revenue)
     monthlySessions.set(key, (monthlySessions.get(key) || 0) + sessions)
+    monthlyVatRevenues.get(key)!.push({ amount: revenue, vat_rate: therapyVatRateMap.get(plan.therapy_type_id) ?? 0 })
 
     // Track per-therapy for average price calculation
     const therapyMap = monthlySessionsByTherapy.get(key)!
@@ -122,55 +147,60 @@ export async function getHistoricalSnapshots(months: number = 6): Promise<Monthl
 
   // Calculate monthly expenses (handle recurring)
   const monthlyExpenses = new Map<string, number>()
-  monthKeys.forEach((key) => monthlyExpenses.set(key, 0))
-
-  expenses?.forEach((expense: any) => {
+  monthKeys.forEach((key) => monthlyExpenses.set(
+    key,
+    assets.reduce((sum, asset) => sum + getDepreciationForMonth(asset, key), 0)
+  ))
+  // Expenses with their occurrences per month, for the input VAT
+  const monthlyVatExpenses = new Map<string, VatEstimateExpense[]>(monthKeys.map((key) => [key, []]))
+
+  expenses.forEach((expense: any) => {
     const amount = expense.amount || 0
+    const addToMonth = (key: string, occurrences: number) => {
+      monthlyExpenses.set(key, (monthlyExpenses.get(key) || 0) + amount * occurrences)
+      monthlyVatExpenses.get(key)!.push({ amount: Number(amount), occurrences, ...toVatExpenseFields(expense) })
+    }
 
     if (!expense.is_recurring) {
       // One-time: add to the specific month
       const expDate = new Date(expense.expense_date)
       const key = `${expDate.getFullYear()}-${String(expDate.getMonth() + 1).padStart(2, '0')}`
       if (monthlyExpenses.has(key)) {
-        monthlyExpenses.set(key, (monthlyExpenses.get(key) || 0) + amount)
+        addToMonth(key, 1)
       }
       return
     }
 
     // Recurring: distribute across all months in range
-    monthKeys.forEach((key) => {
-      let monthAmount = 0
-      switch (expense.recurrence_interval) {
-        case 'daily':
-          monthAmount = amount * 30.44
-          break
-        case 'weekly':
-          monthAmount = amount * 4.34
-          break
-        case 'monthly':
-          monthAmount = amount
-          break
-        case 'quarterly':
-          // If spread_monthly, always use monthly equivalent (amount/3)
-          monthAmount = amount / 3
-          break
-        case 'yearly':
-        case 'annual':
-          // Always spread yearly to monthly (amount/12)
-          monthAmount = amount / 12
-          break
-        default:
-          monthAmount = amount
-      }
-      monthlyExpenses.set(key, (monthlyExpenses.get(key) || 0) + monthAmount)
-    })
+    let perMonth = 1
+    switch (expense.recurrence_interval) {
+      case 'daily':
+        perMonth = 30.44
+        break
+      case 'weekly':
+        perMonth = 4.34
+        break
+      case 'monthly':
+        perMonth = 1
+        break
+      case 'quarterly':
+        // If spread_monthly, always use monthly equivalent (amount/3)
+        perMonth = 1 / 3
+        break
+      case 'yearly':
+      case 'annual':
+        // Always spread yearly to monthly (amount/12)
+        perMonth = 1 / 12
+        break
+    }
+    monthKeys.forEach((key) => addToMonth(key, perMonth))
   })
 
   // Build snapshots
   const snapshots: MonthlySnapshot[] = monthKeys.map((key) => {
     const totalRevenue = monthlyRevenue.get(key) || 0
     const totalSessions = monthlySessions.get(key) || 0
-    const totalPaymentFees = totalRevenue * (feePercentage / 100)
+    const totalPaymentFees = calculateMonthlyPaymentCosts(totalRevenue, getActualFeeSetting(feeSettings, key), totalSessions)
     const totalNetRevenue = totalRevenue - totalPaymentFees
     const totalExpensesForMonth = monthlyExpenses.get(key) || 0
 
@@ -185,12 +215,21 @@ export async function getHistoricalSnapshots(months: number = 6): Promise<Monthl
     const averageSessionPrice = totalSessionCount > 0 ? weightedSum / totalSessionCount : 0
 
     // Calculate net income (simplified, using Austrian tax)
+    // VAT only applies to revenue of therapy types with a VAT rate
     const taxResult = calculateAustrianTax({
       grossRevenue: totalNetRevenue,
       totalExpenses: totalExpensesForMonth,
       practiceType: practiceType,
-      applyingPauschalierung: totalNetRevenue < 220000,
-      monthsInPeriod: 1
+      vatPayable: estimateVatPayable({
+        year: Number(key.slice(0, 4)),
+        revenues: monthlyVatRevenues.get(key)!,
+        expenses: monthlyVatExpenses.get(key)!,
+        kleinunternehmer: settings?.vat_kleinunternehmer ?? true,
+        monthsInPeriod: 1
+      }),
+      applyingPauschalierung: false,
+      monthsInPeriod: 1,
+      taxYear: Number(key.slice(0, 4))
     })
 
     return {
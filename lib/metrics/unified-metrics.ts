@@ -19,9 +19,37 @@ import {
   calculateSessionMetrics,
   calculateViabilityScore,
   detectVariances,
-  calculateForecast
+  calculateForecast,
+  getPriceForMonth,
+  buildRevenueSplit,
+  createPaymentFeeModel,
+  calculatePaymentFees,
+  calculateMonthlyPaymentFees,
+  getDepreciationForPeriod,
+  estimateVatPayable,
+  toVatExpenseFields,
+  type PaymentFeeSetting,
+  type VatEstimateExpense
 } from '@/lib/calculations'
 import { calculateAustrianTax } from '@/lib/utils/austrian-tax'
+import {
+  aggregateCashReceipts,
+  aggregateSessionLedger,
+  ledgerKey,
+  resolveActualRevenue,
+  resolveCashRevenue
+} from '@/lib/utils/session-ledger'
+import {
+  addPayerRevenue,
+  aggregateLedgerByPayer,
+  emptyPayerRevenue,
+  mergePayerRevenue,
+  resolveActualRevenueByPayer
+} from '@/lib/utils/payer-types'
+import { fetchTherapyPrices, getPriceSchedule } from '@/lib/supabase/therapy-prices'
+import { fetchPaymentFeeProfiles } from '@/lib/supabase/payment-fees'
+import { fetchAssets, withoutAssetPurchases } from '@/lib/supabase/assets'
+import { fetchAllRows, getMonthRange } from '@/lib/supabase/session-ledger'
 
 import type {
   ViabilityScore,
@@ -31,6 +59,7 @@ import type {
   ForecastDataPoint,
   MetricsData
 } from '@/lib/calculations'
+import type { PayerRevenue, PayerType, RevenueBasis, VatRate } from '@/lib/types'
 
 // ============================================================================
 // Type Definitions
@@ -44,6 +73,8 @@ export interface UnifiedMetricsInput {
   date?: Date
   compareMode?: ComparisonMode
   dataViewMode?: 'prognose' | 'resultate'
+  /** Results by invoice date (accrual, default) or payment date (cash, E/A-Rechnung) */
+  revenueBasis?: RevenueBasis
   userId?: string
 }
 
@@ -63,9 +94,10 @@ export interface UnifiedMetricsResponse {
 
   // Tier 2: Primary KPI Metrics
   totalRevenue: number // Gross revenue before payment fees
+  revenueByPayer: PayerRevenue // Gross revenue per payer (Kasse/Privat)
   totalPaymentFees: number // Total payment processing fees (SumUp)
   totalNetRevenue: number // Net revenue after payment fees
-  paymentFeePercentage: number // Fee percentage used (e.g., 1.39)
+  paymentFeePercentage: number // Effective fee percentage of revenue (e.g., 1.39)
   totalExpenses: number // Fixed and variable costs
   totalSessions: number
   totalPlannedSessions: number
@@ -115,7 +147,7 @@ export async function getUnifiedMetrics(
     const period = getPeriodDates(input.scope, input.date)
 
     // 2. Fetch raw data for the period
-    const scopeData = await fetchScopeData(supabase, userId, input.scope, period, input.dataViewMode)
+    const scopeData = await fetchScopeData(supabase, userId, input.scope, period, input.dataViewMode, input.revenueBasis)
 
     // 3. Fetch comparison data if requested
     let comparisonData: MetricsData | null = null
@@ -127,7 +159,7 @@ export async function getUnifiedMetrics(
         input.compareMode
       )
       // Always fetch actual data for comparison (variance detection)
-      comparisonData = await fetchScopeData(supabase, userId, input.scope, comparison, 'resultate')
+      comparisonData = await fetchScopeData(supabase, userId, input.scope, comparison, 'resultate', input.revenueBasis)
       comparisonPeriod = comparison
     }
 
@@ -203,6 +235,7 @@ export async function getUnifiedMetrics(
       breakEvenStatus: calculatedMetrics.breakEvenStatus,
       netIncome: calculatedMetrics.netIncome,
       totalRevenue: calculatedMetrics.totalRevenue,
+      revenueByPayer: scopeData.revenueByPayer ?? emptyPayerRevenue(),
       totalPaymentFees: calculatedMetrics.totalPaymentFees,
       totalNetRevenue: calculatedMetrics.totalNetRevenue,
       paymentFeePercentage: calculatedMetrics.paymentFeePercentage,
@@ -341,18 +374,20 @@ interface RawScopeData {
 
 /**
  * Fetch raw data for a given scope and period
+ * On cash basis, invoiced revenue counts in the month it was paid (Zuflussprinzip)
  */
 async function fetchScopeData(
   supabase: Awaited<ReturnType<typeof createClient>>,
   userId: string,
   scope: MetricsScope,
   period: { start: Date; end: Date },
-  dataViewMode?: 'prognose' | 'resultate'
+  dataViewMode?: 'prognose' | 'resultate',
+  revenueBasis: RevenueBasis = 'accrual'
 ): Promise<MetricsData> {
   // Fetch user settings (for practice type, tax calculations, and payment fee percentage)
   const { data: userSettings } = await supabase
     .from('practice_settings')
-    .select('practice_type, payment_processing_fee_percentage')
+    .select('practice_type, payment_processing_fee_percentage, vat_kleinunternehmer')
     .eq('user_id', userId)
     .single()
 
@@ -363,7 +398,7 @@ async function fetchScopeData(
   // Fetch therapy types
   const { data: therapies } = await supabase
     .from('therapy_types')
-    .select('id, name, price_per_session, variable_cost_per_session')
+    .select('id, name, price_per_session, variable_cost_per_session, payer_type, vat_rate')
     .eq('user_id', userId)
 
   // Fetch monthly plans for the period
@@ -376,77 +411,130 @@ async function fetchScopeData(
     .gte('month', period.start.toISOString().split('T')[0])
     .lte('month', period.end.toISOString().split('T')[0])
 
+  // Fetch the session ledger for the period (actual revenue per invoice)
+  const { data: ledger } = await fetchAllRows((from, to) =>
+    supabase
+      .from('sessions')
+      .select('therapy_type_id, session_date, gross_amount, payment_method, payer_type')
+      .eq('user_id', userId)
+      .gte('session_date', period.start.toISOString().split('T')[0])
+      .lte('session_date', period.end.toISOString().split('T')[0])
+      .order('id')
+      .range(from, to)
+  )
+
+  const therapyPayers = new Map((therapies || []).map((t: any) => [t.id, t.payer_type as PayerType]))
+  const ledgerAggregates = aggregateSessionLedger(ledger || [])
+  const ledgerByPayer = aggregateLedgerByPayer(ledger || [], therapyPayers)
+
+  // Cash basis: payments received in the period, regardless of the invoice date
+  const useCashBasis = dataViewMode !== 'prognose' && revenueBasis === 'cash'
+  let receipts: any[] = []
+  if (useCashBasis) {
+    const { data } = await fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('therapy_type_id, paid_date, paid_amount, payment_method, payer_type')
+        .eq('user_id', userId)
+        .gt('paid_amount', 0)
+        .gte('paid_date', period.start.toISOString().split('T')[0])
+        .lte('paid_date', period.end.toISOString().split('T')[0])
+        .order('id')
+        .range(from, to)
+    )
+    receipts = data
+  }
+  const receiptRows = receipts.map((r: any) => ({
+    therapy_type_id: r.therapy_type_id,
+    session_date: r.paid_date,
+    gross_amount: Number(r.paid_amount),
+    payment_method: r.payment_method,
+    payer_type: r.payer_type
+  }))
+  const cashReceipts = aggregateCashReceipts(receipts)
+  const receiptsByPayer = aggregateLedgerByPayer(receiptRows, therapyPayers)
+
+  const prices = await fetchTherapyPrices(supabase, userId)
+  const feeProfiles = await fetchPaymentFeeProfiles(supabase, userId)
+
   // Fetch expenses with recurring/annual payment info
   // For recurring expenses, we need ALL of them (not just those created in this period)
   // One-time expenses: filter by date range
   // Recurring expenses: include all that have is_recurring = true
-  const { data: expenses } = await supabase
+  // Purchases in the asset register count with their depreciation (AfA) instead
+  const { data: expenseRows } = await supabase
     .from('expenses')
-    .select('amount, expense_date, is_recurring, recurrence_interval, spread_monthly')
+    .select('id, amount, expense_date, is_recurring, recurrence_interval, spread_monthly, vat_rate, vat_allocation, vat_breakdown')
     .eq('user_id', userId)
     .or(`is_recurring.eq.true,and(is_recurring.eq.false,expense_date.gte.${period.start.toISOString().split('T')[0]},expense_date.lte.${period.end.toISOString().split('T')[0]})`)
 
+  const assets = await fetchAssets(supabase, userId)
+  const expenses = withoutAssetPurchases(expenseRows || [], assets)
+
   // Calculate total expenses with proration for recurring/annual expenses
-  let totalExpenses = 0
-  if (expenses && expenses.length > 0) {
+  let totalExpenses = getDepreciationForPeriod(
+    assets,
+    period.start.toISOString().slice(0, 7),
+    period.end.toISOString().slice(0, 7)
+  )
+  // Expenses with their occurrences in the period, for the input VAT
+  const vatExpenses: VatEstimateExpense[] = []
+  if (expenses.length > 0) {
     const monthsInPeriod = Math.max(1, Math.round((period.end.getTime() - period.start.getTime()) / (1000 * 60 * 60 * 24 * 30.44)))
 
-    expenses.forEach((expense: any) => {
-      const amount = expense.amount || 0
-
+    // Number of times an expense counts in the period
+    const getOccurrences = (expense: any): number => {
       // If not recurring, add as-is
       if (!expense.is_recurring) {
-        totalExpenses += amount
-        return
+        return 1
       }
 
       // If recurring, prorate based on interval
       switch (expense.recurrence_interval) {
         case 'daily':
           // Add for each day in the period (approximate: days_in_period = months_in_period * 30.44)
-          const daysInPeriod = Math.round(monthsInPeriod * 30.44)
-          totalExpenses += amount * daysInPeriod
-          break
+          return Math.round(monthsInPeriod * 30.44)
 
         case 'weekly':
           // Add for each week in the period (weeks = months_in_period * 4.34)
-          const weeksInPeriod = Math.round(monthsInPeriod * 4.34)
-          totalExpenses += amount * weeksInPeriod
-          break
+          return Math.round(monthsInPeriod * 4.34)
 
         case 'monthly':
           // Add for each month in the period
-          totalExpenses += amount * monthsInPeriod
-          break
+          return monthsInPeriod
 
         case 'quarterly':
           if (expense.spread_monthly) {
             // Spread quarterly bill as monthly fixed cost (amount / 3 per month)
-            totalExpenses += (amount / 3) * monthsInPeriod
-          } else {
-            // Add for each quarter in the period (quarters = months_in_period / 3)
-            const quartersInPeriod = Math.round(monthsInPeriod / 3)
-            totalExpenses += amount * Math.max(1, quartersInPeriod)
+            return monthsInPeriod / 3
           }
-          break
+          // Add for each quarter in the period (quarters = months_in_period / 3)
+          return Math.max(1, Math.round(monthsInPeriod / 3))
 
         case 'yearly':
         case 'annual':
           // Prorate annual amount across the period
           // Recurring expenses should appear every year, not just when created
-          const proratedAmount = (amount / 12) * monthsInPeriod
-          totalExpenses += proratedAmount
-          break
+          return monthsInPeriod / 12
 
         default:
           // Unknown interval, treat as one-time
-          totalExpenses += amount
+          return 1
       }
+    }
+
+    expenses.forEach((expense: any) => {
+      const amount = expense.amount || 0
+      const occurrences = getOccurrences(expense)
+      totalExpenses += amount * occurrences
+      vatExpenses.push({ amount: Number(amount), occurrences, ...toVatExpenseFields(expense) })
     })
   }
 
   // Aggregate data by therapy type
   const therapyMap = new Map<string, TherapyMetric>()
+  const payerSplits: PayerRevenue[] = []
+  const vatRevenues: { amount: number; vat_rate: VatRate }[] = []
   // Use planned sessions for revenue calculation in prognose mode, actual otherwise
   const useActualSessions = dataViewMode !== 'prognose'
 
@@ -468,10 +556,52 @@ async function fetchScopeData(
       // Use appropriate session count based on data view mode
       const sessionsForRevenue = useActualSessions ? totalActual : totalPlanned
 
-      const totalRevenue = calculateSessionRevenue(
-        sessionsForRevenue,
-        therapy.price_per_session
-      ).revenue
+      // Actual revenue comes from the session ledger where invoices exist,
+      // otherwise sessions are valued at the price valid in their month
+      // (cash basis: invoiced sessions count with the payments received in the month)
+      const priceSchedule = getPriceSchedule(prices, therapy)
+      const actualMonthRevenue = (p: any): number => {
+        const key = ledgerKey(String(p.month), therapy.id)
+        const price = getPriceForMonth(priceSchedule, String(p.month))
+        return useCashBasis
+          ? resolveCashRevenue(p.actual_sessions || 0, price, ledgerAggregates.get(key), cashReceipts.get(key))
+          : resolveActualRevenue(p.actual_sessions || 0, price, ledgerAggregates.get(key))
+      }
+
+      // Receipts in months without a plan row for this therapy type
+      const plannedKeys = new Set(therapyPlans.map((p: any) => ledgerKey(String(p.month), therapy.id)))
+      const unplannedReceiptKeys = [...cashReceipts.keys()].filter(
+        key => key.endsWith(`|${therapy.id}`) && !plannedKeys.has(key)
+      )
+      const unplannedReceipts = unplannedReceiptKeys.reduce((sum, key) => sum + (cashReceipts.get(key) || 0), 0)
+
+      const totalRevenue = useActualSessions
+        ? therapyPlans.reduce((sum: number, p: any) => sum + actualMonthRevenue(p), 0) + unplannedReceipts
+        : therapyPlans.reduce(
+            (sum: number, p: any) =>
+              sum + calculateSessionRevenue(p.planned_sessions || 0, priceSchedule, String(p.month)).revenue,
+            0
+          )
+
+      // Revenue per payer: invoice payers for results, the therapy type's payer for forecasts
+      if (useActualSessions) {
+        const payerLedger = useCashBasis ? receiptsByPayer : ledgerByPayer
+        therapyPlans.forEach((p: any) => {
+          const key = ledgerKey(String(p.month), therapy.id)
+          payerSplits.push(
+            resolveActualRevenueByPayer(actualMonthRevenue(p), therapy.payer_type, payerLedger.get(key))
+          )
+        })
+        unplannedReceiptKeys.forEach(key => {
+          payerSplits.push(
+            resolveActualRevenueByPayer(cashReceipts.get(key) || 0, therapy.payer_type, receiptsByPayer.get(key))
+          )
+        })
+      } else {
+        payerSplits.push(addPayerRevenue(emptyPayerRevenue(), therapy.payer_type, totalRevenue))
+      }
+
+      vatRevenues.push({ amount: totalRevenue, vat_rate: Number(therapy.vat_rate ?? 0) as VatRate })
 
       const margin = calculateContributionMargin(
         therapy.price_per_session,
@@ -499,6 +629,7 @@ async function fetchScopeData(
 
   // Calculate totals
   const totalRevenue = therapyMetrics.reduce((sum, t) => sum + t.totalRevenue, 0)
+  const revenueByPayer = mergePayerRevenue(...payerSplits)
   // Use appropriate sessions count based on data view mode
   const totalSessions = useActualSessions
     ? therapyMetrics.reduce((sum, t) => sum + t.actualSessions, 0)
@@ -508,23 +639,39 @@ async function fetchScopeData(
     0
   )
 
-  // Calculate payment fees
-  const totalPaymentFees = totalRevenue * (paymentFeePercentage / 100)
+  // Calculate number of months in the period for prorating annual tax contributions and monthly fees
+  const monthsInPeriod = Math.max(1, Math.round((period.end.getTime() - period.start.getTime()) / (1000 * 60 * 60 * 24 * 30.44)))
+
+  // Calculate payment fees per payment method (invoiced methods for results, planned shares for forecasts)
+  const paymentFees: PaymentFeeSetting = feeProfiles.length === 0
+    ? paymentFeePercentage
+    : createPaymentFeeModel(
+        feeProfiles,
+        useActualSessions ? buildRevenueSplit(useCashBasis ? receiptRows : ledger || []) : undefined
+      )
+  const totalPaymentFees = calculatePaymentFees(totalRevenue, paymentFees, totalSessions) +
+    calculateMonthlyPaymentFees(paymentFees) * monthsInPeriod
   const totalNetRevenue = totalRevenue - totalPaymentFees
 
   const grossIncome = totalNetRevenue - totalExpenses
 
-  // Calculate number of months in the period for prorating annual tax contributions
-  const monthsInPeriod = Math.max(1, Math.round((period.end.getTime() - period.start.getTime()) / (1000 * 60 * 60 * 24 * 30.44)))
-
   // Calculate net income after taxes (Austrian practice)
   // Note: We use net revenue (after payment fees) as the gross revenue for tax calculation
+  // VAT only applies to revenue of therapy types with a VAT rate
   const taxResult = calculateAustrianTax({
     grossRevenue: totalNetRevenue,
     totalExpenses: totalExpenses,
     practiceType: practiceType,
-    applyingPauschalierung: totalNetRevenue < 220000, // Eligible if under €220k
-    monthsInPeriod: monthsInPeriod
+    vatPayable: estimateVatPayable({
+      year: period.start.getFullYear(),
+      revenues: vatRevenues,
+      expenses: vatExpenses,
+      kleinunternehmer: userSettings?.vat_kleinunternehmer ?? true,
+      monthsInPeriod
+    }),
+    applyingPauschalierung: false,
+    monthsInPeriod: monthsInPeriod,
+    taxYear: period.start.getFullYear()
   })
 
   const netIncome = taxResult.netIncome
@@ -534,14 +681,15 @@ async function fetchScopeData(
     totalRevenue,
     totalPaymentFees,
     totalNetRevenue,
-    paymentFeePercentage,
+    paymentFeePercentage: totalRevenue > 0 ? (totalPaymentFees / totalRevenue) * 100 : paymentFeePercentage,
     totalExpenses,
     totalSessions,
     totalPlannedSessions: totalPlanned,
     netIncome,
     marginPercent,
     therapyMetrics,
-    monthlyBreakdown: [] // TODO: Calculate monthly breakdown
+    monthlyBreakdown: [], // TODO: Calculate monthly breakdown
+    revenueByPayer
   }
 }
 
@@ -572,7 +720,27 @@ async function fetchHistoricalData(
     .order('expense_date', { ascending: false })
     .limit(months * 10) // Fetch more to account for recurring expenses
 
-  const therapyPriceMap = new Map(therapies?.map((t: any) => [t.id, t.price_per_session]) || [])
+  // Ledger of the months of the plans only
+  const planMonths = (plans || []).map((plan: any) => String(plan.month).slice(0, 7)).sort()
+  let ledger: { therapy_type_id: string; session_date: string; gross_amount: number }[] = []
+  if (planMonths.length > 0) {
+    const { data } = await fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('therapy_type_id, session_date, gross_amount')
+        .eq('user_id', userId)
+        .gte('session_date', getMonthRange(planMonths[0]).start)
+        .lt('session_date', getMonthRange(planMonths[planMonths.length - 1]).end)
+        .order('id')
+        .range(from, to)
+    )
+    ledger = data
+  }
+
+  const ledgerAggregates = aggregateSessionLedger(ledger)
+
+  const prices = await fetchTherapyPrices(supabase, userId)
+  const therapyScheduleMap = new Map(therapies?.map((t: any) => [t.id, getPriceSchedule(prices, t)]) || [])
   const expensesByMonth = new Map(expenses?.map((e: any) => {
     const dateStr = e.expense_date
     return [dateStr, (e.amount || 0)]
@@ -594,8 +762,13 @@ async function fetchHistoricalData(
     }
 
     const metric = monthlyData.get(month)!
-    const price = therapyPriceMap.get(plan.therapy_type_id) || 0
-    metric.totalRevenue += (plan.actual_sessions || 0) * price
+    const schedule = therapyScheduleMap.get(plan.therapy_type_id)
+    const price = schedule ? getPriceForMonth(schedule, String(month)) : 0
+    metric.totalRevenue += resolveActualRevenue(
+      plan.actual_sessions || 0,
+      price,
+      ledgerAggregates.get(ledgerKey(String(month), plan.therapy_type_id))
+    )
     metric.totalSessions += plan.actual_sessions || 0
   })
 
@@ -1,163 +1,126 @@
-'use client'
-
 /**
  * OCR Utilities for bill and receipt text extraction
  *
- * Strategy:
+ * Runs on the server with bundled libraries, no scripts or language data
+ * from a CDN:
  * 1. For PDFs: Try PDF.js text extraction first (instant, accurate for digital PDFs)
- * 2. If PDF has no embedded text (<50 chars), fall back to OCR
- * 3. For images: Use Tesseract.js OCR directly
+ * 2. If PDF has no embedded text (<50 chars), render the pages and fall back to OCR
+ * 3. For images: Use Tesseract.js OCR directly with the German language data
  */
 
-declare global {
-  interface Window {
-    Tesseract: {
-      createWorker: (options?: any) => Promise<{
-        recognize: (source: string, languages: string[]) => Promise<{ data: { text: string } }>
-        terminate: () => Promise<void>
-      }>
-    }
-    pdfjsWorker?: any
-  }
-}
+import path from 'path'
+import type { TextItem } from 'pdfjs-dist/types/src/display/api'
+import { suggestFromKeywords } from './utils/expense-categorization'
 
-let tesseractScriptLoading: Promise<void> | null = null
+// Embedded PDF text shorter than this is treated as a scan
+const MIN_PDF_TEXT_LENGTH = 50
 
-function loadTesseractScript(): Promise<void> {
-  if (tesseractScriptLoading) return tesseractScriptLoading
-  if (typeof window !== 'undefined' && window.Tesseract) return Promise.resolve()
+// Scanned PDF pages are rendered at 2x (144 dpi) for OCR
+const PDF_RENDER_SCALE = 2
 
-  tesseractScriptLoading = new Promise((resolve, reject) => {
-    const script = document.createElement('script')
-    script.src = 'https://cdn.jsdelivr.net/npm/tesseract.js@5.1.0/dist/tesseract.min.js'
-    script.async = true
-    script.onload = () => { tesseractScriptLoading = null; resolve() }
-    script.onerror = () => { tesseractScriptLoading = null; reject(new Error('Failed to load Tesseract.js from CDN')) }
-    document.head.appendChild(script)
-  })
-  return tesseractScriptLoading
-}
+// German traineddata of @tesseract.js-data/deu (LSTM integer model)
+const TESSERACT_LANG_PATH = path.join(process.cwd(), 'node_modules', '@tesseract.js-data', 'deu', '4.0.0_best_int')
 
-let pdfJsLoading: Promise<any> | null = null
-
-async function loadPdfJsScript(): Promise<any> {
-  if (pdfJsLoading) return pdfJsLoading
-  if (typeof window !== 'undefined' && (window as any).pdfjsLib) return (window as any).pdfjsLib
-
-  pdfJsLoading = new Promise((resolve, reject) => {
-    const script = document.createElement('script')
-    script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js'
-    script.async = true
-    script.onload = () => {
-      const pdfjsLib = (window as any).pdfjsLib
-      pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js'
-      pdfJsLoading = null
-      resolve(pdfjsLib)
-    }
-    script.onerror = () => { pdfJsLoading = null; reject(new Error('Failed to load PDF.js from CDN')) }
-    document.head.appendChild(script)
-  })
-  return pdfJsLoading
-}
+// Fonts PDFs may reference without embedding them (Helvetica, Times, ...)
+const PDF_STANDARD_FONTS_PATH = path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts') + path.sep
 
 /**
- * Convert base64 to Uint8Array
+ * Join the text items of a PDF page into lines
+ * Line items and VAT totals are parsed line by line, so line breaks are kept
  */
-function base64ToBytes(base64: string): Uint8Array {
-  const binaryString = atob(base64)
-  const bytes = new Uint8Array(binaryString.length)
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i)
-  }
-  return bytes
+export function joinPdfTextItems(items: Array<{ str: string; hasEOL: boolean }>): string {
+  return items
+    .map(item => (item.hasEOL ? `${item.str}\n` : `${item.str} `))
+    .join('')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+async function loadPdfDocument(bytes: Uint8Array) {
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  // PDF.js takes over the buffer it is given, so it gets a copy
+  return pdfjsLib.getDocument({
+    data: new Uint8Array(bytes),
+    standardFontDataUrl: PDF_STANDARD_FONTS_PATH,
+    disableFontFace: true
+  }).promise
 }
 
 /**
  * Extract embedded text from PDF using PDF.js getTextContent()
  * This is instant and 100% accurate for digital PDFs
  */
-async function extractPdfText(pdfBase64: string): Promise<string> {
-  if (typeof window === 'undefined') {
-    throw new Error('PDF-Verarbeitung ist nur im Browser verfügbar')
-  }
+async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const pdf = await loadPdfDocument(bytes)
+  console.log(`[PDF Text] Extracting text from ${pdf.numPages} page(s)...`)
 
-  const pdfjsLib = await loadPdfJsScript()
-  const bytes = base64ToBytes(pdfBase64)
-  const pdf = await pdfjsLib.getDocument({ data: bytes }).promise
-  const numPages = pdf.numPages
-  console.log(`[PDF Text] Extracting text from ${numPages} page(s)...`)
-
-  const pageTexts: string[] = []
-
-  for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-    const page = await pdf.getPage(pageNum)
-    const textContent = await page.getTextContent()
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ')
-      .replace(/\s+/g, ' ')
-      .trim()
-    if (pageText) pageTexts.push(pageText)
-  }
+  try {
+    const pageTexts: string[] = []
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum)
+      const textContent = await page.getTextContent()
+      // Marked-content entries carry no text
+      const pageText = joinPdfTextItems(
+        textContent.items.filter((item): item is TextItem => 'str' in item)
+      )
+      if (pageText) pageTexts.push(pageText)
+    }
 
-  const fullText = pageTexts.join('\n')
-  console.log(`[PDF Text] Extracted ${fullText.length} characters from embedded text`)
-  return fullText
+    const fullText = pageTexts.join('\n')
+    console.log(`[PDF Text] Extracted ${fullText.length} characters from embedded text`)
+    return fullText
+  } finally {
+    await pdf.destroy()
+  }
 }
 
 /**
- * Render PDF pages to images for OCR fallback
+ * Render PDF pages to PNG images for OCR fallback
  */
-async function renderPdfToImages(pdfBase64: string): Promise<string[]> {
-  if (typeof window === 'undefined') {
-    throw new Error('PDF-Verarbeitung ist nur im Browser verfügbar')
-  }
+async function renderPdfToImages(bytes: Uint8Array): Promise<Buffer[]> {
+  const { createCanvas } = await import('@napi-rs/canvas')
+  const pdf = await loadPdfDocument(bytes)
 
-  const pdfjsLib = await loadPdfJsScript()
-  const bytes = base64ToBytes(pdfBase64)
-  const pdf = await pdfjsLib.getDocument({ data: bytes }).promise
-  const numPages = pdf.numPages
-  const images: string[] = []
-
-  for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-    console.log(`[OCR] Rendering PDF page ${pageNum}/${numPages} to canvas...`)
-    const page = await pdf.getPage(pageNum)
-    const viewport = page.getViewport({ scale: 2 })
-
-    const canvas = document.createElement('canvas')
-    const context = canvas.getContext('2d')
-    if (!context) throw new Error('Failed to get canvas context')
-
-    canvas.width = viewport.width
-    canvas.height = viewport.height
-    await page.render({ canvasContext: context, viewport }).promise
-    images.push(canvas.toDataURL('image/jpeg').split(',')[1])
+  try {
+    const images: Buffer[] = []
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      console.log(`[OCR] Rendering PDF page ${pageNum}/${pdf.numPages}...`)
+      const page = await pdf.getPage(pageNum)
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE })
+
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+        viewport
+      }).promise
+      images.push(canvas.toBuffer('image/png'))
+    }
+    return images
+  } finally {
+    await pdf.destroy()
   }
-
-  return images
 }
 
 /**
- * Run Tesseract OCR on base64 images
+ * Run Tesseract OCR on images
  */
-async function runOcr(imageBase64Array: string[], fileType: string): Promise<string> {
-  console.log('[OCR] Loading Tesseract.js...')
-  await loadTesseractScript()
-
-  if (!window.Tesseract) {
-    throw new Error('Tesseract.js konnte nicht geladen werden')
-  }
+async function runOcr(images: Buffer[]): Promise<string> {
+  console.log('[OCR] Starting Tesseract.js worker...')
+  const { createWorker, OEM } = await import('tesseract.js')
+  const worker = await createWorker('deu', OEM.LSTM_ONLY, {
+    langPath: TESSERACT_LANG_PATH,
+    gzip: true,
+    cacheMethod: 'none'
+  })
 
-  const worker = await window.Tesseract.createWorker()
   try {
     const texts: string[] = []
-    for (let i = 0; i < imageBase64Array.length; i++) {
-      console.log(`[OCR] Processing image ${i + 1}/${imageBase64Array.length}...`)
-      let dataUrl = imageBase64Array[i]
-      if (!dataUrl.startsWith('data:')) {
-        dataUrl = `data:${fileType};base64,${imageBase64Array[i]}`
-      }
-      const result = await worker.recognize(dataUrl, ['deu', 'eng'])
+    for (let i = 0; i < images.length; i++) {
+      console.log(`[OCR] Processing image ${i + 1}/${images.length}...`)
+      const result = await worker.recognize(images[i])
       const text = (result.data?.text || '').trim()
       console.log(`[OCR] Image ${i + 1}: ${text.length} chars extracted`)
       if (text) texts.push(text)
@@ -171,17 +134,16 @@ async function runOcr(imageBase64Array: string[], fileType: string): Promise<str
 /**
  * Main extraction function - handles both PDFs and images
  */
-export async function extractTextFromImage(imageBase64: string, fileType: string = 'image/jpeg'): Promise<string> {
+export async function extractDocumentText(bytes: Uint8Array, fileType: string): Promise<string> {
   try {
     // PDF handling: try text extraction first, fall back to OCR
     if (fileType === 'application/pdf') {
       console.log('[Extract] PDF detected - trying embedded text extraction first...')
 
       try {
-        const pdfText = await extractPdfText(imageBase64)
+        const pdfText = await extractPdfText(bytes)
 
-        // If we got meaningful text (>50 chars), use it directly
-        if (pdfText.length > 50) {
+        if (pdfText.length > MIN_PDF_TEXT_LENGTH) {
           console.log('[Extract] Got embedded text from PDF, skipping OCR')
           return pdfText
         }
@@ -192,8 +154,7 @@ export async function extractTextFromImage(imageBase64: string, fileType: string
       }
 
       // Fallback: render PDF to images and OCR
-      const images = await renderPdfToImages(imageBase64)
-      const ocrText = await runOcr(images, 'image/jpeg')
+      const ocrText = await runOcr(await renderPdfToImages(bytes))
       if (!ocrText) {
         throw new Error('Kein Text im PDF erkannt. Das PDF könnte ein Bild-Scan mit schlechter Qualität sein.')
       }
@@ -205,7 +166,7 @@ export async function extractTextFromImage(imageBase64: string, fileType: string
       throw new Error('Nur Bilddateien (JPG, PNG, WebP) und PDF-Dateien werden unterstützt')
     }
 
-    const ocrText = await runOcr([imageBase64], fileType)
+    const ocrText = await runOcr([Buffer.from(bytes)])
     if (!ocrText) {
       throw new Error('Kein Text im Bild erkannt. Das Bild könnte zu unscharf oder zu klein sein.')
     }
@@ -451,69 +412,8 @@ function formatDateToISO(dateStr: string): string | null {
 
 /**
  * Suggest expense category based on vendor name and text
- * Maps keywords to actual Austrian expense categories for medical practices
+ * Uses the built-in keywords of the expense categorisation engine
  */
 export function suggestCategory(vendorName: string, text: string): string {
-  const lowerVendor = vendorName.toLowerCase()
-  const lowerText = text.toLowerCase()
-
-  const categoryKeywords: Record<string, string[]> = {
-    'Räumlichkeiten': [
-      'miete', 'rent', 'pacht', 'lease',
-      'strom', 'wasser', 'gas', 'energie', 'electricity', 'water', 'heizung', 'heating', 'cooling',
-      'betriebskosten', 'nebenkosten', 'facility', 'ordinationsräume', 'praxis'
-    ],
-    'Personal': [
-      'gehalt', 'lohn', 'salary', 'wage', 'mitarbeiter', 'staff', 'personalkosten',
-      'sozialversicherung', 'lohnverrechnung', 'fortbildung', 'training'
-    ],
-    'Medizinischer Bedarf': [
-      'apotheke', 'pharma', 'medizin', 'medicine', 'pharmacy',
-      'arztbedarf', 'verbrauchsmaterial', 'desinfektionsmittel', 'desinfection',
-      'spritze', 'kanüle', 'verbandsmaterial', 'instrumentarium',
-      'laborbedarf', 'diagnostik', 'röntgen'
-    ],
-    'Ausstattung & Geräte': [
-      'wartung', 'reparatur', 'maintenance', 'repair', 'service', 'instandhaltung',
-      'geräte', 'equipment', 'einrichtung', 'furniture', 'möbel',
-      'computer', 'drucker', 'scanner', 'edv-ausrüstung', 'leasing',
-      'liegen', 'stuhl', 'behandlungseinheit', 'sterilisator'
-    ],
-    'Versicherungen': [
-      'versicherung', 'insurance', 'haftung', 'haftpflicht', 'liability',
-      'berufshaftpflicht', 'betriebsversicherung', 'praxisausfall', 'rechtsschutz',
-      'versicherungsbeitrag'
-    ],
-    'IT & Digital': [
-      'software', 'ordinationssoftware', 'arztsoftware', 'praxissoftware',
-      'ecard', 'e-card-system', 'it-support', 'cloud', 'telefon', 'telefax',
-      'internet', 'telekommunikation', 'domain', 'website', 'server'
-    ],
-    'Beratung & Verwaltung': [
-      'beratung', 'consulting', 'steuerberatung', 'steuer', 'tax', 'taxation',
-      'buchhaltung', 'buchhalter', 'accounting', 'rechtsanwalt', 'lawyer', 'anwalt',
-      'wirtschaftsprüfung', 'revision', 'prüfung', 'audit'
-    ],
-    'Pflichtbeiträge': [
-      'ärztekammer', 'kammer', 'beitrag', 'fee', 'membership',
-      'fortbildung', 'fortbildungsbeitrag',
-      'pflichtversicherung', 'pflichtbeitrag'
-    ],
-    'Sonstige Betriebsausgaben': [
-      'büro', 'office', 'papier', 'drucker', 'tinte', 'printer', 'paper', 'stationery',
-      'werbung', 'marketing', 'advertising', 'anzeige',
-      'hotel', 'lufthansa', 'taxi', 'uber', 'flug', 'bahn', 'travel', 'fahrt', 'reise',
-      'bankgebühren', 'gebühren', 'fees', 'porto', 'versand', 'shipping'
-    ]
-  }
-
-  for (const [category, keywords] of Object.entries(categoryKeywords)) {
-    for (const keyword of keywords) {
-      if (lowerVendor.includes(keyword) || lowerText.includes(keyword)) {
-        return category
-      }
-    }
-  }
-
-  return 'Sonstige Betriebsausgaben'
+  return suggestFromKeywords({ vendor: vendorName, description: text })?.category ?? 'Sonstige Betriebsausgaben'
 }
@@ -0,0 +1,195 @@
+/**
+ * E1a Report Generation Service
+ *
+ * Exports the Einnahmen-Ausgaben-Rechnung of a year in the layout of the E1a
+ * form (Kennzahlen 9040-9230) for the tax advisor: PDF (print), XLSX and CSV.
+ */
+
+import type { E1aReport } from '@/lib/calculations/types'
+import { formatEuro } from '@/lib/config/tax-config'
+import { downloadExcel } from '@/lib/utils/excel-export'
+
+export type E1aExportFormat = 'pdf' | 'xlsx' | 'csv'
+
+// ========================================================================
+// HTML REPORT GENERATION
+// ========================================================================
+
+export function generateE1aHTMLReport(report: E1aReport, practiceName: string = ''): string {
+  const renderLines = (kind: 'income' | 'expense') =>
+    report.lines
+      .filter(line => line.kind === kind)
+      .map(line => `
+          <tr class="${line.amount === 0 ? 'empty' : ''}">
+            <td class="kz">${line.kz}</td>
+            <td>
+              ${line.label}
+              ${line.items.length > 0 ? `<div class="items">${line.items.map(item => `${item.label}: ${formatEuro(item.amount, 2)}`).join(' · ')}</div>` : ''}
+            </td>
+            <td class="text-right">${formatEuro(line.amount, 2)}</td>
+          </tr>`)
+      .join('')
+
+  return `
+<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="UTF-8">
+  <title>Einnahmen-Ausgaben-Rechnung ${report.year}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      color: #1f2937;
+      padding: 20px;
+    }
+    .container { max-width: 900px; margin: 0 auto; }
+    header { border-bottom: 3px solid #4f46e5; padding-bottom: 16px; margin-bottom: 24px; }
+    h1 { font-size: 24px; }
+    h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 2px solid #e5e7eb; padding-bottom: 6px; }
+    .report-meta { display: flex; justify-content: space-between; font-size: 13px; color: #6b7280; margin-top: 8px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    td.kz { width: 60px; font-weight: 600; }
+    tr.empty td { color: #9ca3af; }
+    tr.total td { font-weight: 700; border-top: 2px solid #1f2937; }
+    .items { font-size: 11px; color: #6b7280; margin-top: 2px; }
+    .text-right { text-align: right; white-space: nowrap; }
+    footer { margin-top: 32px; font-size: 11px; color: #9ca3af; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <header>
+      <h1>Einnahmen-Ausgaben-Rechnung ${report.year}</h1>
+      <div class="report-meta">
+        <span>${practiceName}</span>
+        <span>Beilage E1a · Kennzahlen</span>
+      </div>
+    </header>
+
+    <h2>Erträge/Betriebseinnahmen</h2>
+    <table>
+      <tbody>
+        ${renderLines('income')}
+        <tr class="total"><td></td><td>Summe Erträge</td><td class="text-right">${formatEuro(report.totalIncome, 2)}</td></tr>
+      </tbody>
+    </table>
+
+    <h2>Aufwendungen/Betriebsausgaben</h2>
+    <table>
+      <tbody>
+        ${renderLines('expense')}
+        <tr class="total"><td></td><td>Summe Aufwendungen</td><td class="text-right">${formatEuro(report.totalExpenses, 2)}</td></tr>
+      </tbody>
+    </table>
+
+    <h2>Ergebnis</h2>
+    <table>
+      <tbody>
+        <tr class="total"><td></td><td>${report.profit >= 0 ? 'Gewinn' : 'Verlust'} (vor Gewinnfreibetrag)</td><td class="text-right">${formatEuro(report.profit, 2)}</td></tr>
+      </tbody>
+    </table>
+
+    <footer>
+      <p>Zufluss-Abfluss-Prinzip; Anlagen mit AfA laut Anlagenverzeichnis. Generiert am ${new Date().toLocaleString('de-AT')}</p>
+    </footer>
+  </div>
+</body>
+</html>
+  `
+}
+
+// ========================================================================
+// CSV REPORT GENERATION
+// ========================================================================
+
+/**
+ * Semicolon-separated with decimal commas for Austrian Excel
+ */
+export function generateE1aCSVReport(report: E1aReport): string {
+  const amount = (value: number) => value.toFixed(2).replace('.', ',')
+  const lines: string[] = [
+    `Einnahmen-Ausgaben-Rechnung ${report.year}`,
+    'Kennzahl;Bezeichnung;Betrag'
+  ]
+
+  for (const line of report.lines) {
+    lines.push(`${line.kz};"${line.label}";${amount(line.amount)}`)
+  }
+  lines.push(`;Summe Erträge;${amount(report.totalIncome)}`)
+  lines.push(`;Summe Aufwendungen;${amount(report.totalExpenses)}`)
+  lines.push(`;${report.profit >= 0 ? 'Gewinn' : 'Verlust'};${amount(report.profit)}`)
+
+  return lines.join('\r\n')
+}
+
+// ========================================================================
+// EXPORT ORCHESTRATOR
+// ========================================================================
+
+export async function exportE1aReport(
+  report: E1aReport,
+  format: E1aExportFormat,
+  practiceName: string = ''
+): Promise<void> {
+  const filename = `E1a-${report.year}`
+
+  switch (format) {
+    case 'pdf': {
+      // Open the HTML report for print-to-PDF
+      const printWindow = window.open('', '_blank')
+      if (printWindow) {
+        printWindow.document.write(generateE1aHTMLReport(report, practiceName))
+        printWindow.document.close()
+        printWindow.onload = () => {
+          printWindow.print()
+        }
+      }
+      return
+    }
+
+    case 'xlsx': {
+      await downloadExcel(
+        [
+          {
+            name: `E1a ${report.year}`,
+            data: [
+              ...report.lines.map(line => ({ 'Kennzahl': line.kz, 'Bezeichnung': line.label, 'Betrag': line.amount })),
+              { 'Kennzahl': '', 'Bezeichnung': 'Summe Erträge', 'Betrag': report.totalIncome },
+              { 'Kennzahl': '', 'Bezeichnung': 'Summe Aufwendungen', 'Betrag': report.totalExpenses },
+              { 'Kennzahl': '', 'Bezeichnung': report.profit >= 0 ? 'Gewinn' : 'Verlust', 'Betrag': report.profit }
+            ],
+            columns: { 'Betrag': { format: '#,##0.00 €', alignment: 'right' } }
+          },
+          {
+            name: 'Details',
+            data: report.lines.flatMap(line =>
+              line.items.map(item => ({ 'Kennzahl': line.kz, 'Position': item.label, 'Betrag': item.amount }))
+            ),
+            columns: { 'Betrag': { format: '#,##0.00 €', alignment: 'right' } }
+          }
+        ],
+        { filename }
+      )
+      return
+    }
+
+    case 'csv': {
+      // BOM so Excel detects UTF-8 (umlauts)
+      const blob = new Blob(['\uFEFF' + generateE1aCSVReport(report)], { type: 'text/csv;charset=utf-8;' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${filename}.csv`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+      return
+    }
+
+    default:
+      throw new Error(`Unsupported export format: ${format}`)
+  }
+}
@@ -293,7 +293,7 @@ export function generateHTMLReport(
             <td class="text-right">${formatEuro(result.selfEmploymentProfit)}</td>
           </tr>
           <tr>
-            <td>  Gewinnfreibetrag (15%)</td>
+            <td>  Gewinnfreibetrag</td>
             <td class="text-right negative">−${formatEuro(result.gewinnfreibetrag)}</td>
           </tr>
           <tr>
@@ -416,7 +416,7 @@ export function generateCSVReport(
   }
   if (result.selfEmploymentProfit > 0) {
     lines.push(`Selbständiges Einkommen (Gewinn),${result.selfEmploymentProfit.toFixed(2)}€`)
-    lines.push(`Gewinnfreibetrag (15%),${result.gewinnfreibetrag.toFixed(2)}€`)
+    lines.push(`Gewinnfreibetrag,${result.gewinnfreibetrag.toFixed(2)}€`)
     lines.push(`Sozialversicherung (SVS),${result.selfEmployedSs.toFixed(2)}€`)
   }
   lines.push('')
@@ -0,0 +1,44 @@
+/**
+ * Asset Register Persistence
+ *
+ * Server-side helpers for loading the asset register. Expense totals use them
+ * to replace linked purchase expenses by the depreciation (AfA).
+ */
+
+import type { createClient } from '@/utils/supabase/server'
+import type { Asset } from '@/lib/types'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Load the asset register of a user, oldest acquisition first
+ */
+export async function fetchAssets(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Asset[]> {
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('acquisition_date', { ascending: true })
+
+  if (error) {
+    console.error('[fetchAssets] Error fetching assets:', error)
+    return []
+  }
+
+  return (data || []).map(asset => ({
+    ...asset,
+    acquisition_cost: Number(asset.acquisition_cost),
+    useful_life_years: Number(asset.useful_life_years)
+  })) as Asset[]
+}
+
+/**
+ * Drop purchase expenses that are depreciated through the asset register
+ */
+export function withoutAssetPurchases<T extends { id: string }>(expenses: T[], assets: Asset[]): T[] {
+  const linked = new Set(assets.map(asset => asset.expense_id).filter(Boolean))
+  return linked.size === 0 ? expenses : expenses.filter(expense => !linked.has(expense.id))
+}
@@ -0,0 +1,237 @@
+/**
+ * Document Archive Persistence
+ *
+ * Server-side helpers for the BAO retention of receipts. The database keeps
+ * the versions, logs changes and refuses early deletions (migration 026);
+ * these helpers check the retention up front for a readable message, log
+ * views and exports, find the stored files of a document and stream the
+ * year-end "Belegarchiv".
+ */
+
+import { Readable } from 'stream'
+import JSZip from 'jszip'
+import type { createClient } from '@/utils/supabase/server'
+import type { createClient as createServiceClient } from '@/utils/supabase/service-client'
+import type { DocumentAuditAction, ExpenseDocument, ExpenseDocumentVersion } from '@/lib/types'
+import { hashContent } from './duplicates'
+import { fetchAllRows } from './session-ledger'
+import {
+  archiveFilePath,
+  buildArchiveIndexCsv,
+  type ArchiveIndexRow,
+  type ArchiveIntegrity
+} from '@/lib/utils/document-archive'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+type ServiceSupabaseClient = Awaited<ReturnType<typeof createServiceClient>>
+
+export type ArchivedDocument = {
+  id: string
+  storage_bucket: string
+  retention_until: string | null
+  expense_document_versions: Pick<
+    ExpenseDocumentVersion,
+    'id' | 'document_id' | 'version' | 'file_name' | 'file_path' | 'file_size' | 'content_hash' | 'created_at'
+  >[]
+  expenses: {
+    id: string
+    expense_date: string
+    description: string | null
+    category: string
+    amount: number
+    invoice_number: string | null
+  }
+}
+
+/**
+ * Log events of documents; failures are logged and don't stop the action
+ * Users cannot write the log themselves, so this needs the service-role client
+ */
+export async function logDocumentEvents(
+  supabase: ServiceSupabaseClient,
+  userId: string,
+  documentIds: string[],
+  action: DocumentAuditAction,
+  details: Record<string, unknown> | null = null
+): Promise<void> {
+  if (documentIds.length === 0) return
+
+  const { error } = await supabase
+    .from('document_audit_log')
+    .insert(documentIds.map(documentId => ({
+      user_id: userId,
+      document_id: documentId,
+      action,
+      details
+    })))
+
+  if (error) {
+    console.error('[logDocumentEvents] Database error:', JSON.stringify(error, null, 2))
+  }
+}
+
+/**
+ * Documents of the given expenses still under retention
+ */
+export async function fetchRetainedDocuments(
+  supabase: SupabaseClient,
+  userId: string,
+  expenseIds: string[]
+): Promise<Pick<ExpenseDocument, 'id' | 'expense_id' | 'file_name' | 'retention_until'>[]> {
+  if (expenseIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('expense_documents')
+    .select('id, expense_id, file_name, retention_until')
+    .eq('user_id', userId)
+    .in('expense_id', expenseIds)
+    .gte('retention_until', new Date().toISOString().split('T')[0])
+
+  if (error) {
+    console.error('[fetchRetainedDocuments] Database error:', JSON.stringify(error, null, 2))
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Storage paths of all versions of a document, to remove the files once the
+ * document itself was deleted
+ */
+export async function fetchDocumentFilePaths(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('expense_document_versions')
+    .select('file_path')
+    .eq('document_id', documentId)
+
+  if (error) {
+    console.error('[fetchDocumentFilePaths] Database error:', JSON.stringify(error, null, 2))
+    return []
+  }
+
+  return (data || []).map(version => version.file_path)
+}
+
+/**
+ * Documents of the expenses of a year with all their versions, by expense date
+ */
+export async function fetchArchivedDocuments(
+  supabase: SupabaseClient,
+  userId: string,
+  year: number
+): Promise<{ data: ArchivedDocument[]; error: { message: string } | null }> {
+  const { data, error } = await fetchAllRows((from, to) =>
+    supabase
+      .from('expense_documents')
+      .select(`
+        id, storage_bucket, retention_until,
+        expense_document_versions(id, document_id, version, file_name, file_path, file_size, content_hash, created_at),
+        expenses!inner(id, expense_date, description, category, amount, invoice_number)
+      `)
+      .eq('user_id', userId)
+      .gte('expenses.expense_date', `${year}-01-01`)
+      .lte('expenses.expense_date', `${year}-12-31`)
+      .order('id')
+      .range(from, to)
+  )
+
+  if (error) {
+    console.error('[fetchArchivedDocuments] Database error:', JSON.stringify(error, null, 2))
+    return { data: [], error }
+  }
+
+  return {
+    data: (data as unknown as ArchivedDocument[])
+      .sort((a, b) => a.expenses.expense_date.localeCompare(b.expenses.expense_date)),
+    error: null
+  }
+}
+
+/**
+ * Stream whose content is loaded once it is read
+ */
+function lazyReadable(load: () => Promise<Uint8Array | string>): Readable {
+  let started = false
+  return new Readable({
+    read() {
+      if (started) return
+      started = true
+      load().then(
+        content => {
+          this.push(content)
+          this.push(null)
+        },
+        error => this.destroy(error)
+      )
+    }
+  })
+}
+
+/**
+ * Year-end "Belegarchiv" as ZIP stream: every version of the documents, each
+ * checked against its stored SHA-256, and an index CSV linking the files to
+ * their expenses. Files are downloaded one at a time while the ZIP is read;
+ * the index comes last with the result of the checks, files that could not be
+ * read stay empty and are marked in it.
+ */
+export function streamDocumentArchive(
+  supabase: SupabaseClient,
+  documents: ArchivedDocument[]
+): Readable {
+  const zip = new JSZip()
+  const rows: ArchiveIndexRow[] = []
+
+  for (const document of documents) {
+    const versions = [...document.expense_document_versions].sort((a, b) => a.version - b.version)
+    const latestVersion = versions.at(-1)?.version
+
+    for (const version of versions) {
+      const current = version.version === latestVersion
+      const path = archiveFilePath(document.expenses, version, current)
+      const row: ArchiveIndexRow = {
+        path,
+        version: version.version,
+        current,
+        file_name: version.file_name,
+        file_size: Number(version.file_size),
+        content_hash: version.content_hash,
+        integrity: 'missing',
+        stored_at: version.created_at,
+        retention_until: document.retention_until,
+        expense_id: document.expenses.id,
+        expense_date: document.expenses.expense_date,
+        description: document.expenses.description,
+        category: document.expenses.category,
+        amount: Number(document.expenses.amount),
+        invoice_number: document.expenses.invoice_number
+      }
+      rows.push(row)
+
+      zip.file(path, lazyReadable(async () => {
+        const { data: fileData, error: downloadError } = await supabase.storage
+          .from(document.storage_bucket)
+          .download(version.file_path)
+
+        if (downloadError || !fileData) {
+          console.error(`[streamDocumentArchive] Download of ${version.file_path} failed:`, downloadError)
+          return new Uint8Array(0)
+        }
+
+        const content = new Uint8Array(await fileData.arrayBuffer())
+        const integrity: ArchiveIntegrity = !version.content_hash
+          ? 'unhashed'
+          : hashContent(content) === version.content_hash ? 'ok' : 'mismatch'
+        row.integrity = integrity
+        return content
+      }))
+    }
+  }
+
+  zip.file('Index.csv', lazyReadable(async () => buildArchiveIndexCsv(rows)))
+
+  return zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'STORE' }) as Readable
+}
@@ -0,0 +1,160 @@
+/**
+ * Document OCR Queue
+ *
+ * Text extraction of uploaded expense documents runs on the server after the
+ * upload. Jobs are the documents with ocr_status 'pending'; a runner claims a
+ * job by switching it to 'processing' only if nobody else did, and stores the
+ * text ('done') or the error ('failed' after the last attempt). Jobs left in
+ * 'processing' by a server restart are claimed again after a timeout.
+ */
+
+import type { createClient } from '@/utils/supabase/service-client'
+import type { DocumentOcrStatus } from '@/lib/types'
+import { hashReceiptText } from '@/lib/supabase/duplicates'
+
+type ServiceClient = Awaited<ReturnType<typeof createClient>>
+
+interface OcrJob {
+  id: string
+  file_path: string
+  file_type: string
+  storage_bucket: string
+  ocr_status: DocumentOcrStatus
+  ocr_attempts: number
+}
+
+/** Attempts per document before it is marked as failed */
+export const MAX_OCR_ATTEMPTS = 3
+
+// A job processing for longer than this was abandoned
+const OCR_JOB_TIMEOUT_MS = 10 * 60 * 1000
+
+// Jobs claimed per round
+const OCR_BATCH_SIZE = 5
+
+let queueRun: Promise<void> | null = null
+let rerunRequested = false
+
+/**
+ * Claim open jobs, oldest upload first
+ * The conditional update makes sure concurrent runners never take the same document
+ */
+async function claimOcrJobs(supabase: ServiceClient, limit: number): Promise<OcrJob[]> {
+  const staleBefore = new Date(Date.now() - OCR_JOB_TIMEOUT_MS).toISOString()
+  const { data, error } = await supabase
+    .from('expense_documents')
+    .select('id, file_path, file_type, storage_bucket, ocr_status, ocr_attempts')
+    .or(`ocr_status.eq.pending,and(ocr_status.eq.processing,ocr_started_at.lt.${staleBefore})`)
+    .order('upload_date', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    console.error('[claimOcrJobs] Database error:', JSON.stringify(error, null, 2))
+    return []
+  }
+
+  const claimed: OcrJob[] = []
+  for (const candidate of (data || []) as OcrJob[]) {
+    const attempts = Number(candidate.ocr_attempts)
+    const exhausted = attempts >= MAX_OCR_ATTEMPTS
+    const { data: updated, error: claimError } = await supabase
+      .from('expense_documents')
+      .update(
+        exhausted
+          ? { ocr_status: 'failed', ocr_error: 'Texterkennung abgebrochen' }
+          : { ocr_status: 'processing', ocr_attempts: attempts + 1, ocr_started_at: new Date().toISOString() }
+      )
+      .eq('id', candidate.id)
+      .eq('ocr_status', candidate.ocr_status)
+      .eq('ocr_attempts', attempts)
+      .select('id')
+
+    if (claimError) {
+      console.error('[claimOcrJobs] Claim failed:', JSON.stringify(claimError, null, 2))
+      continue
+    }
+    if (!exhausted && updated && updated.length > 0) {
+      claimed.push({ ...candidate, ocr_attempts: attempts + 1 })
+    }
+  }
+
+  return claimed
+}
+
+/**
+ * Extract the text of one document and store it with its status
+ */
+async function processOcrJob(supabase: ServiceClient, job: OcrJob): Promise<void> {
+  try {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(job.storage_bucket)
+      .download(job.file_path)
+
+    if (downloadError || !file) {
+      throw new Error(`Datei nicht gefunden: ${downloadError?.message ?? job.file_path}`)
+    }
+
+    const { extractDocumentText } = await import('@/lib/ocr-utils')
+    const text = await extractDocumentText(new Uint8Array(await file.arrayBuffer()), job.file_type)
+
+    const { error } = await supabase
+      .from('expense_documents')
+      .update({
+        extracted_text: text,
+        text_hash: hashReceiptText(text),
+        ocr_status: 'done',
+        ocr_error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+
+    if (error) {
+      console.error('[processOcrJob] Database error:', JSON.stringify(error, null, 2))
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[processOcrJob] Document ${job.id} failed (attempt ${job.ocr_attempts}):`, message)
+
+    await supabase
+      .from('expense_documents')
+      .update({
+        ocr_status: job.ocr_attempts >= MAX_OCR_ATTEMPTS ? 'failed' : 'pending',
+        ocr_error: message,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+  }
+}
+
+/**
+ * Work through the open OCR jobs
+ * One run per server process at a time, as OCR is CPU and memory heavy; a call
+ * during a run makes the run look for new jobs before it ends
+ */
+export function runOcrQueue(supabase: ServiceClient): Promise<void> {
+  if (queueRun) {
+    rerunRequested = true
+    return queueRun
+  }
+
+  queueRun = (async () => {
+    try {
+      do {
+        rerunRequested = false
+        let jobs = await claimOcrJobs(supabase, OCR_BATCH_SIZE)
+        while (jobs.length > 0) {
+          for (const job of jobs) {
+            await processOcrJob(supabase, job)
+          }
+          jobs = await claimOcrJobs(supabase, OCR_BATCH_SIZE)
+        }
+      } while (rerunRequested)
+    } catch (error) {
+      console.error('[runOcrQueue] Queue run failed:', error)
+    } finally {
+      queueRun = null
+    }
+  })()
+
+  return queueRun
+}
@@ -0,0 +1,101 @@
+/**
+ * Duplicate Detection Persistence
+ *
+ * Server-side helpers that hash uploaded receipts and load the expenses with
+ * their document hashes and confirmed links, so the expense and document
+ * actions can warn about the same receipt being recorded twice.
+ */
+
+import { createHash } from 'crypto'
+import type { createClient } from '@/utils/supabase/server'
+import type { DuplicateExpenseSummary, ExpenseDuplicate } from '@/lib/types'
+import {
+  findDuplicatePairs,
+  normalizeReceiptText,
+  pairKey,
+  type DuplicateCandidate
+} from '@/lib/utils/duplicate-detection'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * SHA-256 of a file, hex encoded
+ */
+export function hashContent(content: Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * SHA-256 of the normalised text of a receipt, null if too little was recognised
+ */
+export function hashReceiptText(text: string | null): string | null {
+  const normalized = normalizeReceiptText(text)
+  return normalized ? createHash('sha256').update(normalized).digest('hex') : null
+}
+
+/**
+ * Probable duplicates among the expenses of a user, skipping linked pairs
+ *
+ * @param expenseId Only pairs involving this expense (after creating or uploading)
+ */
+export async function fetchExpenseDuplicates(
+  supabase: SupabaseClient,
+  userId: string,
+  expenseId?: string
+): Promise<ExpenseDuplicate[]> {
+  const [expensesResult, documentsResult, linksResult] = await Promise.all([
+    supabase
+      .from('expenses')
+      .select('id, category, amount, expense_date, description, vat_rate, invoice_number')
+      .eq('user_id', userId),
+    supabase
+      .from('expense_documents')
+      .select('id, expense_id, file_name, content_hash, text_hash')
+      .eq('user_id', userId),
+    supabase
+      .from('expense_links')
+      .select('expense_id, linked_expense_id')
+      .eq('user_id', userId)
+  ])
+
+  if (expensesResult.error || documentsResult.error || linksResult.error) {
+    console.error(
+      '[fetchExpenseDuplicates] Error fetching data:',
+      expensesResult.error || documentsResult.error || linksResult.error
+    )
+    return []
+  }
+
+  const summaries = new Map<string, DuplicateExpenseSummary>()
+  const candidates = new Map<string, DuplicateCandidate>()
+  for (const expense of expensesResult.data || []) {
+    summaries.set(expense.id, { ...expense, amount: Number(expense.amount), documents: [] })
+    candidates.set(expense.id, {
+      id: expense.id,
+      amount: Number(expense.amount),
+      expense_date: expense.expense_date,
+      description: expense.description,
+      invoice_number: expense.invoice_number,
+      content_hashes: [],
+      text_hashes: []
+    })
+  }
+
+  for (const document of documentsResult.data || []) {
+    const candidate = candidates.get(document.expense_id)
+    if (!candidate) continue
+    summaries.get(document.expense_id)!.documents.push({ id: document.id, file_name: document.file_name })
+    if (document.content_hash) candidate.content_hashes.push(document.content_hash)
+    if (document.text_hash) candidate.text_hashes.push(document.text_hash)
+  }
+
+  const linked = new Set((linksResult.data || []).map(link => pairKey(link.expense_id, link.linked_expense_id)))
+
+  return findDuplicatePairs([...candidates.values()], linked)
+    .filter(pair => !expenseId || pair.expense_id === expenseId || pair.duplicate_id === expenseId)
+    .map(pair => ({
+      expense: summaries.get(pair.expense_id)!,
+      duplicate: summaries.get(pair.duplicate_id)!,
+      reasons: pair.reasons
+    }))
+}
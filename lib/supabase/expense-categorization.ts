@@ -0,0 +1,125 @@
+/**
+ * Expense Categorisation Persistence
+ *
+ * Server-side helpers shared by the expense, bill scanner and import actions
+ * to load category rules and earlier expenses, and to learn vendor rules.
+ */
+
+import type { createClient } from '@/utils/supabase/server'
+import type { ExpenseInput } from '@/lib/validations'
+import {
+  categorizeExpense,
+  getVendorKey,
+  type CategorizationContext,
+  type ExpenseRecurrence
+} from '@/lib/utils/expense-categorization'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/** Number of recent expenses the history suggestion learns from */
+const HISTORY_LIMIT = 500
+
+/**
+ * Load the category rules and recent expenses of a user
+ */
+export async function fetchCategorizationContext(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CategorizationContext> {
+  const [rulesResult, historyResult] = await Promise.all([
+    supabase
+      .from('expense_category_rules')
+      .select('id, vendor_contains, keyword, amount_min, amount_max, category, subcategory, recurrence_interval')
+      .eq('user_id', userId),
+    supabase
+      .from('expenses')
+      .select('description, category, subcategory, is_recurring, recurrence_interval')
+      .eq('user_id', userId)
+      .not('description', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT)
+  ])
+
+  if (rulesResult.error || historyResult.error) {
+    console.error('[fetchCategorizationContext] Error fetching data:', rulesResult.error || historyResult.error)
+  }
+
+  return {
+    rules: (rulesResult.data || []).map(rule => ({
+      ...rule,
+      amount_min: rule.amount_min != null ? Number(rule.amount_min) : null,
+      amount_max: rule.amount_max != null ? Number(rule.amount_max) : null
+    })),
+    history: historyResult.data || []
+  }
+}
+
+/**
+ * Fill in category, subcategory and recurrence of an expense without a category
+ * Expenses with a category are returned unchanged
+ */
+export async function withSuggestedCategory(
+  supabase: SupabaseClient,
+  userId: string,
+  input: ExpenseInput
+): Promise<ExpenseInput> {
+  if (input.category) return input
+
+  const suggestion = categorizeExpense(
+    { description: input.description, amount: input.amount },
+    await fetchCategorizationContext(supabase, userId)
+  )
+  if (!suggestion) return input
+
+  return {
+    ...input,
+    category: suggestion.category,
+    subcategory: input.subcategory || suggestion.subcategory || undefined,
+    is_recurring: input.is_recurring || !!suggestion.recurrence_interval,
+    recurrence_interval: input.recurrence_interval || suggestion.recurrence_interval || undefined
+  }
+}
+
+/**
+ * Remember the category of a vendor as a rule
+ * An existing vendor-only rule is re-pointed to the new category
+ */
+export async function learnVendorRule(
+  supabase: SupabaseClient,
+  userId: string,
+  vendor: string,
+  target: { category: string; subcategory: string | null; recurrence_interval?: ExpenseRecurrence | null }
+): Promise<void> {
+  const vendorKey = getVendorKey({ vendor })
+  if (!vendorKey) return
+
+  const { data: existing } = await supabase
+    .from('expense_category_rules')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('vendor_contains', vendorKey)
+    .is('keyword', null)
+    .is('amount_min', null)
+    .is('amount_max', null)
+    .maybeSingle()
+
+  const values = {
+    category: target.category,
+    subcategory: target.subcategory,
+    recurrence_interval: target.recurrence_interval ?? null,
+    updated_at: new Date().toISOString()
+  }
+
+  const { error } = existing
+    ? await supabase
+        .from('expense_category_rules')
+        .update(values)
+        .eq('id', existing.id)
+    : await supabase
+        .from('expense_category_rules')
+        .insert({ ...values, user_id: userId, vendor_contains: vendorKey })
+
+  if (error) {
+    console.error('[learnVendorRule] Error saving rule:', error)
+  }
+}
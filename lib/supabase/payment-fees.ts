@@ -0,0 +1,155 @@
+/**
+ * Payment Fee Persistence
+ *
+ * Server-side helpers for loading payment fee profiles and the actual
+ * revenue split per payment method from the session ledger.
+ */
+
+import type { createClient } from '@/utils/supabase/server'
+import type { PaymentFeeProfile } from '@/lib/types'
+import { fetchAllRows } from './session-ledger'
+import {
+  buildRevenueSplit,
+  createPaymentFeeModel,
+  type FeeProfile,
+  type PaymentFeeSetting,
+  type RevenueSplit
+} from '@/lib/calculations/payment-fees'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+export interface PaymentFeeSettings {
+  /** Single fee percentage, used when no fee profiles are configured */
+  percentage: number
+  profiles: FeeProfile[]
+  /** Actual revenue per payment method, keyed by YYYY-MM */
+  monthlySplits: Map<string, RevenueSplit>
+}
+
+/**
+ * Load the fee profiles of a user
+ */
+export async function fetchPaymentFeeProfiles(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<PaymentFeeProfile[]> {
+  const { data, error } = await supabase
+    .from('payment_fee_profiles')
+    .select('*')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('[fetchPaymentFeeProfiles] Error fetching fee profiles:', error)
+    return []
+  }
+
+  return (data || []).map(profile => ({
+    ...profile,
+    percentage_fee: Number(profile.percentage_fee),
+    fixed_fee: Number(profile.fixed_fee),
+    monthly_fee: Number(profile.monthly_fee),
+    planned_share: Number(profile.planned_share)
+  })) as PaymentFeeProfile[]
+}
+
+/**
+ * Load the fee setting for planned revenue without reading the session ledger
+ */
+export async function fetchPlannedFeeSetting(
+  supabase: SupabaseClient,
+  userId: string,
+  fallbackPercentage: number
+): Promise<PaymentFeeSetting> {
+  const profiles = await fetchPaymentFeeProfiles(supabase, userId)
+  if (profiles.length > 0) {
+    return createPaymentFeeModel(profiles)
+  }
+
+  const { data: settings } = await supabase
+    .from('practice_settings')
+    .select('payment_processing_fee_percentage')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return settings?.payment_processing_fee_percentage ?? fallbackPercentage
+}
+
+/**
+ * Load fee profiles, the fallback fee percentage and the actual revenue split per month
+ *
+ * @param range Optional session date range (start inclusive, end exclusive, YYYY-MM-DD)
+ */
+export async function fetchPaymentFeeSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  fallbackPercentage: number,
+  range?: { start: string; end: string }
+): Promise<PaymentFeeSettings> {
+  const sessionsQuery = fetchAllRows((from, to) => {
+    let query = supabase
+      .from('sessions')
+      .select('session_date, gross_amount, payment_method')
+      .eq('user_id', userId)
+      .not('payment_method', 'is', null)
+
+    if (range) {
+      query = query.gte('session_date', range.start).lt('session_date', range.end)
+    }
+
+    return query.order('id').range(from, to)
+  })
+
+  const [profiles, settingsResult, sessionsResult] = await Promise.all([
+    fetchPaymentFeeProfiles(supabase, userId),
+    supabase
+      .from('practice_settings')
+      .select('payment_processing_fee_percentage')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    sessionsQuery
+  ])
+
+  const rowsByMonth = new Map<string, Array<{ payment_method: PaymentFeeProfile['payment_method'] | null; gross_amount: number }>>()
+  for (const row of sessionsResult.data || []) {
+    const month = String(row.session_date).slice(0, 7)
+    const rows = rowsByMonth.get(month) ?? []
+    rows.push({ payment_method: row.payment_method, gross_amount: Number(row.gross_amount) })
+    rowsByMonth.set(month, rows)
+  }
+
+  return {
+    percentage: settingsResult.data?.payment_processing_fee_percentage ?? fallbackPercentage,
+    profiles,
+    monthlySplits: new Map(
+      Array.from(rowsByMonth.entries()).map(([month, rows]) => [month, buildRevenueSplit(rows)])
+    )
+  }
+}
+
+/**
+ * Fee setting for planned revenue (planned shares of the fee profiles)
+ */
+export function getPlannedFeeSetting(settings: PaymentFeeSettings): PaymentFeeSetting {
+  if (settings.profiles.length === 0) return settings.percentage
+  return createPaymentFeeModel(settings.profiles)
+}
+
+/**
+ * Fee setting for actual revenue
+ * Uses the payment methods of the month's invoices, or of all loaded months when no month is given
+ */
+export function getActualFeeSetting(settings: PaymentFeeSettings, month?: string): PaymentFeeSetting {
+  if (settings.profiles.length === 0) return settings.percentage
+
+  if (month) {
+    return createPaymentFeeModel(settings.profiles, settings.monthlySplits.get(month.slice(0, 7)))
+  }
+
+  const combined: RevenueSplit = {}
+  for (const split of settings.monthlySplits.values()) {
+    for (const [method, amount] of Object.entries(split) as Array<[keyof RevenueSplit, number]>) {
+      combined[method] = (combined[method] || 0) + amount
+    }
+  }
+  return createPaymentFeeModel(settings.profiles, combined)
+}
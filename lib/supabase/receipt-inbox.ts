@@ -0,0 +1,115 @@
+/**
+ * Receipt Inbox Ingestion
+ *
+ * Documents from the ingest e-mail address, the watched folder and the drop
+ * zone are stored as expense documents without expense. They run through the
+ * OCR queue like uploads and wait in the inbox until they are confirmed as an
+ * expense. Ingestion runs without user session, so it uses the service role.
+ */
+
+import type { createClient } from '@/utils/supabase/service-client'
+import type { DocumentSource, ExpenseDocument } from '@/lib/types'
+import { OCR_FILE_TYPES } from '@/lib/constants'
+import { hashContent } from '@/lib/supabase/duplicates'
+
+type ServiceClient = Awaited<ReturnType<typeof createClient>>
+
+/** Largest document accepted by the inbox */
+export const MAX_INBOX_FILE_SIZE = 10 * 1024 * 1024
+
+const INBOX_BUCKET = 'expense-documents'
+
+export interface InboxFile {
+  name: string
+  type: string
+  content: Uint8Array
+}
+
+/**
+ * User of an ingest token, null if the token is unknown
+ */
+export async function findInboxUser(supabase: ServiceClient, token: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('receipt_inbox_tokens')
+    .select('user_id')
+    .eq('token', token.toLowerCase())
+    .maybeSingle()
+
+  if (error) {
+    console.error('[findInboxUser] Database error:', JSON.stringify(error, null, 2))
+    return null
+  }
+  return data?.user_id ?? null
+}
+
+/**
+ * Store a document in the inbox of a user
+ * The same file delivered twice (e.g. a retried e-mail) is stored once; the
+ * caller starts the OCR queue afterwards.
+ */
+export async function ingestInboxDocument(
+  supabase: ServiceClient,
+  userId: string,
+  file: InboxFile,
+  source: DocumentSource,
+  sourceDetail: string | null
+): Promise<{ data?: ExpenseDocument; error?: string }> {
+  if (!OCR_FILE_TYPES.includes(file.type)) {
+    return { error: `${file.name}: Dateityp nicht unterstützt. Erlaubt: JPG, PNG, WebP, PDF` }
+  }
+  if (file.content.length > MAX_INBOX_FILE_SIZE) {
+    return { error: `${file.name}: Datei ist zu groß (Maximum: 10MB)` }
+  }
+
+  const contentHash = hashContent(file.content)
+  const { data: existing } = await supabase
+    .from('expense_documents')
+    .select('*')
+    .eq('user_id', userId)
+    .is('expense_id', null)
+    .eq('content_hash', contentHash)
+    .limit(1)
+
+  if (existing && existing.length > 0) {
+    return { data: existing[0] as ExpenseDocument }
+  }
+
+  const fileName = file.name.replace(/[\\/]/g, '_') || 'beleg'
+  const filePath = `${userId}/inbox/${Date.now()}_${fileName}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(INBOX_BUCKET)
+    .upload(filePath, file.content, {
+      contentType: file.type,
+      upsert: false
+    })
+
+  if (uploadError) {
+    return { error: `Upload-Fehler: ${uploadError.message}` }
+  }
+
+  const { data, error } = await supabase
+    .from('expense_documents')
+    .insert({
+      user_id: userId,
+      expense_id: null,
+      file_name: fileName,
+      file_path: filePath,
+      file_size: file.content.length,
+      file_type: file.type,
+      storage_bucket: INBOX_BUCKET,
+      content_hash: contentHash,
+      source,
+      source_detail: sourceDetail
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[ingestInboxDocument] Database error:', JSON.stringify(error, null, 2))
+    await supabase.storage.from(INBOX_BUCKET).remove([filePath])
+    return { error: `Datenbankfehler: ${error.message}` }
+  }
+
+  return { data: data as ExpenseDocument }
+}
@@ -0,0 +1,276 @@
+/**
+ * Session Ledger Persistence
+ *
+ * Server-side helpers shared by the import and results actions to keep
+ * monthly_plans.actual_sessions in sync with the per-invoice session ledger.
+ */
+
+import type { createClient } from '@/utils/supabase/server'
+import type { PaymentStatus } from '@/lib/types'
+import { aggregateSessionLedger, ledgerKey } from '@/lib/utils/session-ledger'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+export interface InvoicePaymentUpdate {
+  invoice_number: string
+  payment_status: PaymentStatus
+  /** Amount paid for the whole invoice */
+  paid_amount: number
+  paid_date: string | null
+}
+
+/** Rows per request; PostgREST returns at most 1000 rows by default */
+const PAGE_SIZE = 1000
+
+/** Invoice numbers per request; the filter is part of the request URL */
+const INVOICE_CHUNK_SIZE = 100
+
+/**
+ * Read all rows of a query page by page
+ * The ledger has a row per session, so a year quickly exceeds the row limit of
+ * a single request. The query must be ordered by a unique column for stable pages.
+ *
+ * @param page Builds the query for the rows from..to (inclusive), e.g. with .range(from, to)
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<{ data: T[]; error: { message: string } | null }> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) {
+      return { data: rows, error }
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) {
+      return { data: rows, error: null }
+    }
+  }
+}
+
+/**
+ * Get first day of the month and first day of the following month for a YYYY-MM string
+ */
+export function getMonthRange(month: string): { start: string; end: string } {
+  const [year, monthNum] = month.slice(0, 7).split('-').map(Number)
+  const next = new Date(year, monthNum, 1)
+  return {
+    start: `${month.slice(0, 7)}-01`,
+    end: `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`
+  }
+}
+
+/**
+ * Actual and manual session counts for a count entered by hand
+ * The part of the count not covered by the ledger is kept as manual_sessions,
+ * so re-aggregating from the ledger preserves it; the ledger sessions are
+ * always included in the actual count.
+ *
+ * @param month YYYY-MM or YYYY-MM-DD
+ */
+export async function manualActualSessions(
+  supabase: SupabaseClient,
+  userId: string,
+  therapyTypeId: string,
+  month: string,
+  actualSessions: number | null | undefined
+): Promise<{ actual_sessions: number | null; manual_sessions: number | null; error?: string }> {
+  const { start, end } = getMonthRange(month)
+
+  const { count, error } = await supabase
+    .from('sessions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('therapy_type_id', therapyTypeId)
+    .gte('session_date', start)
+    .lt('session_date', end)
+
+  if (error) {
+    return { actual_sessions: actualSessions ?? null, manual_sessions: null, error: `Datenbankfehler: ${error.message}` }
+  }
+
+  const ledgerSessions = count ?? 0
+  if (actualSessions === null || actualSessions === undefined) {
+    return { actual_sessions: ledgerSessions > 0 ? ledgerSessions : null, manual_sessions: null }
+  }
+
+  const manualSessions = Math.max(actualSessions - ledgerSessions, 0)
+  return { actual_sessions: ledgerSessions + manualSessions, manual_sessions: manualSessions }
+}
+
+/**
+ * Re-aggregate monthly_plans.actual_sessions from the session ledger
+ * The actual count is the manually entered count plus the ledger sessions.
+ * Only month/therapy combinations that had ledger rows before or after the change
+ * are touched.
+ *
+ * @param months YYYY-MM strings to re-aggregate
+ * @param therapyTypeIds Therapy types whose counts may have changed (including ones now empty)
+ */
+export async function syncMonthlyActualsFromLedger(
+  supabase: SupabaseClient,
+  userId: string,
+  months: string[],
+  therapyTypeIds: string[] = []
+): Promise<{ errors: string[] }> {
+  const errors: string[] = []
+
+  for (const month of [...new Set(months.map(m => m.slice(0, 7)))]) {
+    const { start, end } = getMonthRange(month)
+
+    const { data: ledger, error: ledgerError } = await fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('therapy_type_id, session_date, gross_amount')
+        .eq('user_id', userId)
+        .gte('session_date', start)
+        .lt('session_date', end)
+        .order('id')
+        .range(from, to)
+    )
+
+    if (ledgerError) {
+      errors.push(`Datenbankfehler: ${ledgerError.message}`)
+      continue
+    }
+
+    const aggregates = aggregateSessionLedger(ledger)
+    const affectedTherapies = new Set<string>([
+      ...therapyTypeIds,
+      ...ledger.map(s => s.therapy_type_id)
+    ])
+
+    for (const therapyTypeId of affectedTherapies) {
+      const ledgerSessions = aggregates.get(ledgerKey(month, therapyTypeId))?.sessions ?? 0
+
+      const { data: existingPlan, error: planError } = await supabase
+        .from('monthly_plans')
+        .select('id, planned_sessions, manual_sessions')
+        .eq('user_id', userId)
+        .eq('therapy_type_id', therapyTypeId)
+        .eq('month', start)
+        .maybeSingle()
+
+      if (planError) {
+        errors.push(`Datenbankfehler: ${planError.message}`)
+        continue
+      }
+
+      if (existingPlan) {
+        const actual = (existingPlan.manual_sessions ?? 0) + ledgerSessions
+
+        if (actual === 0 && !existingPlan.planned_sessions) {
+          const { error: deleteError } = await supabase
+            .from('monthly_plans')
+            .delete()
+            .eq('id', existingPlan.id)
+
+          if (deleteError) {
+            errors.push(`Fehler beim Löschen: ${deleteError.message}`)
+          }
+          continue
+        }
+
+        const { error: updateError } = await supabase
+          .from('monthly_plans')
+          .update({ actual_sessions: actual })
+          .eq('id', existingPlan.id)
+
+        if (updateError) {
+          errors.push(`Fehler beim Aktualisieren: ${updateError.message}`)
+        }
+      } else if (ledgerSessions > 0) {
+        const { error: insertError } = await supabase
+          .from('monthly_plans')
+          .insert({
+            user_id: userId,
+            therapy_type_id: therapyTypeId,
+            month: start,
+            planned_sessions: 0,
+            actual_sessions: ledgerSessions
+          })
+
+        if (insertError) {
+          errors.push(`Fehler beim Erstellen: ${insertError.message}`)
+        }
+      }
+    }
+  }
+
+  return { errors }
+}
+
+/**
+ * Write the payment status of invoices to their ledger rows
+ * The paid amount is split across the rows of an invoice in proportion to their
+ * gross amount. Rows that are already paid are left untouched.
+ */
+export async function updateInvoicePayments(
+  supabase: SupabaseClient,
+  userId: string,
+  payments: InvoicePaymentUpdate[]
+): Promise<string[]> {
+  const errors: string[] = []
+  if (payments.length === 0) return errors
+
+  const rowsByInvoice = new Map<string, { id: string; gross_amount: number }[]>()
+  const invoiceNumbers = payments.map(p => p.invoice_number)
+  for (let i = 0; i < invoiceNumbers.length; i += INVOICE_CHUNK_SIZE) {
+    const chunk = invoiceNumbers.slice(i, i + INVOICE_CHUNK_SIZE)
+    const { data: rows, error: fetchError } = await fetchAllRows((from, to) =>
+      supabase
+        .from('sessions')
+        .select('id, invoice_number, gross_amount')
+        .eq('user_id', userId)
+        .neq('payment_status', 'bezahlt')
+        .in('invoice_number', chunk)
+        .order('id')
+        .range(from, to)
+    )
+
+    if (fetchError) {
+      return [`Datenbankfehler: ${fetchError.message}`]
+    }
+
+    for (const row of rows) {
+      const invoiceRows = rowsByInvoice.get(row.invoice_number) ?? []
+      invoiceRows.push({ id: row.id, gross_amount: Number(row.gross_amount) })
+      rowsByInvoice.set(row.invoice_number, invoiceRows)
+    }
+  }
+
+  for (const payment of payments) {
+    const invoiceRows = rowsByInvoice.get(payment.invoice_number) ?? []
+    const invoiceGross = invoiceRows.reduce((sum, r) => sum + r.gross_amount, 0)
+
+    // Rows with the same paid amount share one update
+    const idsByPaidAmount = new Map<number, string[]>()
+    for (const row of invoiceRows) {
+      const paidAmount = payment.payment_status === 'bezahlt'
+        ? row.gross_amount
+        : invoiceGross > 0 ? Math.round(payment.paid_amount * (row.gross_amount / invoiceGross) * 100) / 100 : 0
+      idsByPaidAmount.set(paidAmount, [...(idsByPaidAmount.get(paidAmount) ?? []), row.id])
+    }
+
+    for (const [paidAmount, ids] of idsByPaidAmount) {
+      const { error: updateError } = await supabase
+        .from('sessions')
+        .update({
+          payment_status: payment.payment_status,
+          paid_amount: paidAmount,
+          paid_date: paidAmount > 0 ? payment.paid_date : null,
+          updated_at: new Date().toISOString()
+        })
+        .in('id', ids)
+        .eq('user_id', userId)
+
+      if (updateError) {
+        errors.push(`Zahlung zu Rechnung ${payment.invoice_number} nicht aktualisiert: ${updateError.message}`)
+      }
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,96 @@
+/**
+ * Therapy Price Persistence
+ *
+ * Server-side helpers for loading effective-dated therapy prices.
+ */
+
+import type { createClient } from '@/utils/supabase/server'
+import type { TherapyPrice } from '@/lib/types'
+import { getPriceForMonth, groupPriceRecords } from '@/lib/calculations/core/price-schedule'
+import type { PriceSchedule } from '@/lib/calculations/types'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Load price records for a user, grouped by therapy type (oldest first)
+ */
+export async function fetchTherapyPrices(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Map<string, TherapyPrice[]>> {
+  const { data, error } = await supabase
+    .from('therapy_prices')
+    .select('*')
+    .eq('user_id', userId)
+    .order('valid_from', { ascending: true })
+
+  if (error) {
+    console.error('[fetchTherapyPrices] Error fetching therapy prices:', error)
+    return new Map()
+  }
+
+  return groupPriceRecords((data || []) as TherapyPrice[])
+}
+
+/**
+ * Build a price schedule for a therapy type from its base price and loaded records
+ */
+export function getPriceSchedule(
+  prices: Map<string, TherapyPrice[]>,
+  therapy: { id: string; price_per_session: number }
+): PriceSchedule {
+  return { basePrice: therapy.price_per_session, records: prices.get(therapy.id) ?? [] }
+}
+
+/**
+ * First day of the current month (YYYY-MM-01)
+ */
+export function getCurrentMonthStart(): string {
+  const today = new Date()
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-01`
+}
+
+/**
+ * Record a price change that takes effect in the current month
+ * Seeds the previous price first if the therapy type has no price records yet,
+ * so months before the change keep their original price
+ */
+export async function recordCurrentPrice(
+  supabase: SupabaseClient,
+  userId: string,
+  therapy: { id: string; price_per_session: number; created_at: string },
+  newPrice: number
+): Promise<{ error?: string }> {
+  const { data: records, error: fetchError } = await supabase
+    .from('therapy_prices')
+    .select('price, valid_from')
+    .eq('therapy_type_id', therapy.id)
+    .eq('user_id', userId)
+
+  if (fetchError) {
+    return { error: fetchError.message }
+  }
+
+  const currentMonth = getCurrentMonthStart()
+  const schedule: PriceSchedule = {
+    basePrice: therapy.price_per_session,
+    records: (records || []).map(r => ({ price: Number(r.price), valid_from: r.valid_from }))
+  }
+
+  if (getPriceForMonth(schedule, currentMonth) === newPrice) {
+    return {}
+  }
+
+  const rows = []
+  const createdMonth = `${therapy.created_at.slice(0, 7)}-01`
+  if (schedule.records.length === 0 && createdMonth < currentMonth) {
+    rows.push({ user_id: userId, therapy_type_id: therapy.id, price: therapy.price_per_session, valid_from: createdMonth })
+  }
+  rows.push({ user_id: userId, therapy_type_id: therapy.id, price: newPrice, valid_from: currentMonth })
+
+  const { error } = await supabase
+    .from('therapy_prices')
+    .upsert(rows, { onConflict: 'therapy_type_id,valid_from' })
+
+  return error ? { error: error.message } : {}
+}
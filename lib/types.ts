@@ -3,6 +3,8 @@ export type TherapyType = {
   user_id: string
   name: string
   price_per_session: number
+  payer_type: PayerType
+  vat_rate: VatRate // 0 = VAT-exempt (§ 6 Abs. 1 Z 19 UStG)
   created_at: string
   updated_at: string
 }
@@ -26,12 +28,168 @@ export type MonthlyPlan = {
   therapy_type_id: string
   month: string // YYYY-MM-DD format (first day of month)
   planned_sessions: number
-  actual_sessions: number | null
+  actual_sessions: number | null // manual_sessions plus the sessions in the ledger
+  manual_sessions?: number | null // entered by hand, not covered by the ledger
   notes: string | null
   created_at: string
   updated_at: string
 }
 
+/**
+ * Payment method of a treated session (Latido "Zahlungsart")
+ */
+export type PaymentMethod = 'bar' | 'bankomat' | 'kreditkarte' | 'ueberweisung' | 'sonstige'
+
+/**
+ * Who pays for a session: a health insurance fund (ÖGK, BVAEB, SVS),
+ * a Wahlarzt patient (private invoice, partly refunded) or a self-paying patient
+ */
+export type PayerType = 'oegk' | 'bvaeb' | 'svs' | 'wahlarzt' | 'selbstzahler'
+
+/**
+ * Revenue per payer type (EUR)
+ */
+export type PayerRevenue = Record<PayerType, number>
+
+/**
+ * Health insurance funds with a Kassentarif catalogue
+ */
+export type Insurer = Extract<PayerType, 'oegk' | 'bvaeb' | 'svs'>
+
+/**
+ * Payment status of an invoice (Latido "Zahlungsstatus")
+ */
+export type PaymentStatus = 'bezahlt' | 'teilbezahlt' | 'offen'
+
+/**
+ * Dunning level of an open invoice
+ * 0 = none, 1 = Zahlungserinnerung, 2 = 1. Mahnung, 3 = 2. Mahnung
+ */
+export type DunningLevel = 0 | 1 | 2 | 3
+
+/**
+ * How an imported session was assigned to its therapy type: a match method
+ * of the Latido import, the review queue or the therapy name in the file
+ */
+export type SessionMatchMethod = 'rule' | 'text' | 'price' | 'history' | 'tolerance' | 'combined' | 'review' | 'name'
+
+/**
+ * Revenue recognition: invoice date (Soll, accrual) or payment date
+ * (Ist, cash basis / Zuflussprinzip as used by the E/A-Rechnung)
+ */
+export type RevenueBasis = 'accrual' | 'cash'
+
+/**
+ * Austrian VAT rates in percent; 0 = exempt (medical services: § 6 Abs. 1 Z 19 UStG)
+ */
+export type VatRate = 0 | 10 | 13 | 20
+
+/**
+ * Which revenue an expense serves: taxable, VAT-exempt or both.
+ * Input tax is deductible in full, not at all or at the taxable share
+ */
+export type VatAllocation = 'taxable' | 'exempt' | 'mixed'
+
+/**
+ * Net amount, VAT and gross amount of one VAT rate of an invoice
+ */
+export type VatBreakdownLine = {
+  rate: VatRate
+  net: number
+  vat: number
+  gross: number
+}
+
+/**
+ * Period of the Umsatzsteuervoranmeldung (UVA)
+ */
+export type VatReturnPeriod = 'monthly' | 'quarterly'
+
+/**
+ * One treated session in the session ledger (one row per invoice)
+ * monthly_plans.actual_sessions is aggregated from these rows
+ */
+export type TherapySession = {
+  id: string
+  user_id: string
+  therapy_type_id: string
+  session_date: string // YYYY-MM-DD
+  gross_amount: number
+  payment_method: PaymentMethod | null
+  invoice_number: string | null
+  patient_type: 'kasse' | 'privat' | null
+  payer_type: PayerType | null
+  payment_status: PaymentStatus
+  paid_amount: number
+  paid_date: string | null // YYYY-MM-DD
+  dunning_level: DunningLevel
+  last_dunning_date: string | null // YYYY-MM-DD
+  source: 'latido' | 'manual'
+  match_method: SessionMatchMethod | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Effective-dated price of a therapy type
+ * Valid from the first day of valid_from's month until the next record
+ */
+export type TherapyPrice = {
+  id: string
+  user_id: string
+  therapy_type_id: string
+  price: number
+  valid_from: string // YYYY-MM-DD
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Kassentarif of a therapy type for one insurer
+ * Wahlarzt patients are refunded reimbursement_rate % of the tariff
+ */
+export type Kassentarif = {
+  id: string
+  user_id: string
+  therapy_type_id: string
+  insurer: Insurer
+  tariff: number // EUR per session
+  reimbursement_rate: number // e.g. 80 for 80%
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Fee profile of a payment method
+ * planned_share is used as revenue split when no Latido payment methods are available
+ */
+export type PaymentFeeProfile = {
+  id: string
+  user_id: string
+  payment_method: PaymentMethod
+  percentage_fee: number // e.g. 1.39 for 1.39%
+  fixed_fee: number // EUR per transaction
+  monthly_fee: number // EUR per month (e.g. terminal rental)
+  planned_share: number // planned share of revenue in %
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * User-confirmed rule mapping Latido invoices to a therapy type
+ * Matches on the normalized "Leistung" text, the invoice amount, or both
+ */
+export type LatidoMappingRule = {
+  id: string
+  user_id: string
+  therapy_type_id: string
+  match_text: string | null
+  match_amount: number | null
+  created_at: string
+  updated_at: string
+}
+
 export type Expense = {
   id: string
   user_id: string
@@ -43,6 +201,10 @@ export type Expense = {
   recurrence_interval: 'monthly' | 'quarterly' | 'yearly' | null
   description: string | null
   spread_monthly: boolean // annual bill distributed as monthly fixed costs (/12)
+  vat_rate: VatRate // VAT contained in the amount (Vorsteuer)
+  vat_allocation: VatAllocation // revenue the expense serves, decides the input-tax deduction
+  vat_breakdown?: VatBreakdownLine[] | null // per-rate VAT of invoices with several rates, overrides vat_rate
+  invoice_number?: string | null // vendor's invoice number, used for duplicate detection
   created_at: string
   updated_at: string
 }
@@ -57,6 +219,11 @@ export type PracticeSettings = {
   expected_growth_rate: number // as percentage (e.g., 5 for 5%)
   payment_processing_fee_percentage: number // SumUp payment fee percentage (default 1.39)
   annual_revenue_goal: number | null // optional yearly net revenue target
+  opening_bank_balance?: number // current bank balance, start of the cash-flow forecast
+  minimum_bank_balance?: number // liquidity warning threshold
+  receivable_collection_days?: number // average days until invoices are paid
+  vat_kleinunternehmer?: boolean // Kleinunternehmerregelung (§ 6 Abs. 1 Z 27 UStG)
+  vat_return_period?: VatReturnPeriod // UVA period
   created_at: string
   updated_at: string
 }
@@ -89,17 +256,229 @@ export type AustrianExpenseCategory = {
   subcategories: string[]
 }
 
+/**
+ * State of the text extraction of an uploaded document
+ */
+export type DocumentOcrStatus = 'pending' | 'processing' | 'done' | 'failed'
+
+/**
+ * How a document entered the system
+ */
+export type DocumentSource = 'upload' | 'email' | 'folder'
+
 export type ExpenseDocument = {
   id: string
   user_id: string
-  expense_id: string
+  expense_id: string | null // null while the document waits in the receipt inbox
   file_name: string
   file_path: string
   file_size: number
   file_type: string
   storage_bucket: string
   extracted_text: string | null
+  ocr_status: DocumentOcrStatus // server-side text extraction, see lib/supabase/document-ocr.ts
+  ocr_error: string | null
+  content_hash?: string | null // SHA-256 of the file
+  text_hash?: string | null // SHA-256 of the normalised extracted text
+  source?: DocumentSource
+  source_detail?: string | null // sender and subject, or the path in the watched folder
+  retention_until?: string | null // end of the BAO §132 retention, null while in the receipt inbox
   upload_date: string
   created_at: string
   updated_at: string
 }
+
+/**
+ * Archived file of a document; a new version is recorded whenever the
+ * document's file is replaced, older versions stay stored unaltered
+ */
+export type ExpenseDocumentVersion = {
+  id: string
+  user_id: string
+  document_id: string
+  version: number
+  file_name: string
+  file_path: string
+  file_size: number
+  file_type: string
+  content_hash: string | null
+  created_at: string
+}
+
+/**
+ * Logged document events; upload, version, assign and delete are recorded by
+ * the database, views, exports and refused deletions by the server actions
+ */
+export type DocumentAuditAction =
+  | 'upload'
+  | 'version'
+  | 'assign'
+  | 'view'
+  | 'export'
+  | 'delete'
+  | 'delete_refused'
+
+export type DocumentAuditEntry = {
+  id: string
+  user_id: string
+  document_id: string | null
+  action: DocumentAuditAction
+  details: Record<string, unknown> | null
+  created_at: string
+}
+
+/**
+ * Document waiting in the receipt inbox, with the expense that already has
+ * the same receipt attached, if any
+ */
+export type InboxDocument = ExpenseDocument & {
+  duplicate_of: Pick<Expense, 'id' | 'expense_date' | 'amount' | 'description'> | null
+}
+
+/**
+ * Why two expenses look like the same receipt
+ */
+export type DuplicateReason = 'file' | 'text' | 'invoice_number' | 'vendor_amount_date'
+
+export type DuplicateExpenseSummary = Pick<
+  Expense,
+  'id' | 'category' | 'amount' | 'expense_date' | 'description' | 'vat_rate'
+> & {
+  invoice_number: string | null
+  documents: Array<Pick<ExpenseDocument, 'id' | 'file_name'>>
+}
+
+/**
+ * Probable duplicate pair, the older expense first
+ */
+export type ExpenseDuplicate = {
+  expense: DuplicateExpenseSummary
+  duplicate: DuplicateExpenseSummary
+  reasons: DuplicateReason[]
+}
+
+/**
+ * Bank statement formats supported by the bank import
+ */
+export type BankStatementFormat = 'camt053' | 'mt940' | 'csv'
+
+/**
+ * Matching status of an imported bank line
+ * offen = no expense / invoice linked yet
+ */
+export type BankTransactionStatus = 'offen' | 'zugeordnet' | 'ignoriert'
+
+export type BankTransaction = {
+  id: string
+  user_id: string
+  booking_date: string
+  value_date: string | null
+  amount: number // negative = outgoing
+  currency: string
+  counterparty_name: string | null
+  counterparty_iban: string | null
+  reference: string | null
+  source_format: BankStatementFormat
+  fingerprint: string
+  expense_id: string | null
+  invoice_number: string | null
+  status: BankTransactionStatus
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * User-editable rule suggesting category, subcategory and recurrence of an expense
+ * All set criteria must match (vendor, keyword in the description, amount range)
+ */
+export type ExpenseCategoryRule = {
+  id: string
+  user_id: string
+  vendor_contains: string | null
+  keyword: string | null
+  amount_min: number | null
+  amount_max: number | null
+  category: string
+  subcategory: string | null
+  recurrence_interval: 'monthly' | 'quarterly' | 'yearly' | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Asset in the register (Anlageverzeichnis), depreciated straight-line (AfA)
+ * A linked purchase expense is replaced by the depreciation in expense totals
+ */
+export type Asset = {
+  id: string
+  user_id: string
+  expense_id: string | null
+  name: string
+  subcategory: string // AfA subcategory, e.g. 'Geräte (AfA)'
+  acquisition_date: string // YYYY-MM-DD, start of use
+  acquisition_cost: number // net EUR
+  useful_life_years: number
+  disposal_date: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Investment covering the investment-based Gewinnfreibetrag of its year
+ */
+export type QualifyingInvestment = {
+  id: string
+  user_id: string
+  description: string
+  kind: 'asset' | 'securities'
+  investment_date: string // YYYY-MM-DD, decides the tax year
+  amount: number
+  created_at: string
+}
+
+/**
+ * SVS history of one contribution year, used for the Nachbemessung projection
+ */
+export type SvsAssessment = {
+  id: string
+  user_id: string
+  year: number
+  profit: number | null // Einkünfte aus selbständiger Arbeit
+  profit_assessed: boolean // from the final income-tax assessment
+  provisional_monthly_base: number | null // vorläufige Beitragsgrundlage per month
+  settled: boolean // Nachbemessung already charged
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Income-tax prepayment (Vorauszahlung) of one quarter
+ */
+export type TaxPrepayment = {
+  id: string
+  user_id: string
+  year: number
+  quarter: number // 1-4
+  assessed_amount: number // set by the Finanzamt
+  paid_amount: number
+  paid_on: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Lohnzettel (L16) of one employment in a year
+ */
+export type Lohnzettel = {
+  id: string
+  user_id: string
+  year: number
+  employer_name: string
+  gross_pay: number // KZ 210, including tax-free and special payments
+  tax_free_pay: number // KZ 215
+  special_payments: number // KZ 220, 13th/14th salary
+  social_security: number // KZ 230, on the running pay
+  wage_tax_withheld: number // KZ 260
+  created_at: string
+  updated_at: string
+}
@@ -4,6 +4,8 @@
  * like LATIDO, CGM, Medatixx, etc.
  */
 
+import type { PaymentMethod, PaymentStatus } from '@/lib/types'
+
 export interface SessionImportRow {
   date: string // ISO date format YYYY-MM-DD
   therapy_type: string // Name of therapy type (e.g., "Psychotherapie", "Gruppentherapie")
@@ -12,6 +14,22 @@ export interface SessionImportRow {
   patient_type?: 'kasse' | 'privat' // Optional: patient type
   notes?: string // Optional: additional notes
   invoice_number?: string // Latido: Rechnungsnummer for duplicate detection
+  gross_amount?: number // Latido: Gesamtbetrag (Brutto), stored in the session ledger
+  payment_method?: PaymentMethod // Latido: Zahlungsart
+  payment_status?: PaymentStatus // Latido: Zahlungsstatus
+  paid_amount?: number // Latido: amount paid so far (whole invoice)
+  paid_date?: string // Latido: payment date, ISO YYYY-MM-DD
+  service_text?: string // Latido: Leistung / Position text used for therapy matching
+  therapy_type_id?: string // Explicit therapy type assignment (review queue)
+}
+
+/**
+ * Latido invoice that could not be matched to a therapy type automatically
+ */
+export interface LatidoReviewItem {
+  session: SessionImportRow
+  amount: number
+  candidates: Array<{ therapy_type_id: string; name: string; reason: string }>
 }
 
 export interface RevenueImportRow {
@@ -42,6 +42,16 @@ export interface SelfEmploymentIncome {
   expenseBreakdown?: Record<string, number>
   /** Practice type for medical professionals */
   practiceType?: 'kassenarzt' | 'wahlarzt' | 'mixed'
+  /** VAT payable for the year (output VAT on taxable revenue less input VAT, see estimateVatPayable); none if omitted */
+  vatPayable?: number
+  /** Use the Basispauschalierung (flat-rate expenses on revenue) instead of actual expenses */
+  basisPauschalierung?: boolean
+  /** Use the Kleinunternehmerpauschalierung instead of actual expenses (takes precedence over basisPauschalierung) */
+  kleinunternehmerPauschalierung?: boolean
+  /** Part of the business expenses still deductible on top of the Basispauschalierung (Löhne, Wareneinkauf, Fremdlöhne) */
+  pauschalAdditionalExpenses?: number
+  /** Qualifying investments of the tax year (assets or securities) covering the investment-based Gewinnfreibetrag */
+  qualifyingInvestments?: number
 }
 
 /**
@@ -103,6 +113,8 @@ export interface SocialSecurityBreakdown {
   unemployment?: number
   /** Accident insurance */
   accident: number
+  /** Selbständigenvorsorge (self-employed only) */
+  provision?: number
   /** Special payments component */
   specialPayments?: number
   /** Assessment base used for calculation */
@@ -121,7 +133,26 @@ export interface SocialSecurityDetails {
  * Tax breakdown by bracket
  */
 export interface TaxBracketBreakdown {
-  [bracket: string]: number // e.g. "€0 - €12,816 (0%)" => 0.00
+  [bracket: string]: number // e.g. "€0 - €13.308 (0%)" => 0.00
+}
+
+/**
+ * Gewinnfreibetrag split into the automatic Grundfreibetrag and the
+ * investment-based part, which is only granted up to the qualifying investments
+ */
+export interface GewinnfreibetragBreakdown {
+  /** Grundfreibetrag on the profit up to the limit, granted without investments */
+  grundfreibetrag: number
+  /** Investment-based Gewinnfreibetrag the profit would allow (tiered rates above the limit) */
+  investmentBasedMax: number
+  /** Investment-based Gewinnfreibetrag covered by qualifying investments */
+  investmentBased: number
+  /** Qualifying investments taken into account */
+  qualifyingInvestments: number
+  /** Further investments needed to use the full investment-based Gewinnfreibetrag */
+  missingInvestment: number
+  /** Total Gewinnfreibetrag */
+  total: number
 }
 
 /**
@@ -166,8 +197,12 @@ export interface ComprehensiveTaxResult {
   taxableSelfEmployment: number
   /** Total taxable income before tax deductions */
   totalTaxableIncome: number
-  /** Gewinnfreibetrag (15% profit allowance) */
+  /** Gewinnfreibetrag (Grundfreibetrag plus covered investment-based part) */
   gewinnfreibetrag: number
+  /** Gewinnfreibetrag breakdown for year-end investment planning */
+  gewinnfreibetragBreakdown: GewinnfreibetragBreakdown
+  /** Flat-rate expenses used instead of actual expenses (Basispauschalierung), 0 if not applied */
+  pauschalExpenses: number
   /** Applied tax deductions */
   appliedDeductions: number
   /** Applied tax credits */
@@ -188,7 +223,7 @@ export interface ComprehensiveTaxResult {
   taxBreakdownByBracket: TaxBracketBreakdown
 
   // ======== OTHER TAXES ========
-  /** VAT on private patients (medical practices) */
+  /** VAT payable to the Finanzamt */
   vat?: number
   /** Medical chamber contributions (Ärztekammer) */
   aerztekammerBeitrag?: number
@@ -230,6 +265,102 @@ export interface TaxScenario {
   updatedAt: Date
 }
 
+/**
+ * Scenario change from a year on, e.g. going from part-time to full-time
+ * Percentages relative to the baseline projection of each year
+ */
+export interface ProjectionAdjustment {
+  fromYear: number
+  /** Revenue change in percent */
+  revenueChange: number
+  /** Expense change in percent */
+  expenseChange: number
+}
+
+/**
+ * Input of the multi-year tax projection
+ */
+export interface TaxProjectionInput {
+  scenarioName: string
+  startYear: number
+  /** Number of projected years (3-5) */
+  years: number
+  /** Revenue of the start year */
+  baseRevenue: number
+  /** Business expenses of the start year */
+  baseExpenses: number
+  /** Planned revenue per year; replaces the grown revenue for years with plans */
+  plannedRevenue?: Record<number, number>
+  practiceType?: 'kassenarzt' | 'wahlarzt' | 'mixed'
+  assumptions: TaxProjectionAssumptions
+  adjustments?: ProjectionAdjustment[]
+}
+
+/**
+ * One year of the multi-year tax projection
+ */
+export interface TaxProjectionYear {
+  year: number
+  revenue: number
+  expenses: number
+  profit: number
+  incomeTax: number
+  svs: number
+  aerztekammer: number
+  /** Profit after income tax, SVS and Ärztekammer */
+  netIncome: number
+  /** Revenue taken from the yearly plan instead of the growth rate */
+  fromPlan: boolean
+  /** Brackets and SVS limits estimated from the assumptions (year not yet configured) */
+  estimatedConfig: boolean
+}
+
+/**
+ * Multi-year tax projection of one scenario
+ */
+export interface TaxProjection {
+  scenarioName: string
+  years: TaxProjectionYear[]
+  totalNetIncome: number
+}
+
+/**
+ * How business expenses are determined: actual expenses (E/A-Rechnung)
+ * or one of the Pauschalierung variants
+ */
+export type ExpenseMethod = 'actual' | 'basis' | 'kleinunternehmer'
+
+/**
+ * Tax result of one expense method for the Pauschalierung comparison
+ */
+export interface ExpenseMethodOption {
+  method: ExpenseMethod
+  label: string
+  /** Revenue within the limit of the Pauschalierung (always true for actual expenses) */
+  eligible: boolean
+  /** Revenue limit of the Pauschalierung */
+  revenueLimit?: number
+  /** Flat-rate expenses, 0 for actual expenses */
+  flatRateExpenses: number
+  /** Actual expenses deducted on top of the flat rate */
+  additionalExpenses: number
+  /** Business expenses deducted in total */
+  deductibleExpenses: number
+  /** Tax result with this method, null if not eligible */
+  result: ComprehensiveTaxResult | null
+}
+
+/**
+ * Actual expenses compared with the applicable Pauschalierung variants
+ */
+export interface PauschalierungComparison {
+  options: ExpenseMethodOption[]
+  /** Eligible method with the lowest taxes and contributions */
+  recommended: ExpenseMethod
+  /** Taxes and contributions saved by the recommended method compared to actual expenses */
+  savings: number
+}
+
 /**
  * Tax report metadata
  */
@@ -316,12 +447,21 @@ export interface TaxBracket {
 }
 
 /**
- * Social security configuration
+ * Tier of the investment-based Gewinnfreibetrag
+ * The rate applies to the profit between the previous tier (or the
+ * Grundfreibetrag limit) and upperLimit
+ */
+export interface GewinnfreibetragTier {
+  upperLimit: number
+  rate: number
+}
+
+/**
+ * Social security configuration (employees, ASVG)
  */
 export interface SocialSecurityConfig {
   employeeRateRegular: number
   employeeRateSpecial: number
-  selfEmployedRate: number
   minAssessmentBase: number
   maxAssessmentBase: number
   componentRates: {
@@ -332,6 +472,36 @@ export interface SocialSecurityConfig {
   }
 }
 
+/**
+ * Self-employed social security configuration (SVS, GSVG)
+ * Bases are monthly, as published by the SVS
+ */
+export interface SelfEmployedSocialSecurityConfig {
+  pensionRate: number
+  healthRate: number
+  /** Selbständigenvorsorge */
+  provisionRate: number
+  /** Fixed Unfallversicherung per month */
+  accidentMonthly: number
+  /** Mindestbeitragsgrundlage per month */
+  minMonthlyBase: number
+  /** Höchstbeitragsgrundlage per month */
+  maxMonthlyBase: number
+}
+
+/**
+ * Assumptions for years without a TaxYearConfig and for the projection
+ * Rates in percent per year
+ */
+export interface TaxProjectionAssumptions {
+  /** Revenue growth for years without a plan */
+  growthRate: number
+  /** Inflation: indexes expenses, tax brackets and Absetzbeträge */
+  inflationRate: number
+  /** Increase of the SVS Mindest- and Höchstbeitragsgrundlage (Aufwertungszahl) */
+  svsCapGrowthRate: number
+}
+
 /**
  * Tax year configuration
  */
@@ -339,6 +509,32 @@ export interface TaxYearConfig {
   year: number
   taxBrackets: TaxBracket[]
   socialSecurity: SocialSecurityConfig
+  selfEmployedSocialSecurity: SelfEmployedSocialSecurityConfig
+  /** Ärztekammer contributions (simplified: base fee plus share of profit) */
+  aerztekammer: {
+    baseFee: number
+    incomeRate: number
+  }
+  /** Basispauschalierung (§17 EStG) */
+  pauschalierung: {
+    rate: number
+    revenueLimit: number
+  }
+  /** Kleinunternehmerpauschalierung (§17 Abs 3a EStG), only SVS deductible on top */
+  kleinunternehmerPauschalierung: {
+    rate: number
+    revenueLimit: number
+  }
+  vat: {
+    standardRate: number
+    kleinunternehmerLimit: number
+    /** Share above the limit that keeps the exemption for the running year */
+    kleinunternehmerTolerance: number
+    /** Limit applies to gross turnover (from 2025), otherwise to net turnover */
+    kleinunternehmerGrossLimit: boolean
+    /** Previous-year turnover above which the UVA is due monthly instead of quarterly */
+    uvaMonthlyThreshold: number
+  }
   taxCredits: {
     verkehrsabsetzbetrag: number
     alleinverdienerSingle: number
@@ -350,8 +546,12 @@ export interface TaxYearConfig {
     pensionContributionMax: number
     gewinnfreibetragRate: number
     gewinnfreibetragLimit: number
+    /** Investment-based Gewinnfreibetrag above gewinnfreibetragLimit */
+    gewinnfreibetragInvestmentTiers: GewinnfreibetragTier[]
     homeofficeDaily: number
     homeofficeMonthlyMax: number
+    /** Acquisition cost up to which assets are written off immediately (GWG) */
+    gwgLimit: number
   }
   specialPayments: {
     taxFreeLimit: number
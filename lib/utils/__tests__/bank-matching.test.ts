@@ -0,0 +1,122 @@
+/**
+ * Bank Matching Test Suite
+ *
+ * Tests for matching bank lines: payee keys and category proposals, links to
+ * existing expenses (including recurring ones) and invoice numbers in transfers.
+ */
+
+import {
+  findInvoiceNumbers,
+  findMatchingExpense,
+  getPayeeKey,
+  proposeBankMatches,
+  type MatchableExpense,
+} from '../bank-matching'
+import type { ParsedBankTransaction } from '../bank-statement'
+
+function transaction(overrides: Partial<ParsedBankTransaction>): ParsedBankTransaction {
+  return {
+    booking_date: '2025-03-03',
+    value_date: null,
+    amount: -100,
+    currency: 'EUR',
+    counterparty_name: null,
+    counterparty_iban: null,
+    reference: null,
+    fingerprint: 'f1',
+    ...overrides,
+  }
+}
+
+function expense(overrides: Partial<MatchableExpense>): MatchableExpense {
+  return {
+    id: 'e1',
+    amount: 100,
+    expense_date: '2025-03-01',
+    is_recurring: false,
+    recurrence_interval: null,
+    has_receipt: false,
+    ...overrides,
+  }
+}
+
+describe('Bank Matching', () => {
+  describe('Categories', () => {
+    it('should normalize payee names into rule keys', () => {
+      expect(getPayeeKey({ counterparty_name: 'Hausverwaltung Gruber & Co.', reference: null })).toBe('hausverwaltung gruber co')
+      expect(getPayeeKey({ counterparty_name: null, reference: 'Ärztekammer Wien' })).toBe('aerztekammer wien')
+    })
+
+    it('should propose categories for unmatched payments from vendor rules and keywords', () => {
+      const rule = {
+        id: 'r1',
+        vendor_contains: 'a1 telekom austria',
+        keyword: null,
+        amount_min: null,
+        amount_max: null,
+        category: 'IT & Digital',
+        subcategory: 'Telefon & Internet',
+        recurrence_interval: 'monthly' as const,
+      }
+      const [telekom, fees] = proposeBankMatches(
+        [
+          transaction({ fingerprint: 'a', counterparty_name: 'A1 Telekom Austria AG', amount: -45.9 }),
+          transaction({ fingerprint: 'b', reference: 'Kontoführung 03/2025', amount: -12.9 }),
+        ],
+        { categorization: { rules: [rule], history: [] }, expenses: [], invoiceNumbers: [] }
+      )
+
+      expect(telekom.suggestion).toMatchObject({ category: 'IT & Digital', recurrence_interval: 'monthly', source: 'rule' })
+      expect(fees.suggestion).toMatchObject({ subcategory: 'Bankgebühren', source: 'keyword' })
+    })
+  })
+
+  describe('Invoice numbers', () => {
+    it('should find known invoice numbers as whole tokens', () => {
+      const invoices = ['RE-2025-017', 'RE-2025-01', '17']
+      expect(findInvoiceNumbers('Zahlung re-2025-017 Huber', invoices)).toEqual(['RE-2025-017'])
+      expect(findInvoiceNumbers('Rechnung RE-2025-0170', invoices)).toEqual([])
+      expect(findInvoiceNumbers(null, invoices)).toEqual([])
+    })
+  })
+
+  describe('Expenses', () => {
+    it('should match the same amount within a week of the expense date', () => {
+      const expenses = [expense({ id: 'far', expense_date: '2025-02-01' }), expense({ id: 'near' })]
+      expect(findMatchingExpense(transaction({}), expenses)?.id).toBe('near')
+      expect(findMatchingExpense(transaction({ amount: -99 }), expenses)).toBeNull()
+      expect(findMatchingExpense(transaction({ amount: 100 }), expenses)).toBeNull()
+    })
+
+    it('should match recurring expenses on later due dates', () => {
+      const monthly = expense({ expense_date: '2025-01-31', is_recurring: true, recurrence_interval: 'monthly' })
+      const quarterly = expense({ expense_date: '2025-01-15', is_recurring: true, recurrence_interval: 'quarterly' })
+
+      expect(findMatchingExpense(transaction({ booking_date: '2025-03-02' }), [monthly])).not.toBeNull()
+      expect(findMatchingExpense(transaction({ booking_date: '2025-04-14' }), [quarterly])).not.toBeNull()
+      expect(findMatchingExpense(transaction({ booking_date: '2025-03-15' }), [quarterly])).toBeNull()
+    })
+  })
+
+  describe('Proposals', () => {
+    it('should flag lines without expense, receipt or invoice', () => {
+      const proposals = proposeBankMatches(
+        [
+          transaction({ fingerprint: 'a' }),
+          transaction({ fingerprint: 'b' }),
+          transaction({ fingerprint: 'c', amount: 90, reference: 'RE-2025-017' }),
+          transaction({ fingerprint: 'd', amount: 50, reference: 'Gutschrift' }),
+        ],
+        {
+          categorization: { rules: [], history: [] },
+          expenses: [expense({ has_receipt: false })],
+          invoiceNumbers: ['RE-2025-017'],
+        }
+      )
+
+      expect(proposals.map(p => p.flag)).toEqual(['missing_receipt', 'missing_expense', 'ok', 'unmatched_income'])
+      expect(proposals[0].expense_id).toBe('e1')
+      expect(proposals[2].invoice_numbers).toEqual(['RE-2025-017'])
+    })
+  })
+})
@@ -0,0 +1,212 @@
+/**
+ * Bank Statement Test Suite
+ *
+ * Tests for the bank statement importer: format detection, CAMT.053,
+ * MT940 and CSV parsing, Austrian amount/date formats and fingerprints.
+ */
+
+import {
+  detectBankStatementFormat,
+  parseBankAmount,
+  parseBankDate,
+  parseBankStatement,
+} from '../bank-statement'
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <Amt Ccy="EUR">1200.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-03</Dt></BookgDt>
+        <ValDt><Dt>2025-03-04</Dt></ValDt>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Dbtr><Nm>Dr. Muster</Nm></Dbtr>
+            <Cdtr><Nm>Hausverwaltung Gruber &amp; Co</Nm></Cdtr>
+            <CdtrAcct><Id><IBAN>AT61 1904 3002 3457 3201</IBAN></Id></CdtrAcct>
+          </RltdPties>
+          <RmtInf><Ustrd>Miete Ordination</Ustrd><Ustrd>März 2025</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">90.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-05</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>Maria Huber</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Rechnung RE-2025-017</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-03-06</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+const MT940 = [
+  ':20:STARTUMS',
+  ':25:AT611904300234573201',
+  ':28C:00001/001',
+  ':60F:C250301EUR5000,00',
+  ':61:2503030303DR45,90NMSCNONREF',
+  ':86:177?00SEPA-Lastschrift?20SVWZ+A1 Rechnung 03/2025?32A1 Telekom Austria?33 AG?31AT483200000012345864',
+  ':61:2503050305CR180,00NTRFNONREF',
+  ':86:Gutschrift RE-2025-018 Honorar IBAN: AT02 2011 1000 0000 1234',
+  ':62F:C250305EUR5134,10',
+  '-',
+].join('\r\n')
+
+describe('Bank Statement', () => {
+  describe('Formats', () => {
+    it('should parse Austrian and English amounts', () => {
+      expect(parseBankAmount('1.234,56')).toBe(1234.56)
+      expect(parseBankAmount('-12,50')).toBe(-12.5)
+      expect(parseBankAmount('12,50-')).toBe(-12.5)
+      expect(parseBankAmount('+1,234.56')).toBe(1234.56)
+      expect(parseBankAmount('1.200')).toBe(1200)
+      expect(parseBankAmount('EUR 45,00')).toBe(45)
+      expect(parseBankAmount('abc')).toBeNull()
+    })
+
+    it('should parse Austrian and ISO dates', () => {
+      expect(parseBankDate('03.03.2025')).toBe('2025-03-03')
+      expect(parseBankDate('3.3.25')).toBe('2025-03-03')
+      expect(parseBankDate('2025-03-03T10:00:00+01:00')).toBe('2025-03-03')
+      expect(parseBankDate('März')).toBeNull()
+    })
+
+    it('should detect the statement format', () => {
+      expect(detectBankStatementFormat(CAMT_053)).toBe('camt053')
+      expect(detectBankStatementFormat(MT940)).toBe('mt940')
+      expect(detectBankStatementFormat('Buchungsdatum;Betrag')).toBe('csv')
+      expect(detectBankStatementFormat('', 'auszug.sta')).toBe('mt940')
+    })
+  })
+
+  describe('CAMT.053', () => {
+    it('should read booked entries with counterparty and reference', () => {
+      const result = parseBankStatement(CAMT_053)
+
+      expect(result.format).toBe('camt053')
+      expect(result.errors).toEqual([])
+      expect(result.transactions).toHaveLength(2)
+      expect(result.transactions[0]).toMatchObject({
+        booking_date: '2025-03-03',
+        value_date: '2025-03-04',
+        amount: -1200,
+        currency: 'EUR',
+        counterparty_name: 'Hausverwaltung Gruber & Co',
+        counterparty_iban: 'AT611904300234573201',
+        reference: 'Miete Ordination März 2025',
+      })
+    })
+
+    it('should take the debtor as counterparty of incoming transfers', () => {
+      const [, incoming] = parseBankStatement(CAMT_053).transactions
+
+      expect(incoming.amount).toBe(90)
+      expect(incoming.counterparty_name).toBe('Maria Huber')
+      expect(incoming.reference).toBe('Rechnung RE-2025-017')
+    })
+
+    it('should ignore namespace prefixes', () => {
+      const prefixed = CAMT_053.replace(/<(\/?)(?!\?)(\w)/g, '<$1ns2:$2')
+      expect(parseBankStatement(prefixed).transactions).toHaveLength(2)
+    })
+  })
+
+  describe('MT940', () => {
+    it('should read structured and unstructured :86: fields', () => {
+      const result = parseBankStatement(MT940)
+
+      expect(result.format).toBe('mt940')
+      expect(result.transactions).toHaveLength(2)
+      expect(result.transactions[0]).toMatchObject({
+        booking_date: '2025-03-03',
+        amount: -45.9,
+        counterparty_name: 'A1 Telekom Austria AG',
+        counterparty_iban: 'AT483200000012345864',
+        reference: 'A1 Rechnung 03/2025',
+      })
+      expect(result.transactions[1]).toMatchObject({
+        amount: 180,
+        counterparty_name: null,
+        counterparty_iban: 'AT022011100000001234',
+        reference: 'Gutschrift RE-2025-018 Honorar IBAN: AT02 2011 1000 0000 1234',
+      })
+    })
+
+    it('should date entries across the year end into the previous year', () => {
+      const statement = [':20:X', ':60F:C241231EUR0,00', ':61:2501021231DR10,00NMSCNONREF', ':86:Spesen'].join('\n')
+      expect(parseBankStatement(statement).transactions[0].booking_date).toBe('2024-12-31')
+    })
+  })
+
+  describe('CSV', () => {
+    it('should read exports with a header row (George)', () => {
+      const csv = [
+        'Buchungsdatum;Valutadatum;Partnername;Partner IBAN;Betrag;Währung;Verwendungszweck',
+        '03.03.2025;04.03.2025;"Medizintechnik Meier; GmbH";AT02 2011 1000 0000 1234;-1.234,50;EUR;Ultraschallgel',
+        '05.03.2025;05.03.2025;Maria Huber;;90,00;EUR;RE-2025-017',
+      ].join('\n')
+
+      const result = parseBankStatement(csv)
+
+      expect(result.format).toBe('csv')
+      expect(result.errors).toEqual([])
+      expect(result.transactions[0]).toMatchObject({
+        booking_date: '2025-03-03',
+        value_date: '2025-03-04',
+        amount: -1234.5,
+        counterparty_name: 'Medizintechnik Meier; GmbH',
+        counterparty_iban: 'AT022011100000001234',
+        reference: 'Ultraschallgel',
+      })
+      expect(result.transactions[1].amount).toBe(90)
+    })
+
+    it('should read separate debit and credit columns', () => {
+      const csv = 'Datum;Text;Soll;Haben\n03.03.2025;Miete;1.200,00;\n05.03.2025;Honorar;;90,00'
+      expect(parseBankStatement(csv).transactions.map(t => t.amount)).toEqual([-1200, 90])
+    })
+
+    it('should read headerless exports (Raiffeisen ELBA)', () => {
+      const csv = '03.03.2025;Kontoführung 03/2025;03.03.2025;-12,90;EUR;03.03.2025 08:00:00:000'
+      const [transaction] = parseBankStatement(csv).transactions
+
+      expect(transaction).toMatchObject({
+        booking_date: '2025-03-03',
+        amount: -12.9,
+        currency: 'EUR',
+        reference: 'Kontoführung 03/2025',
+      })
+    })
+
+    it('should report rows without date or amount', () => {
+      const csv = 'Buchungsdatum;Betrag;Verwendungszweck\nunbekannt;12,00;Test'
+      const result = parseBankStatement(csv)
+
+      expect(result.transactions).toHaveLength(0)
+      expect(result.errors).toEqual(['Zeile 2: Datum oder Betrag nicht erkannt'])
+    })
+  })
+
+  describe('Fingerprints', () => {
+    it('should be stable across imports and distinguish identical lines', () => {
+      const csv = 'Buchungsdatum;Betrag;Verwendungszweck\n03.03.2025;-4,50;Kaffee\n03.03.2025;-4,50;Kaffee'
+      const first = parseBankStatement(csv).transactions
+      const second = parseBankStatement(csv).transactions
+
+      expect(first.map(t => t.fingerprint)).toEqual(second.map(t => t.fingerprint))
+      expect(first[0].fingerprint).not.toBe(first[1].fingerprint)
+    })
+  })
+})
@@ -5,7 +5,9 @@
  * Update these tests when tax laws change.
  */
 
-import { calculateComprehensiveTax } from '../comprehensive-tax'
+import { calculateComprehensiveTax, calculateMonthlyProgress } from '../comprehensive-tax'
+import { calculateTax } from '../tax-engine'
+import { getTaxConfig } from '../../config/tax-config'
 import type { ComprehensiveTaxInput } from '@/lib/types/tax-types'
 
 describe('Comprehensive Tax Calculator', () => {
@@ -33,8 +35,8 @@ describe('Comprehensive Tax Calculator', () => {
       // Social security should be ~18.12% of gross
       expect(result.totalSs).toBeCloseTo(60000 * 0.1812, -1)
 
-      // Taxable income should be gross minus social security
-      const expectedTaxable = 60000 - (60000 * 0.1812)
+      // Taxable income should be gross minus social security and the Werbungskostenpauschale
+      const expectedTaxable = 60000 - (60000 * 0.1812) - 132
       expect(result.finalTaxableIncome).toBeCloseTo(expectedTaxable, -1)
 
       // Net income should be gross minus SS and tax
@@ -91,8 +93,10 @@ describe('Comprehensive Tax Calculator', () => {
       expect(result.totalGrossIncome).toBe(52000)
 
       // Special payments tax should apply
-      // First €620 tax-free, then 6% on excess
-      const specialPaymentsTax = (2000 - 620) * 0.06
+      // After their social security, first €620 tax-free, then 6% on excess
+      const specialPaymentsSs = result.ssBreakdown.employee.specialPayments ?? 0
+      expect(specialPaymentsSs).toBeGreaterThan(0)
+      const specialPaymentsTax = (2000 - specialPaymentsSs - 620) * 0.06
       expect(result.specialPaymentsTax).toBeCloseTo(specialPaymentsTax, -1)
     })
   })
@@ -115,8 +119,8 @@ describe('Comprehensive Tax Calculator', () => {
       const profit = 100000 - 40000
       expect(result.selfEmploymentProfit).toBe(profit)
 
-      // Gewinnfreibetrag: 15% up to €33,000
-      const expectedGewinnfreibetrag = Math.min(profit * 0.15, 33000)
+      // Without investments only the Grundfreibetrag: 15% of the profit up to €33,000
+      const expectedGewinnfreibetrag = Math.min(profit, 33000) * 0.15
       expect(result.gewinnfreibetrag).toBeCloseTo(expectedGewinnfreibetrag, -1)
 
       // SVS should be ~27.15% of assessment base
@@ -166,7 +170,7 @@ describe('Comprehensive Tax Calculator', () => {
       // Should have both employee and self-employed SS
       expect(result.employeeSs).toBeGreaterThan(0)
       expect(result.selfEmployedSs).toBeGreaterThan(0)
-      expect(result.totalSs).toBe(result.employeeSs + result.selfEmployedSs)
+      expect(result.totalSs).toBeCloseTo(result.employeeSs + result.selfEmployedSs, 2)
 
       // Should apply gewinnfreibetrag to self-employment
       expect(result.gewinnfreibetrag).toBeGreaterThan(0)
@@ -311,8 +315,8 @@ describe('Comprehensive Tax Calculator', () => {
 
       const result = calculateComprehensiveTax(input)
 
-      // Tax-free threshold is €12,816 in 2025
-      expect(result.finalTaxableIncome).toBeGreaterThan(12816)
+      // Tax-free threshold is €13,308 in 2025
+      expect(result.finalTaxableIncome).toBeGreaterThan(13308)
 
       // Marginal tax rate should be 20% (first bracket above tax-free)
       expect(result.marginalTaxRate).toBe(20)
@@ -392,8 +396,9 @@ describe('Comprehensive Tax Calculator', () => {
 
       const result = calculateComprehensiveTax(input)
 
-      // 2025 tax-free threshold is €12,816
+      // 2025 tax-free threshold is €13,308
       expect(result.taxYear).toBe(2025)
+      expect(getTaxConfig(result.taxYear).taxBrackets[0].upperLimit).toBe(13308)
     })
   })
 
@@ -497,6 +502,43 @@ describe('Comprehensive Tax Calculator', () => {
       expect(result.effectiveTaxRate).toBeLessThan(55)
     })
   })
+
+  // ========================================================================
+  // TEST CASE 9: Adapter over the tax engine
+  // ========================================================================
+  describe('Engine Adapter', () => {
+    const selfEmployment = { totalRevenue: 120000, businessExpenses: 50000 }
+
+    it('should use the configuration of the tax year', () => {
+      for (const taxYear of [2024, 2025]) {
+        const result = calculateComprehensiveTax({ selfEmployment, taxYear })
+        const engine = calculateTax({ selfEmployment, taxYear }, getTaxConfig(taxYear))
+
+        expect(result.taxYear).toBe(taxYear)
+        expect(result.totalIncomeTax).toBe(engine.totalIncomeTax)
+        expect(result.selfEmployedSs).toBe(engine.selfEmployedSs)
+      }
+    })
+
+    it('should default to the current year', () => {
+      const result = calculateComprehensiveTax({ selfEmployment })
+      expect(result.taxYear).toBe(new Date().getFullYear())
+    })
+
+    it('should annualise year-to-date figures for the monthly progress', () => {
+      const annual = calculateComprehensiveTax({ selfEmployment })
+      const progress = calculateMonthlyProgress(
+        selfEmployment.totalRevenue / 4,
+        selfEmployment.businessExpenses / 4,
+        0,
+        3
+      )
+
+      expect(progress.projectedAnnualBurden).toBeCloseTo(annual.totalDirectBurden, 2)
+      expect(progress.ytdTaxBurden).toBeCloseTo(annual.totalDirectBurden / 4, 2)
+      expect(progress.ytdProfit).toBe(17500)
+    })
+  })
 })
 
 // ========================================================================
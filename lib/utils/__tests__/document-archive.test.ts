@@ -0,0 +1,68 @@
+import {
+  archiveFilePath,
+  buildArchiveIndexCsv,
+  isRetained,
+  retentionEndDate,
+  retentionMessage,
+} from '../document-archive'
+
+describe('Document Archive', () => {
+  describe('retention', () => {
+    it('should keep receipts for seven years from the end of the calendar year', () => {
+      expect(retentionEndDate('2025-01-02')).toBe('2032-12-31')
+      expect(retentionEndDate('2025-12-31')).toBe('2032-12-31')
+      expect(retentionMessage('2032-12-31')).toContain('31.12.2032')
+    })
+
+    it('should retain documents until and including their retention end', () => {
+      expect(isRetained('2032-12-31', '2032-12-31')).toBe(true)
+      expect(isRetained('2032-12-31', '2033-01-01')).toBe(false)
+      expect(isRetained(null, '2025-06-01')).toBe(false)
+    })
+  })
+
+  describe('archiveFilePath', () => {
+    const expense = { id: '7f3e2a10-0000-4000-8000-000000000001', expense_date: '2025-03-14', description: 'Müller & Söhne: Ordination' }
+    const version = { document_id: 'c0ffee00-0000-4000-8000-000000000002', version: 1, file_name: 'Rechnung März.pdf' }
+
+    it('should group files by expense and keep earlier versions apart', () => {
+      expect(archiveFilePath(expense, version, true)).toBe(
+        'Belege/2025-03-14_7f3e2a10_Muller_Sohne_Ordination/c0ffee00_Rechnung_Marz.pdf'
+      )
+      expect(archiveFilePath(expense, { ...version, version: 2 }, false)).toBe(
+        'Versionen/2025-03-14_7f3e2a10_Muller_Sohne_Ordination/c0ffee00_v2_Rechnung_Marz.pdf'
+      )
+    })
+  })
+
+  describe('buildArchiveIndexCsv', () => {
+    it('should link each file to its expense', () => {
+      const csv = buildArchiveIndexCsv([
+        {
+          path: 'Belege/2025-03-14_7f3e2a10/c0ffee00_Rechnung.pdf',
+          version: 1,
+          current: true,
+          file_name: 'Rechnung.pdf',
+          file_size: 48213,
+          content_hash: 'ab'.repeat(32),
+          integrity: 'ok',
+          stored_at: '2025-03-15T08:12:00Z',
+          retention_until: '2032-12-31',
+          expense_id: '7f3e2a10-0000-4000-8000-000000000001',
+          expense_date: '2025-03-14',
+          description: 'Praxisbedarf; Handschuhe',
+          category: 'Material',
+          amount: 119.9,
+          invoice_number: 'RE-2025-17',
+        },
+      ])
+      const [header, row] = csv.replace('\uFEFF', '').split('\r\n')
+
+      expect(csv.startsWith('\uFEFF')).toBe(true)
+      expect(header.split(';')).toContain('Ausgabe-ID')
+      expect(row).toContain('Belege/2025-03-14_7f3e2a10/c0ffee00_Rechnung.pdf;1;Ja;Rechnung.pdf;48213;')
+      expect(row).toContain(';OK;2025-03-15;2032-12-31;')
+      expect(row).toContain('"Praxisbedarf; Handschuhe";Material;119,90;RE-2025-17')
+    })
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Duplicate Detection Test Suite
+ *
+ * Tests for finding the same receipt recorded twice: identical files and
+ * OCR texts, invoice numbers and vendor, amount and date proximity.
+ */
+
+import {
+  findDuplicatePairs,
+  normalizeInvoiceNumber,
+  normalizeReceiptText,
+  pairKey,
+  type DuplicateCandidate,
+} from '../duplicate-detection'
+
+function expense(overrides: Partial<DuplicateCandidate> & { id: string }): DuplicateCandidate {
+  return {
+    amount: 100,
+    expense_date: '2025-03-14',
+    description: null,
+    invoice_number: null,
+    content_hashes: [],
+    text_hashes: [],
+    ...overrides,
+  }
+}
+
+describe('Duplicate Detection', () => {
+  describe('normalizeReceiptText', () => {
+    it('should ignore case, umlauts, punctuation and line breaks', () => {
+      const scan = 'Medicare Medizinprodukte GmbH\nRechnung Nr. RE-2025-04711\nGesamtbetrag EUR 164,37'
+      const rescan = 'MEDICARE  Medizinprodukte GmbH Rechnung Nr RE 2025 04711 Gesamtbetrag EUR 164 37'
+
+      expect(normalizeReceiptText(scan)).toBe(normalizeReceiptText(rescan))
+      expect(normalizeReceiptText('Größe')).toBeNull()
+      expect(normalizeReceiptText(null)).toBeNull()
+    })
+  })
+
+  describe('normalizeInvoiceNumber', () => {
+    it('should ignore separators and leading zeros', () => {
+      expect(normalizeInvoiceNumber('RE-2025/0042')).toBe('re202542')
+      expect(normalizeInvoiceNumber('re 2025 42')).toBe('re202542')
+      expect(normalizeInvoiceNumber('7')).toBeNull()
+    })
+  })
+
+  describe('findDuplicatePairs', () => {
+    it('should report the same file and text with the older expense first', () => {
+      const pairs = findDuplicatePairs([
+        expense({ id: 'b', expense_date: '2025-03-20', content_hashes: ['h1'], text_hashes: ['t1'] }),
+        expense({ id: 'a', expense_date: '2025-03-14', content_hashes: ['h1', 'h2'], text_hashes: ['t1'] }),
+        expense({ id: 'c', content_hashes: ['h3'] }),
+      ])
+
+      expect(pairs).toEqual([{ expense_id: 'a', duplicate_id: 'b', reasons: ['file', 'text'] }])
+    })
+
+    it('should match an invoice number only with the same amount or vendor', () => {
+      const pairs = findDuplicatePairs([
+        expense({ id: 'a', invoice_number: 'RE-2025-04711', description: 'Medicare Medizinprodukte GmbH: Handschuhe' }),
+        expense({ id: 'b', invoice_number: 're 2025 4711', amount: 129.72, description: 'Medicare: Handschuhe' }),
+        expense({ id: 'c', invoice_number: 'RE-2025-04711', amount: 50, description: 'Taxi Huber' }),
+      ])
+
+      expect(pairs).toEqual([{ expense_id: 'a', duplicate_id: 'b', reasons: ['invoice_number'] }])
+    })
+
+    it('should match vendor and amount within a few days', () => {
+      const pairs = findDuplicatePairs([
+        expense({ id: 'scan', expense_date: '2025-03-14', description: 'MedSoft Praxissysteme GmbH: Wartung' }),
+        expense({ id: 'bank', expense_date: '2025-03-17', description: 'MEDSOFT PRAXISSYSTEME: Lastschrift 9100234567' }),
+        expense({ id: 'april', expense_date: '2025-04-14', description: 'MedSoft Praxissysteme GmbH: Wartung' }),
+        expense({ id: 'other', expense_date: '2025-03-14', description: 'Austria Telekom GmbH: Internet' }),
+      ])
+
+      expect(pairs).toEqual([{ expense_id: 'scan', duplicate_id: 'bank', reasons: ['vendor_amount_date'] }])
+    })
+
+    it('should skip pairs linked by the user', () => {
+      const candidates = [
+        expense({ id: 'part1', amount: 129.72, content_hashes: ['h1'] }),
+        expense({ id: 'part2', amount: 34.65, content_hashes: ['h1'] }),
+      ]
+
+      expect(findDuplicatePairs(candidates, new Set([pairKey('part2', 'part1')]))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Expense Categorisation Test Suite
+ *
+ * Tests for the categorisation engine: rule criteria and specificity,
+ * learning from earlier expenses, built-in keywords and confidence scores.
+ */
+
+import {
+  categorizeExpense,
+  getVendorKey,
+  matchesCategoryRule,
+  suggestFromHistory,
+  suggestFromKeywords,
+  type CategorizedExpenseLike,
+  type CategoryRuleLike,
+} from '../expense-categorization'
+
+function rule(overrides: Partial<CategoryRuleLike>): CategoryRuleLike {
+  return {
+    id: 'r1',
+    vendor_contains: null,
+    keyword: null,
+    amount_min: null,
+    amount_max: null,
+    category: 'Sonstige Betriebsausgaben',
+    subcategory: null,
+    recurrence_interval: null,
+    ...overrides,
+  }
+}
+
+function earlier(overrides: Partial<CategorizedExpenseLike>): CategorizedExpenseLike {
+  return {
+    description: null,
+    category: 'Sonstige Betriebsausgaben',
+    subcategory: null,
+    is_recurring: false,
+    recurrence_interval: null,
+    ...overrides,
+  }
+}
+
+describe('Expense Categorisation', () => {
+  describe('Vendor keys', () => {
+    it('should use the vendor or the description before the colon', () => {
+      expect(getVendorKey({ vendor: 'A1 Telekom Austria AG' })).toBe('a1 telekom austria ag')
+      expect(getVendorKey({ description: 'Hausverwaltung Gruber: Miete März' })).toBe('hausverwaltung gruber')
+      expect(getVendorKey({ description: 'Ärztekammer Wien' })).toBe('aerztekammer wien')
+    })
+  })
+
+  describe('Rules', () => {
+    it('should require all criteria to match', () => {
+      const telekom = rule({ vendor_contains: 'a1', keyword: 'rechnung', amount_max: 100 })
+
+      expect(matchesCategoryRule(telekom, { vendor: 'A1', description: 'Rechnung 03/2025', amount: 45.9 })).toBe(true)
+      expect(matchesCategoryRule(telekom, { vendor: 'A1', description: 'Rechnung 03/2025', amount: 145.9 })).toBe(false)
+      expect(matchesCategoryRule(telekom, { vendor: 'A1', description: 'Gutschrift', amount: 45.9 })).toBe(false)
+    })
+
+    it('should only match whole words', () => {
+      expect(matchesCategoryRule(rule({ vendor_contains: 'a1' }), { vendor: 'Spar A12 Filiale' })).toBe(false)
+    })
+
+    it('should compare amounts regardless of sign', () => {
+      expect(matchesCategoryRule(rule({ amount_min: 1000 }), { amount: -1200 })).toBe(true)
+      expect(matchesCategoryRule(rule({ amount_min: 1000 }), { description: 'Miete' })).toBe(false)
+    })
+
+    it('should prefer the most specific matching rule', () => {
+      const rules = [
+        rule({ id: 'vendor', vendor_contains: 'a1', category: 'IT & Digital' }),
+        rule({ id: 'vendor-amount', vendor_contains: 'a1', amount_min: 500, category: 'Ausstattung & Geräte' }),
+      ]
+
+      expect(categorizeExpense({ vendor: 'A1', amount: 45 }, { rules, history: [] })?.rule_id).toBe('vendor')
+      expect(categorizeExpense({ vendor: 'A1', amount: 899 }, { rules, history: [] })).toMatchObject({
+        category: 'Ausstattung & Geräte',
+        confidence: 0.95,
+        source: 'rule',
+        rule_id: 'vendor-amount',
+      })
+    })
+  })
+
+  describe('History', () => {
+    const history = [
+      earlier({ description: 'Hausverwaltung Gruber: Miete März', category: 'Räumlichkeiten', subcategory: 'Miete', is_recurring: true, recurrence_interval: 'monthly' }),
+      earlier({ description: 'Hausverwaltung Gruber: Miete Februar', category: 'Räumlichkeiten', subcategory: 'Miete', is_recurring: true, recurrence_interval: 'monthly' }),
+      earlier({ description: 'Hausverwaltung Gruber: Betriebskosten', category: 'Räumlichkeiten', subcategory: 'Betriebskosten' }),
+      earlier({ description: 'Apotheke am Markt', category: 'Medizinischer Bedarf' }),
+    ]
+
+    it('should take the category most earlier expenses of the vendor had', () => {
+      const suggestion = suggestFromHistory({ description: 'Hausverwaltung Gruber: Miete April' }, history)
+
+      expect(suggestion).toMatchObject({
+        category: 'Räumlichkeiten',
+        subcategory: 'Miete',
+        recurrence_interval: 'monthly',
+        source: 'history',
+      })
+      expect(suggestion?.confidence).toBe(0.6)
+    })
+
+    it('should be more confident with more agreeing expenses', () => {
+      const single = suggestFromHistory({ vendor: 'Apotheke am Markt' }, history)
+      expect(single).toMatchObject({ category: 'Medizinischer Bedarf', recurrence_interval: null, confidence: 0.7 })
+    })
+
+    it('should ignore unknown and very short vendors', () => {
+      expect(suggestFromHistory({ vendor: 'Billa' }, history)).toBeNull()
+      expect(suggestFromHistory({ vendor: 'A1' }, [earlier({ description: 'A1' })])).toBeNull()
+    })
+  })
+
+  describe('Keywords', () => {
+    it('should fall back to built-in keywords with low confidence', () => {
+      expect(suggestFromKeywords({ description: 'Kontoführung 03/2025' })).toEqual({
+        category: 'Sonstige Betriebsausgaben',
+        subcategory: 'Bankgebühren',
+        recurrence_interval: null,
+        confidence: 0.6,
+        source: 'keyword',
+      })
+      expect(suggestFromKeywords({ vendor: 'Stadtwerke', description: 'Strom Ordination' })).toMatchObject({
+        category: 'Räumlichkeiten',
+        confidence: 0.5,
+      })
+      expect(suggestFromKeywords({ description: 'xyz' })).toBeNull()
+    })
+  })
+
+  describe('Precedence', () => {
+    it('should use rules before history before keywords', () => {
+      const history = [earlier({ description: 'Müller Versicherung: Praxis', category: 'Räumlichkeiten' })]
+      const input = { vendor: 'Müller Versicherung', description: 'Haftpflicht 2025' }
+
+      expect(categorizeExpense(input, { rules: [], history: [] })?.category).toBe('Versicherungen')
+      expect(categorizeExpense(input, { rules: [], history })?.source).toBe('history')
+      expect(
+        categorizeExpense(input, {
+          rules: [rule({ keyword: 'haftpflicht', category: 'Versicherungen', subcategory: 'Berufshaftpflicht' })],
+          history,
+        })
+      ).toMatchObject({ subcategory: 'Berufshaftpflicht', source: 'rule' })
+    })
+  })
+})
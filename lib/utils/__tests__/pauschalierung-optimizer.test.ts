@@ -0,0 +1,66 @@
+import { comparePauschalierung, getPauschalAdditionalExpenses } from '../pauschalierung-optimizer'
+import { calculateTax } from '../tax-engine'
+import { getTaxConfig } from '../../config/tax-config'
+
+const input = (totalRevenue: number, businessExpenses: number, pauschalAdditionalExpenses = 2000) => ({
+  selfEmployment: { totalRevenue, businessExpenses, pauschalAdditionalExpenses },
+  taxYear: 2025,
+})
+
+describe('Pauschalierung Optimiser', () => {
+  it('should deduct Löhne and Wareneinkauf on top of the Basispauschalierung only', () => {
+    const config = getTaxConfig(2025)
+    const basis = calculateTax(
+      { selfEmployment: { ...input(50000, 8000).selfEmployment, basisPauschalierung: true } },
+      config
+    )
+    const kleinunternehmer = calculateTax(
+      { selfEmployment: { ...input(50000, 8000).selfEmployment, kleinunternehmerPauschalierung: true } },
+      config
+    )
+
+    expect(basis.selfEmploymentProfit).toBe(41250) // 13.5% flat rate + 2,000
+    expect(kleinunternehmer.selfEmploymentProfit).toBe(40000) // 20% flat rate
+    expect(kleinunternehmer.gewinnfreibetragBreakdown.investmentBasedMax).toBe(0)
+  })
+
+  it('should recommend the method with the lowest taxes and contributions', () => {
+    const comparison = comparePauschalierung(input(50000, 8000))!
+    const [actual, basis, kleinunternehmer] = comparison.options
+
+    expect(actual).toMatchObject({ method: 'actual', deductibleExpenses: 8000 })
+    expect(basis).toMatchObject({ eligible: true, flatRateExpenses: 6750, additionalExpenses: 2000, deductibleExpenses: 8750 })
+    expect(kleinunternehmer).toMatchObject({ eligible: true, flatRateExpenses: 10000, additionalExpenses: 0 })
+    expect(comparison.recommended).toBe('kleinunternehmer')
+    expect(comparison.savings).toBeCloseTo(
+      actual.result!.totalDirectBurden - kleinunternehmer.result!.totalDirectBurden,
+      2
+    )
+    expect(comparison.savings).toBeGreaterThan(0)
+  })
+
+  it('should skip variants above their revenue limit', () => {
+    const comparison = comparePauschalierung(input(60000, 8000))!
+
+    expect(comparison.options[2]).toMatchObject({ eligible: false, revenueLimit: 55000, result: null })
+    expect(comparison.recommended).toBe('basis')
+  })
+
+  it('should keep actual expenses when they are higher', () => {
+    const comparison = comparePauschalierung(input(50000, 30000))!
+
+    expect(comparison.recommended).toBe('actual')
+    expect(comparison.savings).toBe(0)
+  })
+
+  it('should take the deductible expenses from the expense breakdown', () => {
+    expect(
+      getPauschalAdditionalExpenses({
+        totalRevenue: 50000,
+        businessExpenses: 8000,
+        expenseBreakdown: { 'Gehälter': 1500, 'Medikamente': 500, 'Miete': 6000 },
+      })
+    ).toBe(2000)
+    expect(comparePauschalierung({ taxYear: 2025 })).toBeNull()
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Payer Types Test Suite
+ *
+ * Tests for the Kasse/Privat revenue split: payer resolution of imported
+ * sessions, ledger aggregation per payer and the private revenue share.
+ */
+
+import {
+  aggregateLedgerByPayer,
+  getPayerGroup,
+  getPrivateShare,
+  mergePayerRevenue,
+  normalizePatientType,
+  resolveActualRevenueByPayer,
+  resolveSessionPayerType,
+  splitRevenueByPayer,
+  summarizePayerGroups,
+} from '../payer-types'
+import { ledgerKey } from '../session-ledger'
+
+describe('Payer Types', () => {
+  describe('Payer resolution', () => {
+    it('should group payers into Kasse and Privat', () => {
+      expect(getPayerGroup('oegk')).toBe('kasse')
+      expect(getPayerGroup('bvaeb')).toBe('kasse')
+      expect(getPayerGroup('svs')).toBe('kasse')
+      expect(getPayerGroup('wahlarzt')).toBe('privat')
+      expect(getPayerGroup('selbstzahler')).toBe('privat')
+    })
+
+    it('should normalize imported patient types', () => {
+      expect(normalizePatientType('ÖGK')).toBe('kasse')
+      expect(normalizePatientType('Kassenpatient')).toBe('kasse')
+      expect(normalizePatientType('Privat')).toBe('privat')
+      expect(normalizePatientType('Wahlarzt')).toBe('privat')
+      expect(normalizePatientType('')).toBeUndefined()
+      expect(normalizePatientType('unbekannt')).toBeUndefined()
+    })
+
+    it('should keep the therapy payer unless the patient type belongs to the other group', () => {
+      expect(resolveSessionPayerType(undefined, 'bvaeb')).toBe('bvaeb')
+      expect(resolveSessionPayerType('kasse', 'svs')).toBe('svs')
+      expect(resolveSessionPayerType('privat', 'oegk')).toBe('wahlarzt')
+      expect(resolveSessionPayerType('kasse', 'selbstzahler')).toBe('oegk')
+      expect(resolveSessionPayerType(null, null)).toBe('wahlarzt')
+    })
+  })
+
+  describe('Revenue split', () => {
+    it('should sum up revenue per payer and default missing payers to Wahlarzt', () => {
+      const split = splitRevenueByPayer([
+        { payer_type: 'oegk', revenue: 100 },
+        { payer_type: 'oegk', revenue: 50 },
+        { payer_type: null, revenue: 80 },
+      ])
+
+      expect(split.oegk).toBe(150)
+      expect(split.wahlarzt).toBe(80)
+      expect(summarizePayerGroups(split)).toEqual({ kasse: 150, privat: 80 })
+    })
+
+    it('should aggregate ledger revenue per month and therapy type', () => {
+      const result = aggregateLedgerByPayer(
+        [
+          { therapy_type_id: 't1', session_date: '2025-03-04', gross_amount: 60, payer_type: 'oegk' },
+          { therapy_type_id: 't1', session_date: '2025-03-18', gross_amount: 90, payer_type: null },
+          { therapy_type_id: 't1', session_date: '2025-04-02', gross_amount: 90 },
+        ],
+        new Map([['t1', 'selbstzahler' as const]])
+      )
+
+      const march = result.get(ledgerKey('2025-03', 't1'))!
+      expect(march.oegk).toBe(60)
+      expect(march.selbstzahler).toBe(90)
+      expect(result.get(ledgerKey('2025-04', 't1'))!.selbstzahler).toBe(90)
+    })
+
+    it('should prefer the ledger split over the therapy payer', () => {
+      const ledgerSplit = splitRevenueByPayer([{ payer_type: 'svs', revenue: 120 }])
+
+      expect(resolveActualRevenueByPayer(120, 'wahlarzt', ledgerSplit).svs).toBe(120)
+      expect(resolveActualRevenueByPayer(200, 'bvaeb').bvaeb).toBe(200)
+    })
+
+    it('should attribute revenue beyond the ledger split to the therapy payer', () => {
+      const split = resolveActualRevenueByPayer(200, 'wahlarzt', splitRevenueByPayer([{ payer_type: 'svs', revenue: 120 }]))
+
+      expect(split.svs).toBe(120)
+      expect(split.wahlarzt).toBe(80)
+    })
+
+    it('should calculate the private share of revenue', () => {
+      const split = mergePayerRevenue(
+        splitRevenueByPayer([{ payer_type: 'oegk', revenue: 300 }]),
+        splitRevenueByPayer([{ payer_type: 'wahlarzt', revenue: 100 }])
+      )
+
+      expect(getPrivateShare(split)).toBe(0.25)
+      expect(getPrivateShare(splitRevenueByPayer([]))).toBeNull()
+    })
+  })
+})
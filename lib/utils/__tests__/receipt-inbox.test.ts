@@ -0,0 +1,48 @@
+import {
+  inboxAddress,
+  inboxTokenFromRecipients,
+  mailSourceDetail,
+  selectReceiptAttachments,
+} from '../receipt-inbox'
+
+describe('Receipt Inbox', () => {
+  describe('inboxTokenFromRecipients', () => {
+    it('should find the token of the ingest address among the recipients', () => {
+      expect(inboxAddress('ab12cd', 'belege.example.at')).toBe('belege+ab12cd@belege.example.at')
+      expect(
+        inboxTokenFromRecipients(['praxis@example.at', 'Belege <Belege+AB12CD@belege.example.at>'])
+      ).toBe('ab12cd')
+    })
+
+    it('should ignore other plus addresses', () => {
+      expect(inboxTokenFromRecipients(['rechnungen+ab12cd@example.at', 'kontakt@example.at'])).toBeNull()
+    })
+  })
+
+  describe('selectReceiptAttachments', () => {
+    it('should keep PDFs and photos and skip signature logos and other files', () => {
+      const attachments = [
+        { filename: 'Rechnung_4711.pdf', contentType: 'application/pdf', contentDisposition: 'attachment', size: 80000 },
+        { filename: 'RE-2025-17.PDF', contentType: 'application/octet-stream', contentDisposition: 'attachment', size: 50000 },
+        { filename: 'logo.png', contentType: 'image/png', contentDisposition: 'inline', size: 4000 },
+        { filename: 'kassabon.jpg', contentType: 'image/jpeg', contentDisposition: 'inline', size: 900000 },
+        { filename: 'agb.docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', size: 30000 },
+      ]
+
+      expect(selectReceiptAttachments(attachments).map(({ attachment, type }) => [attachment.filename, type])).toEqual([
+        ['Rechnung_4711.pdf', 'application/pdf'],
+        ['RE-2025-17.PDF', 'application/pdf'],
+        ['kassabon.jpg', 'image/jpeg'],
+      ])
+    })
+  })
+
+  describe('mailSourceDetail', () => {
+    it('should combine sender and subject', () => {
+      expect(mailSourceDetail('rechnung@medicare.at', 'Ihre Rechnung RE-2025-04711')).toBe(
+        'rechnung@medicare.at: Ihre Rechnung RE-2025-04711'
+      )
+      expect(mailSourceDetail(null, null)).toBeNull()
+    })
+  })
+})
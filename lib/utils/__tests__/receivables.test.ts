@@ -0,0 +1,142 @@
+/**
+ * Receivables Test Suite
+ *
+ * Tests for open items: payment status of imported invoices, payment
+ * allocation, ageing buckets and dunning suggestions.
+ */
+
+import {
+  allocatePayment,
+  buildReceivables,
+  getAgeingBucket,
+  getDaysOutstanding,
+  getSuggestedDunningLevel,
+  normalizePaymentStatus,
+  resolveInvoicePayment,
+  summarizeReceivables,
+  type ReceivableSessionLike,
+} from '../receivables'
+
+function session(overrides: Partial<ReceivableSessionLike>): ReceivableSessionLike {
+  return {
+    id: 's1',
+    therapy_type_id: 't1',
+    session_date: '2025-03-01',
+    gross_amount: 100,
+    paid_amount: 0,
+    payment_status: 'offen',
+    invoice_number: null,
+    dunning_level: 0,
+    last_dunning_date: null,
+    ...overrides,
+  }
+}
+
+describe('Receivables', () => {
+  describe('Payment status', () => {
+    it('should normalize Latido payment status values', () => {
+      expect(normalizePaymentStatus('Bezahlt')).toBe('bezahlt')
+      expect(normalizePaymentStatus('Teilbezahlt')).toBe('teilbezahlt')
+      expect(normalizePaymentStatus('Offen')).toBe('offen')
+      expect(normalizePaymentStatus('Nicht bezahlt')).toBe('offen')
+      expect(normalizePaymentStatus('')).toBeUndefined()
+    })
+
+    it('should treat invoices without status as paid on the invoice date', () => {
+      expect(resolveInvoicePayment({ grossAmount: 90, invoiceDate: '2025-03-01' })).toEqual({
+        payment_status: 'bezahlt',
+        paid_amount: 90,
+        paid_date: '2025-03-01',
+      })
+    })
+
+    it('should keep open invoices unpaid', () => {
+      expect(resolveInvoicePayment({ status: 'offen', grossAmount: 90, invoiceDate: '2025-03-01' })).toEqual({
+        payment_status: 'offen',
+        paid_amount: 0,
+        paid_date: null,
+      })
+    })
+
+    it('should derive the paid amount of partial payments from the open amount', () => {
+      const result = resolveInvoicePayment({
+        status: 'teilbezahlt',
+        grossAmount: 100,
+        invoiceDate: '2025-03-01',
+        openAmount: 40,
+        paidDate: '2025-03-10',
+      })
+
+      expect(result).toEqual({ payment_status: 'teilbezahlt', paid_amount: 60, paid_date: '2025-03-10' })
+    })
+  })
+
+  describe('Payment allocation', () => {
+    it('should fill open rows in order and ignore overpayments', () => {
+      const result = allocatePayment(
+        [
+          { id: 'a', gross_amount: 50, paid_amount: 20 },
+          { id: 'b', gross_amount: 50, paid_amount: 0 },
+        ],
+        100
+      )
+
+      expect(result).toEqual([
+        { id: 'a', paid_amount: 50, payment_status: 'bezahlt' },
+        { id: 'b', paid_amount: 50, payment_status: 'bezahlt' },
+      ])
+    })
+
+    it('should mark rows as partially paid', () => {
+      const [row] = allocatePayment([{ id: 'a', gross_amount: 80, paid_amount: 0 }], 30)
+      expect(row).toEqual({ id: 'a', paid_amount: 30, payment_status: 'teilbezahlt' })
+    })
+  })
+
+  describe('Ageing', () => {
+    it('should count days outstanding and assign buckets', () => {
+      expect(getDaysOutstanding('2025-03-01', '2025-03-31')).toBe(30)
+      expect(getDaysOutstanding('2025-03-31', '2025-03-01')).toBe(0)
+      expect(getAgeingBucket(30)).toBe('0-30')
+      expect(getAgeingBucket(31)).toBe('31-60')
+      expect(getAgeingBucket(60)).toBe('31-60')
+      expect(getAgeingBucket(61)).toBe('60+')
+    })
+
+    it('should suggest dunning levels by age', () => {
+      expect(getSuggestedDunningLevel(30)).toBe(0)
+      expect(getSuggestedDunningLevel(31)).toBe(1)
+      expect(getSuggestedDunningLevel(46)).toBe(2)
+      expect(getSuggestedDunningLevel(61)).toBe(3)
+    })
+
+    it('should group open rows by invoice and skip paid ones', () => {
+      const receivables = buildReceivables(
+        [
+          session({ id: 'a', invoice_number: 'R-1', session_date: '2025-01-10' }),
+          session({ id: 'b', invoice_number: 'R-1', session_date: '2025-01-10', paid_amount: 40, payment_status: 'teilbezahlt' }),
+          session({ id: 'c', session_date: '2025-03-01', dunning_level: 1 }),
+          session({ id: 'd', payment_status: 'bezahlt', paid_amount: 100 }),
+        ],
+        '2025-03-15'
+      )
+
+      expect(receivables).toHaveLength(2)
+      expect(receivables[0]).toMatchObject({
+        invoice_number: 'R-1',
+        session_ids: ['a', 'b'],
+        open_amount: 160,
+        payment_status: 'teilbezahlt',
+        days_outstanding: 64,
+        bucket: '60+',
+        suggested_dunning_level: 3,
+      })
+      expect(receivables[1]).toMatchObject({ key: 'session:c', bucket: '0-30', dunning_level: 1 })
+
+      const summary = summarizeReceivables(receivables)
+      expect(summary.total).toBe(260)
+      expect(summary.buckets['60+']).toEqual({ count: 1, amount: 160 })
+      expect(summary.buckets['0-30']).toEqual({ count: 1, amount: 100 })
+    })
+  })
+})
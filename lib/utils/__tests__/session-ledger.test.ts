@@ -0,0 +1,73 @@
+import {
+  aggregateCashReceipts,
+  aggregateSessionLedger,
+  ledgerKey,
+  normalizePaymentMethod,
+  resolveActualRevenue,
+  resolveCashRevenue,
+} from '../session-ledger'
+
+describe('Session Ledger', () => {
+  describe('aggregateSessionLedger', () => {
+    it('groups sessions by month and therapy type', () => {
+      const result = aggregateSessionLedger([
+        { therapy_type_id: 'a', session_date: '2025-03-04', gross_amount: 120 },
+        { therapy_type_id: 'a', session_date: '2025-03-18', gross_amount: 95.5 },
+        { therapy_type_id: 'b', session_date: '2025-03-18', gross_amount: 80 },
+        { therapy_type_id: 'a', session_date: '2025-04-01', gross_amount: 120 },
+      ])
+
+      expect(result.get(ledgerKey('2025-03', 'a'))).toEqual({ sessions: 2, revenue: 215.5 })
+      expect(result.get(ledgerKey('2025-03', 'b'))).toEqual({ sessions: 1, revenue: 80 })
+      expect(result.get(ledgerKey('2025-04', 'a'))).toEqual({ sessions: 1, revenue: 120 })
+    })
+
+    it('accepts full dates as month keys', () => {
+      expect(ledgerKey('2025-03-01', 'a')).toBe(ledgerKey('2025-03', 'a'))
+    })
+  })
+
+  describe('resolveActualRevenue', () => {
+    it('uses invoiced revenue when the ledger has sessions', () => {
+      expect(resolveActualRevenue(3, 100, { sessions: 3, revenue: 275 })).toBe(275)
+    })
+
+    it('falls back to sessions × price for manual entries', () => {
+      expect(resolveActualRevenue(3, 100)).toBe(300)
+      expect(resolveActualRevenue(3, 100, { sessions: 0, revenue: 0 })).toBe(300)
+    })
+  })
+
+  describe('cash basis', () => {
+    it('groups receipts by payment month', () => {
+      const result = aggregateCashReceipts([
+        { therapy_type_id: 'a', paid_date: '2025-04-02', paid_amount: 120 },
+        { therapy_type_id: 'a', paid_date: '2025-04-20', paid_amount: 50 },
+        { therapy_type_id: 'a', paid_date: null, paid_amount: 0 },
+      ])
+
+      expect(result.get(ledgerKey('2025-04', 'a'))).toBe(170)
+      expect(result.size).toBe(1)
+    })
+
+    it('counts invoiced sessions with the receipts of the month', () => {
+      expect(resolveCashRevenue(3, 100, { sessions: 3, revenue: 300 }, 120)).toBe(120)
+      expect(resolveCashRevenue(3, 100, { sessions: 3, revenue: 300 })).toBe(0)
+    })
+
+    it('counts uninvoiced sessions as paid on the day of treatment', () => {
+      expect(resolveCashRevenue(2, 100, undefined, 80)).toBe(280)
+    })
+  })
+
+  describe('normalizePaymentMethod', () => {
+    it('maps Latido payment labels', () => {
+      expect(normalizePaymentMethod('Bar')).toBe('bar')
+      expect(normalizePaymentMethod('Bankomat')).toBe('bankomat')
+      expect(normalizePaymentMethod('Kreditkarte')).toBe('kreditkarte')
+      expect(normalizePaymentMethod('Überweisung')).toBe('ueberweisung')
+      expect(normalizePaymentMethod('Gutschein')).toBe('sonstige')
+      expect(normalizePaymentMethod('')).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * Tax Engine Test Suite
+ *
+ * Golden values per supported tax year for the shared tax engine, and checks
+ * that the dashboard adapter (austrian-tax) calculates with the same engine.
+ * Update the fixtures when a new TaxYearConfig is added.
+ */
+
+import { calculateTax, calculateSelfEmployedSs, calculateGewinnfreibetrag } from '../tax-engine'
+import { calculateAustrianTax, getTaxOptimizationTips } from '../austrian-tax'
+import { getTaxConfig } from '../../config/tax-config'
+
+/** Wahlarzt practice with €150,000 revenue and €60,000 expenses, no VAT-able revenue */
+const PRACTICE = {
+  totalRevenue: 150000,
+  businessExpenses: 60000,
+  practiceType: 'wahlarzt' as const,
+}
+
+const GOLDEN = [
+  {
+    year: 2023,
+    selfEmployedSs: 21429.29,
+    assessmentBase: 79380,
+    aerztekammerBeitrag: 3000,
+    gewinnfreibetrag: 4500,
+    finalTaxableIncome: 61070.71,
+    totalIncomeTax: 17258.74,
+    netIncome: 48311.97,
+    marginalTaxRate: 41,
+    minimumSs: 1744.37,
+  },
+  {
+    year: 2024,
+    selfEmployedSs: 22898.77,
+    assessmentBase: 84840,
+    aerztekammerBeitrag: 3000,
+    gewinnfreibetrag: 4950,
+    finalTaxableIncome: 59151.23,
+    totalIncomeTax: 15564.19,
+    netIncome: 48537.04,
+    marginalTaxRate: 40,
+    minimumSs: 1867.64,
+  },
+  {
+    year: 2025,
+    selfEmployedSs: 24291.84,
+    assessmentBase: 90000,
+    aerztekammerBeitrag: 3000,
+    gewinnfreibetrag: 4950,
+    finalTaxableIncome: 57758.16,
+    totalIncomeTax: 14696.36,
+    netIncome: 48011.8,
+    marginalTaxRate: 40,
+    minimumSs: 1919.16,
+  },
+]
+
+describe('Tax Engine', () => {
+  describe.each(GOLDEN)('Tax year $year', (golden) => {
+    const config = getTaxConfig(golden.year)
+
+    it('should match the golden values for a practice', () => {
+      const result = calculateTax({ selfEmployment: PRACTICE, taxYear: golden.year }, config)
+
+      expect(result.selfEmploymentProfit).toBe(90000)
+      expect(result.selfEmployedSs).toBe(golden.selfEmployedSs)
+      expect(result.ssBreakdown.selfEmployed.assessmentBase).toBe(golden.assessmentBase)
+      expect(result.aerztekammerBeitrag).toBe(golden.aerztekammerBeitrag)
+      expect(result.gewinnfreibetrag).toBe(golden.gewinnfreibetrag)
+      expect(result.finalTaxableIncome).toBe(golden.finalTaxableIncome)
+      expect(result.totalIncomeTax).toBe(golden.totalIncomeTax)
+      expect(result.netIncome).toBe(golden.netIncome)
+      expect(result.marginalTaxRate).toBe(golden.marginalTaxRate)
+      expect(result.taxYear).toBe(golden.year)
+    })
+
+    it('should charge the minimum SVS contribution on low profits', () => {
+      const { total, breakdown } = calculateSelfEmployedSs(6000, config)
+
+      expect(breakdown.assessmentBase).toBeCloseTo(config.selfEmployedSocialSecurity.minMonthlyBase * 12, 2)
+      expect(total).toBe(golden.minimumSs)
+    })
+
+    it('should cap SVS at the maximum assessment base', () => {
+      const { breakdown } = calculateSelfEmployedSs(500000, config)
+      expect(breakdown.assessmentBase).toBeCloseTo(config.selfEmployedSocialSecurity.maxMonthlyBase * 12, 2)
+    })
+  })
+
+  describe('Gewinnfreibetrag', () => {
+    const config = getTaxConfig(2025)
+
+    it('should grant only the Grundfreibetrag without investments', () => {
+      const gfb = calculateGewinnfreibetrag(250000, config)
+
+      expect(gfb.grundfreibetrag).toBe(4950)
+      expect(gfb.investmentBasedMax).toBe(23890) // 13% of 145,000 + 7% of 72,000
+      expect(gfb.investmentBased).toBe(0)
+      expect(gfb.missingInvestment).toBe(23890)
+      expect(gfb.total).toBe(4950)
+    })
+
+    it('should cover the investment-based part up to the qualifying investments', () => {
+      const gfb = calculateGewinnfreibetrag(250000, config, 10000)
+
+      expect(gfb.investmentBased).toBe(10000)
+      expect(gfb.missingInvestment).toBe(13890)
+      expect(gfb.total).toBe(14950)
+      expect(calculateGewinnfreibetrag(250000, config, 50000).investmentBased).toBe(23890)
+    })
+
+    it('should stop at the last tier', () => {
+      expect(calculateGewinnfreibetrag(1000000, config, 100000).total).toBe(46400)
+      expect(calculateGewinnfreibetrag(1000000, getTaxConfig(2023), 100000).total).toBe(45950)
+    })
+
+    it('should grant no investment-based part with Basispauschalierung', () => {
+      const result = calculateTax(
+        { selfEmployment: { totalRevenue: 200000, businessExpenses: 0, basisPauschalierung: true, qualifyingInvestments: 20000 } },
+        config
+      )
+
+      expect(result.gewinnfreibetragBreakdown.investmentBasedMax).toBe(0)
+      expect(result.gewinnfreibetrag).toBe(4950)
+    })
+
+    it('should reduce taxable income by the covered investments', () => {
+      const withoutInvestments = calculateTax({ selfEmployment: PRACTICE, taxYear: 2025 }, config)
+      const withInvestments = calculateTax(
+        { selfEmployment: { ...PRACTICE, qualifyingInvestments: 2000 }, taxYear: 2025 },
+        config
+      )
+
+      expect(withInvestments.gewinnfreibetrag).toBe(6950)
+      expect(withoutInvestments.finalTaxableIncome - withInvestments.finalTaxableIncome).toBeCloseTo(2000, 2)
+    })
+  })
+
+  describe('Basispauschalierung', () => {
+    it('should replace actual expenses with the flat rate of the year', () => {
+      const input = { totalRevenue: 200000, businessExpenses: 10000, basisPauschalierung: true }
+
+      expect(calculateTax({ selfEmployment: input }, getTaxConfig(2024)).pauschalExpenses).toBe(24000)
+      expect(calculateTax({ selfEmployment: input }, getTaxConfig(2025)).pauschalExpenses).toBe(27000)
+    })
+
+    it('should fall back to actual expenses above the revenue limit', () => {
+      const result = calculateTax(
+        { selfEmployment: { totalRevenue: 250000, businessExpenses: 10000, basisPauschalierung: true } },
+        getTaxConfig(2024)
+      )
+
+      expect(result.pauschalExpenses).toBe(0)
+      expect(result.selfEmploymentProfit).toBe(240000)
+    })
+  })
+
+  describe('Homeoffice', () => {
+    it('should deduct the homeoffice days once from the employment income', () => {
+      const config = getTaxConfig(2025)
+      const withoutHomeoffice = calculateTax({ employment: { grossSalary: 60000, homeOfficeDays: 0 } }, config)
+      const withHomeoffice = calculateTax({ employment: { grossSalary: 60000, homeOfficeDays: 100 } }, config)
+
+      // 100 days * €3, below the cap of €100 per month
+      expect(withoutHomeoffice.finalTaxableIncome - withHomeoffice.finalTaxableIncome).toBeCloseTo(300, 2)
+      expect(withHomeoffice.appliedDeductions).toBe(0)
+    })
+  })
+
+  describe('Dashboard adapter', () => {
+    it('should agree with the engine for a full year', () => {
+      const engine = calculateTax({ selfEmployment: PRACTICE, taxYear: 2025 }, getTaxConfig(2025))
+      const dashboard = calculateAustrianTax({
+        grossRevenue: PRACTICE.totalRevenue,
+        totalExpenses: PRACTICE.businessExpenses,
+        practiceType: PRACTICE.practiceType,
+        applyingPauschalierung: false,
+        taxYear: 2025,
+      })
+
+      expect(dashboard.svBeitraege).toBe(engine.selfEmployedSs)
+      expect(dashboard.aerztekammerBeitrag).toBe(engine.aerztekammerBeitrag)
+      expect(dashboard.incomeTax).toBe(engine.totalIncomeTax)
+      expect(dashboard.netIncome).toBe(engine.netIncome)
+    })
+
+    it('should prorate a single month of an annualised result', () => {
+      const month = calculateAustrianTax({
+        grossRevenue: 12500,
+        totalExpenses: 5000,
+        practiceType: 'kassenarzt',
+        applyingPauschalierung: false,
+        monthsInPeriod: 1,
+        taxYear: 2025,
+      })
+
+      expect(month.svBeitraege).toBeCloseTo(24291.84 / 12, 2)
+      expect(month.aerztekammerBeitrag).toBeCloseTo(250, 2)
+      expect(month.incomeTax).toBeCloseTo(14696.36 / 12, 2)
+      expect(month.vat).toBe(0)
+    })
+
+    it('should not charge VAT on exempt medical revenue', () => {
+      const result = calculateTax({ selfEmployment: PRACTICE, taxYear: 2025 }, getTaxConfig(2025))
+
+      expect(result.vat).toBe(0)
+      expect(result.totalDirectBurden).toBeCloseTo(
+        result.selfEmployedSs + result.totalIncomeTax + (result.aerztekammerBeitrag ?? 0),
+        2
+      )
+    })
+
+    it('should scale a quarter like a quarter of the annual result', () => {
+      const annual = calculateAustrianTax({
+        grossRevenue: PRACTICE.totalRevenue,
+        totalExpenses: PRACTICE.businessExpenses,
+        practiceType: PRACTICE.practiceType,
+        applyingPauschalierung: false,
+        taxYear: 2025,
+      })
+      const quarter = calculateAustrianTax({
+        grossRevenue: PRACTICE.totalRevenue / 4,
+        totalExpenses: PRACTICE.businessExpenses / 4,
+        practiceType: PRACTICE.practiceType,
+        applyingPauschalierung: false,
+        monthsInPeriod: 3,
+        taxYear: 2025,
+      })
+
+      expect(quarter.incomeTax).toBeCloseTo(annual.incomeTax / 4, 2)
+      expect(quarter.svBeitraege).toBeCloseTo(annual.svBeitraege / 4, 2)
+      expect(quarter.netIncome).toBeCloseTo(annual.netIncome / 4, 2)
+    })
+
+    it('should add the VAT payable of the period to the burden', () => {
+      const input = {
+        grossRevenue: 12500,
+        totalExpenses: 5000,
+        practiceType: 'wahlarzt' as const,
+        applyingPauschalierung: false,
+        monthsInPeriod: 1,
+        taxYear: 2025,
+      }
+      const exempt = calculateAustrianTax(input)
+      const taxable = calculateAustrianTax({ ...input, vatPayable: 300 })
+
+      expect(exempt.vat).toBe(0)
+      expect(taxable.vat).toBeCloseTo(300, 2)
+      expect(taxable.totalTaxBurden - exempt.totalTaxBurden).toBeCloseTo(300, 2)
+    })
+
+    it('should use the Kleinunternehmer limit of the year in tips', () => {
+      const result = calculateAustrianTax({
+        grossRevenue: 50000,
+        totalExpenses: 20000,
+        practiceType: 'kassenarzt',
+        applyingPauschalierung: false,
+        taxYear: 2024,
+      })
+
+      expect(getTaxOptimizationTips(result).some(tip => tip.includes('Kleinunternehmergrenze'))).toBe(true)
+      expect(getTaxOptimizationTips({ ...result, taxYear: 2025 }).some(tip => tip.includes('Kleinunternehmergrenze'))).toBe(false)
+    })
+  })
+})
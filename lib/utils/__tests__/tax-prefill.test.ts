@@ -0,0 +1,48 @@
+import { combineActualAndPlannedRevenue, lohnzettelToEmployment } from '../tax-prefill'
+
+describe('Tax Prefill', () => {
+  describe('lohnzettelToEmployment', () => {
+    it('should return undefined without Lohnzettel', () => {
+      expect(lohnzettelToEmployment([])).toBeUndefined()
+    })
+
+    it('should sum all employers and separate special and tax-free payments', () => {
+      const employment = lohnzettelToEmployment([
+        {
+          gross_pay: 56000,
+          tax_free_pay: 500,
+          special_payments: 8000,
+          social_security: 8500.5,
+          wage_tax_withheld: 9200.25,
+        },
+        {
+          gross_pay: 7000,
+          tax_free_pay: 0,
+          special_payments: 1000,
+          social_security: 1100,
+          wage_tax_withheld: 600,
+        },
+      ])
+
+      expect(employment).toEqual({
+        grossSalary: 53500,
+        specialPaymentsGross: 9000,
+        taxFreeBenefits: 500,
+        employeeSsPaid: 9600.5,
+        wageTaxWithheld: 9800.25,
+      })
+    })
+  })
+
+  describe('combineActualAndPlannedRevenue', () => {
+    it('should use actual revenue where results exist and the plan elsewhere', () => {
+      const revenue = combineActualAndPlannedRevenue([
+        { month: '2025-01', planned: 10000, actual: 9500 },
+        { month: '2025-02', planned: 10000, actual: 0 },
+        { month: '2025-03', planned: 12000, actual: null },
+      ])
+
+      expect(revenue).toEqual({ revenue: 21500, actualMonths: 2, plannedMonths: 1 })
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { projectMultiYearTax } from '../tax-projection'
+import { getTaxConfig, projectTaxConfig } from '../../config/tax-config'
+
+const ASSUMPTIONS = { growthRate: 10, inflationRate: 2, svsCapGrowthRate: 3 }
+
+const BASE_INPUT = {
+  scenarioName: 'Basis',
+  startYear: 2024,
+  years: 3,
+  baseRevenue: 150000,
+  baseExpenses: 60000,
+  practiceType: 'wahlarzt' as const,
+  assumptions: { ...ASSUMPTIONS, inflationRate: 0 },
+}
+
+describe('Tax Projection', () => {
+  describe('projectTaxConfig', () => {
+    it('should use the configured year where available', () => {
+      expect(projectTaxConfig(2025, ASSUMPTIONS)).toBe(getTaxConfig(2025))
+    })
+
+    it('should index brackets, credits and SVS limits of later years', () => {
+      const config = projectTaxConfig(2027, ASSUMPTIONS)
+
+      expect(config.year).toBe(2027)
+      expect(config.taxBrackets[0].upperLimit).toBe(Math.round(13308 * 1.02 ** 2))
+      expect(config.taxBrackets[5].upperLimit).toBe(1000000)
+      expect(config.taxBrackets[6].rate).toBe(0.55)
+      expect(config.taxCredits.verkehrsabsetzbetrag).toBe(Math.round(421 * 1.02 ** 2))
+      expect(config.selfEmployedSocialSecurity.maxMonthlyBase).toBe(Math.round(7525 * 1.03 ** 2))
+      expect(config.selfEmployedSocialSecurity.pensionRate).toBe(0.185)
+    })
+  })
+
+  describe('projectMultiYearTax', () => {
+    it('should chain growth and plans and net out tax, SVS and Ärztekammer', () => {
+      const projection = projectMultiYearTax({ ...BASE_INPUT, plannedRevenue: { 2026: 200000 } })
+      const [first, second, third] = projection.years
+
+      // Golden values of the tax engine for 2024
+      expect(first).toMatchObject({
+        year: 2024,
+        profit: 90000,
+        incomeTax: 15564.19,
+        svs: 22898.77,
+        aerztekammer: 3000,
+        netIncome: 48537.04,
+        fromPlan: false,
+        estimatedConfig: false,
+      })
+      expect(second).toMatchObject({ year: 2025, revenue: 165000, expenses: 60000, estimatedConfig: false })
+      expect(third).toMatchObject({ year: 2026, revenue: 200000, fromPlan: true, estimatedConfig: true })
+      expect(projection.totalNetIncome).toBeCloseTo(
+        first.netIncome + second.netIncome + third.netIncome,
+        2
+      )
+    })
+
+    it('should apply scenario adjustments from their year on', () => {
+      const baseline = projectMultiYearTax(BASE_INPUT)
+      const fullTime = projectMultiYearTax({
+        ...BASE_INPUT,
+        scenarioName: 'Vollzeit',
+        adjustments: [{ fromYear: 2025, revenueChange: 50, expenseChange: 20 }],
+      })
+
+      expect(fullTime.years[0]).toEqual(baseline.years[0])
+      expect(fullTime.years[1]).toMatchObject({ revenue: 247500, expenses: 72000 })
+      expect(fullTime.years[2]).toMatchObject({ revenue: 272250, expenses: 72000 })
+      expect(fullTime.totalNetIncome).toBeGreaterThan(baseline.totalNetIncome)
+    })
+
+    it('should keep the horizon between 3 and 5 years', () => {
+      expect(projectMultiYearTax({ ...BASE_INPUT, years: 8 }).years).toHaveLength(5)
+      expect(projectMultiYearTax({ ...BASE_INPUT, years: 1 }).years).toHaveLength(3)
+    })
+  })
+})
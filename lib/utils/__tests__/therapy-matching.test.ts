@@ -0,0 +1,81 @@
+import {
+  buildPriceHistory,
+  matchTherapyType,
+  normalizeMatchText,
+  type MatchingContext,
+} from '../therapy-matching'
+
+const therapies = [
+  { id: 'psy', name: 'Psychotherapie Einzel', price_per_session: 120 },
+  { id: 'grp', name: 'Gruppentherapie', price_per_session: 60 },
+  { id: 'erst', name: 'Erstgespräch', price_per_session: 150 },
+]
+
+function context(overrides: Partial<MatchingContext> = {}): MatchingContext {
+  return { therapies, priceHistory: new Map(), rules: [], ...overrides }
+}
+
+describe('Therapy Matching', () => {
+  it('matches exact prices', () => {
+    const result = matchTherapyType({ amount: 120 }, context())
+    expect(result).toEqual({ matched: true, match: { therapy_type_id: 'psy', sessions: 1, method: 'price' } })
+  })
+
+  it('prefers the Leistung text over the price', () => {
+    const result = matchTherapyType({ amount: 120, service_text: 'Erstgespräch (50 min)' }, context())
+    expect(result.matched && result.match.therapy_type_id).toBe('erst')
+    expect(result.matched && result.match.method).toBe('text')
+  })
+
+  it('applies user-confirmed rules first', () => {
+    const result = matchTherapyType(
+      { amount: 99, service_text: 'Sonderleistung' },
+      context({ rules: [{ therapy_type_id: 'grp', match_text: 'sonderleistung', match_amount: null }] })
+    )
+    expect(result.matched && result.match).toEqual({ therapy_type_id: 'grp', sessions: 1, method: 'rule' })
+  })
+
+  it('matches previous prices from the price history', () => {
+    const result = matchTherapyType(
+      { amount: 110 },
+      context({ priceHistory: new Map([['psy', [110]]]) })
+    )
+    expect(result.matched && result.match.method).toBe('history')
+  })
+
+  it('matches discounted invoices within the tolerance band', () => {
+    const result = matchTherapyType({ amount: 108 }, context())
+    expect(result.matched && result.match).toEqual({ therapy_type_id: 'psy', sessions: 1, method: 'tolerance' })
+  })
+
+  it('splits combined invoices into several sessions', () => {
+    const result = matchTherapyType({ amount: 360 }, context())
+    expect(result.matched && result.match).toEqual({ therapy_type_id: 'psy', sessions: 3, method: 'combined' })
+  })
+
+  it('sends ambiguous prices to review instead of guessing', () => {
+    const result = matchTherapyType(
+      { amount: 60 },
+      context({ therapies: [...therapies, { id: 'kurz', name: 'Kurzintervention', price_per_session: 60 }] })
+    )
+    expect(result.matched).toBe(false)
+    expect(!result.matched && result.candidates.length).toBeGreaterThan(0)
+  })
+
+  it('sends unknown amounts to review', () => {
+    expect(matchTherapyType({ amount: 37 }, context()).matched).toBe(false)
+  })
+
+  it('builds a de-duplicated price history', () => {
+    const history = buildPriceHistory([
+      { therapy_type_id: 'psy', gross_amount: 110 },
+      { therapy_type_id: 'psy', gross_amount: 110.001 },
+      { therapy_type_id: 'psy', gross_amount: 120 },
+    ])
+    expect(history.get('psy')).toEqual([110, 120])
+  })
+
+  it('normalizes umlauts and punctuation', () => {
+    expect(normalizeMatchText('  Erstgespräch (50 Min.) ')).toBe('erstgespraech 50 min')
+  })
+})
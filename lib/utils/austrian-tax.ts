@@ -1,21 +1,34 @@
 /**
- * Austrian Tax Calculations for Medical Practices (2025)
+ * Austrian Tax Calculations for Medical Practices
  *
- * Includes:
+ * Adapter over the shared tax engine for the dashboard metrics:
  * - Income Tax (Einkommensteuer) with progressive brackets
  * - Social Insurance (Sozialversicherung - SVS)
  * - Austrian Medical Chamber (Ärztekammer) contributions
  * - VAT (Umsatzsteuer) calculations
  * - E/A-Rechnung (Einnahmen-Ausgaben-Rechnung) deductions
+ *
+ * Rates and limits come from the TaxYearConfig of the given year.
  */
 
+import {
+  calculateTax,
+  calculateProgressiveTax,
+  calculateSelfEmployedSs,
+  calculateAerztekammerBeitrag as calculateChamberContribution,
+  calculatePauschalExpenses,
+  resolveTaxConfig,
+} from './tax-engine'
+
 export interface TaxCalculationInput {
   grossRevenue: number
   totalExpenses: number
   practiceType: 'kassenarzt' | 'wahlarzt' | 'mixed'
-  applyingPauschalierung: boolean // 13% pauschale Betriebsausgaben
-  privatePatientRevenue?: number // For VAT calculation
+  applyingPauschalierung: boolean // Basispauschalierung instead of actual expenses
+  pauschalAdditionalExpenses?: number // Löhne and Wareneinkauf, deductible on top of the Basispauschalierung
+  vatPayable?: number // VAT payable for the period (see estimateVatPayable); medical treatments are exempt
   monthsInPeriod?: number // Number of months in the period (for prorating annual contributions)
+  taxYear?: number // Defaults to the current year
 }
 
 export interface TaxCalculationResult {
@@ -24,151 +37,65 @@ export interface TaxCalculationResult {
   profit: number // Gewinn before tax
 
   // Deductions
-  pauschalDeduction: number // 13% if applicable
+  pauschalDeduction: number // Flat-rate expenses if Basispauschalierung applies
   svBeitraege: number // Sozialversicherung
-  aerztekammerBeitrag: number // ~3% of income
+  aerztekammerBeitrag: number // Base fee + share of profit
 
   // Tax
   taxableIncome: number
   incomeTax: number
-  vat: number // USt on private patients
+  vat: number // USt payable
 
   // Final
   totalTaxBurden: number
   netIncome: number // What you actually take home
   effectiveTaxRate: number // %
+  taxYear: number
 }
 
 /**
- * Austrian Income Tax Brackets 2025
- * Source: Bundesministerium für Finanzen
- */
-const INCOME_TAX_BRACKETS_2025 = [
-  { limit: 12816, rate: 0 },      // Tax-free amount (Grundfreibetrag)
-  { limit: 20818, rate: 0.20 },   // 20%
-  { limit: 34513, rate: 0.30 },   // 30%
-  { limit: 66612, rate: 0.41 },   // 41%
-  { limit: 99266, rate: 0.48 },   // 48%
-  { limit: Infinity, rate: 0.50 } // 50% (Reichensteuer)
-]
-
-/**
- * Calculate Austrian progressive income tax
+ * Calculate Austrian progressive income tax on annual taxable income
  */
-export function calculateIncomeTax(taxableIncome: number): number {
-  if (taxableIncome <= INCOME_TAX_BRACKETS_2025[0].limit) {
-    return 0
-  }
-
-  let tax = 0
-  let previousLimit = 0
-
-  for (const bracket of INCOME_TAX_BRACKETS_2025) {
-    if (taxableIncome <= bracket.limit) {
-      // Income falls in this bracket
-      tax += (taxableIncome - previousLimit) * bracket.rate
-      break
-    } else {
-      // Income exceeds this bracket, tax the full bracket
-      tax += (bracket.limit - previousLimit) * bracket.rate
-      previousLimit = bracket.limit
-    }
-  }
-
-  return Math.max(0, tax)
+export function calculateIncomeTax(taxableIncome: number, taxYear?: number): number {
+  return calculateProgressiveTax(taxableIncome, resolveTaxConfig(taxYear)).total
 }
 
 /**
  * Calculate Sozialversicherung (SVS) contributions for self-employed doctors
- *
- * SVS rates (2025 estimates):
- * - Krankenversicherung: ~7.65%
- * - Pensionsversicherung: ~18.50%
- * - Unfallversicherung: ~1.30%
- * Total: ~27.45% but capped at certain income levels
- *
- * Minimum monthly contribution: ~€500
- * Maximum assessment base: ~€90,000/year
+ * The profit of the period is annualised for the Mindest- and Höchstbeitragsgrundlage
  */
-export function calculateSVBeitraege(profit: number, monthsInPeriod: number = 12): number {
-  const MINIMUM_MONTHLY_SV = 500
-  const MINIMUM_ANNUAL_SV = MINIMUM_MONTHLY_SV * 12 // €6,000/year minimum
-  const MAX_ASSESSMENT_BASE = 90000
-  const SV_RATE = 0.2745 // ~27.45%
-
-  // SVS uses profit (Gewinn) as assessment base
-  const assessmentBase = Math.min(profit, MAX_ASSESSMENT_BASE)
-
-  // Calculate actual contribution
-  const calculatedSV = assessmentBase * SV_RATE
-
-  // Apply minimum contribution, scaled by period
-  const minimumSVForPeriod = MINIMUM_MONTHLY_SV * monthsInPeriod
-  return Math.max(calculatedSV, minimumSVForPeriod)
+export function calculateSVBeitraege(profit: number, monthsInPeriod: number = 12, taxYear?: number): number {
+  const annual = calculateSelfEmployedSs(profit * (12 / monthsInPeriod), resolveTaxConfig(taxYear)).total
+  return annual * (monthsInPeriod / 12)
 }
 
 /**
  * Calculate Ärztekammer (Austrian Medical Chamber) contributions
- *
- * Typical structure:
- * - Base fee: ~€200-400/year (varies by Bundesland)
- * - Income-based: ~2-3% of professional income
- * - Fortbildung (continuing education): included
- *
- * We'll use a simplified 3% model + base fee
- */
-export function calculateAerztekammerBeitrag(profit: number): number {
-  const BASE_FEE_ANNUAL = 300 // Average base fee
-  const INCOME_PERCENTAGE = 0.03 // 3% of income
-
-  return BASE_FEE_ANNUAL + (profit * INCOME_PERCENTAGE)
-}
-
-/**
- * Calculate VAT (Umsatzsteuer) on private patients
- *
- * Austrian medical services:
- * - Kassenleistungen: VAT-exempt (§6 Abs. 1 Z 19 UStG)
- * - Wahlärzte/Private: Subject to 20% VAT
- *
- * Note: Many Wahlärzte opt for Kleinunternehmerregelung (small business exemption)
- * if revenue < €35,000/year
+ * Simplified model: base fee + share of annual profit
  */
-export function calculateVAT(privatePatientRevenue: number, isKleinunternehmer: boolean = false): number {
-  if (isKleinunternehmer) {
-    return 0
-  }
-
-  const VAT_RATE = 0.20 // 20%
-
-  // VAT is calculated on revenue, not profit
-  // Assumption: VAT is included in the price (Bruttopreis)
-  // So we extract it: VAT = Revenue * (20/120)
-  return privatePatientRevenue * (VAT_RATE / (1 + VAT_RATE))
+export function calculateAerztekammerBeitrag(profit: number, taxYear?: number): number {
+  return calculateChamberContribution(profit, resolveTaxConfig(taxYear))
 }
 
 /**
- * Calculate Pauschalierung (flat-rate expense deduction)
+ * Calculate Basispauschalierung (flat-rate business expenses on revenue)
  *
- * E/A-Rechnung allows 13% pauschale Betriebsausgaben if:
- * - Annual revenue < €220,000
- * - Not required to keep full books (Bilanzierung)
- *
- * This is IN ADDITION to actual expenses
+ * Replaces the actual expenses if the annual revenue is within the limit
+ * of the year; returns 0 if not applying or not eligible
  */
-export function calculatePauschalDeduction(profit: number, applying: boolean): number {
+export function calculatePauschalDeduction(revenue: number, applying: boolean, taxYear?: number): number {
   if (!applying) {
     return 0
   }
 
-  const PAUSCHAL_RATE = 0.13 // 13%
-
-  // Applied to profit (Gewinn), not revenue
-  return profit * PAUSCHAL_RATE
+  return calculatePauschalExpenses(revenue, resolveTaxConfig(taxYear)) ?? 0
 }
 
 /**
  * Complete Austrian tax calculation for medical practices
+ *
+ * Periods shorter than a year are annualised for the calculation and the
+ * results scaled back, so the brackets and SVS bases apply as for a full year.
  */
 export function calculateAustrianTax(input: TaxCalculationInput): TaxCalculationResult {
   const {
@@ -176,51 +103,55 @@ export function calculateAustrianTax(input: TaxCalculationInput): TaxCalculation
     totalExpenses,
     practiceType,
     applyingPauschalierung,
-    privatePatientRevenue = grossRevenue, // Default: assume all private if not specified
-    monthsInPeriod = 12 // Default to 12 months for annual calculation
+    pauschalAdditionalExpenses,
+    vatPayable,
+    monthsInPeriod = 12, // Default to 12 months for annual calculation
+    taxYear = new Date().getFullYear()
   } = input
 
-  // Step 1: Calculate profit
-  const profit = grossRevenue - totalExpenses
-
-  // Step 2: Calculate deductions
-  const pauschalDeduction = calculatePauschalDeduction(profit, applyingPauschalierung)
-  const svBeitraege = calculateSVBeitraege(profit, monthsInPeriod)
-  const aerztekammerBeitrag = calculateAerztekammerBeitrag(profit)
-
-  // Step 3: Calculate taxable income
-  // Taxable income = Profit - Pauschale - SV - Ärztekammer
-  const taxableIncome = Math.max(0, profit - pauschalDeduction - svBeitraege - aerztekammerBeitrag)
-
-  // Step 4: Calculate income tax
-  const incomeTax = calculateIncomeTax(taxableIncome)
+  const toAnnual = 12 / monthsInPeriod
+  const toPeriod = monthsInPeriod / 12
 
-  // Step 5: Calculate VAT (only on private patients)
-  // Kassenärzte typically don't charge VAT
-  const effectivePrivateRevenue = practiceType === 'kassenarzt' ? 0 : privatePatientRevenue
-  const vat = calculateVAT(effectivePrivateRevenue)
+  const result = calculateTax(
+    {
+      selfEmployment: {
+        totalRevenue: grossRevenue * toAnnual,
+        businessExpenses: totalExpenses * toAnnual,
+        practiceType,
+        vatPayable: vatPayable !== undefined ? vatPayable * toAnnual : undefined,
+        basisPauschalierung: applyingPauschalierung,
+        pauschalAdditionalExpenses:
+          pauschalAdditionalExpenses !== undefined ? pauschalAdditionalExpenses * toAnnual : undefined,
+      },
+      taxYear,
+    },
+    resolveTaxConfig(taxYear)
+  )
 
-  // Step 6: Calculate totals
-  const totalTaxBurden = svBeitraege + aerztekammerBeitrag + incomeTax + vat
-  const netIncome = profit - totalTaxBurden
-  const effectiveTaxRate = profit > 0 ? (totalTaxBurden / profit) * 100 : 0
+  const profit = grossRevenue - totalExpenses
+  const svBeitraege = result.selfEmployedSs * toPeriod
+  const aerztekammerBeitrag = (result.aerztekammerBeitrag ?? 0) * toPeriod
+  const incomeTax = result.totalIncomeTax * toPeriod
+  const vat = (result.vat ?? 0) * toPeriod
+  const totalTaxBurden = result.totalDirectBurden * toPeriod
 
   return {
     grossRevenue,
     totalExpenses,
     profit,
 
-    pauschalDeduction,
+    pauschalDeduction: result.pauschalExpenses * toPeriod,
     svBeitraege,
     aerztekammerBeitrag,
 
-    taxableIncome,
+    taxableIncome: result.finalTaxableIncome * toPeriod,
     incomeTax,
     vat,
 
     totalTaxBurden,
-    netIncome,
-    effectiveTaxRate
+    netIncome: profit - totalTaxBurden,
+    effectiveTaxRate: profit > 0 ? (totalTaxBurden / profit) * 100 : 0,
+    taxYear
   }
 }
 
@@ -254,15 +185,18 @@ export function calculateQuarterlyVorauszahlungen(annualIncomeTax: number): {
  */
 export function getTaxOptimizationTips(result: TaxCalculationResult): string[] {
   const tips: string[] = []
+  const config = resolveTaxConfig(result.taxYear)
+  const { rate: pauschalRate, revenueLimit } = config.pauschalierung
 
   // High tax burden
   if (result.effectiveTaxRate > 45) {
     tips.push('💡 Ihr effektiver Steuersatz ist über 45%. Erwägen Sie zusätzliche Betriebsausgaben (z.B. Fortbildungen, Geräte) noch in diesem Jahr zu tätigen.')
   }
 
-  // Pauschale eligible
-  if (!result.pauschalDeduction && result.grossRevenue < 220000) {
-    tips.push('💡 Sie könnten von der 13% Pauschalierung profitieren (E/A-Rechnung). Dies würde Ihr steuerpflichtiges Einkommen um €' + (result.profit * 0.13).toLocaleString('de-AT', { maximumFractionDigits: 0 }) + ' reduzieren.')
+  // Basispauschalierung would exceed the actual expenses
+  const pauschale = result.grossRevenue * pauschalRate
+  if (!result.pauschalDeduction && result.grossRevenue <= revenueLimit && pauschale > result.totalExpenses) {
+    tips.push(`💡 Sie könnten von der Basispauschalierung (${(pauschalRate * 100).toLocaleString('de-AT')}% des Umsatzes) profitieren. Die pauschalen Betriebsausgaben lägen um €` + (pauschale - result.totalExpenses).toLocaleString('de-AT', { maximumFractionDigits: 0 }) + ' über Ihren tatsächlichen Ausgaben.')
   }
 
   // High SV contributions
@@ -281,8 +215,8 @@ export function getTaxOptimizationTips(result: TaxCalculationResult): string[] {
   }
 
   // VAT threshold
-  if (result.vat === 0 && result.grossRevenue > 35000) {
-    tips.push('ℹ️ Sie überschreiten die Kleinunternehmergrenze (€35.000). Möglicherweise sind Sie USt-pflichtig.')
+  if (result.vat === 0 && result.grossRevenue > config.vat.kleinunternehmerLimit) {
+    tips.push(`ℹ️ Ihr Umsatz liegt über der Kleinunternehmergrenze (€${config.vat.kleinunternehmerLimit.toLocaleString('de-AT')}). Steuerfreie Heilbehandlungen zählen nicht dazu – prüfen Sie Gutachten, Kurse und Produktverkäufe unter Berichte → USt.`)
   }
 
   return tips
@@ -309,7 +243,7 @@ export function getTaxDeadlines(year: number = new Date().getFullYear()): Array<
 }> {
   return [
     {
-      date: `${year}-03-15`,
+      date: `${year}-02-15`,
       description: 'Vorauszahlung Q1 (Einkommensteuer)',
       type: 'payment'
     },
@@ -319,17 +253,22 @@ export function getTaxDeadlines(year: number = new Date().getFullYear()): Array<
       type: 'filing'
     },
     {
-      date: `${year}-06-15`,
+      date: `${year}-05-15`,
       description: 'Vorauszahlung Q2 (Einkommensteuer)',
       type: 'payment'
     },
     {
-      date: `${year}-09-15`,
+      date: `${year}-08-15`,
       description: 'Vorauszahlung Q3 (Einkommensteuer)',
       type: 'payment'
     },
     {
-      date: `${year}-12-15`,
+      date: `${year}-09-30`,
+      description: 'Letzter Tag für Herabsetzungsantrag der Vorauszahlungen',
+      type: 'reminder'
+    },
+    {
+      date: `${year}-11-15`,
       description: 'Vorauszahlung Q4 (Einkommensteuer)',
       type: 'payment'
     }
@@ -0,0 +1,197 @@
+/**
+ * Bank Line Matching
+ * Proposes expense categories via the categorisation engine, links outgoing
+ * payments to existing expenses and incoming transfers to invoice numbers
+ */
+
+import { normalizeMatchText } from './therapy-matching'
+import {
+  categorizeExpense,
+  type CategorizationContext,
+  type ExpenseCategorySuggestion,
+} from './expense-categorization'
+import type { ParsedBankTransaction } from './bank-statement'
+
+/** Days between an expense date and the bank booking accepted as a match */
+export const EXPENSE_MATCH_DAYS = 7
+
+/** Invoice numbers shorter than this are not searched in transfer references */
+const MIN_INVOICE_NUMBER_LENGTH = 3
+
+export interface MatchableExpense {
+  id: string
+  amount: number
+  expense_date: string
+  is_recurring: boolean
+  recurrence_interval: string | null
+  /** A receipt (expense document) is attached */
+  has_receipt: boolean
+}
+
+/**
+ * ok = expense with receipt or paid invoice found
+ * missing_expense = outgoing payment without an expense record
+ * missing_receipt = expense found, but no receipt attached
+ * unmatched_income = incoming transfer without a known invoice number
+ */
+export type BankLineFlag = 'ok' | 'missing_expense' | 'missing_receipt' | 'unmatched_income'
+
+export const BANK_LINE_FLAG_LABELS: Record<BankLineFlag, string> = {
+  ok: 'Zugeordnet',
+  missing_expense: 'Keine Ausgabe erfasst',
+  missing_receipt: 'Beleg fehlt',
+  unmatched_income: 'Keine Rechnung gefunden',
+}
+
+export interface BankLineProposal {
+  transaction: ParsedBankTransaction
+  flag: BankLineFlag
+  /** Category for a new expense (outgoing lines without an expense) */
+  suggestion: ExpenseCategorySuggestion | null
+  /** Existing expense the payment belongs to */
+  expense_id: string | null
+  /** Known invoice numbers found in the transfer reference */
+  invoice_numbers: string[]
+}
+
+export interface BankMatchingContext {
+  categorization: CategorizationContext
+  expenses: MatchableExpense[]
+  invoiceNumbers: string[]
+}
+
+/**
+ * Normalized payee key used for learned vendor rules
+ */
+export function getPayeeKey(transaction: Pick<ParsedBankTransaction, 'counterparty_name' | 'reference'>): string {
+  return normalizeMatchText(transaction.counterparty_name || transaction.reference || '')
+}
+
+/**
+ * Known invoice numbers contained in a transfer reference
+ * Numbers must stand alone ("RE-2024-17" does not match inside "RE-2024-170")
+ */
+export function findInvoiceNumbers(reference: string | null, invoiceNumbers: string[]): string[] {
+  if (!reference) return []
+  const text = reference.toLowerCase()
+
+  return invoiceNumbers.filter(number => {
+    const needle = number.trim().toLowerCase()
+    if (needle.length < MIN_INVOICE_NUMBER_LENGTH) return false
+
+    for (let index = text.indexOf(needle); index >= 0; index = text.indexOf(needle, index + 1)) {
+      const before = text[index - 1]
+      const after = text[index + needle.length]
+      if ((!before || !/[a-z0-9]/.test(before)) && (!after || !/[a-z0-9]/.test(after))) return true
+    }
+    return false
+  })
+}
+
+function daysBetween(a: string, b: string): number {
+  const toTime = (date: string) => Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)))
+  return Math.round((toTime(b) - toTime(a)) / 86400000)
+}
+
+/**
+ * Distance in days between a booking and the nearest due date of an expense
+ * Recurring expenses are due every 1, 3 or 12 months from their first date
+ */
+function distanceToDueDate(expense: MatchableExpense, bookingDate: string): number {
+  const direct = Math.abs(daysBetween(expense.expense_date, bookingDate))
+  if (!expense.is_recurring || bookingDate < expense.expense_date) return direct
+
+  const step = expense.recurrence_interval === 'quarterly' ? 3 : expense.recurrence_interval === 'yearly' ? 12 : 1
+  const months =
+    (Number(bookingDate.slice(0, 4)) - Number(expense.expense_date.slice(0, 4))) * 12 +
+    Number(bookingDate.slice(5, 7)) - Number(expense.expense_date.slice(5, 7))
+
+  let nearest = direct
+  for (const offset of [months - 1, months, months + 1]) {
+    if (offset < 0 || offset % step !== 0) continue
+    const year = Number(expense.expense_date.slice(0, 4)) + Math.floor((Number(expense.expense_date.slice(5, 7)) - 1 + offset) / 12)
+    const month = ((Number(expense.expense_date.slice(5, 7)) - 1 + offset) % 12) + 1
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+    const day = Math.min(Number(expense.expense_date.slice(8, 10)), lastDay)
+    const due = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+    nearest = Math.min(nearest, Math.abs(daysBetween(due, bookingDate)))
+  }
+  return nearest
+}
+
+/**
+ * Existing expense an outgoing payment belongs to: same amount and due
+ * within EXPENSE_MATCH_DAYS of the booking; the closest due date wins
+ *
+ * @param usedIds One-time expenses already linked to another bank line
+ */
+export function findMatchingExpense(
+  transaction: Pick<ParsedBankTransaction, 'amount' | 'booking_date'>,
+  expenses: MatchableExpense[],
+  usedIds: Set<string> = new Set()
+): MatchableExpense | null {
+  if (transaction.amount >= 0) return null
+  const amount = Math.abs(transaction.amount)
+
+  let best: { expense: MatchableExpense; distance: number } | null = null
+  for (const expense of expenses) {
+    if (Math.abs(Number(expense.amount) - amount) >= 0.01) continue
+    if (!expense.is_recurring && usedIds.has(expense.id)) continue
+
+    const distance = distanceToDueDate(expense, transaction.booking_date)
+    if (distance <= EXPENSE_MATCH_DAYS && (!best || distance < best.distance)) {
+      best = { expense, distance }
+    }
+  }
+  return best?.expense ?? null
+}
+
+/**
+ * Propose what to do with each bank line of a statement
+ */
+export function proposeBankMatches(
+  transactions: ParsedBankTransaction[],
+  context: BankMatchingContext
+): BankLineProposal[] {
+  const usedExpenseIds = new Set<string>()
+
+  return transactions.map((transaction): BankLineProposal => {
+    if (transaction.amount >= 0) {
+      const invoiceNumbers = findInvoiceNumbers(transaction.reference, context.invoiceNumbers)
+      return {
+        transaction,
+        flag: invoiceNumbers.length > 0 ? 'ok' : 'unmatched_income',
+        suggestion: null,
+        expense_id: null,
+        invoice_numbers: invoiceNumbers,
+      }
+    }
+
+    const expense = findMatchingExpense(transaction, context.expenses, usedExpenseIds)
+    if (expense) {
+      usedExpenseIds.add(expense.id)
+      return {
+        transaction,
+        flag: expense.has_receipt ? 'ok' : 'missing_receipt',
+        suggestion: null,
+        expense_id: expense.id,
+        invoice_numbers: [],
+      }
+    }
+
+    return {
+      transaction,
+      flag: 'missing_expense',
+      suggestion: categorizeExpense(
+        {
+          vendor: transaction.counterparty_name,
+          description: transaction.reference,
+          amount: transaction.amount,
+        },
+        context.categorization
+      ),
+      expense_id: null,
+      invoice_numbers: [],
+    }
+  })
+}
@@ -0,0 +1,539 @@
+/**
+ * Bank Statement Parser
+ * Parses CAMT.053 (XML), MT940 and CSV exports of Austrian banks
+ * (Erste/George, Raiffeisen ELBA, BAWAG, Bank Austria) into bank lines
+ */
+
+import type { BankStatementFormat } from '@/lib/types'
+
+export interface ParsedBankTransaction {
+  booking_date: string
+  value_date: string | null
+  /** Signed amount: negative = outgoing */
+  amount: number
+  currency: string
+  counterparty_name: string | null
+  counterparty_iban: string | null
+  reference: string | null
+  /** Stable hash used to skip lines that were imported before */
+  fingerprint: string
+}
+
+export interface BankStatementParseResult {
+  format: BankStatementFormat
+  transactions: ParsedBankTransaction[]
+  errors: string[]
+}
+
+export const BANK_STATEMENT_FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  camt053: 'CAMT.053 (XML)',
+  mt940: 'MT940',
+  csv: 'CSV',
+}
+
+type UnfingerprintedTransaction = Omit<ParsedBankTransaction, 'fingerprint'>
+
+const IBAN_PATTERN = /\b([A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?)\b/
+
+/**
+ * Detect the statement format from the file content (and extension as a fallback)
+ */
+export function detectBankStatementFormat(content: string, fileName?: string): BankStatementFormat {
+  const head = content.slice(0, 2000)
+  if (/<(\w+:)?BkToCstmrStmt\b/.test(content) || /camt\.053/i.test(head)) return 'camt053'
+  if (/^:20:/m.test(head) && /^:61:/m.test(content)) return 'mt940'
+
+  const extension = fileName?.split('.').pop()?.toLowerCase()
+  if (extension === 'xml') return 'camt053'
+  if (extension === 'sta' || extension === 'mt940' || extension === '940') return 'mt940'
+  return 'csv'
+}
+
+/**
+ * Parse a bank statement in any supported format
+ */
+export function parseBankStatement(content: string, fileName?: string): BankStatementParseResult {
+  const text = content.replace(/^\uFEFF/, '')
+  const format = detectBankStatementFormat(text, fileName)
+
+  const result = format === 'camt053'
+    ? parseCamt053(text)
+    : format === 'mt940'
+      ? parseMt940(text)
+      : parseBankCsv(text)
+
+  return { format, transactions: withFingerprints(result.transactions), errors: result.errors }
+}
+
+/**
+ * Parse an amount in Austrian ("1.234,56", "-12,50", "12,50-") or English notation
+ */
+export function parseBankAmount(raw: string): number | null {
+  let value = raw.replace(/\s|€|EUR/g, '')
+  if (!value) return null
+
+  let sign = 1
+  if (value.endsWith('-')) {
+    sign = -1
+    value = value.slice(0, -1)
+  }
+  if (value.startsWith('-')) {
+    sign = -sign
+    value = value.slice(1)
+  } else if (value.startsWith('+')) {
+    value = value.slice(1)
+  }
+
+  const lastComma = value.lastIndexOf(',')
+  const lastDot = value.lastIndexOf('.')
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.')
+  } else if (lastDot > lastComma && lastComma >= 0) {
+    value = value.replace(/,/g, '')
+  } else if (lastDot >= 0 && /^\d{1,3}(\.\d{3})+$/.test(value)) {
+    value = value.replace(/\./g, '')
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(value)) return null
+  return sign * Math.round(parseFloat(value) * 100) / 100
+}
+
+/**
+ * Parse a bank date (DD.MM.YYYY, DD.MM.YY, YYYY-MM-DD or an ISO timestamp)
+ */
+export function parseBankDate(raw: string): string | null {
+  const value = raw.trim()
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+
+  const austrian = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/)
+  if (austrian) {
+    const [, day, month, year] = austrian
+    const fullYear = year.length === 2 ? `20${year}` : year
+    return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  }
+
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// CAMT.053
+// ---------------------------------------------------------------------------
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Inner XML of the first element matching a path of tag names
+ */
+function findElement(xml: string, path: string[]): string | null {
+  let current = xml
+  for (const tag of path) {
+    const match = current.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))
+    if (!match) return null
+    current = match[1]
+  }
+  return current
+}
+
+function findText(xml: string, path: string[]): string | null {
+  const element = findElement(xml, path)
+  if (element === null) return null
+  const text = decodeXml(element.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+  return text || null
+}
+
+function findDate(xml: string, tag: string): string | null {
+  const element = findElement(xml, [tag])
+  if (element === null) return null
+  const raw = findText(element, ['Dt']) ?? findText(element, ['DtTm'])
+  return raw ? parseBankDate(raw) : null
+}
+
+/**
+ * Parse a CAMT.053 (ISO 20022) statement
+ * Only booked entries are imported; pending entries (PDNG) are skipped
+ */
+export function parseCamt053(xml: string): { transactions: UnfingerprintedTransaction[]; errors: string[] } {
+  // Drop namespace prefixes (<ns2:Ntry> -> <Ntry>)
+  const document = xml.replace(/<(\/?)[\w-]+:/g, '<$1')
+  const transactions: UnfingerprintedTransaction[] = []
+  const errors: string[] = []
+
+  const entries = document.match(/<Ntry>[\s\S]*?<\/Ntry>/g) ?? []
+  if (!/<BkToCstmrStmt\b/.test(document)) {
+    errors.push('Keine CAMT.053-Kontoauszugsdaten gefunden')
+  }
+
+  entries.forEach((entry, index) => {
+    const status = findText(entry, ['Sts'])
+    if (status && status.includes('PDNG')) return
+
+    const amountMatch = entry.match(/<Amt(\s[^>]*)?>([^<]+)<\/Amt>/)
+    const currency = amountMatch?.[1]?.match(/Ccy="([A-Z]{3})"/)?.[1]
+    const indicator = findText(entry, ['CdtDbtInd'])
+    const bookingDate = findDate(entry, 'BookgDt') ?? findDate(entry, 'ValDt')
+    const amount = amountMatch ? parseBankAmount(amountMatch[2]) : null
+
+    if (amount === null || !bookingDate || (indicator !== 'CRDT' && indicator !== 'DBIT')) {
+      errors.push(`Buchung ${index + 1}: Betrag, Datum oder Soll/Haben fehlt`)
+      return
+    }
+
+    const isDebit = indicator === 'DBIT'
+    const details = findElement(entry, ['NtryDtls']) ?? entry
+    const party = isDebit ? 'Cdtr' : 'Dbtr'
+    const unstructured = (details.match(/<Ustrd>[\s\S]*?<\/Ustrd>/g) ?? [])
+      .map(element => findText(element, ['Ustrd']))
+      .filter(Boolean)
+      .join(' ')
+
+    transactions.push({
+      booking_date: bookingDate,
+      value_date: findDate(entry, 'ValDt'),
+      amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+      currency: currency ?? 'EUR',
+      counterparty_name: findText(details, ['RltdPties', party, 'Nm']),
+      counterparty_iban: findText(details, ['RltdPties', `${party}Acct`, 'IBAN'])?.replace(/\s/g, '') ?? null,
+      reference:
+        unstructured ||
+        findText(details, ['RmtInf', 'Strd', 'Ref']) ||
+        findText(details, ['AddtlTxInf']) ||
+        findText(entry, ['AddtlNtryInf']),
+    })
+  })
+
+  return { transactions, errors }
+}
+
+// ---------------------------------------------------------------------------
+// MT940
+// ---------------------------------------------------------------------------
+
+/**
+ * Split an MT940 :86: field into name, IBAN and purpose
+ * Structured fields use ?-subfields (?20-?29 purpose, ?31 account, ?32/?33 name)
+ */
+function parseMt940Details(details: string): Pick<UnfingerprintedTransaction, 'counterparty_name' | 'counterparty_iban' | 'reference'> {
+  if (/^\d{3}\?/.test(details)) {
+    const subfields = new Map<string, string>()
+    for (const match of details.matchAll(/\?(\d{2})([^?]*)/g)) {
+      subfields.set(match[1], (subfields.get(match[1]) ?? '') + match[2])
+    }
+
+    const purposeCodes = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']
+    let purpose = purposeCodes.map(code => subfields.get(code) ?? '').join('')
+    const svwz = purpose.match(/SVWZ\+(.*?)(?:[A-Z]{4}\+|$)/)
+    if (svwz) purpose = svwz[1]
+    const name = `${subfields.get('32') ?? ''}${subfields.get('33') ?? ''}`.trim()
+    const account = (subfields.get('31') ?? '').replace(/\s/g, '')
+
+    return {
+      counterparty_name: name || null,
+      counterparty_iban: /^[A-Z]{2}\d{2}/.test(account) ? account : null,
+      reference: purpose.replace(/\s+/g, ' ').trim() || null,
+    }
+  }
+
+  const text = details.replace(/\s+/g, ' ').trim()
+  const iban = text.match(IBAN_PATTERN)
+  return {
+    counterparty_name: null,
+    counterparty_iban: iban ? iban[1].replace(/\s/g, '') : null,
+    reference: text || null,
+  }
+}
+
+/**
+ * Parse an MT940 (SWIFT) statement
+ */
+export function parseMt940(content: string): { transactions: UnfingerprintedTransaction[]; errors: string[] } {
+  const transactions: UnfingerprintedTransaction[] = []
+  const errors: string[] = []
+
+  // Group lines into fields; continuation lines belong to the previous tag
+  const fields: Array<{ tag: string; value: string }> = []
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const tag = line.match(/^:(\d{2}[A-Z]?):(.*)$/)
+    if (tag) {
+      fields.push({ tag: tag[1], value: tag[2] })
+    } else if (fields.length > 0 && line.trim() && line.trim() !== '-') {
+      const field = fields[fields.length - 1]
+      field.value += field.tag === '86' && !line.startsWith('?') && !/^\d{3}\?/.test(field.value) ? ` ${line}` : line
+    }
+  }
+
+  let currency = 'EUR'
+  for (let i = 0; i < fields.length; i++) {
+    const { tag, value } = fields[i]
+    if (tag === '60F' || tag === '60M') {
+      currency = value.slice(7, 10) || currency
+      continue
+    }
+    if (tag !== '61') continue
+
+    const match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)/)
+    if (!match) {
+      errors.push(`Umsatzzeile nicht lesbar: ${value.slice(0, 40)}`)
+      continue
+    }
+
+    const [, yy, mm, dd, entry, mark, rawAmount] = match
+    const valueDate = `20${yy}-${mm}-${dd}`
+    let bookingDate = valueDate
+    if (entry) {
+      // Entry date without year: take the value date's year, adjusted across the year end
+      let year = 2000 + Number(yy)
+      const entryMonth = Number(entry.slice(0, 2))
+      if (entryMonth === 12 && Number(mm) === 1) year -= 1
+      if (entryMonth === 1 && Number(mm) === 12) year += 1
+      bookingDate = `${year}-${entry.slice(0, 2)}-${entry.slice(2, 4)}`
+    }
+
+    const amount = parseBankAmount(rawAmount) ?? 0
+    const isDebit = mark === 'D' || mark === 'RC'
+    const next = fields[i + 1]
+    const details = next?.tag === '86' ? parseMt940Details(next.value) : { counterparty_name: null, counterparty_iban: null, reference: null }
+
+    transactions.push({
+      booking_date: bookingDate,
+      value_date: valueDate,
+      amount: isDebit ? -amount : amount,
+      currency,
+      ...details,
+    })
+  }
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push('Keine Umsätze im MT940-Auszug gefunden')
+  }
+
+  return { transactions, errors }
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Split CSV content into rows, honouring quoted fields with delimiters and line breaks
+ */
+function splitCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell.trim())
+      if (row.some(value => value !== '')) rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell.trim())
+  if (row.some(value => value !== '')) rows.push(row)
+  return rows
+}
+
+function detectDelimiter(firstLine: string): string {
+  const best = [';', '\t', ',']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0]
+  return best.count > 0 ? best.delimiter : ';'
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-zäöüß]+/g, ' ').trim()
+}
+
+interface CsvColumns {
+  booking: number
+  value: number
+  amount: number
+  debit: number
+  credit: number
+  currency: number
+  name: number
+  iban: number
+  reference: number[]
+}
+
+function detectCsvColumns(headers: string[]): CsvColumns | null {
+  const normalized = headers.map(normalizeHeader)
+  const find = (predicate: (h: string) => boolean) => normalized.findIndex(predicate)
+
+  const columns: CsvColumns = {
+    booking: find(h => h.includes('buchungsdatum') || h === 'buchungstag' || h === 'datum' || h === 'booking date'),
+    value: find(h => h.includes('valuta') || h.includes('wertstellung') || h === 'value date'),
+    amount: find(h => (h === 'betrag' || h.startsWith('betrag ') || h === 'amount' || h === 'umsatz') && !h.includes('saldo')),
+    debit: find(h => h === 'soll' || h === 'belastung' || h === 'ausgang'),
+    credit: find(h => h === 'haben' || h === 'gutschrift' || h === 'eingang'),
+    currency: find(h => h.startsWith('währung') || h.startsWith('waehrung') || h === 'currency'),
+    name: find(h =>
+      h.includes('partnername') || h.includes('empfänger') || h.includes('auftraggeber') ||
+      h.includes('begünstigter') || h === 'partner' || h === 'name' || h.includes('zahlungspflichtiger')
+    ),
+    iban: find(h => (h.includes('iban') || h.includes('kontonummer')) && !h.includes('eigen')),
+    reference: normalized
+      .map((h, index) => (
+        h.includes('verwendungszweck') || h.includes('zahlungsreferenz') || h.includes('buchungstext') ||
+        h.includes('beschreibung') || h === 'text' || h === 'referenz'
+      ) ? index : -1)
+      .filter(index => index >= 0),
+  }
+
+  if (columns.booking < 0 || (columns.amount < 0 && columns.debit < 0 && columns.credit < 0)) return null
+  return columns
+}
+
+/**
+ * Headerless exports (Raiffeisen ELBA, Bank Austria): Buchungsdatum; Text; Valuta; Betrag; Währung
+ * Columns are recognised by their content
+ */
+function parseHeaderlessRow(row: string[]): UnfingerprintedTransaction | null {
+  const dates = row.map((cell, index) => ({ index, date: parseBankDate(cell) })).filter(d => d.date)
+  const amountIndex = row.findIndex((cell, index) =>
+    !dates.some(d => d.index === index) && /^[+-]?[\d.]+,\d{2}-?$/.test(cell.replace(/\s/g, ''))
+  )
+  if (dates.length === 0 || amountIndex < 0) return null
+
+  const text = row
+    .filter((cell, index) =>
+      index !== amountIndex && !dates.some(d => d.index === index) &&
+      !/^[A-Z]{3}$/.test(cell) && !/^\d{1,2}\.\d{1,2}\.\d{2,4}\s/.test(cell)
+    )
+    .sort((a, b) => b.length - a.length)[0] ?? ''
+  const iban = text.match(IBAN_PATTERN)
+
+  return {
+    booking_date: dates[0].date!,
+    value_date: dates[1]?.date ?? null,
+    amount: parseBankAmount(row[amountIndex]) ?? 0,
+    currency: row.find(cell => /^[A-Z]{3}$/.test(cell)) ?? 'EUR',
+    counterparty_name: null,
+    counterparty_iban: iban ? iban[1].replace(/\s/g, '') : null,
+    reference: text.replace(/\s+/g, ' ').trim() || null,
+  }
+}
+
+/**
+ * Parse a CSV statement export
+ * Semicolon, comma and tab delimiters; Austrian date and amount formats
+ */
+export function parseBankCsv(content: string): { transactions: UnfingerprintedTransaction[]; errors: string[] } {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? ''
+  const rows = splitCsv(content, detectDelimiter(firstLine))
+  const transactions: UnfingerprintedTransaction[] = []
+  const errors: string[] = []
+
+  if (rows.length === 0) {
+    return { transactions, errors: ['Die Datei enthält keine Buchungen'] }
+  }
+
+  const columns = detectCsvColumns(rows[0])
+  const dataRows = columns ? rows.slice(1) : rows
+
+  dataRows.forEach((row, index) => {
+    const line = index + (columns ? 2 : 1)
+
+    if (!columns) {
+      const transaction = parseHeaderlessRow(row)
+      if (transaction) transactions.push(transaction)
+      else errors.push(`Zeile ${line}: Datum oder Betrag nicht erkannt`)
+      return
+    }
+
+    const bookingDate = parseBankDate(row[columns.booking] ?? '')
+    let amount = columns.amount >= 0 ? parseBankAmount(row[columns.amount] ?? '') : null
+    if (amount === null && (columns.debit >= 0 || columns.credit >= 0)) {
+      const debit = columns.debit >= 0 ? parseBankAmount(row[columns.debit] ?? '') : null
+      const credit = columns.credit >= 0 ? parseBankAmount(row[columns.credit] ?? '') : null
+      amount = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null
+    }
+
+    if (!bookingDate || amount === null) {
+      errors.push(`Zeile ${line}: Datum oder Betrag nicht erkannt`)
+      return
+    }
+
+    const reference = [...new Set(columns.reference.map(i => row[i]).filter(Boolean))].join(' ')
+    const iban = columns.iban >= 0 ? (row[columns.iban] ?? '').replace(/\s/g, '') : ''
+
+    transactions.push({
+      booking_date: bookingDate,
+      value_date: columns.value >= 0 ? parseBankDate(row[columns.value] ?? '') : null,
+      amount,
+      currency: (columns.currency >= 0 && row[columns.currency]) || 'EUR',
+      counterparty_name: (columns.name >= 0 && row[columns.name]) || null,
+      counterparty_iban: iban || null,
+      reference: reference.replace(/\s+/g, ' ').trim() || null,
+    })
+  })
+
+  return { transactions, errors }
+}
+
+// ---------------------------------------------------------------------------
+// Fingerprints
+// ---------------------------------------------------------------------------
+
+/** FNV-1a 32-bit hash as hex */
+function hash(value: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Add fingerprints; identical lines within one statement (e.g. two equal
+ * card payments on the same day) are numbered so both are kept
+ */
+function withFingerprints(transactions: UnfingerprintedTransaction[]): ParsedBankTransaction[] {
+  const seen = new Map<string, number>()
+
+  return transactions.map(transaction => {
+    const key = [
+      transaction.booking_date,
+      transaction.amount.toFixed(2),
+      (transaction.counterparty_name ?? '').toLowerCase(),
+      (transaction.reference ?? '').toLowerCase(),
+    ].join('|')
+    const occurrence = (seen.get(key) ?? 0) + 1
+    seen.set(key, occurrence)
+
+    return { ...transaction, fingerprint: hash(`${key}|${occurrence}`) }
+  })
+}
@@ -5,6 +5,7 @@
 
 import { format } from 'date-fns'
 import { de } from 'date-fns/locale'
+import type { UvaFigures, VatSummary } from '@/lib/calculations/types'
 
 export type CSVDelimiter = ',' | ';' | '\t' | '|'
 export type CSVEncoding = 'utf-8' | 'utf-8-bom' | 'iso-8859-1'
@@ -199,6 +200,39 @@ export function exportMonthlyResultsToCSV(
   return exportToCSV(data, { ...options, filename })
 }
 
+/**
+ * Download the UVA figures per period and for the year, by Kennzahl of form U30
+ * Semicolon-separated with decimal commas for Austrian Excel
+ */
+export function downloadUvaCSV(
+  summary: VatSummary,
+  options: CSVExportOptions = {}
+): void {
+  const toRow = (period: string, figures: UvaFigures) => ({
+    'Zeitraum': period,
+    'KZ 000 Gesamtbetrag': figures.kz000,
+    'KZ 016 Kleinunternehmer': figures.kz016,
+    'KZ 020 steuerfrei ohne VSt-Abzug': figures.kz020,
+    'KZ 022 20%': figures.kz022,
+    'KZ 029 10%': figures.kz029,
+    'KZ 006 13%': figures.kz006,
+    'Umsatzsteuer': figures.outputVat,
+    'KZ 060 Vorsteuer': figures.kz060,
+    'KZ 095 Zahllast/Gutschrift': figures.kz095
+  })
+
+  downloadCSV(
+    [...summary.periods.map(p => toRow(p.period, p)), toRow(String(summary.year), summary.total)],
+    {
+      filename: `uva-${summary.year}`,
+      delimiter: ';',
+      encoding: 'utf-8-bom',
+      numberFormat: 'comma',
+      ...options
+    }
+  )
+}
+
 /**
  * Download CSV file
  */
@@ -0,0 +1,131 @@
+/**
+ * Document Archive
+ * Retention of receipts under BAO §132 (seven years from the end of the
+ * calendar year of the expense) and the index of the year-end "Belegarchiv"
+ */
+
+import { exportToCSV } from './csv-export'
+import type { DocumentAuditAction } from '@/lib/types'
+
+/** Years a receipt is kept after the end of the calendar year of its expense */
+export const RETENTION_YEARS = 7
+
+export const DOCUMENT_AUDIT_ACTION_LABELS: Record<DocumentAuditAction, string> = {
+  upload: 'Hochgeladen',
+  version: 'Neue Version',
+  assign: 'Ausgabe zugeordnet',
+  view: 'Angesehen',
+  export: 'Exportiert',
+  delete: 'Gelöscht',
+  delete_refused: 'Löschen abgelehnt',
+}
+
+/** Characters of the description kept in archive file names */
+const MAX_NAME_DESCRIPTION_LENGTH = 40
+
+/**
+ * Check of an archived file against its stored SHA-256; unhashed files were
+ * stored before hashing, missing ones could not be read from the storage
+ */
+export type ArchiveIntegrity = 'ok' | 'mismatch' | 'unhashed' | 'missing'
+
+const ARCHIVE_INTEGRITY_LABELS: Record<ArchiveIntegrity, string> = {
+  ok: 'OK',
+  mismatch: 'ABWEICHEND',
+  unhashed: 'nicht gespeichert',
+  missing: 'DATEI FEHLT',
+}
+
+export interface ArchiveIndexRow {
+  path: string
+  version: number
+  current: boolean
+  file_name: string
+  file_size: number
+  content_hash: string | null
+  integrity: ArchiveIntegrity
+  stored_at: string
+  retention_until: string | null
+  expense_id: string
+  expense_date: string
+  description: string | null
+  category: string
+  amount: number
+  invoice_number: string | null
+}
+
+/**
+ * End of the retention of a receipt for an expense on the given date
+ * (YYYY-MM-DD); mirrors document_retention_end() of migration 026
+ */
+export function retentionEndDate(expenseDate: string): string {
+  return `${Number(expenseDate.slice(0, 4)) + RETENTION_YEARS}-12-31`
+}
+
+/**
+ * Whether a document with the given retention end must still be kept
+ */
+export function isRetained(retentionUntil: string | null | undefined, today: string): boolean {
+  return !!retentionUntil && retentionUntil >= today
+}
+
+/**
+ * Message shown when a retained document or its expense is to be deleted
+ */
+export function retentionMessage(retentionUntil: string): string {
+  const [year, month, day] = retentionUntil.split('-')
+  return `Belege müssen bis ${day}.${month}.${year} unverändert aufbewahrt werden (BAO §132)`
+}
+
+function safeNamePart(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+/**
+ * Path of a document version in the archive: by expense date and expense,
+ * earlier versions of a file in "Versionen/"
+ */
+export function archiveFilePath(
+  expense: { id: string; expense_date: string; description: string | null },
+  version: { document_id: string; version: number; file_name: string },
+  current: boolean
+): string {
+  const description = safeNamePart((expense.description ?? '').slice(0, MAX_NAME_DESCRIPTION_LENGTH))
+  const folder = [expense.expense_date, expense.id.slice(0, 8), description].filter(Boolean).join('_')
+  const fileName = safeNamePart(version.file_name) || 'beleg'
+  const prefix = version.document_id.slice(0, 8)
+
+  return current
+    ? `Belege/${folder}/${prefix}_${fileName}`
+    : `Versionen/${folder}/${prefix}_v${version.version}_${fileName}`
+}
+
+/**
+ * Index of the archive linking each file to its expense; semicolon separated
+ * with BOM so it opens in Excel
+ */
+export function buildArchiveIndexCsv(rows: ArchiveIndexRow[]): string {
+  const data = rows.map(row => ({
+    'Datei': row.path,
+    'Version': String(row.version),
+    'Aktuell': row.current,
+    'Originalname': row.file_name,
+    'Größe (Bytes)': String(row.file_size),
+    'SHA-256': row.content_hash ?? '',
+    'Prüfsumme': ARCHIVE_INTEGRITY_LABELS[row.integrity],
+    'Gespeichert am': row.stored_at.slice(0, 10),
+    'Aufbewahrung bis': row.retention_until ?? '',
+    'Ausgabe-ID': row.expense_id,
+    'Datum': row.expense_date,
+    'Beschreibung': row.description ?? '',
+    'Kategorie': row.category,
+    'Betrag': row.amount,
+    'Rechnungsnummer': row.invoice_number ?? '',
+  }))
+
+  return '\uFEFF' + exportToCSV(data, { delimiter: ';', numberFormat: 'comma' })
+}
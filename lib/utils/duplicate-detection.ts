@@ -0,0 +1,192 @@
+/**
+ * Duplicate Expense Detection
+ * Finds expenses that record the same receipt twice: the same file, the same
+ * OCR text, the same invoice number or the same vendor and amount a few days
+ * apart (e.g. a scanned bill entered again by hand or from the bank import)
+ */
+
+import { normalizeMatchText } from './therapy-matching'
+import type { DuplicateReason } from '@/lib/types'
+
+/** Days between two expense dates still considered the same receipt */
+export const DUPLICATE_DATE_DAYS = 3
+
+/** Normalised receipt texts shorter than this are not compared (failed OCR) */
+const MIN_RECEIPT_TEXT_LENGTH = 40
+
+/** Invoice numbers shorter than this are too ambiguous to compare */
+const MIN_INVOICE_NUMBER_LENGTH = 3
+
+// Words of vendor names that say nothing about the vendor
+const VENDOR_STOPWORDS = new Set([
+  'gmbh',
+  'handels',
+  'rechnung',
+  'beleg',
+  'zahlung',
+  'lastschrift',
+  'ueberweisung',
+  'dauerauftrag',
+  'austria',
+  'oesterreich',
+  'wien',
+])
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  file: 'Identische Datei',
+  text: 'Identischer Belegtext',
+  invoice_number: 'Gleiche Rechnungsnummer',
+  vendor_amount_date: 'Gleicher Lieferant, Betrag und Datum',
+}
+
+export interface DuplicateCandidate {
+  id: string
+  amount: number
+  expense_date: string
+  description: string | null
+  invoice_number: string | null
+  /** SHA-256 of the attached files */
+  content_hashes: string[]
+  /** Hashes of the normalised OCR text of the attached files */
+  text_hashes: string[]
+}
+
+export interface DuplicatePair {
+  /** The older expense of the pair (by date, then id) */
+  expense_id: string
+  duplicate_id: string
+  reasons: DuplicateReason[]
+}
+
+/**
+ * Receipt text reduced to letters and digits, so OCR runs of the same receipt
+ * compare equal; null if too little text was recognised
+ */
+export function normalizeReceiptText(text: string | null): string | null {
+  if (!text) return null
+  const normalized = normalizeMatchText(text).replace(/\s+/g, ' ')
+  return normalized.length >= MIN_RECEIPT_TEXT_LENGTH ? normalized : null
+}
+
+/**
+ * Invoice number without separators and leading zeros ("RE-2025/0042" and
+ * "re 2025 42" are the same number); null if too short to compare
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string | null): string | null {
+  if (!invoiceNumber) return null
+  const normalized = normalizeMatchText(invoiceNumber)
+    .split(' ')
+    .map(part => part.replace(/^0+(?=\d)/, ''))
+    .join('')
+  return normalized.length >= MIN_INVOICE_NUMBER_LENGTH ? normalized : null
+}
+
+/**
+ * Order-independent key of two expenses, as stored in expense_links
+ */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`
+}
+
+/**
+ * Distinctive words of the vendor: the part of the description before ":"
+ * (bill scanner and bank import put the vendor there)
+ */
+function vendorTokens(description: string | null): Set<string> {
+  if (!description) return new Set()
+  const vendor = description.split(':')[0]
+  return new Set(
+    normalizeMatchText(vendor)
+      .split(' ')
+      .filter(token => token.length >= 4 && /[a-z]/.test(token) && !VENDOR_STOPWORDS.has(token))
+  )
+}
+
+function similarVendor(a: Set<string>, b: Set<string>): boolean {
+  for (const token of a) {
+    if (b.has(token)) return true
+  }
+  return false
+}
+
+function daysApart(a: string, b: string): number {
+  const toTime = (date: string) => Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)))
+  return Math.abs(Math.round((toTime(b) - toTime(a)) / 86400000))
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.01
+}
+
+/**
+ * Pairs of expenses that are probably the same receipt
+ * A shared invoice number alone is not enough, as vendors number
+ * independently; it also needs the same amount or vendor.
+ *
+ * @param linkedPairs pairKey()s the user confirmed as belonging together
+ */
+export function findDuplicatePairs(
+  expenses: DuplicateCandidate[],
+  linkedPairs: Set<string> = new Set()
+): DuplicatePair[] {
+  const byId = new Map(expenses.map(expense => [expense.id, expense]))
+  const vendors = new Map(expenses.map(expense => [expense.id, vendorTokens(expense.description)]))
+  const found = new Map<string, { a: string; b: string; reasons: Set<DuplicateReason> }>()
+
+  const add = (a: string, b: string, reason: DuplicateReason) => {
+    if (a === b) return
+    const key = pairKey(a, b)
+    if (linkedPairs.has(key)) return
+    const pair = found.get(key) ?? { a, b, reasons: new Set<DuplicateReason>() }
+    pair.reasons.add(reason)
+    found.set(key, pair)
+  }
+
+  // Group by a key and report every pair within a group
+  const pairsBy = (
+    keysOf: (expense: DuplicateCandidate) => Array<string | null>,
+    reason: DuplicateReason,
+    accept: (a: DuplicateCandidate, b: DuplicateCandidate) => boolean
+  ) => {
+    const groups = new Map<string, DuplicateCandidate[]>()
+    for (const expense of expenses) {
+      for (const key of new Set(keysOf(expense))) {
+        if (!key) continue
+        const group = groups.get(key)
+        if (group) group.push(expense)
+        else groups.set(key, [expense])
+      }
+    }
+    for (const group of groups.values()) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          if (accept(group[i], group[j])) add(group[i].id, group[j].id, reason)
+        }
+      }
+    }
+  }
+
+  pairsBy(expense => expense.content_hashes, 'file', () => true)
+  pairsBy(expense => expense.text_hashes, 'text', () => true)
+  pairsBy(
+    expense => [normalizeInvoiceNumber(expense.invoice_number)],
+    'invoice_number',
+    (a, b) => sameAmount(a.amount, b.amount) || similarVendor(vendors.get(a.id)!, vendors.get(b.id)!)
+  )
+  pairsBy(
+    expense => [Math.round(expense.amount * 100).toString()],
+    'vendor_amount_date',
+    (a, b) =>
+      daysApart(a.expense_date, b.expense_date) <= DUPLICATE_DATE_DAYS &&
+      similarVendor(vendors.get(a.id)!, vendors.get(b.id)!)
+  )
+
+  return [...found.values()]
+    .map(({ a, b, reasons }) => {
+      const [first, second] = [byId.get(a)!, byId.get(b)!].sort((x, y) =>
+        x.expense_date === y.expense_date ? x.id.localeCompare(y.id) : x.expense_date.localeCompare(y.expense_date)
+      )
+      return { expense_id: first.id, duplicate_id: second.id, reasons: [...reasons] }
+    })
+    .sort((x, y) => x.expense_id.localeCompare(y.expense_id) || x.duplicate_id.localeCompare(y.duplicate_id))
+}
@@ -0,0 +1,290 @@
+/**
+ * Expense Categorisation
+ * Suggests category, subcategory and recurrence for new expenses from
+ * user rules, previously entered expenses and built-in keywords
+ */
+
+import { normalizeMatchText } from './therapy-matching'
+
+export type ExpenseRecurrence = 'monthly' | 'quarterly' | 'yearly'
+
+export type CategorySource = 'rule' | 'history' | 'keyword'
+
+export const CATEGORY_SOURCE_LABELS: Record<CategorySource, string> = {
+  rule: 'Regel',
+  history: 'Frühere Ausgaben',
+  keyword: 'Stichwort',
+}
+
+/** Confidence of a matching user rule */
+const RULE_CONFIDENCE = 0.95
+
+/** Confidence of a built-in keyword match (with / without subcategory) */
+const KEYWORD_CONFIDENCE = 0.5
+const KEYWORD_SUBCATEGORY_CONFIDENCE = 0.6
+
+/** Vendor keys shorter than this are not compared with earlier expenses */
+const MIN_VENDOR_KEY_LENGTH = 3
+
+export interface CategoryRuleLike {
+  id?: string
+  vendor_contains: string | null
+  keyword: string | null
+  amount_min: number | null
+  amount_max: number | null
+  category: string
+  subcategory: string | null
+  recurrence_interval: ExpenseRecurrence | null
+}
+
+export interface CategorizedExpenseLike {
+  description: string | null
+  category: string
+  subcategory: string | null
+  is_recurring: boolean
+  recurrence_interval: ExpenseRecurrence | null
+}
+
+export interface ExpenseToCategorize {
+  /** Vendor or payee (OCR vendor_name, bank counterparty); derived from the description if missing */
+  vendor?: string | null
+  description?: string | null
+  amount?: number | null
+}
+
+export interface CategorizationContext {
+  rules: CategoryRuleLike[]
+  /** Previously entered expenses, newest first */
+  history: CategorizedExpenseLike[]
+}
+
+export interface ExpenseCategorySuggestion {
+  category: string
+  subcategory: string | null
+  recurrence_interval: ExpenseRecurrence | null
+  /** 0-1 */
+  confidence: number
+  source: CategorySource
+  rule_id?: string
+}
+
+/**
+ * Built-in keywords, checked in order; used when neither a rule nor an earlier expense matches
+ */
+export const DEFAULT_CATEGORY_KEYWORDS: Array<{ category: string; subcategory?: string; keywords: string[] }> = [
+  {
+    category: 'Sonstige Betriebsausgaben',
+    subcategory: 'Bankgebühren',
+    keywords: ['kontofuehrung', 'kontoabschluss', 'spesen', 'entgelt', 'bankgebuehr', 'kartengebuehr'],
+  },
+  {
+    category: 'Pflichtbeiträge',
+    subcategory: 'Versicherungsbeiträge',
+    keywords: ['sozialversicherung der selbstaendigen', 'svs'],
+  },
+  {
+    category: 'Pflichtbeiträge',
+    subcategory: 'Ärztekammer',
+    keywords: ['aerztekammer'],
+  },
+  {
+    category: 'Räumlichkeiten',
+    keywords: [
+      'miete', 'rent', 'pacht', 'lease',
+      'strom', 'wasser', 'gas', 'energie', 'electricity', 'water', 'heizung', 'heating', 'cooling',
+      'betriebskosten', 'nebenkosten', 'facility', 'ordinationsraeume', 'praxis',
+    ],
+  },
+  {
+    category: 'Personal',
+    keywords: [
+      'gehalt', 'lohn', 'salary', 'wage', 'mitarbeiter', 'staff', 'personalkosten',
+      'sozialversicherung', 'lohnverrechnung', 'fortbildung', 'training',
+    ],
+  },
+  {
+    category: 'Medizinischer Bedarf',
+    keywords: [
+      'apotheke', 'pharma', 'medizin', 'medicine', 'pharmacy',
+      'arztbedarf', 'verbrauchsmaterial', 'desinfektionsmittel', 'desinfection',
+      'spritze', 'kanuele', 'verbandsmaterial', 'instrumentarium',
+      'laborbedarf', 'diagnostik', 'roentgen',
+    ],
+  },
+  {
+    category: 'Ausstattung & Geräte',
+    keywords: [
+      'wartung', 'reparatur', 'maintenance', 'repair', 'service', 'instandhaltung',
+      'geraete', 'equipment', 'einrichtung', 'furniture', 'moebel',
+      'computer', 'drucker', 'scanner', 'edv ausruestung', 'leasing',
+      'liegen', 'stuhl', 'behandlungseinheit', 'sterilisator',
+    ],
+  },
+  {
+    category: 'Versicherungen',
+    keywords: [
+      'versicherung', 'insurance', 'haftung', 'haftpflicht', 'liability',
+      'berufshaftpflicht', 'betriebsversicherung', 'praxisausfall', 'rechtsschutz',
+      'versicherungsbeitrag',
+    ],
+  },
+  {
+    category: 'IT & Digital',
+    keywords: [
+      'software', 'ordinationssoftware', 'arztsoftware', 'praxissoftware',
+      'ecard', 'e card system', 'it support', 'cloud', 'telefon', 'telefax',
+      'internet', 'telekommunikation', 'domain', 'website', 'server',
+    ],
+  },
+  {
+    category: 'Beratung & Verwaltung',
+    keywords: [
+      'beratung', 'consulting', 'steuerberatung', 'steuer', 'tax', 'taxation',
+      'buchhaltung', 'buchhalter', 'accounting', 'rechtsanwalt', 'lawyer', 'anwalt',
+      'wirtschaftspruefung', 'revision', 'pruefung', 'audit',
+    ],
+  },
+  {
+    category: 'Pflichtbeiträge',
+    keywords: [
+      'kammer', 'beitrag', 'fee', 'membership',
+      'fortbildungsbeitrag', 'pflichtversicherung', 'pflichtbeitrag',
+    ],
+  },
+  {
+    category: 'Sonstige Betriebsausgaben',
+    keywords: [
+      'buero', 'office', 'papier', 'tinte', 'printer', 'paper', 'stationery',
+      'werbung', 'marketing', 'advertising', 'anzeige',
+      'hotel', 'lufthansa', 'taxi', 'uber', 'flug', 'bahn', 'travel', 'fahrt', 'reise',
+      'gebuehren', 'fees', 'porto', 'versand', 'shipping',
+    ],
+  },
+]
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return phrase !== '' && ` ${text} `.includes(` ${phrase} `)
+}
+
+/**
+ * Normalized vendor of an expense
+ * Scanned and imported expenses are described as "Vendor: details"
+ */
+export function getVendorKey(input: ExpenseToCategorize): string {
+  if (input.vendor) return normalizeMatchText(input.vendor)
+  const description = input.description ?? ''
+  const separator = description.indexOf(':')
+  return normalizeMatchText(separator > 0 ? description.slice(0, separator) : description)
+}
+
+/**
+ * Whether all criteria of a rule match
+ */
+export function matchesCategoryRule(rule: CategoryRuleLike, input: ExpenseToCategorize): boolean {
+  const vendor = getVendorKey(input)
+  const text = normalizeMatchText(`${input.vendor ?? ''} ${input.description ?? ''}`)
+  const amount = input.amount != null ? Math.abs(input.amount) : null
+
+  if (rule.vendor_contains && !containsPhrase(vendor, rule.vendor_contains) && !containsPhrase(text, rule.vendor_contains)) {
+    return false
+  }
+  if (rule.keyword && !containsPhrase(text, rule.keyword)) return false
+  if (rule.amount_min != null && (amount === null || amount < Number(rule.amount_min))) return false
+  if (rule.amount_max != null && (amount === null || amount > Number(rule.amount_max))) return false
+
+  return !!(rule.vendor_contains || rule.keyword || rule.amount_min != null || rule.amount_max != null)
+}
+
+function ruleSpecificity(rule: CategoryRuleLike): number {
+  const criteria = [rule.vendor_contains, rule.keyword, rule.amount_min, rule.amount_max].filter(c => c != null).length
+  return criteria * 1000 + (rule.vendor_contains?.length ?? 0) + (rule.keyword?.length ?? 0)
+}
+
+/**
+ * Category of earlier expenses from the same vendor (majority vote)
+ * Confidence grows with the number of earlier expenses and their agreement
+ */
+export function suggestFromHistory(
+  input: ExpenseToCategorize,
+  history: CategorizedExpenseLike[]
+): ExpenseCategorySuggestion | null {
+  const vendor = getVendorKey(input)
+  if (vendor.length < MIN_VENDOR_KEY_LENGTH) return null
+
+  const matches = history.filter(expense => {
+    const key = getVendorKey({ description: expense.description })
+    return key.length >= MIN_VENDOR_KEY_LENGTH && (containsPhrase(key, vendor) || containsPhrase(vendor, key))
+  })
+  if (matches.length === 0) return null
+
+  const groups = new Map<string, CategorizedExpenseLike[]>()
+  for (const expense of matches) {
+    const key = `${expense.category}|${expense.subcategory ?? ''}`
+    groups.set(key, [...(groups.get(key) ?? []), expense])
+  }
+  const [best] = [...groups.values()].sort((a, b) => b.length - a.length)
+
+  const recurring = best.filter(e => e.is_recurring && e.recurrence_interval)
+  const intervals = new Map<ExpenseRecurrence, number>()
+  for (const expense of recurring) {
+    intervals.set(expense.recurrence_interval!, (intervals.get(expense.recurrence_interval!) ?? 0) + 1)
+  }
+  const interval = recurring.length * 2 > best.length
+    ? [...intervals.entries()].sort((a, b) => b[1] - a[1])[0][0]
+    : null
+
+  const weight = matches.length >= 3 ? 0.9 : matches.length === 2 ? 0.8 : 0.7
+  return {
+    category: best[0].category,
+    subcategory: best[0].subcategory,
+    recurrence_interval: interval,
+    confidence: Math.round((best.length / matches.length) * weight * 100) / 100,
+    source: 'history',
+  }
+}
+
+/**
+ * Category from the built-in keyword list
+ */
+export function suggestFromKeywords(input: ExpenseToCategorize): ExpenseCategorySuggestion | null {
+  const text = normalizeMatchText(`${input.vendor ?? ''} ${input.description ?? ''}`)
+  if (!text) return null
+
+  const match = DEFAULT_CATEGORY_KEYWORDS.find(entry => entry.keywords.some(keyword => text.includes(keyword)))
+  if (!match) return null
+
+  return {
+    category: match.category,
+    subcategory: match.subcategory ?? null,
+    recurrence_interval: null,
+    confidence: match.subcategory ? KEYWORD_SUBCATEGORY_CONFIDENCE : KEYWORD_CONFIDENCE,
+    source: 'keyword',
+  }
+}
+
+/**
+ * Suggest category, subcategory and recurrence for an expense
+ * User rules win (most specific first), then earlier expenses of the same vendor,
+ * then built-in keywords
+ */
+export function categorizeExpense(
+  input: ExpenseToCategorize,
+  context: CategorizationContext
+): ExpenseCategorySuggestion | null {
+  const rule = context.rules
+    .filter(r => matchesCategoryRule(r, input))
+    .sort((a, b) => ruleSpecificity(b) - ruleSpecificity(a))[0]
+
+  if (rule) {
+    return {
+      category: rule.category,
+      subcategory: rule.subcategory,
+      recurrence_interval: rule.recurrence_interval,
+      confidence: RULE_CONFIDENCE,
+      source: 'rule',
+      rule_id: rule.id,
+    }
+  }
+
+  return suggestFromHistory(input, context.history) ?? suggestFromKeywords(input)
+}
@@ -0,0 +1,114 @@
+/**
+ * Pauschalierung Optimiser
+ *
+ * Calculates the taxes of a year with actual expenses (E/A-Rechnung) and with
+ * each Pauschalierung variant whose revenue limit is met, and recommends the
+ * method with the lowest taxes and contributions. The money actually spent is
+ * the same for every method, so only the burden is compared, not the profit.
+ */
+
+import type {
+  ComprehensiveTaxInput,
+  ExpenseMethod,
+  ExpenseMethodOption,
+  PauschalierungComparison,
+  SelfEmploymentIncome,
+} from '@/lib/types/tax-types'
+import { PAUSCHALIERUNG_ADDITIONAL_SUBCATEGORIES } from '../constants'
+import { getTaxConfig } from '../config/tax-config'
+import { calculatePauschalExpenses, calculateTax, roundAmount } from './tax-engine'
+
+export const EXPENSE_METHOD_LABELS: Record<ExpenseMethod, string> = {
+  actual: 'Tatsächliche Ausgaben',
+  basis: 'Basispauschalierung',
+  kleinunternehmer: 'Kleinunternehmerpauschalierung',
+}
+
+/**
+ * Expenses deductible on top of the Basispauschalierung: the entered amount,
+ * otherwise the Löhne and Wareneinkauf subcategories of the expense breakdown
+ */
+export function getPauschalAdditionalExpenses(selfEmployment: SelfEmploymentIncome): number {
+  if (selfEmployment.pauschalAdditionalExpenses !== undefined) {
+    return roundAmount(selfEmployment.pauschalAdditionalExpenses)
+  }
+
+  return roundAmount(
+    Object.entries(selfEmployment.expenseBreakdown ?? {})
+      .filter(([subcategory]) => PAUSCHALIERUNG_ADDITIONAL_SUBCATEGORIES.includes(subcategory))
+      .reduce((sum, [, amount]) => sum + amount, 0)
+  )
+}
+
+/**
+ * Compare actual expenses with the Basis- and Kleinunternehmerpauschalierung
+ * Returns null without self-employment income
+ */
+export function comparePauschalierung(input: ComprehensiveTaxInput): PauschalierungComparison | null {
+  const selfEmployment = input.selfEmployment
+  if (!selfEmployment) {
+    return null
+  }
+
+  const taxYear = input.taxYear || new Date().getFullYear()
+  const config = getTaxConfig(taxYear)
+  const revenue = roundAmount(selfEmployment.totalRevenue || 0)
+  const actualExpenses = roundAmount(selfEmployment.businessExpenses || 0)
+  const additionalExpenses = Math.min(actualExpenses, getPauschalAdditionalExpenses(selfEmployment))
+
+  const calculate = (method: ExpenseMethod) =>
+    calculateTax(
+      {
+        ...input,
+        taxYear,
+        selfEmployment: {
+          ...selfEmployment,
+          basisPauschalierung: method === 'basis',
+          kleinunternehmerPauschalierung: method === 'kleinunternehmer',
+          pauschalAdditionalExpenses: additionalExpenses,
+        },
+      },
+      config
+    )
+
+  const flatRateOptions = (['basis', 'kleinunternehmer'] as const).map((method): ExpenseMethodOption => {
+    const flatRate = calculatePauschalExpenses(revenue, config, method)
+    const limits = method === 'basis' ? config.pauschalierung : config.kleinunternehmerPauschalierung
+    const additional = flatRate !== null && method === 'basis' ? additionalExpenses : 0
+
+    return {
+      method,
+      label: EXPENSE_METHOD_LABELS[method],
+      eligible: flatRate !== null,
+      revenueLimit: limits.revenueLimit,
+      flatRateExpenses: flatRate ?? 0,
+      additionalExpenses: additional,
+      deductibleExpenses: roundAmount((flatRate ?? 0) + additional),
+      result: flatRate !== null ? calculate(method) : null,
+    }
+  })
+
+  const actual: ExpenseMethodOption = {
+    method: 'actual',
+    label: EXPENSE_METHOD_LABELS.actual,
+    eligible: true,
+    flatRateExpenses: 0,
+    additionalExpenses: 0,
+    deductibleExpenses: actualExpenses,
+    result: calculate('actual'),
+  }
+  const actualBurden = actual.result!.totalDirectBurden
+
+  // Ties keep the actual expenses
+  const recommended = flatRateOptions.reduce(
+    (best, option) =>
+      option.result && option.result.totalDirectBurden < best.result!.totalDirectBurden ? option : best,
+    actual
+  )
+
+  return {
+    options: [actual, ...flatRateOptions],
+    recommended: recommended.method,
+    savings: roundAmount(actualBurden - recommended.result!.totalDirectBurden),
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Payer Types
+ * Kasse (ÖGK, BVAEB, SVS) vs. Privat (Wahlarzt, Selbstzahler) revenue split
+ */
+
+import type { Insurer, PayerRevenue, PayerType } from '@/lib/types'
+import { ledgerKey, type LedgerSessionLike } from './session-ledger'
+
+export type PayerGroup = 'kasse' | 'privat'
+
+export const PAYER_TYPES: Array<{ value: PayerType; label: string; group: PayerGroup }> = [
+  { value: 'oegk', label: 'ÖGK', group: 'kasse' },
+  { value: 'bvaeb', label: 'BVAEB', group: 'kasse' },
+  { value: 'svs', label: 'SVS', group: 'kasse' },
+  { value: 'wahlarzt', label: 'Wahlarzt (privat)', group: 'privat' },
+  { value: 'selbstzahler', label: 'Selbstzahler', group: 'privat' },
+]
+
+export const PAYER_TYPE_LABELS = Object.fromEntries(
+  PAYER_TYPES.map(payer => [payer.value, payer.label])
+) as Record<PayerType, string>
+
+export const PAYER_GROUP_LABELS: Record<PayerGroup, string> = {
+  kasse: 'Kasse',
+  privat: 'Privat',
+}
+
+export const DEFAULT_PAYER_TYPE: PayerType = 'wahlarzt'
+
+/** Insurers with a Kassentarif catalogue */
+export const INSURERS: Insurer[] = ['oegk', 'bvaeb', 'svs']
+
+/**
+ * Kasse or Privat group of a payer type
+ */
+export function getPayerGroup(payerType: PayerType): PayerGroup {
+  return payerType === 'oegk' || payerType === 'bvaeb' || payerType === 'svs' ? 'kasse' : 'privat'
+}
+
+/**
+ * Map an imported patient type / insurance value ("Kasse", "ÖGK", "Privat", "Wahlarzt") to its payer group
+ * Returns undefined for empty or unknown values
+ */
+export function normalizePatientType(raw: unknown): PayerGroup | undefined {
+  const value = String(raw ?? '').toLowerCase().trim()
+  if (!value) return undefined
+
+  if (value.includes('privat') || value.includes('wahl') || value.includes('selbst')) return 'privat'
+  if (
+    value.includes('kasse') || value.includes('ögk') || value.includes('oegk') || value.includes('gkk') ||
+    value.includes('bvaeb') || value.includes('svs')
+  ) {
+    return 'kasse'
+  }
+  return undefined
+}
+
+/**
+ * Payer of an imported session
+ * The therapy type's payer is used unless the imported patient type belongs to the other group
+ */
+export function resolveSessionPayerType(
+  patientType: 'kasse' | 'privat' | null | undefined,
+  therapyPayerType: PayerType | null | undefined
+): PayerType {
+  const therapyPayer = therapyPayerType ?? DEFAULT_PAYER_TYPE
+  if (!patientType || getPayerGroup(therapyPayer) === patientType) {
+    return therapyPayer
+  }
+  return patientType === 'kasse' ? 'oegk' : 'wahlarzt'
+}
+
+export function emptyPayerRevenue(): PayerRevenue {
+  return { oegk: 0, bvaeb: 0, svs: 0, wahlarzt: 0, selbstzahler: 0 }
+}
+
+/**
+ * Add revenue to a payer split (mutates and returns the split)
+ */
+export function addPayerRevenue(
+  split: PayerRevenue,
+  payerType: PayerType | null | undefined,
+  revenue: number
+): PayerRevenue {
+  split[payerType ?? DEFAULT_PAYER_TYPE] += revenue
+  return split
+}
+
+/**
+ * Sum up revenue per payer type
+ */
+export function splitRevenueByPayer(
+  items: Array<{ payer_type: PayerType | null | undefined; revenue: number }>
+): PayerRevenue {
+  return items.reduce((split, item) => addPayerRevenue(split, item.payer_type, item.revenue), emptyPayerRevenue())
+}
+
+/**
+ * Combine several payer splits
+ */
+export function mergePayerRevenue(...splits: PayerRevenue[]): PayerRevenue {
+  const merged = emptyPayerRevenue()
+  for (const split of splits) {
+    for (const payer of Object.keys(merged) as PayerType[]) {
+      merged[payer] += split[payer] || 0
+    }
+  }
+  return merged
+}
+
+/**
+ * Aggregate ledger revenue per payer type for each month and therapy type
+ * Sessions without a payer fall back to the payer of their therapy type
+ * @returns Map keyed by ledgerKey(YYYY-MM, therapy_type_id)
+ */
+export function aggregateLedgerByPayer(
+  sessions: Array<LedgerSessionLike & { payer_type?: PayerType | null }>,
+  therapyPayers: Map<string, PayerType>
+): Map<string, PayerRevenue> {
+  const result = new Map<string, PayerRevenue>()
+
+  for (const session of sessions) {
+    const key = ledgerKey(session.session_date.slice(0, 7), session.therapy_type_id)
+    const split = result.get(key) ?? emptyPayerRevenue()
+    addPayerRevenue(
+      split,
+      session.payer_type ?? therapyPayers.get(session.therapy_type_id),
+      Number(session.gross_amount) || 0
+    )
+    result.set(key, split)
+  }
+
+  return result
+}
+
+/**
+ * Payer split of a month/therapy combination's actual revenue
+ * Mirrors resolveActualRevenue: the ledger split wins when invoices exist,
+ * otherwise all revenue is attributed to the therapy type's payer
+ * Revenue beyond the ledger split (e.g. cash basis: uninvoiced sessions next to
+ * receipts) is attributed to the therapy type's payer as well
+ */
+export function resolveActualRevenueByPayer(
+  actualRevenue: number,
+  therapyPayerType: PayerType | null | undefined,
+  ledgerSplit?: PayerRevenue
+): PayerRevenue {
+  if (ledgerSplit && Object.values(ledgerSplit).some(revenue => revenue !== 0)) {
+    const ledgerTotal = Object.values(ledgerSplit).reduce((sum, revenue) => sum + revenue, 0)
+    const remainder = Math.round((actualRevenue - ledgerTotal) * 100) / 100
+    return remainder > 0
+      ? addPayerRevenue({ ...ledgerSplit }, therapyPayerType, remainder)
+      : { ...ledgerSplit }
+  }
+  return addPayerRevenue(emptyPayerRevenue(), therapyPayerType, actualRevenue)
+}
+
+/**
+ * Kasse and Privat totals of a payer split
+ */
+export function summarizePayerGroups(split: PayerRevenue): Record<PayerGroup, number> {
+  const groups: Record<PayerGroup, number> = { kasse: 0, privat: 0 }
+  for (const [payer, revenue] of Object.entries(split) as Array<[PayerType, number]>) {
+    groups[getPayerGroup(payer)] += revenue
+  }
+  return groups
+}
+
+/**
+ * Share of private revenue (0-1), null when there is no revenue
+ */
+export function getPrivateShare(split: PayerRevenue): number | null {
+  const { kasse, privat } = summarizePayerGroups(split)
+  const total = kasse + privat
+  return total > 0 ? privat / total : null
+}
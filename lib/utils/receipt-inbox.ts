@@ -0,0 +1,88 @@
+/**
+ * Receipt Inbox
+ * Ingest addresses (belege+<token>@<domain>) and the selection of receipt
+ * attachments from incoming e-mails
+ */
+
+import { OCR_FILE_TYPES } from '../constants'
+import type { DocumentSource } from '@/lib/types'
+
+/** Local part of the ingest address before the per-user token */
+export const INBOX_ADDRESS_PREFIX = 'belege'
+
+/** Inline images smaller than this are logos of the e-mail signature */
+const MIN_INLINE_IMAGE_SIZE = 20 * 1024
+
+/** Characters of sender and subject kept as source of a document */
+const MAX_SOURCE_DETAIL_LENGTH = 500
+
+export const DOCUMENT_SOURCE_LABELS: Record<DocumentSource, string> = {
+  upload: 'Upload',
+  email: 'E-Mail',
+  folder: 'Ordner',
+}
+
+export interface MailAttachmentInfo {
+  contentType: string
+  contentDisposition?: string
+  filename?: string
+  size: number
+}
+
+/**
+ * Ingest address of a user
+ */
+export function inboxAddress(token: string, domain: string): string {
+  return `${INBOX_ADDRESS_PREFIX}+${token}@${domain}`
+}
+
+/**
+ * Token of the first ingest address among the recipients
+ * Recipients may carry display names ("Belege <belege+ab12@example.at>")
+ */
+export function inboxTokenFromRecipients(recipients: string[]): string | null {
+  const pattern = new RegExp(`(?:^|[<\\s,;])${INBOX_ADDRESS_PREFIX}\\+([a-z0-9]+)@`, 'i')
+  for (const recipient of recipients) {
+    const match = recipient.match(pattern)
+    if (match) return match[1].toLowerCase()
+  }
+  return null
+}
+
+/**
+ * File type of an attachment the OCR can read, null for anything else
+ * Mail clients often send PDFs as application/octet-stream
+ */
+export function receiptAttachmentType(attachment: MailAttachmentInfo): string | null {
+  const type = attachment.contentType.toLowerCase()
+  if (OCR_FILE_TYPES.includes(type)) return type
+  if (type === 'application/octet-stream' && /\.pdf$/i.test(attachment.filename ?? '')) {
+    return 'application/pdf'
+  }
+  return null
+}
+
+/**
+ * Attachments of an e-mail that are receipts, with their file type
+ * Small inline images (signature logos, social icons) are skipped
+ */
+export function selectReceiptAttachments<T extends MailAttachmentInfo>(
+  attachments: T[]
+): Array<{ attachment: T; type: string }> {
+  return attachments.flatMap(attachment => {
+    const type = receiptAttachmentType(attachment)
+    if (!type) return []
+    if (type.startsWith('image/') && attachment.contentDisposition === 'inline' && attachment.size < MIN_INLINE_IMAGE_SIZE) {
+      return []
+    }
+    return [{ attachment, type }]
+  })
+}
+
+/**
+ * Source detail of a document from an e-mail: sender and subject
+ */
+export function mailSourceDetail(from: string | null, subject: string | null): string | null {
+  const detail = [from, subject].filter(Boolean).join(': ')
+  return detail ? detail.slice(0, MAX_SOURCE_DETAIL_LENGTH) : null
+}
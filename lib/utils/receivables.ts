@@ -0,0 +1,242 @@
+/**
+ * Receivables
+ * Pure functions for open invoices: payment status, ageing buckets and dunning
+ */
+
+import type { DunningLevel, PaymentStatus } from '@/lib/types'
+
+export type AgeingBucket = '0-30' | '31-60' | '60+'
+
+export const AGEING_BUCKETS: AgeingBucket[] = ['0-30', '31-60', '60+']
+
+export const AGEING_BUCKET_LABELS: Record<AgeingBucket, string> = {
+  '0-30': '0–30 Tage',
+  '31-60': '31–60 Tage',
+  '60+': 'über 60 Tage',
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  bezahlt: 'Bezahlt',
+  teilbezahlt: 'Teilbezahlt',
+  offen: 'Offen',
+}
+
+export const DUNNING_LEVEL_LABELS: Record<DunningLevel, string> = {
+  0: 'Keine Mahnung',
+  1: 'Zahlungserinnerung',
+  2: '1. Mahnung',
+  3: '2. Mahnung',
+}
+
+export interface ReceivableSessionLike {
+  id: string
+  therapy_type_id: string
+  session_date: string
+  gross_amount: number
+  paid_amount: number
+  payment_status: PaymentStatus
+  invoice_number: string | null
+  dunning_level: DunningLevel
+  last_dunning_date: string | null
+}
+
+/**
+ * Open invoice, aggregated from its ledger rows
+ */
+export interface Receivable {
+  key: string
+  invoice_number: string | null
+  session_ids: string[]
+  therapy_type_id: string
+  invoice_date: string
+  gross_amount: number
+  paid_amount: number
+  open_amount: number
+  payment_status: PaymentStatus
+  days_outstanding: number
+  bucket: AgeingBucket
+  dunning_level: DunningLevel
+  suggested_dunning_level: DunningLevel
+  last_dunning_date: string | null
+}
+
+export interface ReceivablesSummary {
+  total: number
+  count: number
+  buckets: Record<AgeingBucket, { count: number; amount: number }>
+}
+
+/**
+ * Map a Latido "Zahlungsstatus" value to a payment status
+ * Returns undefined for empty or unknown values (cancellations are handled by the importer)
+ */
+export function normalizePaymentStatus(raw: unknown): PaymentStatus | undefined {
+  const value = String(raw ?? '').toLowerCase().trim()
+  if (!value) return undefined
+
+  if (value.includes('teil')) return 'teilbezahlt'
+  if (
+    value.includes('offen') || value.includes('unbezahlt') || value.includes('nicht bezahlt') ||
+    value.includes('ausständig') || value.includes('fällig') || value.includes('mahnung')
+  ) {
+    return 'offen'
+  }
+  if (value.includes('bezahlt') || value.includes('beglichen') || value.includes('erhalten')) return 'bezahlt'
+  return undefined
+}
+
+/**
+ * Resolve payment status, paid amount and payment date of an imported invoice
+ * Without a status the invoice counts as paid on the invoice date (former import behaviour)
+ *
+ * @param input.paidAmount Amount paid so far, if exported
+ * @param input.openAmount Amount still open, if exported (used when paidAmount is missing)
+ */
+export function resolveInvoicePayment(input: {
+  status?: PaymentStatus
+  grossAmount: number
+  invoiceDate: string
+  paidAmount?: number
+  openAmount?: number
+  paidDate?: string
+}): { payment_status: PaymentStatus; paid_amount: number; paid_date: string | null } {
+  const { grossAmount, invoiceDate, paidDate } = input
+  const status = input.status ?? 'bezahlt'
+
+  if (status === 'bezahlt') {
+    return { payment_status: 'bezahlt', paid_amount: grossAmount, paid_date: paidDate ?? invoiceDate }
+  }
+  if (status === 'offen') {
+    return { payment_status: 'offen', paid_amount: 0, paid_date: null }
+  }
+
+  const paid = input.paidAmount ?? (input.openAmount !== undefined ? grossAmount - input.openAmount : 0)
+  const paidAmount = Math.min(grossAmount, Math.max(0, paid))
+  return {
+    payment_status: paidAmount >= grossAmount ? 'bezahlt' : paidAmount > 0 ? 'teilbezahlt' : 'offen',
+    paid_amount: paidAmount,
+    paid_date: paidAmount > 0 ? paidDate ?? invoiceDate : null,
+  }
+}
+
+/**
+ * Amount of a ledger row that is still open
+ */
+export function getOpenAmount(session: { gross_amount: number; paid_amount: number }): number {
+  return Math.max(0, Math.round((Number(session.gross_amount) - Number(session.paid_amount)) * 100) / 100)
+}
+
+/**
+ * Allocate a received payment to the open ledger rows of an invoice (in order)
+ * Amounts beyond the open total are ignored
+ */
+export function allocatePayment(
+  rows: Array<{ id: string; gross_amount: number; paid_amount: number }>,
+  amount: number
+): Array<{ id: string; paid_amount: number; payment_status: PaymentStatus }> {
+  let remaining = Math.max(0, amount)
+
+  return rows.map(row => {
+    const gross = Number(row.gross_amount)
+    const allocated = Math.min(remaining, getOpenAmount(row))
+    remaining = Math.round((remaining - allocated) * 100) / 100
+    const paidAmount = Math.round((Number(row.paid_amount) + allocated) * 100) / 100
+
+    return {
+      id: row.id,
+      paid_amount: paidAmount,
+      payment_status: paidAmount >= gross ? 'bezahlt' : paidAmount > 0 ? 'teilbezahlt' : 'offen',
+    }
+  })
+}
+
+/**
+ * Days between the invoice date and a reference date (both YYYY-MM-DD)
+ */
+export function getDaysOutstanding(invoiceDate: string, asOf: string): number {
+  const start = Date.UTC(Number(invoiceDate.slice(0, 4)), Number(invoiceDate.slice(5, 7)) - 1, Number(invoiceDate.slice(8, 10)))
+  const end = Date.UTC(Number(asOf.slice(0, 4)), Number(asOf.slice(5, 7)) - 1, Number(asOf.slice(8, 10)))
+  return Math.max(0, Math.floor((end - start) / 86400000))
+}
+
+export function getAgeingBucket(daysOutstanding: number): AgeingBucket {
+  if (daysOutstanding <= 30) return '0-30'
+  if (daysOutstanding <= 60) return '31-60'
+  return '60+'
+}
+
+/**
+ * Dunning level that is due after a number of days
+ * Reminder after 30 days, 1st dunning letter after 45, 2nd after 60
+ */
+export function getSuggestedDunningLevel(daysOutstanding: number): DunningLevel {
+  if (daysOutstanding > 60) return 3
+  if (daysOutstanding > 45) return 2
+  if (daysOutstanding > 30) return 1
+  return 0
+}
+
+/**
+ * Build the open items list from ledger rows (one entry per invoice, oldest first)
+ * Rows without an invoice number are treated as separate invoices
+ *
+ * @param asOf Reference date for ageing (YYYY-MM-DD)
+ */
+export function buildReceivables(sessions: ReceivableSessionLike[], asOf: string): Receivable[] {
+  const byInvoice = new Map<string, ReceivableSessionLike[]>()
+
+  for (const session of sessions) {
+    if (session.payment_status === 'bezahlt' || getOpenAmount(session) <= 0) continue
+    const key = session.invoice_number ? `invoice:${session.invoice_number}` : `session:${session.id}`
+    const rows = byInvoice.get(key) ?? []
+    rows.push(session)
+    byInvoice.set(key, rows)
+  }
+
+  const receivables = Array.from(byInvoice.entries()).map(([key, rows]): Receivable => {
+    const first = rows[0]
+    const grossAmount = rows.reduce((sum, r) => sum + Number(r.gross_amount), 0)
+    const paidAmount = rows.reduce((sum, r) => sum + Number(r.paid_amount), 0)
+    const invoiceDate = rows.reduce((min, r) => (r.session_date < min ? r.session_date : min), first.session_date)
+    const daysOutstanding = getDaysOutstanding(invoiceDate, asOf)
+
+    return {
+      key,
+      invoice_number: first.invoice_number,
+      session_ids: rows.map(r => r.id),
+      therapy_type_id: first.therapy_type_id,
+      invoice_date: invoiceDate,
+      gross_amount: grossAmount,
+      paid_amount: paidAmount,
+      open_amount: rows.reduce((sum, r) => sum + getOpenAmount(r), 0),
+      payment_status: paidAmount > 0 ? 'teilbezahlt' : 'offen',
+      days_outstanding: daysOutstanding,
+      bucket: getAgeingBucket(daysOutstanding),
+      dunning_level: Math.max(...rows.map(r => r.dunning_level)) as DunningLevel,
+      suggested_dunning_level: getSuggestedDunningLevel(daysOutstanding),
+      last_dunning_date: first.last_dunning_date,
+    }
+  })
+
+  return receivables.sort((a, b) => a.invoice_date.localeCompare(b.invoice_date))
+}
+
+/**
+ * Total open amount per ageing bucket
+ */
+export function summarizeReceivables(receivables: Receivable[]): ReceivablesSummary {
+  const buckets = Object.fromEntries(
+    AGEING_BUCKETS.map(bucket => [bucket, { count: 0, amount: 0 }])
+  ) as ReceivablesSummary['buckets']
+
+  for (const receivable of receivables) {
+    buckets[receivable.bucket].count += 1
+    buckets[receivable.bucket].amount += receivable.open_amount
+  }
+
+  return {
+    total: receivables.reduce((sum, r) => sum + r.open_amount, 0),
+    count: receivables.length,
+    buckets,
+  }
+}
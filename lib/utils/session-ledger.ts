@@ -0,0 +1,127 @@
+/**
+ * Session Ledger Helpers
+ * Pure functions for working with the per-invoice session ledger
+ */
+
+import type { PaymentMethod } from '@/lib/types'
+
+export interface LedgerSessionLike {
+  therapy_type_id: string
+  session_date: string
+  gross_amount: number
+}
+
+export interface LedgerAggregate {
+  sessions: number
+  revenue: number
+}
+
+export interface CashLedgerSessionLike {
+  therapy_type_id: string
+  paid_date: string | null
+  paid_amount: number
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bar: 'Bar',
+  bankomat: 'Bankomat',
+  kreditkarte: 'Kreditkarte',
+  ueberweisung: 'Überweisung',
+  sonstige: 'Sonstige',
+}
+
+/**
+ * Map a Latido "Zahlungsart" value to a payment method
+ * Returns undefined for empty values
+ */
+export function normalizePaymentMethod(raw: unknown): PaymentMethod | undefined {
+  const value = String(raw ?? '').toLowerCase().trim()
+  if (!value) return undefined
+
+  if (value.includes('bar')) return 'bar'
+  if (value.includes('bankomat') || value.includes('maestro') || value.includes('debit')) return 'bankomat'
+  if (value.includes('kredit') || value.includes('visa') || value.includes('mastercard') || value.includes('karte')) {
+    return 'kreditkarte'
+  }
+  if (value.includes('überweisung') || value.includes('ueberweisung') || value.includes('rechnung') || value.includes('sepa')) {
+    return 'ueberweisung'
+  }
+  return 'sonstige'
+}
+
+/**
+ * Build the key used to group ledger rows by month and therapy type
+ * @param month YYYY-MM
+ */
+export function ledgerKey(month: string, therapyTypeId: string): string {
+  return `${month.slice(0, 7)}|${therapyTypeId}`
+}
+
+/**
+ * Aggregate ledger rows into session counts and revenue per month and therapy type
+ * @returns Map keyed by ledgerKey(YYYY-MM, therapy_type_id)
+ */
+export function aggregateSessionLedger(
+  sessions: LedgerSessionLike[]
+): Map<string, LedgerAggregate> {
+  const result = new Map<string, LedgerAggregate>()
+
+  for (const session of sessions) {
+    const key = ledgerKey(session.session_date.slice(0, 7), session.therapy_type_id)
+    const entry = result.get(key) ?? { sessions: 0, revenue: 0 }
+    entry.sessions += 1
+    entry.revenue += Number(session.gross_amount) || 0
+    result.set(key, entry)
+  }
+
+  return result
+}
+
+/**
+ * Sum up payments received per month and therapy type (Zuflussprinzip)
+ * @returns Map keyed by ledgerKey(YYYY-MM of paid_date, therapy_type_id)
+ */
+export function aggregateCashReceipts(sessions: CashLedgerSessionLike[]): Map<string, number> {
+  const result = new Map<string, number>()
+
+  for (const session of sessions) {
+    if (!session.paid_date) continue
+    const key = ledgerKey(session.paid_date.slice(0, 7), session.therapy_type_id)
+    result.set(key, (result.get(key) || 0) + (Number(session.paid_amount) || 0))
+  }
+
+  return result
+}
+
+/**
+ * Resolve the cash-basis revenue for a month/therapy combination
+ * Invoiced sessions count when they are paid (receipts of the month);
+ * sessions without invoices are assumed to be paid on the day of treatment
+ */
+export function resolveCashRevenue(
+  actualSessions: number,
+  pricePerSession: number,
+  ledgerEntry?: LedgerAggregate,
+  receipts: number = 0
+): number {
+  if (ledgerEntry && ledgerEntry.sessions > 0) {
+    return receipts
+  }
+  return actualSessions * pricePerSession + receipts
+}
+
+/**
+ * Resolve the actual revenue for a month/therapy combination
+ * Ledger revenue wins when invoices exist, otherwise sessions × price is used
+ * (manually entered results without invoices)
+ */
+export function resolveActualRevenue(
+  actualSessions: number,
+  pricePerSession: number,
+  ledgerEntry?: LedgerAggregate
+): number {
+  if (ledgerEntry && ledgerEntry.sessions > 0) {
+    return ledgerEntry.revenue
+  }
+  return actualSessions * pricePerSession
+}
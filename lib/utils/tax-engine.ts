@@ -0,0 +1,586 @@
+/**
+ * Austrian Tax Engine
+ *
+ * Single calculation core for income tax, social security (ASVG and SVS),
+ * Ärztekammer, Gewinnfreibetrag and VAT. Every rate, limit and bracket comes
+ * from the year-versioned TaxYearConfig; the Steuerprognose calculator
+ * (comprehensive-tax) and the dashboard metrics (austrian-tax) are adapters.
+ */
+
+import type {
+  ComprehensiveTaxInput,
+  ComprehensiveTaxResult,
+  ExpenseMethod,
+  GewinnfreibetragBreakdown,
+  SocialSecurityBreakdown,
+  TaxBracketBreakdown,
+  TaxCredits,
+  TaxDeductions,
+  TaxYearConfig,
+} from '@/lib/types/tax-types'
+import { getTaxConfig } from '../config/tax-config'
+
+/** Werbungskostenpauschale deducted from employment income */
+const STANDARD_WERBUNGSKOSTEN = 132
+
+// ========================================================================
+// UTILITY FUNCTIONS
+// ========================================================================
+
+/**
+ * Round amount to 2 decimal places (cent precision)
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Ensure amount is non-negative
+ */
+function ensureNonNegative(amount: number): number {
+  return Math.max(0, roundAmount(amount))
+}
+
+/**
+ * Tax year configuration, defaulting to the current year
+ */
+export function resolveTaxConfig(taxYear?: number): TaxYearConfig {
+  return getTaxConfig(taxYear || new Date().getFullYear())
+}
+
+// ========================================================================
+// SOCIAL SECURITY
+// ========================================================================
+
+/**
+ * Calculate employee social security contributions (ASVG)
+ */
+export function calculateEmployeeSs(
+  salary: number,
+  specialPayments: number,
+  config: TaxYearConfig
+): { total: number; breakdown: SocialSecurityBreakdown } {
+  const ssConfig = config.socialSecurity
+
+  // Apply cap to regular salary
+  const cappedSalary = Math.min(salary, ssConfig.maxAssessmentBase)
+  const cappedSpecial = Math.min(
+    specialPayments,
+    ssConfig.maxAssessmentBase - cappedSalary
+  )
+
+  const regularSs = roundAmount(cappedSalary * ssConfig.employeeRateRegular)
+  const specialSs = roundAmount(cappedSpecial * ssConfig.employeeRateSpecial)
+
+  return {
+    total: regularSs + specialSs,
+    breakdown: {
+      pension: roundAmount(cappedSalary * ssConfig.componentRates.pensionRate),
+      health: roundAmount(cappedSalary * ssConfig.componentRates.healthRate),
+      unemployment: roundAmount(
+        cappedSalary * ssConfig.componentRates.unemploymentRate
+      ),
+      accident: roundAmount(cappedSalary * ssConfig.componentRates.accidentRate),
+      specialPayments: specialSs,
+    },
+  }
+}
+
+/**
+ * Calculate self-employed social security (SVS)
+ *
+ * The annual profit is the assessment base, clamped to the Mindest- and
+ * Höchstbeitragsgrundlage; Unfallversicherung is a fixed monthly amount.
+ */
+export function calculateSelfEmployedSs(
+  profit: number,
+  config: TaxYearConfig
+): { total: number; breakdown: SocialSecurityBreakdown } {
+  const svs = config.selfEmployedSocialSecurity
+
+  const assessmentBase = roundAmount(
+    Math.min(Math.max(profit, svs.minMonthlyBase * 12), svs.maxMonthlyBase * 12)
+  )
+
+  const pension = roundAmount(assessmentBase * svs.pensionRate)
+  const health = roundAmount(assessmentBase * svs.healthRate)
+  const provision = roundAmount(assessmentBase * svs.provisionRate)
+  const accident = roundAmount(svs.accidentMonthly * 12)
+
+  return {
+    total: roundAmount(pension + health + provision + accident),
+    breakdown: {
+      pension,
+      health,
+      accident,
+      provision,
+      assessmentBase,
+    },
+  }
+}
+
+// ========================================================================
+// SELF-EMPLOYMENT
+// ========================================================================
+
+/**
+ * Calculate Ärztekammer (Medical Chamber) contributions
+ */
+export function calculateAerztekammerBeitrag(
+  profit: number,
+  config: TaxYearConfig
+): number {
+  const { baseFee, incomeRate } = config.aerztekammer
+  return roundAmount(baseFee + Math.max(0, profit) * incomeRate)
+}
+
+/**
+ * Calculate Gewinnfreibetrag (profit allowance)
+ *
+ * The Grundfreibetrag on the profit up to the limit is granted automatically.
+ * Above the limit, the tiered investment-based part is only granted up to the
+ * qualifying investments of the year and not at all with Basispauschalierung.
+ */
+export function calculateGewinnfreibetrag(
+  profit: number,
+  config: TaxYearConfig,
+  qualifyingInvestments = 0,
+  grundfreibetragOnly = false
+): GewinnfreibetragBreakdown {
+  const limits = config.deductionLimits
+  const base = Math.max(0, profit)
+  const grundfreibetrag = roundAmount(
+    Math.min(base, limits.gewinnfreibetragLimit) * limits.gewinnfreibetragRate
+  )
+
+  let investmentBasedMax = 0
+  if (!grundfreibetragOnly) {
+    let lowerLimit = limits.gewinnfreibetragLimit
+    for (const tier of limits.gewinnfreibetragInvestmentTiers) {
+      if (base <= lowerLimit) break
+      investmentBasedMax += (Math.min(base, tier.upperLimit) - lowerLimit) * tier.rate
+      lowerLimit = tier.upperLimit
+    }
+    investmentBasedMax = roundAmount(investmentBasedMax)
+  }
+
+  const investments = roundAmount(Math.max(0, qualifyingInvestments))
+  const investmentBased = Math.min(investmentBasedMax, investments)
+
+  return {
+    grundfreibetrag,
+    investmentBasedMax,
+    investmentBased,
+    qualifyingInvestments: investments,
+    missingInvestment: roundAmount(investmentBasedMax - investmentBased),
+    total: roundAmount(grundfreibetrag + investmentBased),
+  }
+}
+
+/**
+ * Flat-rate expenses of the Basispauschalierung or Kleinunternehmerpauschalierung
+ * Returns null if the revenue exceeds the limit of the year
+ */
+export function calculatePauschalExpenses(
+  revenue: number,
+  config: TaxYearConfig,
+  variant: Exclude<ExpenseMethod, 'actual'> = 'basis'
+): number | null {
+  const { rate, revenueLimit } =
+    variant === 'kleinunternehmer' ? config.kleinunternehmerPauschalierung : config.pauschalierung
+  if (revenue > revenueLimit) {
+    return null
+  }
+  return roundAmount(revenue * rate)
+}
+
+// ========================================================================
+// INCOME TAX
+// ========================================================================
+
+/**
+ * Calculate progressive income tax
+ */
+export function calculateProgressiveTax(
+  taxableIncome: number,
+  config: TaxYearConfig
+): { total: number; breakdown: TaxBracketBreakdown } {
+  const breakdown: TaxBracketBreakdown = {}
+
+  let tax = 0
+  let previousLimit = 0
+
+  for (const bracket of config.taxBrackets) {
+    if (taxableIncome <= previousLimit) {
+      break
+    }
+
+    const upper = Math.min(taxableIncome, bracket.upperLimit)
+    const taxableInBracket = upper - previousLimit
+
+    if (taxableInBracket > 0) {
+      const taxInBracket = roundAmount(taxableInBracket * bracket.rate)
+      tax += taxInBracket
+
+      const percentage = roundAmount(bracket.rate * 100)
+      const bracketKey = `€${previousLimit.toLocaleString('de-AT', {
+        maximumFractionDigits: 0,
+      })} - €${upper.toLocaleString('de-AT', {
+        maximumFractionDigits: 0,
+      })} (${percentage}%)`
+      breakdown[bracketKey] = taxInBracket
+    }
+
+    previousLimit = bracket.upperLimit
+  }
+
+  return {
+    total: roundAmount(tax),
+    breakdown,
+  }
+}
+
+/**
+ * Get marginal tax rate (%) for given income
+ */
+export function getMarginalTaxRate(
+  taxableIncome: number,
+  config: TaxYearConfig
+): number {
+  const brackets = config.taxBrackets
+
+  for (const bracket of brackets) {
+    if (taxableIncome <= bracket.upperLimit) {
+      return roundAmount(bracket.rate * 100)
+    }
+  }
+
+  return roundAmount(brackets[brackets.length - 1].rate * 100)
+}
+
+/**
+ * Calculate tax on special payments (13th, 14th salary)
+ */
+function calculateSpecialPaymentsTax(
+  specialPaymentsNet: number,
+  config: TaxYearConfig
+): number {
+  const { taxFreeLimit, taxRate } = config.specialPayments
+
+  if (specialPaymentsNet <= taxFreeLimit) {
+    return 0
+  }
+
+  return roundAmount((specialPaymentsNet - taxFreeLimit) * taxRate)
+}
+
+/**
+ * Calculate tax credits
+ */
+function calculateTaxCredits(
+  credits: TaxCredits | undefined,
+  config: TaxYearConfig
+): number {
+  if (!credits) {
+    return 0
+  }
+
+  let total = 0
+
+  if (credits.hasCommuterCredit) {
+    total += config.taxCredits.verkehrsabsetzbetrag
+  }
+
+  if (credits.commuterAllowance) {
+    total += credits.commuterAllowance
+  }
+
+  if (credits.soleEarnerCredit) {
+    total += credits.soleEarnerCredit
+  }
+
+  if (credits.childSupportCredit) {
+    total += credits.childSupportCredit
+  }
+
+  return roundAmount(total)
+}
+
+/**
+ * Calculate homeoffice deduction
+ */
+function calculateHomeofficeDeduction(
+  days: number | undefined,
+  config: TaxYearConfig
+): number {
+  if (!days || days <= 0) {
+    return 0
+  }
+
+  const limits = config.deductionLimits
+  const dailyTotal = roundAmount(days * limits.homeofficeDaily)
+
+  // Cap at monthly max (approximate for year)
+  const months = Math.min(12, Math.ceil(days / 20))
+  return roundAmount(
+    Math.min(dailyTotal, roundAmount(limits.homeofficeMonthlyMax * months))
+  )
+}
+
+/**
+ * Calculate total deductions
+ * The homeoffice deduction is a Werbungskosten of the employment income and
+ * already reduces taxableEmployment; pension contributions and life insurance
+ * premiums count up to the limits of the year
+ */
+function calculateTotalDeductions(
+  deductions: TaxDeductions | undefined,
+  config: TaxYearConfig
+): number {
+  if (!deductions) {
+    return 0
+  }
+
+  let total = 0
+
+  if (deductions.charitableDonations) {
+    total += deductions.charitableDonations
+  }
+
+  if (deductions.pensionContributions) {
+    total += Math.min(deductions.pensionContributions, config.deductionLimits.pensionContributionMax)
+  }
+
+  if (deductions.lifeInsurancePremiums) {
+    total += Math.min(deductions.lifeInsurancePremiums, config.deductionLimits.lifeInsuranceMax)
+  }
+
+  if (deductions.churchTax) {
+    total += deductions.churchTax
+  }
+
+  if (deductions.homeLoanInterest) {
+    total += deductions.homeLoanInterest
+  }
+
+  return roundAmount(total)
+}
+
+// ========================================================================
+// MAIN CALCULATOR
+// ========================================================================
+
+/**
+ * Calculate Austrian taxes and contributions for one tax year
+ *
+ * SVS and Ärztekammer are deducted as business expenses before the
+ * Gewinnfreibetrag; the Gewinnfreibetrag is based on the remaining profit.
+ */
+export function calculateTax(
+  input: ComprehensiveTaxInput,
+  config: TaxYearConfig
+): ComprehensiveTaxResult {
+  // ======== EMPLOYMENT INCOME ========
+  let employmentGross = 0
+  let employeeSsTotal = 0
+  let employeeSsBreakdown: SocialSecurityBreakdown = {
+    pension: 0,
+    health: 0,
+    unemployment: 0,
+    accident: 0,
+  }
+  let wageTaxWithheld = 0
+  let taxableEmployment = 0
+  let specialPaymentsGross = 0
+  let specialPaymentsNet = 0
+
+  if (input.employment) {
+    const emp = input.employment
+
+    employmentGross = roundAmount(emp.grossSalary || 0)
+    specialPaymentsGross = roundAmount(emp.specialPaymentsGross || 0)
+    wageTaxWithheld = roundAmount(emp.wageTaxWithheld || 0)
+
+    if (emp.employeeSsPaid) {
+      employeeSsTotal = roundAmount(emp.employeeSsPaid)
+      // Estimate breakdown if not provided
+      employeeSsBreakdown = {
+        pension: roundAmount(employmentGross * 0.1025),
+        health: roundAmount(employmentGross * 0.0387),
+        unemployment: roundAmount(employmentGross * 0.03),
+        accident: roundAmount(employmentGross * 0.01),
+      }
+    } else {
+      const ssResult = calculateEmployeeSs(
+        employmentGross,
+        specialPaymentsGross,
+        config
+      )
+      employeeSsTotal = ssResult.total
+      employeeSsBreakdown = ssResult.breakdown
+    }
+
+    const homeofficeDeduction = calculateHomeofficeDeduction(
+      emp.homeOfficeDays,
+      config
+    )
+
+    taxableEmployment = ensureNonNegative(
+      employmentGross -
+        (employeeSsTotal - (employeeSsBreakdown.specialPayments || 0)) -
+        homeofficeDeduction -
+        STANDARD_WERBUNGSKOSTEN
+    )
+
+    specialPaymentsNet = ensureNonNegative(
+      specialPaymentsGross - (employeeSsBreakdown.specialPayments || 0)
+    )
+  }
+
+  // ======== SELF-EMPLOYMENT INCOME ========
+  let selfEmploymentProfit = 0
+  let pauschalExpenses = 0
+  let selfEmployedSsTotal = 0
+  let selfEmployedSsBreakdown: SocialSecurityBreakdown = {
+    pension: 0,
+    health: 0,
+    accident: 0,
+  }
+  let aerztekammerBeitrag = 0
+  let vat = 0
+  let gewinnfreibetrag = calculateGewinnfreibetrag(0, config)
+  let taxableSelfEmployment = 0
+
+  if (input.selfEmployment) {
+    const selfEmp = input.selfEmployment
+    const revenue = roundAmount(selfEmp.totalRevenue || 0)
+    const actualExpenses = roundAmount(selfEmp.businessExpenses || 0)
+    const variant = selfEmp.kleinunternehmerPauschalierung
+      ? 'kleinunternehmer'
+      : selfEmp.basisPauschalierung
+        ? 'basis'
+        : null
+    const flatRate = variant ? calculatePauschalExpenses(revenue, config, variant) : null
+    // Löhne and Wareneinkauf stay deductible next to the Basispauschalierung only
+    const additionalExpenses =
+      variant === 'basis'
+        ? Math.min(actualExpenses, roundAmount(selfEmp.pauschalAdditionalExpenses || 0))
+        : 0
+    const expenses = flatRate !== null ? flatRate + additionalExpenses : actualExpenses
+
+    pauschalExpenses = flatRate ?? 0
+    selfEmploymentProfit = ensureNonNegative(revenue - expenses)
+
+    const ssResult = calculateSelfEmployedSs(selfEmploymentProfit, config)
+    selfEmployedSsTotal = ssResult.total
+    selfEmployedSsBreakdown = ssResult.breakdown
+
+    // Medical practice specific
+    if (selfEmp.practiceType) {
+      aerztekammerBeitrag = calculateAerztekammerBeitrag(selfEmploymentProfit, config)
+    }
+    // Medical treatments are VAT-exempt; only the VAT payable passed in counts
+    vat = roundAmount(selfEmp.vatPayable ?? 0)
+
+    const profitAfterContributions = ensureNonNegative(
+      selfEmploymentProfit - selfEmployedSsTotal - aerztekammerBeitrag
+    )
+    gewinnfreibetrag = calculateGewinnfreibetrag(
+      profitAfterContributions,
+      config,
+      selfEmp.qualifyingInvestments,
+      flatRate !== null
+    )
+    taxableSelfEmployment = ensureNonNegative(
+      profitAfterContributions - gewinnfreibetrag.total
+    )
+  }
+
+  // ======== COMBINED INCOME ========
+  // Special payments are taxed separately but part of the income
+  const totalGrossIncome = employmentGross + specialPaymentsGross + selfEmploymentProfit
+  const totalSs = employeeSsTotal + selfEmployedSsTotal
+
+  // ======== DEDUCTIONS & CREDITS ========
+  const totalDeductions = calculateTotalDeductions(input.deductions, config)
+  const taxCreditsAmount = calculateTaxCredits(input.credits, config)
+
+  // ======== TAXABLE INCOME ========
+  const finalTaxableIncome = ensureNonNegative(
+    taxableEmployment + taxableSelfEmployment - totalDeductions
+  )
+
+  // ======== INCOME TAX ========
+  const { total: incomeTaxBeforeCredits, breakdown: taxBreakdown } =
+    calculateProgressiveTax(finalTaxableIncome, config)
+  const incomeTaxAfterCredits = ensureNonNegative(
+    incomeTaxBeforeCredits - taxCreditsAmount
+  )
+  const specialPaymentsTax = calculateSpecialPaymentsTax(
+    specialPaymentsNet,
+    config
+  )
+  const totalIncomeTax = incomeTaxAfterCredits + specialPaymentsTax
+
+  // ======== FINAL CALCULATION ========
+  const totalDirectBurden = totalSs + totalIncomeTax + aerztekammerBeitrag + vat
+  const netIncome = totalGrossIncome - totalDirectBurden
+  const burdenPercentage =
+    totalGrossIncome > 0
+      ? roundAmount((totalDirectBurden / totalGrossIncome) * 100)
+      : 0
+  const effectiveTaxRate =
+    totalGrossIncome > 0
+      ? roundAmount((totalIncomeTax / totalGrossIncome) * 100)
+      : 0
+
+  return {
+    // Income
+    totalGrossIncome: roundAmount(totalGrossIncome),
+    employmentGross: roundAmount(employmentGross),
+    selfEmploymentProfit: roundAmount(selfEmploymentProfit),
+
+    // Social Security
+    employeeSs: roundAmount(employeeSsTotal),
+    selfEmployedSs: roundAmount(selfEmployedSsTotal),
+    totalSs: roundAmount(totalSs),
+    ssBreakdown: {
+      employee: employeeSsBreakdown,
+      selfEmployed: selfEmployedSsBreakdown,
+    },
+
+    // Taxable Income
+    taxableEmployment: roundAmount(taxableEmployment),
+    taxableSelfEmployment: roundAmount(taxableSelfEmployment),
+    totalTaxableIncome: roundAmount(finalTaxableIncome),
+    gewinnfreibetrag: gewinnfreibetrag.total,
+    gewinnfreibetragBreakdown: gewinnfreibetrag,
+    pauschalExpenses: roundAmount(pauschalExpenses),
+    appliedDeductions: roundAmount(totalDeductions),
+    appliedCredits: roundAmount(taxCreditsAmount),
+    finalTaxableIncome: roundAmount(finalTaxableIncome),
+
+    // Income Tax
+    incomeTaxBeforeCredits: roundAmount(incomeTaxBeforeCredits),
+    taxCreditsApplied: roundAmount(taxCreditsAmount),
+    specialPaymentsTax: roundAmount(specialPaymentsTax),
+    totalIncomeTax: roundAmount(totalIncomeTax),
+    taxBreakdownByBracket: taxBreakdown,
+
+    // Other Taxes
+    vat: roundAmount(vat),
+    aerztekammerBeitrag: roundAmount(aerztekammerBeitrag),
+
+    // Final
+    taxLiability: roundAmount(totalIncomeTax - wageTaxWithheld),
+    totalDirectBurden: roundAmount(totalDirectBurden),
+    burdenPercentage: roundAmount(burdenPercentage),
+    netIncome: roundAmount(netIncome),
+    effectiveTaxRate: roundAmount(effectiveTaxRate),
+    marginalTaxRate: getMarginalTaxRate(finalTaxableIncome, config),
+
+    // Metadata
+    taxYear: input.taxYear || config.year,
+    calculatedAt: new Date(),
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Steuerprognose Prefill
+ *
+ * Maps the recorded data of a tax year onto the tax engine input: revenue of
+ * the months with results, planned revenue of the remaining months, and the
+ * Lohnzettel (L16) of all employers as employment income.
+ */
+
+import type { EmploymentIncome } from '@/lib/types/tax-types'
+import type { Lohnzettel } from '@/lib/types'
+import { roundAmount } from './tax-engine'
+
+export type LohnzettelFigures = Pick<
+  Lohnzettel,
+  'gross_pay' | 'tax_free_pay' | 'special_payments' | 'social_security' | 'wage_tax_withheld'
+>
+
+export interface MonthRevenue {
+  /** YYYY-MM */
+  month: string
+  planned: number
+  /** Null while no results are entered for the month */
+  actual: number | null
+}
+
+export interface YearRevenue {
+  revenue: number
+  /** Months counted with their actual revenue */
+  actualMonths: number
+  /** Months counted with their planned revenue */
+  plannedMonths: number
+}
+
+/**
+ * Employment income from the Lohnzettel of all employers of a year
+ *
+ * KZ 210 contains the tax-free (KZ 215) and special payments (KZ 220), so the
+ * running salary is what remains. Returns undefined without Lohnzettel.
+ */
+export function lohnzettelToEmployment(entries: LohnzettelFigures[]): EmploymentIncome | undefined {
+  if (entries.length === 0) {
+    return undefined
+  }
+
+  const sum = (field: keyof LohnzettelFigures) =>
+    roundAmount(entries.reduce((total, entry) => total + (Number(entry[field]) || 0), 0))
+
+  const taxFreeBenefits = sum('tax_free_pay')
+  const specialPaymentsGross = sum('special_payments')
+
+  return {
+    grossSalary: Math.max(0, roundAmount(sum('gross_pay') - taxFreeBenefits - specialPaymentsGross)),
+    specialPaymentsGross,
+    taxFreeBenefits,
+    employeeSsPaid: sum('social_security'),
+    wageTaxWithheld: sum('wage_tax_withheld'),
+  }
+}
+
+/**
+ * Revenue of a year: actual revenue where results are entered, planned revenue otherwise
+ */
+export function combineActualAndPlannedRevenue(months: MonthRevenue[]): YearRevenue {
+  let revenue = 0
+  let actualMonths = 0
+  let plannedMonths = 0
+
+  for (const month of months) {
+    if (month.actual !== null) {
+      revenue += month.actual
+      actualMonths += 1
+    } else {
+      revenue += month.planned
+      plannedMonths += 1
+    }
+  }
+
+  return { revenue: roundAmount(revenue), actualMonths, plannedMonths }
+}
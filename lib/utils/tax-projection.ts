@@ -0,0 +1,88 @@
+/**
+ * Multi-Year Tax Projection
+ *
+ * Chains the yearly plans (or the expected growth where no plan exists) over
+ * 3-5 years and calculates income tax, SVS and Ärztekammer with the tax engine.
+ * Years not yet configured use brackets and SVS limits indexed by the assumptions.
+ */
+
+import type {
+  TaxProjection,
+  TaxProjectionInput,
+  TaxProjectionYear,
+} from '@/lib/types/tax-types'
+import { getLatestSupportedYear, projectTaxConfig } from '../config/tax-config'
+import { calculateTax, roundAmount } from './tax-engine'
+
+/** Supported projection horizon in years */
+export const PROJECTION_YEARS = { min: 3, max: 5 } as const
+
+/**
+ * Project net income after income tax, SVS and Ärztekammer per year
+ *
+ * Revenue of years with a plan comes from the plan, otherwise the previous
+ * year grows by the growth rate; expenses grow with inflation. Scenario
+ * adjustments change the baseline from their year on without compounding.
+ */
+export function projectMultiYearTax(input: TaxProjectionInput): TaxProjection {
+  const { startYear, assumptions, plannedRevenue = {}, adjustments = [] } = input
+  const years = Math.min(PROJECTION_YEARS.max, Math.max(PROJECTION_YEARS.min, Math.round(input.years)))
+
+  let baselineRevenue = input.baseRevenue
+  let baselineExpenses = input.baseExpenses
+
+  const projected: TaxProjectionYear[] = Array.from({ length: years }, (_, index) => {
+    const year = startYear + index
+    if (index > 0) {
+      baselineRevenue *= 1 + assumptions.growthRate / 100
+      baselineExpenses *= 1 + assumptions.inflationRate / 100
+    }
+    const fromPlan = index > 0 && plannedRevenue[year] !== undefined
+    if (fromPlan) {
+      baselineRevenue = plannedRevenue[year]
+    }
+
+    const active = adjustments.filter((a) => a.fromYear <= year)
+    const revenue = roundAmount(
+      active.reduce((amount, a) => amount * (1 + a.revenueChange / 100), baselineRevenue)
+    )
+    const expenses = roundAmount(
+      active.reduce((amount, a) => amount * (1 + a.expenseChange / 100), baselineExpenses)
+    )
+
+    // VAT is passed through to the Finanzamt and not part of the net income
+    const result = calculateTax(
+      {
+        selfEmployment: {
+          totalRevenue: revenue,
+          businessExpenses: expenses,
+          practiceType: input.practiceType,
+        },
+        taxYear: year,
+      },
+      projectTaxConfig(year, assumptions)
+    )
+    const aerztekammer = result.aerztekammerBeitrag ?? 0
+
+    return {
+      year,
+      revenue,
+      expenses,
+      profit: result.selfEmploymentProfit,
+      incomeTax: result.totalIncomeTax,
+      svs: result.selfEmployedSs,
+      aerztekammer,
+      netIncome: roundAmount(
+        result.selfEmploymentProfit - result.totalIncomeTax - result.selfEmployedSs - aerztekammer
+      ),
+      fromPlan,
+      estimatedConfig: year > getLatestSupportedYear(),
+    }
+  })
+
+  return {
+    scenarioName: input.scenarioName,
+    years: projected,
+    totalNetIncome: roundAmount(projected.reduce((sum, y) => sum + y.netIncome, 0)),
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Therapy Type Matching
+ * Matches imported invoices (Latido) to therapy types using mapping rules,
+ * the "Leistung" text, price history and tolerance bands
+ */
+
+/** Relative price deviation accepted for tolerance matches (e.g. discounts) */
+export const PRICE_TOLERANCE = 0.1
+
+/** Maximum number of sessions a combined invoice is split into */
+export const MAX_COMBINED_SESSIONS = 5
+
+/** Months of imported sessions without recorded match method used as price history */
+export const PRICE_HISTORY_MONTHS = 24
+
+/** Minimum share of therapy name tokens that must appear in the Leistung text */
+const TEXT_MATCH_THRESHOLD = 0.6
+
+export interface MatchableTherapy {
+  id: string
+  name: string
+  price_per_session: number
+}
+
+export interface MatchingRule {
+  therapy_type_id: string
+  match_text: string | null
+  match_amount: number | null
+}
+
+export interface MatchingContext {
+  therapies: MatchableTherapy[]
+  /** Previously invoiced per-session amounts per therapy type */
+  priceHistory: Map<string, number[]>
+  rules: MatchingRule[]
+  tolerance?: number
+}
+
+export type MatchMethod = 'rule' | 'text' | 'price' | 'history' | 'tolerance' | 'combined'
+
+export interface TherapyMatch {
+  therapy_type_id: string
+  sessions: number
+  method: MatchMethod
+}
+
+export interface MatchCandidate {
+  therapy_type_id: string
+  name: string
+  reason: string
+}
+
+export type MatchResult =
+  | { matched: true; match: TherapyMatch }
+  | { matched: false; candidates: MatchCandidate[] }
+
+export const MATCH_METHOD_LABELS: Record<MatchMethod, string> = {
+  rule: 'Zuordnungsregel',
+  text: 'Leistungstext',
+  price: 'Preis',
+  history: 'Preishistorie',
+  tolerance: 'Toleranzbereich',
+  combined: 'Sammelrechnung',
+}
+
+/**
+ * Normalize free text for comparison (lowercase, umlauts folded, punctuation removed)
+ */
+export function normalizeMatchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function tokenize(text: string): string[] {
+  return normalizeMatchText(text).split(' ').filter(token => token.length > 1)
+}
+
+function samePrice(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.01
+}
+
+/**
+ * Share of the therapy name tokens found in the Leistung text (0-1)
+ */
+export function textSimilarity(serviceText: string, therapyName: string): number {
+  const nameTokens = tokenize(therapyName)
+  if (nameTokens.length === 0) return 0
+
+  const textTokens = tokenize(serviceText)
+  const hits = nameTokens.filter(token =>
+    textTokens.some(t => t === token || (token.length >= 5 && (t.startsWith(token) || token.startsWith(t))))
+  )
+  return hits.length / nameTokens.length
+}
+
+/**
+ * Return the only entry of a list, or null when it is empty or ambiguous
+ */
+function unique<T>(items: T[]): T | null {
+  return items.length === 1 ? items[0] : null
+}
+
+/**
+ * Match a single invoice to a therapy type
+ *
+ * Order of precedence:
+ * 1. User-confirmed mapping rules
+ * 2. Leistung text similarity with the therapy name
+ * 3. Exact current price
+ * 4. Exact previously invoiced price (price history)
+ * 5. Nearest price within the tolerance band
+ * 6. Combined invoice (amount is a multiple of a price)
+ *
+ * Ambiguous results are never guessed; they are returned as candidates for review
+ */
+export function matchTherapyType(
+  invoice: { amount: number; service_text?: string },
+  context: MatchingContext
+): MatchResult {
+  const { therapies, priceHistory, rules } = context
+  const tolerance = context.tolerance ?? PRICE_TOLERANCE
+  const therapyIds = new Set(therapies.map(t => t.id))
+  const normalizedText = invoice.service_text ? normalizeMatchText(invoice.service_text) : ''
+
+  // 1. Mapping rules (rules with more criteria win)
+  const ruleMatches = rules
+    .filter(rule => therapyIds.has(rule.therapy_type_id))
+    .filter(rule => rule.match_text !== null || rule.match_amount !== null)
+    .filter(rule => rule.match_text === null || (normalizedText !== '' && normalizeMatchText(rule.match_text) === normalizedText))
+    .filter(rule => rule.match_amount === null || samePrice(Number(rule.match_amount), invoice.amount))
+    .sort((a, b) =>
+      (Number(b.match_text !== null) + Number(b.match_amount !== null)) -
+      (Number(a.match_text !== null) + Number(a.match_amount !== null))
+    )
+  if (ruleMatches.length > 0) {
+    return { matched: true, match: { therapy_type_id: ruleMatches[0].therapy_type_id, sessions: 1, method: 'rule' } }
+  }
+
+  // 2. Leistung text
+  if (normalizedText) {
+    const scored = therapies
+      .map(therapy => ({ therapy, score: textSimilarity(normalizedText, therapy.name) }))
+      .filter(entry => entry.score >= TEXT_MATCH_THRESHOLD)
+    const best = Math.max(0, ...scored.map(entry => entry.score))
+    const top = unique(scored.filter(entry => entry.score === best))
+    if (top) {
+      return { matched: true, match: { therapy_type_id: top.therapy.id, sessions: 1, method: 'text' } }
+    }
+  }
+
+  // 3. Exact current price
+  const priceMatches = therapies.filter(t => samePrice(t.price_per_session, invoice.amount))
+  const priceMatch = unique(priceMatches)
+  if (priceMatch) {
+    return { matched: true, match: { therapy_type_id: priceMatch.id, sessions: 1, method: 'price' } }
+  }
+
+  if (priceMatches.length === 0) {
+    // 4. Price history
+    const historyMatch = unique(
+      therapies.filter(t => (priceHistory.get(t.id) ?? []).some(price => samePrice(price, invoice.amount)))
+    )
+    if (historyMatch) {
+      return { matched: true, match: { therapy_type_id: historyMatch.id, sessions: 1, method: 'history' } }
+    }
+
+    // 5. Tolerance band around current and historic prices
+    const withinBand = therapies
+      .map(therapy => {
+        const prices = [therapy.price_per_session, ...(priceHistory.get(therapy.id) ?? [])].filter(p => p > 0)
+        const deviation = Math.min(Infinity, ...prices.map(p => Math.abs(invoice.amount - p) / p))
+        return { therapy, deviation }
+      })
+      .filter(entry => entry.deviation <= tolerance)
+      .sort((a, b) => a.deviation - b.deviation)
+    if (withinBand.length === 1 || (withinBand.length > 1 && withinBand[1].deviation - withinBand[0].deviation > tolerance / 2)) {
+      return { matched: true, match: { therapy_type_id: withinBand[0].therapy.id, sessions: 1, method: 'tolerance' } }
+    }
+
+    // 6. Combined invoices covering several sessions of the same therapy
+    const combined: Array<{ therapy: MatchableTherapy; sessions: number }> = []
+    for (const therapy of therapies) {
+      if (therapy.price_per_session <= 0) continue
+      const sessions = Math.round(invoice.amount / therapy.price_per_session)
+      if (sessions >= 2 && sessions <= MAX_COMBINED_SESSIONS && samePrice(sessions * therapy.price_per_session, invoice.amount)) {
+        combined.push({ therapy, sessions })
+      }
+    }
+    const combinedMatch = unique(combined)
+    if (combinedMatch) {
+      return {
+        matched: true,
+        match: { therapy_type_id: combinedMatch.therapy.id, sessions: combinedMatch.sessions, method: 'combined' },
+      }
+    }
+  }
+
+  return { matched: false, candidates: rankCandidates(invoice, context) }
+}
+
+/**
+ * Rank therapy types as suggestions for an unmatched invoice
+ */
+function rankCandidates(
+  invoice: { amount: number; service_text?: string },
+  context: MatchingContext
+): MatchCandidate[] {
+  return context.therapies
+    .map(therapy => {
+      const textScore = invoice.service_text ? textSimilarity(invoice.service_text, therapy.name) : 0
+      const deviation = therapy.price_per_session > 0
+        ? Math.abs(invoice.amount - therapy.price_per_session) / therapy.price_per_session
+        : Infinity
+      const reason = textScore > 0
+        ? `Leistungstext ähnlich (${Math.round(textScore * 100)}%)`
+        : `Preis ${therapy.price_per_session.toFixed(2)}€ (${deviation === Infinity ? '–' : `${Math.round(deviation * 100)}% Abweichung`})`
+      return { therapy, score: textScore - Math.min(deviation, 10), reason }
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ therapy, reason }) => ({ therapy_type_id: therapy.id, name: therapy.name, reason }))
+}
+
+/**
+ * Build per-therapy price history from previously invoiced ledger rows
+ */
+export function buildPriceHistory(
+  rows: Array<{ therapy_type_id: string; gross_amount: number }>
+): Map<string, number[]> {
+  const history = new Map<string, number[]>()
+  for (const row of rows) {
+    const amount = Math.round(Number(row.gross_amount) * 100) / 100
+    if (!(amount > 0)) continue
+    const prices = history.get(row.therapy_type_id) ?? []
+    if (!prices.some(price => samePrice(price, amount))) {
+      prices.push(amount)
+    }
+    history.set(row.therapy_type_id, prices)
+  }
+  return history
+}
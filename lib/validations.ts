@@ -2,10 +2,19 @@ import { z } from 'zod'
 
 export const TherapyTypeSchema = z.object({
   name: z.string().min(1, 'Therapieart-Name ist erforderlich').max(100),
-  price_per_session: z.number().positive('Preis muss positiv sein')
+  price_per_session: z.number().positive('Preis muss positiv sein'),
+  payer_type: z.enum(['oegk', 'bvaeb', 'svs', 'wahlarzt', 'selbstzahler']).default('wahlarzt'),
+  vat_rate: z.union([z.literal(0), z.literal(10), z.literal(13), z.literal(20)]).default(0)
 })
 
-export type TherapyTypeInput = z.infer<typeof TherapyTypeSchema>
+export type TherapyTypeInput = z.input<typeof TherapyTypeSchema>
+
+export const TherapyPriceSchema = z.object({
+  price: z.number().positive('Preis muss positiv sein'),
+  valid_from: z.string().regex(/^\d{4}-\d{2}(-01)?$/, 'Gültig ab muss ein Monat sein (JJJJ-MM)')
+})
+
+export type TherapyPriceInput = z.infer<typeof TherapyPriceSchema>
 
 export const ExpenseSchema = z.object({
   category: z.string().min(1, 'Kategorie ist erforderlich'),
@@ -15,7 +24,22 @@ export const ExpenseSchema = z.object({
   is_recurring: z.boolean().default(false),
   recurrence_interval: z.enum(['monthly', 'quarterly', 'yearly']).optional(),
   description: z.string().optional(),
-  spread_monthly: z.boolean().default(false)
+  spread_monthly: z.boolean().default(false),
+  vat_rate: z.union([z.literal(0), z.literal(10), z.literal(13), z.literal(20)]).default(0),
+  vat_allocation: z.enum(['taxable', 'exempt', 'mixed']).default('mixed'),
+  vat_breakdown: z.array(z.object({
+    rate: z.union([z.literal(0), z.literal(10), z.literal(13), z.literal(20)]),
+    net: z.number(),
+    vat: z.number().nonnegative('USt kann nicht negativ sein'),
+    gross: z.number()
+  })).nullable().optional(),
+  invoice_number: z.string().max(100, 'Rechnungsnummer ist zu lang').nullable().optional()
+}).refine(expense => !expense.vat_breakdown?.length || Math.abs(
+  Math.round(expense.vat_breakdown.reduce((sum, line) => sum + line.gross, 0) * 100) - Math.round(expense.amount * 100)
+) <= 1, {
+  // Input VAT is taken from the breakdown alone, so it has to add up to the amount
+  message: 'Betrag stimmt nicht mit der Summe der Steuersätze laut Rechnung überein',
+  path: ['amount']
 })
 
 export type ExpenseInput = z.input<typeof ExpenseSchema>
@@ -42,6 +66,159 @@ export const PracticeSettingsSchema = z.object({
 
 export type PracticeSettingsInput = z.input<typeof PracticeSettingsSchema>
 
+export const CashFlowSettingsSchema = z.object({
+  opening_bank_balance: z.number(),
+  minimum_bank_balance: z.number().nonnegative('Mindestsaldo kann nicht negativ sein'),
+  receivable_collection_days: z.number().int('Tage müssen ganzzahlig sein').min(0, 'Tage können nicht negativ sein').max(365, 'Maximal 365 Tage')
+})
+
+export type CashFlowSettingsInput = z.infer<typeof CashFlowSettingsSchema>
+
+export const VatSettingsSchema = z.object({
+  vat_kleinunternehmer: z.boolean(),
+  vat_return_period: z.enum(['monthly', 'quarterly'])
+})
+
+export type VatSettingsInput = z.infer<typeof VatSettingsSchema>
+
+export const PaymentFeeProfileSchema = z.object({
+  payment_method: z.enum(['bar', 'bankomat', 'kreditkarte', 'ueberweisung', 'sonstige']),
+  percentage_fee: z.number().min(0, 'Gebühr kann nicht negativ sein').max(100, 'Gebühr kann nicht über 100% sein'),
+  fixed_fee: z.number().nonnegative('Gebühr kann nicht negativ sein'),
+  monthly_fee: z.number().nonnegative('Gebühr kann nicht negativ sein'),
+  planned_share: z.number().min(0, 'Anteil kann nicht negativ sein').max(100, 'Anteil kann nicht über 100% sein')
+})
+
+export const PaymentFeeProfilesSchema = z.array(PaymentFeeProfileSchema).refine(profiles => {
+  const totalShare = profiles.reduce((sum, p) => sum + p.planned_share, 0)
+  return totalShare === 0 || Math.abs(totalShare - 100) < 0.01
+}, {
+  message: 'Geplante Anteile müssen zusammen 100% ergeben'
+})
+
+export type PaymentFeeProfileInput = z.infer<typeof PaymentFeeProfileSchema>
+
+export const KassentarifSchema = z.object({
+  insurer: z.enum(['oegk', 'bvaeb', 'svs']),
+  tariff: z.number().nonnegative('Tarif kann nicht negativ sein'),
+  reimbursement_rate: z.number().min(0, 'Erstattung kann nicht negativ sein').max(100, 'Erstattung kann nicht über 100% sein')
+})
+
+export const KassentarifeSchema = z.array(KassentarifSchema)
+
+export type KassentarifInput = z.infer<typeof KassentarifSchema>
+
+export const LatidoMappingRuleSchema = z.object({
+  therapy_type_id: z.string().uuid('Ungültige Therapieart ID'),
+  match_text: z.string().trim().min(1).max(500).nullable().optional(),
+  match_amount: z.number().nonnegative('Betrag kann nicht negativ sein').nullable().optional()
+}).refine(rule => !!rule.match_text || rule.match_amount != null, {
+  message: 'Regel benötigt Leistungstext oder Betrag'
+})
+
+export type LatidoMappingRuleInput = z.infer<typeof LatidoMappingRuleSchema>
+
+export const ExpenseCategoryRuleSchema = z.object({
+  vendor_contains: z.string().trim().max(200).nullable().optional(),
+  keyword: z.string().trim().max(200).nullable().optional(),
+  amount_min: z.number().nonnegative('Betrag kann nicht negativ sein').nullable().optional(),
+  amount_max: z.number().nonnegative('Betrag kann nicht negativ sein').nullable().optional(),
+  category: z.string().min(1, 'Kategorie ist erforderlich'),
+  subcategory: z.string().nullable().optional(),
+  recurrence_interval: z.enum(['monthly', 'quarterly', 'yearly']).nullable().optional()
+}).refine(rule => !!rule.vendor_contains || !!rule.keyword || rule.amount_min != null || rule.amount_max != null, {
+  message: 'Regel benötigt Anbieter, Stichwort oder Betragsbereich'
+}).refine(rule => rule.amount_min == null || rule.amount_max == null || rule.amount_min <= rule.amount_max, {
+  message: 'Mindestbetrag darf nicht über dem Höchstbetrag liegen'
+})
+
+export type ExpenseCategoryRuleInput = z.infer<typeof ExpenseCategoryRuleSchema>
+
+export const AssetSchema = z.object({
+  name: z.string().trim().min(1, 'Bezeichnung ist erforderlich').max(200),
+  subcategory: z.string().min(1, 'Kategorie ist erforderlich'),
+  acquisition_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Ungültiges Anschaffungsdatum'),
+  acquisition_cost: z.number().positive('Anschaffungskosten müssen positiv sein'),
+  useful_life_years: z.number().int().min(1, 'Nutzungsdauer mindestens 1 Jahr').max(50, 'Nutzungsdauer höchstens 50 Jahre'),
+  disposal_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Ungültiges Ausscheidungsdatum').nullable().optional(),
+  expense_id: z.string().uuid().nullable().optional()
+}).refine(asset => !asset.disposal_date || asset.disposal_date >= asset.acquisition_date, {
+  message: 'Ausscheiden kann nicht vor der Anschaffung liegen'
+})
+
+export type AssetInput = z.infer<typeof AssetSchema>
+
+export const QualifyingInvestmentSchema = z.object({
+  description: z.string().trim().min(1, 'Bezeichnung ist erforderlich').max(200),
+  kind: z.enum(['asset', 'securities']),
+  investment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Ungültiges Investitionsdatum'),
+  amount: z.number().positive('Betrag muss positiv sein')
+})
+
+export type QualifyingInvestmentInput = z.infer<typeof QualifyingInvestmentSchema>
+
+export const SvsAssessmentSchema = z.object({
+  year: z.number().int().min(2000, 'Ungültiges Jahr').max(2100, 'Ungültiges Jahr'),
+  profit: z.number().nullable(),
+  profit_assessed: z.boolean().default(false),
+  provisional_monthly_base: z.number().min(0, 'Beitragsgrundlage darf nicht negativ sein').nullable(),
+  settled: z.boolean().default(false)
+}).refine(entry => entry.profit !== null || entry.provisional_monthly_base !== null, {
+  message: 'Gewinn oder vorläufige Beitragsgrundlage ist erforderlich'
+})
+
+export type SvsAssessmentInput = z.input<typeof SvsAssessmentSchema>
+
+export const TaxPrepaymentSchema = z.object({
+  year: z.number().int().min(2000, 'Ungültiges Jahr').max(2100, 'Ungültiges Jahr'),
+  quarter: z.number().int().min(1, 'Ungültiges Quartal').max(4, 'Ungültiges Quartal'),
+  assessed_amount: z.number().min(0, 'Vorauszahlung darf nicht negativ sein'),
+  paid_amount: z.number().min(0, 'Zahlung darf nicht negativ sein'),
+  paid_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Ungültiges Zahlungsdatum').nullable()
+})
+
+export type TaxPrepaymentInput = z.infer<typeof TaxPrepaymentSchema>
+
+export const LohnzettelSchema = z.object({
+  year: z.number().int().min(2000, 'Ungültiges Jahr').max(2100, 'Ungültiges Jahr'),
+  employer_name: z.string().trim().min(1, 'Arbeitgeber ist erforderlich').max(200),
+  gross_pay: z.number().min(0, 'Bruttobezüge dürfen nicht negativ sein'),
+  tax_free_pay: z.number().min(0, 'Steuerfreie Bezüge dürfen nicht negativ sein'),
+  special_payments: z.number().min(0, 'Sonstige Bezüge dürfen nicht negativ sein'),
+  social_security: z.number().min(0, 'SV-Beiträge dürfen nicht negativ sein'),
+  wage_tax_withheld: z.number().min(0, 'Lohnsteuer darf nicht negativ sein')
+}).refine(entry => entry.tax_free_pay + entry.special_payments <= entry.gross_pay, {
+  message: 'Steuerfreie und sonstige Bezüge sind in den Bruttobezügen enthalten'
+})
+
+export type LohnzettelInput = z.infer<typeof LohnzettelSchema>
+
+export const BankImportLineSchema = z.object({
+  transaction: z.object({
+    booking_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Ungültiges Buchungsdatum'),
+    value_date: z.string().nullable(),
+    amount: z.number().refine(amount => amount !== 0, 'Betrag darf nicht 0 sein'),
+    currency: z.string().length(3),
+    counterparty_name: z.string().max(500).nullable(),
+    counterparty_iban: z.string().max(34).nullable(),
+    reference: z.string().max(2000).nullable(),
+    fingerprint: z.string().min(1)
+  }),
+  expense_id: z.string().uuid().nullable(),
+  /** Create a new expense with this category (outgoing lines only) */
+  new_expense: z.object({
+    category: z.string().min(1, 'Kategorie ist erforderlich'),
+    subcategory: z.string().nullable(),
+    recurrence_interval: z.enum(['monthly', 'quarterly', 'yearly']).nullable().default(null)
+  }).nullable(),
+  /** Remember the category for this payee */
+  learn_rule: z.boolean().default(false),
+  invoice_numbers: z.array(z.string()).default([]),
+  ignore: z.boolean().default(false)
+})
+
+export type BankImportLineInput = z.input<typeof BankImportLineSchema>
+
 export const LoginSchema = z.object({
   email: z.string().email('Ungültige E-Mail-Adresse'),
   password: z.string().min(8, 'Passwort muss mindestens 8 Zeichen lang sein')
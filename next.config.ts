@@ -6,6 +6,10 @@ const nextConfig: NextConfig = {
     tsconfigPath: './tsconfig.json'
   },
 
+  // OCR runs server-side; these load WASM, worker scripts and language data
+  // from node_modules at runtime and must not be bundled
+  serverExternalPackages: ['tesseract.js', 'pdfjs-dist', '@napi-rs/canvas'],
+
   // Development optimization with cache-busting headers
   onDemandEntries: {
     // Period (in ms) where the server will keep pages in the buffer
@@ -57,7 +61,7 @@ const nextConfig: NextConfig = {
           },
           {
             key: 'Content-Security-Policy',
-            value: "default-src 'self'; script-src 'self' 'unsafe-inline' https://cdn.jsdelivr.net https://cdnjs.cloudflare.com; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: https:; font-src 'self' data:; connect-src 'self' https://*.supabase.co wss://*.supabase.co https://maps.googleapis.com https://cdn.jsdelivr.net https://cdnjs.cloudflare.com https://tessdata.projectnaptha.com; worker-src 'self' blob: https://cdn.jsdelivr.net https://cdnjs.cloudflare.com; frame-ancestors 'none'; base-uri 'self'; form-action 'self'",
+            value: "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: https:; font-src 'self' data:; connect-src 'self' https://*.supabase.co wss://*.supabase.co https://maps.googleapis.com; worker-src 'self' blob:; frame-ancestors 'none'; base-uri 'self'; form-action 'self'",
           },
         ],
       },
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Local mail stand-in for the receipt inbox (development only)
+ *
+ * Accepts e-mails over SMTP without authentication and hands each message to
+ * the inbound e-mail webhook (/api/inbox/email), as the mail provider does in
+ * production. Send a test receipt with any mail client or e.g.
+ *
+ *   swaks --server localhost:2525 --to belege+<token>@<INBOX_EMAIL_DOMAIN> --attach rechnung.pdf
+ *
+ * Configuration (.env.local): INBOX_WEBHOOK_SECRET, NEXT_PUBLIC_APP_URL,
+ * INBOX_SMTP_PORT (default 2525)
+ */
+
+const { SMTPServer } = require('smtp-server');
+const fs = require('fs');
+const path = require('path');
+
+// Read .env.local manually
+const envPath = path.resolve('.env.local');
+const envVars = {};
+if (fs.existsSync(envPath)) {
+  fs.readFileSync(envPath, 'utf-8').split('\n').forEach(line => {
+    if (line && !line.startsWith('#')) {
+      const [key, ...valueParts] = line.split('=');
+      envVars[key.trim()] = valueParts.join('=').trim();
+    }
+  });
+}
+
+const env = name => process.env[name] || envVars[name];
+const APP_URL = env('NEXT_PUBLIC_APP_URL') || 'http://localhost:3000';
+const SECRET = env('INBOX_WEBHOOK_SECRET');
+const PORT = Number(env('INBOX_SMTP_PORT') || 2525);
+
+if (!SECRET) {
+  console.error('❌ Error: Missing INBOX_WEBHOOK_SECRET in .env.local');
+  process.exit(1);
+}
+
+async function forward(raw, recipient) {
+  const response = await fetch(`${APP_URL}/api/inbox/email`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'message/rfc822',
+      'x-inbox-secret': SECRET,
+      'x-inbox-recipient': recipient
+    },
+    body: raw
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP ${response.status}`);
+  }
+  return result;
+}
+
+const server = new SMTPServer({
+  authOptional: true,
+  disabledCommands: ['STARTTLS', 'AUTH'],
+  size: 25 * 1024 * 1024,
+  onData(stream, session, callback) {
+    const chunks = [];
+    stream.on('data', chunk => chunks.push(chunk));
+    stream.on('end', async () => {
+      const raw = Buffer.concat(chunks);
+      try {
+        for (const { address } of session.envelope.rcptTo) {
+          const result = await forward(raw, address);
+          console.log(`📥 ${address}: ${result.received} Beleg(e) übernommen`);
+          (result.errors || []).forEach(error => console.warn(`   ⚠️  ${error}`));
+        }
+        callback();
+      } catch (error) {
+        console.error(`❌ Weiterleitung fehlgeschlagen: ${error.message}`);
+        callback(new Error('Message could not be delivered to the receipt inbox'));
+      }
+    });
+  }
+});
+
+server.on('error', error => console.error('❌ SMTP error:', error.message));
+
+server.listen(PORT, () => {
+  console.log(`📮 Belegeingang SMTP auf localhost:${PORT} → ${APP_URL}/api/inbox/email`);
+});
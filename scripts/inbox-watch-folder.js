@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+/**
+ * Watched upload folder of the receipt inbox
+ *
+ * Uploads every PDF or image placed in the folder (e.g. the target folder of
+ * a scanner) to the receipt inbox and moves it to "verarbeitet/" afterwards,
+ * or to "fehler/" if the inbox rejected it.
+ *
+ * Configuration (.env.local): INBOX_TOKEN (shown in the receipt inbox),
+ * INBOX_WATCH_DIR (default ./belege-eingang), NEXT_PUBLIC_APP_URL
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Read .env.local manually
+const envPath = path.resolve('.env.local');
+const envVars = {};
+if (fs.existsSync(envPath)) {
+  fs.readFileSync(envPath, 'utf-8').split('\n').forEach(line => {
+    if (line && !line.startsWith('#')) {
+      const [key, ...valueParts] = line.split('=');
+      envVars[key.trim()] = valueParts.join('=').trim();
+    }
+  });
+}
+
+const env = name => process.env[name] || envVars[name];
+const APP_URL = env('NEXT_PUBLIC_APP_URL') || 'http://localhost:3000';
+const TOKEN = env('INBOX_TOKEN');
+const WATCH_DIR = path.resolve(env('INBOX_WATCH_DIR') || 'belege-eingang');
+const DONE_DIR = path.join(WATCH_DIR, 'verarbeitet');
+const FAILED_DIR = path.join(WATCH_DIR, 'fehler');
+
+// A file is uploaded once its size did not change for this long (scanner still writing)
+const SETTLE_MS = 2000;
+
+const FILE_TYPES = {
+  '.pdf': 'application/pdf',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+};
+
+if (!TOKEN) {
+  console.error('❌ Error: Missing INBOX_TOKEN in .env.local');
+  process.exit(1);
+}
+
+[WATCH_DIR, DONE_DIR, FAILED_DIR].forEach(dir => fs.mkdirSync(dir, { recursive: true }));
+
+const pending = new Map();
+
+function moveTo(dir, filePath) {
+  const target = path.join(dir, `${Date.now()}_${path.basename(filePath)}`);
+  fs.renameSync(filePath, target);
+}
+
+async function upload(filePath) {
+  const type = FILE_TYPES[path.extname(filePath).toLowerCase()];
+  if (!type) {
+    console.warn(`⚠️  ${path.basename(filePath)}: Dateityp nicht unterstützt`);
+    moveTo(FAILED_DIR, filePath);
+    return;
+  }
+
+  const form = new FormData();
+  form.append('file', new Blob([fs.readFileSync(filePath)], { type }), path.basename(filePath));
+  form.append('path', path.relative(WATCH_DIR, filePath));
+
+  const response = await fetch(`${APP_URL}/api/inbox/upload`, {
+    method: 'POST',
+    headers: { authorization: `Bearer ${TOKEN}` },
+    body: form
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (response.ok) {
+    console.log(`📥 ${path.basename(filePath)} → Belegeingang`);
+    moveTo(DONE_DIR, filePath);
+  } else if (response.status < 500) {
+    console.error(`❌ ${path.basename(filePath)}: ${result.error || `HTTP ${response.status}`}`);
+    moveTo(FAILED_DIR, filePath);
+  } else {
+    // Server error: keep the file and try again with the next scan
+    console.error(`❌ ${path.basename(filePath)}: ${result.error || `HTTP ${response.status}`}, neuer Versuch folgt`);
+  }
+}
+
+function schedule(filePath) {
+  clearTimeout(pending.get(filePath));
+  pending.set(filePath, setTimeout(async () => {
+    pending.delete(filePath);
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) return;
+    try {
+      await upload(filePath);
+    } catch (error) {
+      console.error(`❌ ${path.basename(filePath)}: ${error.message}`);
+    }
+  }, SETTLE_MS));
+}
+
+function scan() {
+  for (const name of fs.readdirSync(WATCH_DIR)) {
+    if (name.startsWith('.')) continue;
+    const filePath = path.join(WATCH_DIR, name);
+    if (fs.statSync(filePath).isFile()) schedule(filePath);
+  }
+}
+
+fs.watch(WATCH_DIR, (event, name) => {
+  if (name && !name.startsWith('.')) schedule(path.join(WATCH_DIR, name));
+});
+
+// Files placed while the watcher was not running, and retries after server errors
+scan();
+setInterval(scan, 60 * 1000);
+
+console.log(`📂 Überwache ${WATCH_DIR} → ${APP_URL}/api/inbox/upload`);
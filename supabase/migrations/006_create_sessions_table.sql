@@ -0,0 +1,68 @@
+-- Table: sessions
+-- Per-invoice session ledger (one row per treated session)
+-- monthly_plans.actual_sessions is re-aggregated from this table
+CREATE TABLE IF NOT EXISTS public.sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  therapy_type_id UUID NOT NULL REFERENCES public.therapy_types(id) ON DELETE CASCADE,
+  session_date DATE NOT NULL,
+  gross_amount DECIMAL(10, 2) NOT NULL CHECK (gross_amount >= 0),
+  payment_method TEXT CHECK (payment_method IN ('bar', 'bankomat', 'kreditkarte', 'ueberweisung', 'sonstige')),
+  invoice_number TEXT,
+  patient_type TEXT CHECK (patient_type IN ('kasse', 'privat')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('latido', 'manual')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Invoices covering several sessions produce one row per session
+CREATE INDEX IF NOT EXISTS idx_sessions_user_invoice
+  ON public.sessions(user_id, invoice_number)
+  WHERE invoice_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id_date ON public.sessions(user_id, session_date DESC);
+CREATE INDEX IF NOT EXISTS idx_sessions_therapy_type_id ON public.sessions(therapy_type_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.sessions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for sessions
+CREATE POLICY "Users can view own sessions"
+  ON public.sessions
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create sessions"
+  ON public.sessions
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own sessions"
+  ON public.sessions
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own sessions"
+  ON public.sessions
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
+
+-- Backfill the ledger from invoices that were already imported from Latido
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'imported_invoices'
+  ) THEN
+    INSERT INTO public.sessions (user_id, therapy_type_id, session_date, gross_amount, invoice_number, source)
+    SELECT ii.user_id, ii.therapy_type_id, ii.invoice_date, ii.amount, ii.invoice_number, 'latido'
+    FROM public.imported_invoices ii
+    JOIN public.therapy_types tt ON tt.id = ii.therapy_type_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.sessions s
+      WHERE s.user_id = ii.user_id AND s.invoice_number = ii.invoice_number
+    );
+  END IF;
+END $$;
@@ -0,0 +1,43 @@
+-- Table: latido_mapping_rules
+-- User-confirmed rules mapping Latido invoices to therapy types
+-- A rule matches on the normalized "Leistung" text, the invoice amount, or both
+CREATE TABLE IF NOT EXISTS public.latido_mapping_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  therapy_type_id UUID NOT NULL REFERENCES public.therapy_types(id) ON DELETE CASCADE,
+  match_text TEXT,
+  match_amount DECIMAL(10, 2) CHECK (match_amount IS NULL OR match_amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT latido_mapping_rules_has_criteria CHECK (match_text IS NOT NULL OR match_amount IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_latido_mapping_rules_unique
+  ON public.latido_mapping_rules(user_id, COALESCE(match_text, ''), COALESCE(match_amount, -1));
+
+CREATE INDEX IF NOT EXISTS idx_latido_mapping_rules_user_id ON public.latido_mapping_rules(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.latido_mapping_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for latido_mapping_rules
+CREATE POLICY "Users can view own mapping rules"
+  ON public.latido_mapping_rules
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create mapping rules"
+  ON public.latido_mapping_rules
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own mapping rules"
+  ON public.latido_mapping_rules
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own mapping rules"
+  ON public.latido_mapping_rules
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
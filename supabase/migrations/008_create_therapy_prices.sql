@@ -0,0 +1,48 @@
+-- Table: therapy_prices
+-- Effective-dated prices per therapy type
+-- A price applies from valid_from (first day of a month) until the next record
+CREATE TABLE IF NOT EXISTS public.therapy_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  therapy_type_id UUID NOT NULL REFERENCES public.therapy_types(id) ON DELETE CASCADE,
+  price DECIMAL(10, 2) NOT NULL CHECK (price > 0),
+  valid_from DATE NOT NULL CHECK (EXTRACT(DAY FROM valid_from) = 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(therapy_type_id, valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_therapy_prices_user_id ON public.therapy_prices(user_id);
+CREATE INDEX IF NOT EXISTS idx_therapy_prices_therapy_valid_from ON public.therapy_prices(therapy_type_id, valid_from);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.therapy_prices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for therapy_prices
+CREATE POLICY "Users can view own therapy prices"
+  ON public.therapy_prices
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create therapy prices"
+  ON public.therapy_prices
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own therapy prices"
+  ON public.therapy_prices
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own therapy prices"
+  ON public.therapy_prices
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
+
+-- Seed the current price of every existing therapy type
+INSERT INTO public.therapy_prices (user_id, therapy_type_id, price, valid_from)
+SELECT user_id, id, price_per_session, DATE_TRUNC('month', created_at)::DATE
+FROM public.therapy_types
+WHERE price_per_session > 0
+ON CONFLICT (therapy_type_id, valid_from) DO NOTHING;
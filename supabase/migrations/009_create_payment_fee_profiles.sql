@@ -0,0 +1,51 @@
+-- Table: payment_fee_profiles
+-- Fee profile per payment method, replacing the single payment_processing_fee_percentage
+-- planned_share is the planned share of revenue (%) used when no Latido payment methods are known
+CREATE TABLE IF NOT EXISTS public.payment_fee_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('bar', 'bankomat', 'kreditkarte', 'ueberweisung', 'sonstige')),
+  percentage_fee DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (percentage_fee >= 0 AND percentage_fee <= 100),
+  fixed_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (fixed_fee >= 0),
+  monthly_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (monthly_fee >= 0),
+  planned_share DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (planned_share >= 0 AND planned_share <= 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, payment_method)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_fee_profiles_user_id ON public.payment_fee_profiles(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.payment_fee_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for payment_fee_profiles
+CREATE POLICY "Users can view own payment fee profiles"
+  ON public.payment_fee_profiles
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create payment fee profiles"
+  ON public.payment_fee_profiles
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own payment fee profiles"
+  ON public.payment_fee_profiles
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own payment fee profiles"
+  ON public.payment_fee_profiles
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
+
+-- Seed profiles from the existing single fee rate (card payments carry the rate, all revenue planned as card)
+INSERT INTO public.payment_fee_profiles (user_id, payment_method, percentage_fee, planned_share)
+SELECT s.user_id, m.payment_method,
+  CASE WHEN m.payment_method IN ('bankomat', 'kreditkarte') THEN COALESCE(s.payment_processing_fee_percentage, 1.39) ELSE 0 END,
+  CASE WHEN m.payment_method = 'kreditkarte' THEN 100 ELSE 0 END
+FROM public.practice_settings s
+CROSS JOIN (VALUES ('bar'), ('bankomat'), ('kreditkarte'), ('ueberweisung'), ('sonstige')) AS m(payment_method)
+ON CONFLICT (user_id, payment_method) DO NOTHING;
@@ -0,0 +1,27 @@
+-- Add payer_type to therapy types and sessions
+-- Kasse: oegk, bvaeb, svs / Privat: wahlarzt, selbstzahler
+ALTER TABLE public.therapy_types
+ADD COLUMN IF NOT EXISTS payer_type TEXT NOT NULL DEFAULT 'wahlarzt'
+  CHECK (payer_type IN ('oegk', 'bvaeb', 'svs', 'wahlarzt', 'selbstzahler'));
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS payer_type TEXT
+  CHECK (payer_type IN ('oegk', 'bvaeb', 'svs', 'wahlarzt', 'selbstzahler'));
+
+-- Therapy types of Kassenarzt practices are billed to the ÖGK by default
+UPDATE public.therapy_types t
+SET payer_type = 'oegk'
+FROM public.practice_settings s
+WHERE s.user_id = t.user_id
+  AND s.practice_type = 'kassenarzt';
+
+-- Sessions take the payer of their therapy type unless the imported patient type says otherwise
+UPDATE public.sessions s
+SET payer_type = CASE
+  WHEN s.patient_type = 'kasse' AND t.payer_type NOT IN ('oegk', 'bvaeb', 'svs') THEN 'oegk'
+  WHEN s.patient_type = 'privat' AND t.payer_type IN ('oegk', 'bvaeb', 'svs') THEN 'wahlarzt'
+  ELSE t.payer_type
+END
+FROM public.therapy_types t
+WHERE t.id = s.therapy_type_id
+  AND s.payer_type IS NULL;
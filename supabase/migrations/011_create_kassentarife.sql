@@ -0,0 +1,42 @@
+-- Table: kassentarife
+-- Kassentarif catalogue per therapy type and insurer
+-- Wahlarzt patients are refunded reimbursement_rate % of the tariff (usually 80%)
+CREATE TABLE IF NOT EXISTS public.kassentarife (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  therapy_type_id UUID NOT NULL REFERENCES public.therapy_types(id) ON DELETE CASCADE,
+  insurer TEXT NOT NULL CHECK (insurer IN ('oegk', 'bvaeb', 'svs')),
+  tariff DECIMAL(10, 2) NOT NULL CHECK (tariff >= 0),
+  reimbursement_rate DECIMAL(5, 2) NOT NULL DEFAULT 80 CHECK (reimbursement_rate >= 0 AND reimbursement_rate <= 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(therapy_type_id, insurer)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kassentarife_user_id ON public.kassentarife(user_id);
+CREATE INDEX IF NOT EXISTS idx_kassentarife_therapy_type_id ON public.kassentarife(therapy_type_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.kassentarife ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for kassentarife
+CREATE POLICY "Users can view own kassentarife"
+  ON public.kassentarife
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create kassentarife"
+  ON public.kassentarife
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own kassentarife"
+  ON public.kassentarife
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own kassentarife"
+  ON public.kassentarife
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
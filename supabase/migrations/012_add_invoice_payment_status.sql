@@ -0,0 +1,34 @@
+-- Add payment status and dunning to the session ledger
+-- Amounts are per session row; invoices covering several sessions are split evenly
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'bezahlt'
+  CHECK (payment_status IN ('bezahlt', 'teilbezahlt', 'offen'));
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS paid_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (paid_amount >= 0);
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS paid_date DATE;
+
+-- 0 = none, 1 = Zahlungserinnerung, 2 = 1. Mahnung, 3 = 2. Mahnung
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS dunning_level SMALLINT NOT NULL DEFAULT 0 CHECK (dunning_level BETWEEN 0 AND 3);
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS last_dunning_date DATE;
+
+-- Existing sessions were imported as paid on the invoice date
+UPDATE public.sessions
+SET paid_amount = gross_amount,
+    paid_date = session_date
+WHERE payment_status = 'bezahlt'
+  AND paid_date IS NULL;
+
+-- Open items and cash-basis revenue (Zuflussprinzip)
+CREATE INDEX IF NOT EXISTS idx_sessions_user_open
+  ON public.sessions(user_id, session_date)
+  WHERE payment_status <> 'bezahlt';
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_paid_date
+  ON public.sessions(user_id, paid_date)
+  WHERE paid_date IS NOT NULL;
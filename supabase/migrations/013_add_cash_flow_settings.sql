@@ -0,0 +1,9 @@
+-- Cash-flow forecast settings on practice_settings
+-- Opening bank balance, minimum balance for the liquidity warning and the
+-- average delay until invoices paid by transfer or by the insurer arrive
+ALTER TABLE public.practice_settings
+ADD COLUMN IF NOT EXISTS opening_bank_balance DECIMAL(12, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS minimum_bank_balance DECIMAL(12, 2) NOT NULL DEFAULT 0
+  CHECK (minimum_bank_balance >= 0),
+ADD COLUMN IF NOT EXISTS receivable_collection_days INTEGER NOT NULL DEFAULT 14
+  CHECK (receivable_collection_days >= 0 AND receivable_collection_days <= 365);
@@ -0,0 +1,96 @@
+-- Table: bank_transactions
+-- Lines imported from bank statements (CAMT.053, MT940, CSV)
+-- Outgoing payments are linked to expenses, incoming transfers to Latido invoice numbers
+CREATE TABLE IF NOT EXISTS public.bank_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_date DATE NOT NULL,
+  value_date DATE,
+  amount DECIMAL(12, 2) NOT NULL, -- negative = outgoing
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  counterparty_name TEXT,
+  counterparty_iban TEXT,
+  reference TEXT,
+  source_format TEXT NOT NULL CHECK (source_format IN ('camt053', 'mt940', 'csv')),
+  -- Hash of date, amount, counterparty and reference; prevents importing a line twice
+  fingerprint TEXT NOT NULL,
+  expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+  invoice_number TEXT,
+  status TEXT NOT NULL DEFAULT 'offen'
+    CHECK (status IN ('offen', 'zugeordnet', 'ignoriert')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transactions_fingerprint
+  ON public.bank_transactions(user_id, fingerprint);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_user_date
+  ON public.bank_transactions(user_id, booking_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_user_open
+  ON public.bank_transactions(user_id, booking_date)
+  WHERE status = 'offen';
+
+-- Table: bank_payee_rules
+-- Learned rules assigning an expense category to a payee
+CREATE TABLE IF NOT EXISTS public.bank_payee_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  match_text TEXT NOT NULL, -- normalized payee name
+  category TEXT NOT NULL,
+  subcategory TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_payee_rules_unique
+  ON public.bank_payee_rules(user_id, match_text);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.bank_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_payee_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for bank_transactions
+CREATE POLICY "Users can view own bank transactions"
+  ON public.bank_transactions
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create bank transactions"
+  ON public.bank_transactions
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own bank transactions"
+  ON public.bank_transactions
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own bank transactions"
+  ON public.bank_transactions
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
+
+-- RLS Policies for bank_payee_rules
+CREATE POLICY "Users can view own payee rules"
+  ON public.bank_payee_rules
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create payee rules"
+  ON public.bank_payee_rules
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own payee rules"
+  ON public.bank_payee_rules
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own payee rules"
+  ON public.bank_payee_rules
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
@@ -0,0 +1,64 @@
+-- Table: expense_category_rules
+-- User-editable rules suggesting category, subcategory and recurrence for new expenses
+-- A rule matches when all of its criteria match (vendor, keyword, amount range)
+CREATE TABLE IF NOT EXISTS public.expense_category_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vendor_contains TEXT, -- normalized vendor / payee name
+  keyword TEXT, -- normalized keyword in the description
+  amount_min DECIMAL(10, 2) CHECK (amount_min IS NULL OR amount_min >= 0),
+  amount_max DECIMAL(10, 2) CHECK (amount_max IS NULL OR amount_max >= 0),
+  category TEXT NOT NULL,
+  subcategory TEXT,
+  recurrence_interval TEXT CHECK (recurrence_interval IN ('monthly', 'quarterly', 'yearly')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT expense_category_rules_has_criteria
+    CHECK (vendor_contains IS NOT NULL OR keyword IS NOT NULL OR amount_min IS NOT NULL OR amount_max IS NOT NULL),
+  CONSTRAINT expense_category_rules_amount_range
+    CHECK (amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expense_category_rules_unique
+  ON public.expense_category_rules(
+    user_id,
+    COALESCE(vendor_contains, ''),
+    COALESCE(keyword, ''),
+    COALESCE(amount_min, -1),
+    COALESCE(amount_max, -1)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_expense_category_rules_user_id ON public.expense_category_rules(user_id);
+
+-- Payee rules learned by the bank import become vendor rules
+INSERT INTO public.expense_category_rules (user_id, vendor_contains, category, subcategory, created_at, updated_at)
+SELECT user_id, match_text, category, subcategory, created_at, updated_at
+FROM public.bank_payee_rules
+ON CONFLICT DO NOTHING;
+
+DROP TABLE IF EXISTS public.bank_payee_rules;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.expense_category_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for expense_category_rules
+CREATE POLICY "Users can view own category rules"
+  ON public.expense_category_rules
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create category rules"
+  ON public.expense_category_rules
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own category rules"
+  ON public.expense_category_rules
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own category rules"
+  ON public.expense_category_rules
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
@@ -0,0 +1,46 @@
+-- Table: assets
+-- Asset register (Anlageverzeichnis) with straight-line depreciation (AfA)
+-- An expense linked via expense_id is the purchase of the asset; it is replaced
+-- by the yearly depreciation in expense totals instead of counting in full
+CREATE TABLE IF NOT EXISTS public.assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expense_id UUID UNIQUE REFERENCES public.expenses(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  subcategory TEXT NOT NULL, -- AfA subcategory, e.g. 'Geräte (AfA)'
+  acquisition_date DATE NOT NULL, -- start of use, decides the half-year rule
+  acquisition_cost DECIMAL(12, 2) NOT NULL CHECK (acquisition_cost > 0),
+  useful_life_years SMALLINT NOT NULL CHECK (useful_life_years BETWEEN 1 AND 50),
+  disposal_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT assets_disposal_after_acquisition
+    CHECK (disposal_date IS NULL OR disposal_date >= acquisition_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assets_user_id ON public.assets(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.assets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for assets
+CREATE POLICY "Users can view own assets"
+  ON public.assets
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create assets"
+  ON public.assets
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own assets"
+  ON public.assets
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own assets"
+  ON public.assets
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
@@ -0,0 +1,35 @@
+-- Table: qualifying_investments
+-- Investments recorded on the Steuerprognose page that cover the
+-- investment-based Gewinnfreibetrag of their year (§ 10 EStG): new depreciable
+-- physical assets with a useful life of at least four years, or securities
+CREATE TABLE IF NOT EXISTS public.qualifying_investments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('asset', 'securities')),
+  investment_date DATE NOT NULL, -- decides the tax year
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qualifying_investments_user_date
+  ON public.qualifying_investments(user_id, investment_date);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.qualifying_investments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for qualifying_investments
+CREATE POLICY "Users can view own qualifying investments"
+  ON public.qualifying_investments
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create qualifying investments"
+  ON public.qualifying_investments
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own qualifying investments"
+  ON public.qualifying_investments
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
@@ -0,0 +1,43 @@
+-- Table: svs_assessments
+-- SVS history per contribution year: the profit (from the income-tax assessment
+-- or estimated) and the provisional contribution base charged by the SVS.
+-- Used to project the Nachbemessung (back payment after the final assessment)
+CREATE TABLE IF NOT EXISTS public.svs_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year SMALLINT NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  profit DECIMAL(12, 2), -- Einkünfte aus selbständiger Arbeit
+  profit_assessed BOOLEAN NOT NULL DEFAULT FALSE, -- profit from the final tax assessment
+  provisional_monthly_base DECIMAL(10, 2) CHECK (provisional_monthly_base >= 0), -- vorläufige Beitragsgrundlage
+  settled BOOLEAN NOT NULL DEFAULT FALSE, -- Nachbemessung already charged
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_svs_assessments_user_id ON public.svs_assessments(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.svs_assessments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for svs_assessments
+CREATE POLICY "Users can view own svs assessments"
+  ON public.svs_assessments
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create svs assessments"
+  ON public.svs_assessments
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own svs assessments"
+  ON public.svs_assessments
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own svs assessments"
+  ON public.svs_assessments
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
@@ -0,0 +1,42 @@
+-- Table: tax_prepayments
+-- Income-tax prepayments (Vorauszahlungen) per quarter: the amount set by the
+-- Finanzamt and the payment actually made, reconciled with the Steuerprognose
+CREATE TABLE IF NOT EXISTS public.tax_prepayments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year SMALLINT NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  quarter SMALLINT NOT NULL CHECK (quarter BETWEEN 1 AND 4),
+  assessed_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (assessed_amount >= 0), -- laut Vorauszahlungsbescheid
+  paid_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (paid_amount >= 0),
+  paid_on DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, year, quarter)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_prepayments_user_year ON public.tax_prepayments(user_id, year);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.tax_prepayments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for tax_prepayments
+CREATE POLICY "Users can view own tax prepayments"
+  ON public.tax_prepayments
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create tax prepayments"
+  ON public.tax_prepayments
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own tax prepayments"
+  ON public.tax_prepayments
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own tax prepayments"
+  ON public.tax_prepayments
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
@@ -0,0 +1,19 @@
+-- Umsatzsteuer: VAT rate per therapy type and expense, VAT settings per practice
+-- vat_rate is a percentage; 0 = VAT-exempt (therapy types: § 6 Abs. 1 Z 19 UStG)
+ALTER TABLE public.therapy_types
+ADD COLUMN IF NOT EXISTS vat_rate SMALLINT NOT NULL DEFAULT 0
+  CHECK (vat_rate IN (0, 10, 13, 20));
+
+-- Expenses: VAT contained in the amount (input tax) and which revenue it serves;
+-- input tax on 'mixed' expenses is deductible at the share of taxable revenue
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS vat_rate SMALLINT NOT NULL DEFAULT 0
+  CHECK (vat_rate IN (0, 10, 13, 20)),
+ADD COLUMN IF NOT EXISTS vat_allocation TEXT NOT NULL DEFAULT 'mixed'
+  CHECK (vat_allocation IN ('taxable', 'exempt', 'mixed'));
+
+-- Kleinunternehmerregelung (§ 6 Abs. 1 Z 27 UStG) and UVA period
+ALTER TABLE public.practice_settings
+ADD COLUMN IF NOT EXISTS vat_kleinunternehmer BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS vat_return_period TEXT NOT NULL DEFAULT 'quarterly'
+  CHECK (vat_return_period IN ('monthly', 'quarterly'));
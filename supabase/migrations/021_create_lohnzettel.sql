@@ -0,0 +1,59 @@
+-- Table: lohnzettel
+-- Annual wage slips (Lohnzettel L16) of employments next to the practice,
+-- one per employer and year, feeding the employment part of the Steuerprognose
+CREATE TABLE IF NOT EXISTS public.lohnzettel (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year SMALLINT NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  employer_name TEXT NOT NULL,
+  gross_pay DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (gross_pay >= 0), -- KZ 210 Bruttobezüge
+  tax_free_pay DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (tax_free_pay >= 0), -- KZ 215 steuerfreie Bezüge
+  special_payments DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (special_payments >= 0), -- KZ 220 sonstige Bezüge (13./14.)
+  social_security DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (social_security >= 0), -- KZ 230 SV-Beiträge laufende Bezüge
+  wage_tax_withheld DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (wage_tax_withheld >= 0), -- KZ 260 einbehaltene Lohnsteuer
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, year, employer_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lohnzettel_user_year ON public.lohnzettel(user_id, year);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.lohnzettel ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lohnzettel
+CREATE POLICY "Users can view own lohnzettel"
+  ON public.lohnzettel
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create lohnzettel"
+  ON public.lohnzettel
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own lohnzettel"
+  ON public.lohnzettel
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own lohnzettel"
+  ON public.lohnzettel
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
+
+-- Publish the tables behind the Steuerprognose prefill for realtime updates
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['monthly_plans', 'sessions', 'expenses', 'lohnzettel'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
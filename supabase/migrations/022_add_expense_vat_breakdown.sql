@@ -0,0 +1,5 @@
+-- Invoices with several VAT rates: net, VAT and gross per rate as extracted
+-- from the scanned invoice, e.g. [{"rate": 20, "net": 108.1, "vat": 21.62, "gross": 129.72}]
+-- When set, the input tax is the sum of its VAT instead of amount at vat_rate
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS vat_breakdown JSONB;
@@ -0,0 +1,19 @@
+-- Server-side text extraction of uploaded documents
+-- Uploads are queued as 'pending'; the OCR job claims them ('processing') and
+-- stores extracted_text ('done') or the error ('failed')
+ALTER TABLE public.expense_documents
+ADD COLUMN IF NOT EXISTS ocr_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (ocr_status IN ('pending', 'processing', 'done', 'failed')),
+ADD COLUMN IF NOT EXISTS ocr_error TEXT,
+ADD COLUMN IF NOT EXISTS ocr_attempts SMALLINT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS ocr_started_at TIMESTAMPTZ;
+
+-- Documents uploaded before the queue are not scanned on deployment; they
+-- count as done with or without text and are re-scanned on request only
+UPDATE public.expense_documents
+SET ocr_status = 'done';
+
+-- Queue lookup: open jobs, oldest upload first
+CREATE INDEX IF NOT EXISTS idx_expense_documents_ocr_queue
+  ON public.expense_documents(upload_date)
+  WHERE ocr_status IN ('pending', 'processing');
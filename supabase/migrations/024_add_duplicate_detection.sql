@@ -0,0 +1,53 @@
+-- Duplicate receipt detection
+-- Documents keep a SHA-256 of the file and of their normalised OCR text, so
+-- the same receipt uploaded twice is recognised; expenses keep the invoice
+-- number read by the bill scanner
+ALTER TABLE public.expense_documents
+ADD COLUMN IF NOT EXISTS content_hash TEXT,
+ADD COLUMN IF NOT EXISTS text_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_expense_documents_content_hash
+  ON public.expense_documents(user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expense_documents_text_hash
+  ON public.expense_documents(user_id, text_hash)
+  WHERE text_hash IS NOT NULL;
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS invoice_number TEXT;
+
+-- Table: expense_links
+-- Expenses the user confirmed as belonging together rather than being
+-- duplicates (e.g. the parts of a split invoice sharing one receipt);
+-- stored once per pair with the smaller id first
+CREATE TABLE IF NOT EXISTS public.expense_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  linked_expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (expense_id < linked_expense_id),
+  UNIQUE (expense_id, linked_expense_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_links_user ON public.expense_links(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.expense_links ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for expense_links
+CREATE POLICY "Users can view own expense links"
+  ON public.expense_links
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create expense links"
+  ON public.expense_links
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own expense links"
+  ON public.expense_links
+  FOR DELETE
+  USING ((SELECT auth.uid()) = user_id);
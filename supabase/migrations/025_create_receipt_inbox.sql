@@ -0,0 +1,46 @@
+-- Receipt inbox
+-- Documents arriving by e-mail, from the watched folder or the drop zone are
+-- stored without expense (expense_id NULL) until they are confirmed as an
+-- expense; they go through the same OCR queue as uploaded documents
+ALTER TABLE public.expense_documents
+ALTER COLUMN expense_id DROP NOT NULL;
+
+ALTER TABLE public.expense_documents
+ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'upload'
+  CHECK (source IN ('upload', 'email', 'folder')),
+ADD COLUMN IF NOT EXISTS source_detail TEXT; -- sender and subject, or the file path in the folder
+
+-- Inbox lookup: unassigned documents, newest first
+CREATE INDEX IF NOT EXISTS idx_expense_documents_inbox
+  ON public.expense_documents(user_id, upload_date DESC)
+  WHERE expense_id IS NULL;
+
+-- Table: receipt_inbox_tokens
+-- Per-user token of the ingest address (belege+<token>@<domain>) and of the
+-- folder watcher; ingestion looks the user up by token with the service role
+CREATE TABLE IF NOT EXISTS public.receipt_inbox_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.receipt_inbox_tokens ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for receipt_inbox_tokens
+CREATE POLICY "Users can view own inbox token"
+  ON public.receipt_inbox_tokens
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create inbox token"
+  ON public.receipt_inbox_tokens
+  FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own inbox token"
+  ON public.receipt_inbox_tokens
+  FOR UPDATE
+  USING ((SELECT auth.uid()) = user_id)
+  WITH CHECK ((SELECT auth.uid()) = user_id);
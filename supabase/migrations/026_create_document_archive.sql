@@ -0,0 +1,260 @@
+-- Document archive (BAO §132)
+-- Receipts have to be kept unaltered for seven years from the end of the
+-- calendar year of the expense. Every file stored for a document is kept as
+-- an immutable version with its SHA-256, the database refuses to delete a
+-- document before its retention end, and changes and views are logged
+ALTER TABLE public.expense_documents
+ADD COLUMN IF NOT EXISTS retention_until DATE; -- NULL while the document waits in the receipt inbox
+
+-- Keep in sync with retentionEndDate() in lib/utils/document-archive.ts
+CREATE OR REPLACE FUNCTION document_retention_end(expense_date DATE)
+RETURNS DATE AS $$
+  SELECT make_date(EXTRACT(YEAR FROM expense_date)::INTEGER + 7, 12, 31);
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE public.expense_documents d
+SET retention_until = document_retention_end(e.expense_date)
+FROM public.expenses e
+WHERE e.id = d.expense_id;
+
+-- Table: expense_document_versions
+-- Append-only history of the files of a document; a new version is recorded
+-- whenever the document points to another file
+CREATE TABLE IF NOT EXISTS public.expense_document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL, -- no foreign key, versions are only deleted through their document
+  document_id UUID NOT NULL REFERENCES public.expense_documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size INTEGER NOT NULL CHECK (file_size > 0),
+  file_type TEXT NOT NULL,
+  content_hash TEXT, -- SHA-256 of the file, filled in once for files stored before hashing
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_document_versions_user
+  ON public.expense_document_versions(user_id);
+
+INSERT INTO public.expense_document_versions
+  (user_id, document_id, version, file_name, file_path, file_size, file_type, content_hash, created_at)
+SELECT user_id, id, 1, file_name, file_path, file_size, file_type, content_hash, upload_date
+FROM public.expense_documents
+ON CONFLICT (document_id, version) DO NOTHING;
+
+-- Table: document_audit_log
+-- Who did what with a document; entries are never changed and outlive the
+-- document they refer to
+CREATE TABLE IF NOT EXISTS public.document_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL, -- no foreign keys, the log is kept after the deletion
+  document_id UUID,
+  action TEXT NOT NULL
+    CHECK (action IN ('upload', 'version', 'assign', 'view', 'export', 'delete', 'delete_refused')),
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_audit_log_document
+  ON public.document_audit_log(user_id, document_id, created_at DESC);
+
+-- Retention starts once the document belongs to an expense and is never
+-- shortened, e.g. when the document moves to an expense of an earlier year
+CREATE OR REPLACE FUNCTION set_document_retention()
+RETURNS TRIGGER AS $$
+DECLARE
+  expense_retention DATE;
+BEGIN
+  IF NEW.expense_id IS NOT NULL THEN
+    SELECT document_retention_end(e.expense_date)
+    INTO expense_retention
+    FROM public.expenses e
+    WHERE e.id = NEW.expense_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.retention_until = GREATEST(OLD.retention_until, NEW.retention_until, expense_retention);
+  ELSE
+    NEW.retention_until = GREATEST(NEW.retention_until, expense_retention);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER expense_documents_retention_trigger
+BEFORE INSERT OR UPDATE ON public.expense_documents
+FOR EACH ROW
+EXECUTE FUNCTION set_document_retention();
+
+-- A later expense date extends the retention of its documents
+CREATE OR REPLACE FUNCTION extend_expense_document_retention()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.expense_documents
+  SET retention_until = document_retention_end(NEW.expense_date)
+  WHERE expense_id = NEW.id
+    AND (retention_until IS NULL OR retention_until < document_retention_end(NEW.expense_date));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER expenses_document_retention_trigger
+AFTER UPDATE OF expense_date ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION extend_expense_document_retention();
+
+-- Retained documents can't be deleted (also not through the cascade of their
+-- expense) unless they have a single version and an identical file of the
+-- user is retained at least as long, e.g. the copy kept when duplicate
+-- expenses are merged; a stored file can only be replaced by a new version,
+-- never altered in place
+CREATE OR REPLACE FUNCTION protect_retained_document()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.content_hash IS NOT NULL
+       AND NEW.file_path = OLD.file_path
+       AND NEW.content_hash IS DISTINCT FROM OLD.content_hash THEN
+      RAISE EXCEPTION 'Archived file of document % cannot be altered', OLD.id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.retention_until >= CURRENT_DATE AND (
+    EXISTS (
+      SELECT 1
+      FROM public.expense_document_versions v
+      WHERE v.document_id = OLD.id
+        AND v.version > 1
+    )
+    OR NOT EXISTS (
+      SELECT 1
+      FROM public.expense_documents d
+      WHERE d.user_id = OLD.user_id
+        AND d.id <> OLD.id
+        AND d.content_hash = OLD.content_hash
+        AND d.retention_until >= OLD.retention_until
+    )
+  ) THEN
+    RAISE EXCEPTION 'Document % is retained until %', OLD.id, OLD.retention_until;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER expense_documents_protect_trigger
+BEFORE UPDATE OR DELETE ON public.expense_documents
+FOR EACH ROW
+EXECUTE FUNCTION protect_retained_document();
+
+-- Record versions and log changes of documents
+-- Runs as the owner: users cannot write versions or log entries themselves
+CREATE OR REPLACE FUNCTION archive_document_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.document_audit_log (user_id, document_id, action, details)
+    VALUES (OLD.user_id, OLD.id, 'delete', jsonb_build_object(
+      'file_name', OLD.file_name,
+      'content_hash', OLD.content_hash,
+      'expense_id', OLD.expense_id
+    ));
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.file_path IS DISTINCT FROM OLD.file_path THEN
+    INSERT INTO public.expense_document_versions
+      (user_id, document_id, version, file_name, file_path, file_size, file_type, content_hash)
+    SELECT NEW.user_id, NEW.id, COALESCE(MAX(v.version), 0) + 1,
+      NEW.file_name, NEW.file_path, NEW.file_size, NEW.file_type, NEW.content_hash
+    FROM public.expense_document_versions v
+    WHERE v.document_id = NEW.id;
+
+    INSERT INTO public.document_audit_log (user_id, document_id, action, details)
+    VALUES (NEW.user_id, NEW.id, CASE WHEN TG_OP = 'INSERT' THEN 'upload' ELSE 'version' END, jsonb_build_object(
+      'file_name', NEW.file_name,
+      'content_hash', NEW.content_hash,
+      'source', NEW.source
+    ));
+  ELSIF NEW.content_hash IS DISTINCT FROM OLD.content_hash THEN
+    UPDATE public.expense_document_versions
+    SET content_hash = NEW.content_hash
+    WHERE document_id = NEW.id
+      AND file_path = NEW.file_path
+      AND content_hash IS NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.expense_id IS DISTINCT FROM OLD.expense_id THEN
+    INSERT INTO public.document_audit_log (user_id, document_id, action, details)
+    VALUES (NEW.user_id, NEW.id, 'assign', jsonb_build_object(
+      'from_expense_id', OLD.expense_id,
+      'to_expense_id', NEW.expense_id
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER expense_documents_archive_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.expense_documents
+FOR EACH ROW
+EXECUTE FUNCTION archive_document_change();
+
+-- Versions and log entries are append-only; a version goes only together with
+-- its document, and a missing hash may be filled in once
+CREATE OR REPLACE FUNCTION protect_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.content_hash IS NULL
+       AND NEW.content_hash IS NOT NULL
+       AND NEW.document_id = OLD.document_id
+       AND NEW.version = OLD.version
+       AND NEW.file_path = OLD.file_path THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Document versions cannot be altered';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.expense_documents d WHERE d.id = OLD.document_id) THEN
+    RAISE EXCEPTION 'Document versions are only deleted with their document';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER expense_document_versions_protect_trigger
+BEFORE UPDATE OR DELETE ON public.expense_document_versions
+FOR EACH ROW
+EXECUTE FUNCTION protect_document_version();
+
+CREATE OR REPLACE FUNCTION protect_document_audit_log()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Document audit log entries cannot be altered';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER document_audit_log_protect_trigger
+BEFORE UPDATE OR DELETE ON public.document_audit_log
+FOR EACH ROW
+EXECUTE FUNCTION protect_document_audit_log();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.expense_document_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: read-only for users; versions and log entries are written by
+-- the trigger above, views and exports are logged with the service role
+CREATE POLICY "Users can view own document versions"
+  ON public.expense_document_versions
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can view own document audit log"
+  ON public.document_audit_log
+  FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
@@ -0,0 +1,18 @@
+-- Manually entered session counts
+-- monthly_plans.actual_sessions is re-aggregated from the session ledger as
+-- manual_sessions + ledger sessions, so counts entered by hand or imported
+-- without invoice numbers are no longer overwritten by the next import
+ALTER TABLE public.monthly_plans
+ADD COLUMN IF NOT EXISTS manual_sessions INTEGER CHECK (manual_sessions >= 0);
+
+-- Keep the part of the existing counts that the ledger does not cover
+UPDATE public.monthly_plans mp
+SET manual_sessions = GREATEST(mp.actual_sessions - COALESCE((
+  SELECT COUNT(*)
+  FROM public.sessions s
+  WHERE s.user_id = mp.user_id
+    AND s.therapy_type_id = mp.therapy_type_id
+    AND s.session_date >= mp.month
+    AND s.session_date < (mp.month + INTERVAL '1 month')
+), 0), 0)
+WHERE mp.actual_sessions IS NOT NULL;
@@ -0,0 +1,23 @@
+-- How imported sessions were assigned to their therapy type
+-- Only amounts of exact price matches or assignments confirmed by the user
+-- feed the price history of the Latido import; amounts assigned within the
+-- tolerance band would otherwise become reference prices and let them drift
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS match_method TEXT
+CHECK (match_method IN ('rule', 'text', 'price', 'history', 'tolerance', 'combined', 'review', 'name'));
+
+-- Price history per therapy type, aggregated in the database
+-- Sessions imported before match methods were recorded only count from p_since
+CREATE OR REPLACE FUNCTION get_latido_price_history(p_user_id UUID, p_since DATE)
+RETURNS TABLE (therapy_type_id UUID, gross_amount DECIMAL(10, 2)) AS $$
+  SELECT s.therapy_type_id, s.gross_amount
+  FROM public.sessions s
+  WHERE s.user_id = p_user_id
+    AND s.source = 'latido'
+    AND s.gross_amount > 0
+    AND (
+      s.match_method IN ('price', 'history', 'review', 'name')
+      OR (s.match_method IS NULL AND s.session_date >= p_since)
+    )
+  GROUP BY s.therapy_type_id, s.gross_amount;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,108 @@
+-- Merge a duplicate expense into the expense that is kept, in one transaction
+-- Documents move over; a document whose file the kept expense already has is
+-- deleted once the kept copy took over its retention (with earlier versions it
+-- is retained on its own and moves as well). Bank lines and the asset move
+-- over, missing invoice number and description are taken over and the
+-- duplicate is deleted. Returns the stored files of the deleted documents,
+-- which the caller removes from storage afterwards.
+CREATE OR REPLACE FUNCTION merge_duplicate_expenses(p_user_id UUID, p_keep_id UUID, p_drop_id UUID)
+RETURNS TABLE (removed_bucket TEXT, removed_path TEXT) AS $$
+DECLARE
+  dropped RECORD;
+  kept_copy_id UUID;
+BEGIN
+  IF p_keep_id = p_drop_id THEN
+    RAISE EXCEPTION 'Expense % cannot be merged with itself', p_keep_id;
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM public.expenses e
+    WHERE e.user_id = p_user_id
+      AND e.id IN (p_keep_id, p_drop_id)
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Expenses % and % not found', p_keep_id, p_drop_id;
+  END IF;
+
+  FOR dropped IN
+    SELECT d.id, d.content_hash, d.retention_until, d.storage_bucket, d.file_path
+    FROM public.expense_documents d
+    WHERE d.user_id = p_user_id
+      AND d.expense_id = p_drop_id
+    ORDER BY d.created_at
+  LOOP
+    kept_copy_id := NULL;
+    IF dropped.content_hash IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM public.expense_document_versions v
+      WHERE v.document_id = dropped.id
+        AND v.version > 1
+    ) THEN
+      SELECT d.id INTO kept_copy_id
+      FROM public.expense_documents d
+      WHERE d.user_id = p_user_id
+        AND d.expense_id = p_keep_id
+        AND d.content_hash = dropped.content_hash
+      LIMIT 1;
+    END IF;
+
+    IF kept_copy_id IS NOT NULL THEN
+      -- Retention is never shortened, so the kept copy is retained at least as long
+      UPDATE public.expense_documents
+      SET retention_until = dropped.retention_until, updated_at = NOW()
+      WHERE id = kept_copy_id;
+
+      RETURN QUERY
+        SELECT dropped.storage_bucket, dropped.file_path
+        UNION
+        SELECT dropped.storage_bucket, v.file_path
+        FROM public.expense_document_versions v
+        WHERE v.document_id = dropped.id;
+
+      DELETE FROM public.expense_documents WHERE id = dropped.id;
+    ELSE
+      UPDATE public.expense_documents
+      SET expense_id = p_keep_id, updated_at = NOW()
+      WHERE id = dropped.id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.bank_transactions
+  SET expense_id = p_keep_id
+  WHERE user_id = p_user_id
+    AND expense_id = p_drop_id;
+
+  -- An expense has at most one asset; a second one stays without purchase expense
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.assets a
+    WHERE a.user_id = p_user_id
+      AND a.expense_id = p_keep_id
+  ) THEN
+    UPDATE public.assets
+    SET expense_id = p_keep_id
+    WHERE user_id = p_user_id
+      AND expense_id = p_drop_id;
+  END IF;
+
+  UPDATE public.expenses k
+  SET invoice_number = COALESCE(NULLIF(k.invoice_number, ''), d.invoice_number),
+    description = COALESCE(NULLIF(k.description, ''), d.description),
+    updated_at = NOW()
+  FROM public.expenses d
+  WHERE k.id = p_keep_id
+    AND d.id = p_drop_id
+    AND (
+      (NULLIF(k.invoice_number, '') IS NULL AND NULLIF(d.invoice_number, '') IS NOT NULL)
+      OR (NULLIF(k.description, '') IS NULL AND NULLIF(d.description, '') IS NOT NULL)
+    );
+
+  DELETE FROM public.expenses
+  WHERE id = p_drop_id
+    AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Takes the user as a parameter, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION merge_duplicate_expenses(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION merge_duplicate_expenses(UUID, UUID, UUID) TO service_role;